@@ -0,0 +1,230 @@
+// ============================================
+// src/config/chains.ts
+// Spraay EVM Chain Registry
+// ============================================
+// One table for every EVM chain with a live Spraay batch contract: chain ID,
+// contract, native currency, token shortcuts, RPC and gas profile. Batch
+// execute/estimate, the BPA validator and SCTP all read from here so a quote,
+// a validation and the calldata we hand back always describe the same chain.
+
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface GasProfile {
+  base: number;              // fixed overhead per batch call
+  perNativeRecipient: number;
+  perTokenRecipient: number;
+}
+
+export interface EvmChainConfig {
+  key: string;
+  name: string;
+  chainId: number;
+  spraayContract: string;
+  nativeSymbol: string;
+  nativeAliases: string[];   // other symbols accepted for the native asset
+  tokens: Record<string, TokenInfo>;
+  rpcUrl: string;
+  explorer: string;
+  gas: GasProfile;
+}
+
+const ALCHEMY_KEY = process.env.ALCHEMY_API_KEY || "";
+
+function rpc(alchemySubdomain: string, publicUrl: string): string {
+  return ALCHEMY_KEY ? `https://${alchemySubdomain}.g.alchemy.com/v2/${ALCHEMY_KEY}` : publicUrl;
+}
+
+const DEFAULT_GAS: GasProfile = { base: 50000, perNativeRecipient: 30000, perTokenRecipient: 65000 };
+
+export const BATCH_CHAINS: Record<string, EvmChainConfig> = {
+  base: {
+    key: "base",
+    name: "Base",
+    chainId: 8453,
+    spraayContract: "0x1646452F98E36A3c9Cfc3eDD8868221E207B5eEC",
+    nativeSymbol: "ETH",
+    nativeAliases: [],
+    tokens: {
+      USDC: { address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", symbol: "USDC", decimals: 6 },
+      USDT: { address: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2", symbol: "USDT", decimals: 6 },
+      EURC: { address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42", symbol: "EURC", decimals: 6 },
+      DAI: { address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb", symbol: "DAI", decimals: 18 },
+      WETH: { address: "0x4200000000000000000000000000000000000006", symbol: "WETH", decimals: 18 },
+    },
+    rpcUrl: rpc("base-mainnet", "https://mainnet.base.org"),
+    explorer: "https://basescan.org",
+    gas: DEFAULT_GAS,
+  },
+  ethereum: {
+    key: "ethereum",
+    name: "Ethereum",
+    chainId: 1,
+    spraayContract: "0x15E7aEDa45094DD2E9E746FcA1C726cAd7aE58b3",
+    nativeSymbol: "ETH",
+    nativeAliases: [],
+    tokens: {
+      USDC: { address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6 },
+      USDT: { address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", symbol: "USDT", decimals: 6 },
+      EURC: { address: "0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c", symbol: "EURC", decimals: 6 },
+      DAI: { address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", symbol: "DAI", decimals: 18 },
+      WETH: { address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", symbol: "WETH", decimals: 18 },
+    },
+    rpcUrl: rpc("eth-mainnet", "https://eth.llamarpc.com"),
+    explorer: "https://etherscan.io",
+    gas: DEFAULT_GAS,
+  },
+  arbitrum: {
+    key: "arbitrum",
+    name: "Arbitrum",
+    chainId: 42161,
+    spraayContract: "0x5be43aA67804aD84fcb890d0AE5F257fb1674302",
+    nativeSymbol: "ETH",
+    nativeAliases: [],
+    tokens: {
+      USDC: { address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", symbol: "USDC", decimals: 6 },
+      USDT: { address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", symbol: "USDT", decimals: 6 },
+      DAI: { address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", symbol: "DAI", decimals: 18 },
+      WETH: { address: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1", symbol: "WETH", decimals: 18 },
+    },
+    rpcUrl: rpc("arb-mainnet", "https://arb1.arbitrum.io/rpc"),
+    explorer: "https://arbiscan.io",
+    // ArbGas folds the L1 calldata cost into gas units, so per-recipient usage runs higher
+    gas: { base: 80000, perNativeRecipient: 40000, perTokenRecipient: 85000 },
+  },
+  polygon: {
+    key: "polygon",
+    name: "Polygon",
+    chainId: 137,
+    spraayContract: "0x6d2453ab7416c99aeDCA47CF552695be5789D7ff",
+    nativeSymbol: "POL",
+    nativeAliases: ["MATIC"],
+    tokens: {
+      USDC: { address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", symbol: "USDC", decimals: 6 },
+      USDT: { address: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F", symbol: "USDT", decimals: 6 },
+      DAI: { address: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063", symbol: "DAI", decimals: 18 },
+      WETH: { address: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619", symbol: "WETH", decimals: 18 },
+    },
+    rpcUrl: rpc("polygon-mainnet", "https://polygon-rpc.com"),
+    explorer: "https://polygonscan.com",
+    gas: DEFAULT_GAS,
+  },
+  bnb: {
+    key: "bnb",
+    name: "BNB Chain",
+    chainId: 56,
+    spraayContract: "0x3093a2951FB77b3beDfB8BA20De645F7413432C1",
+    nativeSymbol: "BNB",
+    nativeAliases: [],
+    tokens: {
+      // Binance-Peg stablecoins on BSC are 18 decimals, unlike their 6-decimal originals
+      USDC: { address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", symbol: "USDC", decimals: 18 },
+      USDT: { address: "0x55d398326f99059fF775485246999027B3197955", symbol: "USDT", decimals: 18 },
+      WETH: { address: "0x2170Ed0880ac9A755fd29B2688956BD959F933F8", symbol: "WETH", decimals: 18 },
+    },
+    rpcUrl: rpc("bnb-mainnet", "https://bsc-dataseed.binance.org"),
+    explorer: "https://bscscan.com",
+    gas: DEFAULT_GAS,
+  },
+  avalanche: {
+    key: "avalanche",
+    name: "Avalanche",
+    chainId: 43114,
+    spraayContract: "0x6A41Fb5F5CfE632f9446b548980dA6cE2d75afcC",
+    nativeSymbol: "AVAX",
+    nativeAliases: [],
+    tokens: {
+      USDC: { address: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", symbol: "USDC", decimals: 6 },
+      USDT: { address: "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7", symbol: "USDT", decimals: 6 },
+      WETH: { address: "0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB", symbol: "WETH", decimals: 18 },
+    },
+    rpcUrl: rpc("avax-mainnet", "https://api.avax.network/ext/bc/C/rpc"),
+    explorer: "https://snowtrace.io",
+    gas: DEFAULT_GAS,
+  },
+  unichain: {
+    key: "unichain",
+    name: "Unichain",
+    chainId: 130,
+    spraayContract: "0x08fA5D1c16CD6E2a16FC0E4839f262429959E073",
+    nativeSymbol: "ETH",
+    nativeAliases: [],
+    tokens: {
+      WETH: { address: "0x4200000000000000000000000000000000000006", symbol: "WETH", decimals: 18 },
+    },
+    rpcUrl: rpc("unichain-mainnet", "https://mainnet.unichain.org"),
+    explorer: "https://uniscan.xyz",
+    gas: DEFAULT_GAS,
+  },
+};
+
+export const BATCH_CHAIN_KEYS = Object.keys(BATCH_CHAINS);
+
+const CHAIN_ALIASES: Record<string, string> = {
+  eth: "ethereum",
+  mainnet: "ethereum",
+  arb: "arbitrum",
+  poly: "polygon",
+  matic: "polygon",
+  bsc: "bnb",
+  binance: "bnb",
+  avax: "avalanche",
+  uni: "unichain",
+};
+
+/**
+ * Look up a chain by key ("arbitrum"), alias ("arb") or EIP-155 chain ID
+ * ("42161" or 42161). Returns null for chains without a Spraay contract.
+ */
+export function getBatchChain(input: string | number | null | undefined): EvmChainConfig | null {
+  if (input === null || input === undefined || input === "") return null;
+  const lower = String(input).trim().toLowerCase();
+  if (BATCH_CHAINS[lower]) return BATCH_CHAINS[lower];
+  if (CHAIN_ALIASES[lower]) return BATCH_CHAINS[CHAIN_ALIASES[lower]];
+  if (/^\d+$/.test(lower)) {
+    return Object.values(BATCH_CHAINS).find((c) => c.chainId === Number(lower)) || null;
+  }
+  return null;
+}
+
+export interface ResolvedToken {
+  address: string;
+  decimals: number;
+  symbol: string;
+  isNative: boolean;
+  known: boolean;            // listed in the chain's token registry (or native)
+}
+
+/**
+ * Resolve a token for a chain: its native symbol (or "NATIVE"), a registry
+ * symbol ("USDC"), or any ERC-20 address. Unknown symbols come back with an
+ * empty address so callers can reject them.
+ */
+export function resolveChainToken(chain: EvmChainConfig, tokenInput: string | null | undefined): ResolvedToken {
+  const upper = (tokenInput || "").trim().toUpperCase();
+  if (!upper || upper === "NATIVE" || upper === chain.nativeSymbol || chain.nativeAliases.includes(upper)) {
+    return { address: "0x0000000000000000000000000000000000000000", decimals: 18, symbol: chain.nativeSymbol, isNative: true, known: true };
+  }
+
+  const bySymbol = chain.tokens[upper];
+  if (bySymbol) return { ...bySymbol, isNative: false, known: true };
+
+  const input = tokenInput!.trim();
+  if (/^0x[0-9a-fA-F]{40}$/.test(input)) {
+    const byAddress = Object.values(chain.tokens).find((t) => t.address.toLowerCase() === input.toLowerCase());
+    return byAddress
+      ? { ...byAddress, isNative: false, known: true }
+      : { address: input, decimals: 18, symbol: "ERC20", isNative: false, known: false };
+  }
+
+  return { address: "", decimals: 18, symbol: input, isNative: false, known: false };
+}
+
+/** Gas units for one batch call on a chain. Approximate — no RPC round trip. */
+export function estimateBatchGas(chain: EvmChainConfig, recipientCount: number, isNative: boolean): number {
+  const perRecipient = isNative ? chain.gas.perNativeRecipient : chain.gas.perTokenRecipient;
+  return chain.gas.base + perRecipient * recipientCount;
+}
@@ -27,6 +27,8 @@ export const ENDPOINT_PRICES: Record<string, EndpointPrice> = {
   // ---- Batch Payments ----
   "POST /api/v1/batch/execute":            { price: "0.02",  category: "payments" },
   "POST /api/v1/batch/estimate":           { price: "0.001", category: "payments" },
+  "POST /api/v1/batch/report":             { price: "0.005", category: "payments" },
+  "GET /api/v1/batch/:id":                 { price: "0.001", category: "payments" },
 
   // ---- Stellar ----
   "POST /api/v1/stellar/batch":            { price: "0.02",  category: "payments" },
@@ -54,11 +56,23 @@ export const ENDPOINT_PRICES: Record<string, EndpointPrice> = {
   "POST /api/v1/payroll/execute":          { price: "0.10",  category: "payroll" },
   "POST /api/v1/payroll/estimate":         { price: "0.003", category: "payroll" },
   "GET /api/v1/payroll/tokens":            { price: "0.002", category: "payroll" },
+  "POST /api/v1/payroll/roster":           { price: "0.01",  category: "payroll" },
+  "GET /api/v1/payroll/roster":            { price: "0.002", category: "payroll" },
+  "POST /api/v1/payroll/run":              { price: "0.10",  category: "payroll" },
+  "POST /api/v1/payroll/schedule":         { price: "0.05",  category: "payroll" },
+  "GET /api/v1/payroll/schedule/:id":      { price: "0.01",  category: "payroll" },
+  "POST /api/v1/payroll/schedule/:id/cancel": { price: "0.01", category: "payroll" },
+  "GET /api/v1/payroll/history":           { price: "0.01",  category: "payroll" },
 
   // ---- Invoice ----
   "POST /api/v1/invoice/create":           { price: "0.05",  category: "invoice" },
   "GET /api/v1/invoice/list":              { price: "0.01",  category: "invoice" },
   "GET /api/v1/invoice/:id":               { price: "0.01",  category: "invoice" },
+  "GET /api/v1/invoice/:id/export":        { price: "0.01",  category: "invoice" },
+  "POST /api/v1/invoice/recurring":        { price: "0.05",  category: "invoice" },
+  "GET /api/v1/invoice/recurring/:id":     { price: "0.01",  category: "invoice" },
+  "POST /api/v1/invoice/recurring/:id/cancel": { price: "0.01", category: "invoice" },
+  "POST /api/v1/invoice/remind":           { price: "0.01",  category: "invoice" },
 
   // ---- Analytics ----
   "GET /api/v1/analytics/wallet":          { price: "0.01",  category: "analytics" },
@@ -69,6 +83,11 @@ export const ENDPOINT_PRICES: Record<string, EndpointPrice> = {
   "GET /api/v1/escrow/list":               { price: "0.02",  category: "escrow" },
   "GET /api/v1/escrow/:id":                { price: "0.005", category: "escrow" },
   "POST /api/v1/escrow/fund":              { price: "0.02",  category: "escrow" },
+  "POST /api/v1/escrow/verify":            { price: "0.01",  category: "escrow" },
+  "POST /api/v1/escrow/milestone/approve": { price: "0.01",  category: "escrow" },
+  "POST /api/v1/escrow/dispute":           { price: "0.02",  category: "escrow" },
+  "POST /api/v1/escrow/dispute/evidence":  { price: "0.01",  category: "escrow" },
+  "POST /api/v1/escrow/dispute/resolve":   { price: "0.05",  category: "escrow" },
   "POST /api/v1/escrow/release":           { price: "0.08",  category: "escrow" },
   "POST /api/v1/escrow/cancel":            { price: "0.02",  category: "escrow" },
 
@@ -98,20 +117,31 @@ export const ENDPOINT_PRICES: Record<string, EndpointPrice> = {
   "POST /api/v1/cron/create":              { price: "0.01",  category: "infrastructure" },
   "GET /api/v1/cron/list":                 { price: "0.002", category: "infrastructure" },
   "POST /api/v1/cron/cancel":              { price: "0.002", category: "infrastructure" },
+  "GET /api/v1/cron/:id/runs":             { price: "0.002", category: "infrastructure" },
+  "POST /api/v1/cron/:id/trigger":         { price: "0.01",  category: "infrastructure" },
+  "POST /api/v1/cron/:id/pause":           { price: "0.002", category: "infrastructure" },
+  "POST /api/v1/cron/:id/resume":          { price: "0.002", category: "infrastructure" },
   "POST /api/v1/logs/ingest":              { price: "0.002", category: "infrastructure" },
   "GET /api/v1/logs/query":                { price: "0.005", category: "infrastructure" },
 
   // ---- Identity & Access ----
   "POST /api/v1/kyc/verify":               { price: "0.02",  category: "identity" },
   "GET /api/v1/kyc/status":                { price: "0.01",  category: "identity" },
+  "GET /api/v1/kyc/history":               { price: "0.01",  category: "identity" },
+  "POST /api/v1/kyc/monitor":              { price: "0.05",  category: "identity" },
+  "GET /api/v1/kyc/monitor/:id":           { price: "0.01",  category: "identity" },
+  "POST /api/v1/kyc/monitor/:id/cancel":   { price: "0.01",  category: "identity" },
   "POST /api/v1/auth/session":             { price: "0.01",  category: "identity" },
   "GET /api/v1/auth/verify":               { price: "0.005", category: "identity" },
 
   // ---- Compliance ----
   "POST /api/v1/audit/log":                { price: "0.005", category: "compliance" },
   "GET /api/v1/audit/query":               { price: "0.03",  category: "compliance" },
+  "GET /api/v1/audit/verify":              { price: "0.02",  category: "compliance" },
+  "GET /api/v1/audit/proof":               { price: "0.01",  category: "compliance" },
   "POST /api/v1/tax/calculate":            { price: "0.08",  category: "compliance" },
   "GET /api/v1/tax/report":                { price: "0.05",  category: "compliance" },
+  "POST /api/v1/tax/import-wallet":        { price: "0.10",  category: "compliance" },
 
   // ---- GPU/Compute ----
   "POST /api/v1/gpu/run":                  { price: "0.06",  category: "gpu" },
@@ -1,45 +1,33 @@
-import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { storage, eq, ilike, gte, lt, lte, inList, anyOf, Filter } from "./storage/index.js";
 
 // ============================================
 // Spraay x402 Gateway — Database Layer
-// Drop-in replacement for all Map() stores
+// Drop-in replacement for all Map() stores.
+// Backed by the storage adapter (Supabase or in-memory) — see storage/index.ts.
 // ============================================
 
-const SUPABASE_URL = process.env.SUPABASE_URL!;
-const SUPABASE_KEY = process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_KEY!;
-
-if (!SUPABASE_URL || !SUPABASE_KEY) {
-  throw new Error("SUPABASE_URL and SUPABASE_KEY (or SUPABASE_SERVICE_KEY) are required");
-}
-
-export const supabase: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_KEY);
+export { storage };
 
 // ============================================
 // Generic helpers
 // ============================================
 
 async function insert<T extends Record<string, any>>(table: string, row: T): Promise<T> {
-  const { data, error } = await (supabase.from(table) as any).insert(row).select().single();
-  if (error) throw new Error(`DB insert ${table}: ${error.message}`);
-  return data as T;
+  return storage.insert<T>(table, row);
 }
 
-async function getById<T>(table: string, id: string): Promise<T | null> {
-  const { data, error } = await supabase.from(table).select("*").eq("id", id).single();
-  if (error && error.code === "PGRST116") return null; // not found
-  if (error) throw new Error(`DB get ${table}: ${error.message}`);
-  return data as T;
+async function getById<T extends Record<string, any>>(table: string, id: string): Promise<T | null> {
+  return storage.findOne<T>(table, [eq("id", id)]);
 }
 
 async function update<T extends Record<string, any>>(table: string, id: string, updates: Partial<T>): Promise<T> {
-  const { data, error } = await (supabase.from(table) as any).update(updates).eq("id", id).select().single();
-  if (error) throw new Error(`DB update ${table}: ${error.message}`);
-  return data as T;
+  const [row] = await storage.update<T>(table, [eq("id", id)], updates);
+  if (!row) throw new Error(`DB update ${table}: no row with id ${id}`);
+  return row;
 }
 
 async function deleteById(table: string, id: string): Promise<boolean> {
-  const { error } = await supabase.from(table).delete().eq("id", id);
-  if (error) throw new Error(`DB delete ${table}: ${error.message}`);
+  await storage.remove(table, [eq("id", id)]);
   return true;
 }
 
@@ -61,12 +49,16 @@ export const escrowDb = {
       amount_raw: escrow.amountRaw,
       description: escrow.description,
       conditions: escrow.conditions,
+      milestones: escrow.milestones || null,
+      released_raw: escrow.releasedRaw || "0",
       status: escrow.status,
       expires_at: escrow.expiresAt,
       funded_at: escrow.fundedAt,
       released_at: escrow.releasedAt,
       cancelled_at: escrow.cancelledAt,
       release_tx_hash: escrow.releaseTxHash,
+      holding_address: escrow.holdingAddress,
+      funding_status: escrow.fundingStatus || "awaiting_tx",
       created_at: escrow.createdAt,
       updated_at: escrow.updatedAt,
     });
@@ -78,6 +70,22 @@ export const escrowDb = {
   },
 
   async update(id: string, updates: Record<string, any>) {
+    await update("escrows", id.toUpperCase(), escrowDb._toRow(updates));
+  },
+
+  /**
+   * Apply updates only while the escrow is still in `from` — its status and
+   * released amount as the caller read them. Returns false when another
+   * request changed it first.
+   */
+  async transition(id: string, from: { status: string; releasedRaw: string }, updates: Record<string, any>) {
+    const rows = await storage.update("escrows", [
+      eq("id", id.toUpperCase()), eq("status", from.status), eq("released_raw", from.releasedRaw),
+    ], escrowDb._toRow(updates));
+    return rows.length > 0;
+  },
+
+  _toRow(updates: Record<string, any>) {
     // Convert camelCase to snake_case for the fields we update
     const mapped: Record<string, any> = {};
     if ("status" in updates) mapped.status = updates.status;
@@ -85,19 +93,70 @@ export const escrowDb = {
     if ("releasedAt" in updates) mapped.released_at = updates.releasedAt;
     if ("cancelledAt" in updates) mapped.cancelled_at = updates.cancelledAt;
     if ("releaseTxHash" in updates) mapped.release_tx_hash = updates.releaseTxHash;
+    if ("fundingTxHash" in updates) mapped.funding_tx_hash = updates.fundingTxHash;
+    if ("fundingStatus" in updates) mapped.funding_status = updates.fundingStatus;
+    if ("funding" in updates) mapped.funding = updates.funding;
+    if ("webhookId" in updates) mapped.webhook_id = updates.webhookId;
+    if ("milestones" in updates) mapped.milestones = updates.milestones;
+    if ("releasedRaw" in updates) mapped.released_raw = updates.releasedRaw;
+    if ("dispute" in updates) mapped.dispute = updates.dispute;
     mapped.updated_at = new Date().toISOString();
-    await update("escrows", id.toUpperCase(), mapped);
+    return mapped;
   },
 
   async listByAddress(address: string, statusFilter?: string | null) {
     const lower = address.toLowerCase();
-    let query = supabase.from("escrows").select("*")
-      .or(`depositor.ilike.${lower},beneficiary.ilike.${lower},arbiter.ilike.${lower}`);
-    if (statusFilter) query = query.eq("status", statusFilter);
-    query = query.order("created_at", { ascending: false });
-    const { data, error } = await query;
-    if (error) throw new Error(`DB list escrows: ${error.message}`);
-    return (data || []).map(escrowDb._fromRow);
+    const where: Filter[] = [anyOf(ilike("depositor", lower), ilike("beneficiary", lower), ilike("arbiter", lower))];
+    if (statusFilter) where.push(eq("status", statusFilter));
+    const rows = await storage.findMany("escrows", { where, orderBy: { column: "created_at", ascending: false } });
+    return rows.map(escrowDb._fromRow);
+  },
+
+  /** created → funded, only if still unfunded. Returns false when another worker got there first. */
+  async markFunded(id: string, fundedAt: string) {
+    const rows = await storage.update("escrows", [eq("id", id.toUpperCase()), eq("status", "created")], {
+      status: "funded", funded_at: fundedAt, updated_at: fundedAt,
+    });
+    return rows.length > 0;
+  },
+
+  async listByStatus(status: string) {
+    const rows = await storage.findMany("escrows", { where: [eq("status", status)], orderBy: { column: "updated_at", ascending: true } });
+    return rows.map(escrowDb._fromRow);
+  },
+
+  /** Escrows with a reported funding tx still waiting on confirmations. */
+  async listPendingFunding(limit: number = 25) {
+    const rows = await storage.findMany("escrows", {
+      where: [eq("funding_status", "pending")],
+      orderBy: { column: "updated_at", ascending: true },
+      limit,
+    });
+    return rows.map(escrowDb._fromRow);
+  },
+
+  /**
+   * Record the depositor's funding tx while the escrow is still unfunded.
+   * escrows has a unique index on funding_tx_hash (stored lowercased), so a
+   * tx claimed by another escrow in the meantime fails here rather than
+   * funding both. Returns "claimed" in that case and "changed" when the
+   * escrow left `created` first.
+   */
+  async attachFundingTx(id: string, txHash: string): Promise<"attached" | "claimed" | "changed"> {
+    try {
+      const rows = await storage.update("escrows", [eq("id", id.toUpperCase()), eq("status", "created")], escrowDb._toRow({
+        fundingTxHash: txHash.toLowerCase(), fundingStatus: "pending", funding: null,
+      }));
+      return rows.length > 0 ? "attached" : "changed";
+    } catch (error: any) {
+      if (/duplicate key/i.test(error.message)) return "claimed";
+      throw error;
+    }
+  },
+
+  async findByFundingTx(txHash: string) {
+    const row = await storage.findOne("escrows", [ilike("funding_tx_hash", txHash)]);
+    return row ? escrowDb._fromRow(row) : null;
   },
 
   _fromRow(row: any) {
@@ -111,12 +170,20 @@ export const escrowDb = {
       amountRaw: row.amount_raw,
       description: row.description,
       conditions: row.conditions || [],
+      milestones: row.milestones || null,
+      releasedRaw: row.released_raw || "0",
+      dispute: row.dispute || null,
       status: row.status,
       expiresAt: row.expires_at,
       fundedAt: row.funded_at,
       releasedAt: row.released_at,
       cancelledAt: row.cancelled_at,
       releaseTxHash: row.release_tx_hash,
+      holdingAddress: row.holding_address || null,
+      fundingTxHash: row.funding_tx_hash || null,
+      fundingStatus: row.funding_status || "awaiting_tx",
+      funding: row.funding || null,
+      webhookId: row.webhook_id || null,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
@@ -144,6 +211,16 @@ export const invoiceDb = {
       due_date: inv.dueDate,
       status: inv.status,
       payment_tx: inv.paymentTx,
+      pay_amount_raw: inv.payAmountRaw,
+      received_raw: "0",
+      payments: [],
+      webhook_id: inv.webhookId || null,
+      schedule_id: inv.scheduleId || null,
+      reminders: inv.reminders || null,
+      reminder_history: [],
+      next_reminder_at: inv.nextReminderAt || null,
+      solana_pay: inv.solanaPay || null,
+      fiat_value: inv.fiatValue || null,
       created_at: inv.createdAt,
       updated_at: inv.updatedAt,
     });
@@ -158,19 +235,67 @@ export const invoiceDb = {
     const mapped: Record<string, any> = {};
     if ("status" in updates) mapped.status = updates.status;
     if ("paymentTx" in updates) mapped.payment_tx = updates.paymentTx;
+    if ("webhookId" in updates) mapped.webhook_id = updates.webhookId;
+    if ("reminderHistory" in updates) mapped.reminder_history = updates.reminderHistory;
+    if ("nextReminderAt" in updates) mapped.next_reminder_at = updates.nextReminderAt;
     mapped.updated_at = new Date().toISOString();
     await update("invoices", id.toUpperCase(), mapped);
   },
 
+  /**
+   * Apply a reconciled payment, only if the invoice hasn't changed since it
+   * was read. Returns false when another worker recorded a payment first.
+   */
+  async recordPayment(id: string, expectedUpdatedAt: string, patch: { status: string; receivedRaw: string; payments: any[]; paymentTx: string; paidAt: string | null }) {
+    const rows = await storage.update("invoices", [eq("id", id.toUpperCase()), eq("updated_at", expectedUpdatedAt)], {
+      status: patch.status, received_raw: patch.receivedRaw, payments: patch.payments,
+      payment_tx: patch.paymentTx, paid_at: patch.paidAt, updated_at: new Date().toISOString(),
+    });
+    return rows.length > 0;
+  },
+
+  /** Invoices the reconciler still watches: unpaid, partially paid, or expired but payable late. */
+  async listOpen(limit: number = 500) {
+    const rows = await storage.findMany("invoices", {
+      where: [inList("status", ["pending", "partially_paid", "overdue", "expired"])],
+      orderBy: { column: "created_at", ascending: false },
+      limit,
+    });
+    return rows.map(invoiceDb._fromRow);
+  },
+
+  /** pending → overdue for every invoice whose dueDate has passed. Returns the invoices moved. */
+  async markOverdue(now: string) {
+    const rows = await storage.update("invoices", [eq("status", "pending"), lt("due_date", now)], {
+      status: "overdue", updated_at: now,
+    });
+    return rows.map(invoiceDb._fromRow);
+  },
+
+  /** Unpaid invoices whose next scheduled reminder is due. */
+  async listReminderDue(now: string, limit: number = 50) {
+    const rows = await storage.findMany("invoices", {
+      where: [inList("status", ["pending", "partially_paid", "overdue"]), lte("next_reminder_at", now)],
+      orderBy: { column: "next_reminder_at", ascending: true },
+      limit,
+    });
+    return rows.map(invoiceDb._fromRow);
+  },
+
+  async listBySchedule(scheduleId: string) {
+    const rows = await storage.findMany("invoices", {
+      where: [eq("schedule_id", scheduleId)],
+      orderBy: { column: "created_at", ascending: false },
+    });
+    return rows.map(invoiceDb._fromRow);
+  },
+
   async listByAddress(address: string, statusFilter?: string | null) {
     const lower = address.toLowerCase();
-    let query = supabase.from("invoices").select("*")
-      .or(`creator.ilike.${lower},recipient.ilike.${lower}`);
-    if (statusFilter) query = query.eq("status", statusFilter);
-    query = query.order("created_at", { ascending: false });
-    const { data, error } = await query;
-    if (error) throw new Error(`DB list invoices: ${error.message}`);
-    return (data || []).map(invoiceDb._fromRow);
+    const where: Filter[] = [anyOf(ilike("creator", lower), ilike("recipient", lower))];
+    if (statusFilter) where.push(eq("status", statusFilter));
+    const rows = await storage.findMany("invoices", { where, orderBy: { column: "created_at", ascending: false } });
+    return rows.map(invoiceDb._fromRow);
   },
 
   _fromRow(row: any) {
@@ -186,12 +311,438 @@ export const invoiceDb = {
       dueDate: row.due_date,
       status: row.status,
       paymentTx: row.payment_tx,
+      payAmountRaw: row.pay_amount_raw || null,
+      receivedRaw: row.received_raw || "0",
+      payments: row.payments || [],
+      paidAt: row.paid_at || null,
+      webhookId: row.webhook_id || null,
+      scheduleId: row.schedule_id || null,
+      reminders: row.reminders || null,
+      reminderHistory: row.reminder_history || [],
+      nextReminderAt: row.next_reminder_at || null,
+      solanaPay: row.solana_pay || null,
+      fiatValue: row.fiat_value || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  },
+};
+
+// ============================================
+// RECURRING INVOICE TEMPLATES
+// ============================================
+
+export const invoiceScheduleDb = {
+  async create(schedule: any) {
+    return insert("invoice_schedules", {
+      id: schedule.id,
+      creator: schedule.creator,
+      recipient: schedule.recipient,
+      token_symbol: schedule.token.symbol,
+      token_address: schedule.token.address,
+      amount: schedule.amount,
+      memo: schedule.memo,
+      reference: schedule.reference,
+      recurrence: schedule.recurrence,
+      due_in_days: schedule.dueInDays,
+      reminders: schedule.reminders,
+      max_invoices: schedule.maxInvoices,
+      end_date: schedule.endDate,
+      status: schedule.status,
+      next_issue_at: schedule.nextIssueAt,
+      issued_count: 0,
+      last_invoice_id: null,
+      webhook_id: schedule.webhookId || null,
+      created_at: schedule.createdAt,
+      updated_at: schedule.createdAt,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("invoice_schedules", id.toUpperCase());
+    return row ? invoiceScheduleDb._fromRow(row) : null;
+  },
+
+  async update(id: string, updates: Record<string, any>) {
+    const mapped: Record<string, any> = {};
+    if ("status" in updates) mapped.status = updates.status;
+    if ("nextIssueAt" in updates) mapped.next_issue_at = updates.nextIssueAt;
+    if ("issuedCount" in updates) mapped.issued_count = updates.issuedCount;
+    if ("lastInvoiceId" in updates) mapped.last_invoice_id = updates.lastInvoiceId;
+    if ("webhookId" in updates) mapped.webhook_id = updates.webhookId;
+    mapped.updated_at = new Date().toISOString();
+    await update("invoice_schedules", id.toUpperCase(), mapped);
+  },
+
+  /** Active templates with an issue date in the past. */
+  async listDue(now: string, limit: number = 25) {
+    const rows = await storage.findMany("invoice_schedules", {
+      where: [eq("status", "active"), lte("next_issue_at", now)],
+      orderBy: { column: "next_issue_at", ascending: true },
+      limit,
+    });
+    return rows.map(invoiceScheduleDb._fromRow);
+  },
+
+  /** Take one occurrence by moving next_issue_at forward; false when another instance took it. */
+  async claim(id: string, expectedNextIssue: string, nextIssueAt: string | null) {
+    const rows = await storage.update("invoice_schedules", [eq("id", id), eq("next_issue_at", expectedNextIssue)], { next_issue_at: nextIssueAt });
+    return rows.length > 0;
+  },
+
+  _fromRow(row: any) {
+    return {
+      id: row.id,
+      creator: row.creator,
+      recipient: row.recipient,
+      token: { symbol: row.token_symbol, address: row.token_address },
+      amount: row.amount,
+      memo: row.memo,
+      reference: row.reference,
+      recurrence: row.recurrence,
+      dueInDays: row.due_in_days,
+      reminders: row.reminders || null,
+      maxInvoices: row.max_invoices,
+      endDate: row.end_date,
+      status: row.status,
+      nextIssueAt: row.next_issue_at,
+      issuedCount: row.issued_count || 0,
+      lastInvoiceId: row.last_invoice_id || null,
+      webhookId: row.webhook_id || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  },
+};
+
+// ============================================
+// BATCHES (executed batch payments + settlement)
+// ============================================
+
+export const batchDb = {
+  async create(batch: any) {
+    return insert("batches", {
+      id: batch.id,
+      parent_batch_id: batch.parentBatchId || null,
+      chunk_index: batch.chunkIndex ?? null,
+      chain: batch.chain,
+      chain_id: batch.chainId,
+      contract: batch.contract,
+      token_symbol: batch.token.symbol,
+      token_address: batch.token.address,
+      token_decimals: batch.token.decimals,
+      is_native: batch.token.isNative,
+      sender: batch.sender || null,
+      recipients: batch.recipients,
+      total_raw: batch.totalRaw,
+      fee_raw: batch.feeRaw,
+      status: batch.status,
+      tx_hash: null,
+      settlement: null,
+      created_at: batch.createdAt,
+      updated_at: batch.createdAt,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("batches", id.toLowerCase());
+    return row ? batchDb._fromRow(row) : null;
+  },
+
+  async listByParent(parentBatchId: string) {
+    const rows = await storage.findMany("batches", {
+      where: [eq("parent_batch_id", parentBatchId.toLowerCase())],
+      orderBy: { column: "chunk_index", ascending: true },
+    });
+    return rows.map(batchDb._fromRow);
+  },
+
+  /**
+   * Apply updates only while the batch is in one of `fromStatuses`.
+   * Returns false when the batch has already moved on (another worker, or a re-report).
+   */
+  async transition(id: string, fromStatuses: string[], updates: Record<string, any>) {
+    const mapped: Record<string, any> = { updated_at: new Date().toISOString() };
+    if ("status" in updates) mapped.status = updates.status;
+    if ("txHash" in updates) mapped.tx_hash = updates.txHash;
+    if ("txSource" in updates) mapped.tx_source = updates.txSource;
+    if ("settlement" in updates) mapped.settlement = updates.settlement;
+    if ("detection" in updates) mapped.detection = updates.detection;
+    if ("settledAt" in updates) mapped.settled_at = updates.settledAt;
+    const rows = await storage.update("batches", [eq("id", id.toLowerCase()), inList("status", fromStatuses)], mapped);
+    return rows.length > 0;
+  },
+
+  /** Batches the tracker still has work on, least recently checked first. */
+  async listTrackable(statuses: string[], limit: number = 25) {
+    const rows = await storage.findMany("batches", {
+      where: [inList("status", statuses)],
+      orderBy: { column: "updated_at", ascending: true },
+      limit,
+    });
+    return rows.map(batchDb._fromRow);
+  },
+
+  async findByTxHash(txHash: string) {
+    const row = await storage.findOne("batches", [ilike("tx_hash", txHash)]);
+    return row ? batchDb._fromRow(row) : null;
+  },
+
+  _fromRow(row: any) {
+    return {
+      id: row.id,
+      parentBatchId: row.parent_batch_id || null,
+      chunkIndex: row.chunk_index ?? null,
+      chain: row.chain,
+      chainId: row.chain_id,
+      contract: row.contract,
+      token: { symbol: row.token_symbol, address: row.token_address, decimals: row.token_decimals, isNative: !!row.is_native },
+      sender: row.sender || null,
+      recipients: row.recipients || [],
+      totalRaw: row.total_raw,
+      feeRaw: row.fee_raw,
+      status: row.status,
+      txHash: row.tx_hash || null,
+      txSource: row.tx_source || null,
+      settlement: row.settlement || null,
+      detection: row.detection || null,
+      settledAt: row.settled_at || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  },
+};
+
+// ============================================
+// PAYROLL (roster, pay schedules, run history)
+// ============================================
+
+export const payrollRosterDb = {
+  async create(employee: any) {
+    return insert("payroll_employees", {
+      id: employee.id,
+      employer: employee.employer.toLowerCase(),
+      address: employee.address,
+      amount: employee.amount,
+      token_symbol: employee.token,
+      currency: employee.currency || null,
+      label: employee.label,
+      active: employee.active,
+      created_at: employee.createdAt,
+      updated_at: employee.createdAt,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("payroll_employees", id.toUpperCase());
+    return row ? payrollRosterDb._fromRow(row) : null;
+  },
+
+  async listByEmployer(employer: string, activeOnly: boolean = false) {
+    const rows = await storage.findMany("payroll_employees", {
+      where: [eq("employer", employer.toLowerCase()), ...(activeOnly ? [eq("active", true)] : [])],
+      orderBy: { column: "created_at", ascending: true },
+    });
+    return rows.map(payrollRosterDb._fromRow);
+  },
+
+  async findByAddress(employer: string, address: string) {
+    const row = await storage.findOne("payroll_employees", [eq("employer", employer.toLowerCase()), ilike("address", address)]);
+    return row ? payrollRosterDb._fromRow(row) : null;
+  },
+
+  async update(id: string, updates: Record<string, any>) {
+    const mapped: Record<string, any> = {};
+    if ("address" in updates) mapped.address = updates.address;
+    if ("amount" in updates) mapped.amount = updates.amount;
+    if ("token" in updates) mapped.token_symbol = updates.token;
+    if ("currency" in updates) mapped.currency = updates.currency;
+    if ("label" in updates) mapped.label = updates.label;
+    if ("active" in updates) mapped.active = updates.active;
+    mapped.updated_at = new Date().toISOString();
+    const row = await update("payroll_employees", id.toUpperCase(), mapped);
+    return payrollRosterDb._fromRow(row);
+  },
+
+  _fromRow(row: any) {
+    return {
+      id: row.id,
+      employer: row.employer,
+      address: row.address,
+      amount: row.amount,
+      token: row.token_symbol,
+      currency: row.currency || null,
+      label: row.label || null,
+      active: !!row.active,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   },
 };
 
+export const payrollScheduleDb = {
+  async create(schedule: any) {
+    return insert("payroll_schedules", {
+      id: schedule.id,
+      employer: schedule.employer.toLowerCase(),
+      frequency: schedule.frequency,
+      recurrence: schedule.recurrence,
+      memo: schedule.memo,
+      chunk: schedule.chunk,
+      end_date: schedule.endDate,
+      status: schedule.status,
+      next_run_at: schedule.nextRunAt,
+      run_count: 0,
+      last_run_id: null,
+      webhook_id: schedule.webhookId || null,
+      created_at: schedule.createdAt,
+      updated_at: schedule.createdAt,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("payroll_schedules", id.toUpperCase());
+    return row ? payrollScheduleDb._fromRow(row) : null;
+  },
+
+  async update(id: string, updates: Record<string, any>) {
+    const mapped: Record<string, any> = {};
+    if ("status" in updates) mapped.status = updates.status;
+    if ("nextRunAt" in updates) mapped.next_run_at = updates.nextRunAt;
+    if ("runCount" in updates) mapped.run_count = updates.runCount;
+    if ("lastRunId" in updates) mapped.last_run_id = updates.lastRunId;
+    if ("webhookId" in updates) mapped.webhook_id = updates.webhookId;
+    mapped.updated_at = new Date().toISOString();
+    await update("payroll_schedules", id.toUpperCase(), mapped);
+  },
+
+  /** Active schedules with a pay date in the past. */
+  async listDue(now: string, limit: number = 25) {
+    const rows = await storage.findMany("payroll_schedules", {
+      where: [eq("status", "active"), lte("next_run_at", now)],
+      orderBy: { column: "next_run_at", ascending: true },
+      limit,
+    });
+    return rows.map(payrollScheduleDb._fromRow);
+  },
+
+  /** active → cancelled; false when the schedule was no longer active. */
+  async cancel(id: string) {
+    const rows = await storage.update("payroll_schedules", [eq("id", id.toUpperCase()), eq("status", "active")], {
+      status: "cancelled", next_run_at: null, updated_at: new Date().toISOString(),
+    });
+    return rows.length > 0;
+  },
+
+  /** Take one pay date by moving next_run_at forward; false when another instance took it. */
+  async claim(id: string, expectedNextRun: string, nextRunAt: string | null) {
+    const rows = await storage.update("payroll_schedules", [eq("id", id), eq("next_run_at", expectedNextRun)], { next_run_at: nextRunAt });
+    return rows.length > 0;
+  },
+
+  _fromRow(row: any) {
+    return {
+      id: row.id,
+      employer: row.employer,
+      frequency: row.frequency,
+      recurrence: row.recurrence,
+      memo: row.memo || null,
+      chunk: !!row.chunk,
+      endDate: row.end_date || null,
+      status: row.status,
+      nextRunAt: row.next_run_at,
+      runCount: row.run_count || 0,
+      lastRunId: row.last_run_id || null,
+      webhookId: row.webhook_id || null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  },
+};
+
+export const payrollRunsDb = {
+  async create(run: any) {
+    return insert("payroll_runs", {
+      id: run.id,
+      employer: run.employer.toLowerCase(),
+      schedule_id: run.scheduleId || null,
+      trigger: run.trigger,
+      pay_date: run.payDate,
+      memo: run.memo,
+      status: run.status,
+      employees: run.employees,
+      payments: run.payments,
+      error: run.error || null,
+      created_at: run.createdAt,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("payroll_runs", id.toUpperCase());
+    return row ? payrollRunsDb._fromRow(row) : null;
+  },
+
+  /** Runs for an employer, newest pay date first. */
+  async listByEmployer(employer: string) {
+    const rows = await storage.findMany("payroll_runs", {
+      where: [eq("employer", employer.toLowerCase())],
+      orderBy: { column: "pay_date", ascending: false },
+    });
+    return rows.map(payrollRunsDb._fromRow);
+  },
+
+  async listBySchedule(scheduleId: string) {
+    const rows = await storage.findMany("payroll_runs", {
+      where: [eq("schedule_id", scheduleId)],
+      orderBy: { column: "pay_date", ascending: false },
+    });
+    return rows.map(payrollRunsDb._fromRow);
+  },
+
+  _fromRow(row: any) {
+    return {
+      id: row.id,
+      employer: row.employer,
+      scheduleId: row.schedule_id || null,
+      trigger: row.trigger,
+      payDate: row.pay_date,
+      memo: row.memo || null,
+      status: row.status,
+      employees: row.employees || [],
+      payments: row.payments || [],
+      error: row.error || null,
+      createdAt: row.created_at,
+    };
+  },
+};
+
+export const payrollFxQuoteDb = {
+  async create(quote: any) {
+    return insert("payroll_fx_quotes", {
+      id: quote.id,
+      token_symbol: quote.token,
+      rates: quote.rates,
+      locked_until: quote.lockedUntil,
+      created_at: quote.createdAt,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("payroll_fx_quotes", id.toUpperCase());
+    return row ? payrollFxQuoteDb._fromRow(row) : null;
+  },
+
+  _fromRow(row: any) {
+    return {
+      id: row.id,
+      token: row.token_symbol,
+      rates: row.rates || [],
+      lockedUntil: row.locked_until,
+      createdAt: row.created_at,
+    };
+  },
+};
+
 // ============================================
 // WEBHOOK
 // ============================================
@@ -222,11 +773,9 @@ export const webhookDb = {
   },
 
   async list(statusFilter?: string | null) {
-    let query = supabase.from("webhooks").select("*");
-    if (statusFilter) query = query.eq("status", statusFilter);
-    const { data, error } = await query;
-    if (error) throw new Error(`DB list webhooks: ${error.message}`);
-    return data || [];
+    const where: Filter[] = [];
+    if (statusFilter) where.push(eq("status", statusFilter));
+    return storage.findMany("webhooks", { where });
   },
 };
 
@@ -238,10 +787,11 @@ export const cronDb = {
   async create(job: any) {
     return insert("cron_jobs", {
       id: job.id, action: job.action, schedule: job.schedule,
+      timezone: job.timezone || "UTC",
       payload: job.payload, status: job.status,
       next_run: job.nextRun, run_count: job.runCount,
-      max_runs: job.maxRuns || null, metadata: job.metadata,
-      created_at: job.createdAt,
+      fail_count: 0, max_runs: job.maxRuns || null, metadata: job.metadata,
+      owner: job.owner || null, created_at: job.createdAt,
     });
   },
 
@@ -255,16 +805,67 @@ export const cronDb = {
     if ("lastRun" in updates) mapped.last_run = updates.lastRun;
     if ("nextRun" in updates) mapped.next_run = updates.nextRun;
     if ("runCount" in updates) mapped.run_count = updates.runCount;
+    if ("failCount" in updates) mapped.fail_count = updates.failCount;
+    if ("lastStatus" in updates) mapped.last_status = updates.lastStatus;
+    if ("lastError" in updates) mapped.last_error = updates.lastError;
     await update("cron_jobs", id, mapped);
   },
 
   async list(statusFilter?: string | null, actionFilter?: string | null) {
-    let query = supabase.from("cron_jobs").select("*");
-    if (statusFilter) query = query.eq("status", statusFilter);
-    if (actionFilter) query = query.eq("action", actionFilter);
-    const { data, error } = await query;
-    if (error) throw new Error(`DB list cron_jobs: ${error.message}`);
-    return data || [];
+    const where: Filter[] = [];
+    if (statusFilter) where.push(eq("status", statusFilter));
+    if (actionFilter) where.push(eq("action", actionFilter));
+    return storage.findMany("cron_jobs", { where });
+  },
+
+  /** Active jobs whose next_run is at or before `now`, oldest first. */
+  async listDue(now: string, limit: number = 25) {
+    return storage.findMany("cron_jobs", {
+      where: [eq("status", "active"), lte("next_run", now)],
+      orderBy: { column: "next_run", ascending: true },
+      limit,
+    });
+  },
+
+  /**
+   * Compare-and-set on next_run so only one gateway instance runs a given
+   * occurrence. Returns false when another worker already claimed it.
+   */
+  async claim(id: string, expectedNextRun: string, nextRun: string | null) {
+    const rows = await storage.update("cron_jobs", [eq("id", id), eq("next_run", expectedNextRun)], { next_run: nextRun });
+    return rows.length > 0;
+  },
+};
+
+// ============================================
+// CRON RUNS (per-job run log)
+// ============================================
+
+export const cronRunsDb = {
+  async record(run: any) {
+    return insert("cron_runs", {
+      id: run.id, job_id: run.jobId, action: run.action, trigger: run.trigger,
+      status: run.status, http_status: run.httpStatus,
+      started_at: run.startedAt, finished_at: run.finishedAt, duration_ms: run.durationMs,
+      output: run.output ?? null, error: run.error || null,
+    });
+  },
+
+  async list(jobId: string, opts: { limit: number; offset: number }) {
+    const where = [eq("job_id", jobId)];
+    const [runs, total] = await Promise.all([
+      storage.findMany("cron_runs", {
+        where, orderBy: { column: "started_at", ascending: false }, limit: opts.limit, offset: opts.offset,
+      }),
+      storage.count("cron_runs", where),
+    ]);
+    return { runs, total };
+  },
+
+  /** Drop a job's runs that started before `before` (retention window). */
+  async prune(jobId: string, before: string) {
+    const removed = await storage.remove("cron_runs", [eq("job_id", jobId), lt("started_at", before)]);
+    return removed.length;
   },
 };
 
@@ -283,10 +884,7 @@ export const authDb = {
   },
 
   async getByToken(token: string) {
-    const { data, error } = await supabase.from("auth_sessions").select("*").eq("token", token).single();
-    if (error && error.code === "PGRST116") return null;
-    if (error) throw new Error(`DB get auth_sessions: ${error.message}`);
-    return data;
+    return storage.findOne("auth_sessions", [eq("token", token)]);
   },
 
   async update(id: string, updates: Record<string, any>) {
@@ -296,8 +894,7 @@ export const authDb = {
   },
 
   async deleteByToken(token: string) {
-    const { error } = await supabase.from("auth_sessions").delete().eq("token", token);
-    if (error) throw new Error(`DB delete auth_sessions: ${error.message}`);
+    await storage.remove("auth_sessions", [eq("token", token)]);
     return true;
   },
 };
@@ -306,30 +903,168 @@ export const authDb = {
 // AUDIT LOG
 // ============================================
 
+// PostgREST returns at most this many rows per request
+const AUDIT_PAGE_SIZE = 1000;
+
+// audit_log has a unique index on (tenant, seq): an entry number can be
+// written once, so an insert is what claims it.
 export const auditDb = {
   async create(entry: any) {
     return insert("audit_log", {
       id: entry.id, action: entry.action, actor: entry.actor,
       resource: entry.resource, details: entry.details,
       tx_hash: entry.txHash, ip: entry.ip, created_at: entry.timestamp,
+      tenant: entry.tenant, seq: entry.seq, prev_hash: entry.prevHash, hash: entry.hash,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("audit_log", id);
+    return row ? auditDb._fromRow(row) : null;
+  },
+
+  async query(filters: { tenant?: string; actor?: string; action?: string; resource?: string; since?: string; until?: string; limit?: number }) {
+    const where: Filter[] = [];
+    if (filters.tenant) where.push(eq("tenant", filters.tenant));
+    if (filters.actor) where.push(ilike("actor", filters.actor));
+    if (filters.action) where.push(eq("action", filters.action));
+    if (filters.resource) where.push(ilike("resource", `%${filters.resource}%`));
+    if (filters.since) where.push(gte("created_at", filters.since));
+    if (filters.until) where.push(lte("created_at", filters.until));
+    const rows = await storage.findMany("audit_log", {
+      where, orderBy: { column: "created_at", ascending: false }, limit: filters.limit || 50,
     });
+    return rows.map(auditDb._fromRow);
+  },
+
+  async getBySeq(tenant: string, seq: number) {
+    const row = await storage.findOne("audit_log", [eq("tenant", tenant), eq("seq", seq)]);
+    return row ? auditDb._fromRow(row) : null;
   },
 
-  async query(filters: { actor?: string; action?: string; resource?: string; since?: string; until?: string; limit?: number }) {
-    let query = supabase.from("audit_log").select("*");
-    if (filters.actor) query = query.ilike("actor", filters.actor);
-    if (filters.action) query = query.eq("action", filters.action);
-    if (filters.resource) query = query.ilike("resource", `%${filters.resource}%`);
-    if (filters.since) query = query.gte("created_at", filters.since);
-    if (filters.until) query = query.lte("created_at", filters.until);
-    query = query.order("created_at", { ascending: false }).limit(filters.limit || 50);
-    const { data, error } = await query;
-    if (error) throw new Error(`DB query audit_log: ${error.message}`);
-    return (data || []).map((row: any) => ({
+  /** A tenant's chained entries from `fromSeq` to `toSeq` inclusive, in chain order, read a page at a time. */
+  async listRange(tenant: string, fromSeq: number, toSeq: number) {
+    const entries: ReturnType<typeof auditDb._fromRow>[] = [];
+    for (let start = fromSeq; start <= toSeq; start += AUDIT_PAGE_SIZE) {
+      const rows = await storage.findMany("audit_log", {
+        where: [eq("tenant", tenant), gte("seq", start), lte("seq", Math.min(start + AUDIT_PAGE_SIZE - 1, toSeq))],
+        orderBy: { column: "seq", ascending: true },
+        limit: AUDIT_PAGE_SIZE,
+      });
+      entries.push(...rows.map(auditDb._fromRow));
+    }
+    return entries;
+  },
+
+  _fromRow(row: any) {
+    return {
       id: row.id, action: row.action, actor: row.actor,
       resource: row.resource, details: row.details,
-      txHash: row.tx_hash, ip: row.ip, timestamp: row.created_at,
-    }));
+      // Entry hashes cover the toISOString form; timestamptz reads back as "+00:00"
+      txHash: row.tx_hash ?? null, ip: row.ip, timestamp: row.created_at ? new Date(row.created_at).toISOString() : row.created_at,
+      tenant: row.tenant ?? null, seq: row.seq ?? null, prevHash: row.prev_hash ?? null, hash: row.hash ?? null,
+    };
+  },
+};
+
+// One row per audit tenant: the head of its hash chain and how far the
+// last checkpoint reaches. The head moves forward by compare-and-set on
+// head_seq once its entry is stored.
+export const auditChainDb = {
+  async get(tenant: string) {
+    const row = await getById<any>("audit_chains", tenant);
+    return row ? auditChainDb._fromRow(row) : null;
+  },
+
+  async create(tenant: string) {
+    const now = new Date().toISOString();
+    await insert("audit_chains", {
+      id: tenant, head_seq: 0, head_hash: null, checkpoint_seq: 0, checkpoint_pending: false,
+      created_at: now, updated_at: now,
+    });
+    return (await auditChainDb.get(tenant))!;
+  },
+
+  /** Move the head from `expectedSeq` to `seq`; false when another writer got there first. */
+  async advance(tenant: string, expectedSeq: number, seq: number, hash: string) {
+    const rows = await storage.update("audit_chains", [eq("id", tenant), eq("head_seq", expectedSeq)], {
+      head_seq: seq, head_hash: hash, checkpoint_pending: true, updated_at: new Date().toISOString(),
+    });
+    return rows.length > 0;
+  },
+
+  /** Tenants with entries not yet covered by a checkpoint. */
+  async listPendingCheckpoint(limit: number = 50) {
+    const rows = await storage.findMany("audit_chains", {
+      where: [eq("checkpoint_pending", true)], orderBy: { column: "updated_at", ascending: true }, limit,
+    });
+    return rows.map(auditChainDb._fromRow);
+  },
+
+  async markCheckpointed(tenant: string, treeSize: number) {
+    await storage.update("audit_chains", [eq("id", tenant)], { checkpoint_seq: treeSize });
+    // Entries appended while the checkpoint was built keep the tenant pending
+    await storage.update("audit_chains", [eq("id", tenant), eq("head_seq", treeSize)], { checkpoint_pending: false });
+  },
+
+  _fromRow(row: any) {
+    return {
+      tenant: row.id, headSeq: row.head_seq, headHash: row.head_hash,
+      checkpointSeq: row.checkpoint_seq, checkpointPending: row.checkpoint_pending,
+      createdAt: row.created_at, updatedAt: row.updated_at,
+    };
+  },
+};
+
+export const auditCheckpointDb = {
+  async create(cp: any) {
+    return insert("audit_checkpoints", {
+      id: cp.id, tenant: cp.tenant, tree_size: cp.treeSize, root_hash: cp.rootHash,
+      head_hash: cp.headHash, issued_at: cp.issuedAt, statement: cp.statement,
+      signature: cp.signature, signer: cp.signer, frontier: cp.frontier,
+      anchor_chain: cp.anchorChain || null, anchor_tx_hash: null, anchor_error: null,
+      created_at: cp.issuedAt,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("audit_checkpoints", id);
+    return row ? auditCheckpointDb._fromRow(row) : null;
+  },
+
+  async latest(tenant: string) {
+    const [row] = await storage.findMany("audit_checkpoints", {
+      where: [eq("tenant", tenant)], orderBy: { column: "tree_size", ascending: false }, limit: 1,
+    });
+    return row ? auditCheckpointDb._fromRow(row) : null;
+  },
+
+  /** Checkpoints whose tree reaches no further than `maxTreeSize`, largest first. */
+  async listByTenant(tenant: string, maxTreeSize?: number, limit: number = 20) {
+    const where: Filter[] = [eq("tenant", tenant)];
+    if (maxTreeSize !== undefined) where.push(lte("tree_size", maxTreeSize));
+    const rows = await storage.findMany("audit_checkpoints", {
+      where, orderBy: { column: "tree_size", ascending: false }, limit,
+    });
+    return rows.map(auditCheckpointDb._fromRow);
+  },
+
+  async update(id: string, updates: Record<string, any>) {
+    const mapped: Record<string, any> = {};
+    if ("anchorTxHash" in updates) mapped.anchor_tx_hash = updates.anchorTxHash;
+    if ("anchorError" in updates) mapped.anchor_error = updates.anchorError;
+    await update("audit_checkpoints", id, mapped);
+  },
+
+  _fromRow(row: any) {
+    return {
+      id: row.id, tenant: row.tenant, treeSize: row.tree_size, rootHash: row.root_hash,
+      headHash: row.head_hash, issuedAt: row.issued_at, statement: row.statement,
+      signature: row.signature, signer: row.signer, frontier: row.frontier ?? null,
+      anchor: row.anchor_chain
+        ? { chain: row.anchor_chain, txHash: row.anchor_tx_hash, error: row.anchor_error }
+        : null,
+    };
   },
 };
 
@@ -353,11 +1088,17 @@ export const kycDb = {
   },
 
   async getByAddress(address: string) {
-    const { data, error } = await supabase.from("kyc_records").select("*")
-      .ilike("address", address).order("created_at", { ascending: false }).limit(1).single();
-    if (error && error.code === "PGRST116") return null;
-    if (error) throw new Error(`DB get kyc by address: ${error.message}`);
-    return data;
+    const [row] = await storage.findMany("kyc_records", {
+      where: [ilike("address", address)], orderBy: { column: "created_at", ascending: false }, limit: 1,
+    });
+    return row ?? null;
+  },
+
+  /** Every screening of an address, oldest first — its screening history. */
+  async listByAddress(address: string, limit: number = 500) {
+    return storage.findMany("kyc_records", {
+      where: [ilike("address", address)], orderBy: { column: "created_at", ascending: true }, limit,
+    });
   },
 
   async update(id: string, updates: Record<string, any>) {
@@ -369,6 +1110,109 @@ export const kycDb = {
   },
 };
 
+// ============================================
+// SANCTIONS MONITORS
+// ============================================
+
+export const sanctionsMonitorDb = {
+  async create(monitor: any) {
+    return insert("sanctions_monitors", {
+      id: monitor.id,
+      address: monitor.address,
+      chain: monitor.chain,
+      label: monitor.label,
+      interval_hours: monitor.intervalHours,
+      alert_email: monitor.alertEmail,
+      webhook_id: monitor.webhookId || null,
+      status: monitor.status,
+      last_result: monitor.lastResult,
+      last_screened_at: monitor.lastScreenedAt,
+      last_record_id: monitor.lastRecordId,
+      last_error: null,
+      screen_count: monitor.screenCount,
+      next_screen_at: monitor.nextScreenAt,
+      alerts: [],
+      created_at: monitor.createdAt,
+      updated_at: monitor.createdAt,
+    });
+  },
+
+  async get(id: string) {
+    const row = await getById<any>("sanctions_monitors", id);
+    return row ? sanctionsMonitorDb._fromRow(row) : null;
+  },
+
+  async findActive(address: string, chain: string) {
+    const [row] = await storage.findMany("sanctions_monitors", {
+      where: [eq("address", address.toLowerCase()), eq("chain", chain), eq("status", "active")], limit: 1,
+    });
+    return row ? sanctionsMonitorDb._fromRow(row) : null;
+  },
+
+  async listByAddress(address: string) {
+    const rows = await storage.findMany("sanctions_monitors", {
+      where: [eq("address", address.toLowerCase())], orderBy: { column: "created_at", ascending: true },
+    });
+    return rows.map(sanctionsMonitorDb._fromRow);
+  },
+
+  async update(id: string, updates: Record<string, any>) {
+    const mapped: Record<string, any> = {};
+    if ("label" in updates) mapped.label = updates.label;
+    if ("intervalHours" in updates) mapped.interval_hours = updates.intervalHours;
+    if ("alertEmail" in updates) mapped.alert_email = updates.alertEmail;
+    if ("webhookId" in updates) mapped.webhook_id = updates.webhookId;
+    if ("status" in updates) mapped.status = updates.status;
+    if ("lastResult" in updates) mapped.last_result = updates.lastResult;
+    if ("lastScreenedAt" in updates) mapped.last_screened_at = updates.lastScreenedAt;
+    if ("lastRecordId" in updates) mapped.last_record_id = updates.lastRecordId;
+    if ("lastError" in updates) mapped.last_error = updates.lastError;
+    if ("screenCount" in updates) mapped.screen_count = updates.screenCount;
+    if ("nextScreenAt" in updates) mapped.next_screen_at = updates.nextScreenAt;
+    if ("alerts" in updates) mapped.alerts = updates.alerts;
+    mapped.updated_at = new Date().toISOString();
+    await update("sanctions_monitors", id, mapped);
+  },
+
+  /** Active monitors due for a re-screen. */
+  async listDue(now: string, limit: number = 25) {
+    const rows = await storage.findMany("sanctions_monitors", {
+      where: [eq("status", "active"), lte("next_screen_at", now)],
+      orderBy: { column: "next_screen_at", ascending: true },
+      limit,
+    });
+    return rows.map(sanctionsMonitorDb._fromRow);
+  },
+
+  /** Take one re-screen by moving next_screen_at forward; false when another instance took it. */
+  async claim(id: string, expectedNextScreen: string, nextScreenAt: string) {
+    const rows = await storage.update("sanctions_monitors", [eq("id", id), eq("next_screen_at", expectedNextScreen)], { next_screen_at: nextScreenAt });
+    return rows.length > 0;
+  },
+
+  _fromRow(row: any) {
+    return {
+      id: row.id,
+      address: row.address,
+      chain: row.chain,
+      label: row.label || null,
+      intervalHours: row.interval_hours,
+      alertEmail: row.alert_email || null,
+      webhookId: row.webhook_id || null,
+      status: row.status,
+      lastResult: row.last_result || null,
+      lastScreenedAt: row.last_screened_at || null,
+      lastRecordId: row.last_record_id || null,
+      lastError: row.last_error || null,
+      screenCount: row.screen_count || 0,
+      nextScreenAt: row.next_screen_at,
+      alerts: row.alerts || [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  },
+};
+
 // ============================================
 // TAX REPORTS
 // ============================================
@@ -385,9 +1229,8 @@ export const taxDb = {
   },
 
   async listIds() {
-    const { data, error } = await supabase.from("tax_reports").select("id, events").order("created_at", { ascending: false });
-    if (error) throw new Error(`DB list tax_reports: ${error.message}`);
-    return (data || []).map((row: any) => ({
+    const rows = await storage.findMany("tax_reports", { orderBy: { column: "created_at", ascending: false } });
+    return rows.map((row: any) => ({
       reportId: row.id, transactions: Array.isArray(row.events) ? row.events.length : 0,
     }));
   },
@@ -404,27 +1247,26 @@ export const logsDb = {
       message: e.message, data: e.data || {},
       created_at: e.timestamp || new Date().toISOString(),
     }));
-    const { error } = await supabase.from("logs").insert(rows);
-    if (error) throw new Error(`DB ingest logs: ${error.message}`);
+    await storage.insertMany("logs", rows);
     return rows.map((r: any) => r.id);
   },
 
   async query(filters: { service?: string; level?: string; since?: string; limit?: number }) {
-    let query = supabase.from("logs").select("*");
-    if (filters.service) query = query.eq("service", filters.service);
-    if (filters.level) query = query.eq("level", filters.level);
-    if (filters.since) query = query.gte("created_at", filters.since);
-    query = query.order("created_at", { ascending: false }).limit(filters.limit || 50);
-    const { data, error } = await query;
-    if (error) throw new Error(`DB query logs: ${error.message}`);
-    return (data || []).map((row: any) => ({
+    const where: Filter[] = [];
+    if (filters.service) where.push(eq("service", filters.service));
+    if (filters.level) where.push(eq("level", filters.level));
+    if (filters.since) where.push(gte("created_at", filters.since));
+    const rows = await storage.findMany("logs", {
+      where, orderBy: { column: "created_at", ascending: false }, limit: filters.limit || 50,
+    });
+    return rows.map((row: any) => ({
       id: row.id, level: row.level, service: row.service,
       message: row.message, data: row.data, timestamp: row.created_at,
     }));
   },
 };
 
-export default supabase;
+export default storage;
 
 // ============================================
 // COMPUTE FUTURES
@@ -487,13 +1329,12 @@ export const computeFuturesDb = {
   },
 
   async getUsage(futuresId: string, limit: number = 50) {
-    const { data, error } = await supabase.from("compute_futures_usage")
-      .select("*")
-      .eq("futures_id", futuresId.toUpperCase())
-      .order("created_at", { ascending: false })
-      .limit(limit);
-    if (error) throw new Error(`DB query compute_futures_usage: ${error.message}`);
-    return (data || []).map((row: any) => ({
+    const rows = await storage.findMany("compute_futures_usage", {
+      where: [eq("futures_id", futuresId.toUpperCase())],
+      orderBy: { column: "created_at", ascending: false },
+      limit,
+    });
+    return rows.map((row: any) => ({
       jobType: row.job_type,
       model: row.model,
       modelLabel: row.model_label,
@@ -528,3 +1369,129 @@ export const computeFuturesDb = {
     };
   },
 };
+
+// ============================================
+// SOLANA PAYMENTS — spent signatures and payment challenges
+// ============================================
+
+// One row per X-SOLANA-TX signature that unlocked a call. The signature is
+// the row id, so the insert is the claim: a second insert of the same
+// signature fails on the primary key, on both storage backends.
+export const solanaSpentSignatureDb = {
+  /** Record `signature` as spent; false when it already was. */
+  async claim(signature: string, use: { method: string; path: string; amount: number | null; sender: string | null; reference: string | null }) {
+    try {
+      await insert("solana_spent_signatures", {
+        id: signature, method: use.method, path: use.path, amount: use.amount,
+        sender: use.sender, reference: use.reference, created_at: new Date().toISOString(),
+      });
+      return true;
+    } catch (err) {
+      if (await getById("solana_spent_signatures", signature)) return false;
+      throw err;
+    }
+  },
+
+  async get(signature: string) {
+    const row = await getById<any>("solana_spent_signatures", signature);
+    return row
+      ? { signature: row.id, method: row.method, path: row.path, amount: row.amount, sender: row.sender, reference: row.reference, spentAt: row.created_at }
+      : null;
+  },
+
+  /** Give a signature back when the call it paid for failed. */
+  async release(signature: string) {
+    await deleteById("solana_spent_signatures", signature);
+  },
+};
+
+// A challenge is issued in a 402 and names the one request a Solana
+// payment may unlock: its reference key (id), endpoint and price.
+export const solanaChallengeDb = {
+  async create(challenge: any) {
+    return insert("solana_payment_challenges", {
+      id: challenge.reference, method: challenge.method, path: challenge.path,
+      amount: challenge.amount, status: "open", signature: null,
+      expires_at: challenge.expiresAt, created_at: challenge.createdAt,
+    });
+  },
+
+  async get(reference: string) {
+    const row = await getById<any>("solana_payment_challenges", reference);
+    return row
+      ? {
+          reference: row.id, method: row.method, path: row.path, amount: Number(row.amount),
+          status: row.status, signature: row.signature, expiresAt: row.expires_at, createdAt: row.created_at,
+        }
+      : null;
+  },
+
+  /** Mark an open challenge used by `signature`; false when it was already used. */
+  async use(reference: string, signature: string) {
+    const rows = await storage.update("solana_payment_challenges", [eq("id", reference), eq("status", "open")], { status: "used", signature });
+    return rows.length > 0;
+  },
+
+  /** Reopen a challenge whose call failed, if `signature` still holds it. */
+  async reopen(reference: string, signature: string) {
+    await storage.update("solana_payment_challenges", [eq("id", reference), eq("signature", signature)], { status: "open", signature: null });
+  },
+
+  /** Drop challenges that expired before `before`, used or not. */
+  async purgeExpired(before: string) {
+    const removed = await storage.remove("solana_payment_challenges", [lt("expires_at", before)]);
+    return removed.length;
+  },
+};
+
+// An L402 token is minted with each Lightning challenge: keyed by the
+// invoice's payment hash, it counts the calls its macaroon has paid for.
+export const l402TokenDb = {
+  async create(token: any) {
+    return insert("l402_tokens", {
+      id: token.paymentHash, token_id: token.tokenId, method: token.method, path: token.path,
+      amount_sats: token.amountSats, price_usd: token.priceUsd, uses: 0, max_uses: token.maxUses,
+      expires_at: token.expiresAt, created_at: token.createdAt, last_used_at: null,
+    });
+  },
+
+  async get(paymentHash: string) {
+    const row = await getById<any>("l402_tokens", paymentHash);
+    return row
+      ? {
+          paymentHash: row.id, tokenId: row.token_id, method: row.method, path: row.path,
+          amountSats: Number(row.amount_sats), priceUsd: row.price_usd, uses: Number(row.uses),
+          maxUses: Number(row.max_uses), expiresAt: row.expires_at, createdAt: row.created_at, lastUsedAt: row.last_used_at,
+        }
+      : null;
+  },
+
+  /** Count one call against the token; false once `maxUses` calls have been made. */
+  async use(paymentHash: string, maxUses: number) {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const row = await getById<any>("l402_tokens", paymentHash);
+      if (!row || Number(row.uses) >= maxUses) return false;
+      const rows = await storage.update("l402_tokens", [eq("id", paymentHash), eq("uses", row.uses)], {
+        uses: Number(row.uses) + 1, last_used_at: new Date().toISOString(),
+      });
+      if (rows.length > 0) return true;
+    }
+    return false;
+  },
+
+  /** Give a use back when the call it paid for failed. */
+  async release(paymentHash: string) {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const row = await getById<any>("l402_tokens", paymentHash);
+      if (!row || Number(row.uses) <= 0) return;
+      const rows = await storage.update("l402_tokens", [eq("id", paymentHash), eq("uses", row.uses)], { uses: Number(row.uses) - 1 });
+      if (rows.length > 0) return;
+    }
+  },
+
+  /** Drop tokens whose macaroons expired before `before`. */
+  async purgeExpired(before: string) {
+    const removed = await storage.remove("l402_tokens", [lt("expires_at", before)]);
+    return removed.length;
+  },
+};
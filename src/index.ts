@@ -9,17 +9,30 @@ import { facilitator as coinbaseFacilitator } from "@coinbase/x402";
 import { bazaarResourceServerExtension, declareDiscoveryExtension } from "@x402/extensions/bazaar";
 import { xrpBatchHandler, xrpEstimateHandler, xrpInfoHandler } from "./routes/xrp-batch.js";
 import { aiChatHandler, aiModelsHandler } from "./routes/ai-gateway.js";
-import { batchPaymentHandler, batchEstimateHandler } from "./routes/batch-payments.js";
+import { batchPaymentHandler, batchEstimateHandler, batchStatusHandler, batchReportHandler } from "./routes/batch-payments.js";
 import { stellarBatchHandler, stellarEstimateHandler } from "./routes/stellar-batch.js";
 
 import { swapQuoteHandler, swapTokensHandler } from "./routes/swap-data.js";
 import { swapExecuteHandler } from "./routes/swap-execute.js";
 import { oraclePricesHandler, oracleGasHandler, oracleFxHandler } from "./routes/oracle.js";
 import { bridgeQuoteHandler, bridgeChainsHandler } from "./routes/bridge.js";
-import { payrollExecuteHandler, payrollEstimateHandler, payrollTokensHandler } from "./routes/payroll.js";
-import { invoiceCreateHandler, invoiceGetHandler, invoiceListHandler } from "./routes/invoice.js";
+import {
+  payrollExecuteHandler, payrollEstimateHandler, payrollTokensHandler, payrollRosterHandler, payrollRosterGetHandler,
+  payrollRunHandler, payrollScheduleCreateHandler, payrollScheduleGetHandler, payrollScheduleCancelHandler, payrollHistoryHandler,
+} from "./routes/payroll.js";
+import { invoiceCreateHandler, invoiceGetHandler, invoiceListHandler, invoiceRecurringCreateHandler, invoiceRecurringGetHandler, invoiceRecurringCancelHandler, invoiceRemindHandler, invoiceExportHandler } from "./routes/invoice.js";
+import { payPageHandler, payStatusHandler } from "./routes/pay.js";
 import { analyticsWalletHandler, analyticsTxHistoryHandler } from "./routes/analytics.js";
-import { escrowCreateHandler, escrowGetHandler, escrowFundHandler, escrowReleaseHandler, escrowCancelHandler, escrowListHandler } from "./routes/escrow.js";
+import { escrowCreateHandler, escrowGetHandler, escrowFundHandler, escrowVerifyHandler, escrowMilestoneApproveHandler, escrowReleaseHandler, escrowCancelHandler, escrowListHandler, escrowDisputeHandler, escrowDisputeEvidenceHandler, escrowDisputeResolveHandler } from "./routes/escrow.js";
+import { startEscrowWatcher } from "./services/escrow-funding.js";
+import { startDisputeWatcher } from "./services/escrow-disputes.js";
+import { startBatchTracker } from "./services/batch-tracker.js";
+import { startInvoiceReconciler } from "./services/invoice-reconciler.js";
+import { startInvoiceScheduler } from "./services/invoice-scheduler.js";
+import { startPayrollScheduler } from "./services/payroll-scheduler.js";
+import { startSanctionsMonitor } from "./services/sanctions-monitor.js";
+import { startAuditCheckpointer } from "./services/audit-checkpoint.js";
+import { startChallengePurger } from "./services/payment-challenges.js";
 import { classifyAddressHandler, classifyTxHandler, explainContractHandler, summarizeHandler } from "./routes/inference.js";
 // NEW: Communication
 import { notifyEmailHandler, notifySmsHandler, notifyStatusHandler } from "./routes/email-sms.js";
@@ -28,14 +41,17 @@ import { xmtpSendHandler, xmtpInboxHandler } from "./routes/xmtp-relay.js";
 // NEW: Infrastructure
 import { rpcCallHandler, rpcChainsHandler } from "./routes/rpc.js";
 import { storagePinHandler, storageGetHandler, storageStatusHandler } from "./routes/ipfs.js";
-import { cronCreateHandler, cronListHandler, cronCancelHandler } from "./routes/cron.js";
+import { cronCreateHandler, cronListHandler, cronCancelHandler, cronRunsHandler, cronTriggerHandler, cronPauseHandler, cronResumeHandler } from "./routes/cron.js";
+import { startCronScheduler } from "./services/cron-scheduler.js";
 import { logsIngestHandler, logsQueryHandler } from "./routes/logging.js";
 // NEW: Identity & Access
-import { kycVerifyHandler, kycStatusHandler } from "./routes/kyc.js";
+import {
+  kycVerifyHandler, kycStatusHandler, kycHistoryHandler, kycMonitorCreateHandler, kycMonitorGetHandler, kycMonitorCancelHandler,
+} from "./routes/kyc.js";
 import { authSessionHandler, authVerifyHandler } from "./routes/auth.js";
 // NEW: Compliance
-import { auditLogHandler, auditQueryHandler } from "./routes/audit.js";
-import { taxCalculateHandler, taxReportHandler } from "./routes/tax.js";
+import { auditLogHandler, auditProofHandler, auditQueryHandler, auditVerifyHandler } from "./routes/audit.js";
+import { taxCalculateHandler, taxImportWalletHandler, taxReportHandler } from "./routes/tax.js";
 // NEW: GPU/Compute
 import { gpuRunHandler, gpuStatusHandler, gpuModelsHandler } from "./routes/gpu.js";
 import { gpuDirectRunHandler, gpuDirectRegisterHandler, gpuDirectOperatorsHandler, gpuDirectQuoteHandler } from "./routes/gpu-direct.js";
@@ -86,7 +102,8 @@ import { protocolDetectorMiddleware } from "./middleware/protocolDetector.js";
 import { mppMiddleware, initMpp } from "./middleware/mppMiddleware.js";
 // Solana payment rail
 import { solanaPaymentMiddleware } from "./middleware/solanaPaymentMiddleware.js";
-import { solanaEnrich402Middleware } from "./middleware/solanaEnrich402.js";
+import { l402Middleware } from "./middleware/l402Middleware.js";
+import { multiProtocol402Middleware } from "./middleware/multiProtocol402.js";
 import { wrapWithSolanaBypass } from "./middleware/solanaBypass.js";
 import { solanaDiscoveryHandler } from "./routes/solana-discovery.js";
 // NEW: Research & Reference
@@ -114,8 +131,11 @@ import { txDecodeHandler } from "./routes/txDecode.js";
 import discoveryRoutes from "./routes/discovery.routes.js";
 // 💧 Loop-native webhook callbacks
 import { WebhookService, webhookMiddleware, startWebhookWorker, createWebhookRouter } from "./webhooks/index.js";
-import { supabase } from "./middleware/supabase.js";
+import { storage } from "./storage/index.js";
 import { loopRateLimiter, duplicatePaymentGuard } from "./middleware/loop-safety.js";
+import { recipientImport, CSV_MIME_TYPES, XLSX_MIME_TYPE } from "./middleware/recipient-import.js";
+import { sanctionsPreflight } from "./middleware/sanctions-preflight.js";
+import { auditTrail } from "./middleware/audit-trail.js";
 // 🆕 BlockRun-parity routes (Express routers — mounted below)
 import freeDex from "./routes/free/dex.js";
 import freeChat from "./routes/free/chat.js";
@@ -134,6 +154,10 @@ app.use(cors({
 }));
 app.post("/v1/webhooks/stripe", express.raw({ type: "application/json" }), stripeWebhookHandler);
 app.use(express.json());
+// Spreadsheet payout lists for batch/payroll (see middleware/recipient-import.ts)
+app.use(["/api/v1/batch", "/api/v1/payroll"],
+  express.text({ type: CSV_MIME_TYPES, limit: "2mb" }),
+  express.raw({ type: XLSX_MIME_TYPE, limit: "5mb" }));
 app.use(discoveryRoutes);
 
 // Catch malformed JSON bodies → return structured JSON, not HTML.
@@ -168,17 +192,26 @@ const server = new x402ResourceServer(facilitatorClient).register(CAIP2_NETWORK,
 server.register(SOLANA_NETWORK, new ExactSvmScheme());
 server.registerExtension(bazaarResourceServerExtension);
 app.use(enrich402Middleware);
-app.use(solanaEnrich402Middleware);
+app.use(multiProtocol402Middleware);
 app.use(bazaarIdentityMiddleware);    
 app.use(protocolDetectorMiddleware);
 app.use(solanaPaymentMiddleware);     
+app.use(l402Middleware);
 app.use(mppMiddleware);
 app.use(apiKeyAuthMiddleware);
-const webhookService = new WebhookService(supabase!);
+const webhookService = new WebhookService(storage);
 app.use(webhookMiddleware(webhookService));
 app.use("/api/v1/callbacks", createWebhookRouter(webhookService));
 // 💧 Loop safety guards
 app.use(loopRateLimiter());
+// 💧 Audit trail — every money-moving call lands on the gateway's audit chain
+app.use("/api/v1/batch", auditTrail());
+app.use("/api/v1/payroll", auditTrail());
+app.use("/api/v1/escrow", auditTrail());
+app.use("/api/v1/swap/execute", auditTrail());
+app.use("/api/v1/wallet/send-transaction", auditTrail());
+app.use("/api/v1/contract/write", auditTrail());
+app.use("/api/v1/sctp/pay", auditTrail());
 app.use("/api/v1/batch", duplicatePaymentGuard());
 app.use("/api/v1/escrow", duplicatePaymentGuard());
 app.use("/api/v1/payroll", duplicatePaymentGuard());
@@ -204,12 +237,22 @@ const paidRoutes = {
       "POST /api/v1/batch/execute": {
         accepts: [{ scheme: "exact", price: "$0.02", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.02", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
         description: "Batch payments via Spraay. Implements Batch Payments for Agents (BPA) 1.0 - atomic, non-custodial, up to 200 recipients. Spec: https://docs.spraay.app/bpa/1.0/", mimeType: "application/json",
-        extensions: { ...declareDiscoveryExtension({ input: { token: "USDC", recipients: ["0x..."], amounts: ["1000000"], sender: "0x..." }, inputSchema: { properties: { token: { type: "string" }, recipients: { type: "array" }, amounts: { type: "array" }, sender: { type: "string" } }, required: ["token", "recipients", "amounts", "sender"] }, bodyType: "json", output: { example: { transactions: [] }, schema: { properties: { transactions: { type: "array" } } } } }) },
+        extensions: { ...declareDiscoveryExtension({ input: { chain: "base", token: "USDC", recipients: ["0x..."], amounts: ["1000000"], sender: "0x..." }, inputSchema: { properties: { chain: { type: "string" }, token: { type: "string" }, recipients: { type: "array" }, amounts: { type: "array" }, sender: { type: "string" } }, required: ["token", "recipients", "amounts", "sender"] }, bodyType: "json", output: { example: { transactions: [] }, schema: { properties: { transactions: { type: "array" } } } } }) },
       },
       "POST /api/v1/batch/estimate": {
         accepts: [{ scheme: "exact", price: "$0.001", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.001", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
         description: "Estimate batch gas.", mimeType: "application/json",
-        extensions: { ...declareDiscoveryExtension({ input: { recipientCount: 5 }, inputSchema: { properties: { recipientCount: { type: "number" } }, required: ["recipientCount"] }, bodyType: "json", output: { example: { estimatedGas: "185000" }, schema: { properties: { estimatedGas: { type: "string" } } } } }) },
+        extensions: { ...declareDiscoveryExtension({ input: { chain: "base", recipientCount: 5 }, inputSchema: { properties: { chain: { type: "string" }, token: { type: "string" }, recipientCount: { type: "number" } }, required: ["recipientCount"] }, bodyType: "json", output: { example: { estimatedGas: "185000" }, schema: { properties: { estimatedGas: { type: "string" } } } } }) },
+      },
+      "POST /api/v1/batch/report": {
+        accepts: [{ scheme: "exact", price: "$0.005", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.005", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Report the tx hash of an executed batch (or chunk) and check its settlement on-chain. Batches executed with a sender need that sender.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { batchId: "batch_1a2b3c4d5e6f7a8b", txHash: "0x...", sender: "0x..." }, inputSchema: { properties: { batchId: { type: "string" }, txHash: { type: "string" }, sender: { type: "string" } }, required: ["batchId", "txHash"] }, bodyType: "json", output: { example: { batch: { status: "confirming", confirmedRecipients: 5 } }, schema: { properties: { batch: { type: "object" } } } } }) },
+      },
+      "GET /api/v1/batch/:id": {
+        accepts: [{ scheme: "exact", price: "$0.001", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.001", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Settlement status of an executed batch with per-recipient results. ?format=csv downloads a receipt.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ output: { example: { batch: { batchId: "batch_1a2b3c4d5e6f7a8b", status: "settled", recipients: [] } }, schema: { properties: { batch: { type: "object" }, receiptUrl: { type: "string" } } } } }) },
       },
       "POST /api/v1/stellar/batch": {
         accepts: [{ scheme: "exact", price: "$0.02", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.02", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
@@ -462,6 +505,41 @@ const paidRoutes = {
         description: "Payroll stablecoins.", mimeType: "application/json",
         extensions: { ...declareDiscoveryExtension({ output: { example: { tokens: [] }, schema: { properties: { tokens: { type: "array" } } } } }) },
       },
+      "POST /api/v1/payroll/roster": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Add or update employees on a payroll roster.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { employer: "0x...", signature: "0x...", signedAt: "2026-03-01T12:00:00.000Z", employees: [{ address: "0x...", amount: "3000", label: "Alice" }] }, inputSchema: { properties: { employer: { type: "string" }, signature: { type: "string" }, signedAt: { type: "string" }, token: { type: "string" }, employees: { type: "array" } }, required: ["employer", "signature", "signedAt", "employees"] }, bodyType: "json", output: { example: { added: 1, roster: [] }, schema: { properties: { roster: { type: "array" } } } } }) },
+      },
+      "GET /api/v1/payroll/roster": {
+        accepts: [{ scheme: "exact", price: "$0.002", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.002", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Payroll roster for an employer.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { employer: "0x..." }, inputSchema: { properties: { employer: { type: "string" }, includeInactive: { type: "string" } }, required: ["employer"] }, output: { example: { roster: [] }, schema: { properties: { roster: { type: "array" } } } } }) },
+      },
+      "POST /api/v1/payroll/run": {
+        accepts: [{ scheme: "exact", price: "$0.10", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.10", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Generate a payroll run from the roster.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { employer: "0x...", signature: "0x...", signedAt: "2026-03-01T12:00:00.000Z" }, inputSchema: { properties: { employer: { type: "string" }, signature: { type: "string" }, signedAt: { type: "string" }, memo: { type: "string" }, chunk: { type: "boolean" } }, required: ["employer", "signature", "signedAt"] }, bodyType: "json", output: { example: { status: "ready", run: { id: "PRUN-A1B2" } }, schema: { properties: { status: { type: "string" }, run: { type: "object" } } } } }) },
+      },
+      "POST /api/v1/payroll/schedule": {
+        accepts: [{ scheme: "exact", price: "$0.05", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.05", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Create a biweekly or monthly pay schedule.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { employer: "0x...", signature: "0x...", signedAt: "2026-03-01T12:00:00.000Z", frequency: "biweekly" }, inputSchema: { properties: { employer: { type: "string" }, signature: { type: "string" }, signedAt: { type: "string" }, frequency: { type: "string" }, startDate: { type: "string" } }, required: ["employer", "signature", "signedAt", "frequency"] }, bodyType: "json", output: { example: { status: "active", schedule: { id: "PSCH-A1B2" } }, schema: { properties: { status: { type: "string" } } } } }) },
+      },
+      "GET /api/v1/payroll/schedule/:id": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Pay schedule and its runs.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ output: { example: { schedule: {}, runs: [] }, schema: { properties: { schedule: { type: "object" }, runs: { type: "array" } } } } }) },
+      },
+      "POST /api/v1/payroll/schedule/:id/cancel": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Cancel a pay schedule (signed by the employer).", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { signature: "0x...", signedAt: "2026-03-01T12:00:00.000Z" }, inputSchema: { properties: { signature: { type: "string" }, signedAt: { type: "string" } }, required: ["signature", "signedAt"] }, bodyType: "json", output: { example: { status: "cancelled" }, schema: { properties: { status: { type: "string" } } } } }) },
+      },
+      "GET /api/v1/payroll/history": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Payroll run history with per-employee and YTD totals.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { employer: "0x...", year: "2026" }, inputSchema: { properties: { employer: { type: "string" }, year: { type: "string" }, employee: { type: "string" } }, required: ["employer"] }, output: { example: { runs: [], employees: [], ytd: {} }, schema: { properties: { runs: { type: "array" }, ytd: { type: "object" } } } } }) },
+      },
       "POST /api/v1/invoice/create": {
         accepts: [{ scheme: "exact", price: "$0.05", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.05", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
         description: "Create invoice with payment tx.", mimeType: "application/json",
@@ -477,6 +555,31 @@ const paidRoutes = {
         description: "Invoice lookup.", mimeType: "application/json",
         extensions: { ...declareDiscoveryExtension({ input: { id: "INV-A1B2" }, inputSchema: { properties: { id: { type: "string" } }, required: ["id"] }, output: { example: { invoice: { status: "pending" } }, schema: { properties: { invoice: { type: "object" } } } } }) },
       },
+      "GET /api/v1/invoice/:id/export": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Export a gateway or SCTP invoice as PDF, UBL 2.1 / Peppol BIS XML or schema.org JSON-LD, with the payment tx hash as proof once paid.", mimeType: "application/pdf",
+        extensions: { ...declareDiscoveryExtension({ input: { id: "INV-A1B2", format: "ubl" }, inputSchema: { properties: { id: { type: "string" }, format: { type: "string", enum: ["pdf", "ubl", "json-ld"] } }, required: ["id"] }, output: { example: { "@type": "Invoice", identifier: "INV-A1B2", confirmationNumber: "0x..." }, schema: { properties: { identifier: { type: "string" } } } } }) },
+      },
+      "POST /api/v1/invoice/recurring": {
+        accepts: [{ scheme: "exact", price: "$0.05", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.05", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Create a recurring invoice template (weekly, monthly or cron) with optional reminders.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { creator: "0x...", token: "USDC", amount: "2000", frequency: "monthly" }, inputSchema: { properties: { creator: { type: "string" }, token: { type: "string" }, amount: { type: "string" }, frequency: { type: "string" }, interval: { type: "number" }, cron: { type: "string" }, dueInDays: { type: "number" }, reminders: { type: "object" } }, required: ["creator", "token", "amount", "frequency"] }, bodyType: "json", output: { example: { status: "active", schedule: { id: "RINV-A1B2", nextIssueAt: "2026-05-01T00:00:00.000Z" } }, schema: { properties: { status: { type: "string" }, schedule: { type: "object" } } } } }) },
+      },
+      "GET /api/v1/invoice/recurring/:id": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Recurring invoice template with every invoice it has issued.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { id: "RINV-A1B2" }, inputSchema: { properties: { id: { type: "string" } }, required: ["id"] }, output: { example: { schedule: { status: "active" }, invoices: [], count: 0 }, schema: { properties: { schedule: { type: "object" }, invoices: { type: "array" } } } } }) },
+      },
+      "POST /api/v1/invoice/recurring/:id/cancel": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Stop a recurring invoice template from issuing further invoices.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { caller: "0x..." }, inputSchema: { properties: { caller: { type: "string" } }, required: ["caller"] }, bodyType: "json", output: { example: { id: "RINV-A1B2", status: "cancelled" }, schema: { properties: { status: { type: "string" } } } } }) },
+      },
+      "POST /api/v1/invoice/remind": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Send an invoice reminder by email, XMTP or webhook, rate-limited per invoice. Channels other than the invoice's policy need the creator's signature.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { invoiceId: "INV-A1B2", creator: "0x..." }, inputSchema: { properties: { invoiceId: { type: "string" }, creator: { type: "string" }, channels: { type: "array" }, signature: { type: "string" }, signedAt: { type: "string" } }, required: ["creator"] }, bodyType: "json", output: { example: { reminded: 1, skipped: 0, results: [] }, schema: { properties: { reminded: { type: "number" }, results: { type: "array" } } } } }) },
+      },
       "GET /api/v1/analytics/wallet": {
         accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
         description: "Wallet profile.", mimeType: "application/json",
@@ -485,7 +588,7 @@ const paidRoutes = {
       "GET /api/v1/analytics/txhistory": {
         accepts: [{ scheme: "exact", price: "$0.008", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.008", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
         description: "Transaction history.", mimeType: "application/json",
-        extensions: { ...declareDiscoveryExtension({ input: { address: "0xd8dA...", limit: "10" }, inputSchema: { properties: { address: { type: "string" }, limit: { type: "string" } }, required: ["address"] }, output: { example: { transactions: [] }, schema: { properties: { transactions: { type: "array" } } } } }) },
+        extensions: { ...declareDiscoveryExtension({ input: { address: "0xd8dA...", limit: "10" }, inputSchema: { properties: { address: { type: "string" }, limit: { type: "string" }, include: { type: "string", enum: ["tokens"] } }, required: ["address"] }, output: { example: { transactions: [] }, schema: { properties: { transactions: { type: "array" } } } } }) },
       },
 
       // ---- ESCROW (flat routes) ----
@@ -506,13 +609,38 @@ const paidRoutes = {
       },
       "POST /api/v1/escrow/fund": {
         accepts: [{ scheme: "exact", price: "$0.02", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.02", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
-        description: "Mark escrow as funded. Pass escrowId in body.", mimeType: "application/json",
-        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2" }, inputSchema: { properties: { escrowId: { type: "string" } }, required: ["escrowId"] }, bodyType: "json", output: { example: { status: "funded" }, schema: { properties: { status: { type: "string" } } } } }) },
+        description: "Submit the depositor's funding tx hash (or get the transfer to sign); caller must be the depositor. Escrow becomes funded once the transfer is confirmed on-chain.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2", txHash: "0x...", caller: "0xDepositor" }, inputSchema: { properties: { escrowId: { type: "string" }, txHash: { type: "string" }, caller: { type: "string" } }, required: ["escrowId"] }, bodyType: "json", output: { example: { status: "pending_confirmation" }, schema: { properties: { status: { type: "string" } } } } }) },
+      },
+      "POST /api/v1/escrow/milestone/approve": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Approve one escrow milestone (depositor or arbiter) so it can be released on its own.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2", milestoneId: "M1", caller: "0xDepositor" }, inputSchema: { properties: { escrowId: { type: "string" }, milestoneId: { type: "string" }, caller: { type: "string" } }, required: ["escrowId", "milestoneId", "caller"] }, bodyType: "json", output: { example: { status: "approved", milestone: { id: "M1", status: "approved" } }, schema: { properties: { status: { type: "string" }, milestone: { type: "object" } } } } }) },
+      },
+      "POST /api/v1/escrow/dispute": {
+        accepts: [{ scheme: "exact", price: "$0.02", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.02", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Open a dispute on a funded escrow (depositor or beneficiary) with text and IPFS CID evidence. Freezes release/cancel until the arbiter rules or the deadline passes.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2", caller: "0xBeneficiary", reason: "Work delivered, not approved", evidence: { text: "See delivery", cids: ["bafy..."] } }, inputSchema: { properties: { escrowId: { type: "string" }, caller: { type: "string" }, reason: { type: "string" }, evidence: { type: "object" } }, required: ["escrowId", "caller", "reason"] }, bodyType: "json", output: { example: { status: "disputed", dispute: { deadline: "2026-01-12T00:00:00.000Z" } }, schema: { properties: { status: { type: "string" }, dispute: { type: "object" } } } } }) },
+      },
+      "POST /api/v1/escrow/dispute/evidence": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Add evidence (text and/or IPFS CIDs) to an open escrow dispute.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2", caller: "0xDepositor", text: "Counter-evidence", cids: ["bafy..."] }, inputSchema: { properties: { escrowId: { type: "string" }, caller: { type: "string" }, text: { type: "string" }, cids: { type: "array" } }, required: ["escrowId", "caller"] }, bodyType: "json", output: { example: { status: "disputed", evidenceCount: 2 }, schema: { properties: { status: { type: "string" }, evidenceCount: { type: "number" } } } } }) },
+      },
+      "POST /api/v1/escrow/dispute/resolve": {
+        accepts: [{ scheme: "exact", price: "$0.05", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.05", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Arbiter resolves an escrow dispute with a percentage split. Returns one unsigned transfer to each party.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2", caller: "0xArbiter", split: { beneficiary: 70, depositor: 30 } }, inputSchema: { properties: { escrowId: { type: "string" }, caller: { type: "string" }, split: { type: "object" }, note: { type: "string" } }, required: ["escrowId", "caller", "split"] }, bodyType: "json", output: { example: { status: "resolved", transactions: [] }, schema: { properties: { status: { type: "string" }, transactions: { type: "array" } } } } }) },
+      },
+      "POST /api/v1/escrow/verify": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Verify an escrow's funding transfer on Base (token, amount, depositor → holding address, confirmations).", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2" }, inputSchema: { properties: { escrowId: { type: "string" }, txHash: { type: "string" }, caller: { type: "string" } }, required: ["escrowId"] }, bodyType: "json", output: { example: { status: "funded", verification: { state: "confirmed", confirmations: 12 } }, schema: { properties: { status: { type: "string" }, verification: { type: "object" } } } } }) },
       },
       "POST /api/v1/escrow/release": {
         accepts: [{ scheme: "exact", price: "$0.08", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.08", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
-        description: "Release escrow funds. Returns unsigned transfer tx. Depositor or arbiter only.", mimeType: "application/json",
-        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2", caller: "0xDepositor" }, inputSchema: { properties: { escrowId: { type: "string" }, caller: { type: "string" } }, required: ["escrowId", "caller"] }, bodyType: "json", output: { example: { status: "released", transaction: {} }, schema: { properties: { status: { type: "string" }, transaction: { type: "object" } } } } }) },
+        description: "Release escrow funds, in full or one milestone at a time. Returns unsigned transfer tx. Depositor or arbiter; beneficiary for approved milestones.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { escrowId: "ESC-A1B2", caller: "0xDepositor" }, inputSchema: { properties: { escrowId: { type: "string" }, caller: { type: "string" }, milestoneId: { type: "string" } }, required: ["escrowId", "caller"] }, bodyType: "json", output: { example: { status: "released", transaction: {} }, schema: { properties: { status: { type: "string" }, transaction: { type: "object" } } } } }) },
       },
       "POST /api/v1/escrow/cancel": {
         accepts: [{ scheme: "exact", price: "$0.02", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.02", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
@@ -617,8 +745,8 @@ const paidRoutes = {
       },
       "POST /api/v1/cron/create": {
         accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
-        description: "Create scheduled job for recurring payments, DCA, reminders.", mimeType: "application/json",
-        extensions: { ...declareDiscoveryExtension({ input: { action: "batch.execute", schedule: "0 9 * * 1", payload: { token: "USDC", recipients: ["0x..."] } }, inputSchema: { properties: { action: { type: "string" }, schedule: { type: "string" }, payload: { type: "object" }, maxRuns: { type: "number" } }, required: ["action", "schedule", "payload"] }, bodyType: "json", output: { example: { id: "cron_123", status: "active" }, schema: { properties: { id: { type: "string" }, status: { type: "string" } } } } }) },
+        description: "Create scheduled job for recurring payments, DCA, reminders. Swap and messaging actions need maxRuns (max 100) and at most hourly schedules.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { action: "batch.execute", schedule: "0 9 * * 1", payload: { token: "USDC", recipients: ["0x..."] } }, inputSchema: { properties: { action: { type: "string" }, schedule: { type: "string" }, timezone: { type: "string" }, payload: { type: "object" }, maxRuns: { type: "number" } }, required: ["action", "schedule", "payload"] }, bodyType: "json", output: { example: { id: "cron_123", status: "active", nextRun: "2026-01-05T09:00:00.000Z" }, schema: { properties: { id: { type: "string" }, status: { type: "string" } } } } }) },
       },
       "GET /api/v1/cron/list": {
         accepts: [{ scheme: "exact", price: "$0.002", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.002", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
@@ -630,6 +758,26 @@ const paidRoutes = {
         description: "Cancel a scheduled job.", mimeType: "application/json",
         extensions: { ...declareDiscoveryExtension({ input: { jobId: "cron_123" }, inputSchema: { properties: { jobId: { type: "string" } }, required: ["jobId"] }, bodyType: "json", output: { example: { status: "cancelled" }, schema: { properties: { status: { type: "string" } } } } }) },
       },
+      "GET /api/v1/cron/:id/runs": {
+        accepts: [{ scheme: "exact", price: "$0.002", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.002", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Paginated run history for a scheduled job.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { limit: "20", offset: "0" }, inputSchema: { properties: { limit: { type: "string" }, offset: { type: "string" } } }, output: { example: { runs: [{ status: "success", durationMs: 412 }], total: 1, hasMore: false }, schema: { properties: { runs: { type: "array" }, total: { type: "number" } } } } }) },
+      },
+      "POST /api/v1/cron/:id/trigger": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Run a scheduled job now, outside its schedule.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: {}, inputSchema: { properties: {} }, bodyType: "json", output: { example: { runId: "run_123", status: "success" }, schema: { properties: { runId: { type: "string" }, status: { type: "string" } } } } }) },
+      },
+      "POST /api/v1/cron/:id/pause": {
+        accepts: [{ scheme: "exact", price: "$0.002", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.002", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Pause a scheduled job.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: {}, inputSchema: { properties: {} }, bodyType: "json", output: { example: { status: "paused" }, schema: { properties: { status: { type: "string" } } } } }) },
+      },
+      "POST /api/v1/cron/:id/resume": {
+        accepts: [{ scheme: "exact", price: "$0.002", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.002", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Resume a paused or failed job.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: {}, inputSchema: { properties: {} }, bodyType: "json", output: { example: { status: "active", nextRun: "2026-01-05T09:00:00.000Z" }, schema: { properties: { status: { type: "string" }, nextRun: { type: "string" } } } } }) },
+      },
       "POST /api/v1/logs/ingest": {
         accepts: [{ scheme: "exact", price: "$0.002", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.002", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
         description: "Ingest structured logs for debugging agent workflows.", mimeType: "application/json",
@@ -652,6 +800,26 @@ const paidRoutes = {
         description: "Check KYC verification status.", mimeType: "application/json",
         extensions: { ...declareDiscoveryExtension({ input: { id: "kyc_123" }, inputSchema: { properties: { id: { type: "string" }, address: { type: "string" } } }, output: { example: { status: "approved", checks: { identity: true, sanctions: true } }, schema: { properties: { status: { type: "string" } } } } }) },
       },
+      "GET /api/v1/kyc/history": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Full sanctions screening history for an address, with result changes and its monitors.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { address: "0xd8dA..." }, inputSchema: { properties: { address: { type: "string" }, chain: { type: "string" } }, required: ["address"] }, output: { example: { screenings: [{ result: "clear", trigger: "monitor", changed: false }], total: 1, changes: 0 }, schema: { properties: { screenings: { type: "array" }, monitors: { type: "array" } } } } }) },
+      },
+      "POST /api/v1/kyc/monitor": {
+        accepts: [{ scheme: "exact", price: "$0.05", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.05", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Register an address for scheduled OFAC re-screening; a change from clear to match alerts by webhook and email.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { address: "0xd8dA...", intervalHours: 24, alertEmail: "compliance@example.com", callback_url: "https://example.com/hooks" }, inputSchema: { properties: { address: { type: "string" }, chain: { type: "string" }, intervalHours: { type: "number" }, alertEmail: { type: "string" }, label: { type: "string" }, callback_url: { type: "string" } }, required: ["address"] }, bodyType: "json", output: { example: { monitor: { id: "mon_123", status: "active", lastResult: "clear" } }, schema: { properties: { monitor: { type: "object" }, screening: { type: "object" } } } } }) },
+      },
+      "GET /api/v1/kyc/monitor/:id": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Sanctions monitor state, last result and alerts.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ output: { example: { monitor: { id: "mon_123", lastResult: "clear", alerts: [] } }, schema: { properties: { monitor: { type: "object" } } } } }) },
+      },
+      "POST /api/v1/kyc/monitor/:id/cancel": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Stop re-screening an address; its history is kept.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: {}, inputSchema: { properties: {} }, bodyType: "json", output: { example: { monitor: { status: "cancelled" } }, schema: { properties: { monitor: { type: "object" } } } } }) },
+      },
       "POST /api/v1/auth/session": {
         accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
         description: "Create authenticated session with scoped permissions.", mimeType: "application/json",
@@ -674,15 +842,30 @@ const paidRoutes = {
         description: "Query audit trail by actor, action, resource, time range.", mimeType: "application/json",
         extensions: { ...declareDiscoveryExtension({ input: { actor: "0xd8dA...", action: "payment.sent" }, inputSchema: { properties: { actor: { type: "string" }, action: { type: "string" }, resource: { type: "string" }, since: { type: "string" }, until: { type: "string" } } }, output: { example: { entries: [], total: 0 }, schema: { properties: { entries: { type: "array" } } } } }) },
       },
+      "GET /api/v1/audit/verify": {
+        accepts: [{ scheme: "exact", price: "$0.02", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.02", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Prove a range of a tenant's hash-chained audit entries is intact: re-hashes every entry, checks each link and the signed Merkle checkpoints.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { tenant: "acme", from: "1", to: "500" }, inputSchema: { properties: { tenant: { type: "string" }, from: { type: "string" }, to: { type: "string" } } }, output: { example: { intact: true, entriesChecked: 500, firstBreak: null, checkpoints: [] }, schema: { properties: { intact: { type: "boolean" }, firstBreak: { type: "object" } } } } }) },
+      },
+      "GET /api/v1/audit/proof": {
+        accepts: [{ scheme: "exact", price: "$0.01", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.01", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Merkle inclusion proof of one audit entry in a signed checkpoint, checkable offline.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { id: "aud_123" }, inputSchema: { properties: { id: { type: "string" }, tenant: { type: "string" }, checkpoint: { type: "string" } }, required: ["id"] }, output: { example: { leafIndex: 41, treeSize: 500, path: ["ab12..."], valid: true }, schema: { properties: { path: { type: "array" }, checkpoint: { type: "object" } } } } }) },
+      },
       "POST /api/v1/tax/calculate": {
         accepts: [{ scheme: "exact", price: "$0.08", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.08", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
-        description: "Calculate crypto tax gain/loss using FIFO method.", mimeType: "application/json",
-        extensions: { ...declareDiscoveryExtension({ input: { transactions: [{ type: "swap", asset: "ETH", amount: 1.5, costBasisUsd: 3000, proceedsUsd: 4500, holdingDays: 400 }] }, inputSchema: { properties: { transactions: { type: "array" } }, required: ["transactions"] }, bodyType: "json", output: { example: { summary: { totalGainLossUsd: 1500 } }, schema: { properties: { summary: { type: "object" } } } } }) },
+        description: "Calculate crypto tax gain/loss per transaction, or match disposals to tax lots by FIFO, LIFO or HIFO.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { transactions: [{ type: "swap", asset: "ETH", amount: 1.5, costBasisUsd: 3000, proceedsUsd: 4500, holdingDays: 400 }] }, inputSchema: { properties: { transactions: { type: "array" }, method: { type: "string", enum: ["fifo", "lifo", "hifo"] } }, required: ["transactions"] }, bodyType: "json", output: { example: { summary: { totalGainLossUsd: 1500 } }, schema: { properties: { summary: { type: "object" } } } } }) },
       },
       "GET /api/v1/tax/report": {
         accepts: [{ scheme: "exact", price: "$0.05", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.05", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
-        description: "Retrieve tax report with IRS 8949-compatible data.", mimeType: "application/json",
-        extensions: { ...declareDiscoveryExtension({ input: { reportId: "tax_123" }, inputSchema: { properties: { reportId: { type: "string" } } }, output: { example: { events: [], total: 0 }, schema: { properties: { events: { type: "array" } } } } }) },
+        description: "Retrieve a tax report as JSON, or export it as an IRS Form 8949 / Schedule D, UK CGT or Koinly CSV.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { reportId: "tax_123" }, inputSchema: { properties: { reportId: { type: "string" }, format: { type: "string", enum: ["json", "8949", "uk-cgt", "koinly"] }, year: { type: "string" } } }, output: { example: { events: [], total: 0 }, schema: { properties: { events: { type: "array" } } } } }) },
+      },
+      "POST /api/v1/tax/import-wallet": {
+        accepts: [{ scheme: "exact", price: "$0.10", network: CAIP2_NETWORK, payTo: PAY_TO }, { scheme: "exact", price: "$0.10", network: SOLANA_NETWORK, payTo: SOLANA_PAY_TO }],
+        description: "Import Base wallet history for your addresses, classify transfers and swaps as acquisitions, disposals, income or self-transfers, and run tax-lot matching. Ambiguous rows come back for labelling.", mimeType: "application/json",
+        extensions: { ...declareDiscoveryExtension({ input: { addresses: ["0xd8dA..."], startDate: "2026-01-01", method: "fifo" }, inputSchema: { properties: { addresses: { type: "array" }, startDate: { type: "string" }, endDate: { type: "string" }, method: { type: "string", enum: ["fifo", "lifo", "hifo"] }, labels: { type: "object" }, transactions: { type: "array" } }, required: ["addresses", "startDate"] }, bodyType: "json", output: { example: { reportId: "tax_123", summary: { totalGainLossUsd: 150 }, import: { rows: [], ambiguous: [] } }, schema: { properties: { summary: { type: "object" }, import: { type: "object" } } } } }) },
       },
 
       // ---- GPU/COMPUTE ----
@@ -1222,6 +1405,8 @@ const FREE_ENDPOINTS = {
   "POST /free/chat": "Free AI chat (open-weight models)",
   "GET /free/chat/models": "Free model catalog (open-weight models)",
   "GET /free/models": "AI model catalog — free mirror of /api/v1/models",
+  "GET /pay/:invoiceId": "Hosted invoice checkout page (QR, EIP-681, Solana Pay)",
+  "GET /pay/:invoiceId/status": "Invoice payment status for the checkout page",
 };
 const FREE_COUNT = Object.keys(FREE_ENDPOINTS).length;
 const TOTAL_COUNT = PAID_COUNT + FREE_COUNT;
@@ -1261,6 +1446,8 @@ const MANIFEST_META = [
       { resource: `${BASE_URL}/api/v1/chat/completions`, method: "POST", price: "$0.005", category: "ai", description: "OpenAI-compatible chat completions across 200+ models (BlockRun + OpenRouter). Streaming, function calling, vision.", searchTerms: ["chat completion","LLM","AI chat","text generation","GPT","language model","OpenAI compatible","inference"] },
       { resource: `${BASE_URL}/api/v1/models`, method: "GET", price: "$0.001", category: "ai", description: "List all available AI models with IDs, capabilities, and pricing. Call before chat/completions to pick the right model.", searchTerms: ["list models","available models","model catalog","which models","supported models","LLM list","model pricing"] },
       { resource: `${BASE_URL}/api/v1/batch/execute`, method: "POST", price: "$0.02", category: "payments", description: "Batch USDC/ERC-20 payments to up to 200 recipients in one atomic, non-custodial transaction. Implements Batch Payments for Agents (BPA) 1.0.", searchTerms: ["batch payment","bulk payout","mass payout","send to many wallets","airdrop","disbursement","multi-send","pay many recipients"], spec: "https://docs.spraay.app/bpa/1.0/" },
+      { resource: `${BASE_URL}/api/v1/batch/report`, method: "POST", price: "$0.005", category: "payments", description: "Report the tx hash an executed batch was submitted in. The gateway checks the Spraay call and each recipient's transfer on-chain and fires batch.confirmed / batch.settled webhooks.", searchTerms: ["batch tx hash","report batch","batch confirmation","payout confirmation","settlement tracking"] },
+      { resource: `${BASE_URL}/api/v1/batch/:id`, method: "GET", price: "$0.001", category: "payments", description: "Per-recipient settlement status of an executed batch by batch ID, with a downloadable CSV receipt.", searchTerms: ["batch status","batch receipt","payout status","did recipients get paid","settlement status","batch lookup"] },
       { resource: `${BASE_URL}/api/v1/batch/estimate`, method: "POST", price: "$0.001", category: "payments", description: "Estimate gas and total USDC for a batch payment before sending. Returns per-recipient breakdown. Call before batch/execute.", searchTerms: ["batch estimate","payment estimate","gas estimate","fee preview","bulk payment cost","pre-flight check","dry run"] },
       { resource: `${BASE_URL}/api/v1/swap/quote`, method: "GET", price: "$0.008", category: "defi", description: "Get a token swap quote across Uniswap V3, Aerodrome and other DEXes on Base.", searchTerms: ["swap quote","best swap rate","token exchange rate","DEX aggregator","get swap price","price impact"] },
       { resource: `${BASE_URL}/api/v1/swap/tokens`, method: "GET", price: "$0.001", category: "defi", description: "List tokens available for swapping on Base via Uniswap V3 / Aerodrome with addresses, symbols, and decimals. Call before swap/quote.", searchTerms: ["list tokens","token list","swappable tokens","Base tokens","tradeable tokens","token discovery","ERC-20 list"] },
@@ -1273,15 +1460,32 @@ const MANIFEST_META = [
       { resource: `${BASE_URL}/api/v1/payroll/execute`, method: "POST", price: "$0.10", category: "payroll", description: "Run payroll: batch USDC/stablecoin payments to a list of employees or contractors in one transaction.", searchTerms: ["payroll","pay employees","pay contractors","salary payments","stablecoin payroll","recurring payouts","crypto payroll"] },
       { resource: `${BASE_URL}/api/v1/payroll/estimate`, method: "POST", price: "$0.003", category: "payroll", description: "Estimate total cost and gas for a payroll run before execution. Returns per-recipient breakdown. Call before payroll/execute.", searchTerms: ["payroll estimate","salary estimate","payment cost","payroll preview","fee estimate","payroll dry run"] },
       { resource: `${BASE_URL}/api/v1/payroll/tokens`, method: "GET", price: "$0.002", category: "payroll", description: "List stablecoins supported for payroll (USDC, USDT, DAI) across Base, Ethereum and Solana. Call before payroll/execute to pick the payout token.", searchTerms: ["payroll tokens","supported stablecoins","pay in USDC","salary token","payment currency","payroll assets"] },
+      { resource: `${BASE_URL}/api/v1/payroll/roster`, method: "POST", price: "$0.01", category: "payroll", description: "Keep a persistent payroll roster per employer: employee wallet, default amount, token, label and active flag. Upserts by address; accepts CSV/XLSX.", searchTerms: ["payroll roster","employee list","add employee","salary roster","deactivate employee"] },
+      { resource: `${BASE_URL}/api/v1/payroll/roster`, method: "GET", price: "$0.002", category: "payroll", description: "List an employer's payroll roster.", searchTerms: ["payroll roster","list employees","who is on payroll"] },
+      { resource: `${BASE_URL}/api/v1/payroll/run`, method: "POST", price: "$0.10", category: "payroll", description: "Generate a payroll run from the saved roster: unsigned approval + batch transactions per token, recorded in run history.", searchTerms: ["run payroll","pay roster","payroll from roster","pay employees now"] },
+      { resource: `${BASE_URL}/api/v1/payroll/schedule`, method: "POST", price: "$0.05", category: "payroll", description: "Create a biweekly or monthly pay schedule that generates payroll runs from the roster on every pay date.", searchTerms: ["pay schedule","biweekly payroll","monthly payroll","recurring payroll","automatic payroll"] },
+      { resource: `${BASE_URL}/api/v1/payroll/schedule/:id`, method: "GET", price: "$0.01", category: "payroll", description: "Get a pay schedule with every run it has generated.", searchTerms: ["pay schedule status","scheduled payroll runs"] },
+      { resource: `${BASE_URL}/api/v1/payroll/schedule/:id/cancel`, method: "POST", price: "$0.01", category: "payroll", description: "Cancel a pay schedule; generated runs stay in history.", searchTerms: ["cancel payroll schedule","stop payroll"] },
+      { resource: `${BASE_URL}/api/v1/payroll/history`, method: "GET", price: "$0.01", category: "payroll", description: "Payroll run history: per-employee amounts over time and year-to-date totals per employee and token.", searchTerms: ["payroll history","YTD payroll","year to date salary","employee pay history","payroll report"] },
       { resource: `${BASE_URL}/api/v1/invoice/create`, method: "POST", price: "$0.05", category: "invoice", description: "Create a crypto-native invoice with on-chain payment tracking in USDC on Base/Ethereum. For contractor billing, vendor payments, and AR workflows.", searchTerms: ["create invoice","crypto invoice","billing","accounts receivable","payment request","invoice generation","on-chain invoice"] },
       { resource: `${BASE_URL}/api/v1/invoice/list`, method: "GET", price: "$0.01", category: "invoice", description: "List invoices for a wallet or org with status, amounts, and payment history. For AR tracking, status monitoring, and financial reporting.", searchTerms: ["list invoices","invoice history","unpaid invoices","invoice status","outstanding payments","billing history"] },
+      { resource: `${BASE_URL}/api/v1/invoice/recurring`, method: "POST", price: "$0.05", category: "invoice", description: "Create a recurring invoice template that issues a fresh invoice weekly, monthly or on a cron schedule, with net terms and automatic reminders.", searchTerms: ["recurring invoice","subscription billing","retainer invoice","monthly invoice","automatic invoicing"] },
+      { resource: `${BASE_URL}/api/v1/invoice/recurring/:id`, method: "GET", price: "$0.01", category: "invoice", description: "Get a recurring invoice template with its schedule and every invoice it has issued.", searchTerms: ["recurring invoice status","issued invoices","billing schedule"] },
+      { resource: `${BASE_URL}/api/v1/invoice/recurring/:id/cancel`, method: "POST", price: "$0.01", category: "invoice", description: "Cancel a recurring invoice template; already-issued invoices stay open.", searchTerms: ["cancel recurring invoice","stop billing","end subscription invoice"] },
+      { resource: `${BASE_URL}/api/v1/invoice/remind`, method: "POST", price: "$0.01", category: "invoice", description: "Remind a payer about an unpaid or overdue invoice via email, XMTP or webhook, with per-invoice history and rate limiting.", searchTerms: ["invoice reminder","payment reminder","overdue invoice","dunning","collections"] },
+      { resource: `${BASE_URL}/api/v1/invoice/:id/export`, method: "GET", price: "$0.01", category: "invoice", description: "Export an invoice as a PDF, a UBL 2.1 / Peppol BIS e-invoice or schema.org JSON-LD for accounting systems, with the on-chain tx hash as proof of payment.", searchTerms: ["invoice pdf","e-invoice","UBL","Peppol","export invoice","accounting export","proof of payment"] },
       { resource: `${BASE_URL}/api/v1/invoice/:id`, method: "GET", price: "$0.001", category: "invoice", description: "Retrieve a single invoice by ID with payment status, recipient, amount, and on-chain settlement details. For payment verification and reconciliation.", searchTerms: ["get invoice","invoice lookup","invoice details","check payment","payment confirmation","invoice status"] },
       { resource: `${BASE_URL}/api/v1/analytics/wallet`, method: "GET", price: "$0.01", category: "analytics", description: "Wallet profile: balances, top tokens, activity tier, age, and risk signals for any address.", searchTerms: ["wallet analysis","address profile","wallet risk","wallet reputation","check wallet","due diligence","wallet score"] },
       { resource: `${BASE_URL}/api/v1/analytics/txhistory`, method: "GET", price: "$0.008", category: "analytics", description: "Full transaction history for any wallet across Base and Ethereum: decoded transfers, swaps, contract calls, and timestamps. For portfolio tracking and due diligence.", searchTerms: ["transaction history","tx history","wallet history","past transactions","on-chain activity","transfer history","defi history"] },
       { resource: `${BASE_URL}/api/v1/escrow/create`, method: "POST", price: "$0.10", category: "escrow", description: "Create an on-chain escrow holding funds until release conditions are met. Trustless conditional payment between two parties.", searchTerms: ["escrow","conditional payment","hold funds","milestone payment","trustless payment","release on completion","dispute protection"] },
       { resource: `${BASE_URL}/api/v1/escrow/list`, method: "GET", price: "$0.02", category: "escrow", description: "List active and historical escrow contracts for a wallet with status, locked amounts, counterparties, and release conditions. For contract oversight.", searchTerms: ["list escrows","active escrows","escrow status","pending payments","locked funds","contract list"] },
       { resource: `${BASE_URL}/api/v1/escrow/:id`, method: "GET", price: "$0.001", category: "escrow", description: "Retrieve a single escrow by ID with locked amount, parties, status, and release conditions. For real-time monitoring and release-trigger evaluation.", searchTerms: ["get escrow","escrow lookup","escrow details","check escrow","contract status","locked payment"] },
-      { resource: `${BASE_URL}/api/v1/escrow/fund`, method: "POST", price: "$0.02", category: "escrow", description: "Deposit USDC into an existing escrow to lock funds pending conditions. Required after escrow/create and before escrow/release.", searchTerms: ["fund escrow","deposit escrow","lock funds","escrow deposit","add funds","fund contract"] },
+      { resource: `${BASE_URL}/api/v1/escrow/fund`, method: "POST", price: "$0.02", category: "escrow", description: "Deposit USDC into an existing escrow to lock funds pending conditions. Submit the funding tx hash; the escrow is funded once the transfer confirms on-chain. Required after escrow/create and before escrow/release.", searchTerms: ["fund escrow","deposit escrow","lock funds","escrow deposit","add funds","fund contract"] },
+      { resource: `${BASE_URL}/api/v1/escrow/milestone/approve`, method: "POST", price: "$0.01", category: "escrow", description: "Approve a single escrow milestone so its amount can be released independently. For freelance and staged-delivery payments.", searchTerms: ["approve milestone","milestone escrow","partial release","staged payment","freelance milestone"] },
+      { resource: `${BASE_URL}/api/v1/escrow/dispute`, method: "POST", price: "$0.02", category: "escrow", description: "Open an escrow dispute with text and IPFS evidence. Freezes release and cancel until the arbiter rules or the dispute deadline applies the default outcome.", searchTerms: ["escrow dispute","open dispute","arbitration","contest escrow","freeze escrow","dispute evidence"] },
+      { resource: `${BASE_URL}/api/v1/escrow/dispute/evidence`, method: "POST", price: "$0.01", category: "escrow", description: "Submit additional text or IPFS CID evidence to an open escrow dispute.", searchTerms: ["dispute evidence","submit evidence","arbitration evidence","ipfs evidence"] },
+      { resource: `${BASE_URL}/api/v1/escrow/dispute/resolve`, method: "POST", price: "$0.05", category: "escrow", description: "Arbiter ruling on an escrow dispute: split the remaining balance by percentage and get a transfer payload for each party.", searchTerms: ["resolve dispute","arbiter ruling","split escrow","arbitration decision","settle dispute"] },
+      { resource: `${BASE_URL}/api/v1/escrow/verify`, method: "POST", price: "$0.01", category: "escrow", description: "Verify an escrow deposit against Base: ERC-20 transfer amount, depositor, holding address and confirmation count, with reorg tolerance.", searchTerms: ["verify escrow","confirm deposit","escrow funding check","check funding tx","escrow confirmations"] },
       { resource: `${BASE_URL}/api/v1/escrow/release`, method: "POST", price: "$0.08", category: "escrow", description: "Release locked escrow funds to the recipient once conditions are met, finalizing a trustless payment. Pairs with escrow/create and escrow/fund.", searchTerms: ["release escrow","release funds","complete escrow","finalize payment","escrow payout","trustless release"] },
       { resource: `${BASE_URL}/api/v1/escrow/cancel`, method: "POST", price: "$0.02", category: "escrow", description: "Cancel an active escrow and return locked funds to the depositor. For dispute resolution, expired milestones, or abandoned-contract cleanup.", searchTerms: ["cancel escrow","refund escrow","void contract","return funds","escrow dispute","cancel payment"] },
       { resource: `${BASE_URL}/api/v1/inference/classify-address`, method: "POST", price: "$0.03", category: "inference", description: "AI classification of a wallet as EOA, contract, exchange, DeFi protocol, DAO, or bot, with risk signals. For counterparty screening and smart routing.", searchTerms: ["classify address","wallet type","address risk","is this a contract","address screening","counterparty check"] },
@@ -1307,18 +1511,29 @@ const MANIFEST_META = [
       { resource: `${BASE_URL}/api/v1/cron/create`, method: "POST", price: "$0.01", category: "infrastructure", description: "Schedule a recurring or one-time job (payments, API calls, on-chain actions) with cron syntax. For automation and recurring payouts.", searchTerms: ["cron", "schedule job", "recurring task", "automate", "scheduled payment", "timer", "recurring payout", "task scheduler"] },
       { resource: `${BASE_URL}/api/v1/cron/list`, method: "GET", price: "$0.002", category: "infrastructure", description: "List scheduled cron jobs with their schedules, actions, and next run times.", searchTerms: ["list cron jobs", "scheduled tasks", "my jobs", "view schedules", "recurring jobs"] },
       { resource: `${BASE_URL}/api/v1/cron/cancel`, method: "POST", price: "$0.002", category: "infrastructure", description: "Cancel a scheduled cron job so it no longer runs.", searchTerms: ["cancel cron", "stop scheduled job", "remove job", "delete schedule", "unschedule"] },
+      { resource: `${BASE_URL}/api/v1/cron/:id/runs`, method: "GET", price: "$0.002", category: "infrastructure", description: "Paginated run history for a cron job with status, duration, output/tx payload and error per run. For debugging scheduled payouts.", searchTerms: ["cron runs", "job history", "run log", "scheduled job output", "why did my job fail"] },
+      { resource: `${BASE_URL}/api/v1/cron/:id/trigger`, method: "POST", price: "$0.01", category: "infrastructure", description: "Run a cron job immediately without changing its schedule.", searchTerms: ["run job now", "trigger cron", "manual run", "execute schedule now"] },
+      { resource: `${BASE_URL}/api/v1/cron/:id/pause`, method: "POST", price: "$0.002", category: "infrastructure", description: "Pause a cron job; it keeps its history and can be resumed.", searchTerms: ["pause cron", "suspend job", "hold schedule"] },
+      { resource: `${BASE_URL}/api/v1/cron/:id/resume`, method: "POST", price: "$0.002", category: "infrastructure", description: "Resume a paused or failed cron job from its next scheduled time.", searchTerms: ["resume cron", "unpause job", "restart schedule"] },
       { resource: `${BASE_URL}/api/v1/logs/ingest`, method: "POST", price: "$0.002", category: "infrastructure", description: "Ingest structured log entries for agent observability and audit trails. Batch up to many entries per call.", searchTerms: ["ingest logs", "log events", "structured logging", "observability", "send logs", "agent logging", "telemetry"] },
       { resource: `${BASE_URL}/api/v1/logs/query`, method: "GET", price: "$0.005", category: "infrastructure", description: "Query ingested structured logs by service, level, and time range. For debugging and monitoring agent activity.", searchTerms: ["query logs", "search logs", "log search", "read logs", "debug logs", "monitoring", "log analytics"] },
       // Identity & Access
       { resource: `${BASE_URL}/api/v1/kyc/verify`, method: "POST", price: "$0.02", category: "identity", description: "Screen a wallet or person against OFAC sanctions lists for compliance. Returns risk result and match details.", searchTerms: ["KYC", "sanctions screening", "OFAC", "compliance check", "AML", "know your customer", "watchlist screening", "wallet screening"] },
       { resource: `${BASE_URL}/api/v1/kyc/status`, method: "GET", price: "$0.01", category: "identity", description: "Check the status and result of a previously submitted KYC/sanctions verification.", searchTerms: ["KYC status", "verification status", "compliance status", "screening result", "check KYC"] },
+      { resource: `${BASE_URL}/api/v1/kyc/history`, method: "GET", price: "$0.01", category: "identity", description: "Every sanctions screening of an address — one-off checks and scheduled re-screens — with the points where the result changed.", searchTerms: ["screening history", "sanctions history", "KYC history", "audit sanctions", "rescreening log"] },
+      { resource: `${BASE_URL}/api/v1/kyc/monitor`, method: "POST", price: "$0.05", category: "identity", description: "Continuously monitor a wallet: re-screen it against OFAC on a schedule and get a webhook or email alert if it turns up on the sanctions list.", searchTerms: ["sanctions monitoring", "ongoing screening", "rescreen", "OFAC alert", "continuous KYC", "watchlist monitoring", "AML monitoring"] },
+      { resource: `${BASE_URL}/api/v1/kyc/monitor/:id`, method: "GET", price: "$0.01", category: "identity", description: "Check a sanctions monitor's latest result, next screening and alerts.", searchTerms: ["monitor status", "sanctions alert", "rescreen status"] },
+      { resource: `${BASE_URL}/api/v1/kyc/monitor/:id/cancel`, method: "POST", price: "$0.01", category: "identity", description: "Stop re-screening a monitored address; its screening history is kept.", searchTerms: ["cancel monitor", "stop sanctions monitoring"] },
       { resource: `${BASE_URL}/api/v1/auth/session`, method: "POST", price: "$0.01", category: "identity", description: "Create an authenticated session token with scoped permissions and TTL for an address. For agent auth and delegated access.", searchTerms: ["auth session", "create session", "login", "access token", "session token", "authentication", "delegated access", "API session"] },
       { resource: `${BASE_URL}/api/v1/auth/verify`, method: "GET", price: "$0.005", category: "identity", description: "Verify a session token and return its validity and granted permissions.", searchTerms: ["verify token", "validate session", "check auth", "token verification", "auth check"] },
       // Compliance
       { resource: `${BASE_URL}/api/v1/audit/log`, method: "POST", price: "$0.001", category: "compliance", description: "Record an immutable audit-trail entry (action, actor, resource) for compliance and accountability.", searchTerms: ["audit log", "audit trail", "compliance record", "activity log", "record action", "accountability", "immutable log"] },
       { resource: `${BASE_URL}/api/v1/audit/query`, method: "GET", price: "$0.03", category: "compliance", description: "Query the audit trail by actor, action, and time range for compliance reporting and investigations.", searchTerms: ["query audit", "audit search", "compliance report", "activity history", "investigate actions", "audit trail lookup"] },
-      { resource: `${BASE_URL}/api/v1/tax/calculate`, method: "POST", price: "$0.08", category: "compliance", description: "Calculate crypto capital gains and losses using FIFO accounting across a set of transactions. For tax reporting.", searchTerms: ["crypto tax", "capital gains", "FIFO", "tax calculation", "gain loss", "cost basis", "tax accounting", "calculate taxes"] },
-      { resource: `${BASE_URL}/api/v1/tax/report`, method: "GET", price: "$0.05", category: "compliance", description: "Generate an IRS Form 8949-compatible tax report from calculated gain/loss events.", searchTerms: ["tax report", "IRS 8949", "crypto tax report", "capital gains report", "tax form", "8949", "tax filing"] },
+      { resource: `${BASE_URL}/api/v1/audit/verify`, method: "GET", price: "$0.02", category: "compliance", description: "Prove a range of hash-chained audit entries is intact — every hash, every link and the signed Merkle checkpoints — and find the first break if not.", searchTerms: ["verify audit", "tamper evident", "hash chain", "audit integrity", "merkle checkpoint", "audit proof"] },
+      { resource: `${BASE_URL}/api/v1/audit/proof`, method: "GET", price: "$0.01", category: "compliance", description: "Merkle inclusion proof of one audit entry in a signed (optionally Base-anchored) checkpoint, checkable offline by auditors.", searchTerms: ["inclusion proof", "merkle proof", "audit evidence", "signed checkpoint", "offline verification"] },
+      { resource: `${BASE_URL}/api/v1/tax/calculate`, method: "POST", price: "$0.08", category: "compliance", description: "Calculate crypto capital gains and losses per transaction or with FIFO, LIFO or HIFO tax-lot matching, including own-wallet transfers and remaining open lots. For tax reporting.", searchTerms: ["crypto tax", "capital gains", "FIFO", "LIFO", "HIFO", "tax lots", "tax calculation", "gain loss", "cost basis", "tax accounting", "calculate taxes"] },
+      { resource: `${BASE_URL}/api/v1/tax/report`, method: "GET", price: "$0.05", category: "compliance", description: "Export calculated gain/loss events as an IRS Form 8949 / Schedule D CSV, a UK CGT summary with same-day and 30-day matching, or a Koinly-style CSV.", searchTerms: ["tax report", "IRS 8949", "crypto tax report", "capital gains report", "tax form", "8949", "tax filing", "schedule d", "uk cgt", "hmrc", "koinly"] },
+      { resource: `${BASE_URL}/api/v1/tax/import-wallet`, method: "POST", price: "$0.10", category: "compliance", description: "Pull a wallet's Base token transfers and swaps for a date range, classify them across your own addresses and calculate gains with tax lots. Returns ambiguous rows to label.", searchTerms: ["import wallet", "wallet tax", "crypto tax import", "transaction history tax", "classify transactions", "self transfer", "swap tax", "tax lots"] },
       // GPU/Compute
       { resource: `${BASE_URL}/api/v1/gpu/run`, method: "POST", price: "$0.06", category: "gpu", description: "Run GPU inference via Replicate: image, video, audio, and LLM workloads.", searchTerms: ["GPU inference","run AI model","image generation","video generation","model inference","Replicate","run model"] },
       { resource: `${BASE_URL}/api/v1/gpu/status/:id`, method: "GET", price: "$0.005", category: "gpu", description: "Poll the status of a GPU prediction job by ID and retrieve output when complete. Call after gpu/run.", searchTerms: ["GPU status", "prediction status", "job status", "check GPU job", "Replicate status", "inference status", "poll job"] },
@@ -1563,6 +1778,8 @@ app.get("/.well-known/mcp/server-card.json", (_req, res) => {
       { name: "spraay_models", description: "List AI models", price: "$0.001" },
       { name: "spraay_batch_execute", description: "Batch pay up to 200 recipients", price: "$0.02" },
       { name: "spraay_batch_estimate", description: "Estimate batch gas", price: "$0.001" },
+      { name: "spraay_batch_report", description: "Report a batch tx hash", price: "$0.005" },
+      { name: "spraay_batch_status", description: "Batch settlement status and receipt", price: "$0.001" },
       { name: "spraay_swap_quote", description: "Uniswap V3 swap quote", price: "$0.008" },
       { name: "spraay_swap_tokens", description: "List swap tokens", price: "$0.001" },
       { name: "spraay_swap_execute", description: "Execute swap", price: "$0.015" },
@@ -1574,15 +1791,32 @@ app.get("/.well-known/mcp/server-card.json", (_req, res) => {
       { name: "spraay_payroll_execute", description: "Execute payroll", price: "$0.10" },
       { name: "spraay_payroll_estimate", description: "Estimate payroll", price: "$0.003" },
       { name: "spraay_payroll_tokens", description: "Payroll stablecoins", price: "$0.002" },
+      { name: "spraay_payroll_roster", description: "Update payroll roster", price: "$0.01" },
+      { name: "spraay_payroll_roster_get", description: "Get payroll roster", price: "$0.002" },
+      { name: "spraay_payroll_run", description: "Run payroll from roster", price: "$0.10" },
+      { name: "spraay_payroll_schedule", description: "Create pay schedule", price: "$0.05" },
+      { name: "spraay_payroll_schedule_get", description: "Get pay schedule + runs", price: "$0.01" },
+      { name: "spraay_payroll_schedule_cancel", description: "Cancel pay schedule", price: "$0.01" },
+      { name: "spraay_payroll_history", description: "Payroll history + YTD", price: "$0.01" },
       { name: "spraay_invoice_create", description: "Create invoice", price: "$0.05" },
       { name: "spraay_invoice_list", description: "List invoices", price: "$0.01" },
       { name: "spraay_invoice_get", description: "Invoice lookup", price: "$0.01" },
+      { name: "spraay_invoice_export", description: "Export invoice (PDF, UBL, JSON-LD)", price: "$0.01" },
+      { name: "spraay_invoice_recurring_create", description: "Create recurring invoice", price: "$0.05" },
+      { name: "spraay_invoice_recurring_get", description: "Recurring invoice + issued invoices", price: "$0.01" },
+      { name: "spraay_invoice_recurring_cancel", description: "Cancel recurring invoice", price: "$0.01" },
+      { name: "spraay_invoice_remind", description: "Send invoice reminder", price: "$0.01" },
       { name: "spraay_analytics_wallet", description: "Wallet profile", price: "$0.01" },
       { name: "spraay_analytics_txhistory", description: "Tx history", price: "$0.008" },
       { name: "spraay_escrow_create", description: "Create escrow", price: "$0.10" },
       { name: "spraay_escrow_list", description: "List escrows", price: "$0.02" },
       { name: "spraay_escrow_get", description: "Escrow status", price: "$0.005" },
       { name: "spraay_escrow_fund", description: "Fund escrow", price: "$0.02" },
+      { name: "spraay_escrow_verify", description: "Verify escrow funding", price: "$0.01" },
+      { name: "spraay_escrow_milestone_approve", description: "Approve escrow milestone", price: "$0.01" },
+      { name: "spraay_escrow_dispute", description: "Open escrow dispute", price: "$0.02" },
+      { name: "spraay_escrow_dispute_evidence", description: "Add dispute evidence", price: "$0.01" },
+      { name: "spraay_escrow_dispute_resolve", description: "Resolve escrow dispute", price: "$0.05" },
       { name: "spraay_escrow_release", description: "Release escrow", price: "$0.08" },
       { name: "spraay_escrow_cancel", description: "Cancel escrow", price: "$0.02" },
       { name: "spraay_classify_address", description: "AI wallet classification", price: "$0.03" },
@@ -1606,16 +1840,27 @@ app.get("/.well-known/mcp/server-card.json", (_req, res) => {
       { name: "spraay_cron_create", description: "Create scheduled job", price: "$0.01" },
       { name: "spraay_cron_list", description: "List jobs", price: "$0.002" },
       { name: "spraay_cron_cancel", description: "Cancel job", price: "$0.002" },
+      { name: "spraay_cron_runs", description: "Job run history", price: "$0.002" },
+      { name: "spraay_cron_trigger", description: "Run job now", price: "$0.01" },
+      { name: "spraay_cron_pause", description: "Pause job", price: "$0.002" },
+      { name: "spraay_cron_resume", description: "Resume job", price: "$0.002" },
       { name: "spraay_logs_ingest", description: "Ingest logs", price: "$0.002" },
       { name: "spraay_logs_query", description: "Query logs", price: "$0.005" },
       { name: "spraay_kyc_verify", description: "KYC verification", price: "$0.02" },
       { name: "spraay_kyc_status", description: "KYC status", price: "$0.01" },
+      { name: "spraay_kyc_history", description: "Sanctions screening history", price: "$0.01" },
+      { name: "spraay_kyc_monitor", description: "Ongoing sanctions monitoring", price: "$0.05" },
+      { name: "spraay_kyc_monitor_status", description: "Sanctions monitor status", price: "$0.01" },
+      { name: "spraay_kyc_monitor_cancel", description: "Cancel sanctions monitor", price: "$0.01" },
       { name: "spraay_auth_session", description: "Create auth session", price: "$0.01" },
       { name: "spraay_auth_verify", description: "Verify token", price: "$0.005" },
       { name: "spraay_audit_log", description: "Record audit entry", price: "$0.005" },
       { name: "spraay_audit_query", description: "Query audit trail", price: "$0.03" },
-      { name: "spraay_tax_calculate", description: "Tax gain/loss calc", price: "$0.08" },
-      { name: "spraay_tax_report", description: "Tax report", price: "$0.05" },
+      { name: "spraay_audit_verify", description: "Verify audit hash chain and checkpoints", price: "$0.02" },
+      { name: "spraay_audit_proof", description: "Audit entry inclusion proof", price: "$0.01" },
+      { name: "spraay_tax_calculate", description: "Tax gain/loss calc (FIFO/LIFO/HIFO lots)", price: "$0.08" },
+      { name: "spraay_tax_report", description: "Tax report (8949 / UK CGT / Koinly CSV)", price: "$0.05" },
+      { name: "spraay_tax_import_wallet", description: "Import wallet history into tax lots", price: "$0.10" },
       { name: "spraay_gpu_run", description: "Run GPU inference (image, video, LLM, audio)", price: "$0.06" },
       { name: "spraay_gpu_status", description: "Check GPU prediction status", price: "$0.005" },
       { name: "spraay_gpu_models", description: "List GPU model shortcuts", price: "free" },
@@ -1697,6 +1942,8 @@ app.get("/", (_req, res) => {
         // Payments
         "POST /api/v1/batch/execute": "$0.02 - Batch payment",
         "POST /api/v1/batch/estimate": "$0.001 - Batch estimate",
+        "POST /api/v1/batch/report": "$0.005 - Report batch tx",
+        "GET /api/v1/batch/:id": "$0.001 - Batch settlement status + receipt",
         // DeFi
         "GET /api/v1/swap/quote": "$0.008 - Swap quote",
         "GET /api/v1/swap/tokens": "$0.001 - Swap tokens",
@@ -1712,10 +1959,22 @@ app.get("/", (_req, res) => {
         "POST /api/v1/payroll/execute": "$0.10 - Payroll",
         "POST /api/v1/payroll/estimate": "$0.003 - Payroll estimate",
         "GET /api/v1/payroll/tokens": "$0.002 - Payroll tokens",
+        "POST /api/v1/payroll/roster": "$0.01 - Update payroll roster",
+        "GET /api/v1/payroll/roster": "$0.002 - Payroll roster",
+        "POST /api/v1/payroll/run": "$0.10 - Payroll run from roster",
+        "POST /api/v1/payroll/schedule": "$0.05 - Create pay schedule",
+        "GET /api/v1/payroll/schedule/:id": "$0.01 - Pay schedule + runs",
+        "POST /api/v1/payroll/schedule/:id/cancel": "$0.01 - Cancel pay schedule",
+        "GET /api/v1/payroll/history": "$0.01 - Payroll history + YTD",
         // Invoice
         "POST /api/v1/invoice/create": "$0.05 - Create invoice",
         "GET /api/v1/invoice/list": "$0.01 - List invoices",
         "GET /api/v1/invoice/:id": "$0.01 - Invoice lookup",
+        "GET /api/v1/invoice/:id/export": "$0.01 - Export invoice (PDF, UBL, JSON-LD)",
+        "POST /api/v1/invoice/recurring": "$0.05 - Create recurring invoice",
+        "GET /api/v1/invoice/recurring/:id": "$0.01 - Recurring invoice + issued invoices",
+        "POST /api/v1/invoice/recurring/:id/cancel": "$0.01 - Cancel recurring invoice",
+        "POST /api/v1/invoice/remind": "$0.01 - Send invoice reminder",
         // Analytics
         "GET /api/v1/analytics/wallet": "$0.01 - Wallet profile",
         "GET /api/v1/analytics/txhistory": "$0.008 - Tx history",
@@ -1724,6 +1983,11 @@ app.get("/", (_req, res) => {
         "GET /api/v1/escrow/list": "$0.02 - List escrows",
         "GET /api/v1/escrow/:id": "$0.005 - Escrow status",
         "POST /api/v1/escrow/fund": "$0.02 - Fund escrow",
+        "POST /api/v1/escrow/verify": "$0.01 - Verify escrow funding",
+        "POST /api/v1/escrow/milestone/approve": "$0.01 - Approve escrow milestone",
+        "POST /api/v1/escrow/dispute": "$0.02 - Open escrow dispute",
+        "POST /api/v1/escrow/dispute/evidence": "$0.01 - Add dispute evidence",
+        "POST /api/v1/escrow/dispute/resolve": "$0.05 - Resolve escrow dispute",
         "POST /api/v1/escrow/release": "$0.08 - Release escrow",
         "POST /api/v1/escrow/cancel": "$0.02 - Cancel escrow",
         // Inference
@@ -1750,18 +2014,29 @@ app.get("/", (_req, res) => {
         "POST /api/v1/cron/create": "$0.01 - Create scheduled job",
         "GET /api/v1/cron/list": "$0.002 - List jobs",
         "POST /api/v1/cron/cancel": "$0.002 - Cancel job",
+        "GET /api/v1/cron/:id/runs": "$0.002 - Job run history",
+        "POST /api/v1/cron/:id/trigger": "$0.01 - Run job now",
+        "POST /api/v1/cron/:id/pause": "$0.002 - Pause job",
+        "POST /api/v1/cron/:id/resume": "$0.002 - Resume job",
         "POST /api/v1/logs/ingest": "$0.002 - Ingest logs",
         "GET /api/v1/logs/query": "$0.005 - Query logs",
         // Identity & Access
         "POST /api/v1/kyc/verify": "$0.02 - KYC verification",
         "GET /api/v1/kyc/status": "$0.01 - KYC status",
+        "GET /api/v1/kyc/history": "$0.01 - Sanctions screening history",
+        "POST /api/v1/kyc/monitor": "$0.05 - Scheduled sanctions re-screening with alerts",
+        "GET /api/v1/kyc/monitor/:id": "$0.01 - Sanctions monitor status",
+        "POST /api/v1/kyc/monitor/:id/cancel": "$0.01 - Cancel sanctions monitor",
         "POST /api/v1/auth/session": "$0.01 - Create session",
         "GET /api/v1/auth/verify": "$0.005 - Verify token",
         // Compliance
         "POST /api/v1/audit/log": "$0.005 - Audit log entry",
         "GET /api/v1/audit/query": "$0.03 - Query audit trail",
-        "POST /api/v1/tax/calculate": "$0.08 - Tax calculation",
-        "GET /api/v1/tax/report": "$0.05 - Tax report",
+        "GET /api/v1/audit/verify": "$0.02 - Verify audit hash chain and checkpoints",
+        "GET /api/v1/audit/proof": "$0.01 - Audit entry inclusion proof",
+        "POST /api/v1/tax/calculate": "$0.08 - Tax calculation (per transaction or FIFO/LIFO/HIFO lots)",
+        "GET /api/v1/tax/report": "$0.05 - Tax report (format=8949 | uk-cgt | koinly for CSV)",
+        "POST /api/v1/tax/import-wallet": "$0.10 - Import Base wallet history into tax-lot calculation",
         // GPU/Compute
         "POST /api/v1/gpu/run": "$0.06 - GPU inference via Replicate",
         "GET /api/v1/gpu/status/:id": "$0.005 - GPU prediction status",
@@ -1947,6 +2222,9 @@ app.get("/free/uuid",           freeLimit, freeUuidHandler);
 app.use("/free/dex",  freeLimit, freeDex);   // DexScreener data
 app.use("/free/chat", freeLimit, freeChat);  // OpenRouter free open-weight chat
 app.get("/free/models",         freeLimit, aiModelsHandler);  // free mirror of GET /api/v1/models (not in paidRoutes → not charged)
+// Hosted invoice checkout — linked from invoice create responses and reminders
+app.get("/pay/:invoiceId",        freeLimit, payPageHandler);
+app.get("/pay/:invoiceId/status", freeLimit, payStatusHandler);
 
 // ============================================
 // DISCOVERY ROUTES — kill the 404 bleed
@@ -2017,7 +2295,7 @@ const agentCardResponse = (_req: express.Request, res: express.Response) => {
     skills: [
       { id: "chat_completions", name: "POST /api/v1/chat/completions", description: "OpenAI-compatible chat via 200+ models", tags: ["ai"], examples: [`POST ${BASE_URL}/api/v1/chat/completions`], inputModes: ["application/json"], outputModes: ["application/json"] },
       { id: "bittensor_chat", name: "POST /bittensor/v1/chat/completions", description: "Bittensor SN64 inference (Chutes AI)", tags: ["ai"], examples: [`POST ${BASE_URL}/bittensor/v1/chat/completions`], inputModes: ["application/json"], outputModes: ["application/json"] },
-      { id: "batch_execute", name: "POST /api/v1/batch/execute", description: "Batch USDC payments via Spraay on Base", tags: ["payments"], examples: [`POST ${BASE_URL}/api/v1/batch/execute`], inputModes: ["application/json"], outputModes: ["application/json"] },
+      { id: "batch_execute", name: "POST /api/v1/batch/execute", description: "Batch USDC/ERC-20 payments via Spraay on any EVM chain with a Spraay contract", tags: ["payments"], examples: [`POST ${BASE_URL}/api/v1/batch/execute`], inputModes: ["application/json"], outputModes: ["application/json"] },
       { id: "oracle_prices", name: "GET /api/v1/oracle/prices", description: "Multi-source oracle price feed", tags: ["oracle"], examples: [`GET ${BASE_URL}/api/v1/oracle/prices`], inputModes: ["application/json"], outputModes: ["application/json"] },
       { id: "swap_quote", name: "GET /api/v1/swap/quote", description: "Uniswap V3 / Aerodrome swap quote", tags: ["defi"], examples: [`GET ${BASE_URL}/api/v1/swap/quote`], inputModes: ["application/json"], outputModes: ["application/json"] },
       { id: "escrow_create", name: "POST /api/v1/escrow/create", description: "Create on-chain escrow contract", tags: ["escrow"], examples: [`POST ${BASE_URL}/api/v1/escrow/create`], inputModes: ["application/json"], outputModes: ["application/json"] },
@@ -2085,23 +2363,29 @@ app.get("/openapi.json", (_req, res) => {
       queryParams: [],
       outputProps: { models: { type: "array" }, count: { type: "number" } } },
     // ---- PAYMENTS ----
-    { method: "post", path: "/api/v1/batch/execute", price: "$0.02", priceNum: "0.020000", tag: "payments", desc: "Batch USDC payments on Base",
-      inputProps: { token: { type: "string" }, recipients: { type: "array" }, amounts: { type: "array" }, sender: { type: "string" } }, required: ["token", "recipients", "amounts", "sender"],
+    { method: "post", path: "/api/v1/batch/execute", price: "$0.02", priceNum: "0.020000", tag: "payments", desc: "Batch payments on Base, Ethereum, Arbitrum, Polygon, BNB, Avalanche or Unichain",
+      inputProps: { chain: { type: "string" }, token: { type: "string" }, recipients: { type: "array" }, amounts: { type: "array" }, sender: { type: "string" }, chunk: { type: "boolean" }, csv: { type: "string" }, xlsx: { type: "string" }, columns: { type: "object" } }, required: ["token", "recipients", "amounts", "sender"],
       outputProps: { transactions: { type: "array" } } },
     { method: "post", path: "/api/v1/batch/estimate", price: "$0.001", priceNum: "0.001000", tag: "payments", desc: "Estimate batch gas",
-      inputProps: { recipientCount: { type: "number" } }, required: ["recipientCount"],
+      inputProps: { chain: { type: "string" }, token: { type: "string" }, recipientCount: { type: "number" }, chunk: { type: "boolean" }, csv: { type: "string" }, xlsx: { type: "string" }, columns: { type: "object" } }, required: ["recipientCount"],
       outputProps: { estimatedGas: { type: "string" } } },
+    { method: "post", path: "/api/v1/batch/report", price: "$0.005", priceNum: "0.005000", tag: "payments", desc: "Report a batch tx hash",
+      inputProps: { batchId: { type: "string" }, txHash: { type: "string" }, sender: { type: "string" } }, required: ["batchId", "txHash"],
+      outputProps: { batch: { type: "object" } } },
+    { method: "get", path: "/api/v1/batch/:id", price: "$0.001", priceNum: "0.001000", tag: "payments", desc: "Batch settlement status and receipt",
+      queryParams: [{ name: "format", type: "string", required: false }],
+      outputProps: { batch: { type: "object" }, receiptUrl: { type: "string" } } },
     { method: "post", path: "/api/v1/stellar/batch", price: "$0.02", priceNum: "0.020000", tag: "payments", desc: "Batch XLM payments on Stellar",
-      inputProps: { sourceSecret: { type: "string" }, recipients: { type: "array" }, amounts: { type: "array" } }, required: ["sourceSecret", "recipients", "amounts"],
+      inputProps: { sourceSecret: { type: "string" }, recipients: { type: "array" }, amounts: { type: "array" }, chunk: { type: "boolean" } }, required: ["sourceSecret", "recipients", "amounts"],
       outputProps: { hash: { type: "string" }, status: { type: "string" } } },
     { method: "post", path: "/api/v1/stellar/estimate", price: "$0.001", priceNum: "0.001000", tag: "payments", desc: "Estimate Stellar batch cost",
-      inputProps: { recipientCount: { type: "number" } }, required: ["recipientCount"],
+      inputProps: { recipientCount: { type: "number" }, chunk: { type: "boolean" } }, required: ["recipientCount"],
       outputProps: { estimatedFee: { type: "string" } } },
     { method: "post", path: "/api/v1/xrp/batch", price: "$0.02", priceNum: "0.020000", tag: "payments", desc: "Batch XRP payments on XRP Ledger",
-      inputProps: { senderSecret: { type: "string" }, recipients: { type: "array" }, amounts: { type: "array" } }, required: ["senderSecret", "recipients", "amounts"],
+      inputProps: { senderSecret: { type: "string" }, recipients: { type: "array" }, amounts: { type: "array" }, chunk: { type: "boolean" } }, required: ["senderSecret", "recipients", "amounts"],
       outputProps: { hash: { type: "string" }, status: { type: "string" } } },
     { method: "post", path: "/api/v1/xrp/estimate", price: "$0.001", priceNum: "0.001000", tag: "payments", desc: "Estimate XRP batch cost",
-      inputProps: { recipientCount: { type: "number" } }, required: ["recipientCount"],
+      inputProps: { recipientCount: { type: "number" }, chunk: { type: "boolean" } }, required: ["recipientCount"],
       outputProps: { estimatedFee: { type: "string" } } },
     { method: "get", path: "/api/v1/xrp/info", price: "$0.001", priceNum: "0.001000", tag: "payments", desc: "XRP Ledger fee and reserve info",
       queryParams: [],
@@ -2159,14 +2443,35 @@ app.get("/openapi.json", (_req, res) => {
       outputProps: { chains: { type: "array" } } },
     // ---- PAYROLL ----
     { method: "post", path: "/api/v1/payroll/execute", price: "$0.10", priceNum: "0.100000", tag: "payroll", desc: "Crypto payroll run",
-      inputProps: { token: { type: "string" }, sender: { type: "string" }, employees: { type: "array" } }, required: ["token", "sender", "employees"],
+      inputProps: { token: { type: "string" }, sender: { type: "string" }, employees: { type: "array" }, fxQuoteId: { type: "string" }, chunk: { type: "boolean" }, csv: { type: "string" }, xlsx: { type: "string" }, columns: { type: "object" } }, required: ["token", "sender", "employees"],
       outputProps: { status: { type: "string" }, txHash: { type: "string" } } },
     { method: "post", path: "/api/v1/payroll/estimate", price: "$0.003", priceNum: "0.003000", tag: "payroll", desc: "Estimate payroll costs",
-      inputProps: { employeeCount: { type: "number" } }, required: ["employeeCount"],
-      outputProps: { estimate: { type: "object" } } },
+      inputProps: { employeeCount: { type: "number" }, token: { type: "string" }, totalAmount: { type: "string" }, currencies: { type: "array" }, employees: { type: "array" }, chunk: { type: "boolean" }, csv: { type: "string" }, xlsx: { type: "string" }, columns: { type: "object" } }, required: ["employeeCount"],
+      outputProps: { estimate: { type: "object" }, fx: { type: "object" } } },
     { method: "get", path: "/api/v1/payroll/tokens", price: "$0.002", priceNum: "0.002000", tag: "payroll", desc: "Payroll stablecoins",
       queryParams: [],
       outputProps: { tokens: { type: "array" } } },
+    { method: "post", path: "/api/v1/payroll/roster", price: "$0.01", priceNum: "0.010000", tag: "payroll", desc: "Add or update roster employees",
+      inputProps: { employer: { type: "string" }, token: { type: "string" }, employees: { type: "array" }, csv: { type: "string" }, xlsx: { type: "string" }, columns: { type: "object" } }, required: ["employer", "employees"],
+      outputProps: { added: { type: "number" }, updated: { type: "number" }, roster: { type: "array" } } },
+    { method: "get", path: "/api/v1/payroll/roster", price: "$0.002", priceNum: "0.002000", tag: "payroll", desc: "Payroll roster",
+      queryParams: [{ name: "employer", type: "string", required: true }, { name: "includeInactive", type: "string", required: false }],
+      outputProps: { roster: { type: "array" }, count: { type: "number" } } },
+    { method: "post", path: "/api/v1/payroll/run", price: "$0.10", priceNum: "0.100000", tag: "payroll", desc: "Payroll run from roster",
+      inputProps: { employer: { type: "string" }, memo: { type: "string" }, chunk: { type: "boolean" } }, required: ["employer"],
+      outputProps: { status: { type: "string" }, run: { type: "object" } } },
+    { method: "post", path: "/api/v1/payroll/schedule", price: "$0.05", priceNum: "0.050000", tag: "payroll", desc: "Create pay schedule",
+      inputProps: { employer: { type: "string" }, frequency: { type: "string" }, startDate: { type: "string" }, endDate: { type: "string" }, timezone: { type: "string" }, memo: { type: "string" }, chunk: { type: "boolean" } }, required: ["employer", "frequency"],
+      outputProps: { status: { type: "string" }, schedule: { type: "object" } } },
+    { method: "get", path: "/api/v1/payroll/schedule/:id", price: "$0.01", priceNum: "0.010000", tag: "payroll", desc: "Pay schedule + runs",
+      queryParams: [],
+      outputProps: { schedule: { type: "object" }, runs: { type: "array" } } },
+    { method: "post", path: "/api/v1/payroll/schedule/:id/cancel", price: "$0.01", priceNum: "0.010000", tag: "payroll", desc: "Cancel pay schedule",
+      inputProps: { signature: { type: "string" }, signedAt: { type: "string" } }, required: ["signature", "signedAt"],
+      outputProps: { status: { type: "string" } } },
+    { method: "get", path: "/api/v1/payroll/history", price: "$0.01", priceNum: "0.010000", tag: "payroll", desc: "Payroll history + YTD",
+      queryParams: [{ name: "employer", type: "string", required: true }, { name: "year", type: "string", required: false }, { name: "employee", type: "string", required: false }],
+      outputProps: { runs: { type: "array" }, employees: { type: "array" }, ytd: { type: "object" } } },
     // ---- INVOICING ----
     { method: "post", path: "/api/v1/invoice/create", price: "$0.05", priceNum: "0.050000", tag: "invoicing", desc: "Create invoice with payment tx",
       inputProps: { creator: { type: "string" }, token: { type: "string" }, amount: { type: "string" } }, required: ["creator", "token", "amount"],
@@ -2177,13 +2482,28 @@ app.get("/openapi.json", (_req, res) => {
     { method: "get", path: "/api/v1/invoice/:id", price: "$0.01", priceNum: "0.010000", tag: "invoicing", desc: "Invoice lookup",
       queryParams: [{ name: "id", type: "string", required: true }],
       outputProps: { invoice: { type: "object" } } },
+    { method: "get", path: "/api/v1/invoice/:id/export", price: "$0.01", priceNum: "0.010000", tag: "invoicing", desc: "Export invoice (PDF, UBL 2.1 / Peppol BIS, JSON-LD)",
+      queryParams: [{ name: "id", type: "string", required: true }, { name: "format", type: "string", required: false }],
+      outputProps: { identifier: { type: "string" } } },
+    { method: "post", path: "/api/v1/invoice/recurring", price: "$0.05", priceNum: "0.050000", tag: "invoicing", desc: "Create recurring invoice",
+      inputProps: { creator: { type: "string" }, token: { type: "string" }, amount: { type: "string" }, frequency: { type: "string" }, interval: { type: "number" }, cron: { type: "string" }, timezone: { type: "string" }, dueInDays: { type: "number" }, maxInvoices: { type: "number" }, reminders: { type: "object" } }, required: ["creator", "token", "amount", "frequency"],
+      outputProps: { status: { type: "string" }, schedule: { type: "object" } } },
+    { method: "get", path: "/api/v1/invoice/recurring/:id", price: "$0.01", priceNum: "0.010000", tag: "invoicing", desc: "Recurring invoice + issued invoices",
+      queryParams: [{ name: "id", type: "string", required: true }],
+      outputProps: { schedule: { type: "object" }, invoices: { type: "array" }, count: { type: "number" } } },
+    { method: "post", path: "/api/v1/invoice/recurring/:id/cancel", price: "$0.01", priceNum: "0.010000", tag: "invoicing", desc: "Cancel recurring invoice",
+      inputProps: { caller: { type: "string" } }, required: ["caller"],
+      outputProps: { status: { type: "string" } } },
+    { method: "post", path: "/api/v1/invoice/remind", price: "$0.01", priceNum: "0.010000", tag: "invoicing", desc: "Send invoice reminder",
+      inputProps: { invoiceId: { type: "string" }, creator: { type: "string" }, channels: { type: "array" }, signature: { type: "string" }, signedAt: { type: "string" } }, required: [],
+      outputProps: { reminded: { type: "number" }, skipped: { type: "number" }, results: { type: "array" } } },
     // ---- ANALYTICS ----
     { method: "get", path: "/api/v1/analytics/wallet", price: "$0.01", priceNum: "0.010000", tag: "analytics", desc: "Wallet profile",
       queryParams: [{ name: "address", type: "string", required: true }],
       outputProps: { classification: { type: "object" } } },
     { method: "get", path: "/api/v1/analytics/txhistory", price: "$0.008", priceNum: "0.008000", tag: "analytics", desc: "Transaction history",
-      queryParams: [{ name: "address", type: "string", required: true }, { name: "limit", type: "string", required: false }],
-      outputProps: { transactions: { type: "array" } } },
+      queryParams: [{ name: "address", type: "string", required: true }, { name: "limit", type: "string", required: false }, { name: "include", type: "string", required: false }],
+      outputProps: { transactions: { type: "array" }, tokenTransfers: { type: "array" } } },
     // ---- ESCROW ----
     { method: "post", path: "/api/v1/escrow/create", price: "$0.10", priceNum: "0.100000", tag: "escrow", desc: "Create conditional escrow",
       inputProps: { depositor: { type: "string" }, beneficiary: { type: "string" }, token: { type: "string" }, amount: { type: "string" } }, required: ["depositor", "beneficiary", "token", "amount"],
@@ -2194,9 +2514,24 @@ app.get("/openapi.json", (_req, res) => {
     { method: "get", path: "/api/v1/escrow/:id", price: "$0.005", priceNum: "0.005000", tag: "escrow", desc: "Escrow status",
       queryParams: [{ name: "id", type: "string", required: true }],
       outputProps: { escrow: { type: "object" } } },
-    { method: "post", path: "/api/v1/escrow/fund", price: "$0.02", priceNum: "0.020000", tag: "escrow", desc: "Mark escrow as funded",
-      inputProps: { escrowId: { type: "string" } }, required: ["escrowId"],
-      outputProps: { status: { type: "string" } } },
+    { method: "post", path: "/api/v1/escrow/fund", price: "$0.02", priceNum: "0.020000", tag: "escrow", desc: "Submit escrow funding tx",
+      inputProps: { escrowId: { type: "string" }, txHash: { type: "string" }, caller: { type: "string" } }, required: ["escrowId"],
+      outputProps: { status: { type: "string" }, funding: { type: "object" } } },
+    { method: "post", path: "/api/v1/escrow/milestone/approve", price: "$0.01", priceNum: "0.010000", tag: "escrow", desc: "Approve escrow milestone",
+      inputProps: { escrowId: { type: "string" }, milestoneId: { type: "string" }, caller: { type: "string" } }, required: ["escrowId", "milestoneId", "caller"],
+      outputProps: { status: { type: "string" }, milestone: { type: "object" } } },
+    { method: "post", path: "/api/v1/escrow/dispute", price: "$0.02", priceNum: "0.020000", tag: "escrow", desc: "Open escrow dispute",
+      inputProps: { escrowId: { type: "string" }, caller: { type: "string" }, reason: { type: "string" }, evidence: { type: "object" } }, required: ["escrowId", "caller", "reason"],
+      outputProps: { status: { type: "string" }, dispute: { type: "object" } } },
+    { method: "post", path: "/api/v1/escrow/dispute/evidence", price: "$0.01", priceNum: "0.010000", tag: "escrow", desc: "Add dispute evidence",
+      inputProps: { escrowId: { type: "string" }, caller: { type: "string" }, text: { type: "string" }, cids: { type: "array" } }, required: ["escrowId", "caller"],
+      outputProps: { status: { type: "string" }, evidenceCount: { type: "number" } } },
+    { method: "post", path: "/api/v1/escrow/dispute/resolve", price: "$0.05", priceNum: "0.050000", tag: "escrow", desc: "Resolve escrow dispute",
+      inputProps: { escrowId: { type: "string" }, caller: { type: "string" }, split: { type: "object" }, note: { type: "string" } }, required: ["escrowId", "caller", "split"],
+      outputProps: { status: { type: "string" }, resolution: { type: "object" }, transactions: { type: "array" } } },
+    { method: "post", path: "/api/v1/escrow/verify", price: "$0.01", priceNum: "0.010000", tag: "escrow", desc: "Verify escrow funding on-chain",
+      inputProps: { escrowId: { type: "string" }, txHash: { type: "string" }, caller: { type: "string" } }, required: ["escrowId"],
+      outputProps: { status: { type: "string" }, verification: { type: "object" } } },
     { method: "post", path: "/api/v1/escrow/release", price: "$0.08", priceNum: "0.080000", tag: "escrow", desc: "Release escrow funds",
       inputProps: { escrowId: { type: "string" }, caller: { type: "string" } }, required: ["escrowId", "caller"],
       outputProps: { status: { type: "string" }, transaction: { type: "object" } } },
@@ -2269,6 +2604,18 @@ app.get("/openapi.json", (_req, res) => {
     { method: "post", path: "/api/v1/cron/cancel", price: "$0.002", priceNum: "0.002000", tag: "infrastructure", desc: "Cancel a scheduled job",
       inputProps: { jobId: { type: "string" } }, required: ["jobId"],
       outputProps: { status: { type: "string" } } },
+    { method: "get", path: "/api/v1/cron/:id/runs", price: "$0.002", priceNum: "0.002000", tag: "infrastructure", desc: "Job run history",
+      queryParams: [{ name: "id", type: "string", required: true }, { name: "limit", type: "string", required: false }, { name: "offset", type: "string", required: false }],
+      outputProps: { runs: { type: "array" }, total: { type: "number" }, hasMore: { type: "boolean" } } },
+    { method: "post", path: "/api/v1/cron/:id/trigger", price: "$0.01", priceNum: "0.010000", tag: "infrastructure", desc: "Run a scheduled job now",
+      inputProps: {}, required: [],
+      outputProps: { runId: { type: "string" }, status: { type: "string" }, output: { type: "object" } } },
+    { method: "post", path: "/api/v1/cron/:id/pause", price: "$0.002", priceNum: "0.002000", tag: "infrastructure", desc: "Pause a scheduled job",
+      inputProps: {}, required: [],
+      outputProps: { status: { type: "string" } } },
+    { method: "post", path: "/api/v1/cron/:id/resume", price: "$0.002", priceNum: "0.002000", tag: "infrastructure", desc: "Resume a paused job",
+      inputProps: {}, required: [],
+      outputProps: { status: { type: "string" }, nextRun: { type: "string" } } },
     { method: "post", path: "/api/v1/logs/ingest", price: "$0.002", priceNum: "0.002000", tag: "infrastructure", desc: "Ingest structured logs",
       inputProps: { entries: { type: "array" } }, required: ["entries"],
       outputProps: { ingested: { type: "number" }, ids: { type: "array" } } },
@@ -2282,6 +2629,18 @@ app.get("/openapi.json", (_req, res) => {
     { method: "get", path: "/api/v1/kyc/status", price: "$0.01", priceNum: "0.010000", tag: "identity", desc: "Check KYC verification status",
       queryParams: [{ name: "id", type: "string", required: false }, { name: "address", type: "string", required: false }],
       outputProps: { status: { type: "string" }, checks: { type: "object" } } },
+    { method: "get", path: "/api/v1/kyc/history", price: "$0.01", priceNum: "0.010000", tag: "identity", desc: "Sanctions screening history",
+      queryParams: [{ name: "address", type: "string", required: true }, { name: "chain", type: "string", required: false }],
+      outputProps: { screenings: { type: "array" }, changes: { type: "number" }, monitors: { type: "array" } } },
+    { method: "post", path: "/api/v1/kyc/monitor", price: "$0.05", priceNum: "0.050000", tag: "identity", desc: "Register scheduled sanctions re-screening",
+      inputProps: { address: { type: "string" }, chain: { type: "string" }, intervalHours: { type: "number" }, alertEmail: { type: "string" }, label: { type: "string" }, callback_url: { type: "string" } }, required: ["address"],
+      outputProps: { monitor: { type: "object" }, screening: { type: "object" } } },
+    { method: "get", path: "/api/v1/kyc/monitor/:id", price: "$0.01", priceNum: "0.010000", tag: "identity", desc: "Sanctions monitor status",
+      queryParams: [],
+      outputProps: { monitor: { type: "object" } } },
+    { method: "post", path: "/api/v1/kyc/monitor/:id/cancel", price: "$0.01", priceNum: "0.010000", tag: "identity", desc: "Cancel sanctions monitor",
+      inputProps: {}, required: [],
+      outputProps: { monitor: { type: "object" } } },
     { method: "post", path: "/api/v1/auth/session", price: "$0.01", priceNum: "0.010000", tag: "identity", desc: "Create authenticated session",
       inputProps: { address: { type: "string" }, permissions: { type: "array" }, ttlSeconds: { type: "number" } }, required: ["address"],
       outputProps: { token: { type: "string" }, expiresAt: { type: "string" } } },
@@ -2295,12 +2654,21 @@ app.get("/openapi.json", (_req, res) => {
     { method: "get", path: "/api/v1/audit/query", price: "$0.03", priceNum: "0.030000", tag: "compliance", desc: "Query audit trail",
       queryParams: [{ name: "actor", type: "string", required: false }, { name: "action", type: "string", required: false }, { name: "since", type: "string", required: false }],
       outputProps: { entries: { type: "array" }, total: { type: "number" } } },
-    { method: "post", path: "/api/v1/tax/calculate", price: "$0.08", priceNum: "0.080000", tag: "compliance", desc: "Calculate crypto tax gain/loss (FIFO)",
-      inputProps: { transactions: { type: "array" } }, required: ["transactions"],
-      outputProps: { summary: { type: "object" } } },
-    { method: "get", path: "/api/v1/tax/report", price: "$0.05", priceNum: "0.050000", tag: "compliance", desc: "Tax report with IRS 8949-compatible data",
-      queryParams: [{ name: "reportId", type: "string", required: true }],
+    { method: "get", path: "/api/v1/audit/verify", price: "$0.02", priceNum: "0.020000", tag: "compliance", desc: "Verify audit hash chain and checkpoints",
+      queryParams: [{ name: "tenant", type: "string", required: false }, { name: "from", type: "number", required: false }, { name: "to", type: "number", required: false }],
+      outputProps: { intact: { type: "boolean" }, entriesChecked: { type: "number" }, firstBreak: { type: "object" }, checkpoints: { type: "array" } } },
+    { method: "get", path: "/api/v1/audit/proof", price: "$0.01", priceNum: "0.010000", tag: "compliance", desc: "Audit entry inclusion proof",
+      queryParams: [{ name: "id", type: "string", required: true }, { name: "tenant", type: "string", required: false }, { name: "checkpoint", type: "string", required: false }],
+      outputProps: { entry: { type: "object" }, leafIndex: { type: "number" }, path: { type: "array" }, checkpoint: { type: "object" }, valid: { type: "boolean" } } },
+    { method: "post", path: "/api/v1/tax/calculate", price: "$0.08", priceNum: "0.080000", tag: "compliance", desc: "Calculate crypto tax gain/loss (per transaction or FIFO/LIFO/HIFO lots)",
+      inputProps: { transactions: { type: "array" }, method: { type: "string" } }, required: ["transactions"],
+      outputProps: { summary: { type: "object" }, events: { type: "array" }, openLots: { type: "array" } } },
+    { method: "get", path: "/api/v1/tax/report", price: "$0.05", priceNum: "0.050000", tag: "compliance", desc: "Tax report as JSON or Form 8949 / UK CGT / Koinly CSV",
+      queryParams: [{ name: "reportId", type: "string", required: true }, { name: "format", type: "string", required: false }, { name: "year", type: "string", required: false }],
       outputProps: { events: { type: "array" }, total: { type: "number" } } },
+    { method: "post", path: "/api/v1/tax/import-wallet", price: "$0.10", priceNum: "0.100000", tag: "compliance", desc: "Import wallet history, classify it and calculate tax lots",
+      inputProps: { addresses: { type: "array" }, startDate: { type: "string" }, endDate: { type: "string" }, method: { type: "string" }, labels: { type: "object" }, transactions: { type: "array" } }, required: ["addresses", "startDate"],
+      outputProps: { reportId: { type: "string" }, summary: { type: "object" }, events: { type: "array" }, import: { type: "object" } } },
     // ---- GPU / COMPUTE ----
     { method: "post", path: "/api/v1/gpu/run", price: "$0.06", priceNum: "0.060000", tag: "compute", desc: "GPU workload execution via Replicate",
       inputProps: { model: { type: "string" }, input: { type: "object" } }, required: ["model", "input"],
@@ -2706,8 +3074,10 @@ app.post("/api/v1/bridge/transfer", (_req, res) => {
 app.post("/api/v1/chat/completions", aiChatHandler);
 app.get("/api/v1/models", aiModelsHandler);
 // Payments
-app.post("/api/v1/batch/execute", batchPaymentHandler);
-app.post("/api/v1/batch/estimate", batchEstimateHandler);
+app.post("/api/v1/batch/execute", recipientImport("batch"), sanctionsPreflight("batch"), batchPaymentHandler);
+app.post("/api/v1/batch/estimate", recipientImport("batch"), batchEstimateHandler);
+app.post("/api/v1/batch/report", batchReportHandler);
+app.get("/api/v1/batch/:id", batchStatusHandler);
 // Stellar (Chain #14)
 app.post("/api/v1/stellar/batch", stellarBatchHandler);
 app.post("/api/v1/stellar/estimate", stellarEstimateHandler);
@@ -2727,22 +3097,39 @@ app.get("/api/v1/oracle/fx", oracleFxHandler);
 app.get("/api/v1/bridge/quote", bridgeQuoteHandler);
 app.get("/api/v1/bridge/chains", bridgeChainsHandler);
 // Payroll
-app.post("/api/v1/payroll/execute", payrollExecuteHandler);
-app.post("/api/v1/payroll/estimate", payrollEstimateHandler);
+app.post("/api/v1/payroll/execute", recipientImport("payroll"), sanctionsPreflight("payroll"), payrollExecuteHandler);
+app.post("/api/v1/payroll/estimate", recipientImport("payroll"), payrollEstimateHandler);
 app.get("/api/v1/payroll/tokens", payrollTokensHandler);
+app.post("/api/v1/payroll/roster", recipientImport("payroll"), payrollRosterHandler);
+app.get("/api/v1/payroll/roster", payrollRosterGetHandler);
+app.post("/api/v1/payroll/run", sanctionsPreflight("payroll"), payrollRunHandler);
+app.post("/api/v1/payroll/schedule", payrollScheduleCreateHandler);
+app.get("/api/v1/payroll/schedule/:id", payrollScheduleGetHandler);
+app.post("/api/v1/payroll/schedule/:id/cancel", payrollScheduleCancelHandler);
+app.get("/api/v1/payroll/history", payrollHistoryHandler);
 // Invoice
 app.post("/api/v1/invoice/create", invoiceCreateHandler);
 app.get("/api/v1/invoice/list", invoiceListHandler);
+app.post("/api/v1/invoice/recurring", invoiceRecurringCreateHandler);
+app.get("/api/v1/invoice/recurring/:id", invoiceRecurringGetHandler);
+app.post("/api/v1/invoice/recurring/:id/cancel", invoiceRecurringCancelHandler);
+app.post("/api/v1/invoice/remind", invoiceRemindHandler);
+app.get("/api/v1/invoice/:id/export", invoiceExportHandler);
 app.get("/api/v1/invoice/:id", invoiceGetHandler);
 // Analytics
 app.get("/api/v1/analytics/wallet", analyticsWalletHandler);
 app.get("/api/v1/analytics/txhistory", analyticsTxHistoryHandler);
 // Escrow
-app.post("/api/v1/escrow/create", escrowCreateHandler);
+app.post("/api/v1/escrow/create", sanctionsPreflight("escrow"), escrowCreateHandler);
 app.get("/api/v1/escrow/list", escrowListHandler);
 app.post("/api/v1/escrow/fund", escrowFundHandler);
-app.post("/api/v1/escrow/release", escrowReleaseHandler);
-app.post("/api/v1/escrow/cancel", escrowCancelHandler);
+app.post("/api/v1/escrow/verify", escrowVerifyHandler);
+app.post("/api/v1/escrow/milestone/approve", escrowMilestoneApproveHandler);
+app.post("/api/v1/escrow/dispute", escrowDisputeHandler);
+app.post("/api/v1/escrow/dispute/evidence", escrowDisputeEvidenceHandler);
+app.post("/api/v1/escrow/dispute/resolve", sanctionsPreflight("escrow"), escrowDisputeResolveHandler);
+app.post("/api/v1/escrow/release", sanctionsPreflight("escrow"), escrowReleaseHandler);
+app.post("/api/v1/escrow/cancel", sanctionsPreflight("escrow"), escrowCancelHandler);
 app.get("/api/v1/escrow/:id", escrowGetHandler);
 // Inference
 app.post("/api/v1/inference/classify-address", classifyAddressHandler);
@@ -2768,18 +3155,29 @@ app.get("/api/v1/storage/status", storageStatusHandler);
 app.post("/api/v1/cron/create", cronCreateHandler);
 app.get("/api/v1/cron/list", cronListHandler);
 app.post("/api/v1/cron/cancel", cronCancelHandler);
+app.get("/api/v1/cron/:id/runs", cronRunsHandler);
+app.post("/api/v1/cron/:id/trigger", cronTriggerHandler);
+app.post("/api/v1/cron/:id/pause", cronPauseHandler);
+app.post("/api/v1/cron/:id/resume", cronResumeHandler);
 app.post("/api/v1/logs/ingest", logsIngestHandler);
 app.get("/api/v1/logs/query", logsQueryHandler);
 // Identity & Access
 app.post("/api/v1/kyc/verify", kycVerifyHandler);
 app.get("/api/v1/kyc/status", kycStatusHandler);
+app.get("/api/v1/kyc/history", kycHistoryHandler);
+app.post("/api/v1/kyc/monitor", kycMonitorCreateHandler);
+app.get("/api/v1/kyc/monitor/:id", kycMonitorGetHandler);
+app.post("/api/v1/kyc/monitor/:id/cancel", kycMonitorCancelHandler);
 app.post("/api/v1/auth/session", authSessionHandler);
 app.get("/api/v1/auth/verify", authVerifyHandler);
 // Compliance
 app.post("/api/v1/audit/log", auditLogHandler);
 app.get("/api/v1/audit/query", auditQueryHandler);
+app.get("/api/v1/audit/verify", auditVerifyHandler);
+app.get("/api/v1/audit/proof", auditProofHandler);
 app.post("/api/v1/tax/calculate", taxCalculateHandler);
 app.get("/api/v1/tax/report", taxReportHandler);
+app.post("/api/v1/tax/import-wallet", taxImportWalletHandler);
 // GPU/Compute
 app.post("/api/v1/gpu/run", gpuRunHandler);
 app.get("/api/v1/gpu/status/:id", gpuStatusHandler);
@@ -2914,8 +3312,28 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 
 app.listen(PORT, async () => {
   await initMpp();
-const webhookWorker = startWebhookWorker(supabase!, { pollIntervalMs: 5_000, batchSize: 25 });
+const webhookWorker = startWebhookWorker(storage, { pollIntervalMs: 5_000, batchSize: 25 });
   process.on("SIGTERM", () => webhookWorker.stop());
+  const cronScheduler = startCronScheduler({ pollIntervalMs: 15_000 });
+  process.on("SIGTERM", () => cronScheduler.stop());
+  const escrowWatcher = startEscrowWatcher(webhookService, { pollIntervalMs: 30_000 });
+  process.on("SIGTERM", () => escrowWatcher.stop());
+  const disputeWatcher = startDisputeWatcher(webhookService, { pollIntervalMs: 60_000 });
+  process.on("SIGTERM", () => disputeWatcher.stop());
+  const batchTracker = startBatchTracker(webhookService, { pollIntervalMs: 20_000 });
+  process.on("SIGTERM", () => batchTracker.stop());
+  const invoiceReconciler = startInvoiceReconciler(webhookService, { pollIntervalMs: 20_000 });
+  process.on("SIGTERM", () => invoiceReconciler.stop());
+  const invoiceScheduler = startInvoiceScheduler(webhookService, { pollIntervalMs: 60_000 });
+  process.on("SIGTERM", () => invoiceScheduler.stop());
+  const payrollScheduler = startPayrollScheduler(webhookService, { pollIntervalMs: 60_000 });
+  process.on("SIGTERM", () => payrollScheduler.stop());
+  const sanctionsMonitor = startSanctionsMonitor(webhookService, { pollIntervalMs: 60_000 });
+  process.on("SIGTERM", () => sanctionsMonitor.stop());
+  const auditCheckpointer = startAuditCheckpointer({ pollIntervalMs: (Number(process.env.AUDIT_CHECKPOINT_INTERVAL_MINUTES) || 60) * 60_000 });
+  process.on("SIGTERM", () => auditCheckpointer.stop());
+  const challengePurger = startChallengePurger({ pollIntervalMs: 600_000 });
+  process.on("SIGTERM", () => challengePurger.stop());
   console.log(`\n💧 Spraay x402 Gateway v3.8.1 running on port ${PORT}`);
   console.log(`📡 Network: ${NETWORK} ${IS_MAINNET ? "(MAINNET)" : "(TESTNET)"}`);
   console.log(`💰 Payments to: ${PAY_TO}`);
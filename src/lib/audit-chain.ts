@@ -0,0 +1,265 @@
+// ============================================
+// Audit chain — per-tenant hash chain, Merkle checkpoints, inclusion proofs
+// ============================================
+// Every audit entry carries its tenant's sequence number and the hash of
+// the entry before it, and its own hash covers both, so editing, removing
+// or reordering a stored entry breaks every link after it:
+//
+//   hash = sha256(canonical JSON of { v, tenant, seq, prevHash, id, action,
+//                                     actor, resource, details, txHash, timestamp })
+//
+// `timestamp` is the ISO 8601 UTC form from Date#toISOString
+// ("2026-01-01T00:00:00.000Z"); the audit store hands entries back in that
+// form whatever its timestamptz column renders.
+//
+// The first entry of a tenant links to GENESIS_HASH (64 zeros).
+//
+// Checkpoints publish the Merkle root over a tenant's entry hashes 1..N,
+// built the RFC 9162 (Certificate Transparency v2) way:
+//
+//   leaf = sha256(0x00 || entryHash)      node = sha256(0x01 || left || right)
+//
+// with the tree split at the largest power of two below its size. Each
+// checkpoint keeps the frontier of its tree (the roots of the perfect
+// subtrees it splits into), so the next one only hashes the entries
+// appended since. The checkpoint statement (checkpointStatement) is signed with EIP-191
+// personal_sign, so an auditor holding an entry, its audit path and the
+// signed checkpoint can check inclusion with nothing but sha256 and
+// ethers.verifyMessage — see verifyInclusionProof.
+
+import { createHash } from "crypto";
+
+export class AuditChainError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+export const CHAIN_VERSION = 1;
+export const GENESIS_HASH = "0".repeat(64);
+
+/** The fields an entry hash covers. */
+export interface ChainedEntry {
+  tenant: string;
+  seq: number;
+  prevHash: string;
+  id: string;
+  action: string;
+  actor: string;
+  resource: string;
+  details: Record<string, unknown>;
+  txHash: string | null;
+  timestamp: string;
+}
+
+/** JSON with object keys sorted at every level and no whitespace. */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value === undefined ? null : value);
+  }
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+}
+
+function sha256(...parts: (Buffer | string)[]): string {
+  const h = createHash("sha256");
+  for (const part of parts) h.update(part);
+  return h.digest("hex");
+}
+
+export function hashEntry(entry: ChainedEntry): string {
+  return sha256(canonicalJson({
+    v: CHAIN_VERSION, tenant: entry.tenant, seq: entry.seq, prevHash: entry.prevHash,
+    id: entry.id, action: entry.action, actor: entry.actor, resource: entry.resource,
+    details: entry.details ?? {}, txHash: entry.txHash ?? null, timestamp: entry.timestamp,
+  }));
+}
+
+export interface ChainBreak {
+  seq: number;
+  id: string | null;
+  reason: string;
+}
+
+/**
+ * Check that `entries` (one tenant, ascending seq) are contiguous, link to
+ * `prevHash` (the hash of the entry before the first one) and each hash
+ * matches its contents. Returns the first break, or null.
+ */
+export function verifyChain(entries: (ChainedEntry & { hash: string })[], prevHash: string, firstSeq: number): ChainBreak | null {
+  let expectedPrev = prevHash;
+  let expectedSeq = firstSeq;
+  for (const entry of entries) {
+    if (entry.seq !== expectedSeq) {
+      return { seq: expectedSeq, id: null, reason: entry.seq > expectedSeq ? `entry #${expectedSeq} is missing` : `entry #${entry.seq} appears twice` };
+    }
+    if (entry.prevHash !== expectedPrev) {
+      return { seq: entry.seq, id: entry.id, reason: "prevHash does not match the previous entry's hash" };
+    }
+    if (hashEntry(entry) !== entry.hash) {
+      return { seq: entry.seq, id: entry.id, reason: "entry contents do not match its hash" };
+    }
+    expectedPrev = entry.hash;
+    expectedSeq++;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Merkle tree (RFC 9162 §2.1)
+// ---------------------------------------------------------------------------
+
+export function leafHash(entryHash: string): string {
+  return sha256(Buffer.from([0x00]), Buffer.from(entryHash, "hex"));
+}
+
+function nodeHash(left: string, right: string): string {
+  return sha256(Buffer.from([0x01]), Buffer.from(left, "hex"), Buffer.from(right, "hex"));
+}
+
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+function subtreeRoot(leaves: string[], start: number, end: number): string {
+  if (end - start === 1) return leaves[start];
+  const k = splitPoint(end - start);
+  return nodeHash(subtreeRoot(leaves, start, start + k), subtreeRoot(leaves, start + k, end));
+}
+
+/** Merkle root over entry hashes in seq order. */
+export function merkleRoot(entryHashes: string[]): string {
+  if (entryHashes.length === 0) throw new AuditChainError("Cannot build a Merkle root over no entries");
+  return subtreeRoot(entryHashes.map(leafHash), 0, entryHashes.length);
+}
+
+/**
+ * Append entry hashes to a tree of `size` leaves given its frontier — the
+ * roots of its perfect subtrees, largest (leftmost) first. Returns the
+ * frontier of the grown tree.
+ */
+export function extendFrontier(frontier: string[], size: number, entryHashes: string[]): string[] {
+  const next = [...frontier];
+  let n = size;
+  for (const entryHash of entryHashes) {
+    let node = leafHash(entryHash);
+    n++;
+    // Each trailing zero bit of the new size merges two equal subtrees
+    for (let m = n; m % 2 === 0; m /= 2) node = nodeHash(next.pop()!, node);
+    next.push(node);
+  }
+  return next;
+}
+
+/** Merkle root of the tree a frontier describes; equals merkleRoot over its leaves. */
+export function frontierRoot(frontier: string[]): string {
+  if (frontier.length === 0) throw new AuditChainError("Cannot build a Merkle root over no entries");
+  return frontier.reduceRight((right, left) => nodeHash(left, right));
+}
+
+/** Audit path for the leaf at `index` (0-based), sibling hashes from the leaf up. */
+export function inclusionPath(entryHashes: string[], index: number): string[] {
+  if (!Number.isInteger(index) || index < 0 || index >= entryHashes.length) {
+    throw new AuditChainError(`Leaf index ${index} is outside a tree of ${entryHashes.length}`);
+  }
+  const leaves = entryHashes.map(leafHash);
+  const path: string[] = [];
+  const walk = (m: number, start: number, end: number) => {
+    if (end - start === 1) return;
+    const k = splitPoint(end - start);
+    if (m < k) {
+      walk(m, start, start + k);
+      path.push(subtreeRoot(leaves, start + k, end));
+    } else {
+      walk(m - k, start + k, end);
+      path.push(subtreeRoot(leaves, start, start + k));
+    }
+  };
+  walk(index, 0, leaves.length);
+  return path;
+}
+
+/** Recompute the root from one entry hash and its audit path (RFC 9162 §2.1.3.2). */
+export function rootFromPath(entryHash: string, index: number, treeSize: number, path: string[]): string | null {
+  if (index < 0 || index >= treeSize) return null;
+  let fn = index;
+  let sn = treeSize - 1;
+  let r = leafHash(entryHash);
+  for (const p of path) {
+    if (sn === 0) return null;
+    if (fn % 2 === 1 || fn === sn) {
+      r = nodeHash(p, r);
+      while (fn % 2 === 0 && fn !== 0) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+      }
+    } else {
+      r = nodeHash(r, p);
+    }
+    fn = Math.floor(fn / 2);
+    sn = Math.floor(sn / 2);
+  }
+  return sn === 0 ? r : null;
+}
+
+// ---------------------------------------------------------------------------
+// Checkpoints
+// ---------------------------------------------------------------------------
+
+export interface CheckpointBody {
+  tenant: string;
+  treeSize: number;
+  rootHash: string;
+  /** Hash of entry #treeSize — ties the Merkle root to the head of the chain */
+  headHash: string;
+  issuedAt: string;
+}
+
+/** The exact text a checkpoint signature covers. */
+export function checkpointStatement(cp: CheckpointBody): string {
+  return [
+    `spraay-audit-checkpoint:v${CHAIN_VERSION}`,
+    `tenant:${cp.tenant}`,
+    `size:${cp.treeSize}`,
+    `root:${cp.rootHash}`,
+    `head:${cp.headHash}`,
+    `issued:${cp.issuedAt}`,
+  ].join("\n");
+}
+
+export interface InclusionProof {
+  entry: ChainedEntry & { hash: string };
+  leafIndex: number;
+  treeSize: number;
+  path: string[];
+  checkpoint: CheckpointBody & { statement: string; signature: string | null; signer: string | null };
+}
+
+/**
+ * Check an inclusion proof offline: the entry hashes to `entry.hash`, the
+ * path leads to the checkpoint root, and (given `verifyMessage`, e.g. from
+ * ethers) the checkpoint was signed by `expectedSigner`.
+ */
+export function verifyInclusionProof(
+  proof: InclusionProof,
+  options: { expectedSigner?: string; verifyMessage?: (message: string, signature: string) => string } = {}
+): { valid: boolean; checks: Record<string, boolean> } {
+  const { entry, checkpoint } = proof;
+  const checks: Record<string, boolean> = {
+    entryHash: hashEntry(entry) === entry.hash,
+    leafIndex: proof.leafIndex === entry.seq - 1 && entry.tenant === checkpoint.tenant,
+    root: rootFromPath(entry.hash, proof.leafIndex, proof.treeSize, proof.path) === checkpoint.rootHash && proof.treeSize === checkpoint.treeSize,
+    statement: checkpointStatement(checkpoint) === checkpoint.statement,
+  };
+  if (options.verifyMessage) {
+    const signer = options.expectedSigner ?? checkpoint.signer;
+    checks.signature = !!checkpoint.signature && !!signer
+      && options.verifyMessage(checkpoint.statement, checkpoint.signature).toLowerCase() === signer.toLowerCase();
+  }
+  return { valid: Object.values(checks).every(Boolean), checks };
+}
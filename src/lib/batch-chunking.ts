@@ -0,0 +1,80 @@
+// ============================================
+// Batch chunking — split oversized batches into several transactions
+// ============================================
+// Opt-in (`chunk: true`) on the batch, payroll, Stellar and XRP endpoints.
+// Recipients are cut into contiguous slices in request order, each at most the
+// route's per-transaction cap, so the same payload always yields the same
+// chunks. Every chunk is signed and submitted on its own; the parent batch ID
+// ties them together for webhooks and status reporting.
+
+import crypto from "crypto";
+
+/** Upper bound on transactions per chunked request. */
+export const MAX_CHUNKS = 25;
+
+export class BatchChunkError extends Error {
+  readonly status = 400;
+}
+
+export interface Chunk<T> {
+  index: number;
+  /** Position of the chunk's first item in the original list */
+  offset: number;
+  items: T[];
+}
+
+/** Sizes of the chunks `count` items split into — for estimates that only know a count. */
+export function chunkSizes(count: number, maxPerChunk: number): number[] {
+  if (!Number.isInteger(maxPerChunk) || maxPerChunk < 1) {
+    throw new BatchChunkError(`maxPerChunk must be a positive integer, got ${maxPerChunk}`);
+  }
+  const chunks = Math.ceil(count / maxPerChunk);
+  if (chunks > MAX_CHUNKS) {
+    throw new BatchChunkError(
+      `${count} recipients needs ${chunks} transactions at ${maxPerChunk} per transaction (max ${MAX_CHUNKS})`
+    );
+  }
+  return Array.from({ length: chunks }, (_, i) => Math.min(maxPerChunk, count - i * maxPerChunk));
+}
+
+export function chunkItems<T>(items: T[], maxPerChunk: number): Chunk<T>[] {
+  let offset = 0;
+  return chunkSizes(items.length, maxPerChunk).map((size, index) => {
+    const chunk = { index, offset, items: items.slice(offset, offset + size) };
+    offset += size;
+    return chunk;
+  });
+}
+
+/** `recipientRange` for a chunk response — inclusive indexes into the request's list. */
+export function chunkRange(chunk: Chunk<unknown>): { from: number; to: number } {
+  return { from: chunk.offset, to: chunk.offset + chunk.items.length - 1 };
+}
+
+export function newParentBatchId(): string {
+  return `batch_${crypto.randomBytes(8).toString("hex")}`;
+}
+
+export type ChunkOutcomeStatus = "pending" | "confirmed" | "failed";
+
+export interface ChunkOutcome {
+  index: number;
+  status: ChunkOutcomeStatus;
+  txHash?: string | null;
+  error?: string | null;
+}
+
+export type ChunkedBatchEvent = "batch.settled" | "batch.partial_failure" | "batch.failed";
+
+/**
+ * Webhook event for a chunked batch once every chunk has resolved: all
+ * confirmed → batch.settled, none confirmed → batch.failed, otherwise
+ * batch.partial_failure. Null while any chunk is still pending.
+ */
+export function chunkedBatchEvent(outcomes: ChunkOutcome[]): ChunkedBatchEvent | null {
+  if (outcomes.length === 0 || outcomes.some((o) => o.status === "pending")) return null;
+  const confirmed = outcomes.filter((o) => o.status === "confirmed").length;
+  if (confirmed === outcomes.length) return "batch.settled";
+  if (confirmed === 0) return "batch.failed";
+  return "batch.partial_failure";
+}
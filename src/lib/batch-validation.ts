@@ -2,10 +2,12 @@
 // BPA 1.0 payload schema validation — pure local compute
 
 import { validateAddress } from "./address-validation.js";
+import { BATCH_CHAIN_KEYS, estimateBatchGas, getBatchChain, resolveChainToken } from "../config/chains.js";
 
+// EVM chains with a Spraay contract come from the shared chain registry, so a
+// payload that validates here is one /api/v1/batch/execute can build calldata for.
 const SUPPORTED_CHAINS = [
-  "base", "ethereum", "arbitrum", "polygon", "bnb",
-  "avalanche", "unichain", "plasma", "bob",
+  ...BATCH_CHAIN_KEYS, "plasma", "bob",
   "solana", "bittensor", "xrp", "stellar", "stacks", "bitcoin",
 ];
 const MAX_RECIPIENTS = 200;
@@ -28,6 +30,19 @@ export function validateBatchPayload(payload: any) {
     errors.push('Missing or invalid "token" (string required — contract address or native symbol)');
   }
 
+  const evmChain = typeof payload.chain === "string" && BATCH_CHAIN_KEYS.includes(payload.chain.toLowerCase())
+    ? getBatchChain(payload.chain) : null;
+  const token = evmChain && typeof payload.token === "string" ? resolveChainToken(evmChain, payload.token) : null;
+  if (evmChain && token) {
+    if (!token.isNative && !token.address) {
+      errors.push(`Unknown token "${payload.token}" on ${evmChain.key}. Known: ${[evmChain.nativeSymbol, ...Object.keys(evmChain.tokens)].join(", ")} — or pass a contract address`);
+    } else if (!token.known) {
+      warnings.push(`token: ${payload.token} is not in the ${evmChain.key} registry — execution assumes 18 decimals`);
+    }
+  } else if (typeof payload.chain === "string" && SUPPORTED_CHAINS.includes(payload.chain.toLowerCase())) {
+    warnings.push(`chain "${payload.chain}" has no Spraay batch contract yet — POST /api/v1/batch/execute cannot build this batch`);
+  }
+
   if (!Array.isArray(payload.recipients) || payload.recipients.length === 0) {
     errors.push('Missing or empty "recipients" array');
   } else {
@@ -52,6 +67,9 @@ export function validateBatchPayload(payload: any) {
       } else {
         const amt = typeof r.amount === "string" ? parseFloat(r.amount) : r.amount;
         if (isNaN(amt) || amt <= 0) errors.push(`${pfx}.amount: must be a positive number`);
+        else if (token?.address && decimalPlaces(r.amount) > token.decimals) {
+          errors.push(`${pfx}.amount: more than ${token.decimals} decimal places for ${token.symbol}`);
+        }
       }
     });
   }
@@ -68,13 +86,28 @@ export function validateBatchPayload(payload: any) {
         return sum + (isNaN(amt) ? 0 : amt);
       }, 0) : 0;
 
+  const recipientCount = Array.isArray(payload.recipients) ? payload.recipients.length : 0;
+  const executable = !!(evmChain && token?.address);
+
   return {
     valid: errors.length === 0, errors, warnings,
     summary: {
       chain: payload.chain || null, token: payload.token || null,
-      recipientCount: Array.isArray(payload.recipients) ? payload.recipients.length : 0,
+      recipientCount,
       uniqueAddresses: new Set((payload.recipients || []).map((r: any) => r?.to?.toLowerCase()).filter(Boolean)).size,
       totalAmount, bpaVersion: "1.0",
+      executable,
+      chainId: evmChain?.chainId ?? null,
+      contract: evmChain?.spraayContract ?? null,
+      tokenAddress: executable ? token!.address : null,
+      decimals: executable ? token!.decimals : null,
+      estimatedGas: executable && recipientCount > 0 ? estimateBatchGas(evmChain!, recipientCount, token!.isNative) : null,
     },
   };
 }
+
+function decimalPlaces(amount: string | number): number {
+  const text = typeof amount === "number" ? String(amount) : amount.trim();
+  const dot = text.indexOf(".");
+  return dot === -1 ? 0 : text.length - dot - 1;
+}
@@ -0,0 +1,195 @@
+// ============================================
+// Cron expression parsing + next-run computation
+// ============================================
+// Standard 5-field cron: "min hour day-of-month month day-of-week".
+// Supports "*", lists (1,15), ranges (1-5), steps (*/15, 10-40/10),
+// month/day names (JAN-DEC, SUN-SAT) and 7 as an alias for Sunday.
+// When both day-of-month and day-of-week are restricted, a day matches
+// if EITHER does (Vixie cron semantics).
+//
+// Times are evaluated in an IANA timezone (default UTC) so "0 9 * * 1"
+// in "America/New_York" fires at 09:00 local time across DST changes.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** false when the field starts with "*" — used for the DOM/DOW OR rule */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: "day-of-week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+] as const;
+
+/** Upper bound on search steps — each step advances at least one minute, most skip a day. */
+const MAX_SEARCH_STEPS = 20_000;
+
+export class CronExpressionError extends Error {}
+
+/** Parse a 5-field cron expression. Throws CronExpressionError with a field-specific message. */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = String(expression).trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronExpressionError("Invalid cron expression. Use 5-part format: min hour dom mon dow");
+  }
+  const sets = parts.map((part, i) => parseField(part, FIELDS[i]));
+  const daysOfWeek = new Set([...sets[4]].map((d) => (d === 7 ? 0 : d)));
+  return {
+    minutes: sets[0],
+    hours: sets[1],
+    daysOfMonth: sets[2],
+    months: sets[3],
+    daysOfWeek,
+    domRestricted: !parts[2].startsWith("*"),
+    dowRestricted: !parts[4].startsWith("*"),
+  };
+}
+
+function parseField(part: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const item of part.split(",")) {
+    const [rangePart, stepPart, extra] = item.split("/");
+    if (extra !== undefined || rangePart === "") throw fieldError(field.name, part);
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) throw fieldError(field.name, part);
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = field.min;
+      end = field.max === 7 ? 6 : field.max;
+    } else if (rangePart.includes("-")) {
+      const [a, b] = rangePart.split("-");
+      start = toNumber(a, field);
+      end = toNumber(b, field);
+    } else {
+      start = toNumber(rangePart, field);
+      end = stepPart === undefined ? start : (field.max === 7 ? 6 : field.max);
+    }
+    if (start > end) throw fieldError(field.name, part);
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+function toNumber(token: string, field: (typeof FIELDS)[number]): number {
+  const upper = token.toUpperCase();
+  if ("names" in field) {
+    const idx = (field.names as readonly string[]).indexOf(upper);
+    if (idx >= 0) return idx + field.nameOffset;
+  }
+  const n = Number(token);
+  if (token === "" || !Number.isInteger(n) || n < field.min || n > field.max) {
+    throw fieldError(field.name, token);
+  }
+  return n;
+}
+
+function fieldError(name: string, value: string): CronExpressionError {
+  return new CronExpressionError(`Invalid cron ${name} field: "${value}"`);
+}
+
+/** True when `timezone` is an IANA zone this runtime knows about. */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts { minute: number; hour: number; day: number; month: number; year: number; weekday: number }
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timezone: string): ZonedParts {
+  let fmt = formatterCache.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone, hourCycle: "h23",
+      year: "numeric", month: "numeric", day: "numeric", hour: "numeric", minute: "numeric", weekday: "short",
+    });
+    formatterCache.set(timezone, fmt);
+  }
+  const parts: Record<string, string> = {};
+  for (const p of fmt.formatToParts(date)) parts[p.type] = p.value;
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    year: Number(parts.year),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+/**
+ * The instant the local day after `t` starts. Days are not all 24 hours
+ * long, so this reads the zone's offset rather than adding fixed minutes;
+ * where a DST jump skips midnight, the day starts at its first minute.
+ */
+function nextLocalMidnight(t: number, timezone: string): number {
+  const HOUR = 3_600_000;
+  const p = zonedParts(new Date(t), timezone);
+  const wallMidnight = Date.UTC(p.year, p.month - 1, p.day + 1);
+  const offsetAt = (instant: number) => {
+    const q = zonedParts(new Date(instant), timezone);
+    return Date.UTC(q.year, q.month - 1, q.day, q.hour, q.minute) - Math.floor(instant / 60_000) * 60_000;
+  };
+  let next = wallMidnight - offsetAt(t);
+  next = wallMidnight - offsetAt(next);
+  while (next <= t || zonedParts(new Date(next), timezone).day === p.day) next += HOUR;
+  return next;
+}
+
+function dayMatches(schedule: CronSchedule, p: ZonedParts): boolean {
+  const dom = schedule.daysOfMonth.has(p.day);
+  const dow = schedule.daysOfWeek.has(p.weekday);
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * First minute strictly after `after` that matches the schedule in `timezone`.
+ * Returns null when nothing matches within the search window (e.g. "0 0 31 2 *").
+ */
+export function nextCronRun(
+  schedule: CronSchedule | string,
+  after: Date = new Date(),
+  timezone = "UTC"
+): Date | null {
+  const s = typeof schedule === "string" ? parseCronExpression(schedule) : schedule;
+  const MINUTE = 60_000;
+  let t = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const p = zonedParts(new Date(t), timezone);
+    if (!s.months.has(p.month) || !dayMatches(s, p)) {
+      t = nextLocalMidnight(t, timezone);
+      continue;
+    }
+    if (!s.hours.has(p.hour)) {
+      t += (60 - p.minute) * MINUTE;
+      continue;
+    }
+    if (!s.minutes.has(p.minute)) {
+      t += MINUTE;
+      continue;
+    }
+    return new Date(t);
+  }
+  return null;
+}
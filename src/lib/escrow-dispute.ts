@@ -0,0 +1,114 @@
+// ============================================
+// Escrow disputes — evidence, arbiter split, deadline fallback
+// ============================================
+// A dispute freezes a funded escrow (status "disputed" blocks release and
+// cancel) until the arbiter resolves it with a split of the remaining balance
+// or the deadline passes and the configured default outcome applies.
+//
+// Outcomes are expressed as the beneficiary's share in basis points:
+// 0 = full refund to the depositor, 10000 = full release to the beneficiary.
+
+export type DisputeStatus = "open" | "resolved" | "expired";
+
+export interface DisputeEvidence {
+  submittedBy: string;
+  caller: string;
+  at: string;
+  text: string | null;
+  cids: string[];
+}
+
+export interface DisputeEvent {
+  type: "opened" | "evidence" | "resolved" | "expired";
+  at: string;
+  /** "depositor" | "beneficiary" | "arbiter" | "system" */
+  by: string;
+  caller?: string | null;
+  data?: Record<string, unknown>;
+}
+
+export interface DisputeResolution {
+  beneficiaryBps: number;
+  beneficiaryAmount: string;
+  depositorAmount: string;
+  resolvedBy: string;
+  resolvedAt: string;
+  note: string | null;
+  transactions: { beneficiary: any | null; depositor: any | null };
+}
+
+export interface EscrowDispute {
+  status: DisputeStatus;
+  openedBy: string;
+  openedAt: string;
+  reason: string;
+  deadline: string;
+  defaultBeneficiaryBps: number;
+  evidence: DisputeEvidence[];
+  events: DisputeEvent[];
+  resolution: DisputeResolution | null;
+}
+
+export class DisputeError extends Error {}
+
+export const DISPUTE_WINDOW_HOURS = Number(process.env.ESCROW_DISPUTE_WINDOW_HOURS) || 168;
+
+/**
+ * Parse a default outcome: "refund", "release" or "split:<beneficiary %>".
+ * Returns the beneficiary share in basis points.
+ */
+export function parseDisputeOutcome(value: string): number {
+  const v = value.trim().toLowerCase();
+  if (v === "refund") return 0;
+  if (v === "release") return 10_000;
+  const match = v.match(/^split:(\d{1,3}(?:\.\d{1,2})?)$/);
+  if (match) {
+    const bps = Math.round(Number(match[1]) * 100);
+    if (bps <= 10_000) return bps;
+  }
+  throw new DisputeError(`Invalid dispute outcome "${value}". Use refund, release or split:<beneficiary %>`);
+}
+
+export const DEFAULT_DISPUTE_BPS = parseDisputeOutcome(process.env.ESCROW_DISPUTE_DEFAULT_OUTCOME || "refund");
+
+/** Validate an arbiter split given as percentages that add up to 100. */
+export function splitToBps(split: { beneficiary?: unknown; depositor?: unknown }): number {
+  const b = Number(split?.beneficiary);
+  const d = Number(split?.depositor);
+  if (!Number.isFinite(b) || !Number.isFinite(d) || b < 0 || d < 0) {
+    throw new DisputeError("split must be { beneficiary: number, depositor: number } in percent");
+  }
+  if (Math.round((b + d) * 100) !== 10_000) throw new DisputeError("split percentages must add up to 100");
+  return Math.round(b * 100);
+}
+
+/** Divide `remaining` raw units; the depositor gets the rounding remainder. */
+export function splitAmount(remaining: bigint, beneficiaryBps: number): { beneficiaryRaw: bigint; depositorRaw: bigint } {
+  const beneficiaryRaw = (remaining * BigInt(beneficiaryBps)) / 10_000n;
+  return { beneficiaryRaw, depositorRaw: remaining - beneficiaryRaw };
+}
+
+const CID_V0 = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
+const CID_V1 = /^b[a-z2-7]{20,}$/;
+
+/** CIDs as returned by /api/v1/storage/pin (v0 base58 or v1 base32). */
+export function isValidCid(cid: unknown): cid is string {
+  return typeof cid === "string" && (CID_V0.test(cid) || CID_V1.test(cid));
+}
+
+/** Normalise evidence input; throws DisputeError on bad CIDs or empty evidence when required. */
+export function parseEvidence(
+  input: { text?: unknown; cids?: unknown },
+  required: boolean
+): { text: string | null; cids: string[] } | null {
+  const text = typeof input.text === "string" && input.text.trim() ? input.text.trim() : null;
+  const cids = input.cids === undefined ? [] : input.cids;
+  if (!Array.isArray(cids)) throw new DisputeError("evidence.cids must be an array of IPFS CIDs");
+  const bad = cids.filter((c) => !isValidCid(c));
+  if (bad.length) throw new DisputeError(`Invalid IPFS CID(s): ${bad.join(", ")}`);
+  if (!text && cids.length === 0) {
+    if (required) throw new DisputeError("evidence needs text and/or IPFS CIDs (pin files via POST /api/v1/storage/pin)");
+    return null;
+  }
+  return { text, cids: cids as string[] };
+}
@@ -0,0 +1,112 @@
+// ============================================
+// Escrow milestones — per-condition amounts and partial releases
+// ============================================
+// An escrow's `conditions` may be plain strings (one all-or-nothing release)
+// or `{ description, amount }` objects. The latter become milestones: each is
+// approved by the depositor or arbiter and released on its own, and the
+// escrow tracks how much of amountRaw has left custody.
+
+import { formatUnits, parseUnits } from "ethers";
+
+export type MilestoneStatus = "pending" | "approved" | "released" | "refunded";
+
+export interface MilestoneEvent {
+  status: MilestoneStatus;
+  at: string;
+  /** "depositor" | "arbiter" | "beneficiary" | "system" */
+  by: string | null;
+  caller?: string | null;
+  txHash?: string | null;
+}
+
+export interface Milestone {
+  id: string;
+  description: string;
+  amount: string;
+  amountRaw: string;
+  status: MilestoneStatus;
+  approvedBy: string | null;
+  approvedAt: string | null;
+  releasedAt: string | null;
+  history: MilestoneEvent[];
+}
+
+export class MilestoneError extends Error {}
+
+/**
+ * Turn create-time conditions into milestones. Returns null for legacy
+ * string-only conditions. Milestone amounts must add up to the escrow total
+ * exactly; when `total` is omitted the sum becomes the total.
+ */
+export function buildMilestones(
+  conditions: unknown[],
+  decimals: number,
+  total: string | null,
+  now: string
+): { milestones: Milestone[]; totalRaw: bigint } | null {
+  if (!conditions.some((c) => typeof c === "object" && c !== null)) return null;
+
+  const milestones = conditions.map((c: any, i): Milestone => {
+    if (typeof c !== "object" || c === null || !c.description || c.amount === undefined) {
+      throw new MilestoneError(`Condition ${i + 1} must be { description, amount } when any condition has an amount`);
+    }
+    let amountRaw: bigint;
+    try {
+      amountRaw = parseUnits(String(c.amount), decimals);
+    } catch {
+      throw new MilestoneError(`Condition ${i + 1} has an invalid amount: ${c.amount}`);
+    }
+    if (amountRaw <= 0n) throw new MilestoneError(`Condition ${i + 1} amount must be positive`);
+    return {
+      id: `M${i + 1}`, description: String(c.description),
+      amount: formatUnits(amountRaw, decimals), amountRaw: amountRaw.toString(),
+      status: "pending", approvedBy: null, approvedAt: null, releasedAt: null,
+      history: [{ status: "pending", at: now, by: null }],
+    };
+  });
+
+  const sum = milestones.reduce((acc, m) => acc + BigInt(m.amountRaw), 0n);
+  if (total !== null && sum !== parseUnits(total, decimals)) {
+    throw new MilestoneError(`Milestone amounts add up to ${formatUnits(sum, decimals)}, escrow amount is ${total}`);
+  }
+  return { milestones, totalRaw: sum };
+}
+
+/** Raw units still held for the beneficiary. */
+export function remainingRaw(escrow: { amountRaw: string; releasedRaw?: string | null }): bigint {
+  return BigInt(escrow.amountRaw) - BigInt(escrow.releasedRaw || "0");
+}
+
+/** Return a copy of `milestone` moved to `status`, with the change appended to its history. */
+export function transitionMilestone(
+  milestone: Milestone,
+  status: MilestoneStatus,
+  event: Omit<MilestoneEvent, "status">
+): Milestone {
+  const next: Milestone = { ...milestone, status, history: [...milestone.history, { status, ...event }] };
+  if (status === "approved") {
+    next.approvedBy = event.by;
+    next.approvedAt = event.at;
+  }
+  if (status === "released") next.releasedAt = event.at;
+  return next;
+}
+
+/** Breakdown for API responses. */
+export function milestoneSummary(escrow: { amountRaw: string; releasedRaw?: string | null; token: { decimals: number }; milestones?: Milestone[] | null }) {
+  const decimals = escrow.token.decimals;
+  const released = BigInt(escrow.releasedRaw || "0");
+  return {
+    balance: {
+      total: formatUnits(BigInt(escrow.amountRaw), decimals),
+      released: formatUnits(released, decimals),
+      remaining: formatUnits(remainingRaw(escrow), decimals),
+      remainingRaw: remainingRaw(escrow).toString(),
+    },
+    milestones: (escrow.milestones || []).map((m) => ({
+      id: m.id, description: m.description, amount: m.amount, amountRaw: m.amountRaw,
+      status: m.status, approvedBy: m.approvedBy, approvedAt: m.approvedAt, releasedAt: m.releasedAt,
+      history: m.history,
+    })),
+  };
+}
@@ -0,0 +1,635 @@
+// ============================================
+// Invoice export — PDF, UBL 2.1 (Peppol BIS 3) and schema.org JSON-LD
+// ============================================
+// Gateway invoices and SCTP supplier invoices are first normalised into one
+// InvoiceDocument, then rendered. Rendering is pure and deterministic: the
+// same invoice always yields the same bytes (no clocks, no randomness, no
+// network), so exports can be archived, hashed and diffed. Once an invoice
+// is paid, every on-chain payment tx hash is carried as proof of payment —
+// as cac:PrepaidPayment in UBL, a payments list in JSON-LD and a "Proof of
+// payment" block in the PDF.
+//
+// Amounts are always stated in a fiat currency. Stablecoin invoices use the
+// currency the coin tracks; other tokens (WETH) are valued with the fiat rate
+// locked when the invoice was issued, and the token amounts travel alongside
+// as the document's settlement.
+
+import { createHash } from "crypto";
+import { formatUnits } from "ethers";
+import type { FxRate } from "./payroll-fx.js";
+
+export type ExportFormat = "pdf" | "ubl" | "json-ld";
+export const EXPORT_FORMATS: ExportFormat[] = ["pdf", "ubl", "json-ld"];
+
+export class InvoiceExportError extends Error {}
+
+export interface ExportParty {
+  name: string;
+  wallet: string | null;
+  email?: string | null;
+}
+
+export interface ExportLine {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+}
+
+export interface ExportPayment {
+  txHash: string;
+  amount: string;
+  /** YYYY-MM-DD */
+  date: string | null;
+  network: string;
+}
+
+export interface ExportSettlement {
+  symbol: string;
+  total: string;
+  paid: string;
+  /** Token units per one unit of the document currency */
+  rate: string;
+  source: string;
+  quotedAt: string;
+}
+
+export interface InvoiceDocument {
+  id: string;
+  source: "gateway" | "sctp";
+  /** YYYY-MM-DD */
+  issueDate: string;
+  dueDate: string | null;
+  /** ISO 4217 code every amount is stated in */
+  currency: string;
+  /** Decimal places amounts are rendered with */
+  places: number;
+  token: { symbol: string; address: string | null; network: string } | null;
+  /** Token amounts when the token isn't pegged to `currency`, with the rate used to value them */
+  settlement: ExportSettlement | null;
+  seller: ExportParty;
+  buyer: ExportParty | null;
+  orderReference: string | null;
+  buyerReference: string | null;
+  /** Reference a payer quotes with the payment (the on-chain memo for gateway invoices) */
+  paymentReference: string | null;
+  note: string | null;
+  status: string;
+  lines: ExportLine[];
+  total: string;
+  paid: string;
+  /** total − paid; negative when overpaid */
+  payable: string;
+  payments: ExportPayment[];
+}
+
+/** Stablecoins whose invoices are stated in the fiat currency they track. */
+export const PEGGED_CURRENCIES: Record<string, string> = { USDC: "USD", USDT: "USD", DAI: "USD", EURC: "EUR" };
+
+const EXPLORERS: Record<string, string> = {
+  base: "https://basescan.org/tx/",
+  ethereum: "https://etherscan.io/tx/",
+  arbitrum: "https://arbiscan.io/tx/",
+  polygon: "https://polygonscan.com/tx/",
+  bnb: "https://bscscan.com/tx/",
+  avalanche: "https://snowtrace.io/tx/",
+  solana: "https://solscan.io/tx/",
+};
+
+export function explorerUrl(network: string, txHash: string): string | null {
+  return EXPLORERS[network] ? EXPLORERS[network] + txHash : null;
+}
+
+// ---------------------------------------------------------------------------
+// Decimal amounts
+// ---------------------------------------------------------------------------
+
+/** Decimal string or number → integer in units of 10^-places, rounded half up. */
+function toUnits(value: string | number, places: number): bigint {
+  const text = typeof value === "number" ? value.toFixed(12) : String(value).trim();
+  const m = /^(-?)(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!m || (!m[2] && !m[3])) throw new InvoiceExportError(`Invalid amount: ${value}`);
+  const [, sign, int, frac = ""] = m;
+  const scaled = (BigInt((int || "0") + (frac + "0".repeat(places + 1)).slice(0, places + 1)) + 5n) / 10n;
+  return sign ? -scaled : scaled;
+}
+
+/** A token amount in fiat at `rate` token units per fiat unit, to 2 places. */
+function tokenToFiat(value: string, rate: string): string {
+  const mills = (toUnits(value, 18) * 1000n) / toUnits(rate, 18);
+  return fromUnits((mills + 5n) / 10n, 2);
+}
+
+function fromUnits(units: bigint, places: number): string {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(places + 1, "0");
+  const text = places ? `${digits.slice(0, -places)}.${digits.slice(-places)}` : digits;
+  return negative ? `-${text}` : text;
+}
+
+/** Fixed-point rendering of a decimal amount, e.g. formatMoney("1500", 2) → "1500.00". */
+export function formatMoney(value: string | number, places: number = 2): string {
+  return fromUnits(toUnits(value, places), places);
+}
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+function day(iso: string | null | undefined): string | null {
+  return iso ? new Date(iso).toISOString().slice(0, 10) : null;
+}
+
+function finish(doc: Omit<InvoiceDocument, "payable">): InvoiceDocument {
+  const payable = toUnits(doc.total, doc.places) - toUnits(doc.paid, doc.places);
+  return { ...doc, payable: fromUnits(payable, doc.places) };
+}
+
+/**
+ * A gateway invoice as returned by invoiceDb.get(). Invoices in a token with
+ * no fiat peg need a valuation — the one locked at issue (invoice.fiatValue)
+ * or, for invoices issued before that, a current quote.
+ */
+export function gatewayInvoiceDocument(invoice: any, valuation: FxRate | null = invoice.fiatValue || null): InvoiceDocument {
+  const symbol: string = invoice.token.symbol;
+  const pegged = PEGGED_CURRENCIES[symbol];
+  if (!pegged && !valuation) throw new InvoiceExportError(`A fiat valuation is required to export a ${symbol} invoice`);
+  const currency = pegged || valuation!.currency;
+  const fiat = (amount: string) => (pegged ? formatMoney(amount, 2) : tokenToFiat(amount, valuation!.rate));
+  const paid = formatUnits(BigInt(invoice.receivedRaw || "0"), invoice.token.decimals);
+
+  const payments: ExportPayment[] = (invoice.payments || []).map((p: any) => ({
+    txHash: p.txHash, amount: fiat(p.amount), date: day(p.detectedAt),
+    network: p.matchedBy === "reference" ? "solana" : "base",
+  }));
+  if (payments.length === 0 && invoice.paymentTx) {
+    payments.push({ txHash: invoice.paymentTx, amount: fiat(invoice.amount), date: day(invoice.paidAt), network: "base" });
+  }
+  const total = fiat(invoice.amount);
+
+  return finish({
+    id: invoice.id,
+    source: "gateway",
+    issueDate: day(invoice.createdAt)!,
+    dueDate: day(invoice.dueDate),
+    currency,
+    places: 2,
+    token: { symbol, address: invoice.token.address, network: "base" },
+    settlement: pegged ? null : {
+      symbol, total: invoice.amount, paid,
+      rate: valuation!.rate, source: valuation!.source, quotedAt: valuation!.quotedAt,
+    },
+    seller: { name: invoice.creator, wallet: invoice.creator },
+    buyer: invoice.recipient && invoice.recipient !== "open" ? { name: invoice.recipient, wallet: invoice.recipient } : null,
+    orderReference: null,
+    buyerReference: invoice.reference || null,
+    paymentReference: `spraay:${invoice.id}`,
+    note: invoice.memo || null,
+    status: invoice.status,
+    lines: [{ description: invoice.memo || `Invoice ${invoice.id}`, quantity: "1", unitPrice: total, amount: total }],
+    total,
+    paid: fiat(paid),
+    payments,
+  });
+}
+
+/**
+ * An SCTP invoice row with its supplier and any sctp_payments rows that
+ * reference it. SCTP pays USDC, so amounts are stated in the invoice currency.
+ */
+export function sctpInvoiceDocument(row: any, supplier: any | null, paymentRows: any[] = []): InvoiceDocument {
+  const places = 2;
+  const network = supplier?.chain || "base";
+  const lines: ExportLine[] = (row.items || []).map((item: any) => {
+    const quantity = Number(item.quantity || 1);
+    const unitPrice = Number(item.unitPrice || item.price || 0);
+    return {
+      description: String(item.description || item.name || "Item"),
+      quantity: String(quantity),
+      unitPrice: formatMoney(unitPrice, places),
+      amount: formatMoney(quantity * unitPrice, places),
+    };
+  });
+
+  const payments: ExportPayment[] = [];
+  if (row.tx_hash) payments.push({ txHash: row.tx_hash, amount: formatMoney(row.total, places), date: day(row.paid_at), network });
+  for (const p of paymentRows) {
+    if (!p.tx_hash || payments.some((x) => x.txHash === p.tx_hash)) continue;
+    payments.push({ txHash: p.tx_hash, amount: formatMoney(p.amount, places), date: day(p.confirmed_at || p.updated_at || p.created_at), network: p.chain || network });
+  }
+  const settled = !!row.paid_at || row.status === "paid";
+  const paid = settled ? formatMoney(row.total, places) : fromUnits(payments.reduce((sum, p) => sum + toUnits(p.amount, places), 0n), places);
+
+  return finish({
+    id: String(row.id),
+    source: "sctp",
+    issueDate: day(row.created_at)!,
+    dueDate: day(row.due_date),
+    currency: row.currency || "USD",
+    places,
+    token: { symbol: supplier?.preferred_token || "USDC", address: null, network },
+    settlement: null,
+    seller: { name: supplier?.name || String(row.supplier_id), wallet: supplier?.wallet || null, email: supplier?.contact_email || null },
+    buyer: null,
+    orderReference: row.po_id || null,
+    buyerReference: row.po_id || null,
+    paymentReference: String(row.id),
+    note: null,
+    status: row.status,
+    lines,
+    total: formatMoney(row.total, places),
+    paid,
+    payments,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// UBL 2.1 / Peppol BIS Billing 3.0
+// ---------------------------------------------------------------------------
+
+function xml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function ublParty(party: ExportParty | null): string {
+  const p = party || { name: "Not specified", wallet: null };
+  return [
+    "<cac:Party>",
+    p.wallet ? `<cac:PartyIdentification><cbc:ID>${xml(p.wallet)}</cbc:ID></cac:PartyIdentification>` : "",
+    `<cac:PartyName><cbc:Name>${xml(p.name)}</cbc:Name></cac:PartyName>`,
+    `<cac:PartyLegalEntity><cbc:RegistrationName>${xml(p.name)}</cbc:RegistrationName></cac:PartyLegalEntity>`,
+    p.email ? `<cac:Contact><cbc:ElectronicMail>${xml(p.email)}</cbc:ElectronicMail></cac:Contact>` : "",
+    "</cac:Party>",
+  ].filter(Boolean).join("");
+}
+
+function settlementNote(s: ExportSettlement, currency: string): string {
+  return `Settled in ${s.symbol}: ${s.total} ${s.symbol} (paid ${s.paid}), valued at 1 ${currency} = ${s.rate} ${s.symbol} (${s.source}, ${s.quotedAt})`;
+}
+
+/** UBL 2.1 Invoice following the Peppol BIS Billing 3.0 element order. */
+export function renderUbl(doc: InvoiceDocument): string {
+  const amount = (tag: string, value: string) => `<cbc:${tag} currencyID="${xml(doc.currency)}">${value}</cbc:${tag}>`;
+  const lineTotal = fromUnits(doc.lines.reduce((sum, l) => sum + toUnits(l.amount, doc.places), 0n), doc.places);
+  const taxCategory = (tag: string) =>
+    `<cac:${tag}><cbc:ID>O</cbc:ID>${tag === "TaxCategory" ? "<cbc:TaxExemptionReason>Not subject to VAT</cbc:TaxExemptionReason>" : ""}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:${tag}>`;
+  const notes = [
+    doc.note,
+    doc.settlement ? settlementNote(doc.settlement, doc.currency) : null,
+    ...doc.payments.map((p) => `Paid on-chain (${p.network}): ${p.txHash}`),
+  ].filter(Boolean);
+
+  const parts = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2" ' +
+      'xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2" ' +
+      'xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    "<cbc:UBLVersionID>2.1</cbc:UBLVersionID>",
+    "<cbc:CustomizationID>urn:cen.eu:en16931:2017#compliant#urn:fdc:peppol.eu:2017:poacc:billing:3.0</cbc:CustomizationID>",
+    "<cbc:ProfileID>urn:fdc:peppol.eu:2017:poacc:billing:01:1.0</cbc:ProfileID>",
+    `<cbc:ID>${xml(doc.id)}</cbc:ID>`,
+    `<cbc:IssueDate>${doc.issueDate}</cbc:IssueDate>`,
+    doc.dueDate ? `<cbc:DueDate>${doc.dueDate}</cbc:DueDate>` : "",
+    "<cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>",
+    ...notes.map((n) => `<cbc:Note>${xml(n)}</cbc:Note>`),
+    `<cbc:DocumentCurrencyCode>${xml(doc.currency)}</cbc:DocumentCurrencyCode>`,
+    `<cbc:BuyerReference>${xml(doc.buyerReference || doc.id)}</cbc:BuyerReference>`,
+    doc.orderReference ? `<cac:OrderReference><cbc:ID>${xml(doc.orderReference)}</cbc:ID></cac:OrderReference>` : "",
+    `<cac:AccountingSupplierParty>${ublParty(doc.seller)}</cac:AccountingSupplierParty>`,
+    `<cac:AccountingCustomerParty>${ublParty(doc.buyer)}</cac:AccountingCustomerParty>`,
+    "<cac:PaymentMeans>",
+    "<cbc:PaymentMeansCode name=\"Crypto-asset transfer\">ZZZ</cbc:PaymentMeansCode>",
+    doc.paymentReference ? `<cbc:PaymentID>${xml(doc.paymentReference)}</cbc:PaymentID>` : "",
+    doc.seller.wallet
+      ? `<cac:PayeeFinancialAccount><cbc:ID>${xml(doc.seller.wallet)}</cbc:ID>` +
+        (doc.token ? `<cbc:Name>${xml(`${doc.token.symbol} on ${doc.token.network}${doc.token.address ? ` (${doc.token.address})` : ""}`)}</cbc:Name>` : "") +
+        "</cac:PayeeFinancialAccount>"
+      : "",
+    "</cac:PaymentMeans>",
+    ...doc.payments.map((p) =>
+      `<cac:PrepaidPayment><cbc:ID>${xml(p.txHash)}</cbc:ID>${amount("PaidAmount", p.amount)}${p.date ? `<cbc:ReceivedDate>${p.date}</cbc:ReceivedDate>` : ""}</cac:PrepaidPayment>`),
+    "<cac:TaxTotal>",
+    amount("TaxAmount", formatMoney(0, doc.places)),
+    `<cac:TaxSubtotal>${amount("TaxableAmount", doc.total)}${amount("TaxAmount", formatMoney(0, doc.places))}${taxCategory("TaxCategory")}</cac:TaxSubtotal>`,
+    "</cac:TaxTotal>",
+    "<cac:LegalMonetaryTotal>",
+    amount("LineExtensionAmount", lineTotal),
+    amount("TaxExclusiveAmount", doc.total),
+    amount("TaxInclusiveAmount", doc.total),
+    toUnits(doc.paid, doc.places) !== 0n ? amount("PrepaidAmount", doc.paid) : "",
+    amount("PayableAmount", doc.payable),
+    "</cac:LegalMonetaryTotal>",
+    ...doc.lines.map((l, i) => [
+      "<cac:InvoiceLine>",
+      `<cbc:ID>${i + 1}</cbc:ID>`,
+      `<cbc:InvoicedQuantity unitCode="C62">${xml(l.quantity)}</cbc:InvoicedQuantity>`,
+      amount("LineExtensionAmount", l.amount),
+      `<cac:Item><cbc:Name>${xml(l.description)}</cbc:Name>${taxCategory("ClassifiedTaxCategory")}</cac:Item>`,
+      `<cac:Price>${amount("PriceAmount", l.unitPrice)}</cac:Price>`,
+      "</cac:InvoiceLine>",
+    ].join("")),
+    "</Invoice>",
+  ];
+  return parts.filter(Boolean).join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// schema.org JSON-LD
+// ---------------------------------------------------------------------------
+
+const PAYMENT_STATUS: Record<string, string> = {
+  paid: "https://schema.org/PaymentComplete",
+  overpaid: "https://schema.org/PaymentComplete",
+  overdue: "https://schema.org/PaymentPastDue",
+  rejected: "https://schema.org/PaymentDeclined",
+};
+
+export function renderJsonLd(doc: InvoiceDocument): Record<string, any> {
+  const party = (p: ExportParty) => ({
+    "@type": "Organization", name: p.name,
+    ...(p.wallet ? { identifier: p.wallet } : {}),
+    ...(p.email ? { email: p.email } : {}),
+  });
+  const last = doc.payments[doc.payments.length - 1];
+  return {
+    "@context": ["https://schema.org", { spraay: "https://gateway.spraay.app/ns#" }],
+    "@type": "Invoice",
+    identifier: doc.id,
+    ...(doc.note ? { description: doc.note } : {}),
+    provider: party(doc.seller),
+    ...(doc.buyer ? { customer: party(doc.buyer) } : {}),
+    ...(doc.dueDate ? { paymentDueDate: doc.dueDate } : {}),
+    totalPaymentDue: { "@type": "PriceSpecification", price: doc.total, priceCurrency: doc.currency },
+    paymentStatus: PAYMENT_STATUS[doc.status] || "https://schema.org/PaymentDue",
+    ...(doc.token ? { paymentMethod: `${doc.token.symbol} on ${doc.token.network}` } : {}),
+    ...(doc.paymentReference ? { paymentMethodId: doc.paymentReference } : {}),
+    ...(last ? { confirmationNumber: last.txHash } : {}),
+    ...(doc.orderReference ? { referencesOrder: { "@type": "Order", orderNumber: doc.orderReference } } : {}),
+    "spraay:issueDate": doc.issueDate,
+    "spraay:lineItems": doc.lines.map((l) => ({ name: l.description, quantity: l.quantity, unitPrice: l.unitPrice, amount: l.amount })),
+    "spraay:amountPaid": { "@type": "MonetaryAmount", value: doc.paid, currency: doc.currency },
+    ...(doc.settlement ? { "spraay:settlement": { ...doc.settlement } } : {}),
+    "spraay:payments": doc.payments.map((p) => ({
+      txHash: p.txHash, network: p.network, amount: p.amount, date: p.date, explorer: explorerUrl(p.network, p.txHash),
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+// A minimal PDF 1.4 writer: A4 pages, the standard Helvetica fonts (no
+// embedding), uncompressed content streams and a document ID hashed from the
+// content, so output is byte-for-byte reproducible.
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+/** Helvetica advance widths (1/1000 em) for the characters that appear in amounts. */
+const HELVETICA_WIDTHS: Record<string, number> = { ".": 278, ",": 278, "-": 333, " ": 278 };
+
+function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const ch of text) width += HELVETICA_WIDTHS[ch] ?? 556;
+  return (width * size) / 1000;
+}
+
+/** PDF string literal in WinAnsi: Latin-1 passes through, anything else becomes "?". */
+function pdfString(text: string): string {
+  let out = "";
+  for (const ch of text.replace(/[–—]/g, "-").replace(/[‘’]/g, "'").replace(/[“”]/g, '"')) {
+    const code = ch.codePointAt(0)!;
+    if (ch === "\\" || ch === "(" || ch === ")") out += "\\" + ch;
+    else if (code >= 0x20 && code < 0x7f) out += ch;
+    else if (code >= 0xa0 && code <= 0xff) out += "\\" + code.toString(8).padStart(3, "0");
+    else out += "?";
+  }
+  return `(${out})`;
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) current = word;
+    else if (current.length + 1 + word.length <= maxChars) current += " " + word;
+    else {
+      lines.push(current);
+      current = word;
+    }
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current) lines.push(current);
+  return lines.length ? lines : [""];
+}
+
+class PdfPages {
+  readonly pages: string[][] = [[]];
+  y = PAGE_HEIGHT - MARGIN;
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /** Start a new page when fewer than `height` points remain. */
+  ensure(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+
+  text(x: number, text: string, opts: { size?: number; bold?: boolean; align?: "left" | "right" } = {}): void {
+    const size = opts.size ?? 10;
+    const left = opts.align === "right" ? x - textWidth(text, size) : x;
+    this.ops.push(`BT /${opts.bold ? "F2" : "F1"} ${size} Tf ${left.toFixed(2)} ${this.y.toFixed(2)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  rule(): void {
+    this.ops.push(`0.75 G 0.5 w ${MARGIN} ${this.y.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${this.y.toFixed(2)} l S 0 G`);
+  }
+
+  down(points: number): void {
+    this.y -= points;
+  }
+}
+
+function layout(doc: InvoiceDocument): string[][] {
+  const pdf = new PdfPages();
+  const right = PAGE_WIDTH - MARGIN;
+  const money = (v: string) => `${v} ${doc.currency}`;
+
+  pdf.text(MARGIN, "INVOICE", { size: 22, bold: true });
+  pdf.text(right, doc.status.replace(/_/g, " ").toUpperCase(), { size: 12, bold: true, align: "right" });
+  pdf.down(30);
+
+  const meta: Array<[string, string | null]> = [
+    ["Invoice number", doc.id],
+    ["Issue date", doc.issueDate],
+    ["Due date", doc.dueDate || "On receipt"],
+    ["Currency", doc.token && doc.token.symbol !== doc.currency ? `${doc.currency} (settled in ${doc.token.symbol})` : doc.currency],
+    ["Settlement", doc.settlement ? `${doc.settlement.total} ${doc.settlement.symbol} at 1 ${doc.currency} = ${doc.settlement.rate} ${doc.settlement.symbol}` : null],
+    ["Reference", doc.buyerReference],
+    ["Purchase order", doc.orderReference],
+  ];
+  for (const [label, value] of meta) {
+    if (!value) continue;
+    pdf.text(MARGIN, label, { size: 9 });
+    pdf.text(MARGIN + 110, value, { size: 9, bold: true });
+    pdf.down(14);
+  }
+  pdf.down(10);
+
+  const partyBlock = (title: string, party: ExportParty | null) => {
+    pdf.ensure(60);
+    pdf.text(MARGIN, title, { size: 9, bold: true });
+    pdf.down(13);
+    const rows = party ? [party.name, party.wallet && party.wallet !== party.name ? party.wallet : null, party.email || null] : ["Not specified"];
+    for (const row of rows) {
+      if (!row) continue;
+      pdf.text(MARGIN, row, { size: 9 });
+      pdf.down(12);
+    }
+    pdf.down(8);
+  };
+  partyBlock("From", doc.seller);
+  partyBlock("Bill to", doc.buyer);
+
+  // Line items
+  const cols = { qty: 360, unit: 450, amount: right };
+  pdf.ensure(40);
+  pdf.text(MARGIN, "Description", { size: 9, bold: true });
+  pdf.text(cols.qty, "Qty", { size: 9, bold: true, align: "right" });
+  pdf.text(cols.unit, "Unit price", { size: 9, bold: true, align: "right" });
+  pdf.text(cols.amount, "Amount", { size: 9, bold: true, align: "right" });
+  pdf.down(6);
+  pdf.rule();
+  pdf.down(14);
+  for (const line of doc.lines) {
+    const desc = wrap(line.description, 52);
+    pdf.ensure(desc.length * 12 + 4);
+    pdf.text(cols.qty, line.quantity, { size: 9, align: "right" });
+    pdf.text(cols.unit, line.unitPrice, { size: 9, align: "right" });
+    pdf.text(cols.amount, line.amount, { size: 9, align: "right" });
+    for (const part of desc) {
+      pdf.text(MARGIN, part, { size: 9 });
+      pdf.down(12);
+    }
+    pdf.down(4);
+  }
+  pdf.rule();
+  pdf.down(16);
+
+  const totals: Array<[string, string, boolean]> = [
+    ["Total", money(doc.total), true],
+    ["Paid", money(doc.paid), false],
+    ["Balance due", money(doc.payable), true],
+  ];
+  for (const [label, value, bold] of totals) {
+    pdf.ensure(16);
+    pdf.text(cols.unit, label, { size: 10, bold, align: "right" });
+    pdf.text(cols.amount, value, { size: 10, bold, align: "right" });
+    pdf.down(15);
+  }
+  pdf.down(15);
+
+  // Payment instructions
+  if (doc.seller.wallet && doc.token) {
+    pdf.ensure(60);
+    pdf.text(MARGIN, "Payment", { size: 11, bold: true });
+    pdf.down(15);
+    const rows: Array<[string, string | null]> = [
+      ["Pay to", doc.seller.wallet],
+      ["Token", `${doc.token.symbol} on ${doc.token.network}`],
+      ["Token contract", doc.token.address],
+      ["Payment reference", doc.paymentReference],
+    ];
+    for (const [label, value] of rows) {
+      if (!value) continue;
+      pdf.text(MARGIN, label, { size: 9 });
+      pdf.text(MARGIN + 110, value, { size: 9 });
+      pdf.down(13);
+    }
+    pdf.down(10);
+  }
+
+  if (doc.payments.length > 0) {
+    pdf.ensure(40);
+    pdf.text(MARGIN, "Proof of payment", { size: 11, bold: true });
+    pdf.down(15);
+    for (const p of doc.payments) {
+      pdf.ensure(40);
+      pdf.text(MARGIN, `${money(p.amount)} on ${p.network}${p.date ? `, ${p.date}` : ""}`, { size: 9, bold: true });
+      pdf.down(12);
+      pdf.text(MARGIN, `Tx ${p.txHash}`, { size: 8 });
+      pdf.down(11);
+      const url = explorerUrl(p.network, p.txHash);
+      if (url) {
+        pdf.text(MARGIN, url, { size: 8 });
+        pdf.down(11);
+      }
+      pdf.down(4);
+    }
+  }
+
+  // Footer on every page
+  pdf.pages.forEach((ops, i) => {
+    const footer = `${doc.id} - page ${i + 1} of ${pdf.pages.length} - Spraay x402 Gateway`;
+    ops.push(`BT /F1 8 Tf ${MARGIN} 30 Td ${pdfString(footer)} Tj ET`);
+  });
+  return pdf.pages;
+}
+
+export function renderPdf(doc: InvoiceDocument): Buffer {
+  const pages = layout(doc);
+  const fontBase = 5;
+  const objects: string[] = [];
+  // 1 catalog, 2 pages, 3–4 fonts, 5 info, then a page + content stream per page
+  const pageIds = pages.map((_, i) => fontBase + 1 + i * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  const created = `D:${doc.issueDate.replace(/-/g, "")}000000Z`;
+  objects[5] = `<< /Title ${pdfString(`Invoice ${doc.id}`)} /Producer (Spraay x402 Gateway) /CreationDate (${created}) >>`;
+  pages.forEach((ops, i) => {
+    const stream = ops.join("\n");
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let body = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, "latin1");
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  const fileId = createHash("sha256").update(body, "latin1").digest("hex").slice(0, 32);
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) body += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R /ID [<${fileId}> <${fileId}>] >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(body, "latin1");
+}
+
+/** Render `doc` in `format` with the HTTP content type and a download filename. */
+export function renderInvoiceExport(doc: InvoiceDocument, format: ExportFormat): { contentType: string; filename: string; body: Buffer | string } {
+  switch (format) {
+    case "pdf":
+      return { contentType: "application/pdf", filename: `${doc.id}.pdf`, body: renderPdf(doc) };
+    case "ubl":
+      return { contentType: "application/xml", filename: `${doc.id}.xml`, body: renderUbl(doc) };
+    case "json-ld":
+      return { contentType: "application/ld+json", filename: `${doc.id}.jsonld`, body: JSON.stringify(renderJsonLd(doc), null, 2) };
+  }
+}
@@ -0,0 +1,83 @@
+// ============================================
+// Recurring invoices — issue dates for invoice templates
+// ============================================
+// A template issues a fresh invoice on each occurrence: every N weeks, every
+// N months (on the start date's day of month, clamped to short months), or on
+// a custom cron expression evaluated in the template's timezone.
+
+import { parseCronExpression, nextCronRun, isValidTimezone, CronExpressionError } from "./cron-expression.js";
+
+export type RecurrenceFrequency = "weekly" | "monthly" | "custom";
+
+export interface InvoiceRecurrence {
+  frequency: RecurrenceFrequency;
+  /** Every N weeks/months — ignored for custom */
+  interval: number;
+  /** 5-field cron expression — custom only */
+  cron: string | null;
+  timezone: string;
+  /** Day of month monthly invoices are issued on (1–31) */
+  anchorDay: number | null;
+}
+
+export class InvoiceScheduleError extends Error {}
+
+const MAX_INTERVAL = 52;
+
+/** Validate template input. `start` fixes the monthly anchor day. */
+export function parseRecurrence(
+  input: { frequency?: unknown; interval?: unknown; cron?: unknown; timezone?: unknown },
+  start: Date
+): InvoiceRecurrence {
+  const frequency = String(input.frequency || "").toLowerCase();
+  if (!["weekly", "monthly", "custom"].includes(frequency)) {
+    throw new InvoiceScheduleError('frequency must be "weekly", "monthly" or "custom"');
+  }
+  const timezone = input.timezone === undefined ? "UTC" : input.timezone;
+  if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+    throw new InvoiceScheduleError(`Invalid timezone: ${timezone}. Use an IANA name like "UTC" or "America/New_York"`);
+  }
+
+  if (frequency === "custom") {
+    if (typeof input.cron !== "string") throw new InvoiceScheduleError("custom frequency requires a cron expression");
+    try {
+      parseCronExpression(input.cron);
+    } catch (err) {
+      if (err instanceof CronExpressionError) throw new InvoiceScheduleError(err.message);
+      throw err;
+    }
+    return { frequency, interval: 1, cron: input.cron, timezone, anchorDay: null };
+  }
+
+  const interval = input.interval === undefined ? 1 : Number(input.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+    throw new InvoiceScheduleError(`interval must be an integer between 1 and ${MAX_INTERVAL}`);
+  }
+  return {
+    frequency: frequency as RecurrenceFrequency, interval, cron: null, timezone,
+    anchorDay: frequency === "monthly" ? start.getUTCDate() : null,
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Issue date after `previous`, or null when a custom schedule never fires again. */
+export function nextIssueDate(recurrence: InvoiceRecurrence, previous: Date): Date | null {
+  switch (recurrence.frequency) {
+    case "weekly":
+      return new Date(previous.getTime() + recurrence.interval * 7 * 86_400_000);
+    case "monthly": {
+      const months = previous.getUTCMonth() + recurrence.interval;
+      const year = previous.getUTCFullYear() + Math.floor(months / 12);
+      const month = months % 12;
+      const day = Math.min(recurrence.anchorDay || previous.getUTCDate(), daysInMonth(year, month));
+      const next = new Date(previous);
+      next.setUTCFullYear(year, month, day);
+      return next;
+    }
+    case "custom":
+      return nextCronRun(recurrence.cron!, previous, recurrence.timezone);
+  }
+}
@@ -0,0 +1,195 @@
+// ============================================
+// Invoice reminders — policy, spacing and message text
+// ============================================
+// An invoice (or recurring template) may carry a reminder policy: where to
+// send reminders and how often. Every attempt is appended to the invoice's
+// reminder history, and the history alone decides whether another reminder
+// may go out — scheduled, manual and cron-triggered reminders all share the
+// same spacing and cap, so a client is never reminded more than once per
+// INVOICE_REMINDER_MIN_INTERVAL_HOURS or more than maxReminders times.
+// Sending to channels other than the invoice's own policy takes the
+// creator's wallet signature, so the gateway can't be used as a relay.
+
+import { isAddress, verifyMessage } from "ethers";
+
+export type ReminderChannel =
+  | { type: "email"; to: string }
+  | { type: "xmtp"; to: string }
+  | { type: "webhook" };
+
+export interface ReminderPolicy {
+  channels: ReminderChannel[];
+  /** First reminder this many hours before dueDate; null = first reminder at dueDate */
+  beforeDueHours: number | null;
+  /** Gap between reminders once overdue */
+  repeatEveryHours: number;
+  maxReminders: number;
+}
+
+export type ReminderTrigger = "schedule" | "manual";
+
+export interface ReminderDelivery {
+  channel: ReminderChannel["type"];
+  to: string | null;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface ReminderEvent {
+  at: string;
+  trigger: ReminderTrigger;
+  overdue: boolean;
+  deliveries: ReminderDelivery[];
+}
+
+export class InvoiceReminderError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+const BASE_URL = process.env.BASE_URL || "https://gateway.spraay.app";
+
+export const REMINDER_MIN_INTERVAL_HOURS = Number(process.env.INVOICE_REMINDER_MIN_INTERVAL_HOURS) || 24;
+
+const REMINDABLE_STATUSES = ["pending", "partially_paid", "overdue", "expired"];
+
+/** How far `signedAt` may be from the time a signed reminder request arrives. */
+export const CREATOR_SIGNATURE_MAX_AGE_MS = 10 * 60_000;
+
+/** The message a creator signs to send reminders to channels of their choosing; `signedAt` is an ISO timestamp. */
+export function creatorRemindMessage(creator: string, signedAt: string): string {
+  return `Spraay invoice: remind\nCreator: ${creator.toLowerCase()}\nSigned at: ${signedAt}`;
+}
+
+/**
+ * Check that `signature` is the creator's signature over creatorRemindMessage,
+ * signed within CREATOR_SIGNATURE_MAX_AGE_MS. Throws InvoiceReminderError
+ * with 401 (missing, stale or malformed) or 403 (another wallet signed it).
+ */
+export function verifyCreatorSignature(creator: string, signature: unknown, signedAt: unknown, now: Date = new Date()): void {
+  if (typeof signature !== "string" || typeof signedAt !== "string") {
+    throw new InvoiceReminderError("signature and signedAt are required to send reminders to other channels — sign the reminder message with the creator wallet", 401);
+  }
+  const at = Date.parse(signedAt);
+  if (isNaN(at) || Math.abs(now.getTime() - at) > CREATOR_SIGNATURE_MAX_AGE_MS) {
+    throw new InvoiceReminderError(`signedAt must be an ISO timestamp within ${CREATOR_SIGNATURE_MAX_AGE_MS / 60_000} minutes of now`, 401);
+  }
+  let signer: string;
+  try {
+    signer = verifyMessage(creatorRemindMessage(creator, signedAt), signature);
+  } catch {
+    throw new InvoiceReminderError("signature is not a valid EIP-191 signature", 401);
+  }
+  if (signer.toLowerCase() !== creator.toLowerCase()) {
+    throw new InvoiceReminderError("signature was not made by the creator wallet", 403);
+  }
+}
+
+export function parseReminderChannels(input: unknown): ReminderChannel[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new InvoiceReminderError('reminders.channels must be a non-empty array of { type: "email" | "xmtp" | "webhook", to? }');
+  }
+  return input.map((c: any, i): ReminderChannel => {
+    const type = String(c?.type || "").toLowerCase();
+    if (type === "email") {
+      if (typeof c.to !== "string" || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(c.to)) {
+        throw new InvoiceReminderError(`Reminder channel ${i + 1}: email needs a valid "to" address`);
+      }
+      return { type, to: c.to };
+    }
+    if (type === "xmtp") {
+      if (typeof c.to !== "string" || !isAddress(c.to)) {
+        throw new InvoiceReminderError(`Reminder channel ${i + 1}: xmtp needs a wallet address in "to"`);
+      }
+      return { type, to: c.to };
+    }
+    if (type === "webhook") return { type };
+    throw new InvoiceReminderError(`Reminder channel ${i + 1}: unknown type "${c?.type}"`);
+  });
+}
+
+export function parseReminderPolicy(input: any): ReminderPolicy {
+  if (typeof input !== "object" || input === null) throw new InvoiceReminderError("reminders must be an object");
+  const channels = parseReminderChannels(input.channels);
+
+  const beforeDueHours = input.beforeDueHours === undefined || input.beforeDueHours === null ? null : Number(input.beforeDueHours);
+  if (beforeDueHours !== null && (!Number.isFinite(beforeDueHours) || beforeDueHours <= 0)) {
+    throw new InvoiceReminderError("reminders.beforeDueHours must be a positive number");
+  }
+  const repeatEveryHours = input.repeatEveryHours === undefined ? 72 : Number(input.repeatEveryHours);
+  if (!Number.isFinite(repeatEveryHours) || repeatEveryHours < REMINDER_MIN_INTERVAL_HOURS) {
+    throw new InvoiceReminderError(`reminders.repeatEveryHours must be at least ${REMINDER_MIN_INTERVAL_HOURS}`);
+  }
+  const maxReminders = input.maxReminders === undefined ? 3 : Number(input.maxReminders);
+  if (!Number.isInteger(maxReminders) || maxReminders < 1 || maxReminders > 10) {
+    throw new InvoiceReminderError("reminders.maxReminders must be an integer between 1 and 10");
+  }
+  return { channels, beforeDueHours, repeatEveryHours, maxReminders };
+}
+
+/** Reminders that reached at least one channel. */
+export function remindersSent(history: ReminderEvent[]): number {
+  return history.filter((e) => e.deliveries.some((d) => d.ok)).length;
+}
+
+/**
+ * Why a reminder can't go out now, or null when it may. Applies to every
+ * trigger — this is the anti-spam gate.
+ */
+export function reminderBlock(
+  invoice: { status: string },
+  history: ReminderEvent[],
+  maxReminders: number | null,
+  now: Date
+): string | null {
+  if (!REMINDABLE_STATUSES.includes(invoice.status)) return `Invoice is ${invoice.status}`;
+  if (maxReminders !== null && remindersSent(history) >= maxReminders) return `Reminder limit reached (${maxReminders})`;
+  const last = history[history.length - 1];
+  if (last) {
+    const allowedAt = new Date(last.at).getTime() + REMINDER_MIN_INTERVAL_HOURS * 3_600_000;
+    if (now.getTime() < allowedAt) return `Last reminder was at ${last.at}; next allowed after ${new Date(allowedAt).toISOString()}`;
+  }
+  return null;
+}
+
+/** When the scheduler should send the next reminder, or null for none. */
+export function nextReminderAt(
+  invoice: { status: string; dueDate: string | null },
+  policy: ReminderPolicy | null,
+  history: ReminderEvent[]
+): Date | null {
+  if (!policy || !invoice.dueDate || !REMINDABLE_STATUSES.includes(invoice.status)) return null;
+  if (remindersSent(history) >= policy.maxReminders) return null;
+
+  const due = new Date(invoice.dueDate).getTime();
+  const last = history[history.length - 1];
+  if (!last) return new Date(policy.beforeDueHours === null ? due : due - policy.beforeDueHours * 3_600_000);
+
+  const lastAt = new Date(last.at).getTime();
+  const earliest = lastAt + REMINDER_MIN_INTERVAL_HOURS * 3_600_000;
+  // A pre-due reminder is followed by one when the invoice goes overdue
+  const target = lastAt < due ? due : lastAt + policy.repeatEveryHours * 3_600_000;
+  return new Date(Math.max(target, earliest));
+}
+
+export function reminderMessage(
+  invoice: { id: string; creator: string; amount: string; token: { symbol: string }; dueDate: string | null; memo: string | null; reference: string | null },
+  outstanding: string,
+  now: Date
+): { subject: string; text: string } {
+  const overdue = !!invoice.dueDate && new Date(invoice.dueDate) < now;
+  const due = invoice.dueDate ? invoice.dueDate.slice(0, 10) : null;
+  const subject = overdue
+    ? `Overdue: invoice ${invoice.id} (${outstanding} ${invoice.token.symbol})`
+    : `Reminder: invoice ${invoice.id} due ${due ?? "on receipt"}`;
+  const lines = [
+    `Invoice ${invoice.id}${invoice.reference ? ` (ref ${invoice.reference})` : ""} for ${invoice.amount} ${invoice.token.symbol}` +
+      (overdue ? ` was due ${due}.` : due ? ` is due ${due}.` : " is awaiting payment."),
+    `Outstanding: ${outstanding} ${invoice.token.symbol}, payable to ${invoice.creator} on Base.`,
+    invoice.memo ? `Memo: ${invoice.memo}` : null,
+    `Pay online: ${BASE_URL}/pay/${invoice.id}`,
+    `Payment details: GET /api/v1/invoice/${invoice.id}`,
+  ];
+  return { subject, text: lines.filter(Boolean).join("\n") };
+}
@@ -0,0 +1,82 @@
+// ============================================
+// In-process route handler invocation
+// ============================================
+// Background jobs (cron, schedulers) reuse the exact Express handlers the
+// HTTP API serves, so a scheduled batch builds the same calldata as a live
+// one. This drives a handler with a minimal fake req/res and resolves with
+// whatever it sent. Payment middleware is NOT involved — callers are
+// server-side jobs that were already paid for when they were created.
+
+import { Request, Response } from "express";
+
+export type RouteHandler = (req: Request, res: Response) => unknown;
+
+export interface HandlerResult {
+  status: number;
+  body: any;
+}
+
+export interface InvokeOptions {
+  method?: "GET" | "POST";
+  path?: string;
+  body?: unknown;
+  query?: Record<string, unknown>;
+  params?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Resolve with a 504 if the handler hasn't responded by then; it keeps running, but its response is dropped */
+  timeoutMs?: number;
+}
+
+export function invokeHandler(handler: RouteHandler, options: InvokeOptions = {}): Promise<HandlerResult> {
+  return new Promise<HandlerResult>((settle) => {
+    let timer: NodeJS.Timeout | null = null;
+    const resolve = (result: HandlerResult) => {
+      if (timer) clearTimeout(timer);
+      settle(result);
+    };
+    if (options.timeoutMs !== undefined) {
+      timer = setTimeout(() => settle({ status: 504, body: { error: `Handler timed out after ${options.timeoutMs}ms` } }), options.timeoutMs);
+    }
+    const headers = Object.fromEntries(
+      Object.entries(options.headers || {}).map(([k, v]) => [k.toLowerCase(), v])
+    );
+    const req: any = {
+      method: options.method || "POST",
+      path: options.path || "/",
+      originalUrl: options.path || "/",
+      body: options.body ?? {},
+      query: options.query ?? {},
+      params: options.params ?? {},
+      headers,
+      ip: "127.0.0.1",
+      get: (name: string) => headers[name.toLowerCase()],
+      header: (name: string) => headers[name.toLowerCase()],
+    };
+    const res: any = {
+      statusCode: 200,
+      headersSent: false,
+      locals: {},
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      setHeader() {
+        return this;
+      },
+      set() {
+        return this;
+      },
+      json(payload: any) {
+        this.headersSent = true;
+        resolve({ status: this.statusCode, body: payload });
+        return this;
+      },
+      send(payload: any) {
+        return this.json(payload);
+      },
+    };
+    Promise.resolve()
+      .then(() => handler(req as Request, res as Response))
+      .catch((err) => resolve({ status: 500, body: { error: err?.message || String(err) } }));
+  });
+}
@@ -0,0 +1,46 @@
+// ============================================
+// Payment URIs — EIP-681 and Solana Pay request links
+// ============================================
+// Wallet-agnostic links a payer can open or scan: any EVM wallet that speaks
+// EIP-681 pre-fills an ERC-20 transfer, and any Solana Pay wallet pre-fills
+// an SPL transfer tagged with a reference key the gateway can look up.
+
+export interface Eip681TransferParams {
+  token: string;
+  recipient: string;
+  /** Amount in the token's base units */
+  amountRaw: string | bigint;
+  chainId: number;
+}
+
+/** `ethereum:<token>@<chainId>/transfer?address=<recipient>&uint256=<amountRaw>` */
+export function eip681TransferUri(params: Eip681TransferParams): string {
+  return `ethereum:${params.token}@${params.chainId}/transfer?address=${params.recipient}&uint256=${BigInt(params.amountRaw).toString()}`;
+}
+
+export interface SolanaPayParams {
+  recipient: string;
+  /** Human-readable decimal amount, e.g. "1500.000123" */
+  amount: string;
+  splToken?: string | null;
+  reference?: string | null;
+  label?: string | null;
+  message?: string | null;
+  memo?: string | null;
+}
+
+/** Solana Pay transfer request URL (https://docs.solanapay.com/spec). */
+export function solanaPayUrl(params: SolanaPayParams): string {
+  const query: string[] = [`amount=${encodeURIComponent(trimAmount(params.amount))}`];
+  if (params.splToken) query.push(`spl-token=${params.splToken}`);
+  if (params.reference) query.push(`reference=${params.reference}`);
+  if (params.label) query.push(`label=${encodeURIComponent(params.label)}`);
+  if (params.message) query.push(`message=${encodeURIComponent(params.message)}`);
+  if (params.memo) query.push(`memo=${encodeURIComponent(params.memo)}`);
+  return `solana:${params.recipient}?${query.join("&")}`;
+}
+
+/** Solana Pay forbids trailing zeros and a trailing decimal point. */
+function trimAmount(amount: string): string {
+  return amount.includes(".") ? amount.replace(/0+$/, "").replace(/\.$/, "") : amount;
+}
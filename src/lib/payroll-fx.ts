@@ -0,0 +1,143 @@
+// ============================================
+// Payroll FX — fiat salaries paid in stablecoins at a locked rate
+// ============================================
+// An employee can be owed a fiat amount (EUR 4,000, GBP 3,200, JPY 450,000)
+// and paid in any payroll stablecoin. payroll/estimate quotes fiat → token
+// rates and locks them for PAYROLL_FX_LOCK_MINUTES; payroll/execute converts
+// with a locked quote only, so the amounts that were estimated are the
+// amounts that get encoded. Each converted employee keeps the rate, its
+// source and the quote time for accounting.
+//
+// Rate sources are tried in order; the first one that covers a currency
+// wins. The routes supply CoinGecko (the stablecoin's market price in each
+// fiat currency, so a token trading off its peg is priced as it trades)
+// and an on-chain fallback for USD/EUR.
+
+import { parseUnits } from "ethers";
+
+export class PayrollFxError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+export const PAYROLL_FX_LOCK_MINUTES = Number(process.env.PAYROLL_FX_LOCK_MINUTES || 30);
+
+/** ISO 4217 codes salaries can be stated in. */
+export const FIAT_CURRENCIES = [
+  "USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD", "NZD", "SEK", "NOK", "DKK", "PLN", "CZK", "HUF",
+  "SGD", "HKD", "KRW", "CNY", "INR", "IDR", "PHP", "THB", "BRL", "MXN", "ARS", "ZAR", "NGN", "TRY", "AED",
+];
+
+export interface FxRate {
+  currency: string;
+  token: string;
+  /** Token units per one unit of `currency` */
+  rate: string;
+  source: string;
+  quotedAt: string;
+}
+
+export interface FxRateSource {
+  name: string;
+  /** Rates (token units per currency unit) for whichever currencies this source covers. */
+  quote(currencies: string[], token: string): Promise<Record<string, number>>;
+}
+
+export function parseCurrency(input: unknown): string {
+  const code = typeof input === "string" ? input.trim().toUpperCase() : "";
+  if (!FIAT_CURRENCIES.includes(code)) {
+    throw new PayrollFxError(`Unsupported currency: ${input}. Supported: ${FIAT_CURRENCIES.join(", ")}`);
+  }
+  return code;
+}
+
+/**
+ * Quote every currency in `currencies` against `token`, asking each source
+ * in turn for the currencies still missing. A source that errors is skipped.
+ */
+export async function quoteFxRates(
+  currencies: string[],
+  token: string,
+  sources: FxRateSource[],
+  now: Date = new Date()
+): Promise<FxRate[]> {
+  const wanted = [...new Set(currencies.map(parseCurrency))];
+  const rates = new Map<string, FxRate>();
+
+  for (const source of sources) {
+    const missing = wanted.filter((c) => !rates.has(c));
+    if (missing.length === 0) break;
+    let quoted: Record<string, number>;
+    try {
+      quoted = await source.quote(missing, token);
+    } catch (err: any) {
+      console.warn(`[payroll-fx] ${source.name} failed: ${err?.message || err}`);
+      continue;
+    }
+    for (const currency of missing) {
+      const rate = quoted[currency];
+      if (typeof rate !== "number" || !isFinite(rate) || rate <= 0) continue;
+      rates.set(currency, {
+        currency, token, rate: rate.toFixed(12).replace(/\.?0+$/, ""), source: source.name, quotedAt: now.toISOString(),
+      });
+    }
+  }
+
+  const unavailable = wanted.filter((c) => !rates.has(c));
+  if (unavailable.length > 0) {
+    throw new PayrollFxError(`No ${token} rate available for ${unavailable.join(", ")} — try again shortly`, 503);
+  }
+  return wanted.map((c) => rates.get(c)!);
+}
+
+/** `fiatAmount` × `rate` in token base units, rounded half-up to the token's decimals. */
+export function convertFiat(fiatAmount: string, rate: string, decimals: number): bigint {
+  const product = parseUnits(fiatAmount, 18) * parseUnits(rate, 18);
+  const divisor = 10n ** BigInt(36 - decimals);
+  return (product + divisor / 2n) / divisor;
+}
+
+// ---------------------------------------------------------------------------
+// CoinGecko
+// ---------------------------------------------------------------------------
+
+const COINGECKO_API_KEY = process.env.COINGECKO_API_KEY || "";
+const COINGECKO_BASE = "https://api.coingecko.com/api/v3";
+const COINGECKO_TIMEOUT_MS = 8000;
+
+// Bridged USDbC is redeemable 1:1 for USDC and has no market of its own.
+// WETH is here for invoice exports, which value WETH invoices in USD.
+const COINGECKO_IDS: Record<string, string> = {
+  USDC: "usd-coin", USDbC: "usd-coin", USDT: "tether", DAI: "dai", EURC: "euro-coin", WETH: "weth",
+};
+
+export const coingeckoFxSource: FxRateSource = {
+  name: "coingecko",
+  async quote(currencies, token) {
+    const id = COINGECKO_IDS[token];
+    if (!id) return {};
+    const url = new URL(`${COINGECKO_BASE}/simple/price`);
+    url.searchParams.set("ids", id);
+    url.searchParams.set("vs_currencies", currencies.map((c) => c.toLowerCase()).join(","));
+
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (COINGECKO_API_KEY) headers["x-cg-demo-api-key"] = COINGECKO_API_KEY;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), COINGECKO_TIMEOUT_MS);
+    try {
+      const res = await fetch(url.toString(), { headers, signal: controller.signal });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const json: any = await res.json();
+      const rates: Record<string, number> = {};
+      for (const currency of currencies) {
+        // CoinGecko prices one token in the currency; payroll needs tokens per currency unit
+        const price = json?.[id]?.[currency.toLowerCase()];
+        if (typeof price === "number" && price > 0) rates[currency] = 1 / price;
+      }
+      return rates;
+    } finally {
+      clearTimeout(timer);
+    }
+  },
+};
@@ -0,0 +1,230 @@
+// ============================================
+// Payroll roster — employees, pay schedules, run history
+// ============================================
+// An employer keeps a roster of employees (wallet, default amount, token,
+// label, active flag). A run pays every active employee their default
+// amount: one payroll build per token, so a roster mixing USDC and EURC
+// produces two approval + batchTransfer sets. An employee with a fiat
+// `currency` is owed `amount` in that currency and paid in their token at
+// a rate locked when the run is built (lib/payroll-fx.ts). Schedules fire runs biweekly
+// or monthly; the dates come from the recurring-invoice rules
+// (lib/invoice-recurrence.ts).
+//
+// History and YTD totals are computed from stored runs — a run counts once
+// it has been generated ("ready"), whether or not the employer has signed it.
+//
+// Changing a roster, generating a run and creating a pay schedule need the
+// employer wallet's EIP-191 signature over employerAuthMessage(), so only
+// the employer can decide who the gateway builds payroll for.
+
+import { isAddress, parseUnits, formatUnits, verifyMessage } from "ethers";
+import { InvoiceRecurrence, InvoiceScheduleError, parseRecurrence } from "./invoice-recurrence.js";
+import { PayrollFxError, parseCurrency } from "./payroll-fx.js";
+
+export class PayrollRosterError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+export type EmployerAction = "roster" | "run" | "schedule";
+
+/** How far `signedAt` may be from the time a signed request arrives. */
+export const EMPLOYER_SIGNATURE_MAX_AGE_MS = 10 * 60_000;
+
+/** The message an employer signs to authorise `action`; `signedAt` is an ISO timestamp. */
+export function employerAuthMessage(action: EmployerAction, employer: string, signedAt: string): string {
+  return `Spraay payroll: ${action}\nEmployer: ${employer.toLowerCase()}\nSigned at: ${signedAt}`;
+}
+
+/**
+ * Check that `signature` is the employer's signature over the message for
+ * `action`, signed within EMPLOYER_SIGNATURE_MAX_AGE_MS. Throws
+ * PayrollRosterError with 401 (missing, stale or malformed) or 403 (another
+ * wallet signed it).
+ */
+export function verifyEmployerSignature(
+  action: EmployerAction,
+  employer: string,
+  signature: unknown,
+  signedAt: unknown,
+  now: Date = new Date()
+): void {
+  if (typeof signature !== "string" || typeof signedAt !== "string") {
+    throw new PayrollRosterError("signature and signedAt are required — sign the payroll message with the employer wallet", 401);
+  }
+  const at = Date.parse(signedAt);
+  if (isNaN(at) || Math.abs(now.getTime() - at) > EMPLOYER_SIGNATURE_MAX_AGE_MS) {
+    throw new PayrollRosterError(`signedAt must be an ISO timestamp within ${EMPLOYER_SIGNATURE_MAX_AGE_MS / 60_000} minutes of now`, 401);
+  }
+  let signer: string;
+  try {
+    signer = verifyMessage(employerAuthMessage(action, employer, signedAt), signature);
+  } catch {
+    throw new PayrollRosterError("signature is not a valid EIP-191 signature", 401);
+  }
+  if (signer.toLowerCase() !== employer.toLowerCase()) {
+    throw new PayrollRosterError("signature was not made by the employer wallet", 403);
+  }
+}
+
+export type PayrollFrequency = "biweekly" | "monthly";
+
+export const PAYROLL_FREQUENCIES: PayrollFrequency[] = ["biweekly", "monthly"];
+
+export interface RosterEntryInput {
+  address: string;
+  amount: string;
+  /** Token symbol — already resolved by the caller */
+  token: string;
+  /** Fiat currency `amount` is stated in; null when it is in token units */
+  currency: string | null;
+  label: string | null;
+  active: boolean;
+}
+
+/** One employee's line in a generated run. */
+export interface RunEmployee {
+  employeeId: string;
+  address: string;
+  label: string | null;
+  token: string;
+  /** Token amount paid */
+  amount: string;
+  /** Set when the salary is stated in fiat: the amount owed and the locked rate used */
+  fx?: { currency: string; fiatAmount: string; rate: string; source: string; quotedAt: string; quoteId: string };
+}
+
+export interface PayrollRunRecord {
+  id: string;
+  payDate: string;
+  status: string;
+  employees: RunEmployee[];
+}
+
+/**
+ * Validate one roster entry. Fields the entry leaves out come from
+ * `defaults` — the stored employee when updating, so `{ address, active:
+ * false }` deactivates without restating the amount. `resolveToken` maps a
+ * symbol or address to a supported payroll token symbol (null when unsupported).
+ */
+export function parseRosterEntry(
+  input: any,
+  index: number,
+  defaults: Partial<RosterEntryInput> & { token: string },
+  resolveToken: (input: string) => string | null
+): RosterEntryInput {
+  const at = `employees[${index}]`;
+  if (!input || typeof input !== "object") throw new PayrollRosterError(`${at} must be an object`);
+  if (typeof input.address !== "string" || !isAddress(input.address)) {
+    throw new PayrollRosterError(`${at}.address is not a valid address: ${input.address}`);
+  }
+  const amount = typeof input.amount === "number" ? String(input.amount) : input.amount ?? defaults.amount;
+  if (amount === undefined) throw new PayrollRosterError(`${at}.amount is required for a new employee`);
+  if (typeof amount !== "string" || !/^\d*\.?\d+$/.test(amount) || parseFloat(amount) <= 0) {
+    throw new PayrollRosterError(`${at}.amount must be a positive decimal string: ${input.amount}`);
+  }
+  const token = resolveToken(input.token ?? defaults.token);
+  if (!token) throw new PayrollRosterError(`${at}.token is not a supported payroll token: ${input.token ?? defaults.token}`);
+  if (input.label !== undefined && input.label !== null && typeof input.label !== "string") {
+    throw new PayrollRosterError(`${at}.label must be a string`);
+  }
+  if (input.active !== undefined && typeof input.active !== "boolean") {
+    throw new PayrollRosterError(`${at}.active must be true or false`);
+  }
+  let currency = defaults.currency ?? null;
+  if (input.currency !== undefined) {
+    try {
+      currency = input.currency === null || input.currency === "" ? null : parseCurrency(input.currency);
+    } catch (err) {
+      if (err instanceof PayrollFxError) throw new PayrollRosterError(`${at}.currency: ${err.message}`);
+      throw err;
+    }
+  }
+  return {
+    address: input.address,
+    amount,
+    token,
+    currency,
+    label: input.label === undefined ? defaults.label ?? null : input.label || null,
+    active: input.active ?? defaults.active ?? true,
+  };
+}
+
+/** Biweekly runs every 14 days from `start`; monthly on start's day of month, clamped to short months. */
+export function payrollRecurrence(frequency: unknown, start: Date, timezone?: unknown): InvoiceRecurrence {
+  if (!PAYROLL_FREQUENCIES.includes(frequency as PayrollFrequency)) {
+    throw new PayrollRosterError(`frequency must be one of: ${PAYROLL_FREQUENCIES.join(", ")}`);
+  }
+  try {
+    return frequency === "biweekly"
+      ? parseRecurrence({ frequency: "weekly", interval: 2, timezone }, start)
+      : parseRecurrence({ frequency: "monthly", interval: 1, timezone }, start);
+  } catch (err) {
+    if (err instanceof InvoiceScheduleError) throw new PayrollRosterError(err.message);
+    throw err;
+  }
+}
+
+/** Active employees grouped by token, in roster order. */
+export function groupByToken<T extends { token: string; active: boolean }>(roster: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const employee of roster) {
+    if (!employee.active) continue;
+    const group = groups.get(employee.token) || [];
+    group.push(employee);
+    groups.set(employee.token, group);
+  }
+  return groups;
+}
+
+// Payroll tokens have at most 18 decimals, so summing at 18 is exact
+function addAmounts(a: string, b: string): string {
+  return formatUnits(parseUnits(a, 18) + parseUnits(b, 18), 18).replace(/\.0$/, "");
+}
+
+export interface EmployeeHistory {
+  employeeId: string;
+  address: string;
+  label: string | null;
+  token: string;
+  payments: Array<{ runId: string; payDate: string; amount: string }>;
+  total: string;
+  ytd: string;
+}
+
+/**
+ * Per-employee payments across `runs` (oldest first) with totals, plus
+ * year-to-date totals for `year` (UTC). Only "ready" runs count. Employees
+ * paid in more than one token get one entry per token.
+ */
+export function payrollHistory(runs: PayrollRunRecord[], year: number) {
+  const byEmployee = new Map<string, EmployeeHistory>();
+  const ytdByToken: Record<string, string> = {};
+  const counted = runs
+    .filter((run) => run.status === "ready")
+    .sort((a, b) => a.payDate.localeCompare(b.payDate));
+
+  for (const run of counted) {
+    const inYear = new Date(run.payDate).getUTCFullYear() === year;
+    for (const line of run.employees) {
+      const key = `${line.employeeId}:${line.token}`;
+      const entry = byEmployee.get(key) || {
+        employeeId: line.employeeId, address: line.address, label: line.label, token: line.token,
+        payments: [], total: "0", ytd: "0",
+      };
+      // Latest run wins for display fields
+      entry.address = line.address;
+      entry.label = line.label;
+      entry.payments.push({ runId: run.id, payDate: run.payDate, amount: line.amount });
+      entry.total = addAmounts(entry.total, line.amount);
+      if (inYear) {
+        entry.ytd = addAmounts(entry.ytd, line.amount);
+        ytdByToken[line.token] = addAmounts(ytdByToken[line.token] || "0", line.amount);
+      }
+      byEmployee.set(key, entry);
+    }
+  }
+
+  return { runCount: counted.length, employees: [...byEmployee.values()], ytd: { year, byToken: ytdByToken } };
+}
@@ -0,0 +1,470 @@
+// ============================================
+// Recipient import — CSV / XLSX payout lists for batch and payroll
+// ============================================
+// Turns a spreadsheet into the same `{ address, amount }` objects the JSON
+// path takes (human-decimal amounts, see resolveBatchAmounts). Columns are
+// found by header name or an explicit mapping, ENS/Basenames are resolved
+// through an injected resolver, and every problem is reported against the
+// spreadsheet row it came from using validateBatchPayload's row checks.
+//
+// XLSX is read directly — a workbook is a zip of XML parts, and only the
+// first worksheet plus the shared-string table are needed.
+
+import zlib from "zlib";
+import { validateBatchPayload } from "./batch-validation.js";
+
+export class RecipientImportError extends Error {
+  readonly status = 400;
+}
+
+export type ImportField = "address" | "amount" | "label" | "memo";
+export const IMPORT_FIELDS: ImportField[] = ["address", "amount", "label", "memo"];
+
+/** Header name ("Wallet"), column letter ("B") or zero-based index per field. */
+export type ColumnMapping = Partial<Record<ImportField, string | number>>;
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  address: ["address", "wallet", "wallet address", "recipient", "to", "account", "ens", "basename"],
+  amount: ["amount", "value", "pay", "payout", "salary", "net pay"],
+  label: ["label", "name", "employee", "description"],
+  memo: ["memo", "note", "notes", "reference", "ref"],
+};
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// ─── CSV ─────────────────────────────────────────────
+
+/**
+ * RFC 4180 CSV: quoted fields, doubled quotes, CRLF/LF line ends and a UTF-8
+ * BOM. The delimiter (comma, semicolon or tab) is taken from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') { field += '"'; i++; }
+        else quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new RecipientImportError(`CSV has an unterminated quoted field on row ${rows.length + 1}`);
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r|\n/) === -1 ? text.length : text.search(/\r|\n/));
+  const unquoted = firstLine.replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: unquoted.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ",";
+}
+
+// ─── XLSX ────────────────────────────────────────────
+
+/**
+ * Uncompressed bytes read from one upload, across the worksheet, shared
+ * strings and workbook parts. A 5000-row payout sheet is well under 2 MB; the
+ * cap stops a small zip from inflating into gigabytes.
+ */
+export const MAX_XLSX_UNCOMPRESSED_BYTES = 8 * 1024 * 1024;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+function zipEntries(buf: Buffer): Map<string, ZipEntry> {
+  // End of central directory record, searched backwards past any trailing comment
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd === -1) throw new RecipientImportError("XLSX file is not a valid zip archive");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let p = buf.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > buf.length || buf.readUInt32LE(p) !== 0x02014b50) {
+      throw new RecipientImportError("XLSX central directory is corrupt");
+    }
+    const nameLength = buf.readUInt16LE(p + 28);
+    const extraLength = buf.readUInt16LE(p + 30);
+    const commentLength = buf.readUInt16LE(p + 32);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLength);
+    entries.set(name, {
+      method: buf.readUInt16LE(p + 10),
+      compressedSize: buf.readUInt32LE(p + 20),
+      localOffset: buf.readUInt32LE(p + 42),
+    });
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/** Uncompressed bytes still allowed for the current upload. */
+interface InflateBudget {
+  remaining: number;
+}
+
+function readZipEntry(buf: Buffer, entry: ZipEntry, budget: InflateBudget): string {
+  const lo = entry.localOffset;
+  if (lo + 30 > buf.length || buf.readUInt32LE(lo) !== 0x04034b50) {
+    throw new RecipientImportError("XLSX local file header is corrupt");
+  }
+  const start = lo + 30 + buf.readUInt16LE(lo + 26) + buf.readUInt16LE(lo + 28);
+  const data = buf.subarray(start, start + entry.compressedSize);
+  const tooLarge = () =>
+    new RecipientImportError(`XLSX content exceeds ${MAX_XLSX_UNCOMPRESSED_BYTES / (1024 * 1024)} MB uncompressed — split the payout list`);
+
+  let out: Buffer;
+  if (entry.method === 0) {
+    out = data;
+  } else if (entry.method === 8) {
+    try {
+      out = zlib.inflateRawSync(data, { maxOutputLength: Math.max(budget.remaining, 1) });
+    } catch (err: any) {
+      if (err?.code === "ERR_BUFFER_TOO_LARGE") throw tooLarge();
+      throw new RecipientImportError(`XLSX data is corrupt: ${err?.message || err}`);
+    }
+  } else {
+    throw new RecipientImportError(`XLSX uses unsupported zip compression method ${entry.method}`);
+  }
+  if (out.length > budget.remaining) throw tooLarge();
+  budget.remaining -= out.length;
+  return out.toString("utf8");
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, ref: string) => {
+    if (ref[0] === "#") {
+      return String.fromCodePoint(ref[1] === "x" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10));
+    }
+    return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[ref as "lt"]!;
+  });
+}
+
+function attr(tag: string, name: string): string | null {
+  const m = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return m ? unescapeXml(m[1]) : null;
+}
+
+function textRuns(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let out = "";
+  for (const m of withoutPhonetic.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) out += unescapeXml(m[1]);
+  return out;
+}
+
+/** Column letters ("AB") → zero-based index. */
+export function columnIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters.toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+/** Excel stores numbers as doubles; print them the way the cell displays them. */
+function normalizeNumber(value: string): string {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return value;
+  return Number(n.toPrecision(15)).toLocaleString("en-US", { useGrouping: false, maximumFractionDigits: 20 });
+}
+
+function firstSheetPath(entries: Map<string, ZipEntry>, buf: Buffer, budget: InflateBudget): string {
+  const workbook = entries.get("xl/workbook.xml");
+  const rels = entries.get("xl/_rels/workbook.xml.rels");
+  if (workbook && rels) {
+    const sheetTag = /<sheet\b[^>]*>/.exec(readZipEntry(buf, workbook, budget))?.[0];
+    const relId = sheetTag ? attr(sheetTag, "r:id") : null;
+    if (relId) {
+      for (const m of readZipEntry(buf, rels, budget).matchAll(/<Relationship\b[^>]*>/g)) {
+        if (attr(m[0], "Id") !== relId) continue;
+        const target = attr(m[0], "Target") || "";
+        const path = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+        if (entries.has(path)) return path;
+      }
+    }
+  }
+  const fallback = [...entries.keys()].filter((k) => /^xl\/worksheets\/sheet\d+\.xml$/.test(k)).sort()[0];
+  if (!fallback) throw new RecipientImportError("XLSX file has no worksheet");
+  return fallback;
+}
+
+/**
+ * Rows of the workbook's first worksheet as strings. Row positions follow the
+ * sheet (row 5 is index 4) so errors can cite the row the user sees.
+ */
+export function readXlsx(buf: Buffer): string[][] {
+  const entries = zipEntries(buf);
+  const budget: InflateBudget = { remaining: MAX_XLSX_UNCOMPRESSED_BYTES };
+  const sharedEntry = entries.get("xl/sharedStrings.xml");
+  const shared = sharedEntry
+    ? [...readZipEntry(buf, sharedEntry, budget).matchAll(/<si>([\s\S]*?)<\/si>/g)].map((m) => textRuns(m[1]))
+    : [];
+
+  const sheet = readZipEntry(buf, entries.get(firstSheetPath(entries, buf, budget))!, budget);
+  const rows: string[][] = [];
+  let nextRow = 0;
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const r = attr(rowMatch[0].slice(0, rowMatch[0].indexOf(">") + 1), "r");
+    const rowIndex = r ? Number(r) - 1 : nextRow;
+    nextRow = rowIndex + 1;
+    const cells: string[] = [];
+    let nextCol = 0;
+    for (const cellMatch of (rowMatch[2] || "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const open = `<c${cellMatch[1]}>`;
+      const ref = attr(open, "r");
+      const col = ref ? columnIndex(ref.replace(/\d+$/, "")) : nextCol;
+      nextCol = col + 1;
+      const type = attr(open, "t");
+      const body = cellMatch[2] || "";
+      const v = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = "";
+      if (type === "s") value = v !== undefined ? shared[Number(v)] ?? "" : "";
+      else if (type === "inlineStr") value = textRuns(body);
+      else if (type === "str") value = v !== undefined ? unescapeXml(v) : "";
+      else if (type === "b") value = v === "1" ? "TRUE" : "FALSE";
+      else if (type === "e") value = "";
+      else value = v !== undefined ? normalizeNumber(v) : "";
+      while (cells.length < col) cells.push("");
+      cells[col] = value;
+    }
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = cells;
+  }
+  return rows;
+}
+
+// ─── Column mapping ──────────────────────────────────
+
+export interface ImportedRecipient {
+  /** 1-based row number in the uploaded sheet */
+  row: number;
+  address: string;
+  amount: string;
+  label: string | null;
+  memo: string | null;
+  /** ENS name or Basename the address was resolved from */
+  name: string | null;
+}
+
+export interface RowIssue {
+  row: number;
+  field: ImportField | null;
+  message: string;
+}
+
+function isBlank(row: string[]): boolean {
+  return row.every((c) => c.trim() === "");
+}
+
+function looksNumeric(value: string | undefined): boolean {
+  return !!value && /^-?[$€£]?\s*[\d,]*\.?\d+$/.test(value.trim());
+}
+
+/** "$1,500.00" → "1500.00". Thousands separators only — "1.500,00" is left for validation to reject. */
+export function cleanAmount(value: string): string {
+  let v = value.trim().replace(/^[$€£]\s*/, "");
+  if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(v)) v = v.replace(/,/g, "");
+  return v;
+}
+
+function resolveColumns(
+  table: string[][],
+  mapping: ColumnMapping | undefined
+): { columns: Record<ImportField, number | null>; headerRow: number | null } {
+  const firstIndex = table.findIndex((r) => !isBlank(r));
+  const header = firstIndex >= 0 ? table[firstIndex].map((c) => c.trim().toLowerCase()) : [];
+  const columns: Record<ImportField, number | null> = { address: null, amount: null, label: null, memo: null };
+
+  if (mapping && Object.keys(mapping).length > 0) {
+    let usesHeader = false;
+    for (const [field, spec] of Object.entries(mapping) as [ImportField, string | number][]) {
+      if (!IMPORT_FIELDS.includes(field)) {
+        throw new RecipientImportError(`Unknown column mapping "${field}". Map any of: ${IMPORT_FIELDS.join(", ")}`);
+      }
+      if (typeof spec === "number" || /^\d+$/.test(String(spec))) {
+        columns[field] = Number(spec);
+      } else if (header.includes(String(spec).trim().toLowerCase())) {
+        columns[field] = header.indexOf(String(spec).trim().toLowerCase());
+        usesHeader = true;
+      } else if (/^[A-Za-z]{1,3}$/.test(String(spec))) {
+        columns[field] = columnIndex(String(spec));
+      } else {
+        throw new RecipientImportError(`Column "${spec}" (mapped to ${field}) not found in the header row`);
+      }
+    }
+    // Index/letter-only mappings still skip a header row if the first amount cell isn't a number
+    const hasHeader = usesHeader ||
+      (columns.amount !== null && firstIndex >= 0 && !looksNumeric(table[firstIndex][columns.amount]));
+    if (columns.address === null || columns.amount === null) {
+      throw new RecipientImportError('Column mapping must include both "address" and "amount"');
+    }
+    return { columns, headerRow: hasHeader ? firstIndex : null };
+  }
+
+  for (const field of IMPORT_FIELDS) {
+    const idx = header.findIndex((h) => HEADER_ALIASES[field].includes(h));
+    if (idx >= 0) columns[field] = idx;
+  }
+  if (columns.address !== null && columns.amount !== null) return { columns, headerRow: firstIndex };
+
+  // No recognizable header — positional address, amount, label, memo
+  if (firstIndex >= 0 && !looksNumeric(table[firstIndex][1])) {
+    throw new RecipientImportError(
+      'Could not find address and amount columns. Name them "address" and "amount" or pass a "columns" mapping.'
+    );
+  }
+  return { columns: { address: 0, amount: 1, label: 2, memo: 3 }, headerRow: null };
+}
+
+export interface MappedRows {
+  rows: ImportedRecipient[];
+  errors: RowIssue[];
+  headerRow: number | null;
+  columns: Record<ImportField, number | null>;
+}
+
+/** Apply the column mapping; rows with a missing address or amount become row errors. */
+export function mapRows(table: string[][], mapping?: ColumnMapping): MappedRows {
+  const { columns, headerRow } = resolveColumns(table, mapping);
+  const rows: ImportedRecipient[] = [];
+  const errors: RowIssue[] = [];
+  const cell = (r: string[], field: ImportField) => (columns[field] === null ? "" : (r[columns[field]!] ?? "").trim());
+
+  table.forEach((r, i) => {
+    if (i === headerRow || isBlank(r)) return;
+    const row = i + 1;
+    const address = cell(r, "address");
+    const amount = cleanAmount(cell(r, "amount"));
+    if (!address) errors.push({ row, field: "address", message: "address is empty" });
+    if (!amount) errors.push({ row, field: "amount", message: "amount is empty" });
+    if (amount && !/^\d*\.?\d+$/.test(amount)) {
+      errors.push({ row, field: "amount", message: `amount "${amount}" is not a plain decimal number` });
+      return;
+    }
+    if (!address || !amount) return;
+    rows.push({ row, address, amount, label: cell(r, "label") || null, memo: cell(r, "memo") || null, name: null });
+  });
+
+  if (rows.length + errors.length === 0) throw new RecipientImportError("No recipient rows found");
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new RecipientImportError(`Too many rows: ${rows.length} (max ${MAX_IMPORT_ROWS})`);
+  }
+  return { rows, errors, headerRow, columns };
+}
+
+// ─── Import ──────────────────────────────────────────
+
+export type NameResolver = (name: string) => Promise<{ address: string; source: string } | null>;
+
+export interface ImportOptions {
+  mapping?: ColumnMapping;
+  chain?: string;
+  token?: string;
+  resolver: NameResolver;
+}
+
+export interface ImportResult {
+  recipients: ImportedRecipient[];
+  errors: RowIssue[];
+  warnings: RowIssue[];
+  summary: {
+    rows: number;
+    headerRow: number | null;
+    columns: Record<ImportField, number | null>;
+    resolvedNames: Array<{ row: number; name: string; address: string; source: string }>;
+  };
+}
+
+/** Anything with a dot that isn't a hex address is treated as an ENS name or Basename. */
+function isNameLike(value: string): boolean {
+  return !value.startsWith("0x") && value.includes(".");
+}
+
+const RESOLVE_CONCURRENCY = 8;
+
+export async function importRecipients(table: string[][], options: ImportOptions): Promise<ImportResult> {
+  const mapped = mapRows(table, options.mapping);
+  const errors = [...mapped.errors];
+  const warnings: RowIssue[] = [];
+  const resolvedNames: ImportResult["summary"]["resolvedNames"] = [];
+
+  // Resolve each distinct name once, a few at a time
+  const names = [...new Set(mapped.rows.filter((r) => isNameLike(r.address)).map((r) => r.address.toLowerCase()))];
+  const lookups = new Map<string, { address: string; source: string } | null>();
+  for (let i = 0; i < names.length; i += RESOLVE_CONCURRENCY) {
+    const slice = names.slice(i, i + RESOLVE_CONCURRENCY);
+    const results = await Promise.all(slice.map((n) => options.resolver(n).catch(() => null)));
+    slice.forEach((n, j) => lookups.set(n, results[j]));
+  }
+
+  const recipients: ImportedRecipient[] = [];
+  for (const r of mapped.rows) {
+    if (!isNameLike(r.address)) { recipients.push(r); continue; }
+    const hit = lookups.get(r.address.toLowerCase());
+    if (!hit) {
+      errors.push({ row: r.row, field: "address", message: `could not resolve "${r.address}"` });
+      continue;
+    }
+    resolvedNames.push({ row: r.row, name: r.address, address: hit.address, source: hit.source });
+    recipients.push({ ...r, name: r.address, address: hit.address });
+  }
+
+  // Row-level checks from the BPA validator, mapped back to sheet rows
+  const check = validateBatchPayload({
+    chain: options.chain || "base",
+    token: options.token || "USDC",
+    recipients: recipients.map((r) => ({ to: r.address, amount: r.amount })),
+  });
+  const rowIssue = (message: string): RowIssue | null => {
+    const m = /^recipients\[(\d+)\](?:\.(\w+))?: (.*)$/.exec(message);
+    if (!m) return null;
+    const field = m[2] === "to" ? "address" : (m[2] as ImportField | undefined) ?? null;
+    return { row: recipients[Number(m[1])].row, field, message: m[3] };
+  };
+  for (const e of check.errors) {
+    const issue = rowIssue(e);
+    if (issue) errors.push(issue);
+  }
+  for (const w of check.warnings) {
+    const issue = rowIssue(w);
+    if (issue) warnings.push(issue);
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return {
+    recipients,
+    errors,
+    warnings,
+    summary: { rows: mapped.rows.length, headerRow: mapped.headerRow === null ? null : mapped.headerRow + 1, columns: mapped.columns, resolvedNames },
+  };
+}
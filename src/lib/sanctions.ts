@@ -0,0 +1,114 @@
+// ============================================
+// Sanctions screening — monitors, history, counterparty pre-flight
+// ============================================
+// Every screening — a kyc/verify call, a scheduled re-screen of a
+// monitored address, or a pre-flight check on a payment's counterparties —
+// asks a SanctionsScreener whether an address is on the list. The gateway
+// uses the Chainalysis oracle (routes/kyc.ts); tests pass their own.
+//
+// A monitored address is re-screened every `intervalHours`. Each result is
+// stored as a kyc record, so the record list for an address is its full
+// screening history. A clear → match change raises an alert on the
+// monitor's channels (webhook follow-up, email); the first screening and
+// match → clear changes are recorded but do not alert.
+
+import { isAddress } from "ethers";
+
+export class SanctionsError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+export type ScreeningResult = "clear" | "match";
+
+export interface SanctionsScreener {
+  name: string;
+  isSanctioned(address: string, chain: string): Promise<boolean>;
+}
+
+export const MONITOR_INTERVAL_HOURS = { min: 1, max: 168, default: 24 };
+
+export interface AlertDelivery {
+  channel: "webhook" | "email";
+  to: string | null;
+  ok: boolean;
+  error: string | null;
+}
+
+export interface SanctionsAlert {
+  at: string;
+  from: ScreeningResult;
+  to: ScreeningResult;
+  recordId: string;
+  deliveries: AlertDelivery[];
+}
+
+/** Sends one alert on a monitor's channels and reports each delivery. */
+export type SanctionsAlerter = (monitor: any, alert: Omit<SanctionsAlert, "deliveries">) => Promise<AlertDelivery[]>;
+
+/** Validate a re-screening interval in whole hours; undefined takes the default. */
+export function parseMonitorInterval(input: unknown): number {
+  if (input === undefined || input === null) return MONITOR_INTERVAL_HOURS.default;
+  const hours = Number(input);
+  if (!Number.isInteger(hours) || hours < MONITOR_INTERVAL_HOURS.min || hours > MONITOR_INTERVAL_HOURS.max) {
+    throw new SanctionsError(
+      `intervalHours must be a whole number from ${MONITOR_INTERVAL_HOURS.min} to ${MONITOR_INTERVAL_HOURS.max}`
+    );
+  }
+  return hours;
+}
+
+/** Whether a new result should alert: only a previously clear address turning up as a match. */
+export function shouldAlert(previous: ScreeningResult | null, current: ScreeningResult): boolean {
+  return previous === "clear" && current === "match";
+}
+
+export interface Counterparty {
+  address: string;
+  /** Where the address appeared in the request, e.g. "sender" or "recipients[3]" */
+  role: string;
+}
+
+export interface CounterpartyScreening {
+  address: string;
+  roles: string[];
+  result: ScreeningResult;
+}
+
+/**
+ * Screen each distinct EVM address among `parties` (case-insensitive),
+ * `concurrency` oracle calls at a time. Non-EVM entries (names, Solana or
+ * XRP addresses) can't be screened by the oracle and come back in
+ * `unscreened`. A screener error rejects the whole call.
+ */
+export async function screenCounterparties(
+  parties: Counterparty[],
+  screener: SanctionsScreener,
+  chain: string,
+  concurrency = 8
+): Promise<{ screened: CounterpartyScreening[]; matches: CounterpartyScreening[]; unscreened: Counterparty[] }> {
+  const byAddress = new Map<string, CounterpartyScreening>();
+  const unscreened: Counterparty[] = [];
+  for (const party of parties) {
+    if (typeof party.address !== "string" || !isAddress(party.address)) {
+      unscreened.push(party);
+      continue;
+    }
+    const key = party.address.toLowerCase();
+    const entry = byAddress.get(key) ?? { address: key, roles: [], result: "clear" as ScreeningResult };
+    entry.roles.push(party.role);
+    byAddress.set(key, entry);
+  }
+
+  const queue = [...byAddress.values()];
+  const worker = async () => {
+    for (let entry = queue.shift(); entry; entry = queue.shift()) {
+      entry.result = (await screener.isSanctioned(entry.address, chain)) ? "match" : "clear";
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+  const screened = [...byAddress.values()];
+  return { screened, matches: screened.filter((s) => s.result === "match"), unscreened };
+}
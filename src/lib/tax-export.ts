@@ -0,0 +1,497 @@
+// ============================================
+// Tax export — Form 8949 / Schedule D, UK CGT and Koinly-style CSV
+// ============================================
+// Stored tax reports (taxDb) come in two shapes: per-transaction P&L and
+// tax-lot matching (lib/tax-lots.ts, summary.method set). Both are first
+// normalised into a ledger of acquisitions, disposals, income and
+// transfers plus one Form 8949 row per disposed lot, then rendered. Every
+// row carries where its prices came from (caller-provided, cache, lookup,
+// …) so an accountant can see which figures were supplied and which were
+// looked up.
+//
+// The UK summary re-matches the ledger under HMRC's share-identification
+// rules — same-day acquisitions first, then acquisitions in the following
+// 30 days ("bed and breakfast"), then the Section 104 pool at average
+// cost — independently of the method the report was calculated with.
+// Amounts stay in USD, the currency reports are priced in.
+//
+// Rendering is pure: no clocks, no network.
+
+import { formatLotAmount, parseLotAmount, share } from "./tax-lots.js";
+
+export type TaxExportFormat = "8949" | "uk-cgt" | "koinly";
+export const TAX_EXPORT_FORMATS: TaxExportFormat[] = ["8949", "uk-cgt", "koinly"];
+
+export class TaxExportError extends Error {
+  readonly status = 422;
+}
+
+export interface StoredTaxReport {
+  id: string;
+  events: any[];
+  summary: any;
+}
+
+export interface LedgerEntry {
+  kind: "acquisition" | "income" | "disposal" | "transfer";
+  asset: string;
+  amount: string;
+  /** ISO timestamp; null when the report never had one */
+  at: string | null;
+  /** Cost of an acquisition or proceeds of a disposal, before fees */
+  valueUsd: number | null;
+  feeUsd: number;
+  priceSource: string;
+  txHash: string | null;
+  wallet: string | null;
+  toWallet: string | null;
+}
+
+export interface Form8949Row {
+  asset: string;
+  amount: string;
+  acquiredAt: string | null;
+  disposedAt: string | null;
+  proceedsUsd: number | null;
+  costBasisUsd: number | null;
+  gainLossUsd: number | null;
+  term: "short" | "long" | "unknown";
+  proceedsSource: string;
+  costSource: string;
+  txHash: string | null;
+  lotId: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+/** ISO date or unix epoch (seconds or ms) → ISO string; null when missing or unparseable. */
+function iso(input: unknown): string | null {
+  if (input === null || input === undefined || input === "") return null;
+  const d = typeof input === "number" ? new Date(input > 1e12 ? input : input * 1000) : new Date(String(input));
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+function num(value: unknown): number | null {
+  return typeof value === "number" && isFinite(value) ? value : null;
+}
+
+function amountText(value: unknown): string {
+  const units = parseLotAmount(value);
+  if (units === null) throw new TaxExportError(`Report has an invalid amount: ${value}`);
+  return formatLotAmount(units);
+}
+
+function lotReport(report: StoredTaxReport): { ledger: LedgerEntry[]; rows: Form8949Row[] } {
+  const ledger: LedgerEntry[] = [];
+  const rows: Form8949Row[] = [];
+  const lotSources = new Map<string, string>();
+
+  for (const e of report.events) {
+    const base = {
+      asset: e.asset, amount: amountText(e.amount), at: iso(e.timestamp), feeUsd: num(e.feeUsd) ?? 0,
+      txHash: e.txHash ?? null, wallet: e.wallet ?? null, toWallet: e.toWallet ?? null,
+    };
+    if (e.type === "acquisition" || e.type === "income") {
+      lotSources.set(e.lotId, e.priceSource);
+      const cost = num(e.costBasisUsd);
+      const valueUsd = e.type === "income" ? num(e.incomeUsd) : cost === null ? null : cost - base.feeUsd;
+      ledger.push({ ...base, kind: e.type, valueUsd, priceSource: e.priceSource });
+    } else if (e.type === "transfer") {
+      ledger.push({ ...base, kind: "transfer", valueUsd: null, priceSource: "not-priced" });
+    } else if (e.type === "disposal") {
+      const proceeds = num(e.proceedsUsd);
+      ledger.push({ ...base, kind: "disposal", valueUsd: proceeds === null ? null : proceeds + base.feeUsd, priceSource: e.priceSource });
+      for (const lot of e.lots || []) {
+        rows.push({
+          asset: e.asset, amount: lot.amount, acquiredAt: lot.acquiredAt, disposedAt: base.at,
+          proceedsUsd: num(lot.proceedsUsd), costBasisUsd: num(lot.costBasisUsd), gainLossUsd: num(lot.gainLossUsd),
+          term: lot.holdingPeriod, proceedsSource: e.priceSource, costSource: lotSources.get(lot.lotId) ?? "unknown",
+          txHash: base.txHash, lotId: lot.lotId,
+        });
+      }
+      if (e.unmatchedAmount) {
+        const matched = (e.lots || []).reduce((s: number, l: any) => s + (num(l.proceedsUsd) ?? 0), 0);
+        rows.push({
+          asset: e.asset, amount: e.unmatchedAmount, acquiredAt: null, disposedAt: base.at,
+          proceedsUsd: proceeds === null ? null : Math.round((proceeds - matched) * 100) / 100, costBasisUsd: null, gainLossUsd: null,
+          term: "unknown", proceedsSource: e.priceSource, costSource: "no-matching-lot", txHash: base.txHash, lotId: null,
+        });
+      }
+    }
+  }
+  return { ledger, rows };
+}
+
+function transactionReport(report: StoredTaxReport): { ledger: LedgerEntry[]; rows: Form8949Row[] } {
+  const ledger: LedgerEntry[] = [];
+  const rows: Form8949Row[] = [];
+
+  for (const e of report.events) {
+    const sources = e.priceSources || {};
+    const acquiredAt = iso(e.acquiredAt);
+    // Reports calculated before acquiredAt/disposedAt were stored only have `timestamp`
+    const disposedAt = iso(e.disposedAt) ?? (e.disposedAt === undefined ? iso(e.timestamp) : null);
+    const base = { asset: e.asset, amount: amountText(e.amount), feeUsd: 0, txHash: e.txHash ?? null, wallet: null, toWallet: null };
+
+    if (e.type === "income") {
+      ledger.push({
+        ...base, kind: "income", at: acquiredAt ?? iso(e.disposedAt) ?? iso(e.timestamp),
+        valueUsd: num(e.costBasisUsd) ?? num(e.proceedsUsd), priceSource: sources.acquisition ?? "unknown",
+      });
+      continue;
+    }
+    if (e.type === "transfer") {
+      ledger.push({ ...base, kind: "transfer", at: iso(e.timestamp), valueUsd: null, priceSource: "not-priced" });
+      continue;
+    }
+
+    // swap / sale: one acquisition (when its date is known) and one disposal
+    if (acquiredAt) {
+      ledger.push({ ...base, kind: "acquisition", at: acquiredAt, valueUsd: num(e.costBasisUsd), priceSource: sources.acquisition ?? "unknown" });
+    }
+    ledger.push({ ...base, kind: "disposal", at: disposedAt, valueUsd: num(e.proceedsUsd), priceSource: sources.disposal ?? "unknown" });
+    rows.push({
+      asset: e.asset, amount: base.amount, acquiredAt, disposedAt,
+      proceedsUsd: num(e.proceedsUsd), costBasisUsd: num(e.costBasisUsd), gainLossUsd: num(e.gainLoss),
+      term: e.holdingPeriod === "short" || e.holdingPeriod === "long" ? e.holdingPeriod : "unknown",
+      proceedsSource: sources.disposal ?? "unknown", costSource: sources.acquisition ?? "unknown", txHash: base.txHash, lotId: null,
+    });
+  }
+  return { ledger, rows };
+}
+
+/** Ledger and Form 8949 rows for a stored report of either shape. */
+export function taxReportLedger(report: StoredTaxReport): { ledger: LedgerEntry[]; rows: Form8949Row[] } {
+  if (!Array.isArray(report.events)) throw new TaxExportError(`Report ${report.id} has no events`);
+  return report.summary?.method ? lotReport(report) : transactionReport(report);
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+function cell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csv(lines: unknown[][]): string {
+  return lines.map((line) => line.map(cell).join(",")).join("\n") + "\n";
+}
+
+function money(value: number | null): string {
+  if (value === null) return "";
+  const rounded = Math.round(value * 100) / 100;
+  return (Object.is(rounded, -0) ? 0 : rounded).toFixed(2);
+}
+
+function sum(values: Array<number | null>): number {
+  return values.reduce<number>((s, v) => s + (v ?? 0), 0);
+}
+
+/** ISO → "MM/DD/YYYY", "DD/MM/YYYY" or "YYYY-MM-DD HH:mm UTC" */
+function usDate(at: string | null): string {
+  return at ? `${at.slice(5, 7)}/${at.slice(8, 10)}/${at.slice(0, 4)}` : "";
+}
+
+function ukDate(at: string | null): string {
+  return at ? `${at.slice(8, 10)}/${at.slice(5, 7)}/${at.slice(0, 4)}` : "";
+}
+
+function utcMinute(at: string | null): string {
+  return at ? `${at.slice(0, 10)} ${at.slice(11, 16)} UTC` : "";
+}
+
+// ---------------------------------------------------------------------------
+// IRS Form 8949 / Schedule D
+// ---------------------------------------------------------------------------
+
+// Digital assets not reported on a 1099: Box C/F up to 2024, Box I/L from 2025
+function form8949Box(term: "short" | "long", disposedAt: string): string {
+  const digitalAssetBoxes = Number(disposedAt.slice(0, 4)) >= 2025;
+  return term === "short" ? (digitalAssetBoxes ? "I" : "C") : digitalAssetBoxes ? "L" : "F";
+}
+
+const SCHEDULE_D_LINE: Record<string, string> = { C: "3", I: "3", F: "10", L: "10" };
+
+/**
+ * Form 8949 rows grouped by part and box (short-term Part I, long-term
+ * Part II), with totals per box, the Schedule D lines they carry to, and
+ * rows that cannot be filed as-is (missing basis, proceeds or dates) in a
+ * "Needs review" section. `year` keeps disposals in that calendar year.
+ */
+export function renderForm8949(report: StoredTaxReport, year?: number): string {
+  const rows = taxReportLedger(report).rows
+    .filter((r) => year === undefined || (r.disposedAt !== null && Number(r.disposedAt.slice(0, 4)) === year))
+    .sort((a, b) => (a.disposedAt ?? "").localeCompare(b.disposedAt ?? "") || (a.acquiredAt ?? "").localeCompare(b.acquiredAt ?? ""));
+
+  const fileable = (r: Form8949Row) =>
+    r.term !== "unknown" && r.disposedAt !== null && r.acquiredAt !== null && r.proceedsUsd !== null && r.costBasisUsd !== null;
+  const header = [
+    "description", "date_acquired", "date_sold", "proceeds", "cost_basis", "adjustment_code", "adjustment", "gain_loss",
+    "proceeds_price_source", "cost_price_source", "tx_hash", "lot_id",
+  ];
+  const line = (r: Form8949Row) => [
+    `${r.amount} ${r.asset}`, usDate(r.acquiredAt), usDate(r.disposedAt), money(r.proceedsUsd), money(r.costBasisUsd), "", "",
+    money(r.proceedsUsd !== null && r.costBasisUsd !== null ? r.proceedsUsd - r.costBasisUsd : r.gainLossUsd),
+    r.proceedsSource, r.costSource, r.txHash, r.lotId,
+  ];
+
+  const groups = new Map<string, Form8949Row[]>();
+  for (const row of rows.filter(fileable)) {
+    const box = form8949Box(row.term as "short" | "long", row.disposedAt!);
+    groups.set(box, [...(groups.get(box) || []), row]);
+  }
+
+  const out: unknown[][] = [];
+  const schedule: unknown[][] = [];
+  for (const box of ["C", "I", "F", "L"]) {
+    const group = groups.get(box);
+    if (!group) continue;
+    const part = box === "C" || box === "I" ? "Part I — Short-term" : "Part II — Long-term";
+    const proceeds = sum(group.map((r) => r.proceedsUsd));
+    const cost = sum(group.map((r) => r.costBasisUsd));
+    out.push([`Form 8949 ${part} (Box ${box})`], header, ...group.map(line));
+    out.push(["Totals", "", "", money(proceeds), money(cost), "", "", money(proceeds - cost)], []);
+    schedule.push([SCHEDULE_D_LINE[box], `Totals from Form 8949 Box ${box}`, money(proceeds), money(cost), "", money(proceeds - cost)]);
+  }
+  if (schedule.length > 0) {
+    out.push(["Schedule D"], ["line", "description", "proceeds", "cost_basis", "adjustment", "gain_loss"], ...schedule, []);
+  }
+  const review = rows.filter((r) => !fileable(r));
+  if (review.length > 0) out.push(["Needs review — not fileable as-is (missing date/basis/proceeds)"], header, ...review.map(line), []);
+  if (out.length === 0) out.push(["No disposals in this report"]);
+  return csv(out);
+}
+
+// ---------------------------------------------------------------------------
+// UK CGT — same-day, bed-and-breakfast (30-day) and Section 104 matching
+// ---------------------------------------------------------------------------
+
+export interface UkMatch {
+  rule: "same-day" | "bed-and-breakfast" | "section-104" | "unmatched";
+  amount: string;
+  /** Acquisition date for same-day and bed-and-breakfast matches */
+  acquiredAt: string | null;
+  proceedsUsd: number | null;
+  allowableCostUsd: number | null;
+  gainLossUsd: number | null;
+  costSource: string;
+}
+
+export interface UkDisposal {
+  asset: string;
+  disposedAt: string;
+  taxYear: string;
+  amount: string;
+  proceedsSource: string;
+  txHash: string | null;
+  matches: UkMatch[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BED_AND_BREAKFAST_DAYS = 30;
+
+/** UK tax year (6 April – 5 April) an ISO date falls in, e.g. "2024-25". */
+export function ukTaxYear(at: string): string {
+  const d = new Date(at);
+  const y = d.getUTCFullYear();
+  const start = d.getUTCMonth() > 3 || (d.getUTCMonth() === 3 && d.getUTCDate() >= 6) ? y : y - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+}
+
+interface DayPool {
+  day: string;
+  at: string;
+  amount: bigint;
+  remaining: bigint;
+  costUsd: number | null;
+  sources: Set<string>;
+}
+
+/**
+ * Match every disposal in `ledger` under HMRC's rules, asset by asset.
+ * Acquisitions (and income, at its market value) on one day are pooled;
+ * fees are allowable costs. Returns the disposals with their matches and
+ * the Section 104 pool left per asset.
+ */
+export function ukMatch(ledger: LedgerEntry[]) {
+  const disposals: UkDisposal[] = [];
+  const pools: Array<{ asset: string; amount: string; costUsd: number | null }> = [];
+  const assets = [...new Set(ledger.map((e) => e.asset))].sort();
+
+  for (const asset of assets) {
+    const days = new Map<string, DayPool>();
+    const sells: Array<{ entry: LedgerEntry; day: string; amount: bigint; remaining: bigint; result: UkDisposal }> = [];
+
+    for (const entry of ledger) {
+      if (entry.asset !== asset || entry.at === null) continue;
+      const day = entry.at.slice(0, 10);
+      const amount = parseLotAmount(entry.amount)!;
+      if (entry.kind === "acquisition" || entry.kind === "income") {
+        const pool = days.get(day) || { day, at: entry.at, amount: 0n, remaining: 0n, costUsd: 0, sources: new Set<string>() };
+        pool.amount += amount;
+        pool.remaining += amount;
+        pool.costUsd = pool.costUsd === null || entry.valueUsd === null ? null : pool.costUsd + entry.valueUsd + entry.feeUsd;
+        pool.sources.add(entry.priceSource);
+        days.set(day, pool);
+      } else if (entry.kind === "disposal") {
+        const result: UkDisposal = {
+          asset, disposedAt: entry.at, taxYear: ukTaxYear(entry.at), amount: entry.amount,
+          proceedsSource: entry.priceSource, txHash: entry.txHash, matches: [],
+        };
+        sells.push({ entry, day, amount, remaining: amount, result });
+        disposals.push(result);
+      }
+    }
+    sells.sort((a, b) => a.entry.at!.localeCompare(b.entry.at!));
+
+    const record = (sell: (typeof sells)[number], rule: UkMatch["rule"], amount: bigint, costUsd: number | null, costSource: string, acquiredAt: string | null) => {
+      const { entry } = sell;
+      const fraction = share(amount, sell.amount);
+      const proceeds = entry.valueUsd === null ? null : entry.valueUsd * fraction;
+      const cost = costUsd === null ? null : costUsd + entry.feeUsd * fraction;
+      sell.remaining -= amount;
+      sell.result.matches.push({
+        rule, amount: formatLotAmount(amount), acquiredAt, proceedsUsd: proceeds, allowableCostUsd: cost,
+        gainLossUsd: proceeds !== null && cost !== null ? proceeds - cost : null, costSource,
+      });
+    };
+    const takeFromDay = (sell: (typeof sells)[number], pool: DayPool, rule: UkMatch["rule"]) => {
+      const used = pool.remaining < sell.remaining ? pool.remaining : sell.remaining;
+      if (used === 0n) return;
+      pool.remaining -= used;
+      record(sell, rule, used, pool.costUsd === null ? null : pool.costUsd * share(used, pool.amount), [...pool.sources].join("+"), pool.at);
+    };
+
+    // 1. Same day
+    for (const sell of sells) {
+      const pool = days.get(sell.day);
+      if (pool) takeFromDay(sell, pool, "same-day");
+    }
+    // 2. The following 30 days, earliest acquisition first
+    for (const sell of sells) {
+      const start = Date.parse(`${sell.day}T00:00:00Z`);
+      for (let offset = 1; offset <= BED_AND_BREAKFAST_DAYS && sell.remaining > 0n; offset++) {
+        const pool = days.get(new Date(start + offset * DAY_MS).toISOString().slice(0, 10));
+        if (pool) takeFromDay(sell, pool, "bed-and-breakfast");
+      }
+    }
+    // 3. Section 104 pool, built up day by day
+    const s104 = { amount: 0n, costUsd: 0 as number | null, sources: new Set<string>() };
+    const calendar = [...new Set([...days.keys(), ...sells.map((s) => s.day)])].sort();
+    for (const day of calendar) {
+      const pool = days.get(day);
+      if (pool && pool.remaining > 0n) {
+        s104.costUsd = s104.costUsd === null || pool.costUsd === null ? null : s104.costUsd + pool.costUsd * share(pool.remaining, pool.amount);
+        s104.amount += pool.remaining;
+        for (const source of pool.sources) s104.sources.add(source);
+      }
+      for (const sell of sells.filter((s) => s.day === day && s.remaining > 0n)) {
+        const used = s104.amount < sell.remaining ? s104.amount : sell.remaining;
+        if (used > 0n) {
+          const cost = s104.costUsd === null ? null : s104.costUsd * share(used, s104.amount);
+          s104.amount -= used;
+          if (s104.costUsd !== null) s104.costUsd -= cost!;
+          record(sell, "section-104", used, cost, [...s104.sources].join("+"), null);
+        }
+        if (sell.remaining > 0n) record(sell, "unmatched", sell.remaining, null, "no-matching-acquisition", null);
+      }
+    }
+    if (s104.amount > 0n) pools.push({ asset, amount: formatLotAmount(s104.amount), costUsd: s104.costUsd });
+  }
+
+  disposals.sort((a, b) => a.disposedAt.localeCompare(b.disposedAt) || a.asset.localeCompare(b.asset));
+  return { disposals, pools };
+}
+
+/**
+ * UK capital gains summary: per tax year, the figures SA108 asks for —
+ * number of disposals, proceeds, allowable costs, gains and losses — then
+ * every disposal's matches and the Section 104 pools left. `year` keeps
+ * the tax year starting 6 April of that year; matching always runs on the
+ * whole report so earlier acquisitions still feed the pool.
+ */
+export function renderUkCgt(report: StoredTaxReport, year?: number): string {
+  const { disposals, pools } = ukMatch(taxReportLedger(report).ledger);
+  const wanted = year === undefined ? disposals : disposals.filter((d) => d.taxYear === `${year}-${String(year + 1).slice(2)}`);
+
+  const years = new Map<string, UkDisposal[]>();
+  for (const d of wanted) years.set(d.taxYear, [...(years.get(d.taxYear) || []), d]);
+
+  const out: unknown[][] = [
+    ["UK capital gains summary — amounts in USD; convert to sterling at each transaction date for HMRC"],
+    ["tax_year", "disposals", "disposal_proceeds", "allowable_costs", "gains", "losses", "net_gain", "unmatched_disposals"],
+  ];
+  for (const [taxYear, list] of years) {
+    const matches = list.flatMap((d) => d.matches).filter((m) => m.gainLossUsd !== null);
+    const gains = sum(matches.map((m) => (m.gainLossUsd! > 0 ? m.gainLossUsd : 0)));
+    const losses = sum(matches.map((m) => (m.gainLossUsd! < 0 ? -m.gainLossUsd! : 0)));
+    out.push([
+      taxYear, list.length, money(sum(matches.map((m) => m.proceedsUsd))), money(sum(matches.map((m) => m.allowableCostUsd))),
+      money(gains), money(losses), money(gains - losses), list.filter((d) => d.matches.some((m) => m.gainLossUsd === null)).length,
+    ]);
+  }
+
+  out.push([], [
+    "date", "tax_year", "asset", "amount", "rule", "date_acquired", "proceeds", "allowable_cost", "gain_loss",
+    "proceeds_price_source", "cost_price_source", "tx_hash",
+  ]);
+  for (const d of wanted) {
+    for (const m of d.matches) {
+      out.push([
+        ukDate(d.disposedAt), d.taxYear, d.asset, m.amount, m.rule, ukDate(m.acquiredAt), money(m.proceedsUsd),
+        money(m.allowableCostUsd), money(m.gainLossUsd), d.proceedsSource, m.costSource, d.txHash,
+      ]);
+    }
+  }
+
+  out.push([], ["asset", "section_104_amount", "section_104_cost"]);
+  for (const pool of pools) out.push([pool.asset, pool.amount, money(pool.costUsd)]);
+  return csv(out);
+}
+
+// ---------------------------------------------------------------------------
+// Koinly-style universal CSV
+// ---------------------------------------------------------------------------
+
+/** Every ledger entry as one row of Koinly's universal import layout, plus the price source. */
+export function renderKoinlyCsv(report: StoredTaxReport): string {
+  const { ledger } = taxReportLedger(report);
+  const out: unknown[][] = [[
+    "Date", "Sent Amount", "Sent Currency", "Received Amount", "Received Currency", "Fee Amount", "Fee Currency",
+    "Net Worth Amount", "Net Worth Currency", "Label", "Description", "TxHash", "Price Source",
+  ]];
+  const ordered = [...ledger].sort((a, b) => (a.at ?? "").localeCompare(b.at ?? ""));
+  for (const e of ordered) {
+    const sent = e.kind === "disposal" || e.kind === "transfer";
+    const received = e.kind === "acquisition" || e.kind === "income" || e.kind === "transfer";
+    const description = e.kind === "transfer" ? `Transfer ${e.wallet ?? ""} → ${e.toWallet ?? ""}`.trim() : e.wallet ? `Wallet ${e.wallet}` : "";
+    out.push([
+      utcMinute(e.at), sent ? e.amount : "", sent ? e.asset : "", received ? e.amount : "", received ? e.asset : "",
+      e.feeUsd > 0 ? money(e.feeUsd) : "", e.feeUsd > 0 ? "USD" : "",
+      money(e.valueUsd), e.valueUsd === null ? "" : "USD", e.kind === "income" ? "income" : "", description, e.txHash, e.priceSource,
+    ]);
+  }
+  return csv(out);
+}
+
+/** Render a stored report in `format` with the HTTP content type and a download filename. */
+export function renderTaxExport(
+  report: StoredTaxReport,
+  format: TaxExportFormat,
+  year?: number
+): { contentType: string; filename: string; body: string } {
+  const suffix = year === undefined ? "" : `-${year}`;
+  switch (format) {
+    case "8949":
+      return { contentType: "text/csv; charset=utf-8", filename: `${report.id}-form8949${suffix}.csv`, body: renderForm8949(report, year) };
+    case "uk-cgt":
+      return { contentType: "text/csv; charset=utf-8", filename: `${report.id}-uk-cgt${suffix}.csv`, body: renderUkCgt(report, year) };
+    case "koinly":
+      return { contentType: "text/csv; charset=utf-8", filename: `${report.id}-koinly.csv`, body: renderKoinlyCsv(report) };
+  }
+}
@@ -0,0 +1,172 @@
+// ============================================
+// Tax import — wallet history → tax-lot events
+// ============================================
+// Turns decoded transactions (the body of GET /api/v1/tx/decode) into the
+// rows tax/calculate's lot mode takes. Every native ETH or ERC-20 movement
+// in a transaction is sorted by whether its sender and recipient are among
+// the caller's own addresses:
+//
+//   own → own                      transfer (moves lots, no gain)
+//   own → out and out → own        a swap: disposal of what left,
+//     with different assets          acquisition of what arrived
+//   out → own only                 ambiguous — income, a purchase, or a
+//                                  deposit from a wallet not listed
+//   own → out only                 ambiguous — a sale or payment, or a
+//                                  withdrawal to a wallet not listed
+//
+// Ambiguous rows are returned with a suggested type and left out of the
+// calculation until the caller labels them. Labels apply to any row by id
+// ("<txHash>:<n>"), so a confident guess can be overridden too.
+//
+// WETH is recorded as ETH, the way tax.ts prices it, and wraps/unwraps
+// are skipped. NFTs, failed transactions and tokens without decimals are
+// skipped with a reason.
+
+import { formatUnits } from "ethers";
+import { LotEventType } from "./tax-lots.js";
+
+export class TaxImportError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+  }
+}
+
+export type ImportLabel = LotEventType | "ignore";
+export const IMPORT_LABELS: ImportLabel[] = ["acquisition", "income", "disposal", "transfer", "ignore"];
+
+export interface ImportRow {
+  id: string;
+  /** Lot event type; null while the row is ambiguous and unlabelled */
+  type: LotEventType | null;
+  asset: string;
+  amount: string;
+  date: string;
+  /** The caller's address holding the asset (sender for outflows, recipient for inflows) */
+  wallet: string;
+  toWallet: string | null;
+  counterparty: string | null;
+  txHash: string;
+  /** Why the row needs a label, with the likeliest type */
+  ambiguity?: { reason: string; suggested: ImportLabel; options: ImportLabel[] };
+  label?: ImportLabel;
+}
+
+export interface SkippedTransaction {
+  txHash: string;
+  reason: string;
+}
+
+const SYMBOL_ALIASES: Record<string, string> = { WETH: "ETH" };
+
+interface Movement {
+  asset: string;
+  amount: string;
+  from: string;
+  to: string;
+}
+
+function movements(decoded: any): { moves: Movement[]; skipped: string[] } {
+  const moves: Movement[] = [];
+  const skipped: string[] = [];
+  const value = BigInt(decoded.value || "0");
+  if (value > 0n && decoded.from && decoded.to) {
+    moves.push({ asset: "ETH", amount: formatUnits(value, 18).replace(/\.0$/, ""), from: decoded.from, to: decoded.to });
+  }
+  for (const t of decoded.tokenTransfers || []) {
+    if (t.tokenType && t.tokenType !== "ERC-20") {
+      skipped.push(`${t.tokenType} transfer of ${t.symbol}`);
+      continue;
+    }
+    if (t.decimals === null || t.decimals === undefined) {
+      skipped.push(`${t.symbol} transfer without token decimals`);
+      continue;
+    }
+    const raw = BigInt(t.value || "0");
+    if (raw === 0n) continue;
+    const symbol = String(t.symbol || "UNKNOWN").toUpperCase();
+    moves.push({
+      asset: SYMBOL_ALIASES[symbol] || symbol, amount: formatUnits(raw, t.decimals).replace(/\.0$/, ""), from: t.from, to: t.to,
+    });
+  }
+  return { moves, skipped };
+}
+
+/**
+ * Classify one decoded transaction against the caller's `own` addresses
+ * (lowercased). Returns its rows, or the reason it was skipped.
+ */
+export function classifyTransaction(decoded: any, own: Set<string>): { rows: ImportRow[]; skipped: SkippedTransaction | null } {
+  const txHash = String(decoded.hash).toLowerCase();
+  const skip = (reason: string) => ({ rows: [], skipped: { txHash, reason } });
+
+  if (decoded.status && decoded.status !== "ok" && decoded.status !== "success") return skip("failed transaction");
+  const kind = decoded.decoded?.type;
+  if (kind === "wrap" || kind === "unwrap") return skip("ETH ⇄ WETH wrap (treated as the same asset)");
+  const date = decoded.blockTimestamp ? new Date(decoded.blockTimestamp) : null;
+  if (!date || isNaN(date.getTime())) return skip("no block timestamp");
+
+  const { moves, skipped } = movements(decoded);
+  const isOwn = (address: string) => own.has(String(address).toLowerCase());
+  const ours = moves.filter((m) => isOwn(m.from) || isOwn(m.to));
+  if (ours.length === 0) return skip(skipped.length > 0 ? skipped.join("; ") : "no token or ETH movement for these addresses");
+
+  const out = ours.filter((m) => isOwn(m.from) && !isOwn(m.to));
+  const inn = ours.filter((m) => !isOwn(m.from) && isOwn(m.to));
+  const isSwap = out.length > 0 && inn.length > 0 && inn.some((i) => out.some((o) => o.asset !== i.asset));
+
+  const rows = ours.map((m, n): ImportRow => {
+    const internal = isOwn(m.from) && isOwn(m.to);
+    const outgoing = isOwn(m.from);
+    const row: ImportRow = {
+      id: `${txHash}:${n}`, type: null, asset: m.asset, amount: m.amount, date: date.toISOString(),
+      wallet: (outgoing ? m.from : m.to).toLowerCase(), toWallet: internal ? m.to.toLowerCase() : null,
+      counterparty: internal ? null : (outgoing ? m.to : m.from).toLowerCase(), txHash,
+    };
+    if (internal) {
+      row.type = "transfer";
+    } else if (isSwap) {
+      row.type = outgoing ? "disposal" : "acquisition";
+    } else if (outgoing) {
+      row.ambiguity = {
+        reason: kind === "swap"
+          ? "swap with nothing visible coming back (native ETH proceeds arrive as an internal transaction)"
+          : "sent to an address not in the list — a sale or payment, or your own wallet elsewhere",
+        suggested: "disposal", options: ["disposal", "ignore"],
+      };
+    } else {
+      row.ambiguity = {
+        reason: "received from an address not in the list — income, a purchase, or your own wallet elsewhere",
+        suggested: "income", options: ["income", "acquisition", "ignore"],
+      };
+    }
+    return row;
+  });
+  return { rows, skipped: null };
+}
+
+/**
+ * Validate `labels` ({ rowId: label }) and apply them; rows stay ambiguous
+ * without one. Returns the ids that matched no row (e.g. outside this date range).
+ */
+export function applyLabels(rows: ImportRow[], labels: unknown): string[] {
+  if (labels === undefined || labels === null) return [];
+  if (typeof labels !== "object" || Array.isArray(labels)) {
+    throw new TaxImportError("labels must be an object of { rowId: label }");
+  }
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const unknown: string[] = [];
+  for (const [id, label] of Object.entries(labels as Record<string, unknown>)) {
+    const row = byId.get(id.toLowerCase());
+    if (!row) {
+      unknown.push(id);
+      continue;
+    }
+    if (!IMPORT_LABELS.includes(label as ImportLabel) || (label === "transfer" && !row.toWallet)) {
+      const allowed = IMPORT_LABELS.filter((l) => l !== "transfer" || row.toWallet);
+      throw new TaxImportError(`labels.${id} must be one of: ${allowed.join(", ")}`);
+    }
+    row.label = label as ImportLabel;
+    row.type = label === "ignore" ? null : (label as LotEventType);
+  }
+  return unknown;
+}
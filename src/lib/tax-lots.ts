@@ -0,0 +1,286 @@
+// ============================================
+// Tax lots — FIFO / LIFO / HIFO cost-basis matching
+// ============================================
+// Every acquisition opens a lot. A disposal consumes lots in the order the
+// method picks — FIFO oldest first, LIFO newest first, HIFO highest unit
+// cost first — splitting the last lot it touches, so the remainder stays
+// open with its share of the basis. Each disposal lists the lots it used,
+// which is how one sale can be partly short-term and partly long-term.
+//
+// Lots belong to the wallet named on the acquisition. Disposals and
+// transfers naming a wallet draw from that wallet's lots (and lots with no
+// wallet); without a wallet they draw from all of them. A transfer between
+// the caller's own wallets is not a disposal: the lots it moves keep their
+// acquisition date and basis, and the transfer fee is added to that basis.
+// Acquisition fees add to basis; disposal fees come off proceeds.
+//
+// Events arrive already priced — routes/tax.ts resolves prices (caller
+// override → cache → CoinGecko) before matching. Quantities are exact
+// (18-decimal integers); USD values are rounded to cents on output only.
+
+import { formatUnits, parseUnits } from "ethers";
+
+export class TaxLotError extends Error {
+  readonly status = 400;
+}
+
+export type LotMethod = "fifo" | "lifo" | "hifo";
+
+export const LOT_METHODS: LotMethod[] = ["fifo", "lifo", "hifo"];
+
+export type LotEventType = "acquisition" | "income" | "disposal" | "transfer";
+
+export const LOT_EVENT_TYPES: LotEventType[] = ["acquisition", "income", "disposal", "transfer"];
+
+const DECIMALS = 18;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LotEvent {
+  /** Position in the caller's list — lot ids and ties in time use it */
+  index: number;
+  type: LotEventType;
+  asset: string;
+  /** 18-decimal units */
+  amount: bigint;
+  timestamp: number;
+  wallet: string | null;
+  /** Destination wallet of a transfer */
+  toWallet: string | null;
+  /** Acquisition cost or disposal proceeds in USD before fees; null when no price was found */
+  valueUsd: number | null;
+  feeUsd: number;
+  txHash: string | null;
+  priceSource: string;
+}
+
+export interface LotMatch {
+  lotId: string;
+  acquiredAt: string;
+  amount: string;
+  costBasisUsd: number | null;
+  proceedsUsd: number | null;
+  gainLossUsd: number | null;
+  holdingDays: number;
+  holdingPeriod: "short" | "long";
+}
+
+export interface OpenLot {
+  lotId: string;
+  asset: string;
+  wallet: string | null;
+  acquiredAt: string;
+  amount: string;
+  costBasisUsd: number | null;
+  unitCostUsd: number | null;
+}
+
+interface Lot {
+  lotId: string;
+  /** Creation order, so FIFO/LIFO ties stay stable after a lot is moved */
+  seq: number;
+  asset: string;
+  wallet: string | null;
+  acquiredAt: number;
+  amount: bigint;
+  costUsd: number | null;
+}
+
+/** Parse a positive quantity (number or decimal string) into 18-decimal units; null when invalid. */
+export function parseLotAmount(input: unknown): bigint | null {
+  let text: string;
+  if (typeof input === "number") {
+    if (!isFinite(input)) return null;
+    // String(1e-7) is "1e-7", which parseUnits rejects
+    text = /e/i.test(String(input)) ? input.toFixed(DECIMALS) : String(input);
+  } else if (typeof input === "string") {
+    text = input.trim();
+  } else {
+    return null;
+  }
+  if (!/^\d*\.?\d+$/.test(text) || (text.split(".")[1]?.length ?? 0) > DECIMALS) return null;
+  const units = parseUnits(text, DECIMALS);
+  return units > 0n ? units : null;
+}
+
+export function formatLotAmount(units: bigint): string {
+  return formatUnits(units, DECIMALS).replace(/\.0$/, "");
+}
+
+/**
+ * Long-term means held more than one year: the disposal falls on a calendar
+ * day (UTC) after the acquisition's anniversary. A Feb 29 acquisition's
+ * anniversary is Feb 28 in a non-leap year.
+ */
+function isLongTerm(acquiredAt: number, disposedAt: number): boolean {
+  const acquired = new Date(acquiredAt);
+  const year = acquired.getUTCFullYear() + 1;
+  const month = acquired.getUTCMonth();
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const anniversary = Date.UTC(year, month, Math.min(acquired.getUTCDate(), lastDay));
+  const disposed = new Date(disposedAt);
+  return Date.UTC(disposed.getUTCFullYear(), disposed.getUTCMonth(), disposed.getUTCDate()) > anniversary;
+}
+
+function usd(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 100) / 100;
+}
+
+/** `part` of `whole` as a fraction — exact enough for pro-rating USD values. */
+export function share(part: bigint, whole: bigint): number {
+  return part === whole ? 1 : Number((part * 10n ** 18n) / whole) / 1e18;
+}
+
+function sumOrNull(values: Array<number | null>): number | null {
+  return values.some((v) => v === null) ? null : values.reduce<number>((s, v) => s + v!, 0);
+}
+
+function unitCost(lot: Lot): number | null {
+  return lot.costUsd === null ? null : lot.costUsd / Number(formatUnits(lot.amount, DECIMALS));
+}
+
+const ORDER: Record<LotMethod, (a: Lot, b: Lot) => number> = {
+  fifo: (a, b) => a.acquiredAt - b.acquiredAt || a.seq - b.seq,
+  lifo: (a, b) => b.acquiredAt - a.acquiredAt || b.seq - a.seq,
+  // Lots with an unknown basis go last
+  hifo: (a, b) => (unitCost(b) ?? -Infinity) - (unitCost(a) ?? -Infinity) || a.acquiredAt - b.acquiredAt || a.seq - b.seq,
+};
+
+/**
+ * Match disposals to lots under `method`. Returns one result per event in
+ * chronological order (ties keep the caller's order), the lots still open
+ * at the end, totals and warnings for disposals or transfers that ran
+ * past the recorded holdings.
+ */
+export function matchLots(events: LotEvent[], method: LotMethod) {
+  const ordered = [...events].sort((a, b) => a.timestamp - b.timestamp || a.index - b.index);
+  let open: Lot[] = [];
+  let seq = 0;
+  const results: any[] = [];
+  const warnings: string[] = [];
+  const totals = { proceeds: 0, basis: 0, short: 0, long: 0, income: 0 };
+
+  // Remove up to `amount` of `asset` from the eligible lots, splitting the last one used
+  const take = (event: LotEvent) => {
+    const eligible = open
+      .filter((lot) => lot.asset === event.asset && (event.wallet === null || lot.wallet === null || lot.wallet === event.wallet))
+      .sort(ORDER[method]);
+    const pieces: Array<{ lot: Lot; amount: bigint; costUsd: number | null }> = [];
+    let remaining = event.amount;
+    for (const lot of eligible) {
+      if (remaining === 0n) break;
+      const used = lot.amount < remaining ? lot.amount : remaining;
+      const costUsd = lot.costUsd === null ? null : lot.costUsd * share(used, lot.amount);
+      pieces.push({ lot, amount: used, costUsd });
+      lot.amount -= used;
+      if (lot.costUsd !== null) lot.costUsd -= costUsd!;
+      remaining -= used;
+    }
+    open = open.filter((lot) => lot.amount > 0n);
+    if (remaining > 0n) {
+      const where = event.wallet ? ` in ${event.wallet}` : "";
+      warnings.push(
+        `transactions[${event.index}] (${event.asset}): ${formatLotAmount(remaining)} exceeds the open lots${where}; ` +
+        "add the missing acquisitions or transfers"
+      );
+    }
+    return { pieces, unmatched: remaining };
+  };
+
+  for (const event of ordered) {
+    const base = {
+      index: event.index, type: event.type, txHash: event.txHash, timestamp: new Date(event.timestamp).toISOString(),
+      asset: event.asset, wallet: event.wallet, amount: formatLotAmount(event.amount),
+    };
+
+    if (event.type === "acquisition" || event.type === "income") {
+      const lot: Lot = {
+        lotId: `lot_${event.index}`, seq: seq++, asset: event.asset, wallet: event.wallet, acquiredAt: event.timestamp,
+        amount: event.amount, costUsd: event.valueUsd === null ? null : event.valueUsd + event.feeUsd,
+      };
+      open.push(lot);
+      if (event.type === "income" && event.valueUsd !== null) totals.income += event.valueUsd;
+      results.push({
+        ...base, lotId: lot.lotId, costBasisUsd: usd(lot.costUsd), feeUsd: usd(event.feeUsd),
+        incomeUsd: event.type === "income" ? usd(event.valueUsd) : undefined, priceSource: event.priceSource,
+      });
+      continue;
+    }
+
+    if (event.type === "transfer") {
+      const { pieces, unmatched } = take(event);
+      const moved = pieces.reduce((s, p) => s + p.amount, 0n);
+      for (const piece of pieces) {
+        const feeShare = moved > 0n ? event.feeUsd * share(piece.amount, moved) : 0;
+        open.push({
+          ...piece.lot, wallet: event.toWallet, amount: piece.amount,
+          costUsd: piece.costUsd === null ? null : piece.costUsd + feeShare,
+        });
+      }
+      results.push({
+        ...base, toWallet: event.toWallet, feeUsd: usd(event.feeUsd),
+        lotsMoved: pieces.map((p) => ({ lotId: p.lot.lotId, amount: formatLotAmount(p.amount) })),
+        unmatchedAmount: unmatched > 0n ? formatLotAmount(unmatched) : undefined,
+      });
+      continue;
+    }
+
+    // Disposal
+    const { pieces, unmatched } = take(event);
+    const proceeds = event.valueUsd === null ? null : event.valueUsd - event.feeUsd;
+    const lots: LotMatch[] = pieces.map((piece) => {
+      const holdingDays = Math.max(0, Math.floor((event.timestamp - piece.lot.acquiredAt) / DAY_MS));
+      const pieceProceeds = proceeds === null ? null : proceeds * share(piece.amount, event.amount);
+      const gainLoss = pieceProceeds !== null && piece.costUsd !== null ? pieceProceeds - piece.costUsd : null;
+      return {
+        lotId: piece.lot.lotId, acquiredAt: new Date(piece.lot.acquiredAt).toISOString(), amount: formatLotAmount(piece.amount),
+        costBasisUsd: usd(piece.costUsd), proceedsUsd: usd(pieceProceeds), gainLossUsd: usd(gainLoss),
+        holdingDays, holdingPeriod: isLongTerm(piece.lot.acquiredAt, event.timestamp) ? "long" : "short",
+      };
+    });
+
+    // A disposal is only complete when every unit matched a lot with a known basis
+    const costBasis = unmatched > 0n ? null : sumOrNull(pieces.map((p) => p.costUsd));
+    const gainLoss = proceeds !== null && costBasis !== null ? proceeds - costBasis : null;
+    if (gainLoss !== null) {
+      totals.proceeds += proceeds!;
+      totals.basis += costBasis!;
+      pieces.forEach((piece, i) => {
+        totals[lots[i].holdingPeriod] += proceeds! * share(piece.amount, event.amount) - piece.costUsd!;
+      });
+    }
+    const terms = new Set(lots.map((l) => l.holdingPeriod));
+    results.push({
+      ...base, proceedsUsd: usd(proceeds), feeUsd: usd(event.feeUsd), costBasisUsd: usd(costBasis), gainLossUsd: usd(gainLoss),
+      holdingPeriod: unmatched > 0n || terms.size === 0 ? "unknown" : terms.size > 1 ? "mixed" : [...terms][0],
+      lots, unmatchedAmount: unmatched > 0n ? formatLotAmount(unmatched) : undefined, priceSource: event.priceSource,
+    });
+  }
+
+  const openLots: OpenLot[] = open
+    .sort((a, b) => a.asset.localeCompare(b.asset) || a.acquiredAt - b.acquiredAt || a.seq - b.seq)
+    .map((lot) => {
+      const unit = unitCost(lot);
+      return {
+        lotId: lot.lotId, asset: lot.asset, wallet: lot.wallet, acquiredAt: new Date(lot.acquiredAt).toISOString(),
+        amount: formatLotAmount(lot.amount), costBasisUsd: usd(lot.costUsd), unitCostUsd: unit === null ? null : Math.round(unit * 1e8) / 1e8,
+      };
+    });
+
+  const disposals = results.filter((r) => r.type === "disposal");
+  const realized = disposals.filter((r) => r.gainLossUsd !== null);
+  const summary = {
+    method,
+    disposals: disposals.length,
+    disposalsWithFullData: realized.length,
+    disposalsMissingData: disposals.length - realized.length,
+    proceedsUsd: usd(totals.proceeds),
+    costBasisUsd: usd(totals.basis),
+    totalGainLossUsd: usd(totals.short + totals.long),
+    shortTermGainLoss: usd(totals.short),
+    longTermGainLoss: usd(totals.long),
+    incomeUsd: usd(totals.income),
+    openLots: openLots.length,
+  };
+
+  return { events: results, openLots, summary, warnings };
+}
@@ -0,0 +1,198 @@
+/**
+ * 💧 Spraay x402 Gateway — L402 Challenges and Verification
+ * src/lightning/l402.ts
+ *
+ * L402 pays for an API call with a Lightning invoice. A 402 carries
+ *
+ *   WWW-Authenticate: L402 macaroon="<base64>", invoice="<bolt11>"
+ *
+ * and the client retries, once the invoice is paid, with
+ *
+ *   Authorization: L402 <macaroon>:<preimage hex>
+ *
+ * The macaroon's identifier holds the invoice's payment hash, so the
+ * preimage proves payment without asking the node. Its caveats bind it:
+ *
+ *   endpoint=POST /api/v1/batch/execute   the call it pays for
+ *   valid_until=<unix seconds>            L402_TOKEN_TTL_SECONDS after issue
+ *   max_uses=<n>                          calls it pays for (L402_MAX_USES)
+ *
+ * Each token is recorded in l402TokenDb, which counts its uses, until it
+ * passes valid_until and is purged (src/services/payment-challenges.ts).
+ *
+ * Env:
+ *   L402_ENABLED        "true" to offer the rail
+ *   L402_ROOT_KEY       hex root key the macaroons are signed with (32 bytes)
+ *   LIGHTNING_BACKEND   see src/lightning/lightningAdapter.ts
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { LightningAdapter, lightningAdapterFromEnv } from "./lightningAdapter.js";
+import {
+  MacaroonError, decodeL402Identifier, decodeMacaroon, encodeMacaroon, l402Identifier, mintMacaroon, parseCaveats, signatureValid,
+} from "./macaroon.js";
+import { btcUsdRate, satsToUsd, usdToSats } from "./satPricing.js";
+import { l402TokenDb } from "../db.js";
+
+export interface L402Config {
+  rootKey: Buffer;
+  adapter: LightningAdapter;
+  /** USD per BTC */
+  btcUsd: () => Promise<number>;
+  maxUses: number;
+  tokenTtlSeconds: number;
+  invoiceExpirySeconds: number;
+  location: string;
+}
+
+export interface L402Challenge {
+  macaroon: string;
+  invoice: string;
+  paymentHash: string;
+  amountSats: number;
+  priceUsd: string;
+  /** What the sats cost at the rate they were priced at — at least priceUsd */
+  amountUsd: string;
+  /** When the invoice stops being payable */
+  invoiceExpiresAt: string;
+  /** When the macaroon stops being accepted */
+  validUntil: string;
+  maxUses: number;
+}
+
+/** Caveat conditions this gateway understands; any other fails verification. */
+const KNOWN_CONDITIONS = new Set(["endpoint", "valid_until", "max_uses"]);
+
+let warned = false;
+
+/** The config L402_* env selects, or null when the rail is off or not set up. */
+export function l402ConfigFromEnv(env: NodeJS.ProcessEnv = process.env): L402Config | null {
+  if (env.L402_ENABLED !== "true") return null;
+  const rootKey = /^[0-9a-fA-F]{64}$/.test(env.L402_ROOT_KEY || "") ? Buffer.from(env.L402_ROOT_KEY!, "hex") : null;
+  const adapter = lightningAdapterFromEnv(env);
+  if (!rootKey || !adapter) {
+    if (!warned) {
+      console.warn(`⚠️  L402: ${!rootKey ? "L402_ROOT_KEY (32-byte hex) not set" : "no Lightning backend configured"} — L402 payments disabled`);
+      warned = true;
+    }
+    return null;
+  }
+  return {
+    rootKey,
+    adapter,
+    btcUsd: btcUsdRate,
+    maxUses: Math.max(1, parseInt(env.L402_MAX_USES || "1", 10)),
+    tokenTtlSeconds: parseInt(env.L402_TOKEN_TTL_SECONDS || "3600", 10),
+    invoiceExpirySeconds: parseInt(env.L402_INVOICE_EXPIRY_SECONDS || "600", 10),
+    location: env.L402_LOCATION || "gateway.spraay.app",
+  };
+}
+
+/** Create an invoice for one call to `method path` and the macaroon it unlocks. */
+export async function issueL402Challenge(
+  config: L402Config,
+  request: { method: string; path: string; priceUsd: string },
+  now: Date = new Date()
+): Promise<L402Challenge> {
+  const btcUsd = await config.btcUsd();
+  const amountSats = usdToSats(parseFloat(request.priceUsd), btcUsd);
+  const invoice = await config.adapter.createInvoice({
+    amountSats,
+    memo: `Spraay gateway: ${request.method} ${request.path}`,
+    expirySeconds: config.invoiceExpirySeconds,
+  });
+
+  const tokenId = randomBytes(32);
+  const validUntil = new Date(now.getTime() + config.tokenTtlSeconds * 1000);
+  const macaroon = mintMacaroon(config.rootKey, config.location, l402Identifier(Buffer.from(invoice.paymentHash, "hex"), tokenId), [
+    `endpoint=${request.method} ${request.path}`,
+    `valid_until=${Math.floor(validUntil.getTime() / 1000)}`,
+    `max_uses=${config.maxUses}`,
+  ]);
+
+  await l402TokenDb.create({
+    paymentHash: invoice.paymentHash, tokenId: tokenId.toString("hex"), method: request.method, path: request.path,
+    amountSats, priceUsd: request.priceUsd, maxUses: config.maxUses,
+    expiresAt: validUntil.toISOString(), createdAt: now.toISOString(),
+  });
+
+  return {
+    macaroon: encodeMacaroon(macaroon),
+    invoice: invoice.paymentRequest,
+    paymentHash: invoice.paymentHash,
+    amountSats,
+    priceUsd: request.priceUsd,
+    amountUsd: satsToUsd(amountSats, btcUsd),
+    invoiceExpiresAt: invoice.expiresAt,
+    validUntil: validUntil.toISOString(),
+    maxUses: config.maxUses,
+  };
+}
+
+/** Remove tokens past their valid_until; returns how many went. */
+export async function purgeExpiredL402Tokens(now: Date = new Date()): Promise<number> {
+  return l402TokenDb.purgeExpired(now.toISOString());
+}
+
+/** WWW-Authenticate value for a challenge. */
+export function wwwAuthenticate(challenge: L402Challenge): string {
+  return `L402 macaroon="${challenge.macaroon}", invoice="${challenge.invoice}"`;
+}
+
+/** Split `L402 <macaroon>:<preimage>`; null when the header isn't one. */
+export function parseL402Authorization(header: unknown): { macaroon: string; preimage: string } | null {
+  if (typeof header !== "string") return null;
+  const match = /^L402\s+([^:\s]+):([0-9a-fA-F]+)\s*$/.exec(header);
+  return match ? { macaroon: match[1], preimage: match[2].toLowerCase() } : null;
+}
+
+/**
+ * Check an L402 credential for `method path` and count the call against
+ * its token. Returns the token's payment hash, or why it was refused.
+ */
+export async function redeemL402(
+  config: L402Config,
+  header: unknown,
+  request: { method: string; path: string },
+  now: Date = new Date()
+): Promise<{ paymentHash: string | null; amountSats: number | null; error: string | null }> {
+  const refuse = (error: string) => ({ paymentHash: null, amountSats: null, error });
+
+  const credential = parseL402Authorization(header);
+  if (!credential) return refuse("Authorization must be `L402 <macaroon>:<preimage>`");
+
+  let paymentHash: string;
+  let caveats: { condition: string; value: string }[];
+  try {
+    const macaroon = decodeMacaroon(credential.macaroon);
+    if (!signatureValid(config.rootKey, macaroon)) return refuse("Macaroon signature is invalid");
+    paymentHash = decodeL402Identifier(macaroon.identifier).paymentHash.toString("hex");
+    caveats = parseCaveats(macaroon.caveats);
+  } catch (err) {
+    if (err instanceof MacaroonError) return refuse(err.message);
+    throw err;
+  }
+
+  if (credential.preimage.length !== 64 || createHash("sha256").update(Buffer.from(credential.preimage, "hex")).digest("hex") !== paymentHash) {
+    return refuse("Preimage does not match the macaroon's invoice");
+  }
+
+  // Every caveat must hold — a client may add more, never fewer
+  let maxUses = Infinity;
+  for (const { condition, value } of caveats) {
+    if (!KNOWN_CONDITIONS.has(condition)) return refuse(`Unknown caveat: ${condition}`);
+    if (condition === "endpoint" && value !== `${request.method} ${request.path}`) {
+      return refuse(`Macaroon was issued for ${value}`);
+    }
+    if (condition === "valid_until" && !(Number(value) * 1000 > now.getTime())) return refuse("Macaroon has expired");
+    if (condition === "max_uses") maxUses = Math.min(maxUses, Number(value) || 0);
+  }
+
+  const token = await l402TokenDb.get(paymentHash);
+  if (!token) return refuse("Unknown L402 token");
+  maxUses = Math.min(maxUses, token.maxUses);
+  if (!(await l402TokenDb.use(paymentHash, maxUses))) {
+    return refuse(`L402 token has already paid for ${maxUses} call${maxUses === 1 ? "" : "s"}`);
+  }
+  return { paymentHash, amountSats: token.amountSats, error: null };
+}
@@ -0,0 +1,104 @@
+/**
+ * 💧 Spraay x402 Gateway — Lightning Node Adapters
+ * src/lightning/lightningAdapter.ts
+ *
+ * The L402 rail only needs a node to create invoices; the payer proves
+ * payment with the preimage. Backends:
+ *
+ *   LIGHTNING_BACKEND=lnd   LND's REST API — LND_REST_URL and LND_MACAROON
+ *                           (hex, an invoice macaroon is enough)
+ *   LIGHTNING_BACKEND=mock  in-process invoices for local development and
+ *                           tests; `pay()` hands back the preimage
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+export interface LightningInvoice {
+  /** BOLT 11 payment request */
+  paymentRequest: string;
+  /** hex sha256 of the preimage */
+  paymentHash: string;
+  amountSats: number;
+  expiresAt: string;
+}
+
+export interface LightningAdapter {
+  name: string;
+  createInvoice(request: { amountSats: number; memo: string; expirySeconds: number }): Promise<LightningInvoice>;
+}
+
+// ---------------------------------------------------------------------------
+// LND (REST)
+// ---------------------------------------------------------------------------
+
+const LND_TIMEOUT_MS = 8000;
+
+export class LndRestAdapter implements LightningAdapter {
+  readonly name = "lnd";
+
+  constructor(private readonly config: { url: string; macaroonHex: string }) {}
+
+  async createInvoice(request: { amountSats: number; memo: string; expirySeconds: number }): Promise<LightningInvoice> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), LND_TIMEOUT_MS);
+    try {
+      const res = await fetch(`${this.config.url.replace(/\/+$/, "")}/v1/invoices`, {
+        method: "POST",
+        headers: { "Grpc-Metadata-macaroon": this.config.macaroonHex, "Content-Type": "application/json" },
+        body: JSON.stringify({ value: String(request.amountSats), memo: request.memo, expiry: String(request.expirySeconds) }),
+        signal: controller.signal,
+      });
+      if (!res.ok) throw new Error(`LND HTTP ${res.status}: ${(await res.text()).slice(0, 200)}`);
+      const json: any = await res.json();
+      if (!json?.payment_request || !json?.r_hash) throw new Error("LND returned no invoice");
+      return {
+        paymentRequest: json.payment_request,
+        paymentHash: Buffer.from(json.r_hash, "base64").toString("hex"),
+        amountSats: request.amountSats,
+        expiresAt: new Date(Date.now() + request.expirySeconds * 1000).toISOString(),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Mock
+// ---------------------------------------------------------------------------
+
+export class MockLightningAdapter implements LightningAdapter {
+  readonly name = "mock";
+  private readonly preimages = new Map<string, string>();
+
+  async createInvoice(request: { amountSats: number; memo: string; expirySeconds: number }): Promise<LightningInvoice> {
+    const preimage = randomBytes(32);
+    const paymentHash = createHash("sha256").update(preimage).digest("hex");
+    // Not a valid BOLT 11 string — the mock's invoices are paid with pay()
+    const paymentRequest = `lnmock${request.amountSats}n1${paymentHash}`;
+    this.preimages.set(paymentRequest, preimage.toString("hex"));
+    return {
+      paymentRequest,
+      paymentHash,
+      amountSats: request.amountSats,
+      expiresAt: new Date(Date.now() + request.expirySeconds * 1000).toISOString(),
+    };
+  }
+
+  /** "Pay" an invoice this adapter issued: returns its hex preimage. */
+  pay(paymentRequest: string): string {
+    const preimage = this.preimages.get(paymentRequest);
+    if (!preimage) throw new Error("Unknown invoice");
+    return preimage;
+  }
+}
+
+/** The adapter LIGHTNING_BACKEND selects, or null when it isn't configured. */
+export function lightningAdapterFromEnv(env: NodeJS.ProcessEnv = process.env): LightningAdapter | null {
+  const backend = env.LIGHTNING_BACKEND || "lnd";
+  if (backend === "mock") return new MockLightningAdapter();
+  if (backend === "lnd" && env.LND_REST_URL && env.LND_MACAROON) {
+    return new LndRestAdapter({ url: env.LND_REST_URL, macaroonHex: env.LND_MACAROON });
+  }
+  return null;
+}
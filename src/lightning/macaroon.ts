@@ -0,0 +1,179 @@
+/**
+ * 💧 Spraay x402 Gateway — L402 Macaroons
+ * src/lightning/macaroon.ts
+ *
+ * Just enough of the macaroon construction for L402: first-party caveats,
+ * the libmacaroons signature chain and the v2 binary format, so tokens
+ * read the same as the ones Aperture and lnget handle.
+ *
+ *   key  = HMAC-SHA256("macaroons-key-generator", rootKey)
+ *   sig0 = HMAC-SHA256(key, identifier)
+ *   sigN = HMAC-SHA256(sigN-1, caveatN)
+ *
+ * The identifier follows Aperture: uint16 version (0) ‖ payment hash (32
+ * bytes) ‖ token id (32 bytes), so the macaroon names the invoice whose
+ * preimage unlocks it. Caveats are "condition=value" strings; whoever holds
+ * a macaroon can add caveats (narrowing it) but never remove them.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export class MacaroonError extends Error {}
+
+export interface Macaroon {
+  location: string;
+  identifier: Buffer;
+  caveats: string[];
+  signature: Buffer;
+}
+
+const KEY_GENERATOR = "macaroons-key-generator";
+const IDENTIFIER_VERSION = 0;
+
+// v2 binary field types
+const FIELD_EOS = 0;
+const FIELD_LOCATION = 1;
+const FIELD_IDENTIFIER = 2;
+const FIELD_VID = 4;
+const FIELD_SIGNATURE = 6;
+
+const hmac = (key: Buffer, data: Buffer | string) => createHmac("sha256", key).update(data).digest();
+
+function chain(rootKey: Buffer, identifier: Buffer, caveats: string[]): Buffer {
+  let signature = hmac(hmac(Buffer.from(KEY_GENERATOR), rootKey), identifier);
+  for (const caveat of caveats) signature = hmac(signature, caveat);
+  return signature;
+}
+
+/** The identifier an L402 macaroon carries for one invoice. */
+export function l402Identifier(paymentHash: Buffer, tokenId: Buffer): Buffer {
+  if (paymentHash.length !== 32 || tokenId.length !== 32) throw new MacaroonError("payment hash and token id must be 32 bytes");
+  const version = Buffer.alloc(2);
+  version.writeUInt16BE(IDENTIFIER_VERSION);
+  return Buffer.concat([version, paymentHash, tokenId]);
+}
+
+export function decodeL402Identifier(identifier: Buffer): { paymentHash: Buffer; tokenId: Buffer } {
+  if (identifier.length !== 66 || identifier.readUInt16BE(0) !== IDENTIFIER_VERSION) {
+    throw new MacaroonError("Unrecognised macaroon identifier");
+  }
+  return { paymentHash: identifier.subarray(2, 34), tokenId: identifier.subarray(34, 66) };
+}
+
+export function mintMacaroon(rootKey: Buffer, location: string, identifier: Buffer, caveats: string[] = []): Macaroon {
+  return { location, identifier, caveats: [...caveats], signature: chain(rootKey, identifier, caveats) };
+}
+
+/** Add a caveat — anyone holding the macaroon can, no root key needed. */
+export function addCaveat(macaroon: Macaroon, caveat: string): Macaroon {
+  return { ...macaroon, caveats: [...macaroon.caveats, caveat], signature: hmac(macaroon.signature, caveat) };
+}
+
+export function signatureValid(rootKey: Buffer, macaroon: Macaroon): boolean {
+  const expected = chain(rootKey, macaroon.identifier, macaroon.caveats);
+  return expected.length === macaroon.signature.length && timingSafeEqual(expected, macaroon.signature);
+}
+
+/** Split "condition=value" caveats; a caveat without "=" is kept whole as its condition. */
+export function parseCaveats(caveats: string[]): { condition: string; value: string }[] {
+  return caveats.map((caveat) => {
+    const at = caveat.indexOf("=");
+    return at < 0 ? { condition: caveat.trim(), value: "" } : { condition: caveat.slice(0, at).trim(), value: caveat.slice(at + 1).trim() };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// v2 binary encoding
+// ---------------------------------------------------------------------------
+
+function varint(n: number): Buffer {
+  const bytes: number[] = [];
+  while (n >= 0x80) {
+    bytes.push((n & 0x7f) | 0x80);
+    n >>>= 7;
+  }
+  bytes.push(n);
+  return Buffer.from(bytes);
+}
+
+function field(type: number, data: Buffer): Buffer {
+  return Buffer.concat([varint(type), varint(data.length), data]);
+}
+
+export function encodeMacaroon(macaroon: Macaroon): string {
+  const eos = Buffer.from([FIELD_EOS]);
+  const parts: Buffer[] = [Buffer.from([2])];
+  if (macaroon.location) parts.push(field(FIELD_LOCATION, Buffer.from(macaroon.location)));
+  parts.push(field(FIELD_IDENTIFIER, macaroon.identifier), eos);
+  for (const caveat of macaroon.caveats) parts.push(field(FIELD_IDENTIFIER, Buffer.from(caveat)), eos);
+  parts.push(eos, field(FIELD_SIGNATURE, macaroon.signature));
+  return Buffer.concat(parts).toString("base64");
+}
+
+class Reader {
+  private at = 0;
+  constructor(private readonly buf: Buffer) {}
+
+  varint(): number {
+    let n = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      if (this.at >= this.buf.length) throw new MacaroonError("Truncated macaroon");
+      const byte = this.buf[this.at++];
+      n += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) return n;
+    }
+    throw new MacaroonError("Malformed macaroon");
+  }
+
+  /** The next field, or null at an end-of-section marker. */
+  field(): { type: number; data: Buffer } | null {
+    const type = this.varint();
+    if (type === FIELD_EOS) return null;
+    const length = this.varint();
+    if (this.at + length > this.buf.length) throw new MacaroonError("Truncated macaroon");
+    const data = this.buf.subarray(this.at, this.at + length);
+    this.at += length;
+    return { type, data };
+  }
+
+  get done(): boolean {
+    return this.at >= this.buf.length;
+  }
+}
+
+/** Decode a base64 (standard or URL-safe) v2 macaroon. */
+export function decodeMacaroon(encoded: string): Macaroon {
+  const buf = Buffer.from(encoded.trim(), "base64");
+  if (buf.length === 0 || buf[0] !== 2) throw new MacaroonError("Only v2 macaroons are supported");
+  const reader = new Reader(buf.subarray(1));
+
+  let location = "";
+  let identifier: Buffer | null = null;
+  for (let f = reader.field(); f; f = reader.field()) {
+    if (f.type === FIELD_LOCATION) location = f.data.toString("utf-8");
+    else if (f.type === FIELD_IDENTIFIER) identifier = Buffer.from(f.data);
+    else throw new MacaroonError(`Unexpected macaroon field ${f.type}`);
+  }
+  if (!identifier) throw new MacaroonError("Macaroon has no identifier");
+
+  const caveats: string[] = [];
+  for (;;) {
+    const first = reader.field();
+    if (!first) break;
+    let caveat: string | null = null;
+    for (let f: typeof first | null = first; f; f = reader.field()) {
+      if (f.type === FIELD_VID) throw new MacaroonError("Third-party caveats are not supported");
+      if (f.type === FIELD_IDENTIFIER) caveat = f.data.toString("utf-8");
+      else if (f.type !== FIELD_LOCATION) throw new MacaroonError(`Unexpected caveat field ${f.type}`);
+    }
+    if (caveat === null) throw new MacaroonError("Caveat has no identifier");
+    caveats.push(caveat);
+  }
+
+  const signature = reader.field();
+  if (!signature || signature.type !== FIELD_SIGNATURE || signature.data.length !== 32) {
+    throw new MacaroonError("Macaroon has no signature");
+  }
+  if (!reader.done) throw new MacaroonError("Trailing data after macaroon");
+  return { location, identifier, caveats, signature: Buffer.from(signature.data) };
+}
@@ -0,0 +1,51 @@
+/**
+ * 💧 Spraay x402 Gateway — USD → sats
+ * src/lightning/satPricing.ts
+ *
+ * L402 prices are the ENDPOINT_PRICES USD prices converted at the current
+ * BTC/USD rate, rounded up to a whole sat. L402_BTC_USD pins the rate;
+ * otherwise CoinGecko's is used, cached for a minute.
+ */
+
+const COINGECKO_API_KEY = process.env.COINGECKO_API_KEY || "";
+const COINGECKO_URL = "https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd";
+const COINGECKO_TIMEOUT_MS = 8000;
+const RATE_CACHE_MS = 60_000;
+
+export const SATS_PER_BTC = 100_000_000;
+
+/** Sats for `priceUsd` at `btcUsd` — at least 1. */
+export function usdToSats(priceUsd: number, btcUsd: number): number {
+  if (!(btcUsd > 0)) throw new Error("BTC/USD rate must be positive");
+  return Math.max(1, Math.ceil((priceUsd * SATS_PER_BTC) / btcUsd - 1e-9));
+}
+
+/** USD value of `sats` at `btcUsd`, to the micro-dollar. */
+export function satsToUsd(sats: number, btcUsd: number): string {
+  return String(Number(((sats * btcUsd) / SATS_PER_BTC).toFixed(6)));
+}
+
+let cached: { rate: number; at: number } | null = null;
+
+/** USD per BTC. */
+export async function btcUsdRate(now: number = Date.now()): Promise<number> {
+  const pinned = Number(process.env.L402_BTC_USD);
+  if (pinned > 0) return pinned;
+  if (cached && now - cached.at < RATE_CACHE_MS) return cached.rate;
+
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (COINGECKO_API_KEY) headers["x-cg-demo-api-key"] = COINGECKO_API_KEY;
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), COINGECKO_TIMEOUT_MS);
+  try {
+    const res = await fetch(COINGECKO_URL, { headers, signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const json: any = await res.json();
+    const rate = json?.bitcoin?.usd;
+    if (typeof rate !== "number" || !(rate > 0)) throw new Error("no BTC/USD price in response");
+    cached = { rate, at: now };
+    return rate;
+  } finally {
+    clearTimeout(timer);
+  }
+}
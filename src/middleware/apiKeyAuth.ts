@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from "express";
 import crypto from "crypto";
-import { supabase } from "../db.js";
+import { storage, eq } from "../storage/index.js";
 
 /**
  * Hash an API key for safe storage/lookup.
@@ -36,13 +36,9 @@ export async function apiKeyAuthMiddleware(req: Request, res: Response, next: Ne
   try {
     const keyHash = hashApiKey(apiKey);
 
-    const { data: row, error } = await supabase
-      .from("api_keys")
-      .select("*")
-      .eq("api_key_hash", keyHash)
-      .single();
+    const row = await storage.findOne("api_keys", [eq("api_key_hash", keyHash)]);
 
-    if (error || !row) {
+    if (!row) {
       return res.status(401).json({
         error: "invalid_api_key",
         message: "The API key provided is not valid. Check your key or sign up at spraay.app/pricing.",
@@ -61,10 +57,7 @@ export async function apiKeyAuthMiddleware(req: Request, res: Response, next: Ne
     // Reset daily counter if it's a new day (lazy reset — no cron needed)
     const today = new Date().toISOString().slice(0, 10);
     if (row.last_reset !== today) {
-      await supabase
-        .from("api_keys")
-        .update({ daily_calls: 0, last_reset: today })
-        .eq("id", row.id);
+      await storage.update("api_keys", [eq("id", row.id)], { daily_calls: 0, last_reset: today });
       row.daily_calls = 0;
     }
 
@@ -79,13 +72,11 @@ export async function apiKeyAuthMiddleware(req: Request, res: Response, next: Ne
     }
 
     // Increment counter
-    await supabase
-      .from("api_keys")
-      .update({ daily_calls: row.daily_calls + 1 })
-      .eq("id", row.id);
+    await storage.update("api_keys", [eq("id", row.id)], { daily_calls: row.daily_calls + 1 });
 
     // Mark request as API-key authenticated
     (req as any).apiKeyAuth = true;
+    (req as any).apiKeyId = row.id;
     (req as any).apiKeyPlan = row.plan;
     (req as any).apiKeyEmail = row.email;
 
@@ -0,0 +1,245 @@
+/**
+ * 💧 Spraay Audit Trail
+ * src/middleware/audit-trail.ts
+ *
+ * Writes an audit entry for every call to a money-moving endpoint, so the
+ * operator's record doesn't depend on agents calling /api/v1/audit/log.
+ * Entries go to the gateway's own hash chain (AUDIT_TRAIL_TENANT, default
+ * "gateway"). It holds every caller's payments, so only the operator
+ * (AUDIT_OPERATOR_KEY) can read it, and nobody writes to it through the API.
+ *
+ * Each entry records:
+ *   - actor          the API key, x402 payer, Solana payer or L402 token behind the call,
+ *                    or the cron job / pay schedule for runs the gateway dispatched itself
+ *   - endpoint       method + path, and the HTTP status
+ *   - amounts        amount fields from the request and totals from the response
+ *   - counterparties recipients, employees, escrow parties, swap recipient, contract…
+ *   - txPayloadHash  sha256 of the unsigned transaction(s) returned, and the
+ *                    tx hash when the gateway broadcast one itself
+ *   - outcome        succeeded (2xx), rejected (4xx) or failed (5xx)
+ *
+ * Only the fields above are copied — private keys, signatures and raw
+ * uploads never reach the log. Unpaid x402/MPP probes (402) are not
+ * recorded: nothing ran. The entry is appended after the response has
+ * gone out and never delays or fails the call.
+ *
+ * INTEGRATION — mount like duplicatePaymentGuard, ahead of it so duplicate
+ * and sanctions rejections are recorded too:
+ *
+ *   app.use("/api/v1/batch", auditTrail());
+ *   app.use("/api/v1/contract/write", auditTrail());
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { canonicalJson } from "../lib/audit-chain.js";
+import { AuditEntryInput, GATEWAY_TENANT, appendAuditEntry } from "../routes/audit.js";
+
+/** Money-moving POST routes and the audit action each records. */
+const AUDITED_ROUTES: Record<string, string> = {
+  "/api/v1/batch/execute": "batch.executed",
+  "/api/v1/payroll/execute": "payroll.executed",
+  "/api/v1/payroll/run": "payroll.executed",
+  "/api/v1/escrow/create": "escrow.created",
+  "/api/v1/escrow/fund": "escrow.funded",
+  "/api/v1/escrow/milestone/approve": "escrow.milestone_approved",
+  "/api/v1/escrow/dispute": "escrow.disputed",
+  "/api/v1/escrow/dispute/resolve": "escrow.dispute_resolved",
+  "/api/v1/escrow/release": "escrow.released",
+  "/api/v1/escrow/cancel": "escrow.cancelled",
+  "/api/v1/swap/execute": "swap.executed",
+  "/api/v1/wallet/send-transaction": "payment.sent",
+  "/api/v1/contract/write": "contract.written",
+  "/api/v1/sctp/pay": "payment.sent",
+};
+
+const MAX_COUNTERPARTIES = 500;
+const LIST_FIELDS = ["recipients", "employees", "payments"];
+const PARTY_FIELDS = ["sender", "from", "employer", "to", "recipient", "depositor", "beneficiary", "arbiter", "supplierId", "walletId"];
+const AMOUNT_FIELDS = ["amount", "amountIn", "value"];
+const ASSET_FIELDS = ["token", "tokenIn", "tokenOut", "currency", "chain"];
+
+type Outcome = "succeeded" | "rejected" | "failed";
+
+interface Counterparty {
+  role: string;
+  address: string;
+  amount?: string;
+}
+
+// Payer in an x402 payment header: base64 JSON whose payload carries the
+// EIP-3009 authorization (v1 `X-PAYMENT`, v2 `PAYMENT-SIGNATURE`).
+function x402Payer(req: Request, res: Response): string | null {
+  const receipt = res.getHeader("payment-response") ?? res.getHeader("x-payment-response");
+  const header = req.headers["payment-signature"] ?? req.headers["x-payment"];
+  for (const raw of [receipt, header]) {
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (typeof value !== "string" || !value) continue;
+    try {
+      const decoded = JSON.parse(Buffer.from(value, "base64").toString("utf-8"));
+      const payer = decoded?.payer ?? decoded?.payload?.authorization?.from;
+      if (typeof payer === "string" && payer) return payer.toLowerCase();
+    } catch {
+      // not base64 JSON — try the next source
+    }
+  }
+  return null;
+}
+
+/** Who is behind the call, and how they paid for it. */
+export function auditActor(req: Request, res: Response): { actor: string; rail: string } {
+  if ((req as any).apiKeyId) return { actor: `apikey:${(req as any).apiKeyId}`, rail: "api_key" };
+  if ((req as any).solanaSender) return { actor: `solana:${(req as any).solanaSender}`, rail: "solana" };
+  if ((req as any).l402PaymentHash) return { actor: `l402:${(req as any).l402PaymentHash}`, rail: "l402" };
+  const payer = x402Payer(req, res);
+  if (payer) return { actor: `x402:${payer}`, rail: "x402" };
+  const auth = req.headers["authorization"];
+  if (req.headers["x-mpp-payment"] || (typeof auth === "string" && /^Payment\s/i.test(auth))) {
+    return { actor: `mpp:${req.ip || "unknown"}`, rail: "mpp" };
+  }
+  return { actor: `ip:${req.ip || "unknown"}`, rail: "none" };
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === "string" && value) return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+function counterparties(body: any): { list: Counterparty[]; total: number } {
+  const list: Counterparty[] = [];
+  for (const role of PARTY_FIELDS) {
+    const address = text(body[role]);
+    if (address) list.push({ role, address });
+  }
+  // contract/write's target contract
+  if (text(body.address) && text(body.method)) list.push({ role: "contract", address: body.address });
+  for (const field of LIST_FIELDS) {
+    if (!Array.isArray(body[field])) continue;
+    body[field].forEach((item: any, i: number) => {
+      const address = typeof item === "string" ? item : text(item?.address) ?? text(item?.to) ?? text(item?.supplierId);
+      if (address) list.push({ role: `${field}[${i}]`, address, amount: text(item?.amount) });
+    });
+  }
+  return { list: list.slice(0, MAX_COUNTERPARTIES), total: list.length };
+}
+
+function pick(source: any, fields: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const field of fields) {
+    const value = text(source?.[field]);
+    if (value) out[field] = value;
+  }
+  return out;
+}
+
+// Request amounts plus the totals batch-style responses report
+function amounts(body: any, response: any): Record<string, string> {
+  return { ...pick(body, AMOUNT_FIELDS), ...pick(response?.summary ?? response, ["totalAmount", "totalWithFee", "protocolFee"]) };
+}
+
+function payloadHash(response: any): string | null {
+  const payload = response?.transactions ?? response?.transaction ?? null;
+  return payload ? createHash("sha256").update(canonicalJson(payload)).digest("hex") : null;
+}
+
+function routeEntry(
+  route: string,
+  rawBody: unknown,
+  status: number,
+  responseBody: unknown,
+  who: { actor: string; rail: string },
+  tenant: string
+): AuditEntryInput {
+  const body: any = rawBody && typeof rawBody === "object" && !Buffer.isBuffer(rawBody) ? rawBody : {};
+  const response = responseBody && typeof responseBody === "object" ? (responseBody as any) : {};
+  const outcome: Outcome = status < 400 ? "succeeded" : status < 500 ? "rejected" : "failed";
+  const parties = counterparties(body);
+  const txHash = text(response.tx_hash) ?? text(response.txHash) ?? text(body.txHash) ?? null;
+
+  return {
+    tenant, action: AUDITED_ROUTES[route], actor: who.actor,
+    resource: text(response.batchId) ?? text(response.escrowId) ?? text(body.escrowId) ?? text(response.id) ?? route,
+    txHash,
+    details: {
+      source: "gateway",
+      endpoint: `POST ${route}`,
+      status,
+      outcome,
+      paymentRail: who.rail,
+      amounts: amounts(body, response),
+      asset: pick(body, ASSET_FIELDS),
+      counterparties: parties.list,
+      counterpartyCount: parties.total,
+      txPayloadHash: payloadHash(response),
+      error: outcome === "succeeded" ? undefined : text(response.error) ?? null,
+      upload: typeof rawBody === "string" || Buffer.isBuffer(rawBody) ? true : undefined,
+    },
+  };
+}
+
+/** The audit entry for one finished call, or null when it shouldn't be recorded. */
+export function buildAuditEntry(req: Request, res: Response, responseBody: unknown, tenant: string = GATEWAY_TENANT): AuditEntryInput | null {
+  const route = req.originalUrl.split("?")[0].replace(/\/+$/, "");
+  if (!AUDITED_ROUTES[route] || req.method !== "POST" || res.statusCode === 402) return null;
+  return routeEntry(route, req.body, res.statusCode, responseBody, auditActor(req, res), tenant);
+}
+
+/**
+ * Record a call the gateway made to an audited handler itself — cron jobs
+ * and scheduled payroll runs dispatch in-process, so auditTrail() never
+ * sees them. `actor` names what dispatched it (e.g. "cron:<jobId>").
+ * Like the middleware, this never throws; a failed append is logged.
+ */
+export function auditDispatch(
+  route: string,
+  body: unknown,
+  result: { status: number; body: unknown },
+  actor: string,
+  options: { tenant?: string; append?: (entry: AuditEntryInput) => Promise<unknown> } = {}
+): Promise<void> {
+  if (!AUDITED_ROUTES[route]) return Promise.resolve();
+  const append = options.append ?? appendAuditEntry;
+  let entry: AuditEntryInput;
+  try {
+    entry = routeEntry(route, body, result.status, result.body, { actor, rail: "scheduled" }, options.tenant ?? GATEWAY_TENANT);
+  } catch (err) {
+    console.error(`[audit] Could not build audit entry for ${actor} → ${route}:`, err);
+    return Promise.resolve();
+  }
+  return append(entry).then(() => undefined, (err) => {
+    console.error(`[audit] Failed to record ${entry.action} for ${actor}:`, err?.message || err);
+  });
+}
+
+export function auditTrail(options: { tenant?: string; append?: (entry: AuditEntryInput) => Promise<unknown> } = {}) {
+  const tenant = options.tenant ?? GATEWAY_TENANT;
+  const append = options.append ?? appendAuditEntry;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.method !== "POST") return next();
+
+    let responseBody: unknown = null;
+    const originalJson = res.json.bind(res);
+    res.json = function (body: any) {
+      responseBody = body;
+      return originalJson(body);
+    } as any;
+
+    res.on("finish", () => {
+      let entry: AuditEntryInput | null;
+      try {
+        entry = buildAuditEntry(req, res, responseBody, tenant);
+      } catch (err) {
+        console.error(`[audit] Could not build audit entry for ${req.originalUrl}:`, err);
+        return;
+      }
+      if (!entry) return;
+      append(entry).catch((err) => {
+        console.error(`[audit] Failed to record ${entry!.action} for ${entry!.actor}:`, err?.message || err);
+      });
+    });
+
+    next();
+  };
+}
@@ -124,6 +124,8 @@ function inferScanner(userAgent: string | undefined): string | null {
 function extractChain(req: Request): string | null {
   // 1. Strongest signal: explicit header / body / query
   if (req.headers["x-solana-tx"]) return "solana";
+  const auth = req.headers["authorization"];
+  if (typeof auth === "string" && /^L402\s/i.test(auth)) return "lightning";
   const body = req.body as Record<string, unknown> | undefined;
   const query = req.query as Record<string, unknown>;
   const explicit = (body?.chain || body?.network || query?.chain || query?.network) as string | undefined;
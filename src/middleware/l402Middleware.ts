@@ -0,0 +1,124 @@
+/**
+ * 💧 Spraay x402 Gateway — L402 (Lightning) Payment Middleware
+ * src/middleware/l402Middleware.ts
+ *
+ * Handles `Authorization: L402 <macaroon>:<preimage>` (protocolDetector
+ * tags it "l402"): the credential is checked and counted
+ * (src/lightning/l402.ts); on success the request skips the x402 gate like
+ * a Solana payment, and on failure it gets a 402 with the reason. As with
+ * Solana, a call that fails (status >= 400) gives its use back.
+ *
+ * PLACEMENT: after protocolDetectorMiddleware and solanaPaymentMiddleware,
+ * before mppMiddleware and paymentMiddleware.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { L402Config, l402ConfigFromEnv, redeemL402 } from "../lightning/l402.js";
+import { getEndpointPrice } from "../config/pricing.js";
+import { l402TokenDb } from "../db.js";
+import { supabase } from "./supabase.js";
+
+// Resolved on first use, so env is read after dotenv has run
+let envConfig: L402Config | null | undefined;
+
+export function createL402Middleware(options: { config?: L402Config | null } = {}) {
+  const config = () => (options.config !== undefined ? options.config : (envConfig ??= l402ConfigFromEnv()));
+
+  return function l402Middleware(req: Request, res: Response, next: NextFunction): void {
+    // Gate: only requests carrying an L402 credential
+    if (req.paymentProtocol !== "l402") {
+      next();
+      return;
+    }
+
+    const l402 = config();
+    if (!l402) {
+      next();
+      return;
+    }
+
+    const endpointPrice = getEndpointPrice(req.method, req.path);
+    if (!endpointPrice) {
+      next();
+      return;
+    }
+
+    const reject = (detail: string) => {
+      console.warn(`[l402] ❌ ${req.method} ${req.path}: ${detail}`);
+      res.status(402).json({ error: "L402 payment verification failed", detail, protocol: "l402" });
+    };
+
+    const verify = async () => {
+      const { paymentHash, amountSats, error } = await redeemL402(l402, req.headers["authorization"], { method: req.method, path: req.path });
+      if (!paymentHash) return reject(error!);
+
+      // A failed call doesn't consume the payment
+      res.on("finish", () => {
+        if (res.statusCode < 400) return;
+        l402TokenDb.release(paymentHash)
+          .catch((err) => console.error("[l402] Could not release token use:", err?.message || err));
+      });
+
+      // ✅ Lightning payment confirmed
+      (req as any).l402Paid = true;
+      (req as any).l402PaymentHash = paymentHash;
+      (req as any).l402AmountSats = amountSats;
+
+      console.log(`[l402] ✅ Verified ${amountSats} sats (hash ${paymentHash.slice(0, 16)}…) for ${req.method} ${req.path}`);
+
+      // Log to Supabase (fire-and-forget, matches gateway-events.ts pattern)
+      if (supabase) {
+        supabase
+          .from("gateway_events")
+          .insert({
+            event_type: "payment" as const,
+            path: req.path,
+            method: req.method,
+            http_status: 200,
+            category: endpointPrice.category,
+            chain: "lightning",
+            endpoint_name: inferEndpointName(req.path),
+            payer_address: null,
+            tx_hash: paymentHash,
+            source_ip: extractSourceIp(req),
+            payment_attempted: true,
+          })
+          .then(({ error }) => {
+            if (error) console.error("[l402] Supabase log error:", error.message);
+          });
+      }
+
+      next();
+    };
+
+    verify().catch((err) => {
+      console.error("[l402] Middleware error:", err?.message || err);
+      res.status(500).json({ error: "L402 payment processing failed", protocol: "l402" });
+    });
+  };
+}
+
+export const l402Middleware = createL402Middleware();
+
+// ----- helpers ----------------------------------------------------------- //
+
+function extractSourceIp(req: Request): string | null {
+  const fwd = req.headers["x-forwarded-for"];
+  if (typeof fwd === "string" && fwd.length > 0) {
+    return fwd.split(",")[0].trim();
+  }
+  if (Array.isArray(fwd) && fwd.length > 0) {
+    return fwd[0].split(",")[0].trim();
+  }
+  const realIp = req.headers["x-real-ip"];
+  if (typeof realIp === "string" && realIp.length > 0) {
+    return realIp;
+  }
+  return req.ip || null;
+}
+
+function inferEndpointName(path: string): string {
+  const parts = path.split("/").filter(Boolean);
+  const last = parts[parts.length - 1] || path;
+  return last.replace(/-/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
@@ -156,6 +156,7 @@ const DEFAULT_DUPLICATE_CONFIG: DuplicateGuardConfig = {
     "recipients", "amounts", "token", "chain", "sender",
     "recipient", "amount",  // single-payment variants
     "to", "value",          // escrow variants
+    "csv", "xlsx",          // spreadsheet imports (see recipient-import.ts)
   ],
 };
 
@@ -204,9 +205,19 @@ function getPayerKey(req: Request): string {
 // Build the dedupe key: payer + (explicit idempotency_key | payment payload).
 // Returns "" when there is nothing payment-relevant to dedupe on.
 function buildDedupeKey(req: Request, fields: string[]): string {
-  const body = (req.body ?? {}) as Record<string, unknown>;
   const payer = getPayerKey(req);
 
+  // Raw CSV/XLSX uploads carry the whole payout list in the body and their
+  // options in the query string — hash both.
+  if (typeof req.body === "string" || Buffer.isBuffer(req.body)) {
+    return crypto.createHash("sha256")
+      .update(`${payer}|${JSON.stringify(req.query)}|`)
+      .update(req.body)
+      .digest("hex");
+  }
+
+  const body = (req.body ?? {}) as Record<string, unknown>;
+
   // An explicit idempotency_key is the caller's own dedupe token — honor it
   // verbatim instead of hashing the payload. Same payer + same key = duplicate;
   // a different key is always treated as a distinct request.
@@ -17,9 +17,10 @@
  *   - OR: we let x402 handle "none" (since it's the existing default)
  *     and MPP only activates when it sees "Authorization: Payment"
  * 
- * For Phase 1, we take the simpler approach: MPP middleware ONLY handles
- * requests that arrive with MPP credentials. Requests with no credentials
- * continue to x402 (existing behavior preserved exactly).
+ * MPP middleware ONLY handles requests that arrive with MPP credentials.
+ * Requests with no credentials continue to x402, whose 402 then gets an
+ * MPP challenge (mppChallenge) alongside every other rail from
+ * multiProtocol402Middleware.
  * 
  * Install: npm install mppx stripe
  * 
@@ -222,6 +223,24 @@ async function handleMppPayment(
   next();
 }
 
+// ─── Challenge for the multi-protocol 402 ─────────────────────────────
+
+/**
+ * An MPP (Tempo) challenge for one call at `priceUSD`, for a request that
+ * arrived without credentials. Null when MPP is off or unavailable.
+ */
+export async function mppChallenge(
+  priceUSD: string
+): Promise<{ wwwAuthenticate: string; challenge: { id: string; expires?: string; request: Record<string, unknown> } } | null> {
+  if (!MPP_ENABLED) return null;
+  const mppx = await getMppx();
+  if (!mppx) return null;
+
+  const challenge = await mppx.challenge.tempo.charge({ amount: priceUSD });
+  const { Challenge } = await import("mppx");
+  return { wwwAuthenticate: Challenge.serialize(challenge), challenge };
+}
+
 // ─── Initialization (call on startup to pre-warm) ─────────────────────
 export async function initMpp(): Promise<void> {
   if (!MPP_ENABLED) {
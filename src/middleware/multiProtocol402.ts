@@ -0,0 +1,369 @@
+/**
+ * 💧 Spraay x402 Gateway — Multi-Protocol 402
+ * src/middleware/multiProtocol402.ts
+ *
+ * Every 402 on a priced route lists each rail the gateway accepts, in one
+ * shape, priced from ENDPOINT_PRICES:
+ *
+ *   payment_options: [
+ *     { rail: "x402",   network: "eip155:8453", asset: {...}, amount, amountUsd, recipient, expiresAt, ... },
+ *     { rail: "solana", ... },   SOLANA_PAYMENTS_ENABLED
+ *     { rail: "mpp",    ... },   MPP_ENABLED (Tempo pathUSD)
+ *     { rail: "l402",   ... },   L402_ENABLED (Lightning)
+ *   ]
+ *
+ * `amount` is in the asset's smallest unit; `amountUsd` is what the option
+ * costs in dollars, and the list is sorted by it, cheapest first, so an
+ * agent can take the first rail it supports. `expiresAt` is when the quote
+ * stops being payable (null when it doesn't lapse).
+ *
+ * Rails that need state to be paid — a Lightning invoice and its L402
+ * token, a Solana payment reference — are only advertised (amount and
+ * recipient null for L402) until the client picks one: it retries with
+ * `X-Payment-Rail: l402` or `solana`, or with a credential for that rail
+ * that failed, and that 402 carries the rail's challenge. Probes and
+ * crawlers never create invoices, rate lookups or rows.
+ *
+ * The challenges the rails' own clients look for are kept alongside:
+ * x402's PAYMENT-REQUIRED header is untouched, MPP and L402 challenges go
+ * in WWW-Authenticate, and the Solana option is repeated as
+ * `solana_accepts` for clients that read it from before.
+ *
+ * PLACEMENT: after enrich402Middleware, before every payment middleware —
+ * the 402 may come from x402, or from a Solana or L402 credential that
+ * failed verification.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { getEndpointPrice } from "../config/pricing.js";
+import { SolanaBindingMode, bindingMode, issueChallenge } from "../solana/paymentBinding.js";
+import { L402Config, issueL402Challenge, l402ConfigFromEnv, wwwAuthenticate } from "../lightning/l402.js";
+import { mppChallenge } from "./mppMiddleware.js";
+
+export type PaymentRailName = "x402" | "solana" | "mpp" | "l402";
+
+export interface PaymentOption {
+  rail: PaymentRailName;
+  network: string;
+  asset: { symbol: string; address?: string; decimals: number };
+  /** In the asset's smallest unit; null until the rail's challenge is requested */
+  amount: string | null;
+  /** What paying this option costs in USD */
+  amountUsd: string;
+  /** Null until the rail's challenge is requested */
+  recipient: string | null;
+  /** When the quote stops being payable; null when it doesn't lapse */
+  expiresAt: string | null;
+  /** What the paid retry carries */
+  credential: string;
+  instructions: string;
+  /** Rail-specific fields */
+  details?: Record<string, unknown>;
+}
+
+export interface QuoteContext {
+  req: Request;
+  price: { price: string; category: string };
+  /** The 402 body being sent, if any — x402's carries its `accepts` */
+  body: any;
+  now: Date;
+}
+
+/** One rail's option for a request, and any WWW-Authenticate challenge that goes with it. */
+export interface PaymentRail {
+  name: PaymentRailName;
+  option(context: QuoteContext): Promise<{ option: PaymentOption; wwwAuthenticate?: string } | null>;
+}
+
+const USDC_DECIMALS = 6;
+
+/**
+ * The rail a client is about to pay with: X-Payment-Rail, or else the rail
+ * of the credential it sent (which failed, or there'd be no 402).
+ */
+export function requestedRail(req: Request): string | null {
+  const header = req.headers?.["x-payment-rail"];
+  if (typeof header === "string" && header) return header.trim().toLowerCase();
+  if (req.paymentProtocol === "l402") return "l402";
+  return req.headers?.["x-solana-tx"] ? "solana" : null;
+}
+
+function atomic(priceUsd: string, decimals: number): string {
+  return String(Math.round(parseFloat(priceUsd) * 10 ** decimals));
+}
+
+// ---------------------------------------------------------------------------
+// Rails
+// ---------------------------------------------------------------------------
+
+// The USDC x402's exact scheme charges on each network
+const X402_USDC: Record<string, string> = {
+  "eip155:8453": "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  "eip155:84532": "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+};
+// @x402/core's default maxTimeoutSeconds
+const X402_TIMEOUT_SECONDS = 300;
+
+export function x402Rail(config: { payTo: string; network: string }): PaymentRail {
+  return {
+    name: "x402",
+    async option({ price, body, now }) {
+      if (!config.payTo) return null;
+      // x402's own requirements win when the 402 came from it
+      const accepted = Array.isArray(body?.accepts) ? body.accepts.find((a: any) => a?.network === config.network) : undefined;
+      const amount = typeof accepted?.amount === "string" ? accepted.amount : atomic(price.price, USDC_DECIMALS);
+      const timeout = Number(accepted?.maxTimeoutSeconds) || X402_TIMEOUT_SECONDS;
+      return {
+        option: {
+          rail: "x402",
+          network: config.network,
+          asset: { symbol: "USDC", address: accepted?.asset ?? X402_USDC[config.network], decimals: USDC_DECIMALS },
+          amount,
+          amountUsd: String(Number(amount) / 10 ** USDC_DECIMALS),
+          recipient: accepted?.payTo ?? config.payTo,
+          expiresAt: new Date(now.getTime() + timeout * 1000).toISOString(),
+          credential: "PAYMENT-SIGNATURE: <base64 payment payload>",
+          instructions: "Sign an EIP-3009 USDC authorization for the PAYMENT-REQUIRED requirements and retry with PAYMENT-SIGNATURE",
+          details: { scheme: "exact", maxTimeoutSeconds: timeout },
+        },
+      };
+    },
+  };
+}
+
+const SOLANA_USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+export function solanaRail(config: { receiveAddress: string; cluster: string; binding: SolanaBindingMode }): PaymentRail {
+  return {
+    name: "solana",
+    async option({ req, price, now }) {
+      if (!config.receiveAddress) return null;
+      const option: PaymentOption = {
+        rail: "solana",
+        network: `solana:${config.cluster}`,
+        asset: { symbol: "USDC", address: SOLANA_USDC_MINT, decimals: USDC_DECIMALS },
+        amount: atomic(price.price, USDC_DECIMALS),
+        amountUsd: price.price,
+        recipient: config.receiveAddress,
+        expiresAt: null,
+        credential: "X-Solana-Tx: <signature>",
+        instructions: "Send USDC to recipient, then retry with X-Solana-Tx: <signature>",
+      };
+      if (config.binding === "off") return { option };
+      if (requestedRail(req) !== "solana") {
+        return {
+          option: {
+            ...option,
+            instructions: config.binding === "required"
+              ? "Retry with X-Payment-Rail: solana to get a payment reference, then pay it"
+              : `${option.instructions}, or retry with X-Payment-Rail: solana to get a payment reference`,
+            details: { reference: null, referenceRequired: config.binding === "required" },
+          },
+        };
+      }
+
+      // A reference binds the payment to this endpoint and price
+      const challenge = await issueChallenge({ method: req.method, path: req.path, amount: parseFloat(price.price) }, now);
+      return {
+        option: {
+          ...option,
+          expiresAt: challenge.expiresAt,
+          credential: "X-Solana-Tx: <signature>, X-Solana-Reference: <reference>",
+          instructions: "Send USDC to recipient with `reference` as a read-only account key (Solana Pay) or as the memo, " +
+            "then retry with X-Solana-Tx: <signature> and X-Solana-Reference: <reference>",
+          details: { reference: challenge.reference, referenceRequired: config.binding === "required" },
+        },
+      };
+    },
+  };
+}
+
+const PATH_USD_DECIMALS = 6;
+
+export function mppRail(config: {
+  testnet: boolean;
+  recipient: string;
+  challenge?: typeof mppChallenge;
+}): PaymentRail {
+  const challengeFor = config.challenge ?? mppChallenge;
+  return {
+    name: "mpp",
+    async option({ price }) {
+      const issued = await challengeFor(price.price);
+      if (!issued) return null;
+      const request = issued.challenge.request as { amount?: string; currency?: string; recipient?: string };
+      return {
+        wwwAuthenticate: issued.wwwAuthenticate,
+        option: {
+          rail: "mpp",
+          network: config.testnet ? "tempo:testnet" : "tempo",
+          asset: { symbol: "pathUSD", address: request.currency, decimals: PATH_USD_DECIMALS },
+          amount: String(request.amount ?? atomic(price.price, PATH_USD_DECIMALS)),
+          amountUsd: price.price,
+          recipient: request.recipient ?? config.recipient,
+          expiresAt: issued.challenge.expires ?? null,
+          credential: "Authorization: Payment <credential>",
+          instructions: "Answer the WWW-Authenticate Payment challenge with an MPP client and retry with Authorization: Payment",
+          details: { challengeId: issued.challenge.id, method: "tempo", intent: "charge" },
+        },
+      };
+    },
+  };
+}
+
+export function l402Rail(config: L402Config): PaymentRail {
+  return {
+    name: "l402",
+    async option({ req, price, now }) {
+      if (requestedRail(req) !== "l402") {
+        return {
+          option: {
+            rail: "l402",
+            network: "lightning",
+            asset: { symbol: "BTC", decimals: 8 },
+            amount: null,
+            amountUsd: price.price,
+            recipient: null,
+            expiresAt: null,
+            credential: "Authorization: L402 <macaroon>:<preimage hex>",
+            instructions: "Retry with X-Payment-Rail: l402 for an invoice and macaroon",
+          },
+        };
+      }
+
+      // Each challenge is a real invoice and a stored token
+      const challenge = await issueL402Challenge(config, { method: req.method, path: req.path, priceUsd: price.price }, now);
+      return {
+        wwwAuthenticate: wwwAuthenticate(challenge),
+        option: {
+          rail: "l402",
+          network: "lightning",
+          asset: { symbol: "BTC", decimals: 8 },
+          amount: String(challenge.amountSats),
+          amountUsd: challenge.amountUsd,
+          // The invoice names the payee node
+          recipient: challenge.invoice,
+          expiresAt: challenge.invoiceExpiresAt,
+          credential: "Authorization: L402 <macaroon>:<preimage hex>",
+          instructions: "Pay the invoice, then retry with Authorization: L402 <macaroon>:<preimage hex>",
+          details: {
+            invoice: challenge.invoice, macaroon: challenge.macaroon, paymentHash: challenge.paymentHash,
+            validUntil: challenge.validUntil, maxUses: challenge.maxUses,
+          },
+        },
+      };
+    },
+  };
+}
+
+/** The rails the environment enables. */
+export function railsFromEnv(env: NodeJS.ProcessEnv = process.env): PaymentRail[] {
+  const rails: PaymentRail[] = [x402Rail({ payTo: env.PAY_TO_ADDRESS || "", network: env.X402_NETWORK || "eip155:84532" })];
+  if (env.SOLANA_PAYMENTS_ENABLED === "true") {
+    rails.push(solanaRail({
+      receiveAddress: env.SOLANA_RECEIVE_ADDRESS || "",
+      cluster: env.SOLANA_CLUSTER || "mainnet-beta",
+      binding: bindingMode(env.SOLANA_PAYMENT_BINDING),
+    }));
+  }
+  if (env.MPP_ENABLED === "true") {
+    rails.push(mppRail({ testnet: env.MPP_TESTNET === "true", recipient: env.MPP_RECIPIENT || env.PAY_TO_ADDRESS || "" }));
+  }
+  const l402 = l402ConfigFromEnv(env);
+  if (l402) rails.push(l402Rail(l402));
+  return rails;
+}
+
+// ---------------------------------------------------------------------------
+// Builder
+// ---------------------------------------------------------------------------
+
+/**
+ * Every rail's option for one call, cheapest first. A rail that fails to
+ * quote is left out rather than failing the 402.
+ */
+export async function buildPaymentOptions(
+  req: Request,
+  rails: PaymentRail[],
+  body: any = {},
+  now: Date = new Date()
+): Promise<{ options: PaymentOption[]; wwwAuthenticate: string[] } | null> {
+  const price = getEndpointPrice(req.method, req.path);
+  if (!price) return null;
+
+  const quoted = await Promise.all(rails.map((rail) => rail.option({ req, price, body, now }).catch((err) => {
+    console.error(`[402] ${rail.name} option failed for ${req.method} ${req.path}:`, err?.message || err);
+    return null;
+  })));
+  const offered = quoted.filter((q): q is NonNullable<typeof q> => q !== null);
+  return {
+    // Array.prototype.sort is stable, so equal prices keep rail order
+    options: offered.map((q) => q.option).sort((a, b) => parseFloat(a.amountUsd) - parseFloat(b.amountUsd)),
+    wwwAuthenticate: offered.flatMap((q) => (q.wwwAuthenticate ? [q.wwwAuthenticate] : [])),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Middleware
+// ---------------------------------------------------------------------------
+
+export function createMultiProtocol402Middleware(options: { rails?: PaymentRail[] } = {}) {
+  // Resolved on first use, so env is read after dotenv has run
+  let rails = options.rails;
+
+  return function multiProtocol402Middleware(req: Request, res: Response, next: NextFunction): void {
+    if (!getEndpointPrice(req.method, req.path)) {
+      next();
+      return;
+    }
+
+    const originalJson = res.json.bind(res);
+    res.json = function (body: any): Response {
+      if (res.statusCode !== 402) return originalJson(body);
+
+      buildPaymentOptions(req, (rails ??= railsFromEnv()), body)
+        .then((built) => {
+          if (!built) return originalJson(body);
+          if (built.wwwAuthenticate.length > 0) res.setHeader("WWW-Authenticate", built.wwwAuthenticate);
+          const solana = built.options.find((o) => o.rail === "solana");
+          originalJson({
+            ...body,
+            payment_options: built.options,
+            ...(solana ? { solana_accepts: solanaAccepts(solana) } : {}),
+          });
+        })
+        .catch((err) => {
+          console.error("[402] Could not build payment options:", err?.message || err);
+          originalJson(body);
+        });
+      return res;
+    };
+
+    next();
+  };
+}
+
+export const multiProtocol402Middleware = createMultiProtocol402Middleware();
+
+/** The Solana option in the `solana_accepts` shape solanaEnrich402 used to send. */
+function solanaAccepts(option: PaymentOption) {
+  const reference = option.details?.reference as string | undefined;
+  return {
+    chain: "solana",
+    cluster: option.network.replace(/^solana:/, ""),
+    receiveAddress: option.recipient,
+    usdcMint: option.asset.address,
+    txHeader: "X-Solana-Tx",
+    amountRequired: option.amountUsd,
+    protocol: "spl-transfer",
+    instructions: option.instructions,
+    ...(reference
+      ? {
+          reference,
+          referenceHeader: "X-Solana-Reference",
+          referenceRequired: option.details?.referenceRequired === true,
+          referenceExpiresAt: option.expiresAt,
+        }
+      : {}),
+  };
+}
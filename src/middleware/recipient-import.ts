@@ -0,0 +1,188 @@
+/**
+ * 💧 Spraay Recipient Import
+ * src/middleware/recipient-import.ts
+ *
+ * Lets batch and payroll endpoints take a payout list as a spreadsheet:
+ *   - a raw `text/csv` body (options in the query string: ?chain=base&token=USDC&sender=0x…)
+ *   - a JSON body with a `csv` string, or an `xlsx` string (base64)
+ *   - a raw XLSX body (application/vnd.openxmlformats-officedocument.spreadsheetml.sheet)
+ *
+ * An optional `columns` mapping ({ address, amount, label, memo } → header,
+ * column letter or zero-based index) overrides header detection. ENS names and
+ * Basenames are resolved the same way as GET /api/v1/resolve.
+ *
+ * Rows are rewritten into the endpoint's normal JSON shape before the handler
+ * runs — batch: recipients[{ address, amount }], payroll: employees[{ address,
+ * amount, label }] — so imports go through exactly the same code as JSON
+ * requests. Any row error rejects the whole upload with 422 and a per-row list.
+ *
+ * PLACEMENT: per route, after the paywall, with the text/raw body parsers
+ * mounted on the same paths:
+ *
+ *   app.post("/api/v1/batch/execute", recipientImport("batch"), batchPaymentHandler);
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { formatUnits, parseUnits } from "ethers";
+import { resolveName } from "../routes/resolve.js";
+import {
+  ColumnMapping,
+  ImportResult,
+  RecipientImportError,
+  importRecipients,
+  parseCsv,
+  readXlsx,
+} from "../lib/recipient-import.js";
+
+export const CSV_MIME_TYPES = ["text/csv", "application/csv"];
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+type ImportTarget = "batch" | "payroll";
+
+interface ImportSource {
+  table: string[][];
+  format: "csv" | "xlsx";
+  /** Non-recipient fields (chain, token, sender, memo, chunk, …) */
+  options: Record<string, unknown>;
+  mapping?: ColumnMapping;
+}
+
+function parseMapping(value: unknown): ColumnMapping | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "string") {
+    try {
+      return parseMapping(JSON.parse(value));
+    } catch (err) {
+      if (err instanceof RecipientImportError) throw err;
+      throw new RecipientImportError('"columns" must be a JSON object, e.g. {"address":"Wallet","amount":"B"}');
+    }
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new RecipientImportError('"columns" must be an object mapping address/amount/label/memo to columns');
+  }
+  return value as ColumnMapping;
+}
+
+/** Query-string options for raw uploads — strings only, so `chunk` is read as a flag. */
+function queryOptions(req: Request): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(req.query)) {
+    if (typeof value === "string" && key !== "columns") options[key] = value;
+  }
+  if (options.chunk !== undefined) options.chunk = options.chunk === "true" || options.chunk === "1";
+  return options;
+}
+
+function readSource(req: Request): ImportSource | null {
+  const body = req.body;
+
+  if (typeof body === "string") {
+    return { table: parseCsv(body), format: "csv", options: queryOptions(req), mapping: parseMapping(req.query.columns) };
+  }
+  if (Buffer.isBuffer(body)) {
+    return { table: readXlsx(body), format: "xlsx", options: queryOptions(req), mapping: parseMapping(req.query.columns) };
+  }
+  if (!body || typeof body !== "object") return null;
+
+  const { csv, xlsx, columns, ...options } = body as Record<string, unknown>;
+  if (csv !== undefined && xlsx !== undefined) {
+    throw new RecipientImportError('Send either "csv" or "xlsx", not both');
+  }
+  if (csv !== undefined) {
+    if (typeof csv !== "string") throw new RecipientImportError('"csv" must be a string of CSV text');
+    return { table: parseCsv(csv), format: "csv", options, mapping: parseMapping(columns) };
+  }
+  if (xlsx !== undefined) {
+    if (typeof xlsx !== "string") throw new RecipientImportError('"xlsx" must be a base64-encoded workbook');
+    return { table: readXlsx(Buffer.from(xlsx, "base64")), format: "xlsx", options, mapping: parseMapping(columns) };
+  }
+  return null;
+}
+
+function sumAmounts(amounts: string[]): string {
+  const total = amounts.reduce((sum, a) => sum + parseUnits(a, 18), 0n);
+  return formatUnits(total, 18).replace(/\.0$/, "");
+}
+
+function rewriteBody(target: ImportTarget, options: Record<string, unknown>, result: ImportResult): Record<string, unknown> {
+  if (target === "batch") {
+    return {
+      ...options,
+      recipients: result.recipients.map((r) => ({
+        address: r.address,
+        amount: r.amount,
+        ...(r.label ? { label: r.label } : {}),
+        ...(r.memo ? { memo: r.memo } : {}),
+      })),
+    };
+  }
+  return {
+    ...options,
+    employees: result.recipients.map((r) => ({
+      address: r.address,
+      amount: r.amount,
+      ...(r.label ? { label: r.label } : {}),
+    })),
+    // payroll/estimate works from a count and total
+    employeeCount: result.recipients.length,
+    totalAmount: sumAmounts(result.recipients.map((r) => r.amount)),
+  };
+}
+
+export function recipientImport(target: ImportTarget) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let source: ImportSource | null;
+    let result: ImportResult;
+    try {
+      source = readSource(req);
+      if (!source) return next();
+
+      const token = typeof source.options.token === "string" ? source.options.token : "USDC";
+      result = await importRecipients(source.table, {
+        mapping: source.mapping,
+        chain: target === "batch" && typeof source.options.chain === "string" ? source.options.chain : "base",
+        token,
+        resolver: resolveName,
+      });
+    } catch (err) {
+      if (err instanceof RecipientImportError) {
+        res.status(err.status).json({ error: err.message });
+        return;
+      }
+      res.status(500).json({ error: "Failed to import recipients", details: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+
+    const report = {
+      format: source.format,
+      rows: result.summary.rows,
+      headerRow: result.summary.headerRow,
+      columns: result.summary.columns,
+      resolvedNames: result.summary.resolvedNames,
+      warnings: result.warnings,
+    };
+
+    if (result.errors.length > 0) {
+      res.status(422).json({
+        error: "Recipient import failed",
+        message: `${result.errors.length} row error(s); nothing was built. Fix the rows below and upload again.`,
+        errors: result.errors,
+        import: report,
+      });
+      return;
+    }
+
+    req.body = rewriteBody(target, source.options, result);
+
+    // Echo the import report on successful responses so callers can see what was read
+    const originalJson = res.json.bind(res);
+    res.json = function (body: any): Response {
+      if (res.statusCode >= 400 || !body || typeof body !== "object" || Array.isArray(body)) {
+        return originalJson(body);
+      }
+      return originalJson({ ...body, import: report });
+    };
+
+    next();
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * 💧 Spraay Sanctions Pre-flight
+ * src/middleware/sanctions-preflight.ts
+ *
+ * Screens every counterparty of a payment against the sanctions oracle
+ * before the handler builds anything, and rejects the request with 403 if
+ * one matches:
+ *   - batch:   sender + recipients
+ *   - payroll: sender / employer + employees (the active roster for payroll/run)
+ *   - escrow:  depositor, beneficiary and arbiter (loaded by escrowId on
+ *              release, cancel/refund and dispute resolution)
+ *
+ * Opt-in per request with `"sanctions_check": true` in the body (or
+ * `?sanctions_check=true` for spreadsheet uploads). Setting
+ * SANCTIONS_PREFLIGHT=required screens every request on the mounted routes.
+ * If the oracle can't be reached the request fails closed with 503.
+ * Results are cached for a few minutes so retries and chunked batches
+ * don't re-query the oracle for every address; the cache is bounded and
+ * sheds expired entries first.
+ *
+ * Scheduled payroll runs and cron batch/payroll jobs have no request to
+ * intercept, so generatePayrollRun and the cron scheduler call
+ * screenPayment() themselves when the pre-flight is required.
+ *
+ * PLACEMENT: per route, after the paywall and recipientImport (so uploaded
+ * spreadsheets are already rows). A blocked request returns before the
+ * handler, so the x402 payment is not settled:
+ *
+ *   app.post("/api/v1/batch/execute", recipientImport("batch"), sanctionsPreflight("batch"), batchPaymentHandler);
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { escrowDb, payrollRosterDb } from "../db.js";
+import { Counterparty, SanctionsScreener, screenCounterparties } from "../lib/sanctions.js";
+import { chainalysisScreener, resolveChain } from "../routes/kyc.js";
+
+export type PreflightTarget = "batch" | "payroll" | "escrow";
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+export const PREFLIGHT_CACHE_MAX_ENTRIES = 10_000;
+const cache = new Map<string, { sanctioned: boolean; expiresAt: number }>();
+
+export function preflightCacheSize(): number {
+  return cache.size;
+}
+
+function remember(key: string, sanctioned: boolean): void {
+  const now = Date.now();
+  if (cache.size >= PREFLIGHT_CACHE_MAX_ENTRIES) {
+    for (const [k, entry] of cache) if (entry.expiresAt <= now) cache.delete(k);
+    // Still full of live entries — drop the oldest (Maps iterate in insertion order)
+    while (cache.size >= PREFLIGHT_CACHE_MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+  }
+  cache.delete(key);
+  cache.set(key, { sanctioned, expiresAt: now + CACHE_TTL_MS });
+}
+
+function cached(screener: SanctionsScreener): SanctionsScreener {
+  return {
+    name: screener.name,
+    async isSanctioned(address, chain) {
+      const key = `${screener.name}:${chain}:${address}`;
+      const hit = cache.get(key);
+      if (hit && hit.expiresAt > Date.now()) return hit.sanctioned;
+      const sanctioned = await screener.isSanctioned(address, chain);
+      remember(key, sanctioned);
+      return sanctioned;
+    },
+  };
+}
+
+/** The oracle with the pre-flight cache in front of it. */
+export const preflightScreener: SanctionsScreener = cached(chainalysisScreener);
+
+/** SANCTIONS_PREFLIGHT=required: screen every payment on the pre-flight routes and every scheduled payroll run. */
+export function preflightRequired(): boolean {
+  return process.env.SANCTIONS_PREFLIGHT === "required";
+}
+
+function listed(items: unknown, role: string): Counterparty[] {
+  if (!Array.isArray(items)) return [];
+  return items.map((item, i) => ({
+    address: typeof item === "string" ? item : item?.address, role: `${role}[${i}]`,
+  }));
+}
+
+function single(value: unknown, role: string): Counterparty[] {
+  return typeof value === "string" && value ? [{ address: value, role }] : [];
+}
+
+const COUNTERPARTIES: Record<PreflightTarget, (body: any) => Promise<Counterparty[]>> = {
+  batch: async (body) => [...single(body.sender, "sender"), ...listed(body.recipients, "recipients")],
+  payroll: async (body) => {
+    const parties = [...single(body.sender, "sender"), ...single(body.employer, "employer")];
+    if (Array.isArray(body.employees)) return [...parties, ...listed(body.employees, "employees")];
+    if (typeof body.employer !== "string") return parties;
+    const roster = await payrollRosterDb.listByEmployer(body.employer, true);
+    return [...parties, ...listed(roster, "roster")];
+  },
+  escrow: async (body) => {
+    const escrow = typeof body.escrowId === "string" ? await escrowDb.get(body.escrowId) : null;
+    const source = escrow ?? body;
+    return ["depositor", "beneficiary", "arbiter"].flatMap((role) => single(source[role], role));
+  },
+};
+
+/**
+ * Screen a payment's counterparties exactly as the middleware would for
+ * `body`. Throws when the oracle can't be reached.
+ */
+export async function screenPayment(target: PreflightTarget, body: any, screener: SanctionsScreener = preflightScreener) {
+  // The oracle list is the same on every chain; non-EVM batches fall back to Base
+  const chain = resolveChain(body.chain) ?? "base";
+  const screening = await screenCounterparties(await COUNTERPARTIES[target](body), screener, chain);
+  return { ...screening, chain };
+}
+
+function optedIn(req: Request): boolean {
+  return req.body?.sanctions_check === true || req.query?.sanctions_check === "true";
+}
+
+export function sanctionsPreflight(
+  target: PreflightTarget,
+  options: { required?: boolean; screener?: SanctionsScreener } = {}
+) {
+  const required = options.required ?? preflightRequired();
+  const screener = options.screener ? cached(options.screener) : preflightScreener;
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!required && !optedIn(req)) return next();
+
+    let screening;
+    try {
+      screening = await screenPayment(target, req.body ?? {}, screener);
+    } catch (err: any) {
+      console.error(`[sanctions] Pre-flight screening failed on ${req.path}:`, err?.message || err);
+      res.status(503).json({
+        error: "sanctions_screening_unavailable",
+        message: "Counterparties could not be screened, so the request was not processed. Retry shortly.",
+        details: err?.message,
+      });
+      return;
+    }
+
+    if (screening.matches.length > 0) {
+      console.warn(`[sanctions] 🚫 Blocked ${req.path}: ${screening.matches.map((m) => m.address).join(", ")}`);
+      res.status(403).json({
+        error: "sanctioned_counterparty",
+        message: `${screening.matches.length} counterparty address(es) match the OFAC SDN list. Nothing was built or sent.`,
+        matches: screening.matches.map(({ address, roles }) => ({ address, roles })),
+        screened: screening.screened.length,
+        listSource: "OFAC SDN (US Treasury) via the Chainalysis sanctions oracle",
+        chain: screening.chain,
+      });
+      return;
+    }
+
+    res.setHeader("X-Sanctions-Screened", String(screening.screened.length));
+    if (screening.unscreened.length > 0) res.setHeader("X-Sanctions-Unscreened", String(screening.unscreened.length));
+    next();
+  };
+}
@@ -24,7 +24,7 @@ import type { Request, Response, NextFunction, RequestHandler } from "express";
 
 /**
  * Wraps an existing Express middleware (paymentMiddleware) to skip it
- * when the request has already been paid via Solana.
+ * when the request has already been paid via Solana (or L402).
  */
 export function wrapWithSolanaBypass(
   originalMiddleware: RequestHandler
@@ -44,6 +44,12 @@ export function wrapWithSolanaBypass(
       return;
     }
 
+    // Same for a request l402Middleware has already verified
+    if ((req as any).l402Paid === true) {
+      next();
+      return;
+    }
+
     // Otherwise, run the original paymentMiddleware as normal
     originalMiddleware(req, res, next);
   };
@@ -1,17 +1,27 @@
 /**
  * 💧 Spraay x402 Gateway — Solana Payment Middleware
  * src/middleware/solanaPaymentMiddleware.ts
+ *
+ * Verifies an X-SOLANA-TX payment and lets the request past the x402 gate.
+ * Each signature unlocks one call: it is recorded in the spent-signature
+ * ledger before the handler runs, and given back only if the call fails
+ * (status >= 400), so the payer can retry with the same transfer. With
+ * X-Solana-Reference the payment is also held to the challenge issued in
+ * the 402 (endpoint, price, expiry) — see src/solana/paymentBinding.ts.
  */
 
 import type { Request, Response, NextFunction } from "express";
 import { SolanaVerifier, SolanaPaymentConfig } from "../solana/solanaVerifier.js";
+import { SolanaBindingMode, bindingMode, carriesReference, openChallenge } from "../solana/paymentBinding.js";
 import { getEndpointPrice } from "../config/pricing.js";
+import { solanaChallengeDb, solanaSpentSignatureDb } from "../db.js";
 import { supabase } from "./supabase.js";
 
 // ----- config ------------------------------------------------------------ //
 
 const SOLANA_ENABLED = process.env.SOLANA_PAYMENTS_ENABLED === "true";
 const SOLANA_RECEIVE_ADDRESS = process.env.SOLANA_RECEIVE_ADDRESS || "";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
 
 const solanaConfig: SolanaPaymentConfig = {
   receiveAddress: SOLANA_RECEIVE_ADDRESS,
@@ -29,102 +39,156 @@ function getVerifier(): SolanaVerifier {
   return verifier;
 }
 
+export interface SolanaPaymentOptions {
+  enabled?: boolean;
+  receiveAddress?: string;
+  verifier?: Pick<SolanaVerifier, "verifyPayment">;
+  binding?: SolanaBindingMode;
+}
+
 // ----- middleware --------------------------------------------------------- //
 
-export function solanaPaymentMiddleware(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  // Gate: feature flag off
-  if (!SOLANA_ENABLED) {
-    next();
-    return;
-  }
+export function createSolanaPaymentMiddleware(options: SolanaPaymentOptions = {}) {
+  const enabled = options.enabled ?? SOLANA_ENABLED;
+  const receiveAddress = options.receiveAddress ?? SOLANA_RECEIVE_ADDRESS;
+  const binding = options.binding ?? bindingMode();
+
+  return function solanaPaymentMiddleware(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void {
+    // Gate: feature flag off
+    if (!enabled) {
+      next();
+      return;
+    }
 
-  // Gate: no receive address configured
-  if (!SOLANA_RECEIVE_ADDRESS) {
-    next();
-    return;
-  }
+    // Gate: no receive address configured
+    if (!receiveAddress) {
+      next();
+      return;
+    }
 
-  // Gate: no Solana tx header → not a Solana payment, fall through to EVM x402
-  const txSignature = req.headers["x-solana-tx"] as string | undefined;
-  if (!txSignature) {
-    next();
-    return;
-  }
+    // Gate: no Solana tx header → not a Solana payment, fall through to EVM x402
+    const txSignature = req.headers["x-solana-tx"] as string | undefined;
+    if (!txSignature) {
+      next();
+      return;
+    }
 
-  // Determine required amount from centralized pricing.ts
-  const endpointPrice = getEndpointPrice(req.method, req.path);
-  if (!endpointPrice) {
-    // Route has no price → free endpoint, skip payment verification
-    next();
-    return;
-  }
+    // Determine required amount from centralized pricing.ts
+    const endpointPrice = getEndpointPrice(req.method, req.path);
+    if (!endpointPrice) {
+      // Route has no price → free endpoint, skip payment verification
+      next();
+      return;
+    }
+
+    const reject = (detail: string, extra: Record<string, unknown> = {}) => {
+      console.warn(`[solana-pay] ❌ ${req.method} ${req.path}: ${detail}`);
+      res.status(402).json({
+        error: "Solana payment verification failed",
+        detail,
+        chain: "solana",
+        required_amount: endpointPrice.price,
+        receive_address: receiveAddress,
+        usdc_mint: USDC_MINT,
+        ...extra,
+      });
+    };
+
+    const verify = async () => {
+      // A named challenge fixes the price at what the 402 quoted
+      const referenceHeader = req.headers["x-solana-reference"];
+      const reference = binding !== "off" && typeof referenceHeader === "string" && referenceHeader ? referenceHeader : null;
+      if (!reference && binding === "required") {
+        return reject("X-Solana-Reference is required: pay the reference from this response's solana_accepts and retry");
+      }
+      let requiredAmount = parseFloat(endpointPrice.price);
+      if (reference) {
+        const { challenge, error } = await openChallenge(reference, { method: req.method, path: req.path });
+        if (!challenge) return reject(error!);
+        requiredAmount = challenge.amount;
+      }
+
+      const result = await (options.verifier ?? getVerifier()).verifyPayment(txSignature, requiredAmount);
+      if (!result.verified) return reject(result.error || "Payment not verified");
+      if (reference && !carriesReference(result, reference)) {
+        return reject("Transaction does not include the payment reference as an account key or memo");
+      }
 
-  const requiredAmount = parseFloat(endpointPrice.price);
-
-  // Run async verification
-  const sv = getVerifier();
-  sv.verifyPayment(txSignature, requiredAmount)
-    .then((result) => {
-      if (result.verified) {
-        // ✅ Solana payment confirmed
-        (req as any).solanaPaid = true;
-        (req as any).solanaTxSignature = txSignature;
-        (req as any).solanaSender = result.sender;
-        (req as any).solanaAmount = result.amount;
-
-        console.log(
-          `[solana-pay] ✅ Verified ${result.amount} USDC from ${result.sender} ` +
-          `for ${req.method} ${req.path} (slot ${result.slot})`
-        );
-
-        // Log to Supabase (fire-and-forget, matches gateway-events.ts pattern)
-        if (supabase) {
-          const sourceIp = extractSourceIp(req);
-          supabase
-            .from("gateway_events")
-            .insert({
-              event_type: "payment" as const,
-              path: req.path,
-              method: req.method,
-              http_status: 200,
-              category: endpointPrice.category,
-              chain: "solana",
-              endpoint_name: inferEndpointName(req.path),
-              payer_address: result.sender,
-              tx_hash: txSignature,
-              source_ip: sourceIp,
-              payment_attempted: true,
-            })
-            .then(({ error }) => {
-              if (error) console.error("[solana-pay] Supabase log error:", error.message);
-            });
-        }
-
-        next();
-      } else {
-        // ❌ Verification failed — return 402 with Solana error detail
-        console.warn(`[solana-pay] ❌ ${req.method} ${req.path}: ${result.error}`);
-        res.status(402).json({
-          error: "Solana payment verification failed",
-          detail: result.error,
-          chain: "solana",
-          required_amount: endpointPrice.price,
-          receive_address: SOLANA_RECEIVE_ADDRESS,
-          usdc_mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+      // One call per signature
+      const claimed = await solanaSpentSignatureDb.claim(txSignature, {
+        method: req.method, path: req.path, amount: result.amount, sender: result.sender, reference,
+      });
+      if (!claimed) {
+        const spent = await solanaSpentSignatureDb.get(txSignature);
+        return reject("Transaction signature has already been used for a paid call", {
+          spent: spent ? { endpoint: `${spent.method} ${spent.path}`, at: spent.spentAt } : undefined,
         });
       }
-    })
-    .catch((err) => {
+      if (reference && !(await solanaChallengeDb.use(reference, txSignature))) {
+        await solanaSpentSignatureDb.release(txSignature);
+        return reject("Payment reference already used");
+      }
+
+      // A failed call doesn't consume the payment
+      res.on("finish", () => {
+        if (res.statusCode < 400) return;
+        solanaSpentSignatureDb.release(txSignature)
+          .then(() => (reference ? solanaChallengeDb.reopen(reference, txSignature) : undefined))
+          .catch((err) => console.error("[solana-pay] Could not release signature:", err?.message || err));
+      });
+
+      // ✅ Solana payment confirmed
+      (req as any).solanaPaid = true;
+      (req as any).solanaTxSignature = txSignature;
+      (req as any).solanaSender = result.sender;
+      (req as any).solanaAmount = result.amount;
+      (req as any).solanaReference = reference;
+
+      console.log(
+        `[solana-pay] ✅ Verified ${result.amount} USDC from ${result.sender} ` +
+        `for ${req.method} ${req.path} (slot ${result.slot}${reference ? `, ref ${reference.slice(0, 8)}…` : ""})`
+      );
+
+      // Log to Supabase (fire-and-forget, matches gateway-events.ts pattern)
+      if (supabase) {
+        const sourceIp = extractSourceIp(req);
+        supabase
+          .from("gateway_events")
+          .insert({
+            event_type: "payment" as const,
+            path: req.path,
+            method: req.method,
+            http_status: 200,
+            category: endpointPrice.category,
+            chain: "solana",
+            endpoint_name: inferEndpointName(req.path),
+            payer_address: result.sender,
+            tx_hash: txSignature,
+            source_ip: sourceIp,
+            payment_attempted: true,
+          })
+          .then(({ error }) => {
+            if (error) console.error("[solana-pay] Supabase log error:", error.message);
+          });
+      }
+
+      next();
+    };
+
+    verify().catch((err) => {
       console.error("[solana-pay] Middleware error:", err.message);
       // Don't block — fall through to EVM path
       next();
     });
+  };
 }
 
+export const solanaPaymentMiddleware = createSolanaPaymentMiddleware();
+
 // ----- helpers ----------------------------------------------------------- //
 
 function extractSourceIp(req: Request): string | null {
@@ -8,15 +8,13 @@
 
 import { Request, Response } from "express";
 import { ethers } from "ethers";
-import { createClient } from "@supabase/supabase-js";
+import { storage, eq } from "../storage/index.js";
 
 // ─── Config ──────────────────────────────────────────
 
 const BASE_RPC = process.env.BASE_RPC_URL || "https://mainnet.base.org";
 const FACTORY_ADDRESS = process.env.AGENT_WALLET_FACTORY || "0xFBD832Db6D9a05A0434cd497707a1bDC43389CfD";
 const FACILITATOR_KEY = process.env.FACILITATOR_PRIVATE_KEY || process.env.AGENT_WALLET_DEPLOYER_KEY || "";
-const SUPABASE_URL = process.env.SUPABASE_URL || "";
-const SUPABASE_KEY = process.env.SUPABASE_SERVICE_KEY || "";
 const CHAIN_ID = parseInt(process.env.AGENT_WALLET_CHAIN_ID || "8453");
 
 // ─── Contracts ───────────────────────────────────────
@@ -44,7 +42,6 @@ const WALLET_ABI = [
 let _provider: ethers.JsonRpcProvider | null = null;
 let _signer: ethers.Wallet | null = null;
 let _factory: ethers.Contract | null = null;
-let _supabase: ReturnType<typeof createClient> | null = null;
 
 function getProvider() {
   if (!_provider) _provider = new ethers.JsonRpcProvider(BASE_RPC);
@@ -64,11 +61,6 @@ function getFactory() {
   return _factory;
 }
 
-function getSupabase() {
-  if (!_supabase) _supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
-  return _supabase;
-}
-
 // ─── POST /api/v1/agent-wallet/provision ─────────────
 // Creates a new smart contract wallet for an AI agent.
 
@@ -126,10 +118,9 @@ export async function agentWalletProvisionHandler(req: Request, res: Response) {
       }
     }
 
-    // Store in Supabase
+    // Persist wallet record
     try {
-      const sb = getSupabase();
-      await (sb.from("agent_wallets") as any).insert({
+      await storage.insert("agent_wallets", {
         wallet_address: walletAddress,
         owner_address: owner,
         agent_id: agentId,
@@ -140,13 +131,13 @@ export async function agentWalletProvisionHandler(req: Request, res: Response) {
       });
 
       if (mode === "managed" && encryptedKey) {
-        await (sb.from("managed_keys") as any).insert({
+        await storage.insert("managed_keys", {
           wallet_address: walletAddress,
           encrypted_key: encryptedKey,
         });
       }
     } catch (dbErr: any) {
-      console.warn("Supabase insert warning:", dbErr.message);
+      console.warn("agent_wallets insert warning:", dbErr.message);
     }
 
     return res.json({
@@ -188,10 +179,9 @@ export async function agentWalletSessionKeyHandler(req: Request, res: Response)
 
     const expiresAt = new Date(validUntil * 1000).toISOString();
 
-    // Log in Supabase
+    // Log session key
     try {
-      const sb = getSupabase();
-      await (sb.from("session_keys") as any).insert({
+      await storage.insert("session_keys", {
         wallet_address: walletAddress,
         session_key: sessionKeyAddress,
         spend_limit_wei: spendLimitWei.toString(),
@@ -200,7 +190,7 @@ export async function agentWalletSessionKeyHandler(req: Request, res: Response)
         tx_hash: tx.hash,
       });
     } catch (dbErr: any) {
-      console.warn("Supabase session_keys insert warning:", dbErr.message);
+      console.warn("session_keys insert warning:", dbErr.message);
     }
 
     return res.json({
@@ -281,15 +271,15 @@ export async function agentWalletRevokeKeyHandler(req: Request, res: Response) {
     const tx = await wallet.revokeSessionKey(sessionKeyAddress);
     await tx.wait();
 
-    // Update Supabase
+    // Mark session key revoked
     try {
-      const sb = getSupabase();
-      await (sb.from("session_keys") as any)
-        .update({ revoked: true, revoked_at: new Date().toISOString() })
-        .eq("wallet_address", walletAddress)
-        .eq("session_key", sessionKeyAddress);
+      await storage.update(
+        "session_keys",
+        [eq("wallet_address", walletAddress), eq("session_key", sessionKeyAddress)],
+        { revoked: true, revoked_at: new Date().toISOString() }
+      );
     } catch (dbErr: any) {
-      console.warn("Supabase revoke update warning:", dbErr.message);
+      console.warn("session_keys revoke update warning:", dbErr.message);
     }
 
     return res.json({ status: "revoked", txHash: tx.hash });
@@ -41,7 +41,7 @@ const ERC20_ABI = [
 // HELPERS
 // ============================================
 
-async function fetchBasescan(params: Record<string, string>): Promise<any> {
+export async function fetchBasescan(params: Record<string, string>): Promise<any> {
   if (!BASESCAN_KEY) return null;
 
   const url = new URL(BASESCAN_API);
@@ -252,10 +252,12 @@ export async function analyticsWalletHandler(req: Request, res: Response) {
  * Query params:
  *   address - Wallet address
  *   limit   - Number of transactions (default 10, max 50)
+ *   include - "tokens" to also list ERC-20 transfers in and out (which
+ *             txlist misses when someone else sent the transaction)
  */
 export async function analyticsTxHistoryHandler(req: Request, res: Response) {
   try {
-    const { address, limit } = req.query;
+    const { address, limit, include } = req.query;
 
     if (!address || !isAddress(address as string)) {
       return res.status(400).json({
@@ -299,11 +301,37 @@ export async function analyticsTxHistoryHandler(req: Request, res: Response) {
       sort: "desc",
     });
 
+    let tokenTransfers: any[] | undefined;
+    if (include === "tokens") {
+      const tokenTxs = await fetchBasescan({
+        module: "account",
+        action: "tokentx",
+        address: addr,
+        startblock: "0",
+        endblock: "99999999",
+        page: "1",
+        offset: txLimit.toString(),
+        sort: "desc",
+      });
+      tokenTransfers = (tokenTxs || []).map((t: any) => ({
+        hash: t.hash,
+        block: parseInt(t.blockNumber),
+        timestamp: new Date(parseInt(t.timeStamp) * 1000).toISOString(),
+        direction: t.from.toLowerCase() === addr.toLowerCase() ? "outgoing" : "incoming",
+        from: t.from,
+        to: t.to,
+        token: t.contractAddress,
+        symbol: t.tokenSymbol,
+        value: formatUnits(t.value || "0", parseInt(t.tokenDecimal) || 0),
+      }));
+    }
+
     if (!txs || txs.length === 0) {
       return res.json({
         address: addr,
         transactions: [],
         count: 0,
+        tokenTransfers,
         note: "No transactions found",
         _gateway: { provider: "spraay-x402", version: "2.6.0" },
         timestamp: new Date().toISOString(),
@@ -360,6 +388,7 @@ export async function analyticsTxHistoryHandler(req: Request, res: Response) {
       address: addr,
       transactions,
       count: transactions.length,
+      tokenTransfers,
       summary: {
         outgoing,
         incoming,
@@ -1,19 +1,221 @@
 import { Request, Response } from "express";
-import { auditDb } from "../db.js";
+import { timingSafeEqual } from "crypto";
+import { verifyMessage } from "ethers";
+import { auditChainDb, auditCheckpointDb, auditDb } from "../db.js";
+import {
+  AuditChainError, CheckpointBody, GENESIS_HASH, InclusionProof, checkpointStatement, extendFrontier, frontierRoot,
+  hashEntry, inclusionPath, merkleRoot, verifyChain, verifyInclusionProof,
+} from "../lib/audit-chain.js";
 
 function genId(): string { return `aud_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`; }
+function genCheckpointId(): string { return `acp_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`; }
 
 const VALID_AUDIT_ACTIONS = [
   "payment.sent", "payment.received", "batch.executed",
   "swap.executed", "bridge.initiated", "bridge.completed",
   "payroll.executed", "invoice.created", "invoice.paid",
   "escrow.created", "escrow.funded", "escrow.released", "escrow.cancelled",
+  "escrow.milestone_approved", "escrow.disputed", "escrow.dispute_resolved", "contract.written",
   "kyc.initiated", "kyc.completed", "auth.session_created", "auth.session_revoked",
   "webhook.registered", "webhook.triggered",
   "cron.created", "cron.executed", "cron.cancelled",
   "storage.pinned", "settings.changed",
 ];
 
+const DEFAULT_TENANT = "public";
+/** The operator's chain, written only by the audit-trail middleware. */
+export const GATEWAY_TENANT = process.env.AUDIT_TRAIL_TENANT || "gateway";
+const OPERATOR_KEY_HEADER = "x-audit-operator-key";
+const TENANT_PATTERN = /^[A-Za-z0-9._:-]{1,64}$/;
+const MAX_VERIFY_RANGE = 10_000;
+const APPEND_ATTEMPTS = 5;
+
+const GATEWAY = { provider: "spraay-x402", version: "2.9.0" };
+
+// ---------------------------------------------------------------------------
+// Tenants and appending
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether the request carries AUDIT_OPERATOR_KEY. Only the operator reads
+ * the gateway's chain, which records every caller's payments.
+ */
+export function isAuditOperator(req: Request): boolean {
+  const expected = process.env.AUDIT_OPERATOR_KEY;
+  const given = req.headers?.[OPERATOR_KEY_HEADER];
+  if (!expected || typeof given !== "string") return false;
+  const [a, b] = [Buffer.from(given), Buffer.from(expected)];
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * The chain a request reads or writes. API-key callers always get their
+ * key's own chain; anyone else names one with `tenant` (body or query) or
+ * shares the public chain. `key:` tenants can't be named by hand, only the
+ * operator reads the gateway's own chain, and nobody writes to it through
+ * the API.
+ */
+export function resolveAuditTenant(req: Request, access: "read" | "write" = "read"): string {
+  const raw = req.body?.tenant ?? req.query?.tenant;
+  if (access === "read" && raw === GATEWAY_TENANT && isAuditOperator(req)) return GATEWAY_TENANT;
+  const keyId = (req as any).apiKeyId;
+  if (keyId) return `key:${keyId}`;
+  if (raw === undefined || raw === null || raw === "") return DEFAULT_TENANT;
+  if (typeof raw !== "string" || !TENANT_PATTERN.test(raw)) {
+    throw new AuditChainError("tenant must be 1-64 characters of letters, digits, '.', '_', ':' or '-'");
+  }
+  if (raw.startsWith("key:")) throw new AuditChainError("key: tenants belong to API keys; send the key in X-API-Key instead");
+  if (access === "write" && raw === GATEWAY_TENANT) {
+    throw new AuditChainError(`The ${GATEWAY_TENANT} chain is written by the gateway itself`, 403);
+  }
+  if (raw === GATEWAY_TENANT) {
+    throw new AuditChainError(`The ${GATEWAY_TENANT} chain is readable by the operator only (${OPERATOR_KEY_HEADER})`, 403);
+  }
+  return raw;
+}
+
+// Appends to one tenant's chain run one at a time in this process; the
+// unique (tenant, seq) index on stored entries covers other instances.
+const appendQueues = new Map<string, Promise<unknown>>();
+
+function serialized<T>(tenant: string, fn: () => Promise<T>): Promise<T> {
+  const next = (appendQueues.get(tenant) ?? Promise.resolve()).then(fn, fn);
+  const tail = next.catch(() => undefined);
+  appendQueues.set(tenant, tail);
+  tail.then(() => { if (appendQueues.get(tenant) === tail) appendQueues.delete(tenant); });
+  return next;
+}
+
+export interface AuditEntryInput {
+  tenant: string;
+  action: string;
+  actor: string;
+  resource: string;
+  details?: Record<string, unknown>;
+  txHash?: string | null;
+}
+
+/**
+ * Append one entry to the end of its tenant's hash chain. The entry is
+ * stored first — its (tenant, seq) can only be taken once — and the chain
+ * head then moves to it, so the head never points past a stored entry.
+ */
+export async function appendAuditEntry(input: AuditEntryInput, now: Date = new Date()) {
+  return serialized(input.tenant, async () => {
+    for (let attempt = 0; attempt < APPEND_ATTEMPTS; attempt++) {
+      const chain = (await auditChainDb.get(input.tenant))
+        ?? (await auditChainDb.create(input.tenant).catch(() => auditChainDb.get(input.tenant)));
+      if (!chain) continue;
+      const fields = {
+        tenant: input.tenant, seq: chain.headSeq + 1, prevHash: chain.headHash ?? GENESIS_HASH,
+        id: genId(), action: input.action, actor: input.actor, resource: input.resource,
+        details: input.details || {}, txHash: input.txHash || null, timestamp: now.toISOString(),
+      };
+      const entry = { ...fields, hash: hashEntry(fields) };
+      try {
+        await auditDb.create(entry);
+      } catch (err) {
+        // Another writer stored this entry number first. Its head may not
+        // have moved yet (or ever, if it stopped) — move it, then retry.
+        const taken = await auditDb.getBySeq(input.tenant, entry.seq);
+        if (!taken) throw err;
+        await auditChainDb.advance(input.tenant, chain.headSeq, taken.seq, taken.hash);
+        continue;
+      }
+      // The entry is ours whether or not this wins: a writer that lost the
+      // insert may already have moved the head to it
+      await auditChainDb.advance(input.tenant, chain.headSeq, entry.seq, entry.hash);
+      return entry;
+    }
+    throw new AuditChainError(`Audit chain ${input.tenant} is busy; retry the entry`, 503);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Checkpoints
+// ---------------------------------------------------------------------------
+
+/** Signs checkpoint statements (EIP-191); an ethers Wallet fits. */
+export interface CheckpointSigner {
+  address: string;
+  signMessage(message: string): Promise<string>;
+}
+
+/** Publishes a signed checkpoint somewhere public and returns the reference (a tx hash). */
+export interface CheckpointAnchor {
+  chain: string;
+  publish(statement: string, signature: string | null): Promise<string>;
+}
+
+/**
+ * Publish a checkpoint over every entry of `tenant` so far. Returns null
+ * when nothing was appended since the last one. The Merkle tree grows from
+ * the last checkpoint's frontier, so only entries appended since are read
+ * and re-checked; if they no longer verify, that's reported rather than
+ * signed.
+ */
+export async function createCheckpoint(
+  tenant: string,
+  deps: { signer?: CheckpointSigner | null; anchor?: CheckpointAnchor | null } = {},
+  now: Date = new Date()
+): Promise<{ checkpoint: any | null; error: string | null }> {
+  const chain = await auditChainDb.get(tenant);
+  if (!chain || chain.headSeq === 0 || chain.headSeq === chain.checkpointSeq) {
+    if (chain) await auditChainDb.markCheckpointed(tenant, chain.headSeq);
+    return { checkpoint: null, error: null };
+  }
+
+  // Checkpoints from before frontiers were kept are rebuilt from entry 1
+  const last = await auditCheckpointDb.latest(tenant);
+  const resume = last?.frontier && last.treeSize < chain.headSeq ? last : null;
+  const fromSeq = resume ? resume.treeSize + 1 : 1;
+  const entries = await auditDb.listRange(tenant, fromSeq, chain.headSeq);
+  const broken = verifyChain(entries, resume?.headHash ?? GENESIS_HASH, fromSeq)
+    ?? (entries.length === chain.headSeq - fromSeq + 1 && entries[entries.length - 1].hash === chain.headHash
+      ? null : { seq: chain.headSeq, id: null, reason: "stored entries end before the chain head" });
+  if (broken) return { checkpoint: null, error: `entry #${broken.seq}: ${broken.reason}` };
+
+  const frontier = extendFrontier(resume?.frontier ?? [], fromSeq - 1, entries.map((e) => e.hash));
+  const body: CheckpointBody = {
+    tenant, treeSize: chain.headSeq, rootHash: frontierRoot(frontier),
+    headHash: chain.headHash, issuedAt: now.toISOString(),
+  };
+  const statement = checkpointStatement(body);
+  const signature = deps.signer ? await deps.signer.signMessage(statement) : null;
+  const id = genCheckpointId();
+  await auditCheckpointDb.create({
+    id, ...body, statement, signature, signer: deps.signer?.address ?? null, frontier, anchorChain: deps.anchor?.chain,
+  });
+  await auditChainDb.markCheckpointed(tenant, body.treeSize);
+
+  if (deps.anchor) {
+    try {
+      await auditCheckpointDb.update(id, { anchorTxHash: await deps.anchor.publish(statement, signature) });
+    } catch (err: any) {
+      await auditCheckpointDb.update(id, { anchorError: err?.message || String(err) });
+    }
+  }
+  return { checkpoint: await auditCheckpointDb.get(id), error: null };
+}
+
+function signatureValid(cp: any): boolean | null {
+  if (!cp.signature || !cp.signer) return null;
+  try {
+    return verifyMessage(cp.statement, cp.signature).toLowerCase() === cp.signer.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+function sendError(res: Response, error: any, fallback: string) {
+  if (error instanceof AuditChainError) return res.status(error.status).json({ error: error.message });
+  return res.status(500).json({ error: fallback, details: error.message });
+}
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
 export async function auditLogHandler(req: Request, res: Response) {
   try {
     const { action, actor, resource, details, txHash } = req.body;
@@ -22,20 +224,16 @@ export async function auditLogHandler(req: Request, res: Response) {
       return res.status(400).json({ error: `Invalid audit action: ${action}`, validActions: VALID_AUDIT_ACTIONS });
     }
 
-    const id = genId();
-    const entry = {
-      id, action, actor, resource, details: details || {},
-      txHash: txHash || undefined, timestamp: new Date().toISOString(),
-    };
-    await auditDb.create(entry);
+    const entry = await appendAuditEntry({ tenant: resolveAuditTenant(req, "write"), action, actor, resource, details, txHash });
 
     return res.json({
-      id, action, actor, resource, recorded: true,
-      note: "Audit entry recorded in persistent storage.",
-      _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: entry.timestamp,
+      id: entry.id, action, actor, resource, recorded: true,
+      tenant: entry.tenant, seq: entry.seq, hash: entry.hash, prevHash: entry.prevHash,
+      note: "Audit entry appended to the tenant's hash chain. It is covered by the next signed checkpoint; use /api/v1/audit/proof to get its inclusion proof.",
+      _gateway: GATEWAY, timestamp: entry.timestamp,
     });
   } catch (error: any) {
-    return res.status(500).json({ error: "Failed to log audit entry", details: error.message });
+    return sendError(res, error, "Failed to log audit entry");
   }
 }
 
@@ -43,8 +241,13 @@ export async function auditQueryHandler(req: Request, res: Response) {
   try {
     const { actor, action, resource, since, until, limit } = req.query;
     const maxResults = Math.min(parseInt(limit as string) || 50, 500);
+    // Without a key or an explicit tenant the query covers the public chain;
+    // only the operator's spans every tenant
+    const scoped = (req as any).apiKeyId || req.query.tenant !== undefined;
+    const tenant = scoped ? resolveAuditTenant(req) : isAuditOperator(req) ? undefined : DEFAULT_TENANT;
 
     const results = await auditDb.query({
+      tenant,
       actor: actor as string,
       action: action as string,
       resource: resource as string,
@@ -55,9 +258,126 @@ export async function auditQueryHandler(req: Request, res: Response) {
 
     return res.json({
       entries: results, total: results.length,
-      _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: new Date().toISOString(),
+      _gateway: GATEWAY, timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return sendError(res, error, "Failed to query audit log");
+  }
+}
+
+/**
+ * GET /api/v1/audit/verify?tenant=&from=&to=
+ * Re-hashes entries from..to, checks every link, and checks each signed
+ * checkpoint whose head falls in the range. From entry 1, checkpoint Merkle
+ * roots are recomputed as well.
+ */
+export async function auditVerifyHandler(req: Request, res: Response) {
+  try {
+    const tenant = resolveAuditTenant(req);
+    const chain = await auditChainDb.get(tenant);
+    if (!chain || chain.headSeq === 0) return res.status(404).json({ error: `No chained audit entries for tenant ${tenant}` });
+
+    const from = req.query.from === undefined ? 1 : Number(req.query.from);
+    const to = req.query.to === undefined ? chain.headSeq : Number(req.query.to);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to < from || to > chain.headSeq) {
+      return res.status(400).json({ error: `from and to must be entry numbers with 1 <= from <= to <= ${chain.headSeq}` });
+    }
+    if (to - from + 1 > MAX_VERIFY_RANGE) {
+      return res.status(400).json({ error: `At most ${MAX_VERIFY_RANGE} entries can be verified per request` });
+    }
+
+    const [before] = from > 1 ? await auditDb.listRange(tenant, from - 1, from - 1) : [];
+    const entries = await auditDb.listRange(tenant, from, to);
+    const firstBreak = from > 1 && !before
+      ? { seq: from - 1, id: null, reason: `entry #${from - 1} is missing` }
+      : verifyChain(entries, before?.hash ?? GENESIS_HASH, from)
+        ?? (entries.length < to - from + 1 ? { seq: from + entries.length, id: null, reason: `entry #${from + entries.length} is missing` } : null);
+    const bySeq = new Map(entries.map((e) => [e.seq, e]));
+
+    const checkpoints = (await auditCheckpointDb.listByTenant(tenant, to))
+      .filter((cp) => cp.treeSize >= from)
+      .map((cp) => ({
+        id: cp.id, treeSize: cp.treeSize, issuedAt: cp.issuedAt, signer: cp.signer, anchor: cp.anchor,
+        headMatches: bySeq.get(cp.treeSize)?.hash === cp.headHash,
+        rootMatches: from === 1 && !firstBreak ? merkleRoot(entries.slice(0, cp.treeSize).map((e) => e.hash)) === cp.rootHash : null,
+        statementMatches: checkpointStatement(cp) === cp.statement,
+        signatureValid: signatureValid(cp),
+      }));
+    const head = to === chain.headSeq ? { seq: chain.headSeq, hash: chain.headHash, matches: bySeq.get(to)?.hash === chain.headHash } : null;
+    const intact = !firstBreak && (head?.matches ?? true)
+      && checkpoints.every((cp) => cp.headMatches && cp.statementMatches && cp.rootMatches !== false && cp.signatureValid !== false);
+
+    return res.json({
+      tenant, from, to, intact, entriesChecked: entries.length, firstBreak,
+      linkedTo: from > 1 ? { seq: from - 1, hash: before?.hash ?? null } : { seq: 0, hash: GENESIS_HASH },
+      head, checkpoints,
+      note: from > 1
+        ? "Links are checked from the entry before `from`; checkpoint roots are recomputed only when verifying from entry 1."
+        : undefined,
+      _gateway: GATEWAY, timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return sendError(res, error, "Failed to verify audit chain");
+  }
+}
+
+/**
+ * GET /api/v1/audit/proof?id=&checkpoint=
+ * Inclusion proof of one entry in a signed checkpoint (the latest, unless
+ * `checkpoint` names one), checkable offline with verifyInclusionProof.
+ */
+export async function auditProofHandler(req: Request, res: Response) {
+  try {
+    const { id, checkpoint: checkpointId } = req.query;
+    if (typeof id !== "string" || !id) return res.status(400).json({ error: "Missing required query param: id" });
+
+    const tenant = resolveAuditTenant(req);
+    const stored = await auditDb.get(id);
+    if (!stored || (stored.tenant ?? DEFAULT_TENANT) !== tenant) return res.status(404).json({ error: `Audit entry ${id} not found for tenant ${tenant}` });
+    if (stored.seq === null) return res.status(409).json({ error: `Audit entry ${id} was recorded before hash chaining and has no proof` });
+
+    const cp = typeof checkpointId === "string" && checkpointId
+      ? await auditCheckpointDb.get(checkpointId)
+      : await auditCheckpointDb.latest(tenant);
+    if (!cp || cp.tenant !== tenant) {
+      return res.status(checkpointId ? 404 : 409).json({
+        error: checkpointId ? `Checkpoint ${checkpointId} not found for tenant ${tenant}` : `No checkpoint has been published for tenant ${tenant} yet`,
+      });
+    }
+    if (cp.treeSize < stored.seq) {
+      return res.status(409).json({
+        error: `Entry #${stored.seq} is newer than checkpoint ${cp.id} (covers 1-${cp.treeSize}); retry after the next checkpoint`,
+      });
+    }
+
+    const hashes = (await auditDb.listRange(tenant, 1, cp.treeSize)).map((e) => e.hash);
+    const { ip: _ip, ...entry } = stored;
+    const proof: InclusionProof = {
+      entry, leafIndex: stored.seq - 1, treeSize: cp.treeSize,
+      path: hashes.length === cp.treeSize ? inclusionPath(hashes, stored.seq - 1) : [],
+      checkpoint: {
+        tenant: cp.tenant, treeSize: cp.treeSize, rootHash: cp.rootHash, headHash: cp.headHash, issuedAt: cp.issuedAt,
+        statement: cp.statement, signature: cp.signature, signer: cp.signer,
+      },
+    };
+    const check = verifyInclusionProof(proof, { verifyMessage });
+    if (!check.checks.entryHash || !check.checks.root) {
+      return res.status(409).json({
+        error: "Stored audit entries no longer match the signed checkpoint — run /api/v1/audit/verify",
+        checks: check.checks, checkpointId: cp.id,
+      });
+    }
+
+    return res.json({
+      ...proof, checkpointId: cp.id, anchor: cp.anchor, valid: check.valid, checks: check.checks,
+      algorithm: {
+        entryHash: "sha256 of the canonical JSON (sorted keys, no whitespace) of { v: 1, tenant, seq, prevHash, id, action, actor, resource, details, txHash, timestamp }",
+        merkle: "RFC 9162 §2.1: leaf = sha256(0x00 || entryHash), node = sha256(0x01 || left || right); verify the path with §2.1.3.2",
+        signature: "EIP-191 personal_sign over checkpoint.statement; recover with ethers.verifyMessage and compare to checkpoint.signer",
+      },
+      _gateway: GATEWAY, timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
-    return res.status(500).json({ error: "Failed to query audit log", details: error.message });
+    return sendError(res, error, "Failed to build audit proof");
   }
 }
@@ -1,54 +1,32 @@
 import { Request, Response } from "express";
 import { ethers } from "ethers";
 import { trackRequest } from "./health.js";
+import {
+  BATCH_CHAIN_KEYS,
+  EvmChainConfig,
+  ResolvedToken,
+  estimateBatchGas,
+  getBatchChain,
+  resolveChainToken,
+} from "../config/chains.js";
+import { chunkItems, chunkRange, chunkSizes, newParentBatchId } from "../lib/batch-chunking.js";
+import { batchDb } from "../db.js";
+import {
+  BatchRecipient,
+  FINAL_STATUSES,
+  REPORTABLE_STATUSES,
+  TRACKED_STATUSES,
+  trackBatch,
+  withBatchMemo,
+} from "../services/batch-tracker.js";
 
 // ============ Contract ============
+// Per-chain contracts, token shortcuts and gas profiles live in the shared
+// chain registry (src/config/chains.ts). Base is the default chain.
 
-const SPRAAY_CONTRACT = "0x1646452F98E36A3c9Cfc3eDD8868221E207B5eEC";
 export const SPRAAY_FEE_BPS = 30; // 0.3% flat for everything
-
-// ============ Popular Tokens (Base Mainnet) ============
-// Convenience lookup — any ERC-20 address works, these are just shortcuts
-
-interface TokenInfo {
-  address: string;
-  symbol: string;
-  decimals: number;
-}
-
-const BASE_TOKENS: Record<string, TokenInfo> = {
-  USDC: {
-    address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-    symbol: "USDC",
-    decimals: 6,
-  },
-  USDT: {
-    address: "0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2",
-    symbol: "USDT",
-    decimals: 6,
-  },
-  EURC: {
-    address: "0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42",
-    symbol: "EURC",
-    decimals: 6,
-  },
-  DAI: {
-    address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
-    symbol: "DAI",
-    decimals: 18,
-  },
-  WETH: {
-    address: "0x4200000000000000000000000000000000000006",
-    symbol: "WETH",
-    decimals: 18,
-  },
-};
-
-// Reverse lookup: address → symbol
-const ADDRESS_TO_SYMBOL: Record<string, string> = {};
-for (const [symbol, info] of Object.entries(BASE_TOKENS)) {
-  ADDRESS_TO_SYMBOL[info.address.toLowerCase()] = symbol;
-}
+const DEFAULT_CHAIN = "base";
+const MAX_RECIPIENTS_PER_TX = 200;
 
 // ============ ABI ============
 
@@ -101,62 +79,40 @@ const SPRAAY_ABI = [
 
 const sprayInterface = new ethers.Interface(SPRAAY_ABI);
 
-// ============ Token Resolution ============
+// ============ Chain + Token Resolution ============
 
-/**
- * Resolve token input to address + decimals + symbol
- * Accepts: symbol ("USDC"), address ("0x..."), or "ETH" for native
- */
-function resolveToken(tokenInput: string): {
-  address: string;
-  decimals: number;
-  symbol: string;
-  isETH: boolean;
-} {
-  if (!tokenInput || tokenInput.toUpperCase() === "ETH") {
-    return {
-      address: ethers.ZeroAddress,
-      decimals: 18,
-      symbol: "ETH",
-      isETH: true,
-    };
-  }
+/** Resolve the `chain` body field (key, alias or chain ID); defaults to Base. */
+function resolveBatchChainInput(chainInput: unknown): EvmChainConfig | null {
+  return getBatchChain(chainInput === undefined || chainInput === null ? DEFAULT_CHAIN : String(chainInput));
+}
 
-  // Check by symbol
-  const upper = tokenInput.toUpperCase();
-  const known = BASE_TOKENS[upper];
-  if (known) {
-    return {
-      address: known.address,
-      decimals: known.decimals,
-      symbol: known.symbol,
-      isETH: false,
-    };
-  }
+function unsupportedChain(res: Response, chainInput: unknown) {
+  return res.status(400).json({
+    error: `Chain "${chainInput}" not supported for batch payments`,
+    supportedChains: BATCH_CHAIN_KEYS,
+  });
+}
 
-  // Check by address
-  if (tokenInput.startsWith("0x") && tokenInput.length === 42) {
-    const sym = ADDRESS_TO_SYMBOL[tokenInput.toLowerCase()] || "ERC20";
-    const knownByAddr = Object.values(BASE_TOKENS).find(
-      (t) => t.address.toLowerCase() === tokenInput.toLowerCase()
-    );
-    return {
-      address: tokenInput,
-      decimals: knownByAddr?.decimals || 18,
-      symbol: sym,
-      isETH: false,
-    };
-  }
+function unknownToken(res: Response, chain: EvmChainConfig, tokenInput: string) {
+  return res.status(400).json({
+    error: `Unknown token "${tokenInput}" on ${chain.name}. Use a symbol (${[chain.nativeSymbol, ...Object.keys(chain.tokens)].join(", ")}) or a token contract address.`,
+  });
+}
 
-  // Default: treat as unknown symbol, caller should provide address
+function tokenBody(token: ResolvedToken) {
   return {
-    address: "",
-    decimals: 18,
-    symbol: tokenInput,
-    isETH: false,
+    symbol: token.symbol,
+    address: token.address,
+    decimals: token.decimals,
+    isETH: token.isNative,
+    isNative: token.isNative,
   };
 }
 
+function chainBody(chain: EvmChainConfig) {
+  return { key: chain.key, name: chain.name, chainId: chain.chainId };
+}
+
 // ============ Batch amount normalization ============
 
 /** Thrown for bad batch input; handlers translate this to HTTP 400. */
@@ -262,45 +218,237 @@ export function batchFee(totalRaw: bigint): bigint {
   return (totalRaw * BigInt(SPRAAY_FEE_BPS)) / BigInt(10000);
 }
 
+/**
+ * Unsigned Spraay call for one set of recipients: sprayETH for native,
+ * sprayToken otherwise. The batch ID rides along as a calldata memo so the
+ * settlement tracker can find the tx (see services/batch-tracker.ts).
+ */
+function buildSprayTransaction(
+  chain: EvmChainConfig,
+  token: ResolvedToken,
+  recipients: NormalizedRecipient[],
+  totalWithFee: bigint,
+  batchId: string
+) {
+  const calldata = token.isNative
+    ? sprayInterface.encodeFunctionData("sprayETH", [recipients])
+    : sprayInterface.encodeFunctionData("sprayToken", [token.address, recipients]);
+  return {
+    to: chain.spraayContract,
+    data: withBatchMemo(calldata, batchId),
+    value: token.isNative ? totalWithFee.toString() : "0",
+    chainId: chain.chainId,
+  };
+}
+
+/**
+ * Split a resolved batch into transactions of at most MAX_RECIPIENTS_PER_TX
+ * (see src/lib/batch-chunking.ts). The fee is taken per chunk, so the summary
+ * totals are the sums of what each transaction actually charges.
+ */
+function buildChunkedBatch(
+  chain: EvmChainConfig,
+  token: ResolvedToken,
+  recipients: NormalizedRecipient[],
+  parentBatchId: string | null
+) {
+  let totalRaw = 0n;
+  let feeRaw = 0n;
+  let estimatedGas = 0;
+  const chunks = chunkItems(recipients, MAX_RECIPIENTS_PER_TX).map((chunk) => {
+    const chunkTotal = chunk.items.reduce((sum, r) => sum + r.amount, 0n);
+    const chunkFee = batchFee(chunkTotal);
+    const gas = estimateBatchGas(chain, chunk.items.length, token.isNative);
+    totalRaw += chunkTotal;
+    feeRaw += chunkFee;
+    estimatedGas += gas;
+    return {
+      index: chunk.index,
+      recipientRange: chunkRange(chunk),
+      recipientCount: chunk.items.length,
+      totalAmount: ethers.formatUnits(chunkTotal, token.decimals),
+      fee: ethers.formatUnits(chunkFee, token.decimals),
+      totalWithFee: ethers.formatUnits(chunkTotal + chunkFee, token.decimals),
+      estimatedGas: gas.toString(),
+      ...(parentBatchId
+        ? {
+            batchId: chunkBatchId(parentBatchId, chunk.index),
+            transaction: buildSprayTransaction(chain, token, chunk.items, chunkTotal + chunkFee, chunkBatchId(parentBatchId, chunk.index)),
+          }
+        : {}),
+    };
+  });
+
+  return {
+    summary: {
+      recipientCount: recipients.length,
+      chunkCount: chunks.length,
+      maxPerChunk: MAX_RECIPIENTS_PER_TX,
+      totalAmount: ethers.formatUnits(totalRaw, token.decimals),
+      fee: ethers.formatUnits(feeRaw, token.decimals),
+      feePercent: "0.3%",
+      totalWithFee: ethers.formatUnits(totalRaw + feeRaw, token.decimals),
+      totalWithFeeRaw: (totalRaw + feeRaw).toString(),
+      estimatedGas: estimatedGas.toString(),
+    },
+    chunks,
+  };
+}
+
+// ============ Settlement tracking ============
+// Each executed batch (each chunk, when chunked) is stored so the tracker can
+// confirm it on-chain — see src/services/batch-tracker.ts.
+
+function chunkBatchId(parentBatchId: string, index: number): string {
+  return `${parentBatchId}_${index}`;
+}
+
+async function recordBatch(
+  id: string,
+  chain: EvmChainConfig,
+  token: ResolvedToken,
+  recipients: NormalizedRecipient[],
+  offset: number,
+  sender: unknown,
+  parent?: { parentBatchId: string; chunkIndex: number }
+) {
+  const totalRaw = recipients.reduce((sum, r) => sum + r.amount, 0n);
+  const stored: BatchRecipient[] = recipients.map((r, i) => ({
+    index: offset + i,
+    address: r.recipient,
+    amount: ethers.formatUnits(r.amount, token.decimals),
+    amountRaw: r.amount.toString(),
+  }));
+  await batchDb.create({
+    id,
+    parentBatchId: parent?.parentBatchId,
+    chunkIndex: parent?.chunkIndex,
+    chain: chain.key,
+    chainId: chain.chainId,
+    contract: chain.spraayContract,
+    token: { symbol: token.symbol, address: token.address, decimals: token.decimals, isNative: token.isNative },
+    sender: typeof sender === "string" && ethers.isAddress(sender) ? sender : null,
+    recipients: stored,
+    totalRaw: totalRaw.toString(),
+    feeRaw: batchFee(totalRaw).toString(),
+    status: "awaiting_tx",
+    createdAt: new Date().toISOString(),
+  });
+}
+
+function trackingBody(batchId: string) {
+  return {
+    batchId,
+    status: `/api/v1/batch/${batchId}`,
+    receipt: `/api/v1/batch/${batchId}?format=csv`,
+    report: "/api/v1/batch/report",
+  };
+}
+
 // ============ Handlers ============
 
+async function chunkedExecuteResponse(
+  req: Request,
+  chain: EvmChainConfig,
+  token: ResolvedToken,
+  recipients: NormalizedRecipient[],
+  sender: unknown
+) {
+  const parentBatchId = newParentBatchId();
+  const { summary, chunks } = buildChunkedBatch(chain, token, recipients, parentBatchId);
+  for (const chunk of chunkItems(recipients, MAX_RECIPIENTS_PER_TX)) {
+    await recordBatch(chunkBatchId(parentBatchId, chunk.index), chain, token, chunk.items, chunk.offset, sender,
+      { parentBatchId, chunkIndex: chunk.index });
+  }
+
+  const response: any = {
+    success: true,
+    chunked: true,
+    parentBatchId,
+    chain: chainBody(chain),
+    contract: chain.spraayContract,
+    token: tokenBody(token),
+    batch: summary,
+    chunks,
+    tracking: trackingBody(parentBatchId),
+  };
+
+  // One allowance covers every chunk — each sprayToken call draws down its share
+  if (!token.isNative) {
+    response.approvalRequired = {
+      token: token.address,
+      spender: chain.spraayContract,
+      amount: summary.totalWithFeeRaw,
+      amountFormatted: summary.totalWithFee,
+    };
+  }
+  if (!token.known) {
+    response.warning = `Token ${token.address} is not in the ${chain.name} registry — decimals assumed to be 18. Verify before signing.`;
+  }
+  response.instructions = [
+    ...(token.isNative ? [] : ["Sign and submit the approval transaction once for the combined total"]),
+    `Sign and submit the ${chunks.length} chunk transactions — they are independent and can land in any order`,
+    `Report each chunk's tx hash with its batchId to POST /api/v1/batch/report (token batches are also detected automatically); a mix of settled and failed chunks fires batch.partial_failure for ${parentBatchId}`,
+  ];
+
+  // 💧 Loop-native webhook callback, keyed by the parent batch ID
+  if (req.webhookCallback) {
+    response.webhook = await req.webhookCallback('batch.created', {
+      batch_id: parentBatchId,
+      chunk_count: chunks.length,
+      recipient_count: recipients.length,
+      token: token.symbol,
+      chain: chain.key,
+      chain_id: chain.chainId,
+      total_amount: summary.totalAmount,
+      total_with_fee: summary.totalWithFee,
+      contract: chain.spraayContract,
+    }, { batchId: parentBatchId });
+  }
+  return response;
+}
+
 /**
  * POST /api/v1/batch/execute
  *
- * Batch payment via Spraay V2 — any ERC-20 token or native ETH.
+ * Batch payment via Spraay V2 — any ERC-20 token or the chain's native asset.
  *
  * Body:
  * {
+ *   "chain": "base" | "ethereum" | "arbitrum" | "polygon" | "bnb" | "avalanche" | "unichain" | 8453 | ...,
  *   "token": "USDC" | "ETH" | "0x833589..." | "USDT" | "DAI" | etc,
  *   "recipients": [
  *     { "address": "0x123...", "amount": "10.00" },
  *     { "address": "0x456...", "amount": "25.50" }
  *   ],
- *   "sender": "0xYour..."   // for approval encoding
+ *   "sender": "0xYour...",  // for approval encoding
+ *   "chunk": true           // optional: split more than 200 recipients into several transactions
  * }
  *
- * Token defaults to USDC if not provided (backward compatible).
+ * Chain defaults to Base and token to USDC if not provided (backward compatible).
  */
 export async function batchPaymentHandler(req: Request, res: Response) {
   trackRequest("/api/v1/batch/execute");
   try {
-    const { token: tokenInput = "USDC", recipients, amounts, sender } = req.body;
+    const { chain: chainInput, token: tokenInput = "USDC", recipients, amounts, sender, chunk } = req.body;
+
+    const chain = resolveBatchChainInput(chainInput);
+    if (!chain) return unsupportedChain(res, chainInput);
 
     if (!recipients || !Array.isArray(recipients) || recipients.length === 0) {
       return res.status(400).json({ error: "recipients array required" });
     }
-    if (recipients.length > 200) {
-      return res.status(400).json({ error: "Maximum 200 recipients" });
-    }
-
-    // Resolve token
-    const token = resolveToken(tokenInput);
-    if (!token.isETH && !token.address) {
+    if (recipients.length > MAX_RECIPIENTS_PER_TX && chunk !== true) {
       return res.status(400).json({
-        error: `Unknown token "${tokenInput}". Use a symbol (USDC, USDT, DAI, EURC, ETH) or a token contract address.`,
+        error: `Maximum ${MAX_RECIPIENTS_PER_TX} recipients`,
+        hint: 'Pass "chunk": true to split the batch into multiple transactions',
       });
     }
 
+    // Resolve token against this chain's registry
+    const token = resolveChainToken(chain, tokenInput);
+    if (!token.isNative && !token.address) return unknownToken(res, chain, tokenInput);
+
     // Normalize both accepted body shapes into raw base units (see resolveBatchAmounts).
     const { onchainRecipients, totalRaw } = resolveBatchAmounts(
       recipients,
@@ -308,70 +456,58 @@ export async function batchPaymentHandler(req: Request, res: Response) {
       token.decimals
     );
 
+    if (chunk === true) {
+      return res.json(await chunkedExecuteResponse(req, chain, token, onchainRecipients, sender));
+    }
+
     const feeRaw = batchFee(totalRaw);
     const totalWithFee = totalRaw + feeRaw;
-
-    // Encode calldata
-    let calldata: string;
-    let txValue: string;
-
-    if (token.isETH) {
-      calldata = sprayInterface.encodeFunctionData("sprayETH", [
-        onchainRecipients,
-      ]);
-      txValue = totalWithFee.toString();
-    } else {
-      calldata = sprayInterface.encodeFunctionData("sprayToken", [
-        token.address,
-        onchainRecipients,
-      ]);
-      txValue = "0";
-    }
+    const batchId = newParentBatchId();
+    await recordBatch(batchId, chain, token, onchainRecipients, 0, sender);
 
     const response: any = {
       success: true,
-      contract: SPRAAY_CONTRACT,
-      token: {
-        symbol: token.symbol,
-        address: token.address,
-        decimals: token.decimals,
-        isETH: token.isETH,
-      },
+      batchId,
+      chain: chainBody(chain),
+      contract: chain.spraayContract,
+      token: tokenBody(token),
       batch: {
         recipientCount: recipients.length,
         totalAmount: ethers.formatUnits(totalRaw, token.decimals),
         fee: ethers.formatUnits(feeRaw, token.decimals),
         feePercent: "0.3%",
         totalWithFee: ethers.formatUnits(totalWithFee, token.decimals),
+        estimatedGas: estimateBatchGas(chain, recipients.length, token.isNative).toString(),
       },
-      transaction: {
-        to: SPRAAY_CONTRACT,
-        data: calldata,
-        value: txValue,
-        chainId: 8453,
-      },
+      transaction: buildSprayTransaction(chain, token, onchainRecipients, totalWithFee, batchId),
+      tracking: trackingBody(batchId),
     };
 
     // ERC-20 tokens need approval
-    if (!token.isETH) {
+    if (!token.isNative) {
       response.approvalRequired = {
         token: token.address,
-        spender: SPRAAY_CONTRACT,
+        spender: chain.spraayContract,
         amount: totalWithFee.toString(),
         amountFormatted: ethers.formatUnits(totalWithFee, token.decimals),
       };
     }
+    if (!token.known) {
+      response.warning = `Token ${token.address} is not in the ${chain.name} registry — decimals assumed to be 18. Verify before signing.`;
+    }
 
     // 💧 Loop-native webhook callback
     if (req.webhookCallback) {
       const webhook = await req.webhookCallback('batch.created', {
+        batch_id: batchId,
         recipient_count: recipients.length,
         token: token.symbol,
-        chain: 'base',
+        chain: chain.key,
+        chain_id: chain.chainId,
         total_amount: ethers.formatUnits(totalRaw, token.decimals),
         total_with_fee: ethers.formatUnits(totalWithFee, token.decimals),
-        contract: SPRAAY_CONTRACT,
-      });
+        contract: chain.spraayContract,
+      }, { batchId });
       response.webhook = webhook;
     }
     return res.json(response);
@@ -384,14 +520,16 @@ export async function batchPaymentHandler(req: Request, res: Response) {
 /**
  * POST /api/v1/batch/estimate
  *
- * Estimate batch payment cost — any token or ETH.
+ * Estimate batch payment cost — any token or native asset, on any batch chain.
  *
  * Body:
  * {
+ *   "chain": "arbitrum",   // optional, defaults to base
  *   "token": "USDC" | "ETH" | "0x...",
  *   "recipients": [
  *     { "address": "0x123...", "amount": "10.00" }
- *   ]
+ *   ],
+ *   "chunk": true          // optional: quote per-transaction chunks past 200 recipients
  * }
  *
  * Or simple format:
@@ -403,52 +541,271 @@ export async function batchPaymentHandler(req: Request, res: Response) {
 export async function batchEstimateHandler(req: Request, res: Response) {
   trackRequest("/api/v1/batch/estimate");
   try {
-    const { token: tokenInput = "USDC", recipients, amounts, recipientCount } = req.body;
+    const { chain: chainInput, token: tokenInput = "USDC", recipients, amounts, recipientCount, chunk } = req.body;
+
+    const chain = resolveBatchChainInput(chainInput);
+    if (!chain) return unsupportedChain(res, chainInput);
 
-    // Resolve token
-    const token = resolveToken(tokenInput);
+    // Resolve token — same registry lookup as execute
+    const token = resolveChainToken(chain, tokenInput);
+    if (!token.isNative && !token.address) return unknownToken(res, chain, tokenInput);
 
     // Detailed estimate: same normalization + fee math as the execute path,
     // so a quote can never disagree with what execute will charge.
     if (recipients && Array.isArray(recipients) && recipients.length > 0) {
-      const { totalRaw } = resolveBatchAmounts(recipients, amounts, token.decimals);
+      const { onchainRecipients, totalRaw } = resolveBatchAmounts(recipients, amounts, token.decimals);
+      if (chunk === true) {
+        const { summary, chunks } = buildChunkedBatch(chain, token, onchainRecipients, null);
+        return res.json({
+          success: true,
+          chunked: true,
+          chain: chainBody(chain),
+          contract: chain.spraayContract,
+          token: tokenBody(token),
+          ...summary,
+          chunks,
+        });
+      }
       const feeRaw = batchFee(totalRaw);
 
       return res.json({
         success: true,
-        token: {
-          symbol: token.symbol,
-          address: token.address,
-          decimals: token.decimals,
-          isETH: token.isETH,
-        },
+        chain: chainBody(chain),
+        contract: chain.spraayContract,
+        token: tokenBody(token),
         recipientCount: recipients.length,
         totalAmount: ethers.formatUnits(totalRaw, token.decimals),
         fee: ethers.formatUnits(feeRaw, token.decimals),
         feePercent: "0.3%",
         totalWithFee: ethers.formatUnits(totalRaw + feeRaw, token.decimals),
+        estimatedGas: estimateBatchGas(chain, recipients.length, token.isNative).toString(),
       });
     }
 
     // Simple format: just recipient count for gas estimation
     const count = recipientCount || 1;
-    const baseGas = 50000;
-    const perRecipientGas = token.isETH ? 30000 : 65000;
-    const estimatedGas = baseGas + perRecipientGas * count;
+
+    if (chunk === true && count > MAX_RECIPIENTS_PER_TX) {
+      const sizes = chunkSizes(count, MAX_RECIPIENTS_PER_TX);
+      const gas = sizes.map((n) => estimateBatchGas(chain, n, token.isNative));
+      return res.json({
+        success: true,
+        chunked: true,
+        chain: chainBody(chain),
+        token: { symbol: token.symbol, isETH: token.isNative, isNative: token.isNative },
+        recipientCount: count,
+        chunkCount: sizes.length,
+        maxPerChunk: MAX_RECIPIENTS_PER_TX,
+        feePercent: "0.3%",
+        estimatedGas: gas.reduce((a, b) => a + b, 0).toString(),
+        chunks: sizes.map((n, i) => ({ index: i, recipientCount: n, estimatedGas: gas[i].toString() })),
+        note: "Gas estimate is approximate. Provide recipients array for exact per-chunk fees.",
+      });
+    }
 
     return res.json({
       success: true,
+      chain: chainBody(chain),
       token: {
         symbol: token.symbol,
-        isETH: token.isETH,
+        isETH: token.isNative,
+        isNative: token.isNative,
       },
       recipientCount: count,
       feePercent: "0.3%",
-      estimatedGas: estimatedGas.toString(),
+      estimatedGas: estimateBatchGas(chain, count, token.isNative).toString(),
       note: "Gas estimate is approximate. Provide recipients array for exact fee calculation.",
     });
   } catch (err: any) {
     const status = err?.status === 400 ? 400 : 500;
     return res.status(status).json({ error: err.message });
   }
-}
\ No newline at end of file
+}
+
+// ============ Settlement status + receipts ============
+
+const TX_HASH_RE = /^0x[0-9a-fA-F]{64}$/;
+
+function batchView(batch: any) {
+  const chain = getBatchChain(batch.chain);
+  const settlement = batch.settlement || {};
+  const byIndex = new Map<number, any>((settlement.recipients || []).map((r: any) => [r.index, r]));
+  const recipients = batch.recipients.map((r: BatchRecipient) => {
+    const s = byIndex.get(r.index);
+    return {
+      index: r.index,
+      address: r.address,
+      amount: r.amount,
+      status: s?.status ?? "pending",
+      logIndex: s?.logIndex ?? null,
+      evidence: s?.evidence ?? null,
+    };
+  });
+  return {
+    batchId: batch.id,
+    ...(batch.parentBatchId ? { parentBatchId: batch.parentBatchId, chunkIndex: batch.chunkIndex } : {}),
+    status: batch.status,
+    chain: { key: batch.chain, chainId: batch.chainId },
+    contract: batch.contract,
+    token: { symbol: batch.token.symbol, address: batch.token.address, decimals: batch.token.decimals },
+    totalAmount: ethers.formatUnits(BigInt(batch.totalRaw), batch.token.decimals),
+    fee: ethers.formatUnits(BigInt(batch.feeRaw), batch.token.decimals),
+    txHash: batch.txHash,
+    txSource: batch.txSource,
+    explorerUrl: batch.txHash && chain ? `${chain.explorer}/tx/${batch.txHash}` : null,
+    blockNumber: settlement.blockNumber ?? null,
+    confirmations: settlement.confirmations ?? 0,
+    requiredConfirmations: settlement.requiredConfirmations ?? null,
+    recipientCount: recipients.length,
+    confirmedRecipients: recipients.filter((r: any) => r.status === "confirmed").length,
+    reason: settlement.reason ?? null,
+    recipients,
+    createdAt: batch.createdAt,
+    settledAt: batch.settledAt,
+  };
+}
+
+/** Roll chunk statuses up to the parent: settled, failed or partial_failure once all are final. */
+function parentStatus(chunks: any[]): string {
+  if (chunks.every((c) => c.status === "settled")) return "settled";
+  if (!chunks.every((c) => FINAL_STATUSES.includes(c.status))) return "in_progress";
+  return chunks.some((c) => c.status === "settled") ? "partial_failure" : "failed";
+}
+
+function parentView(parentBatchId: string, chunks: any[]) {
+  const views = chunks.map(batchView);
+  const recipients = views.flatMap((v) => v.recipients.map((r: any) => ({ ...r, chunkIndex: v.chunkIndex, txHash: v.txHash })));
+  return {
+    batchId: parentBatchId,
+    chunked: true,
+    status: parentStatus(chunks),
+    chain: views[0].chain,
+    contract: views[0].contract,
+    token: views[0].token,
+    chunkCount: chunks.length,
+    recipientCount: recipients.length,
+    confirmedRecipients: recipients.filter((r) => r.status === "confirmed").length,
+    chunks: views.map(({ recipients: _recipients, ...chunk }) => chunk),
+    recipients,
+    createdAt: views[0].createdAt,
+  };
+}
+
+function receiptCsv(view: any): string {
+  const header = ["batch_id", "index", "address", "amount", "token", "chain_id", "status", "tx_hash", "block_number", "log_index"];
+  const chunkById = new Map<number, any>((view.chunks || []).map((c: any) => [c.chunkIndex, c]));
+  const lines = view.recipients.map((r: any) => {
+    const source = view.chunked ? chunkById.get(r.chunkIndex) : view;
+    return [
+      source.batchId, r.index, r.address, r.amount, view.token.symbol, view.chain.chainId, r.status,
+      source.txHash ?? "", source.blockNumber ?? "", r.logIndex ?? "",
+    ].join(",");
+  });
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
+
+/**
+ * GET /api/v1/batch/:id
+ *
+ * Settlement status of an executed batch with per-recipient results. Works for
+ * a single batch, one chunk, or a chunked parent (rolled up across chunks).
+ * `?format=csv` downloads the same data as a receipt.
+ */
+export async function batchStatusHandler(req: Request, res: Response) {
+  trackRequest("/api/v1/batch/:id");
+  try {
+    const id = (req.params.id as string).toLowerCase();
+    const format = String(req.query.format || "json").toLowerCase();
+    if (format !== "json" && format !== "csv") {
+      return res.status(400).json({ error: `Unsupported format "${format}". Use json or csv.` });
+    }
+
+    const batch = await batchDb.get(id);
+    let view: any;
+    if (batch) {
+      view = batchView(batch);
+    } else {
+      const chunks = await batchDb.listByParent(id);
+      if (chunks.length === 0) return res.status(404).json({ error: `Batch not found: ${id}` });
+      view = parentView(id, chunks);
+    }
+
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="spraay-${view.batchId}-receipt.csv"`);
+      return res.send(receiptCsv(view));
+    }
+
+    return res.json({
+      success: true,
+      batch: view,
+      receiptUrl: `/api/v1/batch/${view.batchId}?format=csv`,
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: "/api/v1/batch/:id" },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (err: any) {
+    return res.status(500).json({ error: "Failed to load batch", details: err.message });
+  }
+}
+
+/**
+ * POST /api/v1/batch/report
+ *
+ * Report the tx hash a batch (or one chunk) was submitted in, then check it
+ * right away. The tracker keeps polling until it settles, or gives up after
+ * BATCH_DETECT_TTL_HOURS if the tx never appears. Batches executed with a
+ * `sender` only take reports naming that sender.
+ *
+ * Body: { "batchId": "batch_1a2b...", "txHash": "0x...", "sender": "0x..." }
+ */
+export async function batchReportHandler(req: Request, res: Response) {
+  trackRequest("/api/v1/batch/report");
+  try {
+    const { batchId, txHash, sender } = req.body;
+    if (!batchId || !txHash) {
+      return res.status(400).json({ error: "batchId and txHash are required", example: { batchId: "batch_1a2b3c4d5e6f7a8b", txHash: "0x...", sender: "0x..." } });
+    }
+    if (typeof txHash !== "string" || !TX_HASH_RE.test(txHash)) return res.status(400).json({ error: "Invalid txHash" });
+
+    let batch: any = await batchDb.get(String(batchId));
+    if (!batch) {
+      const chunks = await batchDb.listByParent(String(batchId));
+      if (chunks.length === 0) return res.status(404).json({ error: `Batch not found: ${batchId}` });
+      return res.status(400).json({
+        error: "Chunked batch: report each chunk's tx hash against the chunk's batchId",
+        chunks: chunks.map((c: any) => ({ batchId: c.id, chunkIndex: c.chunkIndex, status: c.status, txHash: c.txHash })),
+      });
+    }
+
+    if (batch.sender && (typeof sender !== "string" || sender.toLowerCase() !== batch.sender.toLowerCase())) {
+      return res.status(403).json({ error: "Only the batch's sender can report its tx — send the sender address the batch was executed with" });
+    }
+
+    if (batch.txHash?.toLowerCase() !== txHash.toLowerCase()) {
+      if (!REPORTABLE_STATUSES.includes(batch.status)) {
+        return res.status(409).json({ error: `Batch already tracked with tx ${batch.txHash} (status: ${batch.status})` });
+      }
+      const claimedBy = await batchDb.findByTxHash(txHash);
+      if (claimedBy && claimedBy.id !== batch.id) {
+        return res.status(409).json({ error: "txHash already reported for another batch", batchId: claimedBy.id });
+      }
+      const updates = { status: "submitted", txHash, txSource: "reported", settlement: null };
+      if (!(await batchDb.transition(batch.id, REPORTABLE_STATUSES, updates))) {
+        return res.status(409).json({ error: "Batch status changed while reporting — fetch it and try again" });
+      }
+      batch = { ...batch, ...updates };
+    }
+
+    if (TRACKED_STATUSES.includes(batch.status)) await trackBatch(batch);
+    const fresh = await batchDb.get(batch.id);
+
+    return res.json({
+      success: true,
+      batch: batchView(fresh),
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: "/api/v1/batch/report" },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (err: any) {
+    return res.status(500).json({ error: "Failed to report batch tx", details: err.message });
+  }
+}
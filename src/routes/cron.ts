@@ -1,37 +1,99 @@
 import { Request, Response } from "express";
-import { cronDb } from "../db.js";
+import { cronDb, cronRunsDb } from "../db.js";
+import { triggerCronJob } from "../services/cron-scheduler.js";
+import { auditActor } from "../middleware/audit-trail.js";
+import { parseCronExpression, nextCronRun, isValidTimezone, CronExpressionError, CronSchedule } from "../lib/cron-expression.js";
 
 const VALID_ACTIONS = [
-  "batch.execute", "payroll.execute", "swap.execute", "bridge.execute",
+  "batch.execute", "payroll.execute", "swap.execute", "bridge.quote",
   "webhook.trigger", "notify.email", "notify.sms", "xmtp.send",
   "analytics.snapshot", "invoice.remind",
 ];
 
+// cron/create is paid once, but these actions send messages or hit paid
+// upstreams on every run, so their jobs must be bounded: a run cap and a
+// minimum spacing between occurrences
+const SIDE_EFFECT_ACTIONS = ["swap.execute", "notify.email", "notify.sms", "xmtp.send", "invoice.remind"];
+const SIDE_EFFECT_MAX_RUNS = 100;
+const SIDE_EFFECT_MIN_INTERVAL_MS = 60 * 60_000;
+
+/** Shortest gap between the schedule's next `samples` occurrences. */
+function shortestInterval(schedule: CronSchedule, first: Date, timezone: string, samples = 24): number {
+  let shortest = Infinity;
+  let prev = first;
+  for (let i = 0; i < samples; i++) {
+    const next = nextCronRun(schedule, prev, timezone);
+    if (!next) break;
+    shortest = Math.min(shortest, next.getTime() - prev.getTime());
+    prev = next;
+  }
+  return shortest;
+}
+
+/**
+ * Only the job's creator — the same API key or paying wallet, as the audit
+ * trail names callers — may run, pause, resume or cancel it, or read its
+ * run output. Jobs created before owners were recorded have none.
+ */
+function ownsJob(job: any, req: Request, res: Response): boolean {
+  return !!job.owner && job.owner === auditActor(req, res).actor;
+}
+
+function notOwner(res: Response, verb: string) {
+  return res.status(403).json({ error: `Only the job's creator (same API key or paying wallet) can ${verb} it` });
+}
+
 function genId(): string { return `cron_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`; }
 
 export async function cronCreateHandler(req: Request, res: Response) {
   try {
-    const { action, schedule, payload, maxRuns, metadata } = req.body;
+    const { action, schedule, payload, maxRuns, metadata, timezone = "UTC" } = req.body;
     if (!action || !schedule || !payload) return res.status(400).json({ error: "Missing required fields: action, schedule, payload" });
+    if (action === "bridge.execute") return res.status(400).json({ error: "bridge.execute only fetches a quote — use the bridge.quote action", validActions: VALID_ACTIONS });
     if (!VALID_ACTIONS.includes(action)) return res.status(400).json({ error: `Invalid action: ${action}`, validActions: VALID_ACTIONS });
+    if (action === "invoice.remind" && payload.channels !== undefined) {
+      return res.status(400).json({ error: "invoice.remind jobs remind through each invoice's own channels — channel overrides need a fresh creator signature" });
+    }
 
-    const parts = schedule.split(" ");
-    if (parts.length !== 5) return res.status(400).json({ error: "Invalid cron expression. Use 5-part format: min hour dom mon dow" });
+    let parsed;
+    try {
+      parsed = parseCronExpression(schedule);
+    } catch (err: any) {
+      if (err instanceof CronExpressionError) return res.status(400).json({ error: err.message, schedule });
+      throw err;
+    }
+    if (typeof timezone !== "string" || !isValidTimezone(timezone)) {
+      return res.status(400).json({ error: `Invalid timezone: ${timezone}. Use an IANA name like "UTC" or "America/New_York"` });
+    }
+    if (maxRuns !== undefined && maxRuns !== null && (!Number.isInteger(maxRuns) || maxRuns < 1)) {
+      return res.status(400).json({ error: "maxRuns must be a positive integer" });
+    }
 
     const id = genId();
     const now = new Date();
-    const nextRun = new Date(now.getTime() + 60000).toISOString();
+    const next = nextCronRun(parsed, now, timezone);
+    if (!next) return res.status(400).json({ error: "Schedule never fires (e.g. Feb 31)", schedule });
+    const nextRun = next.toISOString();
+
+    if (SIDE_EFFECT_ACTIONS.includes(action)) {
+      if (!maxRuns || maxRuns > SIDE_EFFECT_MAX_RUNS) {
+        return res.status(400).json({ error: `${action} jobs need maxRuns between 1 and ${SIDE_EFFECT_MAX_RUNS}` });
+      }
+      if (shortestInterval(parsed, next, timezone) < SIDE_EFFECT_MIN_INTERVAL_MS) {
+        return res.status(400).json({ error: `${action} jobs can run at most once every ${SIDE_EFFECT_MIN_INTERVAL_MS / 60_000} minutes`, schedule });
+      }
+    }
 
+    const owner = auditActor(req, res).actor;
     await cronDb.create({
-      id, action, schedule, payload, status: "active",
+      id, action, schedule, timezone, payload, status: "active",
       createdAt: now.toISOString(), nextRun, runCount: 0,
-      maxRuns: maxRuns || null, metadata: metadata || {},
+      maxRuns: maxRuns || null, metadata: metadata || {}, owner,
     });
 
     return res.json({
-      id, action, schedule, status: "active", nextRun,
-      maxRuns: maxRuns || "unlimited",
-      note: "Job scheduled. Production uses Bull/BullMQ with Redis for reliable scheduling.",
+      id, action, schedule, timezone, status: "active", nextRun,
+      maxRuns: maxRuns || "unlimited", owner,
       _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
@@ -48,8 +110,9 @@ export async function cronListHandler(req: Request, res: Response) {
 
     return res.json({
       jobs: results.map((j: any) => ({
-        id: j.id, action: j.action, schedule: j.schedule, status: j.status,
-        nextRun: j.next_run, lastRun: j.last_run, runCount: j.run_count,
+        id: j.id, action: j.action, schedule: j.schedule, timezone: j.timezone || "UTC", status: j.status,
+        nextRun: j.next_run, lastRun: j.last_run, runCount: j.run_count, maxRuns: j.max_runs,
+        lastStatus: j.last_status || null, lastError: j.last_error || null, failCount: j.fail_count || 0,
       })),
       total: results.length,
       _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: new Date().toISOString(),
@@ -65,9 +128,10 @@ export async function cronCancelHandler(req: Request, res: Response) {
     if (!jobId) return res.status(400).json({ error: "Missing required field: jobId" });
     const job = await cronDb.get(jobId);
     if (!job) return res.status(404).json({ error: "Job not found", jobId });
+    if (!ownsJob(job, req, res)) return notOwner(res, "cancel");
     if (job.status === "cancelled") return res.status(400).json({ error: "Job already cancelled" });
 
-    await cronDb.update(jobId, { status: "cancelled" });
+    await cronDb.update(jobId, { status: "cancelled", nextRun: null });
     return res.json({
       jobId, status: "cancelled", runCount: job.run_count,
       _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: new Date().toISOString(),
@@ -76,3 +140,93 @@ export async function cronCancelHandler(req: Request, res: Response) {
     return res.status(500).json({ error: "Failed to cancel job", details: error.message });
   }
 }
+
+export async function cronRunsHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+    const job = await cronDb.get(id);
+    if (!job) return res.status(404).json({ error: "Job not found", jobId: id });
+
+    // Run output carries the action's full response (tx payloads, message ids)
+    const owner = ownsJob(job, req, res);
+    const { runs, total } = await cronRunsDb.list(id, { limit, offset });
+    return res.json({
+      jobId: id, action: job.action,
+      runs: runs.map((r: any) => ({
+        id: r.id, trigger: r.trigger, status: r.status, httpStatus: r.http_status,
+        startedAt: r.started_at, finishedAt: r.finished_at, durationMs: r.duration_ms,
+        ...(owner ? { output: r.output } : {}), error: r.error,
+      })),
+      ...(owner ? {} : { note: "Run output is shown only to the job's creator" }),
+      total, limit, offset, hasMore: offset + runs.length < total,
+      _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to list job runs", details: error.message });
+  }
+}
+
+export async function cronTriggerHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const job = await cronDb.get(id);
+    if (!job) return res.status(404).json({ error: "Job not found", jobId: id });
+    if (!ownsJob(job, req, res)) return notOwner(res, "trigger");
+    if (job.status === "cancelled") return res.status(400).json({ error: "Cannot trigger a cancelled job" });
+
+    const run = await triggerCronJob(job);
+    return res.json({
+      jobId: id, runId: run.runId || null, trigger: "manual",
+      status: run.ok ? "success" : "failed", httpStatus: run.status, durationMs: run.durationMs,
+      output: run.output, error: run.error,
+      _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to trigger job", details: error.message });
+  }
+}
+
+export async function cronPauseHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const job = await cronDb.get(id);
+    if (!job) return res.status(404).json({ error: "Job not found", jobId: id });
+    if (!ownsJob(job, req, res)) return notOwner(res, "pause");
+    if (job.status !== "active") return res.status(400).json({ error: `Only active jobs can be paused (status: ${job.status})` });
+
+    await cronDb.update(id, { status: "paused", nextRun: null });
+    return res.json({
+      jobId: id, status: "paused", runCount: job.run_count,
+      _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to pause job", details: error.message });
+  }
+}
+
+export async function cronResumeHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const job = await cronDb.get(id);
+    if (!job) return res.status(404).json({ error: "Job not found", jobId: id });
+    if (!ownsJob(job, req, res)) return notOwner(res, "resume");
+    if (job.status !== "paused" && job.status !== "failed") {
+      return res.status(400).json({ error: `Only paused or failed jobs can be resumed (status: ${job.status})` });
+    }
+
+    // Occurrences missed while paused are skipped, not replayed
+    const next = nextCronRun(job.schedule, new Date(), job.timezone || "UTC");
+    if (!next) return res.status(400).json({ error: "Schedule never fires again", schedule: job.schedule });
+    const nextRun = next.toISOString();
+
+    await cronDb.update(id, { status: "active", nextRun, failCount: 0 });
+    return res.json({
+      jobId: id, status: "active", nextRun,
+      _gateway: { provider: "spraay-x402", version: "2.9.0" }, timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to resume job", details: error.message });
+  }
+}
@@ -11,6 +11,13 @@ import {
 } from "ethers";
 import { trackRequest } from "./health.js";
 import { escrowDb } from "../db.js";
+import { verifyEscrowFunding, escrowHoldingAddress, ESCROW_MIN_CONFIRMATIONS } from "../services/escrow-funding.js";
+import {
+  EscrowDispute, DisputeError, DISPUTE_WINDOW_HOURS, DEFAULT_DISPUTE_BPS,
+  splitToBps, parseEvidence,
+} from "../lib/escrow-dispute.js";
+import { buildMilestones, remainingRaw, transitionMilestone, milestoneSummary, Milestone, MilestoneError } from "../lib/escrow-milestones.js";
+import { settleDispute } from "../services/escrow-disputes.js";
 
 const RPC_URL = process.env.BASE_RPC_URL || "https://mainnet.base.org";
 const CHAIN_ID = 8453;
@@ -40,6 +47,28 @@ function resolveEscrowToken(input: string): EscrowToken | null {
   return null;
 }
 
+const TX_HASH_RE = /^0x[0-9a-fA-F]{64}$/;
+
+/** Unsigned token.transfer the depositor signs to move funds into escrow custody. */
+function fundingTransaction(escrow: any, holdingAddress: string) {
+  const data = new Interface(ERC20_ABI).encodeFunctionData("transfer", [holdingAddress, BigInt(escrow.amountRaw)]);
+  return { to: escrow.token.address, data, value: "0x0", chainId: CHAIN_ID, signer: escrow.depositor };
+}
+
+function fundingView(escrow: any) {
+  return {
+    status: escrow.fundingStatus, txHash: escrow.fundingTxHash,
+    holdingAddress: escrowHoldingAddress(escrow),
+    confirmations: escrow.funding?.confirmations ?? 0,
+    requiredConfirmations: escrow.funding?.requiredConfirmations ?? ESCROW_MIN_CONFIRMATIONS,
+    blockNumber: escrow.funding?.blockNumber ?? null,
+    amountReceivedRaw: escrow.funding?.amountReceivedRaw ?? null,
+    reorgs: escrow.funding?.reorgs ?? 0,
+    reason: escrow.funding?.reason ?? null,
+    checkedAt: escrow.funding?.checkedAt ?? null,
+  };
+}
+
 function generateEscrowId(): string {
   return "ESC-" + hexlify(randomBytes(8)).slice(2).toUpperCase();
 }
@@ -65,8 +94,8 @@ export async function escrowCreateHandler(req: Request, res: Response) {
       return res.status(400).json({
         error: "Missing required fields",
         required: { depositor: "string", beneficiary: "string", token: "string", amount: "string" },
-        optional: { arbiter: "string", description: "string", conditions: "string[]", expiresIn: "number (hours, default 168)" },
-        example: { depositor: "0xClient", beneficiary: "0xFreelancer", token: "USDC", amount: "5000.00", conditions: ["Design approved", "Dev complete"] },
+        optional: { arbiter: "string", description: "string", conditions: "string[] | { description, amount }[] (milestones)", expiresIn: "number (hours, default 168)" },
+        example: { depositor: "0xClient", beneficiary: "0xFreelancer", token: "USDC", amount: "5000.00", conditions: [{ description: "Design approved", amount: "2000.00" }, { description: "Dev complete", amount: "3000.00" }] },
       });
     }
     if (!isAddress(depositor)) return res.status(400).json({ error: "Invalid depositor address" });
@@ -81,14 +110,26 @@ export async function escrowCreateHandler(req: Request, res: Response) {
     const escrowId = generateEscrowId();
     const amountRaw = parseUnits(amount, tokenInfo.decimals);
     const now = new Date();
+
+    let milestones: Milestone[] | null = null;
+    if (Array.isArray(conditions)) {
+      try {
+        milestones = buildMilestones(conditions, tokenInfo.decimals, amount, now.toISOString())?.milestones ?? null;
+      } catch (err: any) {
+        if (err instanceof MilestoneError) return res.status(400).json({ error: err.message });
+        throw err;
+      }
+    }
     const hours = typeof expiresIn === "number" && expiresIn > 0 ? expiresIn : 168;
     const expiresAt = new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString();
 
     const escrow = {
       id: escrowId, depositor, beneficiary, arbiter: arbiter || null, token: tokenInfo,
       amount, amountRaw: amountRaw.toString(), description: description || null,
-      conditions: Array.isArray(conditions) ? conditions : [], status: "created", expiresAt,
+      conditions: milestones ? milestones.map((m) => m.description) : Array.isArray(conditions) ? conditions : [],
+      milestones, releasedRaw: "0", status: "created", expiresAt,
       fundedAt: null, releasedAt: null, cancelledAt: null, releaseTxHash: null,
+      holdingAddress: escrowHoldingAddress(), fundingStatus: "awaiting_tx",
       createdAt: now.toISOString(), updatedAt: now.toISOString(),
     };
     await escrowDb.create(escrow);
@@ -97,8 +138,16 @@ export async function escrowCreateHandler(req: Request, res: Response) {
     const response: any = {
       status: "created",
       escrow: { id: escrowId, depositor, beneficiary, arbiter: arbiter || null, token: { symbol: tokenInfo.symbol, address: tokenInfo.address, decimals: tokenInfo.decimals }, amount, amountRaw: amountRaw.toString(), description: description || null, conditions: escrow.conditions, status: "created", expiresAt, expiresInHours: hours },
+      ...(milestones ? { milestones: milestoneSummary(escrow).milestones } : {}),
+      funding: {
+        holdingAddress: escrow.holdingAddress,
+        requiredConfirmations: ESCROW_MIN_CONFIRMATIONS,
+        transaction: escrow.holdingAddress ? fundingTransaction(escrow, escrow.holdingAddress) : null,
+      },
       actions: {
-        fund: { endpoint: "POST /api/v1/escrow/fund", body: { escrowId } },
+        fund: { endpoint: "POST /api/v1/escrow/fund", body: { escrowId, txHash: "0x<funding tx hash>" } },
+        verify: { endpoint: "POST /api/v1/escrow/verify", body: { escrowId } },
+        ...(milestones ? { approveMilestone: { endpoint: "POST /api/v1/escrow/milestone/approve", body: { escrowId, milestoneId: "M1", caller: depositor } } } : {}),
         release: { endpoint: "POST /api/v1/escrow/release", body: { escrowId, caller: depositor } },
         cancel: { endpoint: "POST /api/v1/escrow/cancel", body: { escrowId, caller: depositor } },
         status: { endpoint: `GET /api/v1/escrow/${escrowId}` },
@@ -113,6 +162,8 @@ export async function escrowCreateHandler(req: Request, res: Response) {
         escrow_id: escrowId, depositor, beneficiary, token: tokenInfo.symbol,
         amount, expires_at: expiresAt,
       });
+      // The funding watcher sends escrow.funded as a follow-up on this registration
+      await escrowDb.update(escrowId, { webhookId: response.webhook.webhook_id });
     }
 
     return res.json(response);
@@ -129,18 +180,22 @@ export async function escrowGetHandler(req: Request, res: Response) {
     if (!escrow) return res.status(404).json({ error: `Escrow not found: ${id}` });
 
     let balanceCheck = null;
-    if (escrow.status === "funded") {
+    const holdingAddress = escrowHoldingAddress(escrow);
+    if (escrow.status === "funded" && holdingAddress) {
       try {
         const provider = new JsonRpcProvider(RPC_URL);
         const erc20 = new Contract(escrow.token.address, ERC20_ABI, provider);
-        const balance: bigint = await erc20.balanceOf(escrow.depositor);
-        balanceCheck = { depositorBalance: formatUnits(balance, escrow.token.decimals), token: escrow.token.symbol };
+        const balance: bigint = await erc20.balanceOf(holdingAddress);
+        balanceCheck = { holdingBalance: formatUnits(balance, escrow.token.decimals), token: escrow.token.symbol };
       } catch { /* non-critical */ }
     }
     trackRequest("escrow_get");
 
     return res.json({
       escrow: { id: escrow.id, depositor: escrow.depositor, beneficiary: escrow.beneficiary, arbiter: escrow.arbiter, token: { symbol: escrow.token.symbol, address: escrow.token.address }, amount: escrow.amount, amountRaw: escrow.amountRaw, description: escrow.description, conditions: escrow.conditions, status: escrow.status, expiresAt: escrow.expiresAt, fundedAt: escrow.fundedAt, releasedAt: escrow.releasedAt, cancelledAt: escrow.cancelledAt, createdAt: escrow.createdAt, updatedAt: escrow.updatedAt },
+      funding: fundingView(escrow),
+      ...milestoneSummary(escrow),
+      dispute: escrow.dispute,
       balanceCheck,
       _gateway: { provider: "spraay-x402", version: "2.8.0" },
       timestamp: new Date().toISOString(),
@@ -150,66 +205,237 @@ export async function escrowGetHandler(req: Request, res: Response) {
   }
 }
 
+/**
+ * Record the depositor's funding tx. The escrow stays `created` until
+ * /escrow/verify or the funding watcher sees the transfer confirmed on-chain.
+ * Without txHash, returns the transfer the depositor needs to sign.
+ */
 export async function escrowFundHandler(req: Request, res: Response) {
   try {
-    const { escrowId } = req.body;
-    if (!escrowId) return res.status(400).json({ error: "escrowId is required", example: { escrowId: "ESC-A1B2C3D4E5F6" } });
+    const { escrowId, txHash, caller } = req.body;
+    if (!escrowId) return res.status(400).json({ error: "escrowId is required", example: { escrowId: "ESC-A1B2C3D4E5F6", txHash: "0x...", caller: "0xDepositor" } });
     const escrow = await lookupEscrow(escrowId);
     if (!escrow) return res.status(404).json({ error: `Escrow not found: ${escrowId}` });
     if (escrow.status === "expired") return res.status(400).json({ error: "Escrow has expired" });
     if (escrow.status !== "created") return res.status(400).json({ error: `Cannot fund escrow in status: ${escrow.status}` });
+    const holdingAddress = escrowHoldingAddress(escrow);
+    if (!holdingAddress) return res.status(503).json({ error: "Escrow funding unavailable: ESCROW_HOLDING_ADDRESS not configured" });
+
+    if (!txHash) {
+      return res.json({
+        status: "awaiting_funding",
+        escrow: { id: escrow.id, amount: escrow.amount, amountRaw: escrow.amountRaw, token: escrow.token.symbol, depositor: escrow.depositor },
+        funding: { holdingAddress, requiredConfirmations: ESCROW_MIN_CONFIRMATIONS, transaction: fundingTransaction(escrow, holdingAddress) },
+        nextSteps: ["Sign and broadcast the transaction", "POST /api/v1/escrow/fund with { escrowId, txHash, caller }"],
+        _gateway: { provider: "spraay-x402", version: "2.8.0" },
+        timestamp: new Date().toISOString(),
+      });
+    }
 
-    const now = new Date().toISOString();
-    await escrowDb.update(escrowId, { status: "funded", fundedAt: now });
+    if (typeof txHash !== "string" || !TX_HASH_RE.test(txHash)) return res.status(400).json({ error: "Invalid txHash" });
+    if (!(await attachFundingTx(escrow, txHash, caller, res))) return;
     trackRequest("escrow_fund");
 
-    const response: any = {
-      status: "funded",
-      escrow: { id: escrow.id, status: "funded", amount: escrow.amount, token: escrow.token.symbol, fundedAt: now, beneficiary: escrow.beneficiary },
-      nextSteps: ["POST /api/v1/escrow/release with { escrowId, caller }", "POST /api/v1/escrow/cancel with { escrowId, caller }"],
+    return res.json({
+      status: "pending_confirmation",
+      escrow: { id: escrow.id, status: escrow.status, amount: escrow.amount, token: escrow.token.symbol, beneficiary: escrow.beneficiary },
+      funding: { txHash: txHash.toLowerCase(), holdingAddress, requiredConfirmations: ESCROW_MIN_CONFIRMATIONS, status: "pending" },
+      nextSteps: ["The funding watcher confirms the transfer automatically", "POST /api/v1/escrow/verify with { escrowId } to check now"],
       _gateway: { provider: "spraay-x402", version: "2.8.0" },
-      timestamp: now,
-    };
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to fund escrow", details: error.message });
+  }
+}
 
-    // 💧 Loop-native webhook callback
-    if (req.webhookCallback) {
-      response.webhook = await req.webhookCallback('escrow.funded' as any, {
-        escrow_id: escrow.id, amount: escrow.amount, token: escrow.token.symbol,
-        beneficiary: escrow.beneficiary, funded_at: now,
-      });
+export async function escrowVerifyHandler(req: Request, res: Response) {
+  try {
+    const { escrowId, txHash, caller } = req.body;
+    if (!escrowId) return res.status(400).json({ error: "escrowId is required", example: { escrowId: "ESC-A1B2C3D4E5F6" } });
+    let escrow = await lookupEscrow(escrowId);
+    if (!escrow) return res.status(404).json({ error: `Escrow not found: ${escrowId}` });
+    if (!escrowHoldingAddress(escrow)) return res.status(503).json({ error: "Escrow funding unavailable: ESCROW_HOLDING_ADDRESS not configured" });
+
+    if (txHash && (typeof txHash !== "string" || txHash.toLowerCase() !== escrow.fundingTxHash?.toLowerCase())) {
+      if (escrow.status !== "created") return res.status(400).json({ error: `Cannot change funding tx for escrow in status: ${escrow.status}` });
+      if (typeof txHash !== "string" || !TX_HASH_RE.test(txHash)) return res.status(400).json({ error: "Invalid txHash" });
+      if (!(await attachFundingTx(escrow, txHash, caller, res))) return;
+      escrow = { ...escrow, fundingTxHash: txHash.toLowerCase(), fundingStatus: "pending", funding: null };
+    }
+    if (!escrow.fundingTxHash) {
+      return res.status(400).json({ error: "No funding tx recorded. POST /api/v1/escrow/fund with { escrowId, txHash, caller } first" });
     }
 
-    return res.json(response);
+    const result = await verifyEscrowFunding(escrow);
+    trackRequest("escrow_verify");
+
+    return res.json({
+      status: result.escrowStatus,
+      verification: result.check,
+      escrow: { id: escrow.id, status: result.escrowStatus, amount: escrow.amount, amountRaw: escrow.amountRaw, token: escrow.token.symbol },
+      _gateway: { provider: "spraay-x402", version: "2.8.0" },
+      timestamp: new Date().toISOString(),
+    });
   } catch (error: any) {
-    return res.status(500).json({ error: "Failed to fund escrow", details: error.message });
+    return res.status(500).json({ error: "Failed to verify escrow funding", details: error.message });
+  }
+}
+
+/**
+ * Point a still-unfunded escrow at `txHash` on behalf of its depositor.
+ * Sends the 403/409 itself and returns false when the caller isn't the
+ * depositor, another escrow holds the tx, or the escrow was funded meanwhile.
+ */
+async function attachFundingTx(escrow: any, txHash: string, caller: unknown, res: Response): Promise<boolean> {
+  if (typeof caller !== "string" || !caller) {
+    res.status(400).json({ error: "caller is required to record a funding tx", example: { escrowId: escrow.id, txHash, caller: "0xDepositor" } });
+    return false;
+  }
+  if (callerRole(escrow, caller) !== "depositor") {
+    res.status(403).json({ error: "Only the depositor can record the funding tx" });
+    return false;
+  }
+  const claimedBy = await escrowDb.findByFundingTx(txHash);
+  if (claimedBy && claimedBy.id !== escrow.id) {
+    res.status(409).json({ error: "txHash already used to fund another escrow", escrowId: claimedBy.id });
+    return false;
+  }
+  const outcome = await escrowDb.attachFundingTx(escrow.id, txHash);
+  if (outcome === "claimed") {
+    res.status(409).json({ error: "txHash already used to fund another escrow" });
+    return false;
+  }
+  if (outcome === "changed") {
+    res.status(409).json({ error: "Escrow changed while recording the funding tx — fetch it and retry" });
+    return false;
+  }
+  return true;
+}
+
+function callerRole(escrow: any, caller: string): "depositor" | "arbiter" | "beneficiary" | null {
+  const lower = caller.toLowerCase();
+  if (lower === escrow.depositor.toLowerCase()) return "depositor";
+  if (escrow.arbiter && lower === escrow.arbiter.toLowerCase()) return "arbiter";
+  if (lower === escrow.beneficiary.toLowerCase()) return "beneficiary";
+  return null;
+}
+
+function findMilestone(escrow: any, milestoneId: unknown): number {
+  const wanted = String(milestoneId).toUpperCase();
+  return (escrow.milestones as Milestone[]).findIndex((m) => m.id === wanted);
+}
+
+export async function escrowMilestoneApproveHandler(req: Request, res: Response) {
+  try {
+    const { escrowId, milestoneId, caller } = req.body;
+    if (!escrowId || !milestoneId || !caller) {
+      return res.status(400).json({ error: "escrowId, milestoneId and caller are required", example: { escrowId: "ESC-A1B2", milestoneId: "M1", caller: "0xDepositor" } });
+    }
+    const escrow = await lookupEscrow(escrowId);
+    if (!escrow) return res.status(404).json({ error: `Escrow not found: ${escrowId}` });
+    if (!escrow.milestones) return res.status(400).json({ error: "Escrow has no milestones" });
+    if (escrow.status !== "funded") return res.status(400).json({ error: `Cannot approve milestones for escrow in status: ${escrow.status}` });
+    if (!isAddress(caller)) return res.status(400).json({ error: "Invalid caller address" });
+
+    const role = callerRole(escrow, caller);
+    if (role !== "depositor" && role !== "arbiter") return res.status(403).json({ error: "Only depositor or arbiter can approve milestones" });
+    const idx = findMilestone(escrow, milestoneId);
+    if (idx < 0) return res.status(404).json({ error: `Milestone not found: ${milestoneId}`, milestones: escrow.milestones.map((m: Milestone) => m.id) });
+    const milestone: Milestone = escrow.milestones[idx];
+    if (milestone.status !== "pending") return res.status(400).json({ error: `Milestone ${milestone.id} is already ${milestone.status}` });
+
+    const now = new Date().toISOString();
+    const milestones = [...escrow.milestones];
+    milestones[idx] = transitionMilestone(milestone, "approved", { at: now, by: role, caller });
+    // A release or cancel since the read would be undone by this milestones array
+    const applied = await escrowDb.transition(escrow.id, { status: escrow.status, releasedRaw: escrow.releasedRaw }, { milestones });
+    if (!applied) return res.status(409).json({ error: "Escrow changed while approving — fetch it and retry" });
+    trackRequest("escrow_milestone_approve");
+
+    return res.json({
+      status: "approved",
+      escrow: { id: escrow.id, status: escrow.status },
+      milestone: milestones[idx],
+      nextSteps: [`POST /api/v1/escrow/release with { escrowId, milestoneId: "${milestone.id}", caller } (beneficiary may release approved milestones)`],
+      _gateway: { provider: "spraay-x402", version: "2.8.0" },
+      timestamp: now,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to approve milestone", details: error.message });
   }
 }
 
+/**
+ * Release funds to the beneficiary. With `milestoneId`, releases just that
+ * milestone (the beneficiary may do this once it's approved); without it,
+ * the depositor or arbiter releases everything still held.
+ */
 export async function escrowReleaseHandler(req: Request, res: Response) {
   try {
-    const { escrowId, caller } = req.body;
-    if (!escrowId || !caller) return res.status(400).json({ error: "escrowId and caller are required", example: { escrowId: "ESC-A1B2", caller: "0xDepositor" } });
+    const { escrowId, caller, milestoneId } = req.body;
+    if (!escrowId || !caller) return res.status(400).json({ error: "escrowId and caller are required", example: { escrowId: "ESC-A1B2", caller: "0xDepositor", milestoneId: "M1 (optional)" } });
     const escrow = await lookupEscrow(escrowId);
     if (!escrow) return res.status(404).json({ error: `Escrow not found: ${escrowId}` });
     if (escrow.status !== "funded") return res.status(400).json({ error: `Cannot release escrow in status: ${escrow.status}` });
     if (!isAddress(caller)) return res.status(400).json({ error: "Invalid caller address" });
 
-    const callerLower = caller.toLowerCase();
-    const isDepositor = callerLower === escrow.depositor.toLowerCase();
-    const isArbiter = escrow.arbiter && callerLower === escrow.arbiter.toLowerCase();
-    if (!isDepositor && !isArbiter) return res.status(403).json({ error: "Only depositor or arbiter can release" });
+    const role = callerRole(escrow, caller);
+    const now = new Date().toISOString();
+    let milestones: Milestone[] | null = escrow.milestones;
+    let releaseRaw: bigint;
+    let released: Milestone | null = null;
+
+    if (milestoneId) {
+      if (!milestones) return res.status(400).json({ error: "Escrow has no milestones — omit milestoneId to release in full" });
+      const idx = findMilestone(escrow, milestoneId);
+      if (idx < 0) return res.status(404).json({ error: `Milestone not found: ${milestoneId}`, milestones: milestones.map((m) => m.id) });
+      let milestone = milestones[idx];
+      if (milestone.status !== "pending" && milestone.status !== "approved") {
+        return res.status(400).json({ error: `Milestone ${milestone.id} is already ${milestone.status}` });
+      }
+      if (milestone.status === "pending") {
+        // Depositor/arbiter releasing directly counts as approval
+        if (role !== "depositor" && role !== "arbiter") return res.status(403).json({ error: "Milestone must be approved by the depositor or arbiter first" });
+        milestone = transitionMilestone(milestone, "approved", { at: now, by: role, caller });
+      }
+      if (!role) return res.status(403).json({ error: "Only depositor, arbiter or beneficiary can release a milestone" });
+      released = transitionMilestone(milestone, "released", { at: now, by: role, caller });
+      milestones = [...milestones];
+      milestones[idx] = released;
+      releaseRaw = BigInt(released.amountRaw);
+    } else {
+      if (role !== "depositor" && role !== "arbiter") return res.status(403).json({ error: "Only depositor or arbiter can release" });
+      releaseRaw = remainingRaw(escrow);
+      milestones = milestones?.map((m) => (m.status === "released" ? m : transitionMilestone(m, "released", { at: now, by: role, caller }))) ?? null;
+    }
+
+    const releasedRaw = BigInt(escrow.releasedRaw || "0") + releaseRaw;
+    const fullyReleased = releasedRaw >= BigInt(escrow.amountRaw);
+    const remaining = BigInt(escrow.amountRaw) - releasedRaw;
 
     const erc20Iface = new Interface(ERC20_ABI);
-    const transferCalldata = erc20Iface.encodeFunctionData("transfer", [escrow.beneficiary, BigInt(escrow.amountRaw)]);
+    const transferCalldata = erc20Iface.encodeFunctionData("transfer", [escrow.beneficiary, releaseRaw]);
 
-    const now = new Date().toISOString();
-    await escrowDb.update(escrowId, { status: "released", releasedAt: now });
+    const applied = await escrowDb.transition(escrow.id, { status: escrow.status, releasedRaw: escrow.releasedRaw }, {
+      milestones, releasedRaw: releasedRaw.toString(),
+      ...(fullyReleased ? { status: "released", releasedAt: now } : {}),
+    });
+    if (!applied) return res.status(409).json({ error: "Escrow changed while releasing — fetch it and retry" });
     trackRequest("escrow_release");
 
+    const status = fullyReleased ? "released" : "partially_released";
+    const releasedAmount = formatUnits(releaseRaw, escrow.token.decimals);
     const response: any = {
-      status: "released",
-      escrow: { id: escrow.id, status: "released", amount: escrow.amount, token: escrow.token.symbol, depositor: escrow.depositor, beneficiary: escrow.beneficiary, releasedBy: isDepositor ? "depositor" : "arbiter", releasedAt: now },
-      transaction: { to: escrow.token.address, data: transferCalldata, value: "0x0", chainId: CHAIN_ID, signer: escrow.depositor },
+      status,
+      escrow: {
+        id: escrow.id, status: fullyReleased ? "released" : "funded", amount: escrow.amount, token: escrow.token.symbol,
+        depositor: escrow.depositor, beneficiary: escrow.beneficiary, releasedBy: role,
+        releasedAmount, remaining: formatUnits(remaining, escrow.token.decimals),
+        ...(released ? { milestoneId: released.id } : {}),
+        ...(fullyReleased ? { releasedAt: now } : {}),
+      },
+      transaction: { to: escrow.token.address, data: transferCalldata, value: "0x0", chainId: CHAIN_ID, signer: escrowHoldingAddress(escrow) || escrow.depositor },
       _gateway: { provider: "spraay-x402", version: "2.8.0" },
       timestamp: now,
     };
@@ -217,8 +443,9 @@ export async function escrowReleaseHandler(req: Request, res: Response) {
     // 💧 Loop-native webhook callback
     if (req.webhookCallback) {
       response.webhook = await req.webhookCallback('escrow.released' as any, {
-        escrow_id: escrow.id, amount: escrow.amount, token: escrow.token.symbol,
-        beneficiary: escrow.beneficiary, released_by: isDepositor ? "depositor" : "arbiter",
+        escrow_id: escrow.id, amount: releasedAmount, token: escrow.token.symbol,
+        beneficiary: escrow.beneficiary, released_by: role,
+        milestone_id: released?.id ?? null, remaining: formatUnits(remaining, escrow.token.decimals),
         released_at: now,
       });
     }
@@ -235,25 +462,41 @@ export async function escrowCancelHandler(req: Request, res: Response) {
     if (!escrowId || !caller) return res.status(400).json({ error: "escrowId and caller are required", example: { escrowId: "ESC-A1B2", caller: "0xDepositor" } });
     const escrow = await lookupEscrow(escrowId);
     if (!escrow) return res.status(404).json({ error: `Escrow not found: ${escrowId}` });
-    if (escrow.status !== "created" && escrow.status !== "funded") return res.status(400).json({ error: `Cannot cancel escrow in status: ${escrow.status}` });
+    if (escrow.status !== "created" && escrow.status !== "funded" && escrow.status !== "expired") return res.status(400).json({ error: `Cannot cancel escrow in status: ${escrow.status}` });
+    // An escrow that expired while funded still holds the deposit, which goes back to the depositor
+    const holdsFunds = escrow.status === "funded" || (escrow.status === "expired" && !!escrow.fundedAt);
+    if (escrow.status === "expired" && !holdsFunds) return res.status(400).json({ error: "Escrow expired unfunded — nothing to refund" });
     if (!isAddress(caller)) return res.status(400).json({ error: "Invalid caller address" });
 
     const callerLower = caller.toLowerCase();
     const isDepositor = callerLower === escrow.depositor.toLowerCase();
     const isArbiter = escrow.arbiter && callerLower === escrow.arbiter.toLowerCase();
-    if (escrow.status === "created" && !isDepositor) return res.status(403).json({ error: "Only depositor can cancel unfunded escrow" });
-    if (escrow.status === "funded" && !isDepositor && !isArbiter) return res.status(403).json({ error: "Only depositor or arbiter can cancel funded escrow" });
+    if (!holdsFunds && !isDepositor) return res.status(403).json({ error: "Only depositor can cancel unfunded escrow" });
+    if (holdsFunds && !isDepositor && !isArbiter) return res.status(403).json({ error: "Only depositor or arbiter can cancel funded escrow" });
 
     const now = new Date().toISOString();
-    await escrowDb.update(escrowId, { status: "cancelled", cancelledAt: now });
+    const cancelledBy = isDepositor ? "depositor" : "arbiter";
+    // Milestones not yet paid out go back to the depositor; released ones stay released
+    const milestones = escrow.milestones?.map((m: Milestone) =>
+      m.status === "released" ? m : transitionMilestone(m, "refunded", { at: now, by: cancelledBy, caller })
+    ) ?? null;
+    const applied = await escrowDb.transition(escrow.id, { status: escrow.status, releasedRaw: escrow.releasedRaw }, { status: "cancelled", cancelledAt: now, milestones });
+    if (!applied) return res.status(409).json({ error: "Escrow changed while cancelling — fetch it and retry" });
     trackRequest("escrow_cancel");
+    const refundRaw = holdsFunds ? remainingRaw(escrow) : 0n;
 
     const response: any = {
       status: "cancelled",
-      escrow: { id: escrow.id, status: "cancelled", amount: escrow.amount, token: escrow.token.symbol, cancelledBy: isDepositor ? "depositor" : "arbiter", cancelledAt: now, wasFunded: escrow.fundedAt !== null },
+      escrow: { id: escrow.id, status: "cancelled", amount: escrow.amount, token: escrow.token.symbol, cancelledBy, cancelledAt: now, wasFunded: escrow.fundedAt !== null, refundAmount: formatUnits(refundRaw, escrow.token.decimals) },
       _gateway: { provider: "spraay-x402", version: "2.8.0" },
       timestamp: now,
     };
+    // Funded escrows hold the deposit — hand back the refund for the custodian to sign
+    const holdingAddress = escrowHoldingAddress(escrow);
+    if (holdsFunds && holdingAddress && refundRaw > 0n) {
+      const refundCalldata = new Interface(ERC20_ABI).encodeFunctionData("transfer", [escrow.depositor, refundRaw]);
+      response.transaction = { to: escrow.token.address, data: refundCalldata, value: "0x0", chainId: CHAIN_ID, signer: holdingAddress };
+    }
 
     // 💧 Loop-native webhook callback
     if (req.webhookCallback) {
@@ -284,7 +527,8 @@ export async function escrowListHandler(req: Request, res: Response) {
       return {
         id: e.id, role: isDepositor ? "depositor" : isBeneficiary ? "beneficiary" : "arbiter",
         depositor: e.depositor, beneficiary: e.beneficiary, token: e.token.symbol,
-        amount: e.amount, status: e.status, description: e.description,
+        amount: e.amount, remaining: formatUnits(remainingRaw(e), e.token.decimals),
+        milestones: e.milestones ? e.milestones.length : 0, status: e.status, description: e.description,
         expiresAt: e.expiresAt, createdAt: e.createdAt,
       };
     });
@@ -295,3 +539,166 @@ export async function escrowListHandler(req: Request, res: Response) {
     return res.status(500).json({ error: "Failed to list escrows", details: error.message });
   }
 }
+
+export async function escrowDisputeHandler(req: Request, res: Response) {
+  try {
+    const { escrowId, caller, reason, evidence } = req.body;
+    if (!escrowId || !caller || !reason) {
+      return res.status(400).json({
+        error: "escrowId, caller and reason are required",
+        example: { escrowId: "ESC-A1B2", caller: "0xBeneficiary", reason: "Milestone delivered but not approved", evidence: { text: "Delivery notes…", cids: ["bafy…"] } },
+      });
+    }
+    const escrow = await lookupEscrow(escrowId);
+    if (!escrow) return res.status(404).json({ error: `Escrow not found: ${escrowId}` });
+    if (escrow.status !== "funded") return res.status(400).json({ error: `Cannot dispute escrow in status: ${escrow.status}` });
+    if (!escrow.arbiter) return res.status(400).json({ error: "Escrow has no arbiter to resolve a dispute" });
+    if (!isAddress(caller)) return res.status(400).json({ error: "Invalid caller address" });
+
+    const role = callerRole(escrow, caller);
+    if (role !== "depositor" && role !== "beneficiary") return res.status(403).json({ error: "Only depositor or beneficiary can open a dispute" });
+
+    let parsed;
+    try {
+      parsed = parseEvidence(evidence || {}, false);
+    } catch (err: any) {
+      if (err instanceof DisputeError) return res.status(400).json({ error: err.message });
+      throw err;
+    }
+
+    const now = new Date();
+    const deadline = new Date(now.getTime() + DISPUTE_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+    const dispute: EscrowDispute = {
+      status: "open", openedBy: role, openedAt: now.toISOString(), reason: String(reason),
+      deadline, defaultBeneficiaryBps: DEFAULT_DISPUTE_BPS,
+      evidence: parsed ? [{ submittedBy: role, caller, at: now.toISOString(), ...parsed }] : [],
+      events: [{ type: "opened", at: now.toISOString(), by: role, caller, data: { reason: String(reason) } }],
+      resolution: null,
+    };
+    if (parsed) dispute.events.push({ type: "evidence", at: now.toISOString(), by: role, caller, data: { cids: parsed.cids } });
+
+    const applied = await escrowDb.transition(escrow.id, { status: "funded", releasedRaw: escrow.releasedRaw }, { status: "disputed", dispute });
+    if (!applied) return res.status(409).json({ error: "Escrow changed while opening the dispute — fetch it and retry" });
+    trackRequest("escrow_dispute");
+
+    const response: any = {
+      status: "disputed",
+      escrow: { id: escrow.id, status: "disputed", arbiter: escrow.arbiter, remaining: formatUnits(remainingRaw(escrow), escrow.token.decimals), token: escrow.token.symbol },
+      dispute,
+      nextSteps: [
+        "POST /api/v1/escrow/dispute/evidence with { escrowId, caller, text, cids }",
+        "Arbiter: POST /api/v1/escrow/dispute/resolve with { escrowId, caller, split: { beneficiary, depositor } }",
+        `Without a ruling by ${deadline}, the default outcome pays ${DEFAULT_DISPUTE_BPS / 100}% to the beneficiary`,
+      ],
+      _gateway: { provider: "spraay-x402", version: "2.8.0" },
+      timestamp: now.toISOString(),
+    };
+
+    // 💧 Loop-native webhook callback
+    if (req.webhookCallback) {
+      response.webhook = await req.webhookCallback('escrow.disputed', {
+        escrow_id: escrow.id, opened_by: role, reason: String(reason),
+        arbiter: escrow.arbiter, deadline,
+      });
+    }
+
+    return res.json(response);
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to open dispute", details: error.message });
+  }
+}
+
+export async function escrowDisputeEvidenceHandler(req: Request, res: Response) {
+  try {
+    const { escrowId, caller, text, cids } = req.body;
+    if (!escrowId || !caller) return res.status(400).json({ error: "escrowId and caller are required", example: { escrowId: "ESC-A1B2", caller: "0xDepositor", text: "…", cids: ["bafy…"] } });
+    const escrow = await lookupEscrow(escrowId);
+    if (!escrow) return res.status(404).json({ error: `Escrow not found: ${escrowId}` });
+    if (escrow.status !== "disputed" || !escrow.dispute) return res.status(400).json({ error: `Escrow is not in an open dispute (status: ${escrow.status})` });
+    if (!isAddress(caller)) return res.status(400).json({ error: "Invalid caller address" });
+
+    const role = callerRole(escrow, caller);
+    if (!role) return res.status(403).json({ error: "Only depositor, beneficiary or arbiter can submit evidence" });
+
+    let parsed;
+    try {
+      parsed = parseEvidence({ text, cids }, true)!;
+    } catch (err: any) {
+      if (err instanceof DisputeError) return res.status(400).json({ error: err.message });
+      throw err;
+    }
+
+    const now = new Date().toISOString();
+    const previous: EscrowDispute = escrow.dispute;
+    const dispute: EscrowDispute = {
+      ...previous,
+      evidence: [...previous.evidence, { submittedBy: role, caller, at: now, ...parsed }],
+      events: [...previous.events, { type: "evidence", at: now, by: role, caller, data: { cids: parsed.cids } }],
+    };
+    // A ruling or the deadline settling it since the read would be erased by this dispute object
+    const applied = await escrowDb.transition(escrow.id, { status: "disputed", releasedRaw: escrow.releasedRaw }, { dispute });
+    if (!applied) return res.status(409).json({ error: "Dispute was settled while submitting evidence — fetch the escrow for the outcome" });
+    trackRequest("escrow_dispute_evidence");
+
+    return res.json({
+      status: "disputed",
+      escrow: { id: escrow.id, status: "disputed" },
+      evidenceCount: dispute.evidence.length,
+      deadline: dispute.deadline,
+      _gateway: { provider: "spraay-x402", version: "2.8.0" },
+      timestamp: now,
+    });
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to submit evidence", details: error.message });
+  }
+}
+
+/** Arbiter ruling: split the remaining balance, returning one transfer per side. */
+export async function escrowDisputeResolveHandler(req: Request, res: Response) {
+  try {
+    const { escrowId, caller, split, note } = req.body;
+    if (!escrowId || !caller || !split) {
+      return res.status(400).json({ error: "escrowId, caller and split are required", example: { escrowId: "ESC-A1B2", caller: "0xArbiter", split: { beneficiary: 70, depositor: 30 } } });
+    }
+    const escrow = await lookupEscrow(escrowId);
+    if (!escrow) return res.status(404).json({ error: `Escrow not found: ${escrowId}` });
+    if (escrow.status !== "disputed" || !escrow.dispute) return res.status(400).json({ error: `Escrow is not in an open dispute (status: ${escrow.status})` });
+    if (!isAddress(caller)) return res.status(400).json({ error: "Invalid caller address" });
+    if (callerRole(escrow, caller) !== "arbiter") return res.status(403).json({ error: "Only the arbiter can resolve a dispute" });
+
+    let beneficiaryBps: number;
+    try {
+      beneficiaryBps = splitToBps(split);
+    } catch (err: any) {
+      if (err instanceof DisputeError) return res.status(400).json({ error: err.message });
+      throw err;
+    }
+
+    const changes = await settleDispute(escrow, beneficiaryBps, "arbiter", caller, typeof note === "string" ? note : null, "resolved");
+    if (!changes) return res.status(409).json({ error: "Dispute was settled while resolving — fetch the escrow for the outcome" });
+    const resolution = changes.dispute.resolution!;
+    trackRequest("escrow_dispute_resolve");
+
+    const response: any = {
+      status: "resolved",
+      escrow: { id: escrow.id, status: "resolved", token: escrow.token.symbol, depositor: escrow.depositor, beneficiary: escrow.beneficiary },
+      resolution,
+      transactions: [resolution.transactions.beneficiary, resolution.transactions.depositor].filter(Boolean),
+      _gateway: { provider: "spraay-x402", version: "2.8.0" },
+      timestamp: resolution.resolvedAt,
+    };
+
+    // 💧 Loop-native webhook callback
+    if (req.webhookCallback) {
+      response.webhook = await req.webhookCallback('escrow.resolved', {
+        escrow_id: escrow.id, beneficiary_bps: beneficiaryBps,
+        beneficiary_amount: resolution.beneficiaryAmount, depositor_amount: resolution.depositorAmount,
+        token: escrow.token.symbol, resolved_at: resolution.resolvedAt,
+      });
+    }
+
+    return res.json(response);
+  } catch (error: any) {
+    return res.status(500).json({ error: "Failed to resolve dispute", details: error.message });
+  }
+}
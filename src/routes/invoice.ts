@@ -1,7 +1,5 @@
 import { Request, Response } from "express";
 import {
-  JsonRpcProvider,
-  Contract,
   Interface,
   isAddress,
   parseUnits,
@@ -9,11 +7,27 @@ import {
   randomBytes,
   hexlify,
 } from "ethers";
+import { Keypair, PublicKey } from "@solana/web3.js";
 import { trackRequest } from "./health.js";
-import { invoiceDb } from "../db.js";
+import { invoiceDb, invoiceScheduleDb } from "../db.js";
+import { pickPayAmount, withInvoiceMemo, INVOICE_MIN_CONFIRMATIONS } from "../services/invoice-reconciler.js";
+import { remindInvoice } from "../services/invoice-scheduler.js";
+import { parseRecurrence, nextIssueDate, InvoiceScheduleError } from "../lib/invoice-recurrence.js";
+import {
+  ReminderPolicy, InvoiceReminderError, parseReminderPolicy, parseReminderChannels, nextReminderAt, remindersSent,
+  creatorRemindMessage, verifyCreatorSignature,
+} from "../lib/invoice-reminders.js";
+import { eip681TransferUri, solanaPayUrl } from "../lib/payment-uris.js";
+import { USDC_MINT } from "../solana/solanaVerifier.js";
+import {
+  EXPORT_FORMATS, ExportFormat, InvoiceDocument, InvoiceExportError, PEGGED_CURRENCIES,
+  gatewayInvoiceDocument, sctpInvoiceDocument, renderInvoiceExport,
+} from "../lib/invoice-export.js";
+import { findSctpInvoiceForExport } from "./sctp.js";
+import { FxRate, PayrollFxError, coingeckoFxSource, quoteFxRates } from "../lib/payroll-fx.js";
 
-const RPC_URL = process.env.BASE_RPC_URL || "https://mainnet.base.org";
 const CHAIN_ID = 8453;
+const BASE_URL = process.env.BASE_URL || "https://gateway.spraay.app";
 
 interface InvoiceToken { address: string; symbol: string; name: string; decimals: number; }
 
@@ -27,10 +41,9 @@ const INVOICE_TOKENS: Record<string, InvoiceToken> = {
 
 const ERC20_ABI = [
   "function transfer(address to, uint256 amount) external returns (bool)",
-  "function balanceOf(address account) external view returns (uint256)",
 ];
 
-function resolveInvoiceToken(input: string): InvoiceToken | null {
+export function resolveInvoiceToken(input: string): InvoiceToken | null {
   const upper = input.toUpperCase();
   if (INVOICE_TOKENS[upper]) return INVOICE_TOKENS[upper];
   const lower = input.toLowerCase();
@@ -44,15 +57,156 @@ function generateInvoiceId(): string {
   return "INV-" + hexlify(randomBytes(8)).slice(2).toUpperCase();
 }
 
+function generateScheduleId(): string {
+  return "RINV-" + hexlify(randomBytes(6)).slice(2).toUpperCase();
+}
+
+/** Reconciliation state for responses: expected vs received, and every matched transfer. */
+function paymentSummary(invoice: any) {
+  const decimals = invoice.token.decimals;
+  const received = BigInt(invoice.receivedRaw);
+  const outstanding = BigInt(invoice.amountRaw) - received;
+  return {
+    payAmount: formatUnits(BigInt(invoice.payAmountRaw || invoice.amountRaw), decimals),
+    payAmountRaw: invoice.payAmountRaw || invoice.amountRaw,
+    received: formatUnits(received, decimals),
+    receivedRaw: invoice.receivedRaw,
+    outstanding: formatUnits(outstanding > 0n ? outstanding : 0n, decimals),
+    paidAt: invoice.paidAt,
+    transactions: invoice.payments.map((p: any) => ({
+      txHash: p.txHash, from: p.from, amount: p.amount, blockNumber: p.blockNumber, matchedBy: p.matchedBy, detectedAt: p.detectedAt,
+    })),
+    memo: `spraay:${invoice.id}`,
+    chainId: CHAIN_ID,
+  };
+}
+
+/**
+ * Wallet links for what is still owed: an EIP-681 transfer on Base and, for
+ * invoices created with a solanaRecipient, a Solana Pay request. An unpaid
+ * invoice asks for its unique payAmount so the bare transfer can be matched.
+ */
+export function invoicePaymentLinks(invoice: any) {
+  const decimals = invoice.token.decimals;
+  const received = BigInt(invoice.receivedRaw || "0");
+  const owed = received === 0n ? BigInt(invoice.payAmountRaw || invoice.amountRaw) : BigInt(invoice.amountRaw) - received;
+  const outstandingRaw = owed > 0n ? owed : 0n;
+  return {
+    checkoutUrl: `${BASE_URL}/pay/${invoice.id}`,
+    outstandingRaw: outstandingRaw.toString(),
+    outstanding: formatUnits(outstandingRaw, decimals),
+    eip681: eip681TransferUri({ token: invoice.token.address, recipient: invoice.creator, amountRaw: outstandingRaw, chainId: CHAIN_ID }),
+    solanaPay: invoice.solanaPay
+      ? solanaPayUrl({
+          recipient: invoice.solanaPay.recipient,
+          amount: formatUnits(received === 0n ? BigInt(invoice.amountRaw) : outstandingRaw, decimals),
+          splToken: USDC_MINT.toBase58(),
+          reference: invoice.solanaPay.reference,
+          label: "Spraay",
+          message: `Invoice ${invoice.id}`,
+          memo: invoice.id,
+        })
+      : null,
+  };
+}
+
+/** USD value of a token with no fiat peg; exports state WETH invoices in USD at this rate. */
+async function quoteFiatValue(token: InvoiceToken, at: Date): Promise<FxRate> {
+  const [rate] = await quoteFxRates(["USD"], token.symbol, [coingeckoFxSource], at);
+  return rate;
+}
+
+function parseDueDate(input: unknown): string | null {
+  if (!input) return null;
+  const parsed = new Date(input as string);
+  if (isNaN(parsed.getTime())) throw new InvoiceReminderError("Invalid dueDate format. Use ISO date (e.g. '2026-04-15')");
+  return parsed.toISOString();
+}
+
+export interface IssueInvoiceInput {
+  creator: string;
+  recipient: string | null;
+  token: InvoiceToken;
+  amount: string;
+  memo: string | null;
+  reference: string | null;
+  dueDate: string | null;
+  scheduleId?: string | null;
+  reminders?: ReminderPolicy | null;
+  webhookId?: string | null;
+  /** Solana wallet that also accepts USDC payment via Solana Pay */
+  solanaRecipient?: string | null;
+}
+
+/**
+ * Persist a new invoice and build its payment tx. Shared by POST
+ * /invoice/create and recurring templates.
+ */
+export async function issueInvoice(input: IssueInvoiceInput, at: Date = new Date()) {
+  const { creator, token } = input;
+  const invoiceId = generateInvoiceId();
+  const amountRaw = parseUnits(input.amount, token.decimals);
+  const now = at.toISOString();
+
+  // Unique on-chain amount among the creator's open invoices in this token, so bare transfers can be matched
+  const open = await invoiceDb.listByAddress(creator);
+  const taken = new Set<string>(open
+    .filter((inv: any) => inv.creator.toLowerCase() === creator.toLowerCase() && inv.token.address === token.address && inv.payAmountRaw)
+    .filter((inv: any) => ["pending", "partially_paid", "overdue", "expired"].includes(inv.status))
+    .map((inv: any) => inv.payAmountRaw));
+  const payAmountRaw = pickPayAmount(amountRaw, token.decimals, taken);
+  const payAmount = formatUnits(payAmountRaw, token.decimals);
+
+  // Lock the fiat value at issue so exports state the invoice at the rate it was issued at
+  let fiatValue: FxRate | null = null;
+  if (!PEGGED_CURRENCIES[token.symbol]) {
+    try {
+      fiatValue = await quoteFiatValue(token, at);
+    } catch (err: any) {
+      console.warn(`[invoice] No fiat value for ${token.symbol} at issue: ${err?.message || err}`);
+    }
+  }
+
+  const reminders = input.reminders || null;
+  const firstReminder = nextReminderAt({ status: "pending", dueDate: input.dueDate }, reminders, []);
+  const invoice = {
+    id: invoiceId, creator, recipient: input.recipient || "open", token,
+    amount: input.amount, amountRaw: amountRaw.toString(), payAmountRaw: payAmountRaw.toString(), memo: input.memo,
+    reference: input.reference, dueDate: input.dueDate,
+    status: "pending", paymentTx: null, createdAt: now, updatedAt: now,
+    scheduleId: input.scheduleId || null, reminders, webhookId: input.webhookId || null,
+    nextReminderAt: firstReminder ? firstReminder.toISOString() : null,
+    solanaPay: input.solanaRecipient ? { recipient: input.solanaRecipient, reference: Keypair.generate().publicKey.toBase58() } : null,
+    fiatValue,
+  };
+  await invoiceDb.create(invoice);
+
+  const erc20Iface = new Interface(ERC20_ABI);
+  const transferCalldata = withInvoiceMemo(erc20Iface.encodeFunctionData("transfer", [creator, payAmountRaw]), invoiceId);
+  const payment = {
+    transaction: { to: token.address, data: transferCalldata, value: "0x0", chainId: CHAIN_ID, note: `Pay ${payAmount} ${token.symbol} to ${creator}` },
+    payAmount, payAmountRaw: payAmountRaw.toString(),
+    reference: { memo: `spraay:${invoiceId}`, amountSuffix: formatUnits(payAmountRaw - amountRaw, token.decimals) },
+    links: invoicePaymentLinks({ ...invoice, receivedRaw: "0" }),
+    instructions: [
+      `1. Send exactly ${payAmount} ${token.symbol} to ${creator} on Base`,
+      "2. Use the pre-encoded transaction above (it carries the invoice memo), or send the exact amount from any wallet",
+      `3. Payment is detected automatically after ${INVOICE_MIN_CONFIRMATIONS} confirmations — check GET /api/v1/invoice/${invoiceId}`,
+      `Or share the hosted checkout page: ${BASE_URL}/pay/${invoiceId}`,
+    ],
+  };
+  return { invoice, payment };
+}
+
 export async function invoiceCreateHandler(req: Request, res: Response) {
   try {
-    const { creator, recipient, token, amount, memo, reference, dueDate } = req.body;
+    const { creator, recipient, token, amount, memo, reference, dueDate, reminders, solanaRecipient } = req.body;
 
     if (!creator || !token || !amount) {
       return res.status(400).json({
         error: "Missing required fields",
         required: { creator: "string (payee wallet address)", token: "string (USDC, USDT, DAI, EURC, WETH or address)", amount: "string (human-readable, e.g. '500.00')" },
-        optional: { recipient: "string (payer address)", memo: "string", reference: "string", dueDate: "string (ISO date)" },
+        optional: { recipient: "string (payer address)", memo: "string", reference: "string", dueDate: "string (ISO date)", reminders: "{ channels: [{ type: 'email'|'xmtp'|'webhook', to }], beforeDueHours?, repeatEveryHours?, maxReminders? }", solanaRecipient: "string (Solana wallet — USDC invoices only, enables Solana Pay)" },
         example: { creator: "0xYourAddress", recipient: "0xClientAddress", token: "USDC", amount: "1500.00", memo: "Web development - March 2026", reference: "PRJ-2026-042", dueDate: "2026-04-15" },
       });
     }
@@ -66,49 +220,59 @@ export async function invoiceCreateHandler(req: Request, res: Response) {
     const amountFloat = parseFloat(amount);
     if (isNaN(amountFloat) || amountFloat <= 0) return res.status(400).json({ error: "Amount must be a positive number" });
 
-    let dueDateISO: string | null = null;
-    if (dueDate) {
-      const parsed = new Date(dueDate);
-      if (isNaN(parsed.getTime())) return res.status(400).json({ error: "Invalid dueDate format. Use ISO date (e.g. '2026-04-15')" });
-      dueDateISO = parsed.toISOString();
+    if (solanaRecipient) {
+      if (tokenInfo.symbol !== "USDC") return res.status(400).json({ error: "solanaRecipient is only supported for USDC invoices" });
+      try {
+        new PublicKey(solanaRecipient);
+      } catch {
+        return res.status(400).json({ error: "Invalid solanaRecipient (Solana wallet address)" });
+      }
     }
 
-    const invoiceId = generateInvoiceId();
-    const amountRaw = parseUnits(amount, tokenInfo.decimals);
-    const now = new Date().toISOString();
-
-    const invoice = {
-      id: invoiceId, creator, recipient: recipient || "open", token: tokenInfo,
-      amount, amountRaw: amountRaw.toString(), memo: memo || null,
-      reference: reference || null, dueDate: dueDateISO,
-      status: "pending", paymentTx: null, createdAt: now, updatedAt: now,
-    };
-    await invoiceDb.create(invoice);
+    let dueDateISO: string | null;
+    let reminderPolicy: ReminderPolicy | null;
+    try {
+      dueDateISO = parseDueDate(dueDate);
+      reminderPolicy = reminders === undefined || reminders === null ? null : parseReminderPolicy(reminders);
+    } catch (err: any) {
+      if (err instanceof InvoiceReminderError) return res.status(400).json({ error: err.message });
+      throw err;
+    }
 
-    const erc20Iface = new Interface(ERC20_ABI);
-    const transferCalldata = erc20Iface.encodeFunctionData("transfer", [creator, amountRaw]);
+    const { invoice, payment } = await issueInvoice({
+      creator, recipient: recipient || null, token: tokenInfo, amount,
+      memo: memo || null, reference: reference || null, dueDate: dueDateISO, reminders: reminderPolicy,
+      solanaRecipient: solanaRecipient || null,
+    });
+    const invoiceId = invoice.id;
+    const now = invoice.createdAt;
     trackRequest("invoice_create");
 
-    return res.json({
+    const response: any = {
       status: "created",
       invoice: {
         id: invoiceId, creator, recipient: recipient || "open (anyone can pay)",
         token: { symbol: tokenInfo.symbol, name: tokenInfo.name, address: tokenInfo.address, decimals: tokenInfo.decimals },
-        amount, amountRaw: amountRaw.toString(), memo: memo || null,
+        amount, amountRaw: invoice.amountRaw, memo: memo || null,
         reference: reference || null, dueDate: dueDateISO, status: "pending",
+        reminders: reminderPolicy ? { ...reminderPolicy, nextReminderAt: invoice.nextReminderAt } : null,
       },
-      payment: {
-        transaction: { to: tokenInfo.address, data: transferCalldata, value: "0x0", chainId: CHAIN_ID, note: `Pay ${amount} ${tokenInfo.symbol} to ${creator}` },
-        instructions: [
-          `1. Send ${amount} ${tokenInfo.symbol} to ${creator} on Base`,
-          "2. Use the pre-encoded transaction above, or send directly via any wallet",
-          `3. Check payment status: GET /api/v1/invoice/${invoiceId}`,
-        ],
-      },
-      lookup: { endpoint: `GET /api/v1/invoice/${invoiceId}`, note: "Use this endpoint to check payment status" },
+      payment,
+      lookup: { endpoint: `GET /api/v1/invoice/${invoiceId}`, checkoutUrl: `${BASE_URL}/pay/${invoiceId}`, note: "Use this endpoint to check payment status" },
       _gateway: { provider: "spraay-x402", version: "2.5.0", endpoint: "POST /api/v1/invoice/create" },
       timestamp: now,
-    });
+    };
+
+    // 💧 Loop-native webhook callback
+    if (req.webhookCallback) {
+      response.webhook = await req.webhookCallback('invoice.created', {
+        invoice_id: invoiceId, creator, token: tokenInfo.symbol, amount, pay_amount: payment.payAmount, due_date: dueDateISO,
+      });
+      // The payment reconciler sends payment.confirmed as a follow-up on this registration
+      await invoiceDb.update(invoiceId, { webhookId: response.webhook.webhook_id });
+    }
+
+    return res.json(response);
   } catch (error: any) {
     console.error("Invoice create error:", error.message);
     return res.status(500).json({ error: "Failed to create invoice", details: error.message });
@@ -123,19 +287,9 @@ export async function invoiceGetHandler(req: Request, res: Response) {
     const invoice = await invoiceDb.get(id as string);
     if (!invoice) return res.status(404).json({ error: `Invoice not found: ${id}` });
 
-    let onChainCheck = null;
-    if (invoice.status === "pending") {
-      try {
-        const provider = new JsonRpcProvider(RPC_URL);
-        const erc20 = new Contract(invoice.token.address, ERC20_ABI, provider);
-        const balance: bigint = await erc20.balanceOf(invoice.creator);
-        onChainCheck = { creatorBalance: formatUnits(balance, invoice.token.decimals), token: invoice.token.symbol, note: "Balance check only — full payment verification requires tx monitoring" };
-      } catch { /* non-critical */ }
-
-      if (invoice.dueDate && new Date(invoice.dueDate) < new Date()) {
-        await invoiceDb.update(id as string, { status: "expired" });
-        invoice.status = "expired";
-      }
+    if (invoice.status === "pending" && invoice.dueDate && new Date(invoice.dueDate) < new Date()) {
+      await invoiceDb.update(id as string, { status: "overdue" });
+      invoice.status = "overdue";
     }
     trackRequest("invoice_get");
 
@@ -145,9 +299,13 @@ export async function invoiceGetHandler(req: Request, res: Response) {
         token: { symbol: invoice.token.symbol, name: invoice.token.name, address: invoice.token.address },
         amount: invoice.amount, amountRaw: invoice.amountRaw, memo: invoice.memo,
         reference: invoice.reference, dueDate: invoice.dueDate, status: invoice.status,
-        paymentTx: invoice.paymentTx, createdAt: invoice.createdAt, updatedAt: invoice.updatedAt,
+        paymentTx: invoice.paymentTx, scheduleId: invoice.scheduleId, createdAt: invoice.createdAt, updatedAt: invoice.updatedAt,
+      },
+      payment: { ...paymentSummary(invoice), links: invoicePaymentLinks(invoice) },
+      reminders: {
+        policy: invoice.reminders, sent: remindersSent(invoice.reminderHistory),
+        nextReminderAt: invoice.nextReminderAt, history: invoice.reminderHistory,
       },
-      onChainCheck,
       _gateway: { provider: "spraay-x402", version: "2.5.0", endpoint: `GET /api/v1/invoice/${id}` },
       timestamp: new Date().toISOString(),
     });
@@ -157,6 +315,47 @@ export async function invoiceGetHandler(req: Request, res: Response) {
   }
 }
 
+/**
+ * GET /api/v1/invoice/:id/export?format=pdf|ubl|json-ld
+ * Renders a gateway invoice (INV-…) or an SCTP supplier invoice.
+ */
+export async function invoiceExportHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const format = String(req.query.format || "pdf").toLowerCase() as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Unsupported format: ${req.query.format}`, supported: EXPORT_FORMATS });
+    }
+
+    let doc: InvoiceDocument | null = null;
+    if (/^INV-/i.test(id)) {
+      const invoice = await invoiceDb.get(id);
+      if (invoice) {
+        // Invoices issued while no rate was available are valued at today's rate
+        const valuation = invoice.fiatValue || (PEGGED_CURRENCIES[invoice.token.symbol] ? null : await quoteFiatValue(invoice.token, new Date()));
+        doc = gatewayInvoiceDocument(invoice, valuation);
+      }
+    } else {
+      const sctp = await findSctpInvoiceForExport(id);
+      if (sctp) doc = sctpInvoiceDocument(sctp.invoice, sctp.supplier, sctp.payments);
+    }
+    if (!doc) return res.status(404).json({ error: `Invoice not found: ${id}` });
+
+    const rendered = renderInvoiceExport(doc, format);
+    trackRequest("invoice_export");
+
+    res.setHeader("Content-Type", rendered.contentType);
+    res.setHeader("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+    res.setHeader("X-Invoice-Status", doc.status);
+    return res.send(rendered.body);
+  } catch (error: any) {
+    if (error instanceof InvoiceExportError) return res.status(422).json({ error: error.message });
+    if (error instanceof PayrollFxError) return res.status(error.status).json({ error: error.message });
+    console.error("Invoice export error:", error.message);
+    return res.status(500).json({ error: "Failed to export invoice", details: error.message });
+  }
+}
+
 export async function invoiceListHandler(req: Request, res: Response) {
   try {
     const { address, status } = req.query;
@@ -171,6 +370,7 @@ export async function invoiceListHandler(req: Request, res: Response) {
       id: inv.id, role: inv.creator.toLowerCase() === lowerAddress ? "creator" : "payer",
       creator: inv.creator, recipient: inv.recipient, token: inv.token.symbol,
       amount: inv.amount, status: inv.status, memo: inv.memo,
+      amountReceived: formatUnits(BigInt(inv.receivedRaw), inv.token.decimals), paymentTx: inv.paymentTx, paidAt: inv.paidAt,
       reference: inv.reference, dueDate: inv.dueDate, createdAt: inv.createdAt,
     }));
     trackRequest("invoice_list");
@@ -186,3 +386,199 @@ export async function invoiceListHandler(req: Request, res: Response) {
     return res.status(500).json({ error: "Failed to list invoices", details: error.message });
   }
 }
+
+// ============================================
+// Recurring templates + reminders
+// ============================================
+
+export async function invoiceRecurringCreateHandler(req: Request, res: Response) {
+  try {
+    const { creator, recipient, token, amount, memo, reference, frequency, interval, cron, timezone, startDate, endDate, maxInvoices, dueInDays = 14, reminders } = req.body;
+    if (!creator || !token || !amount || !frequency) {
+      return res.status(400).json({
+        error: "Missing required fields: creator, token, amount, frequency",
+        optional: { interval: "number (every N weeks/months)", cron: "string (custom frequency)", timezone: "IANA name", startDate: "ISO date (default now)", endDate: "ISO date", maxInvoices: "number", dueInDays: "number (default 14, null for none)", reminders: "reminder policy applied to every issued invoice" },
+        example: { creator: "0xYourAddress", recipient: "0xClientAddress", token: "USDC", amount: "2000", frequency: "monthly", dueInDays: 7, reminders: { channels: [{ type: "email", to: "ap@client.com" }], beforeDueHours: 48 } },
+      });
+    }
+    if (!isAddress(creator)) return res.status(400).json({ error: "Invalid creator address" });
+    if (recipient && !isAddress(recipient)) return res.status(400).json({ error: "Invalid recipient (payer) address" });
+    const tokenInfo = resolveInvoiceToken(token);
+    if (!tokenInfo) return res.status(400).json({ error: `Unsupported token: ${token}`, supported: Object.keys(INVOICE_TOKENS) });
+    const amountFloat = parseFloat(amount);
+    if (isNaN(amountFloat) || amountFloat <= 0) return res.status(400).json({ error: "Amount must be a positive number" });
+    if (dueInDays !== null && (!Number.isInteger(dueInDays) || dueInDays < 0)) return res.status(400).json({ error: "dueInDays must be a non-negative integer or null" });
+    if (maxInvoices !== undefined && maxInvoices !== null && (!Number.isInteger(maxInvoices) || maxInvoices < 1)) {
+      return res.status(400).json({ error: "maxInvoices must be a positive integer" });
+    }
+
+    const now = new Date();
+    const start = startDate ? new Date(startDate) : now;
+    if (isNaN(start.getTime())) return res.status(400).json({ error: "Invalid startDate" });
+    const end = endDate ? new Date(endDate) : null;
+    if (end && (isNaN(end.getTime()) || end <= start)) return res.status(400).json({ error: "endDate must be a valid date after startDate" });
+
+    let recurrence;
+    let reminderPolicy: ReminderPolicy | null;
+    try {
+      recurrence = parseRecurrence({ frequency, interval, cron, timezone }, start);
+      reminderPolicy = reminders === undefined || reminders === null ? null : parseReminderPolicy(reminders);
+    } catch (err: any) {
+      if (err instanceof InvoiceScheduleError || err instanceof InvoiceReminderError) return res.status(400).json({ error: err.message });
+      throw err;
+    }
+    // Custom schedules start at their first cron occurrence; weekly/monthly at startDate itself
+    const firstIssue = recurrence.frequency === "custom" ? nextIssueDate(recurrence, new Date(start.getTime() - 1)) : start;
+    if (!firstIssue) return res.status(400).json({ error: "Schedule never fires (e.g. Feb 31)", cron });
+
+    const id = generateScheduleId();
+    const schedule = {
+      id, creator, recipient: recipient || "open", token: tokenInfo, amount, memo: memo || null, reference: reference || null,
+      recurrence, dueInDays, reminders: reminderPolicy, maxInvoices: maxInvoices || null, endDate: end ? end.toISOString() : null,
+      status: "active", nextIssueAt: firstIssue.toISOString(), createdAt: now.toISOString(),
+    };
+    await invoiceScheduleDb.create(schedule);
+    trackRequest("invoice_recurring_create");
+
+    const response: any = {
+      status: "active",
+      schedule: {
+        id, creator, recipient: schedule.recipient, token: tokenInfo.symbol, amount, memo: schedule.memo, reference: schedule.reference,
+        recurrence, dueInDays, reminders: reminderPolicy, maxInvoices: schedule.maxInvoices || "unlimited", endDate: schedule.endDate,
+        nextIssueAt: schedule.nextIssueAt,
+      },
+      lookup: { endpoint: `GET /api/v1/invoice/recurring/${id}` },
+      _gateway: { provider: "spraay-x402", version: "2.5.0", endpoint: "POST /api/v1/invoice/recurring" },
+      timestamp: now.toISOString(),
+    };
+
+    // 💧 Loop-native webhook callback — every issued invoice reports on this registration
+    if (req.webhookCallback) {
+      response.webhook = await req.webhookCallback('invoice.created', {
+        schedule_id: id, creator, token: tokenInfo.symbol, amount, frequency: recurrence.frequency, next_issue_at: schedule.nextIssueAt,
+      });
+      await invoiceScheduleDb.update(id, { webhookId: response.webhook.webhook_id });
+    }
+
+    return res.json(response);
+  } catch (error: any) {
+    console.error("Invoice recurring create error:", error.message);
+    return res.status(500).json({ error: "Failed to create recurring invoice", details: error.message });
+  }
+}
+
+export async function invoiceRecurringGetHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const schedule = await invoiceScheduleDb.get(id);
+    if (!schedule) return res.status(404).json({ error: `Recurring invoice not found: ${id}` });
+
+    const invoices = await invoiceDb.listBySchedule(schedule.id);
+    trackRequest("invoice_recurring_get");
+
+    return res.json({
+      schedule,
+      invoices: invoices.map((inv: any) => ({
+        id: inv.id, amount: inv.amount, status: inv.status, dueDate: inv.dueDate,
+        reference: inv.reference, paymentTx: inv.paymentTx, remindersSent: remindersSent(inv.reminderHistory), createdAt: inv.createdAt,
+      })),
+      count: invoices.length,
+      _gateway: { provider: "spraay-x402", version: "2.5.0", endpoint: `GET /api/v1/invoice/recurring/${id}` },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("Invoice recurring get error:", error.message);
+    return res.status(500).json({ error: "Failed to fetch recurring invoice", details: error.message });
+  }
+}
+
+export async function invoiceRecurringCancelHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const { caller } = req.body;
+    const schedule = await invoiceScheduleDb.get(id);
+    if (!schedule) return res.status(404).json({ error: `Recurring invoice not found: ${id}` });
+    if (!caller || caller.toLowerCase() !== schedule.creator.toLowerCase()) {
+      return res.status(403).json({ error: "Only the creator can cancel a recurring invoice" });
+    }
+    if (schedule.status !== "active") return res.status(400).json({ error: `Recurring invoice is ${schedule.status}` });
+
+    await invoiceScheduleDb.update(schedule.id, { status: "cancelled", nextIssueAt: null });
+    trackRequest("invoice_recurring_cancel");
+
+    return res.json({
+      id: schedule.id, status: "cancelled", issuedCount: schedule.issuedCount,
+      note: "Already-issued invoices stay open and keep their reminders",
+      _gateway: { provider: "spraay-x402", version: "2.5.0", endpoint: `POST /api/v1/invoice/recurring/${id}/cancel` },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("Invoice recurring cancel error:", error.message);
+    return res.status(500).json({ error: "Failed to cancel recurring invoice", details: error.message });
+  }
+}
+
+/**
+ * Send a reminder for one invoice, or for every overdue invoice of a creator.
+ * Also the executor for the cron action `invoice.remind`. Reminders go to
+ * the invoice's own policy channels; other channels need the creator's
+ * signature (creatorRemindMessage).
+ */
+export async function invoiceRemindHandler(req: Request, res: Response) {
+  try {
+    const { invoiceId, creator, channels, signature, signedAt } = req.body;
+    if (!creator) {
+      return res.status(400).json({
+        error: "creator is required — with invoiceId to remind one of their invoices, or alone to remind all of their overdue invoices",
+        optional: {
+          channels: "[{ type: 'email'|'xmtp'|'webhook', to }] — defaults to the invoice's reminder policy; needs signature and signedAt from the creator wallet",
+        },
+      });
+    }
+    if (!isAddress(creator)) return res.status(400).json({ error: "Invalid creator address" });
+
+    let override = null;
+    try {
+      if (channels !== undefined) {
+        override = parseReminderChannels(channels);
+        verifyCreatorSignature(creator, signature, signedAt);
+      }
+    } catch (err: any) {
+      if (!(err instanceof InvoiceReminderError)) throw err;
+      return res.status(err.status).json({
+        error: err.message,
+        ...(err.status === 400 ? {} : {
+          sign: { message: creatorRemindMessage(creator, "<signedAt>"), method: "personal_sign (EIP-191)", fields: ["signature", "signedAt"] },
+        }),
+      });
+    }
+
+    let invoices: any[];
+    if (invoiceId) {
+      const invoice = await invoiceDb.get(invoiceId);
+      if (!invoice) return res.status(404).json({ error: `Invoice not found: ${invoiceId}` });
+      if (invoice.creator.toLowerCase() !== creator.toLowerCase()) return res.status(403).json({ error: "Only the invoice's creator can send reminders" });
+      invoices = [invoice];
+    } else {
+      const lower = creator.toLowerCase();
+      invoices = (await invoiceDb.listByAddress(creator, "overdue"))
+        .filter((inv: any) => inv.creator.toLowerCase() === lower)
+        .slice(0, 50);
+    }
+
+    const results = [];
+    for (const invoice of invoices) results.push(await remindInvoice(invoice, "manual", override));
+    trackRequest("invoice_remind");
+
+    return res.json({
+      reminded: results.filter((r) => r.sent).length,
+      skipped: results.filter((r) => r.skipped).length,
+      results,
+      _gateway: { provider: "spraay-x402", version: "2.5.0", endpoint: "POST /api/v1/invoice/remind" },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("Invoice remind error:", error.message);
+    return res.status(500).json({ error: "Failed to send invoice reminder", details: error.message });
+  }
+}
@@ -11,14 +11,26 @@
 //         Sumsub / Chainalysis Address Screening cover those, and
 //         can be layered in later behind a higher-priced endpoint.
 //
+// Ongoing monitoring: a registered address is re-screened on its own
+// interval by services/sanctions-monitor.ts, and every result — one-off or
+// scheduled — is kept as a kyc record, so GET /kyc/history is the full
+// screening history (see lib/sanctions.ts).
+//
 // Exports:
-//   kycVerifyHandler  POST /api/v1/kyc/verify   — screen one address
-//   kycStatusHandler  GET  /api/v1/kyc/status   — look up a prior record
+//   kycVerifyHandler        POST /api/v1/kyc/verify               — screen one address
+//   kycStatusHandler        GET  /api/v1/kyc/status               — look up a prior record
+//   kycHistoryHandler       GET  /api/v1/kyc/history              — every screening of an address
+//   kycMonitorCreateHandler POST /api/v1/kyc/monitor              — register for re-screening
+//   kycMonitorGetHandler    GET  /api/v1/kyc/monitor/:id          — monitor state and alerts
+//   kycMonitorCancelHandler POST /api/v1/kyc/monitor/:id/cancel   — stop re-screening
 // ═══════════════════════════════════════════════════════════════
 
 import { Request, Response } from "express";
 import { JsonRpcProvider, Contract, isAddress } from "ethers";
-import { kycDb } from "../db.js";
+import { kycDb, sanctionsMonitorDb } from "../db.js";
+import {
+  SanctionsAlert, SanctionsAlerter, SanctionsError, SanctionsScreener, ScreeningResult, parseMonitorInterval, shouldAlert,
+} from "../lib/sanctions.js";
 
 // ── Chainalysis Sanctions Oracle deployments ─────────────────
 // Same contract address on every chain EXCEPT Base, which has its
@@ -101,7 +113,7 @@ const SANCTIONS_LIST_SOURCE = "OFAC SDN (US Treasury)";
 
 // ── Helpers ─────────────────────────────────────────────────
 
-function resolveChain(input: unknown): string | null {
+export function resolveChain(input: unknown): string | null {
   if (typeof input !== "string") return "base";
   const key = input.toLowerCase().trim();
   const resolved = CHAIN_ALIASES[key];
@@ -112,8 +124,8 @@ function pickRpcUrl(chain: string): string {
   return ALCHEMY_RPC[chain] || PUBLIC_RPC[chain];
 }
 
-function genId(): string {
-  return `kyc_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+function genId(prefix = "kyc"): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
 }
 
 /**
@@ -138,6 +150,42 @@ async function screenAddress(address: string, chain: string): Promise<{
   return { isSanctioned, oracleAddress, rpcUrl, durationMs };
 }
 
+export const chainalysisScreener: SanctionsScreener = {
+  name: ORACLE_NAME,
+  async isSanctioned(address, chain) {
+    return (await screenAddress(address, chain)).isSanctioned;
+  },
+};
+
+/**
+ * The kyc record for one screening. `metadata.trigger` says what ran it —
+ * "verify", "monitor" — so the history can tell one-off checks from re-screens.
+ */
+function screeningRecord(
+  address: string, chain: string, isSanctioned: boolean, type: string, metadata: Record<string, any>, now: Date
+) {
+  return {
+    id: genId(),
+    type,
+    address,
+    status: isSanctioned ? "rejected" : "approved",
+    level: "sanctions-screening",
+    // The oracle ONLY covers OFAC SDN. Be honest about what was and
+    // wasn't checked so this never gets mistaken for full KYC.
+    checks: {
+      sanctions: true,
+      sanctions_result: isSanctioned ? "match" : "clear",
+      identity: false,
+      pep: false,
+      adverse_media: false,
+    },
+    createdAt: now.toISOString(),
+    completedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(), // sanctions can change daily
+    metadata: { chain, ...metadata },
+  };
+}
+
 // ── POST /api/v1/kyc/verify ─────────────────────────────────
 //
 // Body:
@@ -183,32 +231,9 @@ export async function kycVerifyHandler(req: Request, res: Response) {
       });
     }
 
-    const id = genId();
     const now = new Date();
-    const status = screen.isSanctioned ? "rejected" : "approved";
-
-    // The oracle ONLY covers OFAC SDN. Be honest about what was and
-    // wasn't checked so this never gets mistaken for full KYC.
-    const checks = {
-      sanctions: true,
-      sanctions_result: screen.isSanctioned ? "match" : "clear",
-      identity: false,
-      pep: false,
-      adverse_media: false,
-    };
-
-    const record = {
-      id,
-      type: kycType,
-      address,
-      status,
-      level: "sanctions-screening",
-      checks,
-      createdAt: now.toISOString(),
-      completedAt: now.toISOString(),
-      expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(), // sanctions can change daily
-      metadata: { chain: resolvedChain, ...(metadata || {}) },
-    };
+    const record = screeningRecord(address, resolvedChain, screen.isSanctioned, kycType, { trigger: "verify", ...(metadata || {}) }, now);
+    const { id, status, checks } = record;
 
     // Persist asynchronously — don't fail the response if the DB write hiccups.
     try {
@@ -307,3 +332,246 @@ export async function kycStatusHandler(req: Request, res: Response) {
     return res.status(500).json({ error: "Failed to fetch KYC record", details: error?.message });
   }
 }
+
+// ── Monitoring ──────────────────────────────────────────────
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function monitorView(monitor: any) {
+  return {
+    id: monitor.id,
+    address: monitor.address,
+    chain: monitor.chain,
+    label: monitor.label,
+    status: monitor.status,
+    intervalHours: monitor.intervalHours,
+    lastResult: monitor.lastResult,
+    lastScreenedAt: monitor.lastScreenedAt,
+    lastError: monitor.lastError,
+    nextScreenAt: monitor.status === "active" ? monitor.nextScreenAt : null,
+    screenCount: monitor.screenCount,
+    alertEmail: monitor.alertEmail,
+    alerts: monitor.alerts,
+    createdAt: monitor.createdAt,
+  };
+}
+
+async function screenOrFail(screener: SanctionsScreener, address: string, chain: string): Promise<ScreeningResult> {
+  try {
+    return (await screener.isSanctioned(address, chain)) ? "match" : "clear";
+  } catch (err: any) {
+    throw new SanctionsError(`Sanctions oracle call failed: ${err?.message || "RPC error"}`, 502);
+  }
+}
+
+/**
+ * Register `address` for re-screening on `chain` and screen it now.
+ * Registering an address that already has an active monitor on that chain
+ * updates its settings instead of adding a second one.
+ */
+export async function registerMonitor(
+  input: { address: unknown; chain?: unknown; intervalHours?: unknown; alertEmail?: unknown; label?: unknown },
+  screener: SanctionsScreener = chainalysisScreener,
+  now: Date = new Date()
+) {
+  if (typeof input.address !== "string" || !isAddress(input.address)) {
+    throw new SanctionsError("Valid address is required");
+  }
+  const chain = resolveChain(input.chain);
+  if (!chain) throw new SanctionsError(`Unsupported chain: ${input.chain} (supported: ${Object.keys(CHAINALYSIS_ORACLE).join(", ")})`);
+  if (input.alertEmail !== undefined && (typeof input.alertEmail !== "string" || !EMAIL_PATTERN.test(input.alertEmail))) {
+    throw new SanctionsError("alertEmail must be an email address");
+  }
+  if (input.label !== undefined && (typeof input.label !== "string" || input.label.length > 100)) {
+    throw new SanctionsError("label must be a string of at most 100 characters");
+  }
+
+  const address = input.address.toLowerCase();
+  const existing = await sanctionsMonitorDb.findActive(address, chain);
+  const intervalHours = input.intervalHours === undefined && existing ? existing.intervalHours : parseMonitorInterval(input.intervalHours);
+  const id = existing?.id ?? genId("mon");
+  const result = await screenOrFail(screener, address, chain);
+  const record = screeningRecord(address, chain, result === "match", "individual", { trigger: "monitor", monitorId: id }, now);
+  await kycDb.create(record);
+
+  const state = {
+    intervalHours,
+    alertEmail: (input.alertEmail as string | undefined) ?? existing?.alertEmail ?? null,
+    label: (input.label as string | undefined) ?? existing?.label ?? null,
+    lastResult: result,
+    lastScreenedAt: now.toISOString(),
+    lastRecordId: record.id,
+    screenCount: (existing?.screenCount ?? 0) + 1,
+    nextScreenAt: new Date(now.getTime() + intervalHours * 3_600_000).toISOString(),
+  };
+  if (existing) {
+    await sanctionsMonitorDb.update(id, { ...state, lastError: null });
+  } else {
+    await sanctionsMonitorDb.create({ id, address, chain, status: "active", webhookId: null, createdAt: now.toISOString(), ...state });
+  }
+  return { monitor: (await sanctionsMonitorDb.get(id))!, record, existing: !!existing };
+}
+
+/**
+ * Re-screen one due monitor. The run is claimed with a compare-and-set on
+ * next_screen_at, so several gateway instances never screen it twice;
+ * returns null when another instance claimed it first. Oracle failures are
+ * kept on the monitor and retried at the next interval.
+ */
+export async function rescreenMonitor(
+  monitor: any,
+  options: { screener?: SanctionsScreener; alert?: SanctionsAlerter } = {},
+  now: Date = new Date()
+) {
+  const screener = options.screener ?? chainalysisScreener;
+  const nextScreenAt = new Date(now.getTime() + monitor.intervalHours * 3_600_000).toISOString();
+  if (!(await sanctionsMonitorDb.claim(monitor.id, monitor.nextScreenAt, nextScreenAt))) return null;
+
+  let result: ScreeningResult;
+  try {
+    result = await screenOrFail(screener, monitor.address, monitor.chain);
+  } catch (err: any) {
+    await sanctionsMonitorDb.update(monitor.id, { lastError: err.message });
+    return { monitorId: monitor.id, result: null, previous: monitor.lastResult, alert: null, error: err.message };
+  }
+
+  const record = screeningRecord(monitor.address, monitor.chain, result === "match", "individual", { trigger: "monitor", monitorId: monitor.id }, now);
+  await kycDb.create(record);
+
+  let alert: SanctionsAlert | null = null;
+  if (shouldAlert(monitor.lastResult, result)) {
+    const event = { at: now.toISOString(), from: monitor.lastResult as ScreeningResult, to: result, recordId: record.id };
+    alert = { ...event, deliveries: options.alert ? await options.alert(monitor, event) : [] };
+    if (!alert.deliveries.some((d) => d.ok)) console.warn(`[kyc] Sanctions alert for ${monitor.id} reached no channel`);
+  }
+
+  await sanctionsMonitorDb.update(monitor.id, {
+    lastResult: result, lastScreenedAt: now.toISOString(), lastRecordId: record.id, lastError: null,
+    screenCount: monitor.screenCount + 1, ...(alert ? { alerts: [...monitor.alerts, alert] } : {}),
+  });
+  return { monitorId: monitor.id, result, previous: monitor.lastResult, alert, error: null };
+}
+
+// ── POST /api/v1/kyc/monitor ────────────────────────────────
+//
+// Body:
+//   address        - the wallet to monitor (required)
+//   chain          - chain to query the oracle on (optional, default "base")
+//   intervalHours  - hours between re-screens, 1–168 (optional, default 24)
+//   alertEmail     - where to email a clear → match alert (optional)
+//   label          - caller's own name for the address (optional)
+//   callback_url   - webhook for `kyc.sanctions_match` alerts (optional)
+
+export async function kycMonitorCreateHandler(req: Request, res: Response) {
+  try {
+    const { monitor, record, existing } = await registerMonitor(req.body || {});
+    const response: any = {
+      monitor: monitorView(monitor),
+      screening: { recordId: record.id, result: record.checks.sanctions_result, status: record.status },
+      existing,
+      note: "Re-screened every intervalHours. A change from clear to match alerts by webhook (callback_url) and alertEmail.",
+      _gateway: { provider: "spraay-x402", version: "2.10.0" },
+      timestamp: new Date().toISOString(),
+    };
+
+    // 💧 Loop-native webhook callback — alerts are follow-ups on this registration
+    if (req.webhookCallback) {
+      response.webhook = await req.webhookCallback("kyc.monitor_created", {
+        monitor_id: monitor.id, address: monitor.address, chain: monitor.chain, result: monitor.lastResult,
+      });
+      await sanctionsMonitorDb.update(monitor.id, { webhookId: response.webhook.webhook_id });
+    }
+
+    return res.json(response);
+  } catch (error: any) {
+    if (error instanceof SanctionsError) return res.status(error.status).json({ error: error.message });
+    console.error("[kyc/monitor] error:", error?.message || error);
+    return res.status(500).json({ error: "Failed to register sanctions monitor", details: error?.message });
+  }
+}
+
+// ── GET /api/v1/kyc/monitor/:id ─────────────────────────────
+
+export async function kycMonitorGetHandler(req: Request, res: Response) {
+  try {
+    const monitor = await sanctionsMonitorDb.get(String(req.params.id));
+    if (!monitor) return res.status(404).json({ error: "Monitor not found" });
+    return res.json({
+      monitor: monitorView(monitor),
+      _gateway: { provider: "spraay-x402", version: "2.10.0" },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("[kyc/monitor] error:", error?.message || error);
+    return res.status(500).json({ error: "Failed to fetch sanctions monitor", details: error?.message });
+  }
+}
+
+// ── POST /api/v1/kyc/monitor/:id/cancel ─────────────────────
+
+export async function kycMonitorCancelHandler(req: Request, res: Response) {
+  try {
+    const monitor = await sanctionsMonitorDb.get(String(req.params.id));
+    if (!monitor) return res.status(404).json({ error: "Monitor not found" });
+    if (monitor.status !== "active") return res.status(409).json({ error: `Monitor is already ${monitor.status}` });
+    await sanctionsMonitorDb.update(monitor.id, { status: "cancelled" });
+    return res.json({
+      monitor: monitorView({ ...monitor, status: "cancelled" }),
+      _gateway: { provider: "spraay-x402", version: "2.10.0" },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("[kyc/monitor] error:", error?.message || error);
+    return res.status(500).json({ error: "Failed to cancel sanctions monitor", details: error?.message });
+  }
+}
+
+// ── GET /api/v1/kyc/history ─────────────────────────────────
+//
+// Query params:
+//   address  - wallet to list screenings for (required)
+//   chain    - only screenings on this chain (optional)
+//
+// Every screening of the address, oldest first. `changed` marks a result
+// that differs from the previous screening on the same chain.
+
+export async function kycHistoryHandler(req: Request, res: Response) {
+  try {
+    const { address, chain } = req.query;
+    if (!address || typeof address !== "string" || !isAddress(address)) {
+      return res.status(400).json({ error: "Valid address query param is required" });
+    }
+    const chainFilter = chain === undefined ? null : resolveChain(chain);
+    if (chain !== undefined && !chainFilter) return res.status(400).json({ error: `Unsupported chain: ${chain}` });
+
+    const last = new Map<string, string>();
+    const screenings = (await kycDb.listByAddress(address))
+      .filter((r: any) => !chainFilter || (r.metadata?.chain || "base") === chainFilter)
+      .map((r: any) => {
+        const recordChain = r.metadata?.chain || "base";
+        const result = r.checks?.sanctions_result ?? null;
+        const previous = last.get(recordChain);
+        last.set(recordChain, result);
+        return {
+          id: r.id, screenedAt: r.created_at, chain: recordChain, result, status: r.status,
+          trigger: r.metadata?.trigger || "verify", monitorId: r.metadata?.monitorId || null,
+          changed: previous !== undefined && previous !== result,
+        };
+      });
+    const monitors = await sanctionsMonitorDb.listByAddress(address);
+
+    return res.json({
+      address: address.toLowerCase(),
+      screenings,
+      total: screenings.length,
+      changes: screenings.filter((s) => s.changed).length,
+      latest: screenings.length > 0 ? screenings[screenings.length - 1] : null,
+      monitors: monitors.filter((m) => !chainFilter || m.chain === chainFilter).map(monitorView),
+      _gateway: { provider: "spraay-x402", version: "2.10.0" },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("[kyc/history] error:", error?.message || error);
+    return res.status(500).json({ error: "Failed to fetch screening history", details: error?.message });
+  }
+}
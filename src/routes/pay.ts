@@ -0,0 +1,181 @@
+// ============================================
+// Hosted invoice checkout — GET /pay/:invoiceId
+// ============================================
+// A plain HTML page a payer can open from a link or email: amount, due date,
+// scannable QR codes for an EIP-681 transfer on Base and (when the invoice has
+// a solanaRecipient) a Solana Pay request, and a status line that polls
+// GET /pay/:invoiceId/status until the reconciler marks the invoice paid.
+// No wallet SDK or script bundle — the QR codes are rendered server-side.
+
+import { Request, Response } from "express";
+import { formatUnits } from "ethers";
+import { invoiceDb } from "../db.js";
+import { qrSvg } from "../lib/qr.js";
+import { trackRequest } from "./health.js";
+import { invoicePaymentLinks } from "./invoice.js";
+
+const SETTLED_STATUSES = ["paid", "overpaid"];
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function txExplorerUrl(payment: { txHash: string; matchedBy: string }): string {
+  return payment.matchedBy === "reference"
+    ? `https://solscan.io/tx/${payment.txHash}`
+    : `https://basescan.org/tx/${payment.txHash}`;
+}
+
+function statusBody(invoice: any) {
+  const links = invoicePaymentLinks(invoice);
+  return {
+    id: invoice.id,
+    status: invoice.status,
+    settled: SETTLED_STATUSES.includes(invoice.status),
+    token: invoice.token.symbol,
+    amount: invoice.amount,
+    received: formatUnits(BigInt(invoice.receivedRaw || "0"), invoice.token.decimals),
+    outstanding: links.outstanding,
+    paidAt: invoice.paidAt,
+    transactions: invoice.payments.map((p: any) => ({ txHash: p.txHash, amount: p.amount, matchedBy: p.matchedBy, explorer: txExplorerUrl(p) })),
+  };
+}
+
+function renderPage(invoice: any): string {
+  const links = invoicePaymentLinks(invoice);
+  const status = statusBody(invoice);
+  const symbol = escapeHtml(invoice.token.symbol);
+  const due = invoice.dueDate ? escapeHtml(invoice.dueDate.slice(0, 10)) : "On receipt";
+
+  const option = (title: string, uri: string, rows: Array<[string, string]>) => `
+    <section class="option">
+      <h2>${escapeHtml(title)}</h2>
+      <div class="qr">${qrSvg(uri)}</div>
+      <a class="button" href="${escapeHtml(uri)}">Open in wallet</a>
+      <dl>${rows.map(([k, v]) => `<dt>${escapeHtml(k)}</dt><dd><code>${escapeHtml(v)}</code></dd>`).join("")}</dl>
+    </section>`;
+
+  const options = [
+    option(`Pay with ${invoice.token.symbol} on Base`, links.eip681, [
+      ["Send exactly", `${links.outstanding} ${invoice.token.symbol}`],
+      ["To", invoice.creator],
+      ["Token contract", invoice.token.address],
+      ["Network", "Base (chain 8453)"],
+    ]),
+    links.solanaPay
+      ? option("Pay with USDC on Solana", links.solanaPay, [
+          ["Send", `${BigInt(invoice.receivedRaw || "0") === 0n ? invoice.amount : links.outstanding} USDC`],
+          ["To", invoice.solanaPay.recipient],
+          ["Network", "Solana (Solana Pay)"],
+        ])
+      : "",
+  ].join("");
+
+  const transactions = status.transactions
+    .map((t: any) => `<li><a href="${escapeHtml(t.explorer)}">${escapeHtml(t.txHash.slice(0, 10))}…</a> ${escapeHtml(t.amount)} ${symbol}</li>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Invoice ${escapeHtml(invoice.id)} — Spraay</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #111; }
+  header { border-bottom: 1px solid #ddd; padding-bottom: 1rem; }
+  .amount { font-size: 2rem; font-weight: 600; margin: 0.5rem 0; }
+  .status { display: inline-block; padding: 0.2rem 0.6rem; border-radius: 999px; background: #fef3c7; }
+  .status.settled { background: #d1fae5; }
+  .options { display: flex; flex-wrap: wrap; gap: 1.5rem; margin-top: 1.5rem; }
+  .option { flex: 1 1 300px; border: 1px solid #ddd; border-radius: 12px; padding: 1rem; }
+  .option h2 { font-size: 1.1rem; margin-top: 0; }
+  .qr svg { width: 100%; max-width: 240px; height: auto; }
+  .button { display: inline-block; margin: 0.5rem 0; padding: 0.5rem 1rem; background: #111; color: #fff; border-radius: 8px; text-decoration: none; }
+  dt { font-size: 0.8rem; color: #666; margin-top: 0.5rem; }
+  dd { margin: 0; word-break: break-all; }
+  .settled-hide { display: ${status.settled ? "none" : "flex"}; }
+  footer { margin-top: 2rem; font-size: 0.8rem; color: #666; }
+</style>
+</head>
+<body>
+<header>
+  <div>Invoice <strong>${escapeHtml(invoice.id)}</strong>${invoice.reference ? ` · ref ${escapeHtml(invoice.reference)}` : ""}</div>
+  <div class="amount">${escapeHtml(invoice.amount)} ${symbol}</div>
+  ${invoice.memo ? `<p>${escapeHtml(invoice.memo)}</p>` : ""}
+  <div>Due: ${due}</div>
+  <p>Status: <span id="status" class="status${status.settled ? " settled" : ""}">${escapeHtml(invoice.status.replace("_", " "))}</span>
+    · received <span id="received">${escapeHtml(status.received)}</span> ${symbol}</p>
+  <ul id="transactions">${transactions}</ul>
+</header>
+<div id="options" class="options settled-hide">${options}
+</div>
+<footer>Payments are detected on-chain automatically; this page updates on its own. Powered by Spraay.</footer>
+<script>
+(function () {
+  var url = ${JSON.stringify(`/pay/${invoice.id}/status`).replace(/</g, "\\u003c")};
+  var settled = ${status.settled};
+  function esc(s) { var d = document.createElement("div"); d.textContent = String(s); return d.innerHTML; }
+  function poll() {
+    if (settled) return;
+    fetch(url, { cache: "no-store" }).then(function (r) { return r.json(); }).then(function (s) {
+      var el = document.getElementById("status");
+      el.textContent = s.status.replace("_", " ");
+      el.className = "status" + (s.settled ? " settled" : "");
+      document.getElementById("received").textContent = s.received;
+      document.getElementById("transactions").innerHTML = s.transactions.map(function (t) {
+        return '<li><a href="' + esc(t.explorer) + '">' + esc(t.txHash.slice(0, 10)) + '…</a> ' + esc(t.amount) + ' ' + esc(s.token) + '</li>';
+      }).join("");
+      if (s.settled) { settled = true; document.getElementById("options").style.display = "none"; }
+    }).catch(function () {}).finally(function () { setTimeout(poll, 10000); });
+  }
+  setTimeout(poll, 10000);
+})();
+</script>
+</body>
+</html>`;
+}
+
+function notFoundPage(id: string): string {
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>Invoice not found</title></head>` +
+    `<body style="font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto;"><h1>Invoice not found</h1><p>${escapeHtml(id)}</p></body></html>`;
+}
+
+/**
+ * GET /pay/:invoiceId — hosted checkout page
+ */
+export async function payPageHandler(req: Request, res: Response) {
+  const id = req.params.invoiceId as string;
+  try {
+    const invoice = await invoiceDb.get(id);
+    res.setHeader("Cache-Control", "no-store");
+    if (!invoice) return res.status(404).type("html").send(notFoundPage(id));
+    trackRequest("pay_page");
+    return res.type("html").send(renderPage(invoice));
+  } catch (error: any) {
+    console.error("Pay page error:", error.message);
+    return res.status(500).json({ error: "Failed to render payment page", details: error.message });
+  }
+}
+
+/**
+ * GET /pay/:invoiceId/status — polled by the checkout page
+ */
+export async function payStatusHandler(req: Request, res: Response) {
+  const id = req.params.invoiceId as string;
+  try {
+    const invoice = await invoiceDb.get(id);
+    res.setHeader("Cache-Control", "no-store");
+    if (!invoice) return res.status(404).json({ error: `Invoice not found: ${id}` });
+    return res.json({ ...statusBody(invoice), timestamp: new Date().toISOString() });
+  } catch (error: any) {
+    console.error("Pay status error:", error.message);
+    return res.status(500).json({ error: "Failed to fetch invoice status", details: error.message });
+  }
+}
@@ -6,8 +6,23 @@ import {
   isAddress,
   parseUnits,
   formatUnits,
+  hexlify,
+  randomBytes,
 } from "ethers";
 import { trackRequest } from "./health.js";
+import { BatchChunkError, chunkItems, chunkRange, chunkSizes, newParentBatchId } from "../lib/batch-chunking.js";
+import { invokeHandler } from "../lib/invoke-handler.js";
+import { SanctionsScreener } from "../lib/sanctions.js";
+import { preflightRequired, preflightScreener, screenPayment } from "../middleware/sanctions-preflight.js";
+import {
+  PayrollRosterError, RosterEntryInput, RunEmployee, EmployerAction, parseRosterEntry, payrollRecurrence, groupByToken, payrollHistory,
+  employerAuthMessage, verifyEmployerSignature,
+} from "../lib/payroll-roster.js";
+import {
+  FxRate, FxRateSource, PayrollFxError, PAYROLL_FX_LOCK_MINUTES, convertFiat, coingeckoFxSource, parseCurrency, quoteFxRates,
+} from "../lib/payroll-fx.js";
+import { oracleFxHandler } from "./oracle.js";
+import { payrollRosterDb, payrollScheduleDb, payrollRunsDb, payrollFxQuoteDb } from "../db.js";
 
 // ============================================
 // CONSTANTS
@@ -22,6 +37,9 @@ const SPRAAY_V2 = "0x1646452F98E36A3c9Cfc3eDD8868221E207B5eEC";
 // Protocol fee: 0.3%
 const PROTOCOL_FEE_BPS = 30;
 
+// Employees per batchTransfer call; larger runs need `chunk: true`
+const MAX_EMPLOYEES_PER_TX = 200;
+
 // ============================================
 // SUPPORTED PAYROLL TOKENS (stablecoins only)
 // ============================================
@@ -91,7 +109,7 @@ const ERC20_ABI = [
 // HELPERS
 // ============================================
 
-function resolvePayrollToken(input: string): PayrollToken | null {
+export function resolvePayrollToken(input: string): PayrollToken | null {
   const upper = input.toUpperCase();
   if (PAYROLL_TOKENS[upper]) return PAYROLL_TOKENS[upper];
 
@@ -102,6 +120,55 @@ function resolvePayrollToken(input: string): PayrollToken | null {
   return null;
 }
 
+// ============================================
+// FIAT SALARIES (FX)
+// ============================================
+
+function generateFxQuoteId(): string {
+  return "FXQ-" + hexlify(randomBytes(6)).slice(2).toUpperCase();
+}
+
+// Fallback when CoinGecko is down: stablecoin cross rates from
+// GET /api/v1/oracle/fx, reading USDC as USD and EURC as EUR
+const onchainFxSource: FxRateSource = {
+  name: "uniswap-v3-onchain",
+  async quote(currencies, token) {
+    const rates: Record<string, number> = {};
+    for (const [currency, base] of [["USD", "USDC"], ["EUR", "EURC"]]) {
+      if (!currencies.includes(currency)) continue;
+      if (token === base) {
+        rates[currency] = 1;
+        continue;
+      }
+      const result = await invokeHandler(oracleFxHandler, { method: "GET", path: "/api/v1/oracle/fx", query: { base } });
+      const rate = result.body?.rates?.[token]?.rate;
+      if (result.status === 200 && typeof rate === "number") rates[currency] = rate;
+    }
+    return rates;
+  },
+};
+
+export const PAYROLL_FX_SOURCES: FxRateSource[] = [coingeckoFxSource, onchainFxSource];
+
+/** Quote `currencies` → `token` and store the quote, locked for PAYROLL_FX_LOCK_MINUTES. */
+export async function lockPayrollFxQuote(
+  currencies: string[],
+  token: string,
+  sources: FxRateSource[] = PAYROLL_FX_SOURCES,
+  now: Date = new Date()
+) {
+  const rates = await quoteFxRates(currencies, token, sources, now);
+  const quote = {
+    id: generateFxQuoteId(),
+    token,
+    rates,
+    lockedUntil: new Date(now.getTime() + PAYROLL_FX_LOCK_MINUTES * 60_000).toISOString(),
+    createdAt: now.toISOString(),
+  };
+  await payrollFxQuoteDb.create(quote);
+  return quote;
+}
+
 // ============================================
 // ROUTE HANDLERS
 // ============================================
@@ -115,15 +182,19 @@ function resolvePayrollToken(input: string): PayrollToken | null {
  * Request body:
  *   token:      string   - Stablecoin symbol or address (USDC, USDT, DAI, EURC)
  *   sender:     string   - Employer/payer wallet address
- *   employees:  array    - Array of { address, amount, label? } objects
+ *   employees:  array    - Array of { address, amount, currency?, label? } objects
  *     address:  string   - Employee wallet address
  *     amount:   string   - Human-readable payment amount (e.g. "2500.00")
+ *     currency?: string  - Fiat currency `amount` is stated in (EUR, GBP, JPY, …);
+ *                          converted to `token` at the rate locked by fxQuoteId
  *     label?:   string   - Optional label (e.g. "March salary", employee name)
+ *   fxQuoteId?: string   - Locked FX quote from /payroll/estimate (required with fiat amounts)
  *   memo?:      string   - Optional payroll memo/reference
+ *   chunk?:     boolean  - Split more than 200 employees into several batch transactions
  */
 export async function payrollExecuteHandler(req: Request, res: Response) {
   try {
-    const { token, sender, employees, memo } = req.body;
+    const { token, sender, employees, memo, chunk, fxQuoteId } = req.body;
 
     // ---- Validation ----
     if (!token || !sender || !employees) {
@@ -134,7 +205,10 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
           sender: "string (employer wallet address)",
           employees: "array of { address, amount, label? }",
         },
-        optional: { memo: "string (payroll reference)" },
+        optional: {
+          memo: "string (payroll reference)",
+          fxQuoteId: "string (locked rate from /payroll/estimate, for employees paid a fiat amount with `currency`)",
+        },
         example: {
           token: "USDC",
           sender: "0xEmployerAddress",
@@ -168,13 +242,35 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
       return res.status(400).json({ error: "employees must be a non-empty array" });
     }
 
-    if (employees.length > 200) {
+    if (employees.length > MAX_EMPLOYEES_PER_TX && chunk !== true) {
       return res.status(400).json({
-        error: `Too many employees: ${employees.length}. Maximum is 200 per batch.`,
-        suggestion: "Split into multiple payroll runs",
+        error: `Too many employees: ${employees.length}. Maximum is ${MAX_EMPLOYEES_PER_TX} per batch.`,
+        suggestion: 'Pass "chunk": true to split the run into multiple batch transactions',
       });
     }
 
+    // Fiat salaries convert at a locked quote — never at a rate fetched now
+    let fxQuote: any = null;
+    if (employees.some((emp: any) => emp?.currency)) {
+      if (!fxQuoteId) {
+        return res.status(400).json({
+          error: "Employees paid in a fiat currency need an fxQuoteId",
+          suggestion: "Lock a rate with POST /api/v1/payroll/estimate { token, currencies } and pass its fxQuote.id",
+        });
+      }
+      fxQuote = await payrollFxQuoteDb.get(fxQuoteId);
+      if (!fxQuote) return res.status(404).json({ error: `FX quote not found: ${fxQuoteId}` });
+      if (fxQuote.token !== tokenInfo.symbol) {
+        return res.status(400).json({ error: `FX quote ${fxQuote.id} is for ${fxQuote.token}, not ${tokenInfo.symbol}` });
+      }
+      if (new Date(fxQuote.lockedUntil) <= new Date()) {
+        return res.status(409).json({
+          error: `FX quote ${fxQuote.id} expired at ${fxQuote.lockedUntil}`,
+          suggestion: "Request a new quote from POST /api/v1/payroll/estimate",
+        });
+      }
+    }
+
     const recipients: string[] = [];
     const amounts: bigint[] = [];
     const breakdown: any[] = [];
@@ -203,7 +299,29 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
         });
       }
 
-      const amountRaw = parseUnits(emp.amount, tokenInfo.decimals);
+      let amountRaw: bigint;
+      let fx: FxRate | null = null;
+      if (emp.currency) {
+        let currency: string;
+        try {
+          currency = parseCurrency(emp.currency);
+        } catch (err: any) {
+          return res.status(400).json({ error: `Employee at index ${i}: ${err.message}` });
+        }
+        fx = fxQuote.rates.find((r: FxRate) => r.currency === currency) || null;
+        if (!fx) {
+          return res.status(400).json({
+            error: `FX quote ${fxQuote.id} has no ${currency} rate (employee at index ${i})`,
+            quoted: fxQuote.rates.map((r: FxRate) => r.currency),
+          });
+        }
+        amountRaw = convertFiat(String(emp.amount), fx.rate, tokenInfo.decimals);
+        if (amountRaw === 0n) {
+          return res.status(400).json({ error: `Amount for employee at index ${i} converts to 0 ${tokenInfo.symbol}` });
+        }
+      } else {
+        amountRaw = parseUnits(emp.amount, tokenInfo.decimals);
+      }
       recipients.push(emp.address);
       amounts.push(amountRaw);
       totalRaw += amountRaw;
@@ -211,35 +329,55 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
       breakdown.push({
         index: i,
         address: emp.address,
-        amount: emp.amount,
+        amount: fx ? formatUnits(amountRaw, tokenInfo.decimals) : emp.amount,
         amountRaw: amountRaw.toString(),
         label: emp.label || null,
+        ...(fx ? {
+          fx: {
+            currency: fx.currency, fiatAmount: String(emp.amount), rate: fx.rate,
+            source: fx.source, quotedAt: fx.quotedAt, quoteId: fxQuote.id,
+          },
+        } : {}),
       });
     }
 
-    // Calculate protocol fee
-    const protocolFee = (totalRaw * BigInt(PROTOCOL_FEE_BPS)) / 10000n;
-    const totalWithFee = totalRaw + protocolFee;
-
     // ---- Build transactions ----
     const spraayIface = new Interface(SPRAAY_V2_ABI);
     const erc20Iface = new Interface(ERC20_ABI);
 
-    // Approval tx
+    // One batchTransfer per chunk of up to MAX_EMPLOYEES_PER_TX — a single chunk
+    // unless `chunk: true` let a larger run through. The run's fee is the sum.
+    const indexes = recipients.map((_, i) => i);
+    const chunks = chunkItems(indexes, MAX_EMPLOYEES_PER_TX).map((c) => {
+      const chunkRaw = c.items.reduce((sum, i) => sum + amounts[i], 0n);
+      const chunkFee = (chunkRaw * BigInt(PROTOCOL_FEE_BPS)) / 10000n;
+      // Gas estimation (rough: ~50k base + ~30k per recipient)
+      const gas = 50000 + c.items.length * 30000;
+      return {
+        chunk: c,
+        fee: chunkFee,
+        totalWithFee: chunkRaw + chunkFee,
+        gas,
+        calldata: spraayIface.encodeFunctionData("batchTransfer", [
+          tokenInfo.address,
+          c.items.map((i) => recipients[i]),
+          c.items.map((i) => amounts[i].toString()),
+        ]),
+      };
+    });
+
+    // Calculate protocol fee
+    const protocolFee = chunks.reduce((sum, c) => sum + c.fee, 0n);
+    const totalWithFee = totalRaw + protocolFee;
+
+    // Approval tx — one allowance covers every chunk
     const approveCalldata = erc20Iface.encodeFunctionData("approve", [
       SPRAAY_V2,
       totalWithFee,
     ]);
 
-    // Batch transfer tx
-    const batchCalldata = spraayIface.encodeFunctionData("batchTransfer", [
-      tokenInfo.address,
-      recipients,
-      amounts.map((a) => a.toString()),
-    ]);
-
-    // Gas estimation (rough: ~50k base + ~30k per recipient)
-    const estimatedGas = 50000 + employees.length * 30000;
+    const estimatedGas = chunks.reduce((sum, c) => sum + c.gas, 0);
+    const parentBatchId = chunk === true ? newParentBatchId() : null;
 
     // Check sender balance if possible
     let balanceCheck = null;
@@ -282,6 +420,7 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
         totalWithFee: formatUnits(totalWithFee, tokenInfo.decimals),
         totalWithFeeRaw: totalWithFee.toString(),
         memo: memo || null,
+        ...(fxQuote ? { fx: { quoteId: fxQuote.id, lockedUntil: fxQuote.lockedUntil, rates: fxQuote.rates } } : {}),
       },
       breakdown,
       transactions: {
@@ -294,7 +433,7 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
         },
         payroll: {
           to: SPRAAY_V2,
-          data: batchCalldata,
+          data: chunks[0].calldata,
           value: "0x0",
           chainId: CHAIN_ID,
           gasLimit: "0x" + estimatedGas.toString(16),
@@ -313,7 +452,7 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
         chain: "Base",
         chainId: CHAIN_ID,
         protocolFee: "0.3%",
-        maxRecipients: 200,
+        maxRecipients: MAX_EMPLOYEES_PER_TX,
         stablePayUrl: "https://stablepay.me",
       },
       _gateway: {
@@ -324,21 +463,54 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
       timestamp: new Date().toISOString(),
     };
 
+    if (parentBatchId) {
+      response.chunked = true;
+      response.parentBatchId = parentBatchId;
+      response.payroll.chunkCount = chunks.length;
+      response.payroll.maxPerChunk = MAX_EMPLOYEES_PER_TX;
+      delete response.transactions.payroll;
+      response.transactions.chunks = chunks.map((c) => ({
+        index: c.chunk.index,
+        recipientRange: chunkRange(c.chunk),
+        employeeCount: c.chunk.items.length,
+        totalAmount: formatUnits(c.totalWithFee - c.fee, tokenInfo.decimals),
+        protocolFee: formatUnits(c.fee, tokenInfo.decimals),
+        totalWithFee: formatUnits(c.totalWithFee, tokenInfo.decimals),
+        to: SPRAAY_V2,
+        data: c.calldata,
+        value: "0x0",
+        chainId: CHAIN_ID,
+        gasLimit: "0x" + c.gas.toString(16),
+        note: `Payroll chunk ${c.chunk.index + 1}/${chunks.length}: ${c.chunk.items.length} employees via Spraay V2`,
+      }));
+      response.instructions = [
+        `1. Ensure you have ${formatUnits(totalWithFee, tokenInfo.decimals)} ${tokenInfo.symbol} (includes 0.3% protocol fee)`,
+        "2. Sign and submit the approval transaction once for the combined total",
+        `3. Sign and submit each of the ${chunks.length} chunk transactions — they are independent`,
+        `4. Report each chunk's outcome against parentBatchId ${parentBatchId}; a mix of confirmed and failed chunks fires batch.partial_failure`,
+      ];
+    }
+
     // 💧 Loop-native webhook callback
     if (req.webhookCallback) {
       response.webhook = await req.webhookCallback('batch.created' as any, {
         type: 'payroll',
+        ...(parentBatchId ? { batch_id: parentBatchId, chunk_count: chunks.length } : {}),
         employee_count: employees.length,
         token: tokenInfo.symbol,
         chain: 'base',
         total_amount: formatUnits(totalRaw, tokenInfo.decimals),
         total_with_fee: formatUnits(totalWithFee, tokenInfo.decimals),
         memo: memo || null,
-      });
+        ...(fxQuote ? { fx_quote_id: fxQuote.id } : {}),
+      }, parentBatchId ? { batchId: parentBatchId } : undefined);
     }
 
     return res.json(response);
   } catch (error: any) {
+    if (error instanceof BatchChunkError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Payroll execute error:", error.message);
     return res.status(500).json({
       error: "Failed to build payroll transactions",
@@ -356,10 +528,19 @@ export async function payrollExecuteHandler(req: Request, res: Response) {
  *   employeeCount: number - Number of employees
  *   token?:        string - Token symbol (optional, for fee calculation)
  *   totalAmount?:  string - Total payment amount (optional, for fee calculation)
+ *   chunk?:        boolean - Estimate a run split across several batch transactions
+ *   currencies?:   array  - Fiat currencies to lock rates for (EUR, GBP, JPY, …)
+ *   employees?:    array  - { amount, currency? } — counts, totals and locks rates
+ *                           for every employee paid in a fiat currency
+ *
+ * With fiat currencies the response carries `fx`: rates into `token`, locked
+ * for PAYROLL_FX_LOCK_MINUTES. Pass fx.quoteId to /payroll/execute as fxQuoteId.
  */
 export async function payrollEstimateHandler(req: Request, res: Response) {
   try {
-    const { employeeCount, token, totalAmount } = req.body;
+    const { token, chunk, currencies, employees } = req.body;
+    const employeeCount = req.body.employeeCount ?? (Array.isArray(employees) ? employees.length : undefined);
+    let totalAmount = req.body.totalAmount;
 
     if (!employeeCount || typeof employeeCount !== "number" || employeeCount < 1) {
       return res.status(400).json({
@@ -368,15 +549,16 @@ export async function payrollEstimateHandler(req: Request, res: Response) {
       });
     }
 
-    if (employeeCount > 200) {
+    if (employeeCount > MAX_EMPLOYEES_PER_TX && chunk !== true) {
       return res.status(400).json({
-        error: `Maximum 200 employees per batch. You requested ${employeeCount}.`,
-        suggestion: `Split into ${Math.ceil(employeeCount / 200)} payroll runs`,
+        error: `Maximum ${MAX_EMPLOYEES_PER_TX} employees per batch. You requested ${employeeCount}.`,
+        suggestion: `Pass "chunk": true to split into ${Math.ceil(employeeCount / MAX_EMPLOYEES_PER_TX)} batch transactions`,
       });
     }
 
-    // Gas estimation
-    const estimatedGas = 50000 + employeeCount * 30000;
+    // Gas estimation, one batchTransfer per chunk
+    const chunkGas = chunkSizes(employeeCount, MAX_EMPLOYEES_PER_TX).map((n) => 50000 + n * 30000);
+    const estimatedGas = chunkGas.reduce((sum, g) => sum + g, 0);
 
     // Get current gas price
     let gasPriceGwei = "0.005"; // Base default
@@ -394,6 +576,43 @@ export async function payrollEstimateHandler(req: Request, res: Response) {
       // Use defaults
     }
 
+    // Lock FX rates for salaries stated in fiat
+    let fx: any = null;
+    const fiatCurrencies = [
+      ...(Array.isArray(currencies) ? currencies : []),
+      ...(Array.isArray(employees) ? employees.filter((e: any) => e?.currency).map((e: any) => e.currency) : []),
+    ];
+    if (fiatCurrencies.length > 0) {
+      const tokenInfo = token ? resolvePayrollToken(token) : null;
+      if (!tokenInfo) {
+        return res.status(400).json({ error: "A supported payroll token is required to quote FX rates", supported: Object.keys(PAYROLL_TOKENS) });
+      }
+      let quote;
+      try {
+        quote = await lockPayrollFxQuote(fiatCurrencies, tokenInfo.symbol);
+      } catch (err: any) {
+        if (err instanceof PayrollFxError) return res.status(err.status).json({ error: err.message });
+        throw err;
+      }
+      fx = { quoteId: quote.id, token: tokenInfo.symbol, lockedUntil: quote.lockedUntil, lockMinutes: PAYROLL_FX_LOCK_MINUTES, rates: quote.rates };
+
+      // Total the run in token units at the locked rates
+      if (Array.isArray(employees) && totalAmount === undefined) {
+        let totalRaw = 0n;
+        for (let i = 0; i < employees.length; i++) {
+          const emp = employees[i];
+          try {
+            const rate = emp.currency ? quote.rates.find((r: FxRate) => r.currency === parseCurrency(emp.currency))! : null;
+            totalRaw += rate ? convertFiat(String(emp.amount), rate.rate, tokenInfo.decimals) : parseUnits(String(emp.amount), tokenInfo.decimals);
+          } catch {
+            return res.status(400).json({ error: `Invalid amount for employee at index ${i}: ${emp?.amount}` });
+          }
+        }
+        totalAmount = formatUnits(totalRaw, tokenInfo.decimals);
+        fx.convertedTotal = totalAmount;
+      }
+    }
+
     // Protocol fee calculation if amount provided
     let feeBreakdown = null;
     if (totalAmount && token) {
@@ -422,9 +641,10 @@ export async function payrollEstimateHandler(req: Request, res: Response) {
         estimatedCostUSD: costUSD,
       },
       feeBreakdown,
+      ...(fx ? { fx } : {}),
       limits: {
-        maxEmployees: 200,
-        batchesNeeded: Math.ceil(employeeCount / 200),
+        maxEmployees: MAX_EMPLOYEES_PER_TX,
+        batchesNeeded: chunkGas.length,
       },
       _gateway: {
         provider: "spraay-x402",
@@ -434,6 +654,9 @@ export async function payrollEstimateHandler(req: Request, res: Response) {
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
+    if (error instanceof BatchChunkError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error("Payroll estimate error:", error.message);
     return res.status(500).json({
       error: "Failed to estimate payroll",
@@ -468,7 +691,7 @@ export async function payrollTokensHandler(_req: Request, res: Response) {
       chain: "Base",
       chainId: CHAIN_ID,
       protocolFee: "0.3%",
-      maxRecipients: 200,
+      maxRecipients: MAX_EMPLOYEES_PER_TX,
       stablePayUrl: "https://stablepay.me",
     },
     _gateway: {
@@ -479,3 +702,510 @@ export async function payrollTokensHandler(_req: Request, res: Response) {
     timestamp: new Date().toISOString(),
   });
 }
+
+// ============================================
+// ROSTER, PAY SCHEDULES & RUN HISTORY
+// ============================================
+
+function generateEmployeeId(): string {
+  return "EMP-" + hexlify(randomBytes(6)).slice(2).toUpperCase();
+}
+
+function generatePayScheduleId(): string {
+  return "PSCH-" + hexlify(randomBytes(6)).slice(2).toUpperCase();
+}
+
+function generateRunId(): string {
+  return "PRUN-" + hexlify(randomBytes(8)).slice(2).toUpperCase();
+}
+
+/**
+ * Responds 401/403 unless the body carries the employer's signature for
+ * `action`; returns whether the request may go ahead.
+ */
+function employerSigned(action: EmployerAction, employer: string, req: Request, res: Response): boolean {
+  try {
+    verifyEmployerSignature(action, employer, req.body.signature, req.body.signedAt);
+    return true;
+  } catch (err: any) {
+    if (!(err instanceof PayrollRosterError)) throw err;
+    res.status(err.status).json({
+      error: err.message,
+      sign: { message: employerAuthMessage(action, employer, "<signedAt>"), method: "personal_sign (EIP-191)", fields: ["signature", "signedAt"] },
+    });
+    return false;
+  }
+}
+
+function rosterView(employee: any) {
+  return {
+    id: employee.id, address: employee.address, amount: employee.amount, token: employee.token, currency: employee.currency,
+    label: employee.label, active: employee.active, createdAt: employee.createdAt, updatedAt: employee.updatedAt,
+  };
+}
+
+/** Per-token totals of a run, for list views. */
+function runSummary(run: any) {
+  return {
+    id: run.id, payDate: run.payDate, trigger: run.trigger, scheduleId: run.scheduleId, status: run.status,
+    employeeCount: run.employees.length,
+    totals: run.payments.map((p: any) => ({ token: p.token, totalAmount: p.payroll.totalAmount, totalWithFee: p.payroll.totalWithFee })),
+    error: run.error,
+  };
+}
+
+export interface PayrollRunInput {
+  employer: string;
+  trigger: "manual" | "schedule";
+  scheduleId?: string | null;
+  payDate: Date;
+  memo: string | null;
+  chunk: boolean;
+}
+
+/**
+ * Build a run from the employer's active roster and record it in the run
+ * history. Each token group goes through payrollExecuteHandler, so a
+ * roster run encodes exactly what POST /api/v1/payroll/execute would. A
+ * group the builder rejects, or any error while building, fails the whole
+ * run (recorded with its error). With SANCTIONS_PREFLIGHT=required the
+ * employer and roster are screened first, as payroll/run's pre-flight would
+ * — scheduled runs have no request for the middleware to screen.
+ */
+export async function generatePayrollRun(
+  input: PayrollRunInput,
+  now: Date = new Date(),
+  fxSources: FxRateSource[] = PAYROLL_FX_SOURCES,
+  screener: SanctionsScreener = preflightScreener
+) {
+  const employees: RunEmployee[] = [];
+  const payments: any[] = [];
+  let error: string | null = null;
+
+  // Anything that throws while building still records the run as failed
+  try {
+    const roster = await payrollRosterDb.listByEmployer(input.employer, true);
+    const groups = groupByToken(roster);
+    if (groups.size === 0) error = "Roster has no active employees";
+
+    if (!error && preflightRequired()) {
+      let screening;
+      try {
+        screening = await screenPayment("payroll", { employer: input.employer, employees: roster }, screener);
+      } catch (err: any) {
+        throw new Error(`sanctions screening unavailable: ${err?.message || err}`);
+      }
+      if (screening.matches.length > 0) {
+        error = `sanctioned counterparty: ${screening.matches.map((m) => `${m.address} (${m.roles.join(", ")})`).join("; ")}`;
+        groups.clear();
+      }
+    }
+
+    for (const [token, group] of groups) {
+      // Fiat salaries convert at a rate locked now, just for this run
+      const fiat = group.filter((e) => e.currency);
+      let fxQuoteId: string | undefined;
+      if (fiat.length > 0) {
+        try {
+          fxQuoteId = (await lockPayrollFxQuote(fiat.map((e) => e.currency), token, fxSources, now)).id;
+        } catch (err: any) {
+          error = `${token}: ${err.message}`;
+          break;
+        }
+      }
+
+      const result = await invokeHandler(payrollExecuteHandler, {
+        path: "/api/v1/payroll/execute",
+        body: {
+          token, sender: input.employer, memo: input.memo, chunk: input.chunk, fxQuoteId,
+          employees: group.map((e) => ({ address: e.address, amount: e.amount, label: e.label, ...(e.currency ? { currency: e.currency } : {}) })),
+        },
+      });
+      if (result.status >= 400) {
+        error = `${token}: ${result.body?.error || `HTTP ${result.status}`}`;
+        break;
+      }
+      // Breakdown lines follow the order employees were sent in
+      employees.push(...group.map((e, i) => {
+        const line = result.body.breakdown[i];
+        return { employeeId: e.id, address: e.address, label: e.label, token, amount: line.amount, ...(line.fx ? { fx: line.fx } : {}) };
+      }));
+      payments.push({
+        token,
+        payroll: result.body.payroll,
+        transactions: result.body.transactions,
+        instructions: result.body.instructions,
+        balanceCheck: result.body.balanceCheck,
+        ...(result.body.parentBatchId ? { chunked: true, parentBatchId: result.body.parentBatchId } : {}),
+      });
+    }
+  } catch (err: any) {
+    error = err?.message || String(err);
+  }
+
+  const run = {
+    id: generateRunId(),
+    employer: input.employer.toLowerCase(),
+    scheduleId: input.scheduleId || null,
+    trigger: input.trigger,
+    payDate: input.payDate.toISOString(),
+    memo: input.memo,
+    status: error ? "failed" : "ready",
+    employees: error ? [] : employees,
+    payments: error ? [] : payments,
+    error,
+    createdAt: now.toISOString(),
+  };
+  await payrollRunsDb.create(run);
+  return run;
+}
+
+/**
+ * POST /api/v1/payroll/roster
+ *
+ * Add or update employees on an employer's roster. Entries are matched by
+ * wallet address: a known address updates that employee (omitted fields
+ * keep their values), a new one is added. Also accepts a CSV/XLSX upload.
+ *
+ * Request body:
+ *   employer:   string  - Employer wallet address (the payroll sender)
+ *   signature:  string  - Employer's signature over employerAuthMessage("roster", …)
+ *   signedAt:   string  - ISO time in the signed message, within 10 minutes of now
+ *   token?:     string  - Default token for new entries (default USDC)
+ *   employees:  array   - { address, amount, token?, currency?, label?, active? }
+ *     currency?: string  - Fiat currency the amount is stated in (EUR, GBP, …);
+ *                          runs convert it to `token` at a freshly locked rate
+ */
+export async function payrollRosterHandler(req: Request, res: Response) {
+  try {
+    const { employer, token = "USDC", employees } = req.body;
+    if (!employer || !Array.isArray(employees) || employees.length === 0) {
+      return res.status(400).json({
+        error: "Missing required fields: employer, employees",
+        example: {
+          employer: "0xEmployerAddress",
+          signature: "0x… (personal_sign of the payroll message)",
+          signedAt: "2026-03-01T12:00:00.000Z",
+          token: "USDC",
+          employees: [
+            { address: "0xAlice", amount: "3000.00", label: "Alice — engineering" },
+            { address: "0xBob", amount: "2500.00", token: "EURC", label: "Bob — design" },
+            { address: "0xDana", amount: "3200.00", currency: "GBP", label: "Dana — London, paid in USDC" },
+            { address: "0xCharlie", active: false },
+          ],
+        },
+      });
+    }
+    if (!isAddress(employer)) return res.status(400).json({ error: "Invalid employer address" });
+    if (!employerSigned("roster", employer, req, res)) return;
+
+    const seen = new Set<string>();
+    const entries: Array<{ entry: RosterEntryInput; existing: any }> = [];
+    for (let i = 0; i < employees.length; i++) {
+      const address = typeof employees[i]?.address === "string" ? employees[i].address.toLowerCase() : null;
+      if (address && seen.has(address)) {
+        return res.status(400).json({ error: `employees[${i}].address appears more than once: ${employees[i].address}` });
+      }
+      if (address) seen.add(address);
+
+      const existing = address && isAddress(address) ? await payrollRosterDb.findByAddress(employer, address) : null;
+      let entry: RosterEntryInput;
+      try {
+        entry = parseRosterEntry(employees[i], i, existing || { token }, (t) => resolvePayrollToken(t)?.symbol ?? null);
+      } catch (err: any) {
+        if (err instanceof PayrollRosterError) return res.status(400).json({ error: err.message, supported: Object.keys(PAYROLL_TOKENS) });
+        throw err;
+      }
+      const decimals = PAYROLL_TOKENS[entry.token].decimals;
+      if (!entry.currency && (entry.amount.split(".")[1] || "").length > decimals) {
+        return res.status(400).json({ error: `employees[${i}].amount has more than ${decimals} decimal places for ${entry.token}` });
+      }
+      entries.push({ entry, existing });
+    }
+
+    const now = new Date().toISOString();
+    let added = 0;
+    for (const { entry, existing } of entries) {
+      if (existing) {
+        await payrollRosterDb.update(existing.id, entry);
+      } else {
+        await payrollRosterDb.create({ id: generateEmployeeId(), employer, ...entry, createdAt: now });
+        added++;
+      }
+    }
+
+    const roster = await payrollRosterDb.listByEmployer(employer);
+    trackRequest("payroll_roster_update");
+
+    return res.json({
+      employer: employer.toLowerCase(),
+      added,
+      updated: entries.length - added,
+      roster: roster.map(rosterView),
+      activeCount: roster.filter((e: any) => e.active).length,
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: "POST /api/v1/payroll/roster" },
+      timestamp: now,
+    });
+  } catch (error: any) {
+    console.error("Payroll roster error:", error.message);
+    return res.status(500).json({ error: "Failed to update payroll roster", details: error.message });
+  }
+}
+
+/**
+ * GET /api/v1/payroll/roster?employer=0x...&includeInactive=true
+ */
+export async function payrollRosterGetHandler(req: Request, res: Response) {
+  try {
+    const employer = req.query.employer as string;
+    if (!employer || !isAddress(employer)) {
+      return res.status(400).json({ error: "Valid employer query parameter required", example: "/api/v1/payroll/roster?employer=0x..." });
+    }
+    const includeInactive = req.query.includeInactive === "true";
+    const roster = await payrollRosterDb.listByEmployer(employer, !includeInactive);
+    trackRequest("payroll_roster_get");
+
+    return res.json({
+      employer: employer.toLowerCase(),
+      roster: roster.map(rosterView),
+      count: roster.length,
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: "GET /api/v1/payroll/roster" },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("Payroll roster get error:", error.message);
+    return res.status(500).json({ error: "Failed to fetch payroll roster", details: error.message });
+  }
+}
+
+/**
+ * POST /api/v1/payroll/run
+ *
+ * Generate a payroll run from the roster now. Returns one set of unsigned
+ * transactions per token on the roster, and records the run in history.
+ *
+ * Request body:
+ *   employer:  string   - Employer wallet address
+ *   signature: string   - Employer's signature over employerAuthMessage("run", …)
+ *   signedAt:  string   - ISO time in the signed message
+ *   memo?:     string   - Payroll memo/reference
+ *   chunk?:    boolean  - Allow more than 200 employees per token
+ */
+export async function payrollRunHandler(req: Request, res: Response) {
+  try {
+    const { employer, memo, chunk } = req.body;
+    if (!employer || !isAddress(employer)) {
+      return res.status(400).json({ error: "Valid employer address required", example: { employer: "0xEmployerAddress", signature: "0x…", signedAt: "2026-03-01T12:00:00.000Z", memo: "March 2026 payroll" } });
+    }
+    if (!employerSigned("run", employer, req, res)) return;
+    const active = await payrollRosterDb.listByEmployer(employer, true);
+    if (active.length === 0) {
+      return res.status(400).json({ error: "Roster has no active employees", suggestion: "Add employees with POST /api/v1/payroll/roster" });
+    }
+
+    const now = new Date();
+    const run = await generatePayrollRun({ employer, trigger: "manual", payDate: now, memo: memo || null, chunk: chunk === true }, now);
+    trackRequest("payroll_run");
+    if (run.status === "failed") {
+      return res.status(400).json({ error: "Payroll run failed", details: run.error, runId: run.id });
+    }
+
+    const response: any = {
+      status: "ready",
+      run,
+      history: { endpoint: `GET /api/v1/payroll/history?employer=${run.employer}` },
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: "POST /api/v1/payroll/run" },
+      timestamp: now.toISOString(),
+    };
+
+    // 💧 Loop-native webhook callback
+    if (req.webhookCallback) {
+      response.webhook = await req.webhookCallback('batch.created' as any, {
+        type: 'payroll', run_id: run.id, employee_count: run.employees.length,
+        totals: runSummary(run).totals, chain: 'base', memo: run.memo,
+      });
+    }
+
+    return res.json(response);
+  } catch (error: any) {
+    console.error("Payroll run error:", error.message);
+    return res.status(500).json({ error: "Failed to generate payroll run", details: error.message });
+  }
+}
+
+/**
+ * POST /api/v1/payroll/schedule
+ *
+ * Create a pay schedule that generates a run from the roster on every pay
+ * date. The first run is on startDate; later ones every 14 days (biweekly)
+ * or on the same day each month (monthly, clamped to short months).
+ *
+ * Request body:
+ *   employer:   string   - Employer wallet address
+ *   signature:  string   - Employer's signature over employerAuthMessage("schedule", …)
+ *   signedAt:   string   - ISO time in the signed message
+ *   frequency:  string   - "biweekly" | "monthly"
+ *   startDate?: string   - First pay date (ISO, default now)
+ *   endDate?:   string   - No runs after this date
+ *   timezone?:  string   - IANA timezone (default UTC)
+ *   memo?:      string   - Memo on every run
+ *   chunk?:     boolean  - Allow more than 200 employees per token
+ */
+export async function payrollScheduleCreateHandler(req: Request, res: Response) {
+  try {
+    const { employer, frequency, startDate, endDate, timezone, memo, chunk } = req.body;
+    if (!employer || !frequency) {
+      return res.status(400).json({
+        error: "Missing required fields: employer, frequency",
+        optional: { startDate: "ISO date (default now)", endDate: "ISO date", timezone: "IANA name", memo: "string", chunk: "boolean" },
+        example: { employer: "0xEmployerAddress", signature: "0x…", signedAt: "2026-03-01T12:00:00.000Z", frequency: "biweekly", startDate: "2026-03-06T14:00:00Z", memo: "Biweekly payroll" },
+      });
+    }
+    if (!isAddress(employer)) return res.status(400).json({ error: "Invalid employer address" });
+    if (!employerSigned("schedule", employer, req, res)) return;
+
+    const now = new Date();
+    const start = startDate ? new Date(startDate) : now;
+    if (isNaN(start.getTime())) return res.status(400).json({ error: "Invalid startDate" });
+    const end = endDate ? new Date(endDate) : null;
+    if (end && (isNaN(end.getTime()) || end <= start)) return res.status(400).json({ error: "endDate must be a valid date after startDate" });
+
+    let recurrence;
+    try {
+      recurrence = payrollRecurrence(frequency, start, timezone);
+    } catch (err: any) {
+      if (err instanceof PayrollRosterError) return res.status(400).json({ error: err.message });
+      throw err;
+    }
+
+    const id = generatePayScheduleId();
+    const schedule = {
+      id, employer, frequency, recurrence, memo: memo || null, chunk: chunk === true,
+      endDate: end ? end.toISOString() : null, status: "active", nextRunAt: start.toISOString(), createdAt: now.toISOString(),
+    };
+    await payrollScheduleDb.create(schedule);
+    const activeCount = (await payrollRosterDb.listByEmployer(employer, true)).length;
+    trackRequest("payroll_schedule_create");
+
+    const response: any = {
+      status: "active",
+      schedule: {
+        id, employer: employer.toLowerCase(), frequency, recurrence, memo: schedule.memo, chunk: schedule.chunk,
+        endDate: schedule.endDate, nextRunAt: schedule.nextRunAt,
+      },
+      roster: {
+        activeCount,
+        ...(activeCount === 0 ? { warning: "Roster has no active employees yet — runs fail until employees are added" } : {}),
+      },
+      lookup: { endpoint: `GET /api/v1/payroll/schedule/${id}` },
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: "POST /api/v1/payroll/schedule" },
+      timestamp: now.toISOString(),
+    };
+
+    // 💧 Loop-native webhook callback — every scheduled run reports on this registration
+    if (req.webhookCallback) {
+      response.webhook = await req.webhookCallback('batch.created' as any, {
+        type: 'payroll_schedule', schedule_id: id, employer: employer.toLowerCase(), frequency, next_run_at: schedule.nextRunAt,
+      });
+      await payrollScheduleDb.update(id, { webhookId: response.webhook.webhook_id });
+    }
+
+    return res.json(response);
+  } catch (error: any) {
+    console.error("Payroll schedule create error:", error.message);
+    return res.status(500).json({ error: "Failed to create pay schedule", details: error.message });
+  }
+}
+
+export async function payrollScheduleGetHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const schedule = await payrollScheduleDb.get(id);
+    if (!schedule) return res.status(404).json({ error: `Pay schedule not found: ${id}` });
+
+    const runs = await payrollRunsDb.listBySchedule(schedule.id);
+    trackRequest("payroll_schedule_get");
+
+    return res.json({
+      schedule,
+      runs: runs.map(runSummary),
+      count: runs.length,
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: `GET /api/v1/payroll/schedule/${id}` },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("Payroll schedule get error:", error.message);
+    return res.status(500).json({ error: "Failed to fetch pay schedule", details: error.message });
+  }
+}
+
+export async function payrollScheduleCancelHandler(req: Request, res: Response) {
+  try {
+    const id = req.params.id as string;
+    const schedule = await payrollScheduleDb.get(id);
+    if (!schedule) return res.status(404).json({ error: `Pay schedule not found: ${id}` });
+    if (!employerSigned("schedule", schedule.employer, req, res)) return;
+    if (schedule.status !== "active") return res.status(400).json({ error: `Pay schedule is ${schedule.status}` });
+
+    // Compare-and-set, so a cancel can't overwrite a schedule that completed meanwhile
+    if (!(await payrollScheduleDb.cancel(schedule.id))) {
+      const current = await payrollScheduleDb.get(schedule.id);
+      return res.status(409).json({ error: `Pay schedule changed while cancelling (now ${current?.status ?? "gone"})` });
+    }
+    trackRequest("payroll_schedule_cancel");
+
+    return res.json({
+      id: schedule.id, status: "cancelled", runCount: schedule.runCount,
+      note: "Runs already generated stay in the history",
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: `POST /api/v1/payroll/schedule/${id}/cancel` },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("Payroll schedule cancel error:", error.message);
+    return res.status(500).json({ error: "Failed to cancel pay schedule", details: error.message });
+  }
+}
+
+/**
+ * GET /api/v1/payroll/history?employer=0x...&year=2026&employee=EMP-…|0x…
+ *
+ * Run history for an employer: every run, each employee's payments over
+ * time with lifetime totals, and year-to-date totals per employee and per
+ * token. Failed runs are listed but never counted.
+ */
+export async function payrollHistoryHandler(req: Request, res: Response) {
+  try {
+    const employer = req.query.employer as string;
+    if (!employer || !isAddress(employer)) {
+      return res.status(400).json({ error: "Valid employer query parameter required", example: "/api/v1/payroll/history?employer=0x...&year=2026" });
+    }
+    const year = req.query.year ? Number(req.query.year) : new Date().getUTCFullYear();
+    if (!Number.isInteger(year) || year < 2000 || year > 9999) return res.status(400).json({ error: "year must be a four-digit year" });
+
+    const runs = await payrollRunsDb.listByEmployer(employer);
+    const history = payrollHistory(runs, year);
+    const filter = typeof req.query.employee === "string" ? req.query.employee.toLowerCase() : null;
+    const employees = filter
+      ? history.employees.filter((e) => e.employeeId.toLowerCase() === filter || e.address.toLowerCase() === filter)
+      : history.employees;
+    trackRequest("payroll_history");
+
+    return res.json({
+      employer: employer.toLowerCase(),
+      runs: runs.map(runSummary),
+      runCount: history.runCount,
+      employees,
+      ytd: {
+        year,
+        byToken: history.ytd.byToken,
+        byEmployee: employees.map((e) => ({ employeeId: e.employeeId, address: e.address, label: e.label, token: e.token, ytd: e.ytd })),
+      },
+      note: "Totals count every generated run, signed or not",
+      _gateway: { provider: "spraay-x402", version: "2.8.0", endpoint: "GET /api/v1/payroll/history" },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error("Payroll history error:", error.message);
+    return res.status(500).json({ error: "Failed to fetch payroll history", details: error.message });
+  }
+}
@@ -24,6 +24,38 @@ function namehash(name: string): string {
   return node;
 }
 
+/**
+ * Forward-resolve a Basename (*.base.eth, on Base) or ENS name (*.eth, on
+ * Ethereum mainnet). Returns null when the name has no address record.
+ */
+export async function resolveName(name: string): Promise<{ address: string; source: "basename" | "ens" } | null> {
+  if (name.endsWith(".base.eth")) {
+    // Basename resolution on Base
+    try {
+      const node = namehash(name);
+      const resolver = new ethers.Contract(BASE_RESOLVER, RESOLVER_ABI, baseProvider);
+      const resolved = await resolver.addr(node);
+      if (resolved && resolved !== ethers.ZeroAddress) {
+        return { address: resolved, source: "basename" };
+      }
+    } catch {
+      // Fall through
+    }
+  }
+
+  if (name.endsWith(".eth")) {
+    // ENS resolution on Ethereum mainnet
+    try {
+      const resolved = await ethProvider.resolveName(name);
+      if (resolved) return { address: resolved, source: "ens" };
+    } catch {
+      // Fall through
+    }
+  }
+
+  return null;
+}
+
 export async function resolveHandler(req: Request, res: Response) {
   try {
     const name = req.query.name as string;
@@ -31,36 +63,9 @@ export async function resolveHandler(req: Request, res: Response) {
       return res.status(400).json({ error: "'name' query parameter required (e.g. vitalik.eth or jesse.base.eth)" });
     }
 
-    let address: string | null = null;
-    let source: string = "unknown";
-
-    if (name.endsWith(".base.eth")) {
-      // Basename resolution on Base
-      try {
-        const node = namehash(name);
-        const resolver = new ethers.Contract(BASE_RESOLVER, RESOLVER_ABI, baseProvider);
-        const resolved = await resolver.addr(node);
-        if (resolved && resolved !== ethers.ZeroAddress) {
-          address = resolved;
-          source = "basename";
-        }
-      } catch {
-        // Fall through
-      }
-    }
-
-    if (!address && name.endsWith(".eth")) {
-      // ENS resolution on Ethereum mainnet
-      try {
-        const resolved = await ethProvider.resolveName(name);
-        if (resolved) {
-          address = resolved;
-          source = "ens";
-        }
-      } catch {
-        // Fall through
-      }
-    }
+    const forward = await resolveName(name);
+    const address: string | null = forward?.address ?? null;
+    const source: string = forward?.source ?? "unknown";
 
     // Also try reverse: if input is an address, get ENS name
     if (!address && ethers.isAddress(name)) {
@@ -2,13 +2,8 @@
 // 8 named exports matching index.ts line 43
 
 import { Request, Response } from 'express';
-import { createClient } from '@supabase/supabase-js';
 import crypto from 'crypto';
-
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_KEY!
-);
+import { storage, eq, lte, inList, contains, Filter } from '../storage/index.js';
 
 const BASE_URL = process.env.BASE_URL || 'https://gateway.spraay.app';
 
@@ -48,9 +43,9 @@ export async function robotRegisterHandler(req: Request, res: Response) {
     const connConfig = { ...connection };
     delete connConfig.type;
 
-    const { data, error } = await supabase
-      .from('robots')
-      .insert({
+    let data: any;
+    try {
+      data = await storage.insert('robots', {
         robot_id: robotId,
         name,
         description: description || null,
@@ -63,12 +58,10 @@ export async function robotRegisterHandler(req: Request, res: Response) {
         connection_config: connConfig,
         tags: tags || [],
         metadata: metadata || {},
-        status: 'online'
-      })
-      .select()
-      .single();
-
-    if (error) {
+        status: 'online',
+        registered_at: new Date().toISOString()
+      });
+    } catch (error: any) {
       console.error('[RTP] Register error:', error);
       return res.status(500).json({ error: 'Failed to register robot', details: error.message });
     }
@@ -117,13 +110,9 @@ export async function robotTaskHandler(req: Request, res: Response) {
       });
     }
 
-    const { data: robot, error: robotErr } = await supabase
-      .from('robots')
-      .select('*')
-      .eq('robot_id', robot_id)
-      .single();
+    const robot = await storage.findOne('robots', [eq('robot_id', robot_id)]);
 
-    if (robotErr || !robot) {
+    if (!robot) {
       return res.status(404).json({ error: 'Robot not found', robot_id });
     }
 
@@ -146,9 +135,9 @@ export async function robotTaskHandler(req: Request, res: Response) {
     const escrowId = generateId('escrow');
     const timeout = timeout_seconds || 60;
 
-    const { data: taskData, error: taskErr } = await supabase
-      .from('robot_tasks')
-      .insert({
+    let taskData: any;
+    try {
+      taskData = await storage.insert('robot_tasks', {
         task_id: taskId,
         robot_id,
         task_type: task,
@@ -161,19 +150,13 @@ export async function robotTaskHandler(req: Request, res: Response) {
         payment_chain: robot.chain,
         status: 'DISPATCHED',
         dispatched_at: new Date().toISOString()
-      })
-      .select()
-      .single();
-
-    if (taskErr) {
+      });
+    } catch (taskErr: any) {
       console.error('[RTP] Task create error:', taskErr);
       return res.status(500).json({ error: 'Failed to create task', details: taskErr.message });
     }
 
-    await supabase
-      .from('robots')
-      .update({ status: 'busy', updated_at: new Date().toISOString() })
-      .eq('robot_id', robot_id);
+    await storage.update('robots', [eq('robot_id', robot_id)], { status: 'busy', updated_at: new Date().toISOString() });
 
     dispatchToRobot(robot, taskData).catch(err =>
       console.error('[RTP] Dispatch to robot failed:', err.message)
@@ -221,13 +204,9 @@ export async function robotCompleteHandler(req: Request, res: Response) {
       });
     }
 
-    const { data: task, error: taskErr } = await supabase
-      .from('robot_tasks')
-      .select('*')
-      .eq('task_id', task_id)
-      .single();
+    const task = await storage.findOne('robot_tasks', [eq('task_id', task_id)]);
 
-    if (taskErr || !task) {
+    if (!task) {
       return res.status(404).json({ error: 'Task not found', task_id });
     }
 
@@ -240,24 +219,18 @@ export async function robotCompleteHandler(req: Request, res: Response) {
 
     const escrowAction = status === 'COMPLETED' ? 'released' : 'refunded';
 
-    const { error: updateErr } = await supabase
-      .from('robot_tasks')
-      .update({
+    try {
+      await storage.update('robot_tasks', [eq('task_id', task_id)], {
         status,
         result: result || null,
         completed_at: new Date().toISOString()
-      })
-      .eq('task_id', task_id);
-
-    if (updateErr) {
+      });
+    } catch (updateErr) {
       console.error('[RTP] Complete update error:', updateErr);
       return res.status(500).json({ error: 'Failed to update task' });
     }
 
-    await supabase
-      .from('robots')
-      .update({ status: 'online', updated_at: new Date().toISOString() })
-      .eq('robot_id', task.robot_id);
+    await storage.update('robots', [eq('robot_id', task.robot_id)], { status: 'online', updated_at: new Date().toISOString() });
 
     if (task.callback_url) {
       fireCallback(task.callback_url, {
@@ -290,24 +263,21 @@ export async function robotListHandler(req: Request, res: Response) {
   try {
     const { capability, chain, max_price, status } = req.query;
 
-    let query = supabase
-      .from('robots')
-      .select('*')
-      .order('registered_at', { ascending: false });
-
-    if (status) query = query.eq('status', status as string);
-    if (capability) query = query.contains('capabilities', [capability as string]);
-    if (max_price) query = query.lte('price_per_task', max_price as string);
-    if (chain) query = query.eq('chain', chain as string);
+    const where: Filter[] = [];
+    if (status) where.push(eq('status', status as string));
+    if (capability) where.push(contains('capabilities', [capability as string]));
+    if (max_price) where.push(lte('price_per_task', max_price as string));
+    if (chain) where.push(eq('chain', chain as string));
 
-    const { data, error } = await query;
-
-    if (error) {
+    let data: any[];
+    try {
+      data = await storage.findMany('robots', { where, orderBy: { column: 'registered_at', ascending: false } });
+    } catch (error: any) {
       console.error('[RTP] List error:', error);
       return res.status(500).json({ error: 'Failed to list robots', details: error.message });
     }
 
-    const robots = (data || []).map(r => ({
+    const robots = data.map(r => ({
       robot_id: r.robot_id,
       name: r.name,
       capabilities: r.capabilities,
@@ -351,13 +321,9 @@ export async function robotTaskStatusHandler(req: Request, res: Response) {
       });
     }
 
-    const { data: task, error } = await supabase
-      .from('robot_tasks')
-      .select('*')
-      .eq('task_id', task_id as string)
-      .single();
+    const task = await storage.findOne('robot_tasks', [eq('task_id', task_id as string)]);
 
-    if (error || !task) {
+    if (!task) {
       return res.status(404).json({ error: 'Task not found', task_id });
     }
 
@@ -393,26 +359,18 @@ export async function robotProfileHandler(req: Request, res: Response) {
       });
     }
 
-    const { data: robot, error } = await supabase
-      .from('robots')
-      .select('*')
-      .eq('robot_id', robot_id as string)
-      .single();
+    const robot = await storage.findOne('robots', [eq('robot_id', robot_id as string)]);
 
-    if (error || !robot) {
+    if (!robot) {
       return res.status(404).json({ error: 'Robot not found', robot_id });
     }
 
-    const { count: totalTasks } = await supabase
-      .from('robot_tasks')
-      .select('*', { count: 'exact', head: true })
-      .eq('robot_id', robot_id as string);
+    const totalTasks = await storage.count('robot_tasks', [eq('robot_id', robot_id as string)]);
 
-    const { count: completedTasks } = await supabase
-      .from('robot_tasks')
-      .select('*', { count: 'exact', head: true })
-      .eq('robot_id', robot_id as string)
-      .eq('status', 'COMPLETED');
+    const completedTasks = await storage.count('robot_tasks', [
+      eq('robot_id', robot_id as string),
+      eq('status', 'COMPLETED')
+    ]);
 
     return res.json({
       robot_id: robot.robot_id,
@@ -493,14 +451,9 @@ export async function robotUpdateHandler(req: Request, res: Response) {
 
     updates.updated_at = new Date().toISOString();
 
-    const { data, error } = await supabase
-      .from('robots')
-      .update(updates)
-      .eq('robot_id', robot_id)
-      .select()
-      .single();
+    const [data] = await storage.update('robots', [eq('robot_id', robot_id)], updates);
 
-    if (error || !data) {
+    if (!data) {
       return res.status(404).json({ error: 'Robot not found or update failed', robot_id });
     }
 
@@ -534,11 +487,10 @@ export async function robotDeregisterHandler(req: Request, res: Response) {
       return res.status(400).json({ error: 'Missing required field: robot_id' });
     }
 
-    const { count } = await supabase
-      .from('robot_tasks')
-      .select('*', { count: 'exact', head: true })
-      .eq('robot_id', robot_id)
-      .in('status', ['PENDING', 'DISPATCHED', 'IN_PROGRESS']);
+    const count = await storage.count('robot_tasks', [
+      eq('robot_id', robot_id),
+      inList('status', ['PENDING', 'DISPATCHED', 'IN_PROGRESS'])
+    ]);
 
     if (count && count > 0) {
       return res.status(409).json({
@@ -548,14 +500,9 @@ export async function robotDeregisterHandler(req: Request, res: Response) {
       });
     }
 
-    const { data, error } = await supabase
-      .from('robots')
-      .delete()
-      .eq('robot_id', robot_id)
-      .select()
-      .single();
+    const [data] = await storage.remove('robots', [eq('robot_id', robot_id)]);
 
-    if (error || !data) {
+    if (!data) {
       return res.status(404).json({ error: 'Robot not found', robot_id });
     }
 
@@ -590,32 +537,19 @@ async function dispatchToRobot(robot: any, task: any): Promise<void> {
     });
 
     if (response.ok) {
-      await supabase
-        .from('robot_tasks')
-        .update({ status: 'IN_PROGRESS' })
-        .eq('task_id', task.task_id);
+      await storage.update('robot_tasks', [eq('task_id', task.task_id)], { status: 'IN_PROGRESS' });
     }
   }
 }
 
 async function handleTaskTimeout(taskId: string, robotId: string): Promise<void> {
   try {
-    const { data: task } = await supabase
-      .from('robot_tasks')
-      .select('status')
-      .eq('task_id', taskId)
-      .single();
+    const task = await storage.findOne('robot_tasks', [eq('task_id', taskId)]);
 
     if (task && !['COMPLETED', 'FAILED', 'TIMEOUT', 'CANCELLED'].includes(task.status)) {
-      await supabase
-        .from('robot_tasks')
-        .update({ status: 'TIMEOUT', completed_at: new Date().toISOString() })
-        .eq('task_id', taskId);
-
-      await supabase
-        .from('robots')
-        .update({ status: 'online', updated_at: new Date().toISOString() })
-        .eq('robot_id', robotId);
+      await storage.update('robot_tasks', [eq('task_id', taskId)], { status: 'TIMEOUT', completed_at: new Date().toISOString() });
+
+      await storage.update('robots', [eq('robot_id', robotId)], { status: 'online', updated_at: new Date().toISOString() });
 
       console.log(`[RTP] Task ${taskId} timed out`);
     }
@@ -14,7 +14,7 @@
  */
 
 import { Request, Response } from "express";
-import { createClient } from "@supabase/supabase-js";
+import { storage, eq, inList } from "../storage/index.js";
 import {
   JsonRpcProvider,
   Contract,
@@ -23,66 +23,18 @@ import {
   parseUnits,
   formatUnits,
 } from "ethers";
+import { BATCH_CHAINS, EvmChainConfig } from "../config/chains.js";
 
 // ─── Config ──────────────────────────────────────────
 
-const SUPABASE_URL = process.env.SUPABASE_URL || "";
-const SUPABASE_KEY = process.env.SUPABASE_SERVICE_KEY || "";
 const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY || "";
 
-// Spraay batch contract addresses per chain
-const SPRAAY_CONTRACTS: Record<string, string> = {
-  base: "0x1646452F98E36A3c9Cfc3eDD8868221E207B5eEC",
-  ethereum: "0x15E7aEDa45094DD2E9E746FcA1C726cAd7aE58b3",
-  arbitrum: "0x5be43aA67804aD84fcb890d0AE5F257fb1674302",
-  polygon: "0x6d2453ab7416c99aeDCA47CF552695be5789D7ff",
-  bnb: "0x3093a2951FB77b3beDfB8BA20De645F7413432C1",
-  avalanche: "0x6A41Fb5F5CfE632f9446b548980dA6cE2d75afcC",
-};
-
-// USDC addresses per chain
-const USDC_ADDRESSES: Record<string, string> = {
-  base: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-  ethereum: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-  arbitrum: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
-  polygon: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
-  bnb: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d",
-  avalanche: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E",
-};
-
-// Numeric chain IDs (EIP-155) for the transaction payloads
-const CHAIN_IDS: Record<string, number> = {
-  base: 8453,
-  ethereum: 1,
-  arbitrum: 42161,
-  polygon: 137,
-  bnb: 56,
-  avalanche: 43114,
-};
-
-// Public RPC fallbacks; Alchemy used when key is present
-const ALCHEMY_KEY = process.env.ALCHEMY_API_KEY || "";
-const RPC_URLS: Record<string, string> = ALCHEMY_KEY
-  ? {
-      base: `https://base-mainnet.g.alchemy.com/v2/${ALCHEMY_KEY}`,
-      ethereum: `https://eth-mainnet.g.alchemy.com/v2/${ALCHEMY_KEY}`,
-      arbitrum: `https://arb-mainnet.g.alchemy.com/v2/${ALCHEMY_KEY}`,
-      polygon: `https://polygon-mainnet.g.alchemy.com/v2/${ALCHEMY_KEY}`,
-      bnb: `https://bnb-mainnet.g.alchemy.com/v2/${ALCHEMY_KEY}`,
-      avalanche: `https://avax-mainnet.g.alchemy.com/v2/${ALCHEMY_KEY}`,
-    }
-  : {
-      base: "https://mainnet.base.org",
-      ethereum: "https://eth.llamarpc.com",
-      arbitrum: "https://arb1.arbitrum.io/rpc",
-      polygon: "https://polygon-rpc.com",
-      bnb: "https://bsc-dataseed.binance.org",
-      avalanche: "https://api.avax.network/ext/bc/C/rpc",
-    };
-
-// USDC is 6 decimals on every supported chain (verified against contracts).
-// Different tokens would need their own decimals — but SCTP only pays USDC for now.
-const USDC_DECIMALS = 6;
+// Spraay contract, USDC address, chain ID and RPC per chain come from the shared
+// chain registry. SCTP only settles in USDC, so only chains that list it qualify.
+// USDC decimals are read per chain — Binance-Peg USDC on BNB Chain is 18, not 6.
+const SCTP_CHAINS: Record<string, EvmChainConfig> = Object.fromEntries(
+  Object.values(BATCH_CHAINS).filter((c) => c.tokens.USDC).map((c) => [c.key, c])
+);
 
 // Spraay V2 batch contract ABI (matches payroll.ts) + ERC-20 minimum
 const SPRAAY_V2_ABI = [
@@ -98,14 +50,6 @@ const ERC20_ABI = [
 // Protocol fee: 0.3% (matches payroll.ts)
 const PROTOCOL_FEE_BPS = 30;
 
-// ─── Lazy Supabase init ──────────────────────────────
-
-let _supabase: any = null;
-function db() {
-  if (!_supabase) _supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
-  return _supabase as any;
-}
-
 // ─── 1. POST /api/v1/sctp/supplier ───────────────────
 // Register a new supplier
 
@@ -117,22 +61,14 @@ export async function sctpSupplierCreateHandler(req: Request, res: Response) {
       return res.status(400).json({ error: "name and wallet are required" });
     }
 
-    const { data, error } = await db()
-      .from("sctp_suppliers")
-      .insert({
-        name,
-        wallet,
-        chain: chain || "base",
-        preferred_token: preferredToken || "USDC",
-        contact_email: contactEmail || null,
-        metadata: metadata || {},
-      })
-      .select()
-      .single();
-
-    if (error) {
-      return res.status(500).json({ error: error.message });
-    }
+    const data = await storage.insert("sctp_suppliers", {
+      name,
+      wallet,
+      chain: chain || "base",
+      preferred_token: preferredToken || "USDC",
+      contact_email: contactEmail || null,
+      metadata: metadata || {},
+    });
 
     return res.json({
       supplierId: data.id,
@@ -154,13 +90,9 @@ export async function sctpSupplierGetHandler(req: Request, res: Response) {
   try {
     const { id } = req.params;
 
-    const { data, error } = await db()
-      .from("sctp_suppliers")
-      .select("*")
-      .eq("id", id)
-      .single();
+    const data = await storage.findOne("sctp_suppliers", [eq("id", id)]);
 
-    if (error || !data) {
+    if (!data) {
       return res.status(404).json({ error: "Supplier not found" });
     }
 
@@ -191,32 +123,20 @@ export async function sctpPoCreateHandler(req: Request, res: Response) {
     }
 
     // Verify supplier exists
-    const { data: supplier, error: supErr } = await db()
-      .from("sctp_suppliers")
-      .select("id, name")
-      .eq("id", supplierId)
-      .single();
+    const supplier = await storage.findOne("sctp_suppliers", [eq("id", supplierId)]);
 
-    if (supErr || !supplier) {
+    if (!supplier) {
       return res.status(404).json({ error: "Supplier not found" });
     }
 
-    const { data, error } = await db()
-      .from("sctp_purchase_orders")
-      .insert({
-        supplier_id: supplierId,
-        items,
-        total,
-        currency: currency || "USD",
-        status: "open",
-        metadata: metadata || {},
-      })
-      .select()
-      .single();
-
-    if (error) {
-      return res.status(500).json({ error: error.message });
-    }
+    const data = await storage.insert("sctp_purchase_orders", {
+      supplier_id: supplierId,
+      items,
+      total,
+      currency: currency || "USD",
+      status: "open",
+      metadata: metadata || {},
+    });
 
     return res.json({
       poId: data.id,
@@ -240,20 +160,17 @@ export async function sctpPoGetHandler(req: Request, res: Response) {
   try {
     const { id } = req.params;
 
-    const { data, error } = await db()
-      .from("sctp_purchase_orders")
-      .select("*, sctp_suppliers(name, wallet)")
-      .eq("id", id)
-      .single();
+    const data = await storage.findOne("sctp_purchase_orders", [eq("id", id)]);
 
-    if (error || !data) {
+    if (!data) {
       return res.status(404).json({ error: "Purchase order not found" });
     }
+    const supplier = await storage.findOne("sctp_suppliers", [eq("id", data.supplier_id)]);
 
     return res.json({
       poId: data.id,
       supplierId: data.supplier_id,
-      supplierName: (data as any).sctp_suppliers?.name,
+      supplierName: supplier?.name,
       items: data.items,
       total: data.total,
       currency: data.currency,
@@ -278,32 +195,20 @@ export async function sctpInvoiceSubmitHandler(req: Request, res: Response) {
 
     // If poId given, verify it exists
     if (poId) {
-      const { data: po, error: poErr } = await db()
-        .from("sctp_purchase_orders")
-        .select("id")
-        .eq("id", poId)
-        .single();
-      if (poErr || !po) {
+      const po = await storage.findOne("sctp_purchase_orders", [eq("id", poId)]);
+      if (!po) {
         return res.status(404).json({ error: "Purchase order not found" });
       }
     }
 
-    const { data, error } = await db()
-      .from("sctp_invoices")
-      .insert({
-        po_id: poId || null,
-        supplier_id: supplierId,
-        items,
-        total,
-        currency: currency || "USD",
-        status: "submitted",
-      })
-      .select()
-      .single();
-
-    if (error) {
-      return res.status(500).json({ error: error.message });
-    }
+    const data = await storage.insert("sctp_invoices", {
+      po_id: poId || null,
+      supplier_id: supplierId,
+      items,
+      total,
+      currency: currency || "USD",
+      status: "submitted",
+    });
 
     return res.json({
       invoiceId: data.id,
@@ -326,21 +231,18 @@ export async function sctpInvoiceGetHandler(req: Request, res: Response) {
   try {
     const { id } = req.params;
 
-    const { data, error } = await db()
-      .from("sctp_invoices")
-      .select("*, sctp_suppliers(name, wallet)")
-      .eq("id", id)
-      .single();
+    const data = await storage.findOne("sctp_invoices", [eq("id", id)]);
 
-    if (error || !data) {
+    if (!data) {
       return res.status(404).json({ error: "Invoice not found" });
     }
+    const supplier = await storage.findOne("sctp_suppliers", [eq("id", data.supplier_id)]);
 
     return res.json({
       invoiceId: data.id,
       poId: data.po_id,
       supplierId: data.supplier_id,
-      supplierName: (data as any).sctp_suppliers?.name,
+      supplierName: supplier?.name,
       items: data.items,
       total: data.total,
       status: data.status,
@@ -354,6 +256,20 @@ export async function sctpInvoiceGetHandler(req: Request, res: Response) {
   }
 }
 
+/**
+ * SCTP invoice with its supplier and payment rows, for
+ * GET /api/v1/invoice/:id/export. Null when the invoice doesn't exist.
+ */
+export async function findSctpInvoiceForExport(id: string) {
+  const invoice = await storage.findOne("sctp_invoices", [eq("id", id)]);
+  if (!invoice) return null;
+  const [supplier, payments] = await Promise.all([
+    storage.findOne("sctp_suppliers", [eq("id", invoice.supplier_id)]),
+    storage.findMany("sctp_payments", { where: [eq("invoice_id", id)], orderBy: { column: "created_at", ascending: true } }),
+  ]);
+  return { invoice, supplier, payments };
+}
+
 // ─── 4. POST /api/v1/sctp/invoice/verify ─────────────
 // Invoice verification: fast deterministic check first, AI only for fuzzy cases
 // THE MAGIC ENDPOINT
@@ -373,25 +289,16 @@ export async function sctpInvoiceVerifyHandler(req: Request, res: Response) {
     }
 
     // Fetch invoice
-    const { data: invoice, error: invErr } = await db()
-      .from("sctp_invoices")
-      .select("*")
-      .eq("id", invoiceId)
-      .single();
+    const invoice = await storage.findOne("sctp_invoices", [eq("id", invoiceId)]);
 
-    if (invErr || !invoice) {
+    if (!invoice) {
       return res.status(404).json({ error: "Invoice not found" });
     }
 
     // Fetch PO if linked
     let po = null;
     if (invoice.po_id) {
-      const { data: poData } = await db()
-        .from("sctp_purchase_orders")
-        .select("*")
-        .eq("id", invoice.po_id)
-        .single();
-      po = poData;
+      po = await storage.findOne("sctp_purchase_orders", [eq("id", invoice.po_id)]);
     }
 
     // ── FAST PATH: deterministic check first ──────────
@@ -402,13 +309,10 @@ export async function sctpInvoiceVerifyHandler(req: Request, res: Response) {
       const verification = { ...fastResult, verifiedBy: "deterministic", latencyMs: Date.now() - startTime };
 
       // Store and return
-      await db()
-        .from("sctp_invoices")
-        .update({
-          verification,
-          status: verification.recommendation === "approve_payment" ? "verified" : "review_required",
-        })
-        .eq("id", invoiceId);
+      await storage.update("sctp_invoices", [eq("id", invoiceId)], {
+        verification,
+        status: verification.recommendation === "approve_payment" ? "verified" : "review_required",
+      });
 
       return res.json({ invoiceId, poId: invoice.po_id, ...verification });
     }
@@ -451,13 +355,10 @@ export async function sctpInvoiceVerifyHandler(req: Request, res: Response) {
     verification.latencyMs = Date.now() - startTime;
 
     // Store result
-    await db()
-      .from("sctp_invoices")
-      .update({
-        verification,
-        status: verification.recommendation === "approve_payment" ? "verified" : "review_required",
-      })
-      .eq("id", invoiceId);
+    await storage.update("sctp_invoices", [eq("id", invoiceId)], {
+      verification,
+      status: verification.recommendation === "approve_payment" ? "verified" : "review_required",
+    });
 
     return res.json({ invoiceId, poId: invoice.po_id, ...verification });
   } catch (err: any) {
@@ -586,12 +487,14 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
 
     // ── Resolve which chain we're on and validate it ──
     const chainKey = (chain || (payments?.[0]?.chain) || "base").toLowerCase();
-    if (!SPRAAY_CONTRACTS[chainKey]) {
+    const chainConfig = SCTP_CHAINS[chainKey];
+    if (!chainConfig) {
       return res.status(400).json({
         error: `Chain "${chainKey}" not supported`,
-        supportedChains: Object.keys(SPRAAY_CONTRACTS),
+        supportedChains: Object.keys(SCTP_CHAINS),
       });
     }
+    const usdcDecimals = chainConfig.tokens.USDC.decimals;
     // Only USDC is supported for SCTP payments today.
     const tokenSymbol = (token || payments?.[0]?.token || "USDC").toUpperCase();
     if (tokenSymbol !== "USDC") {
@@ -640,15 +543,14 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
 
     // ── Look up every supplier wallet in one query ──
     const supplierIds = items.map((it) => it.supplierId);
-    const { data: suppliers, error: supErr } = await db()
-      .from("sctp_suppliers")
-      .select("id, name, wallet")
-      .in("id", supplierIds);
-    if (supErr) {
+    let suppliers: any[];
+    try {
+      suppliers = await storage.findMany("sctp_suppliers", { where: [inList("id", supplierIds)] });
+    } catch (supErr: any) {
       return res.status(500).json({ error: `Supplier lookup failed: ${supErr.message}` });
     }
     const supplierMap = new Map<string, { id: string; name: string; wallet: string }>();
-    for (const s of suppliers || []) supplierMap.set(s.id, s);
+    for (const s of suppliers) supplierMap.set(s.id, s);
 
     // Reject if any supplier is missing or has no/invalid wallet.
     const recipients: string[] = [];
@@ -667,7 +569,7 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
           index: i,
         });
       }
-      const amountRaw = parseUnits(it.amount.toString(), USDC_DECIMALS);
+      const amountRaw = parseUnits(it.amount.toString(), usdcDecimals);
       recipients.push(sup.wallet);
       amounts.push(amountRaw);
       totalRaw += amountRaw;
@@ -682,7 +584,7 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
       });
     }
 
-    // ── Record payment intents in Supabase ──
+    // ── Record payment intents ──
     const intentRows = items.map((it, i) => ({
       invoice_id: it.invoiceId || null,
       supplier_id: it.supplierId,
@@ -692,11 +594,10 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
       status: "intent_recorded",
       recipient_wallet: recipients[i],
     }));
-    const { data: insertedIntents, error: insErr } = await db()
-      .from("sctp_payments")
-      .insert(intentRows)
-      .select();
-    if (insErr) {
+    let insertedIntents: any[];
+    try {
+      insertedIntents = await storage.insertMany("sctp_payments", intentRows);
+    } catch (insErr: any) {
       return res.status(500).json({ error: `Payment intent insert failed: ${insErr.message}` });
     }
 
@@ -704,9 +605,9 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
     const protocolFee = (totalRaw * BigInt(PROTOCOL_FEE_BPS)) / 10000n;
     const totalWithFee = totalRaw + protocolFee;
 
-    const usdcAddress = USDC_ADDRESSES[chainKey];
-    const spraayContract = SPRAAY_CONTRACTS[chainKey];
-    const chainId = CHAIN_IDS[chainKey];
+    const usdcAddress = chainConfig.tokens.USDC.address;
+    const spraayContract = chainConfig.spraayContract;
+    const chainId = chainConfig.chainId;
 
     const spraayIface = new Interface(SPRAAY_V2_ABI);
     const erc20Iface = new Interface(ERC20_ABI);
@@ -728,7 +629,7 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
     let balanceCheck: any = null;
     if (sender) {
       try {
-        const provider = new JsonRpcProvider(RPC_URLS[chainKey]);
+        const provider = new JsonRpcProvider(chainConfig.rpcUrl);
         const usdc = new Contract(usdcAddress, ERC20_ABI, provider);
         const [balance, allowance] = await Promise.all([
           usdc.balanceOf(sender) as Promise<bigint>,
@@ -737,11 +638,11 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
         const sufficient = balance >= totalWithFee;
         const approvalNeeded = allowance < totalWithFee;
         balanceCheck = {
-          balance: formatUnits(balance, USDC_DECIMALS),
-          required: formatUnits(totalWithFee, USDC_DECIMALS),
+          balance: formatUnits(balance, usdcDecimals),
+          required: formatUnits(totalWithFee, usdcDecimals),
           sufficient,
-          shortfall: sufficient ? null : formatUnits(totalWithFee - balance, USDC_DECIMALS),
-          allowance: formatUnits(allowance, USDC_DECIMALS),
+          shortfall: sufficient ? null : formatUnits(totalWithFee - balance, usdcDecimals),
+          allowance: formatUnits(allowance, usdcDecimals),
           approvalNeeded,
         };
       } catch (e: any) {
@@ -754,10 +655,7 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
     const linkedInvoiceIds = items.map((it) => it.invoiceId).filter((id): id is string => !!id);
     if (linkedInvoiceIds.length > 0) {
       try {
-        await db()
-          .from("sctp_invoices")
-          .update({ status: "payment_initiated" })
-          .in("id", linkedInvoiceIds);
+        await storage.update("sctp_invoices", [inList("id", linkedInvoiceIds)], { status: "payment_initiated" });
       } catch (e: any) {
         // Non-fatal — log and continue.
         console.warn(`[sctp/pay] invoice status update failed: ${e?.message || e}`);
@@ -790,11 +688,11 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
         token: tokenSymbol,
         chain: chainKey,
         chainId,
-        totalAmount: formatUnits(totalRaw, USDC_DECIMALS),
+        totalAmount: formatUnits(totalRaw, usdcDecimals),
         totalAmountRaw: totalRaw.toString(),
-        protocolFee: formatUnits(protocolFee, USDC_DECIMALS),
+        protocolFee: formatUnits(protocolFee, usdcDecimals),
         protocolFeeBps: PROTOCOL_FEE_BPS,
-        totalWithFee: formatUnits(totalWithFee, USDC_DECIMALS),
+        totalWithFee: formatUnits(totalWithFee, usdcDecimals),
         totalWithFeeRaw: totalWithFee.toString(),
         recipientCount: recipients.length,
       },
@@ -804,7 +702,7 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
           data: approveCalldata,
           value: "0x0",
           chainId,
-          note: `Approve Spraay batch contract to spend ${formatUnits(totalWithFee, USDC_DECIMALS)} ${tokenSymbol}`,
+          note: `Approve Spraay batch contract to spend ${formatUnits(totalWithFee, usdcDecimals)} ${tokenSymbol}`,
         },
         batchPayment: {
           to: spraayContract,
@@ -818,8 +716,8 @@ export async function sctpPayExecuteHandler(req: Request, res: Response) {
       balanceCheck,
       instructions: [
         sender
-          ? `1. Ensure ${sender} holds ${formatUnits(totalWithFee, USDC_DECIMALS)} ${tokenSymbol} on ${chainKey}`
-          : `1. Ensure the sender wallet holds ${formatUnits(totalWithFee, USDC_DECIMALS)} ${tokenSymbol} on ${chainKey}`,
+          ? `1. Ensure ${sender} holds ${formatUnits(totalWithFee, usdcDecimals)} ${tokenSymbol} on ${chainKey}`
+          : `1. Ensure the sender wallet holds ${formatUnits(totalWithFee, usdcDecimals)} ${tokenSymbol} on ${chainKey}`,
         "2. Sign and submit the approval transaction (skip if allowance is already sufficient)",
         "3. Sign and submit the batchPayment transaction",
         `4. All ${recipients.length} supplier${recipients.length === 1 ? "" : "s"} will be paid in a single on-chain transaction`,
@@ -18,6 +18,7 @@
 import { Request, Response } from "express";
 import * as StellarSdk from "@stellar/stellar-sdk";
 import { trackRequest } from "./health.js";
+import { BatchChunkError, chunkItems, chunkRange, chunkSizes, newParentBatchId } from "../lib/batch-chunking.js";
 
 // ============ Config ============
 
@@ -54,8 +55,151 @@ function calculateFee(totalAmount: string): string {
   return fee.toFixed(7);
 }
 
+interface StellarRecipient {
+  address: string;
+  amount: string;
+}
+
+/**
+ * Build one unsigned payment transaction: a payment op per recipient plus the
+ * Spraay fee op. Building advances the source account's sequence number, so
+ * successive calls produce transactions that must be submitted in order.
+ */
+function buildBatchTransaction(
+  sourceAccount: StellarSdk.Horizon.AccountResponse,
+  recipients: StellarRecipient[],
+  baseFee: number,
+  memo: unknown,
+  timeoutSeconds: number
+) {
+  let totalAmount = 0;
+  for (const r of recipients) {
+    totalAmount += parseFloat(r.amount);
+  }
+
+  const feeAmount = calculateFee(totalAmount.toFixed(7));
+  const totalWithFee = (totalAmount + parseFloat(feeAmount)).toFixed(7);
+
+  // Fee per operation * (recipients + 1 fee op)
+  const txFee = String(baseFee * (recipients.length + 1));
+
+  let builder = new StellarSdk.TransactionBuilder(sourceAccount, {
+    fee: txFee,
+    networkPassphrase: STELLAR_NETWORK_PASSPHRASE,
+  });
+
+  // Add payment operation for each recipient
+  for (const r of recipients) {
+    builder = builder.addOperation(
+      StellarSdk.Operation.payment({
+        destination: r.address,
+        asset: StellarSdk.Asset.native(),
+        amount: parseFloat(r.amount).toFixed(7),
+      })
+    );
+  }
+
+  // Add Spraay fee payment operation
+  builder = builder.addOperation(
+    StellarSdk.Operation.payment({
+      destination: SPRAAY_FEE_ADDRESS,
+      asset: StellarSdk.Asset.native(),
+      amount: feeAmount,
+    })
+  );
+
+  // Add memo if provided
+  if (memo) {
+    if (typeof memo === "string" && memo.length <= 28) {
+      builder = builder.addMemo(StellarSdk.Memo.text(memo));
+    } else if (typeof memo === "string" && memo.length > 28) {
+      // Use hash memo for longer memos
+      builder = builder.addMemo(StellarSdk.Memo.hash(
+        Buffer.from(memo).toString("hex").padEnd(64, "0").slice(0, 64)
+      ));
+    }
+  }
+
+  builder = builder.setTimeout(timeoutSeconds);
+
+  // Build the transaction (unsigned)
+  const transaction = builder.build();
+
+  return { transaction, totalAmount, feeAmount, totalWithFee, txFee };
+}
+
 // ============ Handlers ============
 
+/**
+ * `chunk: true` — one transaction per MAX_RECIPIENTS recipients, each with its
+ * own Spraay fee op. Sequence numbers are consecutive, so chunks must be
+ * submitted in index order; the timeout stretches to leave time to sign them all.
+ */
+function chunkedStellarResponse(
+  sourceAccount: StellarSdk.Horizon.AccountResponse,
+  recipients: StellarRecipient[],
+  baseFee: number,
+  memo: unknown
+) {
+  const parentBatchId = newParentBatchId();
+  const chunks = chunkItems(recipients, MAX_RECIPIENTS);
+  const timeoutSeconds = 300 * chunks.length;
+
+  let totalAmount = 0;
+  let totalFee = 0;
+  let totalNetworkFee = 0;
+  const built = chunks.map((c) => {
+    const tx = buildBatchTransaction(sourceAccount, c.items, baseFee, memo, timeoutSeconds);
+    totalAmount += tx.totalAmount;
+    totalFee += parseFloat(tx.feeAmount);
+    totalNetworkFee += Number(tx.txFee);
+    return {
+      index: c.index,
+      recipientRange: chunkRange(c),
+      recipientCount: c.items.length,
+      totalAmount: tx.totalAmount.toFixed(7),
+      fee: tx.feeAmount,
+      totalWithFee: tx.totalWithFee,
+      transaction: {
+        unsignedXDR: tx.transaction.toXDR(),
+        sequenceNumber: tx.transaction.sequence,
+        operationCount: c.items.length + 1,
+        networkFee: `${tx.txFee} stroops`,
+      },
+    };
+  });
+
+  return {
+    success: true,
+    chunked: true,
+    parentBatchId,
+    chain: "stellar",
+    chainId: 14,
+    network: "mainnet",
+    batch: {
+      recipientCount: recipients.length,
+      chunkCount: built.length,
+      maxPerChunk: MAX_RECIPIENTS,
+      totalAmount: totalAmount.toFixed(7),
+      fee: totalFee.toFixed(7),
+      feePercent: "0.3%",
+      totalWithFee: (totalAmount + totalFee).toFixed(7),
+      networkFee: `${totalNetworkFee} stroops`,
+      feeAddress: SPRAAY_FEE_ADDRESS,
+    },
+    chunks: built,
+    sourceAccount: sourceAccount.accountId(),
+    networkPassphrase: STELLAR_NETWORK_PASSPHRASE,
+    timeout: `${timeoutSeconds} seconds`,
+    memo: memo || null,
+    instructions: {
+      step1: "Sign every chunk's unsignedXDR with your Stellar secret key",
+      step2: "Submit the chunks in index order — each uses the next sequence number",
+      step3: `Report each chunk's outcome against parentBatchId ${parentBatchId}; a mix of confirmed and failed chunks fires batch.partial_failure`,
+    },
+  };
+}
+
 /**
  * POST /api/v1/stellar/batch
  *
@@ -69,7 +213,8 @@ function calculateFee(totalAmount: string): string {
  *     { "address": "GXYZ...", "amount": "100.00" },
  *     { "address": "GDEF...", "amount": "50.25" }
  *   ],
- *   "memo": "payroll-march-2026"   // Optional memo (max 28 bytes for text)
+ *   "memo": "payroll-march-2026",  // Optional memo (max 28 bytes for text)
+ *   "chunk": true                  // Optional: split more than 99 recipients into several transactions
  * }
  *
  * Returns unsigned XDR that the caller signs and submits.
@@ -77,7 +222,7 @@ function calculateFee(totalAmount: string): string {
 export async function stellarBatchHandler(req: Request, res: Response) {
   trackRequest("/api/v1/stellar/batch");
   try {
-    const { sender, recipients, memo } = req.body;
+    const { sender, recipients, memo, chunk } = req.body;
 
     // ─── Validation ──────────────────────────────────
 
@@ -90,9 +235,10 @@ export async function stellarBatchHandler(req: Request, res: Response) {
     if (!recipients || !Array.isArray(recipients) || recipients.length === 0) {
       return res.status(400).json({ error: "recipients array is required" });
     }
-    if (recipients.length > MAX_RECIPIENTS) {
+    if (recipients.length > MAX_RECIPIENTS && chunk !== true) {
       return res.status(400).json({
         error: `Maximum ${MAX_RECIPIENTS} recipients per transaction (Stellar protocol limit is 100 operations, 1 reserved for fee)`,
+        hint: 'Pass "chunk": true to split the batch into multiple transactions',
       });
     }
 
@@ -131,64 +277,16 @@ export async function stellarBatchHandler(req: Request, res: Response) {
       throw loadErr;
     }
 
-    // ─── Calculate totals ────────────────────────────
-
-    let totalAmount = 0;
-    for (const r of recipients) {
-      totalAmount += parseFloat(r.amount);
-    }
-
-    const feeAmount = calculateFee(totalAmount.toFixed(7));
-    const totalWithFee = (totalAmount + parseFloat(feeAmount)).toFixed(7);
-
-    // ─── Build transaction ───────────────────────────
-
     const baseFee = await horizon.fetchBaseFee();
-    // Fee per operation * (recipients + 1 fee op)
-    const txFee = String(baseFee * (recipients.length + 1));
-
-    let builder = new StellarSdk.TransactionBuilder(sourceAccount, {
-      fee: txFee,
-      networkPassphrase: STELLAR_NETWORK_PASSPHRASE,
-    });
-
-    // Add payment operation for each recipient
-    for (const r of recipients) {
-      builder = builder.addOperation(
-        StellarSdk.Operation.payment({
-          destination: r.address,
-          asset: StellarSdk.Asset.native(),
-          amount: parseFloat(r.amount).toFixed(7),
-        })
-      );
-    }
-
-    // Add Spraay fee payment operation
-    builder = builder.addOperation(
-      StellarSdk.Operation.payment({
-        destination: SPRAAY_FEE_ADDRESS,
-        asset: StellarSdk.Asset.native(),
-        amount: feeAmount,
-      })
-    );
 
-    // Add memo if provided
-    if (memo) {
-      if (typeof memo === "string" && memo.length <= 28) {
-        builder = builder.addMemo(StellarSdk.Memo.text(memo));
-      } else if (typeof memo === "string" && memo.length > 28) {
-        // Use hash memo for longer memos
-        builder = builder.addMemo(StellarSdk.Memo.hash(
-          Buffer.from(memo).toString("hex").padEnd(64, "0").slice(0, 64)
-        ));
-      }
+    if (chunk === true) {
+      return res.json(chunkedStellarResponse(sourceAccount, recipients, baseFee, memo));
     }
 
-    // Set timeout (5 minutes)
-    builder = builder.setTimeout(300);
+    // ─── Build transaction (5 minute timeout) ────────
 
-    // Build the transaction (unsigned)
-    const transaction = builder.build();
+    const { transaction, totalAmount, feeAmount, totalWithFee, txFee } =
+      buildBatchTransaction(sourceAccount, recipients, baseFee, memo, 300);
 
     // Serialize to XDR
     const unsignedXDR = transaction.toXDR();
@@ -211,7 +309,7 @@ export async function stellarBatchHandler(req: Request, res: Response) {
       transaction: {
         unsignedXDR,
         sourceAccount: sender,
-        sequenceNumber: sourceAccount.sequenceNumber(),
+        sequenceNumber: transaction.sequence,
         operationCount: recipients.length + 1,
         networkFee: `${txFee} stroops`,
         networkPassphrase: STELLAR_NETWORK_PASSPHRASE,
@@ -229,6 +327,9 @@ const result = await horizon.submitTransaction(tx);
       },
     });
   } catch (err: any) {
+    if (err instanceof BatchChunkError) {
+      return res.status(400).json({ error: err.message });
+    }
     console.error("stellar/batch error:", err.message);
     return res.status(500).json({ error: err.message });
   }
@@ -248,11 +349,52 @@ const result = await horizon.submitTransaction(tx);
  *
  * Or simple format:
  * { "recipientCount": 5, "totalAmount": "500.00" }
+ *
+ * Add "chunk": true to quote a batch split into transactions of up to 99 recipients.
  */
 export async function stellarEstimateHandler(req: Request, res: Response) {
   trackRequest("/api/v1/stellar/estimate");
   try {
-    const { recipients, recipientCount, totalAmount } = req.body;
+    const { recipients, recipientCount, totalAmount, chunk } = req.body;
+
+    if (recipients && Array.isArray(recipients) && chunk === true) {
+      const baseFee = await horizon.fetchBaseFee();
+      let total = 0;
+      let spraayFee = 0;
+      let networkFee = 0;
+      const chunks = chunkItems(recipients as StellarRecipient[], MAX_RECIPIENTS).map((c) => {
+        const chunkTotal = c.items.reduce((sum, r) => sum + parseFloat(r.amount), 0);
+        const fee = calculateFee(chunkTotal.toFixed(7));
+        const chunkNetworkFee = baseFee * (c.items.length + 1);
+        total += chunkTotal;
+        spraayFee += parseFloat(fee);
+        networkFee += chunkNetworkFee;
+        return {
+          index: c.index,
+          recipientRange: chunkRange(c),
+          recipientCount: c.items.length,
+          totalAmount: chunkTotal.toFixed(7),
+          spraayFee: fee,
+          networkFee: `${chunkNetworkFee} stroops`,
+        };
+      });
+
+      return res.json({
+        success: true,
+        chain: "stellar",
+        chunked: true,
+        recipientCount: recipients.length,
+        chunkCount: chunks.length,
+        maxPerChunk: MAX_RECIPIENTS,
+        totalAmount: total.toFixed(7),
+        spraayFee: spraayFee.toFixed(7),
+        spraayFeePercent: "0.3%",
+        totalWithFee: (total + spraayFee).toFixed(7),
+        networkFee: `${networkFee} stroops (${(networkFee / 10000000).toFixed(7)} XLM)`,
+        chunks,
+        estimatedFinality: `~${5 * chunks.length} seconds (chunks submit in sequence)`,
+      });
+    }
 
     if (recipients && Array.isArray(recipients)) {
       let total = 0;
@@ -282,13 +424,16 @@ export async function stellarEstimateHandler(req: Request, res: Response) {
     const amount = totalAmount ? parseFloat(totalAmount) : 0;
     const feeAmount = amount > 0 ? calculateFee(amount.toFixed(7)) : "0";
     const baseFee = 100; // Default base fee in stroops
-    const networkFee = baseFee * (count + 1);
+    // One fee op per transaction — more than one transaction when chunking
+    const txCount = chunk === true ? chunkSizes(count, MAX_RECIPIENTS).length : 1;
+    const networkFee = baseFee * (count + txCount);
 
     return res.json({
       success: true,
       chain: "stellar",
       recipientCount: count,
       maxRecipientsPerTx: MAX_RECIPIENTS,
+      ...(chunk === true ? { chunked: true, chunkCount: txCount } : {}),
       spraayFeePercent: "0.3%",
       spraayFee: feeAmount,
       networkFee: `${networkFee} stroops (${(networkFee / 10000000).toFixed(7)} XLM)`,
@@ -298,6 +443,9 @@ export async function stellarEstimateHandler(req: Request, res: Response) {
         : undefined,
     });
   } catch (err: any) {
+    if (err instanceof BatchChunkError) {
+      return res.status(400).json({ error: err.message });
+    }
     console.error("stellar/estimate error:", err.message);
     return res.status(500).json({ error: err.message });
   }
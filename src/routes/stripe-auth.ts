@@ -2,7 +2,7 @@ import { Request, Response } from "express";
 import { Resend } from "resend";
 const resend = new Resend(process.env.RESEND_API_KEY);
 import Stripe from "stripe";
-import { supabase } from "../db.js";
+import { storage, eq } from "../storage/index.js";
 import { generateApiKey, hashApiKey } from "../middleware/apiKeyAuth.js";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: "2024-12-18.acacia" as any });
@@ -71,114 +71,114 @@ export function cancelHandler(_req: Request, res: Response) {
  * GET /v1/auth/usage — check daily usage (requires X-API-Key header)
  */
 export async function usageHandler(req: Request, res: Response) {
-  const apiKey = req.headers["x-api-key"] as string | undefined;
-  if (!apiKey) {
-    return res.status(401).json({ error: "missing_api_key", message: "Include your API key in the X-API-Key header." });
-  }
+  try {
+    const apiKey = req.headers["x-api-key"] as string | undefined;
+    if (!apiKey) {
+      return res.status(401).json({ error: "missing_api_key", message: "Include your API key in the X-API-Key header." });
+    }
 
-  const keyHash = hashApiKey(apiKey);
-  const { data: row, error } = await supabase
-    .from("api_keys")
-    .select("plan, status, daily_calls, daily_limit, last_reset, email, created_at")
-    .eq("api_key_hash", keyHash)
-    .single();
+    const keyHash = hashApiKey(apiKey);
+    const row = await storage.findOne("api_keys", [eq("api_key_hash", keyHash)]);
 
-  if (error || !row) {
-    return res.status(401).json({ error: "invalid_api_key", message: "API key not found." });
-  }
+    if (!row) {
+      return res.status(401).json({ error: "invalid_api_key", message: "API key not found." });
+    }
 
-  // Lazy reset check
-  const today = new Date().toISOString().slice(0, 10);
-  const calls = row.last_reset !== today ? 0 : row.daily_calls;
-
-  return res.json({
-    plan: row.plan,
-    status: row.status,
-    usage: { daily_calls: calls, daily_limit: row.daily_limit, remaining: row.daily_limit - calls },
-    resetsAt: "midnight UTC",
-    email: row.email,
-    createdAt: row.created_at,
-  });
+    // Lazy reset check
+    const today = new Date().toISOString().slice(0, 10);
+    const calls = row.last_reset !== today ? 0 : row.daily_calls;
+
+    return res.json({
+      plan: row.plan,
+      status: row.status,
+      usage: { daily_calls: calls, daily_limit: row.daily_limit, remaining: row.daily_limit - calls },
+      resetsAt: "midnight UTC",
+      email: row.email,
+      createdAt: row.created_at,
+    });
+  } catch (err: any) {
+    console.error("Usage error:", err);
+    return res.status(500).json({ error: "usage_failed", message: err.message });
+  }
 }
 
 /**
  * POST /v1/auth/rotate — rotate API key (requires current X-API-Key header)
  */
 export async function rotateHandler(req: Request, res: Response) {
-  const apiKey = req.headers["x-api-key"] as string | undefined;
-  if (!apiKey) {
-    return res.status(401).json({ error: "missing_api_key", message: "Include your current API key in the X-API-Key header." });
-  }
-
-  const keyHash = hashApiKey(apiKey);
-  const { data: row, error } = await supabase
-    .from("api_keys")
-    .select("id, email")
-    .eq("api_key_hash", keyHash)
-    .single();
+  try {
+    const apiKey = req.headers["x-api-key"] as string | undefined;
+    if (!apiKey) {
+      return res.status(401).json({ error: "missing_api_key", message: "Include your current API key in the X-API-Key header." });
+    }
 
-  if (error || !row) {
-    return res.status(401).json({ error: "invalid_api_key", message: "API key not found." });
-  }
+    const keyHash = hashApiKey(apiKey);
+    const row = await storage.findOne("api_keys", [eq("api_key_hash", keyHash)]);
 
-  const newKey = generateApiKey();
-  const newHash = hashApiKey(newKey);
+    if (!row) {
+      return res.status(401).json({ error: "invalid_api_key", message: "API key not found." });
+    }
 
-  await supabase
-    .from("api_keys")
-    .update({ api_key_hash: newHash })
-    .eq("id", row.id);
+    const newKey = generateApiKey();
+    const newHash = hashApiKey(newKey);
+
+    await storage.update("api_keys", [eq("id", row.id)], { api_key_hash: newHash });
+
+    // Email new key to customer
+    try {
+      await resend.emails.send({
+        from: "Spraay <hello@spraay.app>",
+        to: row.email,
+        subject: "Your Spraay API Key Has Been Rotated",
+        html: `
+          <h2>API Key Rotated</h2>
+          <p>Your old key has been revoked. Here's your new key:</p>
+          <pre style="background:#f4f4f4;padding:12px;border-radius:4px;font-size:16px;">${newKey}</pre>
+          <p><strong>Save this key — it won't be shown again.</strong></p>
+        `,
+      });
+    } catch (emailErr) {
+      console.error("Failed to email rotated key:", emailErr);
+    }
 
-  // Email new key to customer
-  try {
-    await resend.emails.send({
-      from: "Spraay <hello@spraay.app>",
-      to: row.email,
-      subject: "Your Spraay API Key Has Been Rotated",
-      html: `
-        <h2>API Key Rotated</h2>
-        <p>Your old key has been revoked. Here's your new key:</p>
-        <pre style="background:#f4f4f4;padding:12px;border-radius:4px;font-size:16px;">${newKey}</pre>
-        <p><strong>Save this key — it won't be shown again.</strong></p>
-      `,
+    return res.json({
+      message: "API key rotated successfully. Your old key no longer works.",
+      api_key: newKey,
+      warning: "Save this key — it won't be shown again.",
     });
-  } catch (emailErr) {
-    console.error("Failed to email rotated key:", emailErr);
+  } catch (err: any) {
+    console.error("Rotate error:", err);
+    return res.status(500).json({ error: "rotate_failed", message: err.message });
   }
-
-  return res.json({
-    message: "API key rotated successfully. Your old key no longer works.",
-    api_key: newKey,
-    warning: "Save this key — it won't be shown again.",
-  });
 }
 
 /**
  * POST /v1/auth/portal — redirect to Stripe customer portal (manage subscription, update card)
  */
 export async function portalHandler(req: Request, res: Response) {
-  const apiKey = req.headers["x-api-key"] as string | undefined;
-  if (!apiKey) {
-    return res.status(401).json({ error: "missing_api_key", message: "Include your API key in the X-API-Key header." });
-  }
+  try {
+    const apiKey = req.headers["x-api-key"] as string | undefined;
+    if (!apiKey) {
+      return res.status(401).json({ error: "missing_api_key", message: "Include your API key in the X-API-Key header." });
+    }
 
-  const keyHash = hashApiKey(apiKey);
-  const { data: row, error } = await supabase
-    .from("api_keys")
-    .select("stripe_customer_id")
-    .eq("api_key_hash", keyHash)
-    .single();
+    const keyHash = hashApiKey(apiKey);
+    const row = await storage.findOne("api_keys", [eq("api_key_hash", keyHash)]);
 
-  if (error || !row) {
-    return res.status(401).json({ error: "invalid_api_key", message: "API key not found." });
-  }
+    if (!row) {
+      return res.status(401).json({ error: "invalid_api_key", message: "API key not found." });
+    }
 
-  const session = await stripe.billingPortal.sessions.create({
-    customer: row.stripe_customer_id,
-    return_url: `${BASE_URL}`,
-  });
+    const session = await stripe.billingPortal.sessions.create({
+      customer: row.stripe_customer_id,
+      return_url: `${BASE_URL}`,
+    });
 
-  return res.json({ url: session.url });
+    return res.json({ url: session.url });
+  } catch (err: any) {
+    console.error("Portal error:", err);
+    return res.status(500).json({ error: "portal_failed", message: err.message });
+  }
 }
 
 /**
@@ -199,101 +199,98 @@ export async function stripeWebhookHandler(req: Request, res: Response) {
 
   console.log(`📩 Stripe webhook: ${event.type}`);
 
-  switch (event.type) {
-    case "checkout.session.completed": {
-      const session = event.data.object as any;
-      const plan = session.metadata?.plan || "starter";
-      const email = session.customer_email || session.customer_details?.email || "";
-      const customerId = session.customer as string;
-      const subscriptionId = session.subscription as string;
-
-      // Generate API key
-      const newKey = generateApiKey();
-      const keyHash = hashApiKey(newKey);
-      const dailyLimit = plan === "pro" ? 10000 : 1000;
-
-      const { error } = await supabase.from("api_keys").insert({
-        api_key_hash: keyHash,
-        stripe_customer_id: customerId,
-        stripe_subscription_id: subscriptionId,
-        plan,
-        status: "active",
-        daily_calls: 0,
-        daily_limit: dailyLimit,
-        email,
-      });
-
-      if (error) {
-        console.error("Failed to store API key:", error);
-        return res.status(500).json({ error: "db_error" });
+  try {
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = event.data.object as any;
+        const plan = session.metadata?.plan || "starter";
+        const email = session.customer_email || session.customer_details?.email || "";
+        const customerId = session.customer as string;
+        const subscriptionId = session.subscription as string;
+
+        // Generate API key
+        const newKey = generateApiKey();
+        const keyHash = hashApiKey(newKey);
+        const dailyLimit = plan === "pro" ? 10000 : 1000;
+
+        try {
+          await storage.insert("api_keys", {
+            api_key_hash: keyHash,
+            stripe_customer_id: customerId,
+            stripe_subscription_id: subscriptionId,
+            plan,
+            status: "active",
+            daily_calls: 0,
+            daily_limit: dailyLimit,
+            email,
+          });
+        } catch (error) {
+          console.error("Failed to store API key:", error);
+          return res.status(500).json({ error: "db_error" });
+        }
+
+        // Email API key to customer
+        try {
+          await resend.emails.send({
+            from: "Spraay <hello@spraay.app>",
+            to: email,
+            subject: "Your Spraay API Key",
+            html: `
+              <h2>Welcome to Spraay Gateway!</h2>
+              <p>Your <strong>${plan}</strong> plan is active. Here's your API key:</p>
+              <pre style="background:#f4f4f4;padding:12px;border-radius:4px;font-size:16px;">${newKey}</pre>
+              <p><strong>Save this key — it won't be shown again.</strong></p>
+              <p>Add it to your requests as: <code>X-API-Key: ${newKey}</code></p>
+              <p>Check your usage anytime: <code>GET https://gateway.spraay.app/v1/auth/usage</code></p>
+              <p>Manage your subscription: <code>POST https://gateway.spraay.app/v1/auth/portal</code></p>
+              <hr>
+              <p style="color:#888;">Spraay Protocol — <a href="https://spraay.app">spraay.app</a></p>
+            `,
+          });
+          console.log(`📧 API key emailed to ${email}`);
+        } catch (emailErr) {
+          console.error("Failed to email API key:", emailErr);
+        }
+
+        break;
       }
 
-      // Email API key to customer
-      try {
-        await resend.emails.send({
-          from: "Spraay <hello@spraay.app>",
-          to: email,
-          subject: "Your Spraay API Key",
-          html: `
-            <h2>Welcome to Spraay Gateway!</h2>
-            <p>Your <strong>${plan}</strong> plan is active. Here's your API key:</p>
-            <pre style="background:#f4f4f4;padding:12px;border-radius:4px;font-size:16px;">${newKey}</pre>
-            <p><strong>Save this key — it won't be shown again.</strong></p>
-            <p>Add it to your requests as: <code>X-API-Key: ${newKey}</code></p>
-            <p>Check your usage anytime: <code>GET https://gateway.spraay.app/v1/auth/usage</code></p>
-            <p>Manage your subscription: <code>POST https://gateway.spraay.app/v1/auth/portal</code></p>
-            <hr>
-            <p style="color:#888;">Spraay Protocol — <a href="https://spraay.app">spraay.app</a></p>
-          `,
-        });
-        console.log(`📧 API key emailed to ${email}`);
-      } catch (emailErr) {
-        console.error("Failed to email API key:", emailErr);
+      case "invoice.payment_failed": {
+        const invoice = event.data.object as any;
+        const subId = invoice.subscription as string;
+        if (subId) {
+          await storage.update("api_keys", [eq("stripe_subscription_id", subId)], { status: "past_due" });
+          console.log(`⚠️ Payment failed for subscription ${subId}`);
+        }
+        break;
       }
 
-      break;
-    }
-
-    case "invoice.payment_failed": {
-      const invoice = event.data.object as any;
-      const subId = invoice.subscription as string;
-      if (subId) {
-        await supabase
-          .from("api_keys")
-          .update({ status: "past_due" })
-          .eq("stripe_subscription_id", subId);
-        console.log(`⚠️ Payment failed for subscription ${subId}`);
+      case "customer.subscription.deleted": {
+        const sub = event.data.object as any;
+        await storage.update("api_keys", [eq("stripe_subscription_id", sub.id)], { status: "cancelled" });
+        console.log(`❌ Subscription cancelled: ${sub.id}`);
+        break;
       }
-      break;
-    }
 
-    case "customer.subscription.deleted": {
-      const sub = event.data.object as any;
-      await supabase
-        .from("api_keys")
-        .update({ status: "cancelled" })
-        .eq("stripe_subscription_id", sub.id);
-      console.log(`❌ Subscription cancelled: ${sub.id}`);
-      break;
-    }
-
-    case "invoice.payment_succeeded": {
-      // Reactivate if previously past_due
-      const invoice = event.data.object as any;
-      const subId = invoice.subscription as string;
-      if (subId) {
-        await supabase
-          .from("api_keys")
-          .update({ status: "active" })
-          .eq("stripe_subscription_id", subId);
+      case "invoice.payment_succeeded": {
+        // Reactivate if previously past_due
+        const invoice = event.data.object as any;
+        const subId = invoice.subscription as string;
+        if (subId) {
+          await storage.update("api_keys", [eq("stripe_subscription_id", subId)], { status: "active" });
+        }
+        break;
       }
-      break;
+
+      default:
+        // Unhandled event type — that's fine
+        break;
     }
 
-    default:
-      // Unhandled event type — that's fine
-      break;
+  } catch (err: any) {
+    // A 500 makes Stripe redeliver the event
+    console.error(`Stripe webhook ${event.type} error:`, err);
+    return res.status(500).json({ error: "db_error" });
   }
-
   return res.json({ received: true });
 }
@@ -6,17 +6,29 @@
 // assets. Prices are cached in Supabase forever — historical prices
 // never change.
 //
-// Scope: per-transaction realized gain/loss in USD. NOT a tax-lot
-//        FIFO/LIFO accounting engine (that requires the caller's
-//        complete acquisition history, which the API can't assume).
+// Scope: per-transaction realized gain/loss in USD by default. Pass
+//        `method: "fifo" | "lifo" | "hifo"` with the caller's complete
+//        acquisition history to match disposals against tax lots
+//        instead (lib/tax-lots.ts).
 //
 // Exports:
 //   taxCalculateHandler  POST /api/v1/tax/calculate
-//   taxReportHandler     GET  /api/v1/tax/report
+//   taxReportHandler     GET  /api/v1/tax/report   (JSON, or ?format=8949 | uk-cgt | koinly CSV)
+//   taxImportWalletHandler POST /api/v1/tax/import-wallet (Base wallet history → lot calculation)
 // ═══════════════════════════════════════════════════════════════
 
 import { Request, Response } from "express";
-import { taxDb, supabase } from "../db.js";
+import { isAddress } from "ethers";
+import { taxDb, storage } from "../db.js";
+import { eq } from "../storage/index.js";
+import {
+  LotEvent, LotMethod, LOT_EVENT_TYPES, LOT_METHODS, TaxLotError, formatLotAmount, matchLots, parseLotAmount,
+} from "../lib/tax-lots.js";
+import { TAX_EXPORT_FORMATS, TaxExportError, TaxExportFormat, renderTaxExport } from "../lib/tax-export.js";
+import { ImportRow, SkippedTransaction, TaxImportError, applyLabels, classifyTransaction } from "../lib/tax-import.js";
+import { invokeHandler } from "../lib/invoke-handler.js";
+import { fetchBasescan } from "./analytics.js";
+import { txDecodeHandler } from "./txDecode.js";
 
 // ── Config ─────────────────────────────────────────────────
 
@@ -79,8 +91,8 @@ function normalizeSymbol(s: any): string | null {
   return t.length > 0 && t.length <= 20 ? t : null;
 }
 
-/** Convert any timestamp the caller might send into "DD-MM-YYYY" — CoinGecko's required format. */
-function toCgDate(input: any): { date: string; outOfWindow: boolean } | null {
+/** ISO date or unix epoch (seconds or ms) → Date; null when unparseable or in the future. */
+function parseDate(input: any): Date | null {
   if (!input) return null;
   let d: Date;
   if (typeof input === "number") {
@@ -94,6 +106,13 @@ function toCgDate(input: any): { date: string; outOfWindow: boolean } | null {
   if (isNaN(d.getTime())) return null;
   // Reject future dates — no prices for the future.
   if (d.getTime() > Date.now()) return null;
+  return d;
+}
+
+/** Convert any timestamp the caller might send into "DD-MM-YYYY" — CoinGecko's required format. */
+function toCgDate(input: any): { date: string; outOfWindow: boolean } | null {
+  const d = parseDate(input);
+  if (!d) return null;
   // Flag dates outside the 365-day historical window so the caller knows
   // we can't auto-resolve a price; they'll need to supply one.
   const outOfWindow = d.getTime() < Date.now() - HISTORY_WINDOW_MS;
@@ -103,7 +122,7 @@ function toCgDate(input: any): { date: string; outOfWindow: boolean } | null {
   return { date: `${dd}-${mm}-${yyyy}`, outOfWindow };
 }
 
-// ── Price cache (Supabase) ─────────────────────────────────
+// ── Price cache (storage) ──────────────────────────────────
 // Historical prices are immutable. We cache by (coin_id, date) and
 // only hit CoinGecko on cache miss. Schema:
 //   create table price_cache (
@@ -118,13 +137,8 @@ function toCgDate(input: any): { date: string; outOfWindow: boolean } | null {
 
 async function cacheGet(coinId: string, date: string): Promise<number | null> {
   try {
-    const { data, error } = await supabase
-      .from("price_cache")
-      .select("price_usd")
-      .eq("coin_id", coinId)
-      .eq("date", date)
-      .maybeSingle();
-    if (error || !data) return null;
+    const data = await storage.findOne("price_cache", [eq("coin_id", coinId), eq("date", date)]);
+    if (!data) return null;
     return typeof data.price_usd === "number"
       ? data.price_usd
       : parseFloat(data.price_usd);
@@ -135,9 +149,10 @@ async function cacheGet(coinId: string, date: string): Promise<number | null> {
 
 async function cacheSet(coinId: string, date: string, price: number): Promise<void> {
   try {
-    await (supabase.from("price_cache") as any).upsert(
+    await storage.upsert(
+      "price_cache",
       { coin_id: coinId, date, price_usd: price, fetched_at: new Date().toISOString() },
-      { onConflict: "coin_id,date" }
+      "coin_id,date"
     );
   } catch (e: any) {
     // Cache is best-effort. Log but don't fail the request.
@@ -190,6 +205,29 @@ async function priceOn(symbol: string, date: string | null): Promise<number | nu
   return live;
 }
 
+interface PriceLookups {
+  cacheHits: number;
+  coingeckoCalls: number;
+}
+
+/** Resolve a price for a date with no caller override, recording where it came from. */
+async function lookupPrice(
+  symbol: string,
+  info: { date: string; outOfWindow: boolean },
+  lookups: PriceLookups
+): Promise<{ price: number | null; source: string }> {
+  if (info.outOfWindow) return { price: null, source: "out-of-window" };
+  const cgId = SYMBOL_TO_CG_ID[symbol];
+  const cached = cgId ? await cacheGet(cgId, info.date) : null;
+  if (cached !== null) {
+    lookups.cacheHits++;
+    return { price: cached, source: "cache" };
+  }
+  const price = await priceOn(symbol, info.date);
+  if (price !== null) lookups.coingeckoCalls++;
+  return { price, source: price !== null ? "lookup" : "unavailable" };
+}
+
 // ── POST /api/v1/tax/calculate ─────────────────────────────
 //
 // Body:
@@ -208,6 +246,7 @@ async function priceOn(symbol: string, date: string | null): Promise<number | nu
 //       holdingDays: 90                                  (optional, computed from dates if missing)
 //     }
 //   ]
+//   method: "fifo" | "lifo" | "hifo"                   (optional — switches to tax-lot matching, below)
 //
 // Returns per-transaction P&L plus aggregate summary.
 
@@ -221,10 +260,11 @@ export async function taxCalculateHandler(req: Request, res: Response) {
       return res.status(400).json({ error: `Max ${MAX_TRANSACTIONS} transactions per batch` });
     }
 
+    if (req.body.method !== undefined) return await calculateLots(transactions, req.body.method, res);
+
     const events: any[] = [];
     const warnings: string[] = [];
-    let priceCacheHits = 0;
-    let priceCacheMisses = 0;
+    const lookups: PriceLookups = { cacheHits: 0, coingeckoCalls: 0 };
 
     for (let i = 0; i < transactions.length; i++) {
       const tx = transactions[i];
@@ -254,38 +294,10 @@ export async function taxCalculateHandler(req: Request, res: Response) {
       let dispSource = "caller-provided";
 
       if (priceAtAcq === null && acquisitionDate) {
-        if (acqInfo!.outOfWindow) {
-          acqSource = "out-of-window";
-        } else {
-          const cgId = SYMBOL_TO_CG_ID[symbol];
-          const cached = cgId ? await cacheGet(cgId, acquisitionDate) : null;
-          if (cached !== null) {
-            priceAtAcq = cached;
-            acqSource = "cache";
-            priceCacheHits++;
-          } else {
-            priceAtAcq = await priceOn(symbol, acquisitionDate);
-            acqSource = priceAtAcq !== null ? "lookup" : "unavailable";
-            if (priceAtAcq !== null) priceCacheMisses++;
-          }
-        }
+        ({ price: priceAtAcq, source: acqSource } = await lookupPrice(symbol, acqInfo!, lookups));
       }
       if (priceAtDisp === null && disposalDate) {
-        if (dispInfo!.outOfWindow) {
-          dispSource = "out-of-window";
-        } else {
-          const cgId = SYMBOL_TO_CG_ID[symbol];
-          const cached = cgId ? await cacheGet(cgId, disposalDate) : null;
-          if (cached !== null) {
-            priceAtDisp = cached;
-            dispSource = "cache";
-            priceCacheHits++;
-          } else {
-            priceAtDisp = await priceOn(symbol, disposalDate);
-            dispSource = priceAtDisp !== null ? "lookup" : "unavailable";
-            if (priceAtDisp !== null) priceCacheMisses++;
-          }
-        }
+        ({ price: priceAtDisp, source: dispSource } = await lookupPrice(symbol, dispInfo!, lookups));
       }
 
       // ── Compute cost basis and proceeds ──────────────
@@ -295,6 +307,7 @@ export async function taxCalculateHandler(req: Request, res: Response) {
 
       if (typeof tx?.costBasisUsd === "number") {
         costBasisUsd = tx.costBasisUsd;
+        acqSource = "caller-provided";
       } else if (priceAtAcq !== null) {
         costBasisUsd = amount * priceAtAcq;
       } else if (acqSource === "out-of-window") {
@@ -305,6 +318,7 @@ export async function taxCalculateHandler(req: Request, res: Response) {
 
       if (typeof tx?.proceedsUsd === "number") {
         proceedsUsd = tx.proceedsUsd;
+        dispSource = "caller-provided";
       } else if (priceAtDisp !== null) {
         proceedsUsd = amount * priceAtDisp;
       } else if (priceAtAcq !== null && type !== "sale") {
@@ -347,6 +361,8 @@ export async function taxCalculateHandler(req: Request, res: Response) {
         timestamp: tx?.timestamp || tx?.disposalDate || tx?.acquisitionDate || new Date().toISOString(),
         asset: symbol,
         amount,
+        acquiredAt: parseDate(tx?.acquisitionDate)?.toISOString() ?? null,
+        disposedAt: parseDate(tx?.disposalDate)?.toISOString() ?? null,
         costBasisUsd: costBasisUsd !== null ? Math.round(costBasisUsd * 100) / 100 : null,
         proceedsUsd: proceedsUsd !== null ? Math.round(proceedsUsd * 100) / 100 : null,
         gainLoss: gainLoss !== null ? Math.round(gainLoss * 100) / 100 : null,
@@ -376,7 +392,7 @@ export async function taxCalculateHandler(req: Request, res: Response) {
       shortTermCount: shortTerm.length,
       longTermCount: longTerm.length,
       unknownTermCount: unknownTerm.length,
-      priceLookups: { cacheHits: priceCacheHits, coingeckoCalls: priceCacheMisses },
+      priceLookups: lookups,
     };
 
     const reportId = genId();
@@ -399,12 +415,12 @@ export async function taxCalculateHandler(req: Request, res: Response) {
           "Short-term (≤365d) vs long-term (>365d) classification",
           "Auto-resolved historical USD prices for supported assets within the last 365 days",
           "Caller-supplied prices accepted for any date",
+          "Form 8949 / Schedule D, UK CGT and Koinly CSV exports via GET /api/v1/tax/report?reportId=…&format=",
         ],
         excluded: [
           "Automatic price resolution beyond 365 days back",
-          "FIFO/LIFO/HIFO tax lot tracking across multiple acquisitions",
+          "Tax lot matching across multiple acquisitions (pass method: fifo | lifo | hifo)",
           "Wash-sale rule application",
-          "Form 8949 / Schedule D file generation",
           "Income event valuation (mining, staking, airdrops require separate flows)",
           "Non-USD reporting currencies",
         ],
@@ -420,22 +436,181 @@ export async function taxCalculateHandler(req: Request, res: Response) {
   }
 }
 
+// ── Tax-lot matching (method: fifo | lifo | hifo) ─────────
+//
+// Body:
+//   method: "fifo" | "lifo" | "hifo"
+//   transactions: [                                     (complete history, any order)
+//     {
+//       type: "acquisition" | "income" | "disposal" | "transfer"   (required)
+//       asset: "ETH"                                    (required)
+//       amount: "1.5"                                   (required, number or decimal string)
+//       date: ISO date or unix epoch                    (required)
+//       priceUsd: 2400.0                                (optional override, USD per unit)
+//       valueUsd: 3600.0                                (optional override, total USD before fees)
+//       feeUsd: 4.2                                     (optional, default 0)
+//       wallet: "0x..."                                 (optional, the wallet holding the asset)
+//       toWallet: "0x..."                               (transfers only, the caller's receiving wallet)
+//       txHash: "0x..."                                 (optional)
+//     }
+//   ]
+//
+// Transfers are never priced; everything else resolves
+// valueUsd → priceUsd × amount → cache → CoinGecko on `date`.
+
+function optionalUsd(tx: any, field: string, i: number): number | null {
+  const value = tx?.[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "number" || !isFinite(value) || value < 0) {
+    throw new TaxLotError(`transactions[${i}]: '${field}' must be a non-negative number`);
+  }
+  return value;
+}
+
+function optionalWallet(value: any, field: string, i: number): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value !== "string") throw new TaxLotError(`transactions[${i}]: '${field}' must be a string`);
+  return value.trim().toLowerCase();
+}
+
+async function parseLotEvent(tx: any, i: number, lookups: PriceLookups): Promise<LotEvent> {
+  if (!LOT_EVENT_TYPES.includes(tx?.type)) {
+    throw new TaxLotError(`transactions[${i}]: 'type' must be one of: ${LOT_EVENT_TYPES.join(", ")}`);
+  }
+  const asset = normalizeSymbol(tx.asset);
+  if (!asset) throw new TaxLotError(`transactions[${i}]: missing or invalid 'asset' symbol`);
+  const amount = parseLotAmount(tx.amount);
+  if (amount === null) {
+    throw new TaxLotError(`transactions[${i}]: 'amount' must be a positive number with at most 18 decimals`);
+  }
+  const date = parseDate(tx.date ?? tx.timestamp);
+  if (!date) throw new TaxLotError(`transactions[${i}]: 'date' is required and must be a past ISO date or unix epoch`);
+
+  const wallet = optionalWallet(tx.wallet, "wallet", i);
+  const toWallet = optionalWallet(tx.toWallet, "toWallet", i);
+  if (tx.type === "transfer" && (!toWallet || toWallet === wallet)) {
+    throw new TaxLotError(`transactions[${i}]: a transfer needs a 'toWallet' different from 'wallet'`);
+  }
+
+  const priceUsd = optionalUsd(tx, "priceUsd", i);
+  let valueUsd = optionalUsd(tx, "valueUsd", i);
+  let priceSource = "caller-provided";
+  if (tx.type === "transfer") {
+    priceSource = "not-priced";
+  } else if (valueUsd === null) {
+    const units = Number(formatLotAmount(amount));
+    if (priceUsd !== null) {
+      valueUsd = priceUsd * units;
+    } else {
+      const { price, source } = await lookupPrice(asset, toCgDate(date.getTime())!, lookups);
+      valueUsd = price === null ? null : price * units;
+      priceSource = source;
+    }
+  }
+
+  return {
+    index: i, type: tx.type, asset, amount, timestamp: date.getTime(), wallet, toWallet, valueUsd,
+    feeUsd: optionalUsd(tx, "feeUsd", i) ?? 0, txHash: typeof tx.txHash === "string" ? tx.txHash : null, priceSource,
+  };
+}
+
+async function calculateLots(transactions: any[], method: any, res: Response) {
+  if (!LOT_METHODS.includes(method)) {
+    return res.status(400).json({ error: `method must be one of: ${LOT_METHODS.join(", ")}` });
+  }
+  const lookups: PriceLookups = { cacheHits: 0, coingeckoCalls: 0 };
+  const lotEvents: LotEvent[] = [];
+  try {
+    for (let i = 0; i < transactions.length; i++) lotEvents.push(await parseLotEvent(transactions[i], i, lookups));
+  } catch (err: any) {
+    if (err instanceof TaxLotError) return res.status(err.status).json({ error: err.message });
+    throw err;
+  }
+
+  const result = matchLots(lotEvents, method as LotMethod);
+  const warnings = [...result.warnings];
+  for (const event of lotEvents) {
+    if (event.type === "transfer" || event.valueUsd !== null) continue;
+    warnings.push(
+      `transactions[${event.index}] (${event.asset}): no USD price (${event.priceSource}); supply priceUsd or valueUsd`
+    );
+  }
+  const summary = { ...result.summary, priceLookups: lookups };
+
+  const reportId = genId();
+  try {
+    await taxDb.create(reportId, result.events, { ...summary, openLots: result.openLots });
+  } catch (dbErr: any) {
+    console.error("[tax/calculate] db write failed:", dbErr?.message || dbErr);
+  }
+
+  return res.json({
+    reportId,
+    summary,
+    events: result.events,
+    openLots: result.openLots,
+    method: `${method.toUpperCase()} tax-lot matching (each disposal's cost basis from the lots it consumes, USD)`,
+    priceSource: "Historical USD prices auto-resolved for dates within the last 365 days; supply priceUsd / valueUsd for older dates.",
+    scope: {
+      included: [
+        "Lot matching across acquisitions by FIFO, LIFO or HIFO, splitting partly consumed lots",
+        "Per-disposal cost basis, proceeds and gain/loss, with the lots consumed",
+        "Short-term vs long-term (disposed after the acquisition date plus one year) per lot consumed",
+        "Transfers between the caller's own wallets carry lots with their dates and basis",
+        "Fees added to basis on acquisitions and transfers, deducted from proceeds on disposals",
+        "Remaining open lots",
+        "Form 8949 / Schedule D, UK CGT and Koinly CSV exports via GET /api/v1/tax/report?reportId=…&format=",
+      ],
+      excluded: [
+        "Automatic price resolution beyond 365 days back",
+        "Wash-sale rule application",
+        "Non-USD reporting currencies",
+      ],
+      disclaimer: "Informational output only. Not tax or legal advice. Consult a qualified tax professional.",
+    },
+    warnings: warnings.length > 0 ? warnings : undefined,
+    _gateway: { provider: "spraay-x402", version: "2.10.0" },
+    timestamp: new Date().toISOString(),
+  });
+}
+
 // ── GET /api/v1/tax/report ─────────────────────────────────
 //
 // Query params:
 //   reportId  - fetch a specific stored report (optional)
+//   format    - json (default) | 8949 | uk-cgt | koinly — CSV exports need a reportId
+//   year      - 8949: calendar year of disposal; uk-cgt: tax year starting 6 April of that year
 //
 // Without reportId: returns the list of stored report IDs.
 
 export async function taxReportHandler(req: Request, res: Response) {
   try {
     const { reportId } = req.query;
+    const format = String(req.query.format || "json").toLowerCase();
+    if (format !== "json" && !TAX_EXPORT_FORMATS.includes(format as TaxExportFormat)) {
+      return res.status(400).json({ error: `Unsupported format: ${req.query.format}`, supported: ["json", ...TAX_EXPORT_FORMATS] });
+    }
+    const year = req.query.year === undefined ? undefined : Number(req.query.year);
+    if (year !== undefined && (!Number.isInteger(year) || year < 2009 || year > 2100)) {
+      return res.status(400).json({ error: `Invalid year: ${req.query.year}` });
+    }
+    if (format !== "json" && !(reportId && typeof reportId === "string")) {
+      return res.status(400).json({ error: `format=${format} needs a reportId` });
+    }
 
     if (reportId && typeof reportId === "string") {
       const report = await taxDb.get(reportId);
       if (!report) {
         return res.status(404).json({ error: "Report not found", reportId });
       }
+      if (format !== "json") {
+        const rendered = renderTaxExport(
+          { id: reportId, events: report.events || [], summary: report.summary }, format as TaxExportFormat, year
+        );
+        res.setHeader("Content-Type", rendered.contentType);
+        res.setHeader("Content-Disposition", `attachment; filename="${rendered.filename}"`);
+        return res.send(rendered.body);
+      }
       return res.json({
         reportId,
         summary: report.summary || null,
@@ -456,7 +631,256 @@ export async function taxReportHandler(req: Request, res: Response) {
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
+    if (error instanceof TaxExportError) return res.status(error.status).json({ error: error.message });
     console.error("[tax/report] error:", error?.message || error);
     return res.status(500).json({ error: "Failed to retrieve tax report", details: error?.message });
   }
 }
+
+// ── POST /api/v1/tax/import-wallet ─────────────────────────
+//
+// Body:
+//   addresses: ["0x…", …]        the caller's own Base addresses (1–10)
+//   startDate: "2025-01-01"      required
+//   endDate:   "2025-12-31"      optional, defaults to now
+//   method:    "fifo" | "lifo" | "hifo"   (default fifo)
+//   labels:    { "<txHash>:<n>": "income" | "acquisition" | "disposal" | "transfer" | "ignore" }
+//   transactions: [...]          optional extra lot-mode rows (e.g. acquisitions
+//                                from before the range), appended after the import
+//
+// Pulls each address's transactions and token transfers for the date range
+// (Basescan, paged by block window), decodes them, classifies every
+// movement (lib/tax-import.ts) and runs the labelled rows through
+// tax/calculate's lot mode. Ambiguous rows come back under
+// import.ambiguous until a later call labels them. Gas is not deducted —
+// add it as feeUsd on a supplied transaction if needed.
+//
+// Decoding is sequential and stops at IMPORT_DECODE_BUDGET_MS; whatever
+// wasn't reached is reported so the caller can narrow the range.
+
+const MAX_IMPORT_ADDRESSES = 10;
+const MAX_IMPORT_DECODES = 250;
+/** Rows per Basescan request (its maximum page size) */
+const HISTORY_PAGE = 1000;
+/** Requests per address and list (txlist, tokentx) before history is reported as truncated */
+const MAX_HISTORY_PAGES = 10;
+export const IMPORT_DECODE_BUDGET_MS = Number(process.env.TAX_IMPORT_DECODE_BUDGET_MS || 60_000);
+
+export interface WalletHistoryEntry {
+  hash: string;
+  timestamp: string;
+}
+
+/** Where wallet history comes from — Basescan + Blockscout by default, swappable in tests. */
+export interface WalletHistorySource {
+  name: string;
+  /**
+   * Transactions touching `address` between `start` and `end`, oldest first;
+   * `truncated` when the newest part of the range couldn't be fetched.
+   */
+  listTransactions(address: string, start: Date, end: Date): Promise<{ entries: WalletHistoryEntry[]; truncated: boolean; note?: string }>;
+  /** The GET /api/v1/tx/decode body for `hash`, or null when it can't be decoded */
+  decode(hash: string): Promise<any | null>;
+}
+
+/** One Basescan API call: the `result` array, or null on error / no rows. */
+export type BasescanQuery = (params: Record<string, string>) => Promise<any[] | null>;
+
+/**
+ * Every txlist or tokentx row for `address` from `fromBlock` to `toBlock`,
+ * oldest first. Basescan only pages through its first 10,000 rows, so each
+ * request starts a new block window at the last block seen; rows from that
+ * block repeat and are deduplicated by the caller.
+ */
+export async function listBasescanRange(
+  query: BasescanQuery,
+  action: "txlist" | "tokentx",
+  address: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<{ rows: any[]; truncated: boolean }> {
+  const rows: any[] = [];
+  let from = fromBlock;
+  for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+    const batch = (await query({
+      module: "account", action, address, startblock: String(from), endblock: String(toBlock),
+      page: "1", offset: String(HISTORY_PAGE), sort: "asc",
+    })) || [];
+    rows.push(...batch);
+    if (batch.length < HISTORY_PAGE) return { rows, truncated: false };
+    const last = Number(batch[batch.length - 1].blockNumber);
+    // A single block with a full page of rows can't be windowed past
+    if (last <= from) return { rows, truncated: true };
+    from = last;
+  }
+  return { rows, truncated: true };
+}
+
+async function blockAt(at: Date, closest: "before" | "after"): Promise<number | null> {
+  const result = await fetchBasescan({
+    module: "block", action: "getblocknobytime", timestamp: String(Math.floor(at.getTime() / 1000)), closest,
+  });
+  const block = Number(result);
+  return result !== null && Number.isInteger(block) ? block : null;
+}
+
+export const baseWalletHistory: WalletHistorySource = {
+  name: "basescan+blockscout",
+  async listTransactions(address, start, end) {
+    if (!process.env.BASESCAN_API_KEY) {
+      return { entries: [], truncated: false, note: "Wallet history requires BASESCAN_API_KEY" };
+    }
+    // An end date in the future has no block yet — read to the chain head
+    const fromBlock = (await blockAt(start, "after")) ?? 0;
+    const toBlock = (await blockAt(end, "before")) ?? 99_999_999;
+    const txs = await listBasescanRange(fetchBasescan, "txlist", address, fromBlock, toBlock);
+    const tokens = await listBasescanRange(fetchBasescan, "tokentx", address, fromBlock, toBlock);
+    return {
+      entries: [...txs.rows, ...tokens.rows].map((t) => ({ hash: t.hash, timestamp: new Date(Number(t.timeStamp) * 1000).toISOString() })),
+      truncated: txs.truncated || tokens.truncated,
+    };
+  },
+  async decode(hash) {
+    const result = await invokeHandler(txDecodeHandler, { method: "GET", query: { hash, chain: "base" } });
+    return result.status === 200 ? result.body : null;
+  },
+};
+
+function parseAddresses(input: unknown): string[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new TaxImportError("Missing required field: addresses[] (non-empty array)");
+  }
+  if (input.length > MAX_IMPORT_ADDRESSES) throw new TaxImportError(`Max ${MAX_IMPORT_ADDRESSES} addresses per import`);
+  const bad = input.find((a) => typeof a !== "string" || !isAddress(a));
+  if (bad !== undefined) throw new TaxImportError(`Invalid address: ${bad}`);
+  return [...new Set(input.map((a: string) => a.toLowerCase()))];
+}
+
+/** Import, classify and calculate — the handler minus Express, with the history source injectable. */
+export async function importWalletTax(
+  body: any,
+  source: WalletHistorySource = baseWalletHistory,
+  decodeBudgetMs: number = IMPORT_DECODE_BUDGET_MS
+) {
+  const addresses = parseAddresses(body?.addresses);
+  const start = parseDate(body?.startDate);
+  if (!start) throw new TaxImportError("Missing or invalid startDate");
+  const end = body.endDate === undefined ? new Date() : parseDate(body.endDate);
+  if (!end) throw new TaxImportError("Invalid endDate");
+  if (start > end) throw new TaxImportError("startDate must be on or before endDate");
+  const method = body.method ?? "fifo";
+  const extra = body.transactions ?? [];
+  if (!Array.isArray(extra)) throw new TaxImportError("transactions must be an array");
+
+  const warnings: string[] = [];
+  const inRange = new Map<string, number>();
+  for (const address of addresses) {
+    const { entries, truncated, note } = await source.listTransactions(address, start, end);
+    if (note && entries.length === 0) warnings.push(`${address}: ${note}`);
+    let newest = -Infinity;
+    for (const entry of entries) {
+      const at = Date.parse(entry.timestamp);
+      newest = Math.max(newest, at);
+      if (at >= start.getTime() && at <= end.getTime()) inRange.set(entry.hash.toLowerCase(), at);
+    }
+    if (truncated && newest < end.getTime()) {
+      warnings.push(
+        `${address}: more than ${HISTORY_PAGE * MAX_HISTORY_PAGES} transfers in range; history stops at ` +
+        `${new Date(newest).toISOString()} and later activity is missing — narrow the date range`
+      );
+    }
+  }
+
+  const hashes = [...inRange.entries()].sort((a, b) => a[1] - b[1]).map(([hash]) => hash);
+  if (hashes.length > MAX_IMPORT_DECODES) {
+    warnings.push(`${hashes.length} transactions in range; only the oldest ${MAX_IMPORT_DECODES} were imported — narrow the date range`);
+  }
+  const own = new Set(addresses);
+  const rows: ImportRow[] = [];
+  const skipped: SkippedTransaction[] = [];
+  const toDecode = hashes.slice(0, MAX_IMPORT_DECODES);
+  const deadline = Date.now() + decodeBudgetMs;
+  let scanned = 0;
+  for (const hash of toDecode) {
+    if (Date.now() >= deadline) {
+      warnings.push(
+        `decoding stopped after ${scanned} of ${toDecode.length} transactions (time budget ${decodeBudgetMs / 1000}s); ` +
+        `activity after ${new Date(inRange.get(hash)!).toISOString()} was not imported — narrow the date range`
+      );
+      break;
+    }
+    scanned++;
+    const decoded = await source.decode(hash);
+    if (!decoded) {
+      skipped.push({ txHash: hash, reason: "could not be decoded" });
+      continue;
+    }
+    const result = classifyTransaction(decoded, own);
+    rows.push(...result.rows);
+    if (result.skipped) skipped.push(result.skipped);
+  }
+
+  const unknownLabels = applyLabels(rows, body.labels);
+  if (unknownLabels.length > 0) warnings.push(`labels matched no imported row: ${unknownLabels.join(", ")}`);
+  const ambiguous = rows.filter((r) => r.ambiguity && !r.label);
+  if (ambiguous.length > 0) {
+    warnings.push(`${ambiguous.length} row(s) need a label before they count — see import.ambiguous`);
+  }
+
+  // events[].index maps onto `counted`, then the caller's extra transactions
+  const counted = rows.filter((r) => r.type !== null);
+  const transactions = [
+    ...counted.map((r) => ({
+      type: r.type, asset: r.asset, amount: r.amount, date: r.date, wallet: r.wallet, toWallet: r.toWallet ?? undefined, txHash: r.txHash,
+    })),
+    ...extra,
+  ];
+  const imported = {
+    source: source.name,
+    addresses,
+    startDate: start.toISOString(),
+    endDate: end.toISOString(),
+    transactionsScanned: scanned,
+    counted: counted.map((r) => r.id),
+    rows,
+    ambiguous,
+    skipped,
+  };
+  const gateway = { provider: "spraay-x402", version: "2.10.0", endpoint: "POST /api/v1/tax/import-wallet" };
+
+  if (transactions.length === 0) {
+    return {
+      status: 200,
+      body: {
+        reportId: null, summary: null, import: imported,
+        note: "Nothing to calculate yet — label the ambiguous rows or widen the date range.",
+        warnings: warnings.length > 0 ? warnings : undefined,
+        _gateway: gateway, timestamp: new Date().toISOString(),
+      },
+    };
+  }
+
+  const calc = await invokeHandler(taxCalculateHandler, { body: { method, transactions } });
+  if (calc.status !== 200) return { status: calc.status, body: { ...calc.body, import: imported } };
+  const allWarnings = [...warnings, ...(calc.body.warnings || [])];
+  return {
+    status: 200,
+    body: {
+      ...calc.body,
+      import: imported,
+      warnings: allWarnings.length > 0 ? allWarnings : undefined,
+      _gateway: gateway,
+    },
+  };
+}
+
+export async function taxImportWalletHandler(req: Request, res: Response) {
+  try {
+    const result = await importWalletTax(req.body || {});
+    return res.status(result.status).json(result.body);
+  } catch (error: any) {
+    if (error instanceof TaxImportError) return res.status(error.status).json({ error: error.message });
+    console.error("[tax/import-wallet] error:", error?.message || error);
+    return res.status(500).json({ error: "Failed to import wallet history", details: error?.message });
+  }
+}
@@ -5,12 +5,7 @@
 // ============================================
 
 import { Request, Response } from "express";
-import { createClient } from "@supabase/supabase-js";
-
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_KEY!
-);
+import { storage, eq } from "../storage/index.js";
 
 // --------------------------------------------------
 // Phantom Server SDK Setup
@@ -43,19 +38,19 @@ export const walletCreateHandler = async (req: Request, res: Response) => {
     const evmAddress: string | null = null;
     // ----- END PLACEHOLDER -----
 
-    const { error } = await supabase.from("agent_wallets").insert({
-      wallet_id: walletId,
-      label: label || walletName,
-      solana_address: solanaAddress,
-      evm_address: evmAddress,
-      metadata: {
-        created_by: req.headers["x-agent-id"] || "unknown",
-        source: "gateway-api",
-      },
-    });
-
-    if (error) {
-      console.error("Supabase insert error:", error);
+    try {
+      await storage.insert("agent_wallets", {
+        wallet_id: walletId,
+        label: label || walletName,
+        solana_address: solanaAddress,
+        evm_address: evmAddress,
+        metadata: {
+          created_by: req.headers["x-agent-id"] || "unknown",
+          source: "gateway-api",
+        },
+      });
+    } catch (error) {
+      console.error("Wallet insert error:", error);
       return res.status(500).json({ success: false, error: "Failed to store wallet" });
     }
 
@@ -90,20 +85,13 @@ export const walletGetHandler = async (req: Request, res: Response) => {
   try {
     const { walletId } = req.params;
 
-    const { data, error } = await supabase
-      .from("agent_wallets")
-      .select("*")
-      .eq("wallet_id", walletId)
-      .single();
+    const data = await storage.findOne("agent_wallets", [eq("wallet_id", walletId)]);
 
-    if (error || !data) {
+    if (!data) {
       return res.status(404).json({ success: false, error: "Wallet not found" });
     }
 
-    await supabase
-      .from("agent_wallets")
-      .update({ last_active: new Date().toISOString() })
-      .eq("wallet_id", walletId);
+    await storage.update("agent_wallets", [eq("wallet_id", walletId)], { last_active: new Date().toISOString() });
 
     res.json({
       success: true,
@@ -134,19 +122,22 @@ export const walletListHandler = async (req: Request, res: Response) => {
     const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
     const offset = parseInt(req.query.offset as string) || 0;
 
-    const { data, error, count } = await supabase
-      .from("agent_wallets")
-      .select("wallet_id, label, solana_address, evm_address, created_at, last_active, total_transactions", { count: "exact" })
-      .order("created_at", { ascending: false })
-      .range(offset, offset + limit - 1);
-
-    if (error) {
+    let rows, count;
+    try {
+      [rows, count] = await Promise.all([
+        storage.findMany("agent_wallets", { orderBy: { column: "created_at", ascending: false }, limit, offset }),
+        storage.count("agent_wallets"),
+      ]);
+    } catch {
       return res.status(500).json({ success: false, error: "Failed to list wallets" });
     }
 
     res.json({
       success: true,
-      wallets: data,
+      wallets: rows.map((w) => ({
+        wallet_id: w.wallet_id, label: w.label, solana_address: w.solana_address, evm_address: w.evm_address,
+        created_at: w.created_at, last_active: w.last_active, total_transactions: w.total_transactions,
+      })),
       pagination: { total: count, limit, offset, hasMore: offset + limit < (count || 0) },
     });
   } catch (err: any) {
@@ -201,10 +192,7 @@ export const walletSendTxHandler = async (req: Request, res: Response) => {
 
     // ----- PHANTOM SDK (uncomment when credentials ready) -----
     // const result = await phantomSDK.signAndSendTransaction({ walletId, transaction, networkId });
-    // await supabase
-    //   .from("agent_wallets")
-    //   .update({ total_transactions: supabase.rpc("increment", { x: 1 }) })
-    //   .eq("wallet_id", walletId);
+    // await storage.update("agent_wallets", [eq("wallet_id", walletId)], { total_transactions: wallet.total_transactions + 1 });
     // res.json({ success: true, signature: result.signature, networkId });
 
     // Placeholder
@@ -227,13 +215,9 @@ export const walletAddressesHandler = async (req: Request, res: Response) => {
   try {
     const { walletId } = req.params;
 
-    const { data, error } = await supabase
-      .from("agent_wallets")
-      .select("solana_address, evm_address")
-      .eq("wallet_id", walletId)
-      .single();
+    const data = await storage.findOne("agent_wallets", [eq("wallet_id", walletId)]);
 
-    if (error || !data) {
+    if (!data) {
       return res.status(404).json({ success: false, error: "Wallet not found" });
     }
 
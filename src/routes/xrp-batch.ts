@@ -6,6 +6,7 @@
 
 import { Request, Response } from 'express';
 import * as xrpl from 'xrpl';
+import { BatchChunkError, chunkItems, chunkRange, chunkSizes, newParentBatchId } from '../lib/batch-chunking.js';
 
 // --- Config ---
 const XRP_MAINNET_WSS = 'wss://xrplcluster.com';
@@ -13,6 +14,7 @@ const SPRAAY_FEE_ADDRESS = process.env.SPRAAY_XRP_FEE_ADDRESS || 'rpyynY82uCCgjj
 const SPRAAY_FEE_PERCENT = 0.003; // 0.3%
 const MAX_RECIPIENTS = 100;
 const MIN_XRP_AMOUNT = 0.000001; // 1 drop
+const LEDGER_WINDOW = 60; // ledgers (~4 min) each chunk gets to be signed and submitted
 
 // --- Helpers ---
 function validateXRPAddress(address: string): boolean {
@@ -32,11 +34,14 @@ function buildMemos(memo?: string): any[] | undefined {
 }
 
 // --- POST /api/v1/xrp/batch ---
+// `chunk: true` lifts the 100-recipient cap: recipients are split into chunks of
+// up to MAX_RECIPIENTS, each followed by its own Spraay fee payment. Sequence
+// numbers run on across chunks and each chunk gets a later LastLedgerSequence.
 export async function xrpBatchHandler(req: Request, res: Response) {
   const startTime = Date.now();
 
   try {
-    const { sender, recipients, memo } = req.body;
+    const { sender, recipients, memo, chunk } = req.body;
 
     if (!sender || !recipients || !Array.isArray(recipients) || recipients.length === 0) {
       return res.status(400).json({ success: false, error: 'Missing required fields: sender, recipients[]' });
@@ -44,9 +49,14 @@ export async function xrpBatchHandler(req: Request, res: Response) {
     if (!validateXRPAddress(sender)) {
       return res.status(400).json({ success: false, error: `Invalid sender address: ${sender}` });
     }
-    if (recipients.length > MAX_RECIPIENTS) {
-      return res.status(400).json({ success: false, error: `Maximum ${MAX_RECIPIENTS} recipients per batch` });
+    if (recipients.length > MAX_RECIPIENTS && chunk !== true) {
+      return res.status(400).json({
+        success: false,
+        error: `Maximum ${MAX_RECIPIENTS} recipients per batch`,
+        hint: 'Pass "chunk": true to split the batch into multiple chunks',
+      });
     }
+    const groups = chunkItems(recipients as any[], MAX_RECIPIENTS);
 
     for (let i = 0; i < recipients.length; i++) {
       const r = recipients[i];
@@ -81,20 +91,24 @@ export async function xrpBatchHandler(req: Request, res: Response) {
 
       const ledgerResponse = await client.request({ command: 'ledger', ledger_index: 'validated' });
       const currentLedger = ledgerResponse.result.ledger_index;
-      const lastLedgerSequence = currentLedger + 60;
+      const lastLedgerSequence = currentLedger + LEDGER_WINDOW;
 
       const serverInfo = await client.request({ command: 'server_info' });
       const baseFeeDrops = (serverInfo.result.info as any).validated_ledger?.base_fee_xrp
         ? Math.ceil(parseFloat((serverInfo.result.info as any).validated_ledger.base_fee_xrp) * 1_000_000)
         : 12;
 
-      let totalPaymentDrops = BigInt(0);
-      for (const r of recipients) {
-        totalPaymentDrops += BigInt(xrpl.xrpToDrops(r.amount));
-      }
-
-      const spraayFeeDrops = (totalPaymentDrops * BigInt(3)) / BigInt(1000);
-      const totalTxCount = recipients.length + 1;
+      // Spraay fee is taken per chunk (a single chunk unless `chunk: true`)
+      const groupTotals = groups.map((g) => {
+        let payments = BigInt(0);
+        for (const r of g.items) {
+          payments += BigInt(xrpl.xrpToDrops(r.amount));
+        }
+        return { payments, fee: (payments * BigInt(3)) / BigInt(1000) };
+      });
+      const totalPaymentDrops = groupTotals.reduce((sum, t) => sum + t.payments, BigInt(0));
+      const spraayFeeDrops = groupTotals.reduce((sum, t) => sum + t.fee, BigInt(0));
+      const totalTxCount = recipients.length + groups.length;
       const totalNetworkFeesDrops = BigInt(baseFeeDrops) * BigInt(totalTxCount);
       const reserveDrops = BigInt(1_000_000); // 1 XRP base reserve (lowered Dec 2024)
       const totalRequired = totalPaymentDrops + spraayFeeDrops + totalNetworkFeesDrops + reserveDrops;
@@ -114,50 +128,68 @@ export async function xrpBatchHandler(req: Request, res: Response) {
         });
       }
 
-      const transactions: any[] = [];
       let seq = currentSequence;
+      const chunks = groups.map((g, gi) => {
+        const chunkLastLedger = currentLedger + LEDGER_WINDOW * (gi + 1);
+        const txs: any[] = [];
 
-      for (const r of recipients) {
-        const tx: any = {
+        for (const r of g.items) {
+          const tx: any = {
+            TransactionType: 'Payment',
+            Account: sender,
+            Destination: r.address,
+            Amount: xrpl.xrpToDrops(r.amount),
+            Sequence: seq,
+            Fee: baseFeeDrops.toString(),
+            LastLedgerSequence: chunkLastLedger,
+          };
+          if (r.tag !== undefined) tx.DestinationTag = r.tag;
+          const memoText = r.memo || memo;
+          const memos = buildMemos(memoText);
+          if (memos) tx.Memos = memos;
+          txs.push(tx);
+          seq++;
+        }
+
+        const feeTx: any = {
           TransactionType: 'Payment',
           Account: sender,
-          Destination: r.address,
-          Amount: xrpl.xrpToDrops(r.amount),
+          Destination: SPRAAY_FEE_ADDRESS,
+          Amount: groupTotals[gi].fee.toString(),
           Sequence: seq,
           Fee: baseFeeDrops.toString(),
-          LastLedgerSequence: lastLedgerSequence,
+          LastLedgerSequence: chunkLastLedger,
+          Memos: buildMemos('Spraay batch payment fee'),
         };
-        if (r.tag !== undefined) tx.DestinationTag = r.tag;
-        const memoText = r.memo || memo;
-        const memos = buildMemos(memoText);
-        if (memos) tx.Memos = memos;
-        transactions.push(tx);
+        txs.push(feeTx);
         seq++;
-      }
 
-      const feeTx: any = {
-        TransactionType: 'Payment',
-        Account: sender,
-        Destination: SPRAAY_FEE_ADDRESS,
-        Amount: spraayFeeDrops.toString(),
-        Sequence: seq,
-        Fee: baseFeeDrops.toString(),
-        LastLedgerSequence: lastLedgerSequence,
-        Memos: buildMemos('Spraay batch payment fee'),
-      };
-      transactions.push(feeTx);
+        return {
+          index: g.index,
+          recipientRange: chunkRange(g),
+          recipientCount: g.items.length,
+          totalPayments: xrpl.dropsToXrp(groupTotals[gi].payments.toString()),
+          spraayFee: xrpl.dropsToXrp(groupTotals[gi].fee.toString()),
+          lastLedgerSequence: chunkLastLedger,
+          transactions: txs,
+        };
+      });
+      const transactions = chunks.flatMap((c) => c.transactions);
 
       await client.disconnect();
       const elapsed = Date.now() - startTime;
 
+      const parentBatchId = chunk === true ? newParentBatchId() : null;
+
       return res.status(200).json({
         success: true,
+        ...(parentBatchId ? { chunked: true, parentBatchId } : {}),
         chain: 'xrp',
         chainId: 15,
         network: 'mainnet',
         sender,
         recipientCount: recipients.length,
-        transactions,
+        ...(parentBatchId ? { chunks } : { transactions }),
         summary: {
           totalPayments: xrpl.dropsToXrp(totalPaymentDrops.toString()),
           spraayFee: xrpl.dropsToXrp(spraayFeeDrops.toString()),
@@ -166,7 +198,8 @@ export async function xrpBatchHandler(req: Request, res: Response) {
           totalCost: xrpl.dropsToXrp((totalPaymentDrops + spraayFeeDrops + totalNetworkFeesDrops).toString()),
           baseFeePerTx: xrpl.dropsToXrp(baseFeeDrops.toString()),
           transactionCount: totalTxCount,
-          lastLedgerSequence,
+          lastLedgerSequence: parentBatchId ? chunks[chunks.length - 1].lastLedgerSequence : lastLedgerSequence,
+          ...(parentBatchId ? { chunkCount: chunks.length, maxPerChunk: MAX_RECIPIENTS } : {}),
         },
         instructions: {
           step1: 'Sign each transaction in order using your XRP wallet (Xaman, GemWallet, Crossmark)',
@@ -174,6 +207,9 @@ export async function xrpBatchHandler(req: Request, res: Response) {
           step3: 'Wait for each transaction to be validated before submitting the next',
           note: 'Transactions use sequential sequence numbers — submit in order or they will fail',
           batchNote: 'Native XRPL Batch (XLS-56) is not yet enabled on mainnet. When BatchV1_1 activates, Spraay will upgrade to atomic batch transactions.',
+          ...(parentBatchId
+            ? { chunkNote: `Work through chunks in index order; each has its own LastLedgerSequence. Report each chunk's outcome against parentBatchId ${parentBatchId} — a mix of confirmed and failed chunks fires batch.partial_failure` }
+            : {}),
         },
         meta: { processingTimeMs: elapsed, timestamp: new Date().toISOString(), version: 'v3.5.0' },
       });
@@ -182,6 +218,9 @@ export async function xrpBatchHandler(req: Request, res: Response) {
       throw err;
     }
   } catch (err: any) {
+    if (err instanceof BatchChunkError) {
+      return res.status(400).json({ success: false, error: err.message });
+    }
     console.error('[XRP Batch] Error:', err.message);
     if (err.message?.includes('actNotFound')) {
       return res.status(400).json({ success: false, error: 'Sender account not found on XRP Ledger. Account may not be activated (requires 1 XRP minimum).' });
@@ -193,23 +232,33 @@ export async function xrpBatchHandler(req: Request, res: Response) {
 // --- POST /api/v1/xrp/estimate ---
 export async function xrpEstimateHandler(req: Request, res: Response) {
   try {
-    const { sender, recipients } = req.body;
+    const { sender, recipients, chunk } = req.body;
 
     if (!sender || !recipients || !Array.isArray(recipients) || recipients.length === 0) {
       return res.status(400).json({ success: false, error: 'Missing required fields: sender, recipients[]' });
     }
-    if (recipients.length > MAX_RECIPIENTS) {
-      return res.status(400).json({ success: false, error: `Maximum ${MAX_RECIPIENTS} recipients per batch` });
+    if (recipients.length > MAX_RECIPIENTS && chunk !== true) {
+      return res.status(400).json({
+        success: false,
+        error: `Maximum ${MAX_RECIPIENTS} recipients per batch`,
+        hint: 'Pass "chunk": true to split the batch into multiple chunks',
+      });
     }
 
+    // Spraay fee per chunk, matching /xrp/batch
     let totalPaymentDrops = BigInt(0);
-    for (const r of recipients) {
-      if (!r.amount || isNaN(parseFloat(r.amount))) continue;
-      totalPaymentDrops += BigInt(xrpl.xrpToDrops(r.amount));
+    let spraayFeeDrops = BigInt(0);
+    for (const g of chunkItems(recipients as any[], MAX_RECIPIENTS)) {
+      let chunkDrops = BigInt(0);
+      for (const r of g.items) {
+        if (!r.amount || isNaN(parseFloat(r.amount))) continue;
+        chunkDrops += BigInt(xrpl.xrpToDrops(r.amount));
+      }
+      totalPaymentDrops += chunkDrops;
+      spraayFeeDrops += (chunkDrops * BigInt(3)) / BigInt(1000);
     }
-
-    const spraayFeeDrops = (totalPaymentDrops * BigInt(3)) / BigInt(1000);
-    const totalTxCount = recipients.length + 1;
+    const chunkCount = chunkSizes(recipients.length, MAX_RECIPIENTS).length;
+    const totalTxCount = recipients.length + chunkCount;
     const estimatedBaseFee = BigInt(12);
     const totalNetworkFeesDrops = estimatedBaseFee * BigInt(totalTxCount);
 
@@ -247,12 +296,16 @@ export async function xrpEstimateHandler(req: Request, res: Response) {
         networkFees: xrpl.dropsToXrp(totalNetworkFeesDrops.toString()),
         totalCost: xrpl.dropsToXrp((totalPaymentDrops + spraayFeeDrops + totalNetworkFeesDrops).toString()),
         transactionCount: totalTxCount,
+        ...(chunk === true ? { chunked: true, chunkCount, maxPerChunk: MAX_RECIPIENTS } : {}),
         estimatedTimeSeconds: totalTxCount * 4,
       },
       sender: { address: sender, balance, sufficient },
       meta: { timestamp: new Date().toISOString(), version: 'v3.5.0' },
     });
   } catch (err: any) {
+    if (err instanceof BatchChunkError) {
+      return res.status(400).json({ success: false, error: err.message });
+    }
     console.error('[XRP Estimate] Error:', err.message);
     return res.status(500).json({ success: false, error: 'Failed to estimate XRP batch', details: err.message });
   }
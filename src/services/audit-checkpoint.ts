@@ -0,0 +1,100 @@
+// ============================================
+// src/services/audit-checkpoint.ts
+// Audit Checkpointer — signed Merkle roots over each tenant's audit chain
+// ============================================
+// Each tick, every tenant with entries appended since its last checkpoint
+// gets a new one (routes/audit.ts createCheckpoint): the Merkle root over
+// all its entry hashes, signed with AUDIT_SIGNING_KEY. With
+// AUDIT_ANCHOR=base the signed statement is also sent to Base as the
+// calldata of a zero-value transaction from the signing key to itself, so
+// the checkpoint's existence and time are fixed on-chain.
+
+import { JsonRpcProvider, Wallet, hexlify, toUtf8Bytes } from "ethers";
+import { CheckpointAnchor, CheckpointSigner, createCheckpoint } from "../routes/audit.js";
+import { auditChainDb } from "../db.js";
+
+const BASE_RPC = process.env.BASE_RPC_URL || "https://mainnet.base.org";
+
+let _signer: Wallet | null = null;
+
+/** The checkpoint signing key, or null when AUDIT_SIGNING_KEY isn't set (checkpoints go out unsigned). */
+export function auditSigner(): Wallet | null {
+  if (!_signer && process.env.AUDIT_SIGNING_KEY) {
+    _signer = new Wallet(process.env.AUDIT_SIGNING_KEY, new JsonRpcProvider(BASE_RPC));
+  }
+  return _signer;
+}
+
+function baseAnchor(signer: Wallet): CheckpointAnchor {
+  return {
+    chain: "base",
+    async publish(statement) {
+      const tx = await signer.sendTransaction({ to: signer.address, value: 0n, data: hexlify(toUtf8Bytes(statement)) });
+      return tx.hash;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Background loop
+// ---------------------------------------------------------------------------
+
+export interface AuditCheckpointerConfig {
+  pollIntervalMs: number;
+  /** Max tenants checkpointed per tick */
+  batchSize: number;
+}
+
+export interface AuditCheckpointerHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the checkpointer is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startAuditCheckpointer(config?: Partial<AuditCheckpointerConfig>): AuditCheckpointerHandle {
+  const mergedConfig: AuditCheckpointerConfig = { pollIntervalMs: 3_600_000, batchSize: 50, ...config };
+  const signer: CheckpointSigner | null = auditSigner();
+  const anchor = process.env.AUDIT_ANCHOR === "base" && auditSigner() ? baseAnchor(auditSigner()!) : null;
+  let running = true;
+  let processing = false;
+
+  console.log(
+    `[audit] 🔏 Audit checkpointer started (poll: ${mergedConfig.pollIntervalMs}ms, ` +
+    `${signer ? `signer: ${signer.address}` : "UNSIGNED — AUDIT_SIGNING_KEY missing"}${anchor ? ", anchored on Base" : ""})`
+  );
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const pending = await auditChainDb.listPendingCheckpoint(mergedConfig.batchSize);
+      for (const chain of pending) {
+        try {
+          const { checkpoint, error } = await createCheckpoint(chain.tenant, { signer, anchor });
+          if (error) console.error(`[audit] 🚨 Chain ${chain.tenant} failed verification, not checkpointed: ${error}`);
+          if (checkpoint?.anchor?.error) console.error(`[audit] Anchoring checkpoint ${checkpoint.id} failed: ${checkpoint.anchor.error}`);
+        } catch (err) {
+          console.error(`[audit] Checkpoint for ${chain.tenant} failed:`, err);
+        }
+      }
+    } catch (err) {
+      console.error("[audit] Checkpointer tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[audit] Audit checkpointer stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
@@ -0,0 +1,481 @@
+// ============================================
+// src/services/batch-tracker.ts
+// Batch Settlement Tracker — confirms executed batches recipient by recipient
+// ============================================
+// Every /api/v1/batch/execute response is stored as a batch (one per chunk
+// for chunked batches) with the exact recipients and amounts encoded in its
+// calldata. The calldata also carries "spraay:<batchId>" after the Spraay
+// arguments — the contract ignores trailing bytes — so the tx can be tied back
+// to its batch.
+//
+// A batch learns its tx hash either from POST /api/v1/batch/report or, for
+// token batches, by detection: the watcher scans Transfer logs to the first
+// recipient and picks the tx whose calldata carries the batch memo. Either
+// way it gives up after BATCH_DETECT_TTL_HOURS without finding the tx, and
+// the batch becomes "expired" (a tx can still be reported for it).
+//
+// A tx is only accepted if it calls the chain's Spraay contract with the same
+// token, recipients and amounts. Each recipient is then confirmed from the
+// token's Transfer logs in the receipt (one log per recipient, exact amount).
+// Native-asset sprays emit no Transfer logs; they are all-or-nothing, so a
+// successful tx with matching calldata confirms every recipient.
+//
+// Reorg tolerance works like escrow funding: the receipt is re-read until the
+// tx has BATCH_MIN_CONFIRMATIONS blocks on top of it; a block hash change
+// restarts the count and is counted in the settlement record.
+//
+// Webhooks (for batches created with a callback_url):
+//   batch.confirmed        — tx mined successfully, confirmations pending
+//   batch.settled          — every recipient confirmed
+//   batch.partial_failure  — mined, but some recipients have no matching transfer
+//   batch.failed           — tx reverted
+// Chunks report through WebhookService.reportChunkedBatch once every chunk
+// of the parent batch has settled or failed.
+
+import { Interface, JsonRpcProvider, getAddress, hexlify, toUtf8Bytes, zeroPadValue } from "ethers";
+import { batchDb } from "../db.js";
+import { getBatchChain } from "../config/chains.js";
+import { ChunkOutcome } from "../lib/batch-chunking.js";
+import type { WebhookService } from "../webhooks/index.js";
+
+export const BATCH_MIN_CONFIRMATIONS = Number(process.env.BATCH_MIN_CONFIRMATIONS) || 3;
+export const BATCH_LOOKBACK_BLOCKS = Number(process.env.BATCH_LOOKBACK_BLOCKS) || 1_800;
+/** Give up detecting an unreported tx, or waiting for a reported one to appear, after this long. */
+export const BATCH_DETECT_TTL_HOURS = Number(process.env.BATCH_DETECT_TTL_HOURS) || 24;
+
+const TX_NOT_FOUND = "Transaction not found";
+
+const TRANSFER_IFACE = new Interface(["event Transfer(address indexed from, address indexed to, uint256 value)"]);
+const TRANSFER_TOPIC = TRANSFER_IFACE.getEvent("Transfer")!.topicHash;
+
+const SPRAAY_IFACE = new Interface([
+  "function sprayETH((address recipient, uint256 amount)[] recipients) payable",
+  "function sprayToken(address token, (address recipient, uint256 amount)[] recipients)",
+]);
+
+export type BatchStatus =
+  | "awaiting_tx" | "submitted" | "confirming"
+  | "settled" | "partial_failure" | "failed"
+  | "invalid" | "expired";
+
+/** Statuses the watcher polls. */
+export const TRACKED_STATUSES: BatchStatus[] = ["awaiting_tx", "submitted", "confirming"];
+export const FINAL_STATUSES: BatchStatus[] = ["settled", "partial_failure", "failed"];
+/** Statuses a (new) tx hash may be reported from. */
+export const REPORTABLE_STATUSES: BatchStatus[] = ["awaiting_tx", "submitted", "invalid", "expired"];
+
+export interface BatchRecipient {
+  /** Position in the original request (chunks keep the global index) */
+  index: number;
+  address: string;
+  amount: string;
+  amountRaw: string;
+}
+
+/** Batch fields the check reads — matches batchDb._fromRow. */
+export interface TrackableBatch {
+  id: string;
+  contract: string;
+  token: { address: string; symbol: string; decimals: number; isNative: boolean };
+  recipients: BatchRecipient[];
+}
+
+export type RecipientState = "pending" | "confirmed" | "failed";
+
+export interface RecipientSettlement {
+  index: number;
+  address: string;
+  amountRaw: string;
+  status: RecipientState;
+  logIndex: number | null;
+  evidence: "transfer_log" | "calldata" | null;
+}
+
+export type SettlementState = "pending" | "mined" | "settled" | "partial_failure" | "failed" | "invalid";
+
+export interface SettlementCheck {
+  state: SettlementState;
+  txHash: string;
+  confirmations: number;
+  requiredConfirmations: number;
+  blockNumber: number | null;
+  blockHash: string | null;
+  recipients: RecipientSettlement[];
+  confirmedCount: number;
+  reason: string | null;
+}
+
+/** The slice of an ethers provider the tracker needs — lets tests pass a fake chain. */
+export interface BatchChainReader {
+  getBlockNumber(): Promise<number>;
+  getTransaction(hash: string): Promise<{ to: string | null; data: string } | null>;
+  getTransactionReceipt(hash: string): Promise<{
+    status: number | null;
+    blockNumber: number;
+    blockHash: string;
+    logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string>; data: string; index: number }>;
+  } | null>;
+  getLogs(filter: { address: string; topics: Array<string | string[] | null>; fromBlock: number; toBlock: number }): Promise<ReadonlyArray<{
+    transactionHash: string;
+  }>>;
+}
+
+// ---------------------------------------------------------------------------
+// Batch references
+// ---------------------------------------------------------------------------
+
+/** Hex (no 0x) of the memo appended to a batch's Spraay calldata. */
+export function batchMemoHex(batchId: string): string {
+  return hexlify(toUtf8Bytes(`spraay:${batchId.toLowerCase()}`)).slice(2);
+}
+
+/** Spraay calldata with the batch memo appended — the ABI decoder ignores trailing bytes. */
+export function withBatchMemo(calldata: string, batchId: string): string {
+  return calldata + batchMemoHex(batchId);
+}
+
+// ---------------------------------------------------------------------------
+// Checking a tx (pure reads)
+// ---------------------------------------------------------------------------
+
+/** Why `data` isn't this batch's Spraay call, or null when it matches exactly. */
+export function calldataMismatch(batch: TrackableBatch, data: string): string | null {
+  let parsed;
+  try {
+    parsed = SPRAAY_IFACE.parseTransaction({ data });
+  } catch {
+    parsed = null;
+  }
+  if (!parsed) return "Transaction is not a Spraay sprayETH/sprayToken call";
+
+  const expected = batch.token.isNative ? "sprayETH" : "sprayToken";
+  if (parsed.name !== expected) return `Expected ${expected}, transaction calls ${parsed.name}`;
+  if (!batch.token.isNative && getAddress(parsed.args.token) !== getAddress(batch.token.address)) {
+    return `Transaction sprays token ${parsed.args.token}, batch is ${batch.token.symbol}`;
+  }
+
+  const sent = parsed.args.recipients as ReadonlyArray<{ recipient: string; amount: bigint }>;
+  if (sent.length !== batch.recipients.length) {
+    return `Transaction pays ${sent.length} recipients, batch has ${batch.recipients.length}`;
+  }
+  for (let i = 0; i < sent.length; i++) {
+    const want = batch.recipients[i];
+    if (getAddress(sent[i].recipient) !== getAddress(want.address) || sent[i].amount !== BigInt(want.amountRaw)) {
+      return `Recipient ${want.index} differs from the batch (${sent[i].recipient} ${sent[i].amount})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Match each recipient to one Transfer log of the batch token with the exact
+ * amount. Logs are used at most once, so repeated recipients need one each.
+ */
+export function matchRecipientTransfers(
+  batch: TrackableBatch,
+  logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string>; data: string; index: number }>
+): RecipientSettlement[] {
+  const token = batch.token.address.toLowerCase();
+  const transfers = logs
+    .filter((log) => log.address.toLowerCase() === token && log.topics[0] === TRANSFER_TOPIC)
+    .map((log) => {
+      const parsed = TRANSFER_IFACE.parseLog({ topics: [...log.topics], data: log.data });
+      return parsed ? { to: getAddress(parsed.args.to), value: parsed.args.value as bigint, logIndex: log.index } : null;
+    })
+    .filter((t): t is { to: string; value: bigint; logIndex: number } => t !== null);
+
+  const used = new Set<number>();
+  return batch.recipients.map((r) => {
+    const to = getAddress(r.address);
+    const amount = BigInt(r.amountRaw);
+    const hit = transfers.find((t) => !used.has(t.logIndex) && t.to === to && t.value === amount);
+    if (hit) used.add(hit.logIndex);
+    return {
+      index: r.index, address: r.address, amountRaw: r.amountRaw,
+      status: hit ? "confirmed" : "failed",
+      logIndex: hit ? hit.logIndex : null,
+      evidence: hit ? "transfer_log" : null,
+    };
+  });
+}
+
+function recipientsWith(batch: TrackableBatch, status: RecipientState): RecipientSettlement[] {
+  return batch.recipients.map((r) => ({
+    index: r.index, address: r.address, amountRaw: r.amountRaw, status, logIndex: null,
+    evidence: status === "confirmed" ? "calldata" : null,
+  }));
+}
+
+/** Inspect a batch tx. Pure read — does not touch the database. */
+export async function checkBatchTx(
+  reader: BatchChainReader,
+  batch: TrackableBatch,
+  txHash: string,
+  requiredConfirmations: number = BATCH_MIN_CONFIRMATIONS
+): Promise<SettlementCheck> {
+  const base: SettlementCheck = {
+    state: "pending", txHash, confirmations: 0, requiredConfirmations,
+    blockNumber: null, blockHash: null, recipients: recipientsWith(batch, "pending"), confirmedCount: 0, reason: null,
+  };
+
+  const tx = await reader.getTransaction(txHash);
+  if (!tx) return { ...base, reason: TX_NOT_FOUND };
+  if (!tx.to || tx.to.toLowerCase() !== batch.contract.toLowerCase()) {
+    return { ...base, state: "invalid", reason: `Transaction is not sent to the Spraay contract ${batch.contract}` };
+  }
+  const mismatch = calldataMismatch(batch, tx.data);
+  if (mismatch) return { ...base, state: "invalid", reason: mismatch };
+
+  const receipt = await reader.getTransactionReceipt(txHash);
+  if (!receipt) return { ...base, reason: "Transaction not yet mined" };
+
+  const mined = { ...base, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash };
+  if (receipt.status !== 1) {
+    return { ...mined, state: "failed", recipients: recipientsWith(batch, "failed"), reason: "Transaction reverted" };
+  }
+
+  const recipients = batch.token.isNative
+    ? recipientsWith(batch, "confirmed")
+    : matchRecipientTransfers(batch, receipt.logs);
+  const confirmedCount = recipients.filter((r) => r.status === "confirmed").length;
+  const withRecipients = { ...mined, recipients, confirmedCount };
+
+  const latest = await reader.getBlockNumber();
+  const confirmations = Math.max(latest - receipt.blockNumber + 1, 0);
+  if (confirmations < requiredConfirmations) {
+    return { ...withRecipients, state: "mined", confirmations, reason: `Waiting for ${requiredConfirmations - confirmations} more confirmation(s)` };
+  }
+  if (confirmedCount === recipients.length) return { ...withRecipients, state: "settled", confirmations };
+  return {
+    ...withRecipients, state: "partial_failure", confirmations,
+    reason: `${recipients.length - confirmedCount} recipient(s) have no matching ${batch.token.symbol} Transfer`,
+  };
+}
+
+/**
+ * Find an unreported token batch tx: Transfer logs of the batch token to its
+ * first recipient, narrowed to txs whose calldata carries the batch memo.
+ */
+export async function detectBatchTx(
+  reader: BatchChainReader,
+  batch: TrackableBatch,
+  fromBlock: number,
+  toBlock: number
+): Promise<string | null> {
+  if (batch.token.isNative || batch.recipients.length === 0 || fromBlock > toBlock) return null;
+  const logs = await reader.getLogs({
+    address: batch.token.address,
+    topics: [TRANSFER_TOPIC, null, zeroPadValue(getAddress(batch.recipients[0].address), 32)],
+    fromBlock,
+    toBlock,
+  });
+  const memo = batchMemoHex(batch.id);
+  for (const hash of new Set(logs.map((l) => l.transactionHash))) {
+    const tx = await reader.getTransaction(hash);
+    if (tx?.to?.toLowerCase() === batch.contract.toLowerCase() && tx.data.toLowerCase().endsWith(memo)) return hash;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Persisting results + webhooks
+// ---------------------------------------------------------------------------
+
+const providers = new Map<string, JsonRpcProvider>();
+let webhookService: WebhookService | null = null;
+
+function getProvider(chainKey: string): JsonRpcProvider {
+  let provider = providers.get(chainKey);
+  if (!provider) {
+    const chain = getBatchChain(chainKey);
+    if (!chain) throw new Error(`No RPC configured for chain ${chainKey}`);
+    provider = new JsonRpcProvider(chain.rpcUrl, chain.chainId, { staticNetwork: true });
+    providers.set(chainKey, provider);
+  }
+  return provider;
+}
+
+const STATE_TO_STATUS: Record<SettlementState, BatchStatus> = {
+  pending: "submitted",
+  mined: "confirming",
+  settled: "settled",
+  partial_failure: "partial_failure",
+  failed: "failed",
+  invalid: "invalid",
+};
+
+const FINAL_EVENTS = {
+  settled: "batch.settled",
+  partial_failure: "batch.partial_failure",
+  failed: "batch.failed",
+} as const;
+
+export interface BatchTrackResult {
+  status: BatchStatus;
+  check: SettlementCheck | null;
+  /** true when this call moved the batch to a new status */
+  advanced: boolean;
+}
+
+/**
+ * Detect (if needed) and check a batch's tx, store the result and fire the
+ * batch webhooks on each transition.
+ */
+export async function trackBatch(batch: any, reader: BatchChainReader = getProvider(batch.chain)): Promise<BatchTrackResult> {
+  let current = batch;
+
+  if (!current.txHash) {
+    if (current.status !== "awaiting_tx") return { status: current.status, check: null, advanced: false };
+    const latest = await reader.getBlockNumber();
+    const fromBlock = Math.max((current.detection?.scannedTo ?? -1) + 1, latest - BATCH_LOOKBACK_BLOCKS);
+    const found = await detectBatchTx(reader, current, fromBlock, latest);
+    if (!found) {
+      const expired = Date.now() - new Date(current.createdAt).getTime() > BATCH_DETECT_TTL_HOURS * 3_600_000;
+      await batchDb.transition(current.id, ["awaiting_tx"], {
+        detection: { scannedTo: latest, checkedAt: new Date().toISOString() },
+        ...(expired ? { status: "expired" } : {}),
+      });
+      return { status: expired ? "expired" : "awaiting_tx", check: null, advanced: expired };
+    }
+    const claimed = await batchDb.transition(current.id, ["awaiting_tx"], {
+      status: "submitted", txHash: found, txSource: "detected", detection: { scannedTo: latest, checkedAt: new Date().toISOString() },
+    });
+    if (!claimed) return { status: current.status, check: null, advanced: false };
+    current = { ...current, status: "submitted", txHash: found, txSource: "detected" };
+  }
+
+  const check = await checkBatchTx(reader, current, current.txHash);
+
+  // A different block hash than last time (or losing the receipt) means the tx was reorged
+  const previous = current.settlement || {};
+  const reorged = !!previous.blockHash && previous.blockHash !== check.blockHash;
+  const reorgs = (previous.reorgs || 0) + (reorged ? 1 : 0);
+  if (reorged) console.warn(`[batch] Tx ${check.txHash} for ${current.id} was reorged`);
+
+  const now = new Date().toISOString();
+  // A reported tx that never shows up (mistyped, dropped or never sent) stops being polled
+  const missingSince = check.reason === TX_NOT_FOUND ? previous.missingSince ?? now : null;
+  const gaveUp = !!missingSince && Date.parse(now) - Date.parse(missingSince) > BATCH_DETECT_TTL_HOURS * 3_600_000;
+  const status = gaveUp ? "expired" : STATE_TO_STATUS[check.state];
+  const final = FINAL_STATUSES.includes(status);
+  const advanced = await batchDb.transition(current.id, TRACKED_STATUSES, {
+    status,
+    settlement: {
+      ...check, reorgs, checkedAt: now, missingSince,
+      ...(gaveUp ? { reason: `${TX_NOT_FOUND} within ${BATCH_DETECT_TTL_HOURS}h of being reported` } : {}),
+    },
+    ...(final ? { settledAt: now } : {}),
+  });
+
+  if (advanced && status !== current.status) {
+    if (status === "confirming") await notify(current, "batch.confirmed", check);
+    if (final) await notifyFinal(current, status as keyof typeof FINAL_EVENTS, check);
+  }
+  return { status: advanced ? status : current.status, check, advanced: advanced && status !== current.status };
+}
+
+function eventPayload(batch: any, check: SettlementCheck): Record<string, unknown> {
+  return {
+    batch_id: batch.id,
+    ...(batch.parentBatchId ? { parent_batch_id: batch.parentBatchId, chunk_index: batch.chunkIndex } : {}),
+    chain: batch.chain,
+    chain_id: batch.chainId,
+    token: batch.token.symbol,
+    tx_hash: check.txHash,
+    block_number: check.blockNumber,
+    confirmations: check.confirmations,
+    recipient_count: check.recipients.length,
+    confirmed_recipients: check.confirmedCount,
+    failed_recipients: check.recipients.filter((r) => r.status === "failed").map((r) => r.index),
+  };
+}
+
+async function notify(batch: any, eventType: "batch.confirmed", check: SettlementCheck): Promise<void> {
+  if (!webhookService) return;
+  try {
+    await webhookService.reportBatchEvent(batch.parentBatchId || batch.id, eventType, eventPayload(batch, check));
+  } catch (err) {
+    console.error(`[batch] Failed to queue ${eventType} for ${batch.id}:`, err);
+  }
+}
+
+async function notifyFinal(batch: any, status: keyof typeof FINAL_EVENTS, check: SettlementCheck): Promise<void> {
+  if (!webhookService) return;
+  try {
+    if (!batch.parentBatchId) {
+      await webhookService.reportBatchEvent(batch.id, FINAL_EVENTS[status], eventPayload(batch, check));
+      return;
+    }
+    // Chunk: the parent's event waits for every sibling to resolve
+    const chunks = await batchDb.listByParent(batch.parentBatchId);
+    const outcomes: ChunkOutcome[] = chunks.map((c: any) => ({
+      index: c.chunkIndex,
+      status: c.status === "settled" ? "confirmed" : FINAL_STATUSES.includes(c.status) ? "failed" : "pending",
+      txHash: c.txHash,
+      error: c.status === "settled" ? null : c.settlement?.reason ?? null,
+    }));
+    await webhookService.reportChunkedBatch(batch.parentBatchId, outcomes, { chain: batch.chain, token: batch.token.symbol });
+  } catch (err) {
+    console.error(`[batch] Failed to queue settlement webhook for ${batch.id}:`, err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Background watcher
+// ---------------------------------------------------------------------------
+
+export interface BatchTrackerConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+export interface BatchTrackerHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the tracker is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startBatchTracker(
+  service: WebhookService | null,
+  config?: Partial<BatchTrackerConfig>
+): BatchTrackerHandle {
+  const mergedConfig: BatchTrackerConfig = { pollIntervalMs: 20_000, batchSize: 25, ...config };
+  webhookService = service;
+  let running = true;
+  let processing = false;
+
+  console.log(`[batch] 🔍 Settlement tracker started (poll: ${mergedConfig.pollIntervalMs}ms, confirmations: ${BATCH_MIN_CONFIRMATIONS})`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const batches = await batchDb.listTrackable(TRACKED_STATUSES, mergedConfig.batchSize);
+      for (const batch of batches) {
+        try {
+          await trackBatch(batch);
+        } catch (err) {
+          console.error(`[batch] Settlement check failed for ${batch.id}:`, err);
+        }
+      }
+    } catch (err) {
+      console.error("[batch] Tracker tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[batch] Settlement tracker stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
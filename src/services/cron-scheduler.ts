@@ -0,0 +1,301 @@
+// ============================================
+// src/services/cron-scheduler.ts
+// Cron Scheduler — executes jobs created via /api/v1/cron/create
+// ============================================
+// Polls cron_jobs for active jobs whose next_run has passed, claims each
+// occurrence with a compare-and-set on next_run (safe with several gateway
+// instances sharing one database), then dispatches the action to the same
+// route handler the HTTP API uses.
+//
+// Outcomes are written back to the job: last_run, run_count, last_status,
+// last_error, fail_count. A job moves to "completed" once maxRuns is reached
+// (or its schedule never fires again) and to "failed" after
+// maxConsecutiveFailures failures in a row. Every run — scheduled or manual —
+// also lands in cron_runs with its output, pruned after runRetentionDays.
+//
+// Dispatch skips the route middleware, so payment actions are screened here
+// the way sanctionsPreflight would screen the HTTP request; a blocked run is
+// recorded as failed and nothing is built. Runs of money-moving actions are
+// also appended to the gateway's audit trail, as the HTTP calls would be.
+
+import crypto from "crypto";
+import { cronDb, cronRunsDb } from "../db.js";
+import { nextCronRun } from "../lib/cron-expression.js";
+import { invokeHandler, RouteHandler, HandlerResult } from "../lib/invoke-handler.js";
+import { batchPaymentHandler } from "../routes/batch-payments.js";
+import { payrollExecuteHandler } from "../routes/payroll.js";
+import { swapExecuteHandler } from "../routes/swap-execute.js";
+import { bridgeQuoteHandler } from "../routes/bridge.js";
+import { webhookTestHandler } from "../routes/webhook.js";
+import { notifyEmailHandler, notifySmsHandler } from "../routes/email-sms.js";
+import { xmtpSendHandler } from "../routes/xmtp-relay.js";
+import { analyticsWalletHandler } from "../routes/analytics.js";
+import { invoiceRemindHandler } from "../routes/invoice.js";
+import { PreflightTarget, preflightRequired, preflightScreener, screenPayment } from "../middleware/sanctions-preflight.js";
+import { SanctionsScreener } from "../lib/sanctions.js";
+import { auditDispatch } from "../middleware/audit-trail.js";
+
+export interface CronSchedulerConfig {
+  /** How often to look for due jobs */
+  pollIntervalMs: number;
+  /** Max jobs claimed per tick */
+  batchSize: number;
+  /** Consecutive failures before a job is marked "failed" */
+  maxConsecutiveFailures: number;
+  /** Days of cron_runs history kept per job */
+  runRetentionDays: number;
+  /** A run whose handler hasn't responded by then is recorded as a 504 failure */
+  actionTimeoutMs: number;
+}
+
+export const DEFAULT_CRON_SCHEDULER_CONFIG: CronSchedulerConfig = {
+  pollIntervalMs: 15_000,
+  batchSize: 25,
+  maxConsecutiveFailures: 5,
+  runRetentionDays: Number(process.env.CRON_RUN_RETENTION_DAYS) || 30,
+  actionTimeoutMs: Number(process.env.CRON_ACTION_TIMEOUT_MS) || 120_000,
+};
+
+export interface CronSchedulerHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the scheduler is currently running. */
+  isRunning: () => boolean;
+}
+
+interface ActionTarget {
+  handler: RouteHandler;
+  method: "GET" | "POST";
+  path: string;
+  /** Counterparties screened before dispatch, as the HTTP route's sanctionsPreflight does */
+  preflight?: PreflightTarget;
+}
+
+/** Action → HTTP handler. GET targets receive the job payload as query params. */
+const ACTION_TARGETS: Record<string, ActionTarget> = {
+  "batch.execute":      { handler: batchPaymentHandler, method: "POST", path: "/api/v1/batch/execute", preflight: "batch" },
+  "payroll.execute":    { handler: payrollExecuteHandler, method: "POST", path: "/api/v1/payroll/execute", preflight: "payroll" },
+  "swap.execute":       { handler: swapExecuteHandler, method: "POST", path: "/api/v1/swap/execute" },
+  "bridge.quote":       { handler: bridgeQuoteHandler, method: "GET", path: "/api/v1/bridge/quote" },
+  "webhook.trigger":    { handler: webhookTestHandler, method: "POST", path: "/api/v1/webhook/test" },
+  "notify.email":       { handler: notifyEmailHandler, method: "POST", path: "/api/v1/notify/email" },
+  "notify.sms":         { handler: notifySmsHandler, method: "POST", path: "/api/v1/notify/sms" },
+  "xmtp.send":          { handler: xmtpSendHandler, method: "POST", path: "/api/v1/xmtp/send" },
+  "analytics.snapshot": { handler: analyticsWalletHandler, method: "GET", path: "/api/v1/analytics/wallet" },
+  "invoice.remind":     { handler: invoiceRemindHandler, method: "POST", path: "/api/v1/invoice/remind" },
+};
+
+/** Old action names still stored on jobs. "bridge.execute" only ever fetched a quote. */
+const ACTION_ALIASES: Record<string, string> = { "bridge.execute": "bridge.quote" };
+
+export type CronRunTrigger = "schedule" | "manual";
+
+export interface CronRunResult {
+  /** cron_runs row id — set once the run has been recorded */
+  runId?: string;
+  ok: boolean;
+  status: number | null;
+  output: any;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Run a job's action once. Never throws — failures come back as `ok: false`,
+ * including a handler that hangs past `timeoutMs` (504), so a tick always ends.
+ */
+export async function executeCronAction(
+  action: string,
+  payload: any,
+  timeoutMs: number = DEFAULT_CRON_SCHEDULER_CONFIG.actionTimeoutMs,
+  screener: SanctionsScreener = preflightScreener
+): Promise<CronRunResult> {
+  const started = Date.now();
+  const target = ACTION_TARGETS[ACTION_ALIASES[action] ?? action];
+  if (!target) {
+    return { ok: false, status: null, output: null, error: `No executor registered for action ${action}`, durationMs: 0 };
+  }
+
+  if (target.preflight && (preflightRequired() || payload?.sanctions_check === true)) {
+    const blocked = await screenCronPayload(target.preflight, payload, screener);
+    if (blocked) return { ok: false, status: blocked.status, output: blocked.body, error: blocked.body.error, durationMs: Date.now() - started };
+  }
+
+  let result: HandlerResult;
+  try {
+    result = await invokeHandler(target.handler, {
+      method: target.method,
+      path: target.path,
+      body: target.method === "POST" ? payload : {},
+      query: target.method === "GET" ? payload : {},
+      timeoutMs,
+    });
+  } catch (err: any) {
+    result = { status: 500, body: { error: err?.message || String(err) } };
+  }
+
+  const ok = result.status < 400;
+  const error = ok ? null : [result.body?.error, result.body?.details].filter(Boolean).join(": ") || `HTTP ${result.status}`;
+  return { ok, status: result.status, output: result.body, error, durationMs: Date.now() - started };
+}
+
+/** A 403/503 result when the payload's counterparties are sanctioned or can't be screened. */
+async function screenCronPayload(target: PreflightTarget, payload: any, screener: SanctionsScreener): Promise<HandlerResult | null> {
+  let screening;
+  try {
+    screening = await screenPayment(target, payload ?? {}, screener);
+  } catch (err: any) {
+    return { status: 503, body: { error: `sanctions screening unavailable: ${err?.message || err}` } };
+  }
+  if (screening.matches.length === 0) return null;
+  return {
+    status: 403,
+    body: {
+      error: `sanctioned counterparty: ${screening.matches.map((m) => `${m.address} (${m.roles.join(", ")})`).join("; ")}`,
+      matches: screening.matches.map(({ address, roles }) => ({ address, roles })),
+      chain: screening.chain,
+    },
+  };
+}
+
+/** Persist a run to the job's log and the audit trail, and apply retention. Failures here never fail the run. */
+async function recordRun(
+  job: any,
+  trigger: CronRunTrigger,
+  startedAt: Date,
+  result: CronRunResult,
+  config: CronSchedulerConfig
+): Promise<void> {
+  const runId = `run_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
+  const target = ACTION_TARGETS[ACTION_ALIASES[job.action] ?? job.action];
+  if (target && result.status !== null) {
+    await auditDispatch(target.path, job.payload, { status: result.status, body: result.output }, `cron:${job.id}`);
+  }
+  try {
+    await cronRunsDb.record({
+      id: runId, jobId: job.id, action: job.action, trigger,
+      status: result.ok ? "success" : "failed", httpStatus: result.status,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date(startedAt.getTime() + result.durationMs).toISOString(),
+      durationMs: result.durationMs, output: result.output, error: result.error,
+    });
+    result.runId = runId;
+    const cutoff = new Date(Date.now() - config.runRetentionDays * 86_400_000).toISOString();
+    await cronRunsDb.prune(job.id, cutoff);
+  } catch (err) {
+    console.error(`[cron] Failed to record run for job ${job.id}:`, err);
+  }
+}
+
+/**
+ * Claim one due occurrence, run it and record the outcome.
+ * Returns null when another instance claimed the occurrence first.
+ */
+export async function runDueCronJob(
+  job: any,
+  config: CronSchedulerConfig = DEFAULT_CRON_SCHEDULER_CONFIG,
+  now: Date = new Date()
+): Promise<CronRunResult | null> {
+  const timezone = job.timezone || "UTC";
+  let next: Date | null = null;
+  try {
+    next = nextCronRun(job.schedule, now, timezone);
+  } catch {
+    // Schedule stored before validation existed — run once, then stop
+  }
+  const runCount = (job.run_count || 0) + 1;
+  const exhausted = !!job.max_runs && runCount >= job.max_runs;
+  const nextRun = exhausted || !next ? null : next.toISOString();
+
+  const claimed = await cronDb.claim(job.id, job.next_run, nextRun);
+  if (!claimed) return null;
+
+  const startedAt = new Date();
+  const result = await executeCronAction(job.action, job.payload, config.actionTimeoutMs);
+  await recordRun(job, "schedule", startedAt, result, config);
+  const failCount = result.ok ? 0 : (job.fail_count || 0) + 1;
+
+  let status = "active";
+  if (!nextRun) status = "completed";
+  else if (failCount >= config.maxConsecutiveFailures) status = "failed";
+
+  // A pause or cancel that landed while the action ran wins over the computed status
+  const current = await cronDb.get(job.id);
+  if (current?.status === "cancelled" || current?.status === "paused") status = current.status;
+
+  await cronDb.update(job.id, {
+    status,
+    lastRun: now.toISOString(),
+    runCount,
+    failCount,
+    lastStatus: result.ok ? "success" : "failed",
+    lastError: result.error,
+  });
+
+  if (!result.ok) {
+    console.warn(`[cron] Job ${job.id} (${job.action}) failed: ${result.error}`);
+  }
+  return result;
+}
+
+/**
+ * Run a job immediately, outside its schedule. Recorded in the run log and
+ * reflected in last_run/last_status, but leaves next_run, run_count and the
+ * failure streak alone so maxRuns only counts scheduled occurrences.
+ */
+export async function triggerCronJob(
+  job: any,
+  config: CronSchedulerConfig = DEFAULT_CRON_SCHEDULER_CONFIG
+): Promise<CronRunResult> {
+  const startedAt = new Date();
+  const result = await executeCronAction(job.action, job.payload, config.actionTimeoutMs);
+  await recordRun(job, "manual", startedAt, result, config);
+  await cronDb.update(job.id, {
+    lastRun: startedAt.toISOString(),
+    lastStatus: result.ok ? "success" : "failed",
+    lastError: result.error,
+  });
+  return result;
+}
+
+export function startCronScheduler(config?: Partial<CronSchedulerConfig>): CronSchedulerHandle {
+  const mergedConfig = { ...DEFAULT_CRON_SCHEDULER_CONFIG, ...config };
+  let running = true;
+  let processing = false;
+
+  console.log(`[cron] ⏰ Scheduler started (poll: ${mergedConfig.pollIntervalMs}ms, batch: ${mergedConfig.batchSize})`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const now = new Date();
+      const due = await cronDb.listDue(now.toISOString(), mergedConfig.batchSize);
+      // Sequential on purpose — payment actions for the same wallet must not race
+      for (const job of due) {
+        try {
+          await runDueCronJob(job, mergedConfig, now);
+        } catch (err) {
+          console.error(`[cron] Job ${job.id} error:`, err);
+        }
+      }
+    } catch (err) {
+      console.error("[cron] Scheduler tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[cron] Scheduler stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
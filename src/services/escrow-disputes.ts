@@ -0,0 +1,159 @@
+// ============================================
+// src/services/escrow-disputes.ts
+// Escrow Dispute Settlement — arbiter rulings and the deadline fallback
+// ============================================
+// Settling a dispute splits the escrow's remaining balance between
+// beneficiary and depositor and moves it disputed → resolved. The move is a
+// compare-and-set on the escrow's status and released amount, so an arbiter
+// ruling and the deadline fallback can't both settle the same dispute.
+//
+// Disputes with no ruling by their deadline are settled with the default
+// outcome by a background watcher, which queues an `escrow.resolved`
+// webhook for escrows created with a callback_url.
+
+import { Interface, formatUnits } from "ethers";
+import { escrowDb } from "../db.js";
+import { EscrowDispute, splitAmount } from "../lib/escrow-dispute.js";
+import { remainingRaw } from "../lib/escrow-milestones.js";
+import { escrowHoldingAddress } from "./escrow-funding.js";
+import type { WebhookService } from "../webhooks/index.js";
+
+const CHAIN_ID = 8453;
+const ERC20_IFACE = new Interface(["function transfer(address to, uint256 amount) external returns (bool)"]);
+
+export interface DisputeSettlement {
+  status: "resolved";
+  releasedRaw: string;
+  releasedAt: string;
+  dispute: EscrowDispute;
+}
+
+/**
+ * Split the remaining balance between beneficiary and depositor and close the
+ * dispute. Returns the escrow fields that changed, or null when the dispute
+ * was already settled by someone else.
+ */
+export async function settleDispute(
+  escrow: any,
+  beneficiaryBps: number,
+  by: string,
+  caller: string | null,
+  note: string | null,
+  eventType: "resolved" | "expired",
+  now: Date = new Date()
+): Promise<DisputeSettlement | null> {
+  const at = now.toISOString();
+  const { beneficiaryRaw, depositorRaw } = splitAmount(remainingRaw(escrow), beneficiaryBps);
+  const signer = escrowHoldingAddress(escrow) || escrow.depositor;
+  const transfer = (to: string, raw: bigint) => raw > 0n
+    ? { to: escrow.token.address, data: ERC20_IFACE.encodeFunctionData("transfer", [to, raw]), value: "0x0", chainId: CHAIN_ID, signer, recipient: to, amountRaw: raw.toString() }
+    : null;
+
+  const previous: EscrowDispute = escrow.dispute;
+  const resolution = {
+    beneficiaryBps,
+    beneficiaryAmount: formatUnits(beneficiaryRaw, escrow.token.decimals),
+    depositorAmount: formatUnits(depositorRaw, escrow.token.decimals),
+    resolvedBy: by, resolvedAt: at, note,
+    transactions: { beneficiary: transfer(escrow.beneficiary, beneficiaryRaw), depositor: transfer(escrow.depositor, depositorRaw) },
+  };
+  const dispute: EscrowDispute = {
+    ...previous,
+    status: eventType,
+    resolution,
+    events: [...previous.events, { type: eventType, at, by, caller, data: { beneficiaryBps, note } }],
+  };
+  const changes: DisputeSettlement = {
+    status: "resolved",
+    releasedRaw: (BigInt(escrow.releasedRaw || "0") + beneficiaryRaw).toString(),
+    releasedAt: at,
+    dispute,
+  };
+  const applied = await escrowDb.transition(escrow.id, { status: "disputed", releasedRaw: escrow.releasedRaw }, changes);
+  return applied ? changes : null;
+}
+
+/**
+ * Apply the default outcome to every dispute past its deadline. Returns how
+ * many were settled by this call.
+ */
+export async function settleExpiredDisputes(service: WebhookService | null, now: Date = new Date()): Promise<number> {
+  let settled = 0;
+  for (const escrow of await escrowDb.listByStatus("disputed")) {
+    const dispute: EscrowDispute | null = escrow.dispute;
+    if (!dispute || new Date(dispute.deadline) > now) continue;
+
+    const changes = await settleDispute(escrow, dispute.defaultBeneficiaryBps, "system", null, "Dispute deadline passed — default outcome applied", "expired", now);
+    if (!changes) continue;
+    settled++;
+    console.log(`[escrow] ⚖️  Dispute on ${escrow.id} expired — default outcome (${dispute.defaultBeneficiaryBps / 100}% to beneficiary) applied`);
+
+    if (!service || !escrow.webhookId) continue;
+    const resolution = changes.dispute.resolution!;
+    try {
+      await service.queueFollowUp({
+        originalWebhookId: escrow.webhookId,
+        eventType: "escrow.resolved",
+        payload: {
+          escrow_id: escrow.id, beneficiary_bps: resolution.beneficiaryBps, outcome: "default",
+          beneficiary_amount: resolution.beneficiaryAmount, depositor_amount: resolution.depositorAmount,
+          token: escrow.token.symbol, resolved_at: resolution.resolvedAt,
+        },
+      });
+    } catch (err) {
+      console.error(`[escrow] Failed to queue escrow.resolved for ${escrow.id}:`, err);
+    }
+  }
+  return settled;
+}
+
+// ---------------------------------------------------------------------------
+// Background watcher
+// ---------------------------------------------------------------------------
+
+export interface DisputeWatcherConfig {
+  pollIntervalMs: number;
+}
+
+export interface DisputeWatcherHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the watcher is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startDisputeWatcher(
+  service: WebhookService | null,
+  config?: Partial<DisputeWatcherConfig>
+): DisputeWatcherHandle {
+  const mergedConfig: DisputeWatcherConfig = { pollIntervalMs: 60_000, ...config };
+  let running = true;
+  let processing = false;
+
+  console.log(`[escrow] ⚖️  Dispute watcher started (poll: ${mergedConfig.pollIntervalMs}ms)`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      await settleExpiredDisputes(service);
+    } catch (err) {
+      console.error("[escrow] Dispute watcher tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[escrow] Dispute watcher stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
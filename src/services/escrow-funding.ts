@@ -0,0 +1,239 @@
+// ============================================
+// src/services/escrow-funding.ts
+// Escrow Funding Verification — confirms deposits against Base state
+// ============================================
+// An escrow only moves created → funded once the chain shows an ERC-20
+// Transfer of at least `amountRaw` of the escrow token from the depositor to
+// the escrow holding address, in a successful tx with enough confirmations.
+//
+// Reorg tolerance: the receipt is re-fetched on every check until the tx has
+// ESCROW_MIN_CONFIRMATIONS blocks on top of it. If the tx moves to another
+// block (or drops out and is re-mined) confirmations restart from the new
+// block; the reorg is counted in the escrow's `funding` record.
+//
+// The same check backs POST /api/v1/escrow/verify and the background watcher,
+// which also queues the `escrow.funded` webhook for escrows created with a
+// callback_url.
+
+import { Interface, JsonRpcProvider, getAddress } from "ethers";
+import { escrowDb } from "../db.js";
+import type { WebhookService } from "../webhooks/index.js";
+
+const RPC_URL = process.env.BASE_RPC_URL || "https://mainnet.base.org";
+
+export const ESCROW_MIN_CONFIRMATIONS = Number(process.env.ESCROW_MIN_CONFIRMATIONS) || 10;
+
+const TRANSFER_IFACE = new Interface(["event Transfer(address indexed from, address indexed to, uint256 value)"]);
+const TRANSFER_TOPIC = TRANSFER_IFACE.getEvent("Transfer")!.topicHash;
+
+/** The slice of an ethers provider the check needs — lets tests pass a fake chain. */
+export interface FundingChainReader {
+  getBlockNumber(): Promise<number>;
+  getTransactionReceipt(hash: string): Promise<{
+    status: number | null;
+    blockNumber: number;
+    blockHash: string;
+    logs: ReadonlyArray<{ address: string; topics: ReadonlyArray<string>; data: string }>;
+  } | null>;
+}
+
+export type FundingState = "pending" | "confirmed" | "invalid";
+
+export interface FundingCheck {
+  state: FundingState;
+  txHash: string;
+  confirmations: number;
+  requiredConfirmations: number;
+  blockNumber: number | null;
+  blockHash: string | null;
+  amountReceivedRaw: string | null;
+  reason: string | null;
+}
+
+/** Escrow fields the check reads — matches escrowDb._fromRow. */
+export interface FundableEscrow {
+  depositor: string;
+  amountRaw: string;
+  token: { address: string; symbol: string };
+}
+
+export function escrowHoldingAddress(escrow?: { holdingAddress?: string | null }): string | null {
+  return escrow?.holdingAddress || process.env.ESCROW_HOLDING_ADDRESS || null;
+}
+
+/** Inspect a funding tx. Pure read — does not touch the database. */
+export async function checkFundingTx(
+  reader: FundingChainReader,
+  escrow: FundableEscrow,
+  txHash: string,
+  holdingAddress: string,
+  requiredConfirmations: number = ESCROW_MIN_CONFIRMATIONS
+): Promise<FundingCheck> {
+  const base: FundingCheck = {
+    state: "pending", txHash, confirmations: 0, requiredConfirmations,
+    blockNumber: null, blockHash: null, amountReceivedRaw: null, reason: null,
+  };
+
+  const receipt = await reader.getTransactionReceipt(txHash);
+  if (!receipt) return { ...base, reason: "Transaction not found or not yet mined" };
+
+  const mined = { ...base, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash };
+  if (receipt.status !== 1) return { ...mined, state: "invalid", reason: "Transaction reverted" };
+
+  const token = escrow.token.address.toLowerCase();
+  const depositor = getAddress(escrow.depositor);
+  const holding = getAddress(holdingAddress);
+  let received = 0n;
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== token || log.topics[0] !== TRANSFER_TOPIC) continue;
+    const parsed = TRANSFER_IFACE.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) continue;
+    if (getAddress(parsed.args.from) === depositor && getAddress(parsed.args.to) === holding) {
+      received += parsed.args.value as bigint;
+    }
+  }
+
+  if (received === 0n) {
+    return { ...mined, state: "invalid", reason: `No ${escrow.token.symbol} Transfer from depositor to escrow holding address ${holding} in this transaction` };
+  }
+  const withAmount = { ...mined, amountReceivedRaw: received.toString() };
+  if (received < BigInt(escrow.amountRaw)) {
+    return { ...withAmount, state: "invalid", reason: `Transferred ${received} raw units, escrow requires ${escrow.amountRaw}` };
+  }
+
+  const latest = await reader.getBlockNumber();
+  const confirmations = Math.max(latest - receipt.blockNumber + 1, 0);
+  if (confirmations < requiredConfirmations) {
+    return { ...withAmount, confirmations, reason: `Waiting for ${requiredConfirmations - confirmations} more confirmation(s)` };
+  }
+  return { ...withAmount, state: "confirmed", confirmations };
+}
+
+// ---------------------------------------------------------------------------
+// Persisting results + webhooks
+// ---------------------------------------------------------------------------
+
+let provider: JsonRpcProvider | null = null;
+let webhookService: WebhookService | null = null;
+
+function getProvider(): JsonRpcProvider {
+  if (!provider) provider = new JsonRpcProvider(RPC_URL);
+  return provider;
+}
+
+export interface FundingVerification {
+  check: FundingCheck;
+  escrowStatus: string;
+  /** true when this call moved the escrow to funded */
+  funded: boolean;
+}
+
+/**
+ * Check an escrow's reported funding tx, store the result and advance the
+ * escrow to `funded` once confirmed. Throws when no holding address is set.
+ */
+export async function verifyEscrowFunding(escrow: any, reader: FundingChainReader = getProvider()): Promise<FundingVerification> {
+  const holding = escrowHoldingAddress(escrow);
+  if (!holding) throw new Error("ESCROW_HOLDING_ADDRESS not configured");
+
+  const check = await checkFundingTx(reader, escrow, escrow.fundingTxHash, holding);
+
+  // A different block hash than last time (or losing the receipt) means the tx was reorged
+  const previous = escrow.funding || {};
+  const reorged = !!previous.blockHash && previous.blockHash !== check.blockHash;
+  const reorgs = (previous.reorgs || 0) + (reorged ? 1 : 0);
+  if (reorged) console.warn(`[escrow] Funding tx ${check.txHash} for ${escrow.id} was reorged`);
+
+  const now = new Date().toISOString();
+  await escrowDb.update(escrow.id, {
+    fundingStatus: check.state,
+    funding: { ...check, reorgs, checkedAt: now },
+  });
+
+  let funded = false;
+  if (check.state === "confirmed" && escrow.status === "created") {
+    funded = await escrowDb.markFunded(escrow.id, now);
+    if (funded) await notifyFunded(escrow, check, now);
+  } else if (check.state === "confirmed" && escrow.status === "expired" && !escrow.fundedAt) {
+    // Deposit landed after the escrow lapsed — record it so the depositor can cancel for a refund
+    await escrowDb.update(escrow.id, { fundedAt: now });
+  }
+  return { check, escrowStatus: funded ? "funded" : escrow.status, funded };
+}
+
+async function notifyFunded(escrow: any, check: FundingCheck, fundedAt: string): Promise<void> {
+  if (!webhookService || !escrow.webhookId) return;
+  try {
+    await webhookService.queueFollowUp({
+      originalWebhookId: escrow.webhookId,
+      eventType: "escrow.funded",
+      payload: {
+        escrow_id: escrow.id, amount: escrow.amount, token: escrow.token.symbol,
+        beneficiary: escrow.beneficiary, funded_at: fundedAt,
+        tx_hash: check.txHash, block_number: check.blockNumber, confirmations: check.confirmations,
+      },
+    });
+  } catch (err) {
+    console.error(`[escrow] Failed to queue escrow.funded for ${escrow.id}:`, err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Background watcher
+// ---------------------------------------------------------------------------
+
+export interface EscrowWatcherConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+export interface EscrowWatcherHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the watcher is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startEscrowWatcher(
+  service: WebhookService | null,
+  config?: Partial<EscrowWatcherConfig>
+): EscrowWatcherHandle {
+  const mergedConfig: EscrowWatcherConfig = { pollIntervalMs: 30_000, batchSize: 25, ...config };
+  webhookService = service;
+  let running = true;
+  let processing = false;
+
+  console.log(`[escrow] 🔍 Funding watcher started (poll: ${mergedConfig.pollIntervalMs}ms, confirmations: ${ESCROW_MIN_CONFIRMATIONS})`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const pending = await escrowDb.listPendingFunding(mergedConfig.batchSize);
+      for (const escrow of pending) {
+        try {
+          await verifyEscrowFunding(escrow);
+        } catch (err) {
+          console.error(`[escrow] Funding check failed for ${escrow.id}:`, err);
+        }
+      }
+    } catch (err) {
+      console.error("[escrow] Watcher tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[escrow] Funding watcher stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
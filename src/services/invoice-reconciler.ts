@@ -0,0 +1,421 @@
+// ============================================
+// src/services/invoice-reconciler.ts
+// Invoice Reconciler — matches Base ERC-20 transfers to open invoices
+// ============================================
+// Scans Transfer logs of each invoice token to the creators of open invoices
+// and attributes every transfer to at most one invoice, in this order:
+//
+//   1. memo    — the tx calldata carries "spraay:<invoiceId>" after the
+//                transfer arguments (the pre-encoded payment tx does this)
+//   2. suffix  — the amount equals the invoice's unique payAmountRaw
+//                (amount + a few micro-units picked at create time)
+//   3. amount  — the amount equals amountRaw and exactly one open invoice
+//                for that creator/token has that amount
+//
+// Only the memo can attribute a partial or over-payment; bare transfers of
+// other amounts are left alone. Matched payments accumulate in the invoice's
+// `payments` list (deduplicated by tx hash + log index, so rescans are safe)
+// and set its status to partially_paid, paid or overpaid. Each match queues a
+// `payment.confirmed` webhook for invoices created with a callback_url.
+//
+// Blocks are scanned once they have INVOICE_MIN_CONFIRMATIONS confirmations.
+// The cursor lives in memory; on start the watcher looks back
+// INVOICE_LOOKBACK_BLOCKS so payments made while it was down still land.
+//
+// USDC invoices created with a solanaRecipient can also be paid through
+// Solana Pay: each carries a random reference key, and the transactions that
+// include it are verified as USDC transfers to the recipient and recorded
+// like any other payment (matchedBy "reference").
+
+import { Interface, JsonRpcProvider, getAddress, hexlify, toUtf8Bytes, zeroPadValue, formatUnits, parseUnits } from "ethers";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { invoiceDb } from "../db.js";
+import { SolanaVerifier, SolanaVerifyResult } from "../solana/solanaVerifier.js";
+import type { WebhookService } from "../webhooks/index.js";
+
+const RPC_URL = process.env.BASE_RPC_URL || "https://mainnet.base.org";
+
+export const INVOICE_MIN_CONFIRMATIONS = Number(process.env.INVOICE_MIN_CONFIRMATIONS) || 3;
+export const INVOICE_LOOKBACK_BLOCKS = Number(process.env.INVOICE_LOOKBACK_BLOCKS) || 1_800;
+
+const TRANSFER_IFACE = new Interface(["event Transfer(address indexed from, address indexed to, uint256 value)"]);
+const TRANSFER_TOPIC = TRANSFER_IFACE.getEvent("Transfer")!.topicHash;
+
+/** Largest suffix, in micro-units of the token (0.000999 at most). */
+const MAX_SUFFIX = 999;
+
+export type InvoicePaymentStatus = "partially_paid" | "paid" | "overpaid";
+export type PaymentMatch = "memo" | "suffix" | "amount" | "reference";
+
+export interface InvoicePayment {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  from: string;
+  amount: string;
+  amountRaw: string;
+  matchedBy: PaymentMatch;
+  detectedAt: string;
+}
+
+/** Invoice fields the matcher reads — matches invoiceDb._fromRow. */
+export interface ReconcilableInvoice {
+  id: string;
+  creator: string;
+  status: string;
+  amountRaw: string;
+  payAmountRaw?: string | null;
+  receivedRaw?: string | null;
+  payments?: InvoicePayment[] | null;
+  token: { address: string; decimals: number };
+}
+
+/** A Transfer log to an invoice creator, plus the calldata of its tx. */
+export interface ObservedTransfer {
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  from: string;
+  to: string;
+  token: string;
+  valueRaw: bigint;
+  txData: string | null;
+}
+
+/** The slice of an ethers provider the reconciler needs — lets tests pass a fake chain. */
+export interface InvoiceChainReader {
+  getBlockNumber(): Promise<number>;
+  getLogs(filter: { address: string; topics: Array<string | string[] | null>; fromBlock: number; toBlock: number }): Promise<ReadonlyArray<{
+    transactionHash: string;
+    index: number;
+    blockNumber: number;
+    topics: ReadonlyArray<string>;
+    data: string;
+  }>>;
+  getTransaction(hash: string): Promise<{ data: string } | null>;
+}
+
+/** Solana Pay lookups — signatures that include a reference key, and USDC transfer verification. */
+export interface SolanaPayReader {
+  findSignatures(reference: string): Promise<string[]>;
+  verifyTransfer(signature: string, recipient: string): Promise<SolanaVerifyResult>;
+}
+
+// ---------------------------------------------------------------------------
+// Payment references
+// ---------------------------------------------------------------------------
+
+/** Hex (no 0x) of the memo appended to an invoice's payment calldata. */
+export function invoiceMemoHex(invoiceId: string): string {
+  return hexlify(toUtf8Bytes(`spraay:${invoiceId.toUpperCase()}`)).slice(2);
+}
+
+/** transfer() calldata with the invoice memo appended — ERC-20s ignore trailing bytes. */
+export function withInvoiceMemo(transferCalldata: string, invoiceId: string): string {
+  return transferCalldata + invoiceMemoHex(invoiceId);
+}
+
+/**
+ * Pick the amount an invoice asks for on-chain: amountRaw plus 1–999
+ * micro-units of the token, avoiding amounts already used by the creator's
+ * other open invoices in the same token. Falls back to amountRaw when every
+ * suffix is taken.
+ */
+export function pickPayAmount(amountRaw: bigint, decimals: number, taken: Set<string>, random: () => number = Math.random): bigint {
+  const unit = 10n ** BigInt(Math.max(decimals - 6, 0));
+  const start = 1 + Math.floor(random() * MAX_SUFFIX);
+  for (let i = 0; i < MAX_SUFFIX; i++) {
+    const suffix = ((start - 1 + i) % MAX_SUFFIX) + 1;
+    const candidate = amountRaw + BigInt(suffix) * unit;
+    if (!taken.has(candidate.toString())) return candidate;
+  }
+  return amountRaw;
+}
+
+// ---------------------------------------------------------------------------
+// Matching (pure)
+// ---------------------------------------------------------------------------
+
+/** Status for a running total received against the invoice amount. */
+export function paymentStatus(invoice: ReconcilableInvoice, receivedRaw: bigint): InvoicePaymentStatus {
+  if (receivedRaw < BigInt(invoice.amountRaw)) return "partially_paid";
+  const ceiling = BigInt(invoice.payAmountRaw || invoice.amountRaw);
+  return receivedRaw > ceiling ? "overpaid" : "paid";
+}
+
+/**
+ * Attribute a transfer to one of `invoices` (open invoices of any creator).
+ * Returns null when no reference matches or the amount alone is ambiguous.
+ */
+export function matchTransfer(
+  invoices: ReconcilableInvoice[],
+  transfer: ObservedTransfer
+): { invoice: ReconcilableInvoice; matchedBy: PaymentMatch } | null {
+  const to = transfer.to.toLowerCase();
+  const token = transfer.token.toLowerCase();
+  const candidates = invoices.filter((inv) =>
+    inv.creator.toLowerCase() === to && inv.token.address.toLowerCase() === token &&
+    !(inv.payments || []).some((p) => p.txHash.toLowerCase() === transfer.txHash.toLowerCase() && p.logIndex === transfer.logIndex)
+  );
+  if (candidates.length === 0) return null;
+
+  const data = (transfer.txData || "").toLowerCase();
+  const byMemo = candidates.find((inv) => data.includes(invoiceMemoHex(inv.id).toLowerCase()));
+  if (byMemo) return { invoice: byMemo, matchedBy: "memo" };
+
+  const value = transfer.valueRaw.toString();
+  // Suffix and bare-amount matches only settle invoices nothing has been paid against yet
+  const unpaid = candidates.filter((inv) => BigInt(inv.receivedRaw || "0") === 0n);
+  const bySuffix = unpaid.find((inv) => inv.payAmountRaw && inv.payAmountRaw !== inv.amountRaw && inv.payAmountRaw === value);
+  if (bySuffix) return { invoice: bySuffix, matchedBy: "suffix" };
+
+  const byAmount = unpaid.filter((inv) => inv.amountRaw === value);
+  if (byAmount.length === 1) return { invoice: byAmount[0], matchedBy: "amount" };
+  return null;
+}
+
+/** The invoice after adding `transfer` — new running total, status and payment list. */
+export function applyPayment(
+  invoice: ReconcilableInvoice,
+  transfer: ObservedTransfer,
+  matchedBy: PaymentMatch,
+  detectedAt: string
+): { status: InvoicePaymentStatus; receivedRaw: string; payments: InvoicePayment[] } {
+  const receivedRaw = BigInt(invoice.receivedRaw || "0") + transfer.valueRaw;
+  const payment: InvoicePayment = {
+    txHash: transfer.txHash, logIndex: transfer.logIndex, blockNumber: transfer.blockNumber,
+    from: transfer.from, amount: formatUnits(transfer.valueRaw, invoice.token.decimals),
+    amountRaw: transfer.valueRaw.toString(), matchedBy, detectedAt,
+  };
+  return {
+    status: paymentStatus(invoice, receivedRaw),
+    receivedRaw: receivedRaw.toString(),
+    payments: [...(invoice.payments || []), payment],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scanning + persisting
+// ---------------------------------------------------------------------------
+
+let provider: JsonRpcProvider | null = null;
+let webhookService: WebhookService | null = null;
+
+function getProvider(): JsonRpcProvider {
+  if (!provider) provider = new JsonRpcProvider(RPC_URL);
+  return provider;
+}
+
+/** Transfer logs in [fromBlock, toBlock] to the creators of `invoices`, with tx calldata attached. */
+export async function scanTransfers(
+  reader: InvoiceChainReader,
+  invoices: ReconcilableInvoice[],
+  fromBlock: number,
+  toBlock: number
+): Promise<ObservedTransfer[]> {
+  const creatorsByToken = new Map<string, Set<string>>();
+  for (const inv of invoices) {
+    const token = getAddress(inv.token.address);
+    if (!creatorsByToken.has(token)) creatorsByToken.set(token, new Set());
+    creatorsByToken.get(token)!.add(zeroPadValue(getAddress(inv.creator), 32).toLowerCase());
+  }
+
+  const transfers: ObservedTransfer[] = [];
+  const txData = new Map<string, string | null>();
+  for (const [token, creators] of creatorsByToken) {
+    const logs = await reader.getLogs({ address: token, topics: [TRANSFER_TOPIC, null, [...creators]], fromBlock, toBlock });
+    for (const log of logs) {
+      const parsed = TRANSFER_IFACE.parseLog({ topics: [...log.topics], data: log.data });
+      if (!parsed) continue;
+      if (!txData.has(log.transactionHash)) {
+        const tx = await reader.getTransaction(log.transactionHash);
+        txData.set(log.transactionHash, tx?.data ?? null);
+      }
+      transfers.push({
+        txHash: log.transactionHash, logIndex: log.index, blockNumber: log.blockNumber,
+        from: getAddress(parsed.args.from), to: getAddress(parsed.args.to), token,
+        valueRaw: parsed.args.value as bigint, txData: txData.get(log.transactionHash) ?? null,
+      });
+    }
+  }
+  return transfers.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * Record a matched transfer on `invoice`, which is refreshed in place.
+ * Returns false when the invoice changed since it was read.
+ */
+async function recordMatch(invoice: any, transfer: ObservedTransfer, matchedBy: PaymentMatch): Promise<boolean> {
+  const now = new Date().toISOString();
+  const next = applyPayment(invoice, transfer, matchedBy, now);
+  const paidAt = next.status === "partially_paid" ? null : invoice.paidAt || now;
+  const saved = await invoiceDb.recordPayment(invoice.id, invoice.updatedAt, {
+    ...next, paymentTx: transfer.txHash, paidAt,
+  });
+  if (!saved) {
+    console.warn(`[invoice] ${invoice.id} changed while recording ${transfer.txHash} — will retry on the next scan`);
+    return false;
+  }
+
+  const fresh = await invoiceDb.get(invoice.id);
+  if (fresh) Object.assign(invoice, fresh);
+  console.log(`[invoice] ${invoice.id} ${next.status} by ${transfer.txHash} (${matchedBy})`);
+  await notifyPayment(invoice, transfer, next.status, matchedBy);
+  return true;
+}
+
+/**
+ * Match each transfer and record it on its invoice. `invoices` is updated in
+ * place so later transfers in the same scan see earlier payments. Stops at
+ * the first transfer that couldn't be recorded and returns its block as
+ * `retryFromBlock`, so the scan can resume there — recorded logs aren't
+ * matched twice.
+ */
+export async function reconcileTransfers(
+  invoices: any[],
+  transfers: ObservedTransfer[]
+): Promise<{ recorded: number; retryFromBlock: number | null }> {
+  let recorded = 0;
+  for (const transfer of transfers) {
+    const match = matchTransfer(invoices, transfer);
+    if (!match) continue;
+    if (!(await recordMatch(match.invoice, transfer, match.matchedBy))) return { recorded, retryFromBlock: transfer.blockNumber };
+    recorded++;
+  }
+  return { recorded, retryFromBlock: null };
+}
+
+let solanaPayReader: SolanaPayReader | null = null;
+
+function defaultSolanaPayReader(): SolanaPayReader {
+  if (solanaPayReader) return solanaPayReader;
+  const connection = new Connection(process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com", "confirmed");
+  solanaPayReader = {
+    async findSignatures(reference) {
+      const sigs = await connection.getSignaturesForAddress(new PublicKey(reference), { limit: 20 }, "confirmed");
+      return sigs.filter((s) => !s.err).map((s) => s.signature);
+    },
+    // Invoices stay payable for days, so the verifier's x402 freshness window doesn't apply
+    verifyTransfer: (signature, recipient) =>
+      new SolanaVerifier({ receiveAddress: recipient, maxTxAgeSeconds: Number.MAX_SAFE_INTEGER }).verifyPayment(signature, 0),
+  };
+  return solanaPayReader;
+}
+
+/**
+ * Record Solana Pay payments for invoices that carry a reference key.
+ * Returns the number of payments recorded.
+ */
+export async function reconcileSolanaPay(invoices: any[], reader: SolanaPayReader = defaultSolanaPayReader()): Promise<number> {
+  let recorded = 0;
+  for (const invoice of invoices) {
+    if (!invoice.solanaPay) continue;
+    const { recipient, reference } = invoice.solanaPay;
+    const signatures = await reader.findSignatures(reference);
+    for (const signature of signatures) {
+      if ((invoice.payments || []).some((p: InvoicePayment) => p.txHash === signature)) continue;
+      const result = await reader.verifyTransfer(signature, recipient);
+      if (!result.verified || !result.amount) continue;
+
+      const transfer: ObservedTransfer = {
+        txHash: signature, logIndex: 0, blockNumber: result.slot ?? 0, from: result.sender || "unknown",
+        to: recipient, token: invoice.token.address,
+        valueRaw: parseUnits(result.amount.toFixed(invoice.token.decimals), invoice.token.decimals), txData: null,
+      };
+      if (await recordMatch(invoice, transfer, "reference")) recorded++;
+    }
+  }
+  return recorded;
+}
+
+async function notifyPayment(invoice: any, transfer: ObservedTransfer, status: InvoicePaymentStatus, matchedBy: PaymentMatch): Promise<void> {
+  if (!webhookService || !invoice.webhookId) return;
+  try {
+    await webhookService.queueFollowUp({
+      originalWebhookId: invoice.webhookId,
+      eventType: "payment.confirmed",
+      payload: {
+        invoice_id: invoice.id, status, token: invoice.token.symbol,
+        amount: invoice.amount, amount_paid: formatUnits(transfer.valueRaw, invoice.token.decimals),
+        total_received: formatUnits(BigInt(invoice.receivedRaw || "0"), invoice.token.decimals),
+        payer: transfer.from, tx_hash: transfer.txHash, block_number: transfer.blockNumber, matched_by: matchedBy,
+      },
+    });
+  } catch (err) {
+    console.error(`[invoice] Failed to queue payment.confirmed for ${invoice.id}:`, err);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Background watcher
+// ---------------------------------------------------------------------------
+
+export interface InvoiceReconcilerConfig {
+  pollIntervalMs: number;
+  /** Max open invoices watched per tick */
+  batchSize: number;
+  /** Max blocks scanned per tick (public RPCs cap eth_getLogs ranges) */
+  maxBlockRange: number;
+}
+
+export interface InvoiceReconcilerHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the reconciler is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startInvoiceReconciler(
+  service: WebhookService | null,
+  config?: Partial<InvoiceReconcilerConfig>,
+  reader: InvoiceChainReader = getProvider()
+): InvoiceReconcilerHandle {
+  const mergedConfig: InvoiceReconcilerConfig = { pollIntervalMs: 20_000, batchSize: 500, maxBlockRange: 2_000, ...config };
+  webhookService = service;
+  let running = true;
+  let processing = false;
+  let cursor: number | null = null;
+
+  console.log(`[invoice] 🧾 Payment reconciler started (poll: ${mergedConfig.pollIntervalMs}ms, confirmations: ${INVOICE_MIN_CONFIRMATIONS})`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const safeHead = (await reader.getBlockNumber()) - (INVOICE_MIN_CONFIRMATIONS - 1);
+      const fromBlock: number = cursor === null ? Math.max(safeHead - INVOICE_LOOKBACK_BLOCKS, 0) : cursor + 1;
+      if (fromBlock > safeHead) return;
+      const toBlock = Math.min(safeHead, fromBlock + mergedConfig.maxBlockRange - 1);
+
+      let scannedTo = toBlock;
+      const open = await invoiceDb.listOpen(mergedConfig.batchSize);
+      if (open.length > 0) {
+        const transfers = await scanTransfers(reader, open, fromBlock, toBlock);
+        const { retryFromBlock } = await reconcileTransfers(open, transfers);
+        // Rescan from a transfer that lost its race, so its payment isn't skipped
+        if (retryFromBlock !== null) scannedTo = retryFromBlock - 1;
+        const solanaPay = open.filter((inv: any) => inv.solanaPay);
+        // A Solana RPC outage must not hold back the Base cursor
+        if (solanaPay.length > 0) await reconcileSolanaPay(solanaPay).catch((err) => console.error("[invoice] Solana Pay scan error:", err));
+      }
+      cursor = scannedTo;
+    } catch (err) {
+      console.error("[invoice] Reconciler tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[invoice] Payment reconciler stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
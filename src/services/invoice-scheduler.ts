@@ -0,0 +1,254 @@
+// ============================================
+// src/services/invoice-scheduler.ts
+// Invoice Scheduler — recurring issuance, overdue sweep, reminders
+// ============================================
+// Each tick:
+//   1. pending invoices past their dueDate move to "overdue" (and queue an
+//      `invoice.overdue` webhook for invoices with a callback_url)
+//   2. recurring templates whose next_issue_at has passed issue a new
+//      invoice; the occurrence is claimed with a compare-and-set on
+//      next_issue_at, so several gateway instances never double-issue
+//   3. invoices whose next_reminder_at has passed get a reminder
+//
+// Reminders go out through the same handlers the HTTP API serves
+// (notify/email, xmtp/send) or as an `invoice.reminder` follow-up webhook.
+// Scheduled and manual reminders (POST /api/v1/invoice/remind, cron action
+// invoice.remind) share one history and one spacing rule — see
+// lib/invoice-reminders.ts.
+
+import { formatUnits } from "ethers";
+import { invoiceDb, invoiceScheduleDb } from "../db.js";
+import { invokeHandler } from "../lib/invoke-handler.js";
+import { nextIssueDate } from "../lib/invoice-recurrence.js";
+import {
+  ReminderChannel, ReminderDelivery, ReminderEvent, ReminderTrigger,
+  reminderBlock, nextReminderAt, reminderMessage,
+} from "../lib/invoice-reminders.js";
+import { issueInvoice, resolveInvoiceToken } from "../routes/invoice.js";
+import { notifyEmailHandler } from "../routes/email-sms.js";
+import { xmtpSendHandler } from "../routes/xmtp-relay.js";
+import type { WebhookService } from "../webhooks/index.js";
+
+let webhookService: WebhookService | null = null;
+
+// ---------------------------------------------------------------------------
+// Reminders
+// ---------------------------------------------------------------------------
+
+export interface ReminderOutcome {
+  invoiceId: string;
+  sent: boolean;
+  skipped: string | null;
+  event: ReminderEvent | null;
+  nextReminderAt: string | null;
+}
+
+async function deliver(invoice: any, channel: ReminderChannel, message: { subject: string; text: string }, outstanding: string): Promise<ReminderDelivery> {
+  const to = channel.type === "webhook" ? null : channel.to;
+  try {
+    if (channel.type === "webhook") {
+      if (!webhookService || !invoice.webhookId) throw new Error("Invoice was created without a callback_url");
+      await webhookService.queueFollowUp({
+        originalWebhookId: invoice.webhookId,
+        eventType: "invoice.reminder",
+        payload: {
+          invoice_id: invoice.id, status: invoice.status, token: invoice.token.symbol,
+          amount: invoice.amount, outstanding, due_date: invoice.dueDate, subject: message.subject,
+        },
+      });
+      return { channel: channel.type, to, ok: true, error: null };
+    }
+
+    const result = channel.type === "email"
+      ? await invokeHandler(notifyEmailHandler, {
+          path: "/api/v1/notify/email",
+          body: { to: channel.to, subject: message.subject, body: message.text, metadata: { invoiceId: invoice.id } },
+        })
+      : await invokeHandler(xmtpSendHandler, {
+          path: "/api/v1/xmtp/send",
+          body: { to: channel.to, content: `${message.subject}\n\n${message.text}`, metadata: { invoiceId: invoice.id } },
+        });
+    if (result.status >= 400) {
+      const error = [result.body?.error, result.body?.details].filter(Boolean).join(": ") || `HTTP ${result.status}`;
+      return { channel: channel.type, to, ok: false, error: typeof error === "string" ? error : JSON.stringify(error) };
+    }
+    return { channel: channel.type, to, ok: true, error: null };
+  } catch (err: any) {
+    return { channel: channel.type, to, ok: false, error: err?.message || String(err) };
+  }
+}
+
+/**
+ * Send one reminder for `invoice` unless the spacing/limit rules block it.
+ * `channels` overrides the invoice's reminder policy channels.
+ */
+export async function remindInvoice(
+  invoice: any,
+  trigger: ReminderTrigger,
+  channels?: ReminderChannel[] | null,
+  now: Date = new Date()
+): Promise<ReminderOutcome> {
+  const history: ReminderEvent[] = invoice.reminderHistory || [];
+  const policy = invoice.reminders;
+  const skip = (reason: string): ReminderOutcome => ({
+    invoiceId: invoice.id, sent: false, skipped: reason, event: null, nextReminderAt: invoice.nextReminderAt,
+  });
+
+  const blocked = reminderBlock(invoice, history, policy?.maxReminders ?? null, now);
+  if (blocked) return skip(blocked);
+  const targets = channels?.length ? channels : policy?.channels || [];
+  if (targets.length === 0) return skip("No reminder channels — set reminders.channels on the invoice or pass channels");
+
+  const decimals = invoice.token.decimals;
+  const owed = BigInt(invoice.amountRaw) - BigInt(invoice.receivedRaw || "0");
+  const outstanding = formatUnits(owed > 0n ? owed : 0n, decimals);
+  const message = reminderMessage(invoice, outstanding, now);
+
+  const deliveries: ReminderDelivery[] = [];
+  for (const channel of targets) deliveries.push(await deliver(invoice, channel, message, outstanding));
+
+  const event: ReminderEvent = {
+    at: now.toISOString(), trigger,
+    overdue: !!invoice.dueDate && new Date(invoice.dueDate) < now,
+    deliveries,
+  };
+  const nextHistory = [...history, event];
+  const next = nextReminderAt(invoice, policy, nextHistory);
+  await invoiceDb.update(invoice.id, { reminderHistory: nextHistory, nextReminderAt: next ? next.toISOString() : null });
+
+  const sent = deliveries.some((d) => d.ok);
+  if (!sent) console.warn(`[invoice] Reminder for ${invoice.id} failed on every channel`);
+  return { invoiceId: invoice.id, sent, skipped: null, event, nextReminderAt: next ? next.toISOString() : null };
+}
+
+// ---------------------------------------------------------------------------
+// Overdue sweep + recurring issuance
+// ---------------------------------------------------------------------------
+
+export async function sweepOverdue(now: Date = new Date()): Promise<number> {
+  const moved = await invoiceDb.markOverdue(now.toISOString());
+  for (const invoice of moved) {
+    if (!webhookService || !invoice.webhookId) continue;
+    try {
+      await webhookService.queueFollowUp({
+        originalWebhookId: invoice.webhookId,
+        eventType: "invoice.overdue",
+        payload: { invoice_id: invoice.id, amount: invoice.amount, token: invoice.token.symbol, due_date: invoice.dueDate },
+      });
+    } catch (err) {
+      console.error(`[invoice] Failed to queue invoice.overdue for ${invoice.id}:`, err);
+    }
+  }
+  return moved.length;
+}
+
+/**
+ * Claim a template's due occurrence and issue its invoice. Returns the new
+ * invoice id, or null when another instance claimed the occurrence first.
+ */
+export async function issueScheduledInvoice(schedule: any, now: Date = new Date()): Promise<string | null> {
+  const issueAt = new Date(schedule.nextIssueAt);
+  const issuedCount = schedule.issuedCount + 1;
+  let next = nextIssueDate(schedule.recurrence, issueAt);
+  // Catch up without back-issuing occurrences missed while the gateway was down
+  while (next && next <= now) next = nextIssueDate(schedule.recurrence, next);
+  const exhausted = (schedule.maxInvoices && issuedCount >= schedule.maxInvoices) ||
+    !next || (schedule.endDate && next > new Date(schedule.endDate));
+  const nextIssueAt = exhausted ? null : next!.toISOString();
+
+  const claimed = await invoiceScheduleDb.claim(schedule.id, schedule.nextIssueAt, nextIssueAt);
+  if (!claimed) return null;
+
+  const token = resolveInvoiceToken(schedule.token.address);
+  if (!token) throw new Error(`Template ${schedule.id} token ${schedule.token.symbol} is no longer supported`);
+  const dueDate = schedule.dueInDays === null ? null : new Date(now.getTime() + schedule.dueInDays * 86_400_000).toISOString();
+  const { invoice } = await issueInvoice({
+    creator: schedule.creator, recipient: schedule.recipient, token, amount: schedule.amount,
+    memo: schedule.memo, reference: schedule.reference ? `${schedule.reference}-${issuedCount}` : null,
+    dueDate, scheduleId: schedule.id, reminders: schedule.reminders, webhookId: schedule.webhookId,
+  }, now);
+
+  await invoiceScheduleDb.update(schedule.id, {
+    issuedCount, lastInvoiceId: invoice.id, ...(exhausted ? { status: "completed" } : {}),
+  });
+  console.log(`[invoice] Template ${schedule.id} issued ${invoice.id} (#${issuedCount})`);
+  return invoice.id;
+}
+
+// ---------------------------------------------------------------------------
+// Background loop
+// ---------------------------------------------------------------------------
+
+export interface InvoiceSchedulerConfig {
+  pollIntervalMs: number;
+  /** Max templates issued and reminders sent per tick */
+  batchSize: number;
+}
+
+export interface InvoiceSchedulerHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the scheduler is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startInvoiceScheduler(
+  service: WebhookService | null,
+  config?: Partial<InvoiceSchedulerConfig>
+): InvoiceSchedulerHandle {
+  const mergedConfig: InvoiceSchedulerConfig = { pollIntervalMs: 60_000, batchSize: 25, ...config };
+  webhookService = service;
+  let running = true;
+  let processing = false;
+
+  console.log(`[invoice] 📅 Scheduler started (poll: ${mergedConfig.pollIntervalMs}ms, batch: ${mergedConfig.batchSize})`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const now = new Date();
+      await sweepOverdue(now);
+
+      const due = await invoiceScheduleDb.listDue(now.toISOString(), mergedConfig.batchSize);
+      for (const schedule of due) {
+        try {
+          await issueScheduledInvoice(schedule, now);
+        } catch (err) {
+          console.error(`[invoice] Template ${schedule.id} issuance failed:`, err);
+        }
+      }
+
+      const reminders = await invoiceDb.listReminderDue(now.toISOString(), mergedConfig.batchSize);
+      for (const invoice of reminders) {
+        try {
+          const outcome = await remindInvoice(invoice, "schedule", null, now);
+          // Blocked reminders (limit reached, spacing) must not stay due forever
+          if (outcome.skipped) {
+            const next = nextReminderAt(invoice, invoice.reminders, invoice.reminderHistory);
+            await invoiceDb.update(invoice.id, { nextReminderAt: next && next > now ? next.toISOString() : null });
+          }
+        } catch (err) {
+          console.error(`[invoice] Reminder for ${invoice.id} failed:`, err);
+        }
+      }
+    } catch (err) {
+      console.error("[invoice] Scheduler tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[invoice] Scheduler stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
@@ -0,0 +1,59 @@
+// ============================================
+// src/services/payment-challenges.ts
+// Payment Challenge Purger — drops expired Solana references and L402 tokens
+// ============================================
+// A Solana reference or an L402 token is stored when a client asks for
+// that rail (X-Payment-Rail) and is useless once it expires, paid or not.
+// Each tick removes the expired ones so the tables only hold challenges
+// that can still be paid or redeemed.
+
+import { purgeExpiredChallenges } from "../solana/paymentBinding.js";
+import { purgeExpiredL402Tokens } from "../lightning/l402.js";
+
+export interface ChallengePurgerConfig {
+  pollIntervalMs: number;
+}
+
+export interface ChallengePurgerHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the purger is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startChallengePurger(config?: Partial<ChallengePurgerConfig>): ChallengePurgerHandle {
+  const mergedConfig: ChallengePurgerConfig = { pollIntervalMs: 600_000, ...config };
+  let running = true;
+  let processing = false;
+
+  console.log(`[payments] 🧹 Challenge purger started (poll: ${mergedConfig.pollIntervalMs}ms)`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const references = await purgeExpiredChallenges();
+      const tokens = await purgeExpiredL402Tokens();
+      if (references + tokens > 0) {
+        console.log(`[payments] 🧹 Purged ${references} expired Solana payment reference(s) and ${tokens} L402 token(s)`);
+      }
+    } catch (err) {
+      console.error("[payments] Challenge purger tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[payments] Challenge purger stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
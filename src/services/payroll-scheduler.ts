@@ -0,0 +1,145 @@
+// ============================================
+// src/services/payroll-scheduler.ts
+// Payroll Scheduler — roster runs on biweekly / monthly pay dates
+// ============================================
+// Each tick, active pay schedules whose next_run_at has passed generate a
+// run from the employer's roster (routes/payroll.ts generatePayrollRun).
+// The pay date is claimed with a compare-and-set on next_run_at, so
+// several gateway instances never generate the same run twice. A run that
+// fails to build is still recorded (as failed); if even that can't be
+// written, the claim is handed back so the next tick retries the pay date
+// instead of silently skipping it. Runs hold unsigned transactions; the
+// employer signs them from the run history or from the `batch.created`
+// follow-up webhook sent when the schedule was created with a callback_url.
+// Each run is appended to the gateway's audit trail as a payroll/run call.
+
+import { payrollScheduleDb } from "../db.js";
+import { nextIssueDate } from "../lib/invoice-recurrence.js";
+import { generatePayrollRun } from "../routes/payroll.js";
+import { auditDispatch } from "../middleware/audit-trail.js";
+import type { WebhookService } from "../webhooks/index.js";
+
+let webhookService: WebhookService | null = null;
+
+/**
+ * Claim a schedule's due pay date and generate its run. Returns the run, or
+ * null when another instance claimed the pay date first.
+ */
+export async function runScheduledPayroll(schedule: any, now: Date = new Date()) {
+  const payDate = new Date(schedule.nextRunAt);
+  let next = nextIssueDate(schedule.recurrence, payDate);
+  // Catch up without back-running pay dates missed while the gateway was down
+  while (next && next <= now) next = nextIssueDate(schedule.recurrence, next);
+  const exhausted = !next || (schedule.endDate && next > new Date(schedule.endDate));
+  const nextRunAt = exhausted ? null : next!.toISOString();
+
+  const claimed = await payrollScheduleDb.claim(schedule.id, schedule.nextRunAt, nextRunAt);
+  if (!claimed) return null;
+
+  let run;
+  try {
+    run = await generatePayrollRun({
+      employer: schedule.employer, trigger: "schedule", scheduleId: schedule.id,
+      payDate, memo: schedule.memo, chunk: schedule.chunk,
+    }, now);
+  } catch (err) {
+    // Only this instance holds the claim, so a plain update gives it back
+    await payrollScheduleDb.update(schedule.id, { nextRunAt: schedule.nextRunAt });
+    throw err;
+  }
+
+  await payrollScheduleDb.update(schedule.id, {
+    runCount: schedule.runCount + 1, lastRunId: run.id, ...(exhausted ? { status: "completed" } : {}),
+  });
+  // Recorded with the status payroll/run would answer for the same run
+  await auditDispatch(
+    "/api/v1/payroll/run",
+    { employer: schedule.employer, employees: run.employees },
+    run.status === "failed"
+      ? { status: 400, body: { error: "Payroll run failed", details: run.error, runId: run.id } }
+      : { status: 200, body: { id: run.id, transactions: run.payments.map((p: any) => p.transactions) } },
+    `payroll-schedule:${schedule.id}`,
+  );
+
+  if (webhookService && schedule.webhookId) {
+    try {
+      await webhookService.queueFollowUp({
+        originalWebhookId: schedule.webhookId,
+        eventType: "batch.created",
+        payload: {
+          type: "payroll", schedule_id: schedule.id, run_id: run.id, status: run.status, pay_date: run.payDate,
+          employee_count: run.employees.length, error: run.error,
+          totals: run.payments.map((p: any) => ({ token: p.token, total_with_fee: p.payroll.totalWithFee })),
+        },
+      });
+    } catch (err) {
+      console.error(`[payroll] Failed to queue run webhook for ${run.id}:`, err);
+    }
+  }
+
+  if (run.status === "failed") console.warn(`[payroll] Schedule ${schedule.id} run ${run.id} failed: ${run.error}`);
+  else console.log(`[payroll] Schedule ${schedule.id} generated ${run.id} (${run.employees.length} employees)`);
+  return run;
+}
+
+// ---------------------------------------------------------------------------
+// Background loop
+// ---------------------------------------------------------------------------
+
+export interface PayrollSchedulerConfig {
+  pollIntervalMs: number;
+  /** Max schedules run per tick */
+  batchSize: number;
+}
+
+export interface PayrollSchedulerHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the scheduler is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startPayrollScheduler(
+  service: WebhookService | null,
+  config?: Partial<PayrollSchedulerConfig>
+): PayrollSchedulerHandle {
+  const mergedConfig: PayrollSchedulerConfig = { pollIntervalMs: 60_000, batchSize: 25, ...config };
+  webhookService = service;
+  let running = true;
+  let processing = false;
+
+  console.log(`[payroll] 📅 Scheduler started (poll: ${mergedConfig.pollIntervalMs}ms, batch: ${mergedConfig.batchSize})`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const now = new Date();
+      const due = await payrollScheduleDb.listDue(now.toISOString(), mergedConfig.batchSize);
+      for (const schedule of due) {
+        try {
+          await runScheduledPayroll(schedule, now);
+        } catch (err) {
+          console.error(`[payroll] Schedule ${schedule.id} run failed:`, err);
+        }
+      }
+    } catch (err) {
+      console.error("[payroll] Scheduler tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[payroll] Scheduler stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
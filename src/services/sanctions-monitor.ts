@@ -0,0 +1,124 @@
+// ============================================
+// src/services/sanctions-monitor.ts
+// Sanctions Monitor — scheduled re-screening of registered addresses
+// ============================================
+// Each tick, active monitors whose next_screen_at has passed are screened
+// again (routes/kyc.ts rescreenMonitor), which records the result in the
+// address's screening history. A change from clear to match is sent as a
+// `kyc.sanctions_match` follow-up on the webhook registered with the
+// monitor and emailed to its alertEmail through the same handler the HTTP
+// API serves (notify/email).
+
+import { invokeHandler } from "../lib/invoke-handler.js";
+import { AlertDelivery, SanctionsAlerter } from "../lib/sanctions.js";
+import { rescreenMonitor } from "../routes/kyc.js";
+import { notifyEmailHandler } from "../routes/email-sms.js";
+import { sanctionsMonitorDb } from "../db.js";
+import type { WebhookService } from "../webhooks/index.js";
+
+let webhookService: WebhookService | null = null;
+
+export const deliverSanctionsAlert: SanctionsAlerter = async (monitor, alert) => {
+  const deliveries: AlertDelivery[] = [];
+  if (webhookService && monitor.webhookId) {
+    try {
+      await webhookService.queueFollowUp({
+        originalWebhookId: monitor.webhookId,
+        eventType: "kyc.sanctions_match",
+        payload: {
+          monitor_id: monitor.id, address: monitor.address, chain: monitor.chain, label: monitor.label,
+          previous_result: alert.from, result: alert.to, record_id: alert.recordId, screened_at: alert.at,
+        },
+      });
+      deliveries.push({ channel: "webhook", to: null, ok: true, error: null });
+    } catch (err: any) {
+      deliveries.push({ channel: "webhook", to: null, ok: false, error: err?.message || String(err) });
+    }
+  }
+  if (monitor.alertEmail) {
+    const subject = `Sanctions match: ${monitor.label || monitor.address}`;
+    const text = [
+      `${monitor.address} on ${monitor.chain} was clear at its last screening and now matches the OFAC SDN list`,
+      `(Chainalysis sanctions oracle, ${alert.at}).`,
+      "",
+      `Monitor: ${monitor.id}`,
+      `Screening record: ${alert.recordId}`,
+      "Stop payments to this address and review it before any further activity.",
+    ].join("\n");
+    try {
+      const result = await invokeHandler(notifyEmailHandler, {
+        path: "/api/v1/notify/email",
+        body: { to: monitor.alertEmail, subject, body: text, metadata: { monitorId: monitor.id } },
+      });
+      const error = result.status >= 400 ? String(result.body?.error || `HTTP ${result.status}`) : null;
+      deliveries.push({ channel: "email", to: monitor.alertEmail, ok: !error, error });
+    } catch (err: any) {
+      deliveries.push({ channel: "email", to: monitor.alertEmail, ok: false, error: err?.message || String(err) });
+    }
+  }
+  return deliveries;
+};
+
+// ---------------------------------------------------------------------------
+// Background loop
+// ---------------------------------------------------------------------------
+
+export interface SanctionsMonitorConfig {
+  pollIntervalMs: number;
+  /** Max monitors re-screened per tick */
+  batchSize: number;
+}
+
+export interface SanctionsMonitorHandle {
+  /** Stops the polling loop. Safe to call multiple times. */
+  stop: () => void;
+  /** Whether the monitor is currently running. */
+  isRunning: () => boolean;
+}
+
+export function startSanctionsMonitor(
+  service: WebhookService | null,
+  config?: Partial<SanctionsMonitorConfig>
+): SanctionsMonitorHandle {
+  const mergedConfig: SanctionsMonitorConfig = { pollIntervalMs: 60_000, batchSize: 25, ...config };
+  webhookService = service;
+  let running = true;
+  let processing = false;
+
+  console.log(`[kyc] 🛡️ Sanctions monitor started (poll: ${mergedConfig.pollIntervalMs}ms, batch: ${mergedConfig.batchSize})`);
+
+  const intervalId = setInterval(async () => {
+    // Skip if previous tick is still running (prevents overlap)
+    if (processing) return;
+    processing = true;
+
+    try {
+      const now = new Date();
+      const due = await sanctionsMonitorDb.listDue(now.toISOString(), mergedConfig.batchSize);
+      for (const monitor of due) {
+        try {
+          const outcome = await rescreenMonitor(monitor, { alert: deliverSanctionsAlert }, now);
+          if (outcome?.alert) console.warn(`[kyc] 🚨 ${monitor.address} (${monitor.id}) now matches the sanctions list`);
+          if (outcome?.error) console.error(`[kyc] Re-screen of ${monitor.id} failed: ${outcome.error}`);
+        } catch (err) {
+          console.error(`[kyc] Re-screen of ${monitor.id} failed:`, err);
+        }
+      }
+    } catch (err) {
+      console.error("[kyc] Sanctions monitor tick error:", err);
+    } finally {
+      processing = false;
+    }
+  }, mergedConfig.pollIntervalMs);
+
+  return {
+    stop: () => {
+      if (running) {
+        clearInterval(intervalId);
+        running = false;
+        console.log("[kyc] Sanctions monitor stopped");
+      }
+    },
+    isRunning: () => running,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * 💧 Spraay x402 Gateway — Solana Payment Binding
+ * src/solana/paymentBinding.ts
+ *
+ * Ties an X-SOLANA-TX payment to one request. A client that is about to
+ * pay on Solana asks for a challenge by sending `X-Payment-Rail: solana`;
+ * its 402 then carries a reference key, bound to that endpoint and its
+ * price for SOLANA_CHALLENGE_TTL_SECONDS. Other 402s only advertise the
+ * rail, so probes don't leave challenges behind, and expired ones are
+ * purged in the background (src/services/payment-challenges.ts). The payer
+ * puts the key in the USDC transfer — as a read-only Solana Pay reference
+ * account, or as the text of a Memo instruction — and retries with
+ *
+ *   X-Solana-Tx: <signature>
+ *   X-Solana-Reference: <reference>
+ *
+ * SOLANA_PAYMENT_BINDING:
+ *   optional (default)  challenges are issued on request; a payment that
+ *                       names one is held to it, an unbound payment is
+ *                       still accepted
+ *   required            every Solana payment must name an open challenge
+ *   off                 no challenges
+ *
+ * Bound or not, each signature unlocks one call (solanaSpentSignatureDb).
+ */
+
+import { Keypair } from "@solana/web3.js";
+import { solanaChallengeDb } from "../db.js";
+
+export type SolanaBindingMode = "off" | "optional" | "required";
+
+export function bindingMode(value: string | undefined = process.env.SOLANA_PAYMENT_BINDING): SolanaBindingMode {
+  return value === "off" || value === "required" ? value : "optional";
+}
+
+const CHALLENGE_TTL_SECONDS = parseInt(process.env.SOLANA_CHALLENGE_TTL_SECONDS || "600", 10);
+
+export interface SolanaChallenge {
+  reference: string;
+  method: string;
+  path: string;
+  amount: number;
+  expiresAt: string;
+}
+
+/** Issue a challenge for one call to `method path` at `amount` USDC. */
+export async function issueChallenge(
+  request: { method: string; path: string; amount: number },
+  now: Date = new Date()
+): Promise<SolanaChallenge> {
+  const challenge: SolanaChallenge = {
+    // A fresh, unowned public key — the Solana Pay reference convention
+    reference: Keypair.generate().publicKey.toBase58(),
+    method: request.method,
+    path: request.path,
+    amount: request.amount,
+    expiresAt: new Date(now.getTime() + CHALLENGE_TTL_SECONDS * 1000).toISOString(),
+  };
+  await solanaChallengeDb.create({ ...challenge, createdAt: now.toISOString() });
+  return challenge;
+}
+
+/**
+ * Look up the challenge a payment names and check it can pay for this
+ * request. Returns it, or why it can't be used.
+ */
+export async function openChallenge(
+  reference: string,
+  request: { method: string; path: string },
+  now: Date = new Date()
+): Promise<{ challenge: SolanaChallenge | null; error: string | null }> {
+  const challenge = await solanaChallengeDb.get(reference);
+  if (!challenge) return { challenge: null, error: "Unknown payment reference" };
+  if (challenge.status !== "open") return { challenge: null, error: "Payment reference already used" };
+  if (new Date(challenge.expiresAt).getTime() <= now.getTime()) return { challenge: null, error: "Payment reference expired" };
+  if (challenge.method !== request.method || challenge.path !== request.path) {
+    return { challenge: null, error: `Payment reference was issued for ${challenge.method} ${challenge.path}` };
+  }
+  return { challenge, error: null };
+}
+
+/** Remove challenges past their expiry; returns how many went. */
+export async function purgeExpiredChallenges(now: Date = new Date()): Promise<number> {
+  return solanaChallengeDb.purgeExpired(now.toISOString());
+}
+
+/** Whether a verified transaction carries `reference` as an account key or memo. */
+export function carriesReference(tx: { accountKeys?: string[]; memos?: string[] }, reference: string): boolean {
+  if (tx.accountKeys?.includes(reference)) return true;
+  return (tx.memos || []).some((memo) => memo.trim().split(/\s+/).includes(reference));
+}
@@ -24,6 +24,10 @@ export interface SolanaVerifyResult {
   sender: string | null;
   slot: number | null;
   blockTime: number | null;
+  /** Every account key in the transaction — Solana Pay reference accounts show up here */
+  accountKeys?: string[];
+  /** Text of any SPL Memo instructions */
+  memos?: string[];
   error?: string;
 }
 
@@ -140,6 +144,8 @@ export class SolanaVerifier {
         sender: transfer.sender,
         slot: tx.slot ?? null,
         blockTime: tx.blockTime ?? null,
+        accountKeys: this.accountKeys(tx),
+        memos: this.extractMemos(tx),
       };
     } catch (err: any) {
       return {
@@ -192,13 +198,23 @@ export class SolanaVerifier {
     return null;
   }
 
+  private accountKeys(tx: ParsedTransactionWithMeta): string[] {
+    return tx.transaction.message.accountKeys.map((k) =>
+      typeof k === "string" ? k : k.pubkey.toBase58()
+    );
+  }
+
+  private extractMemos(tx: ParsedTransactionWithMeta): string[] {
+    return tx.transaction.message.instructions
+      .filter((ix) => "parsed" in ix && (ix as any).program === "spl-memo")
+      .map((ix) => String((ix as any).parsed));
+  }
+
   private isOurTokenAccount(
     tx: ParsedTransactionWithMeta,
     tokenAccountAddress: string
   ): boolean {
-    const accountKeys = tx.transaction.message.accountKeys.map((k) =>
-      typeof k === "string" ? k : k.pubkey.toBase58()
-    );
+    const accountKeys = this.accountKeys(tx);
     const tokenAccountIndex = accountKeys.indexOf(tokenAccountAddress);
 
     if (tokenAccountIndex === -1) return false;
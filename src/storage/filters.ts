@@ -0,0 +1,18 @@
+/**
+ * Filter builders — keep call sites close to the PostgREST chain they replace:
+ *   supabase.from("escrows").select("*").eq("status", "funded")
+ *   storage.findMany("escrows", { where: [eq("status", "funded")] })
+ */
+
+import { Filter } from "./types.js";
+
+export const eq = (column: string, value: unknown): Filter => ({ op: "eq", column, value });
+export const neq = (column: string, value: unknown): Filter => ({ op: "neq", column, value });
+export const gt = (column: string, value: unknown): Filter => ({ op: "gt", column, value });
+export const gte = (column: string, value: unknown): Filter => ({ op: "gte", column, value });
+export const lt = (column: string, value: unknown): Filter => ({ op: "lt", column, value });
+export const lte = (column: string, value: unknown): Filter => ({ op: "lte", column, value });
+export const ilike = (column: string, value: string): Filter => ({ op: "ilike", column, value });
+export const inList = (column: string, value: unknown[]): Filter => ({ op: "in", column, value });
+export const contains = (column: string, value: unknown[]): Filter => ({ op: "contains", column, value });
+export const anyOf = (...filters: Filter[]): Filter => ({ op: "or", filters });
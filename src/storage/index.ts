@@ -0,0 +1,45 @@
+/**
+ * Spraay Storage — backend selection
+ *
+ *   STORAGE_BACKEND=supabase  — SUPABASE_URL + SUPABASE_SERVICE_KEY (or SUPABASE_KEY) required
+ *   STORAGE_BACKEND=memory    — in-process tables; set STORAGE_FILE to persist them as JSON
+ *
+ * When STORAGE_BACKEND is unset, Supabase is used if its credentials are
+ * present and memory otherwise, so the gateway boots offline.
+ *
+ * Usage:
+ *   import { storage, eq } from "../storage/index.js";
+ *   const row = await storage.findOne("escrows", [eq("id", id)]);
+ */
+
+import { MemoryStorage } from "./memory.js";
+import { SupabaseStorage } from "./supabase.js";
+import { StorageAdapter, StorageBackend } from "./types.js";
+
+export { MemoryStorage } from "./memory.js";
+export { SupabaseStorage } from "./supabase.js";
+export { eq, neq, gt, gte, lt, lte, ilike, inList, contains, anyOf } from "./filters.js";
+export type { Filter, Row, SelectOptions, StorageAdapter, StorageBackend } from "./types.js";
+
+export function createStorage(env: NodeJS.ProcessEnv = process.env): StorageAdapter {
+  const url = env.SUPABASE_URL;
+  const key = env.SUPABASE_SERVICE_KEY || env.SUPABASE_KEY;
+  const backend = (env.STORAGE_BACKEND || (url && key ? "supabase" : "memory")) as StorageBackend;
+
+  switch (backend) {
+    case "supabase":
+      if (!url || !key) {
+        throw new Error("STORAGE_BACKEND=supabase requires SUPABASE_URL and SUPABASE_KEY (or SUPABASE_SERVICE_KEY)");
+      }
+      return new SupabaseStorage(url, key);
+    case "memory":
+      if (!env.STORAGE_BACKEND) {
+        console.warn("[storage] SUPABASE_URL/SUPABASE_KEY missing — using in-memory storage (data is not shared across instances)");
+      }
+      return new MemoryStorage({ file: env.STORAGE_FILE });
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" — expected "supabase" or "memory"`);
+  }
+}
+
+export const storage: StorageAdapter = createStorage();
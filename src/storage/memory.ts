@@ -0,0 +1,191 @@
+/**
+ * In-process adapter — every table is an array of plain rows.
+ *
+ * Used when Supabase isn't configured (local dev, tests, self-hosting).
+ * Pass `file` to snapshot all tables to a JSON file after each write and
+ * reload them on startup; without it, data lives only as long as the process.
+ *
+ * Mirrors the Postgres defaults the Supabase schema relies on: rows get a
+ * UUID `id` and a `created_at` timestamp when the caller omits them, and
+ * the unique indexes below reject duplicate inserts and updates.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import { Filter, Row, SelectOptions, StorageAdapter } from "./types.js";
+
+const FLUSH_DELAY_MS = 250;
+
+// Unique indexes besides the `id` primary key; like Postgres, rows with a
+// null in any indexed column never collide
+const UNIQUE_INDEXES: Record<string, string[][]> = {
+  audit_log: [["tenant", "seq"]],
+  escrows: [["funding_tx_hash"]],
+};
+
+export class MemoryStorage implements StorageAdapter {
+  readonly kind = "memory" as const;
+  private tables = new Map<string, Row[]>();
+  private file?: string;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: { file?: string } = {}) {
+    this.file = options.file;
+    if (this.file && fs.existsSync(this.file)) {
+      const snapshot = JSON.parse(fs.readFileSync(this.file, "utf8")) as Record<string, Row[]>;
+      for (const [table, rows] of Object.entries(snapshot)) this.tables.set(table, rows);
+    }
+  }
+
+  async insert<T extends Row = Row>(table: string, row: Row): Promise<T> {
+    const [inserted] = await this.insertMany<T>(table, [row]);
+    return inserted;
+  }
+
+  async insertMany<T extends Row = Row>(table: string, rows: Row[]): Promise<T[]> {
+    const target = this.rows(table);
+    const now = new Date().toISOString();
+    const stored: Row[] = rows.map((row) => ({ id: crypto.randomUUID(), created_at: now, ...clone(row) }));
+    for (const row of stored) {
+      if (target.some((existing) => existing.id === row.id)) {
+        throw new Error(`DB insert ${table}: duplicate key value violates unique constraint on id (${row.id})`);
+      }
+      for (const columns of UNIQUE_INDEXES[table] ?? []) {
+        if (columns.some((c) => row[c] == null)) continue;
+        if (target.some((existing) => columns.every((c) => existing[c] === row[c]))) {
+          throw new Error(`DB insert ${table}: duplicate key value violates unique constraint on (${columns.join(", ")})`);
+        }
+      }
+    }
+    target.push(...stored);
+    this.scheduleFlush();
+    return stored.map(clone) as T[];
+  }
+
+  async upsert(table: string, rows: Row | Row[], onConflict: string): Promise<void> {
+    const target = this.rows(table);
+    const keys = onConflict.split(",").map((k) => k.trim());
+    for (const row of Array.isArray(rows) ? rows : [rows]) {
+      const idx = target.findIndex((existing) => keys.every((k) => existing[k] === row[k]));
+      if (idx >= 0) target[idx] = { ...target[idx], ...clone(row) };
+      else target.push({ id: crypto.randomUUID(), created_at: new Date().toISOString(), ...clone(row) });
+    }
+    this.scheduleFlush();
+  }
+
+  async findOne<T extends Row = Row>(table: string, where: Filter[]): Promise<T | null> {
+    const row = this.rows(table).find((r) => matchesAll(r, where));
+    return row ? (clone(row) as T) : null;
+  }
+
+  async findMany<T extends Row = Row>(table: string, options: SelectOptions = {}): Promise<T[]> {
+    let rows = this.rows(table).filter((r) => matchesAll(r, options.where));
+    if (options.orderBy) {
+      const { column, ascending = true } = options.orderBy;
+      rows = [...rows].sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1));
+    }
+    const offset = options.offset ?? 0;
+    rows = rows.slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+    return rows.map(clone) as T[];
+  }
+
+  async count(table: string, where?: Filter[]): Promise<number> {
+    return this.rows(table).filter((r) => matchesAll(r, where)).length;
+  }
+
+  async update<T extends Row = Row>(table: string, where: Filter[], patch: Row): Promise<T[]> {
+    const rows = this.rows(table);
+    const matched = rows.filter((r) => matchesAll(r, where));
+    const patched = matched.map((row) => ({ ...row, ...clone(patch) }));
+    const others = rows.filter((r) => !matched.includes(r));
+    for (const columns of UNIQUE_INDEXES[table] ?? []) {
+      if (!columns.some((c) => c in patch)) continue;
+      const seen = [...others];
+      for (const row of patched) {
+        if (columns.some((c) => row[c] == null)) continue;
+        if (seen.some((existing) => columns.every((c) => existing[c] === row[c]))) {
+          throw new Error(`DB update ${table}: duplicate key value violates unique constraint on (${columns.join(", ")})`);
+        }
+        seen.push(row);
+      }
+    }
+    const updated: Row[] = [];
+    for (const row of matched) {
+      Object.assign(row, clone(patch));
+      updated.push(clone(row));
+    }
+    if (updated.length) this.scheduleFlush();
+    return updated as T[];
+  }
+
+  async remove<T extends Row = Row>(table: string, where: Filter[]): Promise<T[]> {
+    const rows = this.rows(table);
+    const kept = rows.filter((r) => !matchesAll(r, where));
+    const removed = rows.filter((r) => matchesAll(r, where));
+    this.tables.set(table, kept);
+    if (removed.length) this.scheduleFlush();
+    return removed as T[];
+  }
+
+  private rows(table: string): Row[] {
+    let rows = this.tables.get(table);
+    if (!rows) {
+      rows = [];
+      this.tables.set(table, rows);
+    }
+    return rows;
+  }
+
+  private scheduleFlush(): void {
+    if (!this.file || this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      fs.writeFileSync(this.file!, JSON.stringify(Object.fromEntries(this.tables)));
+    }, FLUSH_DELAY_MS);
+    this.flushTimer.unref();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Filter evaluation — same semantics as the PostgREST operators
+// ---------------------------------------------------------------------------
+
+function matchesAll(row: Row, where: Filter[] = []): boolean {
+  return where.every((f) => matches(row, f));
+}
+
+function matches(row: Row, f: Filter): boolean {
+  if (f.op === "or") return f.filters.some((inner) => matches(row, inner));
+  const actual = row[f.column];
+  switch (f.op) {
+    case "eq":       return actual === f.value;
+    case "neq":      return actual !== f.value;
+    case "gt":       return actual != null && compare(actual, f.value) > 0;
+    case "gte":      return actual != null && compare(actual, f.value) >= 0;
+    case "lt":       return actual != null && compare(actual, f.value) < 0;
+    case "lte":      return actual != null && compare(actual, f.value) <= 0;
+    case "in":       return f.value.includes(actual);
+    case "contains": return Array.isArray(actual) && f.value.every((v) => actual.includes(v));
+    case "ilike":    return typeof actual === "string" && likeToRegExp(f.value).test(actual);
+  }
+}
+
+/** Numeric strings compare as numbers (Postgres `numeric` columns), everything else lexically. */
+function compare(a: unknown, b: unknown): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1; // nulls last, like Postgres ASC
+  if (b == null) return -1;
+  const na = Number(a);
+  const nb = Number(b);
+  if (a !== "" && b !== "" && !isNaN(na) && !isNaN(nb)) return na - nb;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/%/g, ".*").replace(/_/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,103 @@
+/**
+ * Supabase adapter — translates the storage contract into PostgREST
+ * query-builder chains. Error messages keep the `DB <op> <table>: …` shape
+ * the stores in db.ts have always thrown.
+ */
+
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { Filter, Row, SelectOptions, StorageAdapter } from "./types.js";
+
+export class SupabaseStorage implements StorageAdapter {
+  readonly kind = "supabase" as const;
+  readonly client: SupabaseClient;
+
+  constructor(url: string, key: string) {
+    this.client = createClient(url, key);
+  }
+
+  async insert<T extends Row = Row>(table: string, row: Row): Promise<T> {
+    const { data, error } = await (this.client.from(table) as any).insert(row).select().single();
+    if (error) throw new Error(`DB insert ${table}: ${error.message}`);
+    return data as T;
+  }
+
+  async insertMany<T extends Row = Row>(table: string, rows: Row[]): Promise<T[]> {
+    if (rows.length === 0) return [];
+    const { data, error } = await (this.client.from(table) as any).insert(rows).select();
+    if (error) throw new Error(`DB insert ${table}: ${error.message}`);
+    return (data || []) as T[];
+  }
+
+  async upsert(table: string, rows: Row | Row[], onConflict: string): Promise<void> {
+    const { error } = await (this.client.from(table) as any).upsert(rows, { onConflict });
+    if (error) throw new Error(`DB upsert ${table}: ${error.message}`);
+  }
+
+  async findOne<T extends Row = Row>(table: string, where: Filter[]): Promise<T | null> {
+    const query = applyFilters(this.client.from(table).select("*"), where);
+    const { data, error } = await query.limit(1).maybeSingle();
+    if (error) throw new Error(`DB get ${table}: ${error.message}`);
+    return (data as T) ?? null;
+  }
+
+  async findMany<T extends Row = Row>(table: string, options: SelectOptions = {}): Promise<T[]> {
+    let query = applyFilters(this.client.from(table).select("*"), options.where);
+    if (options.orderBy) {
+      query = query.order(options.orderBy.column, { ascending: options.orderBy.ascending ?? true });
+    }
+    if (options.limit !== undefined) {
+      const from = options.offset ?? 0;
+      query = query.range(from, from + options.limit - 1);
+    }
+    const { data, error } = await query;
+    if (error) throw new Error(`DB list ${table}: ${error.message}`);
+    return (data || []) as T[];
+  }
+
+  async count(table: string, where?: Filter[]): Promise<number> {
+    const query = applyFilters(this.client.from(table).select("*", { count: "exact", head: true }), where);
+    const { count, error } = await query;
+    if (error) throw new Error(`DB count ${table}: ${error.message}`);
+    return count ?? 0;
+  }
+
+  async update<T extends Row = Row>(table: string, where: Filter[], patch: Row): Promise<T[]> {
+    const query = applyFilters((this.client.from(table) as any).update(patch), where);
+    const { data, error } = await query.select();
+    if (error) throw new Error(`DB update ${table}: ${error.message}`);
+    return (data || []) as T[];
+  }
+
+  async remove<T extends Row = Row>(table: string, where: Filter[]): Promise<T[]> {
+    const query = applyFilters(this.client.from(table).delete(), where);
+    const { data, error } = await query.select();
+    if (error) throw new Error(`DB delete ${table}: ${error.message}`);
+    return (data || []) as T[];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Filter translation
+// ---------------------------------------------------------------------------
+
+function applyFilters(query: any, where: Filter[] = []): any {
+  for (const f of where) {
+    switch (f.op) {
+      case "or":       query = query.or(f.filters.map(toOrClause).join(",")); break;
+      case "in":       query = query.in(f.column, f.value); break;
+      case "contains": query = query.contains(f.column, f.value); break;
+      default:         query = query[f.op](f.column, f.value);
+    }
+  }
+  return query;
+}
+
+/** PostgREST `or=(...)` clause syntax: `column.operator.value`. */
+function toOrClause(f: Filter): string {
+  switch (f.op) {
+    case "or":       return `or(${f.filters.map(toOrClause).join(",")})`;
+    case "in":       return `${f.column}.in.(${f.value.join(",")})`;
+    case "contains": return `${f.column}.cs.{${f.value.join(",")}}`;
+    default:         return `${f.column}.${f.op}.${f.value}`;
+  }
+}
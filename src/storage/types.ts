@@ -0,0 +1,56 @@
+/**
+ * Spraay Storage Types
+ *
+ * A deliberately small table API that every gateway store is written
+ * against. Adapters (Supabase, in-process memory) implement it so the
+ * gateway can run against Supabase in production and fully offline in
+ * tests or self-hosted setups.
+ */
+
+export type Row = Record<string, any>;
+
+// ---------------------------------------------------------------------------
+// Filters — a subset of PostgREST operators both adapters can honour
+// ---------------------------------------------------------------------------
+export type Filter =
+  | { op: "eq" | "neq" | "gt" | "gte" | "lt" | "lte"; column: string; value: unknown }
+  /** SQL LIKE pattern (`%` / `_` wildcards), case-insensitive */
+  | { op: "ilike"; column: string; value: string }
+  | { op: "in"; column: string; value: unknown[] }
+  /** Array column contains every listed value */
+  | { op: "contains"; column: string; value: unknown[] }
+  /** Matches when ANY of the nested filters match */
+  | { op: "or"; filters: Filter[] };
+
+export interface SelectOptions {
+  where?: Filter[];
+  orderBy?: { column: string; ascending?: boolean };
+  limit?: number;
+  offset?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Adapter contract
+// ---------------------------------------------------------------------------
+export interface StorageAdapter {
+  readonly kind: StorageBackend;
+
+  /** Insert one row and return it as stored (with defaults such as `id` filled in). */
+  insert<T extends Row = Row>(table: string, row: Row): Promise<T>;
+  /** Insert several rows in one call; returns them in input order. */
+  insertMany<T extends Row = Row>(table: string, rows: Row[]): Promise<T[]>;
+  /** Insert or replace rows that collide on the comma-separated `onConflict` columns. */
+  upsert(table: string, rows: Row | Row[], onConflict: string): Promise<void>;
+
+  /** First matching row, or null when nothing matches. */
+  findOne<T extends Row = Row>(table: string, where: Filter[]): Promise<T | null>;
+  findMany<T extends Row = Row>(table: string, options?: SelectOptions): Promise<T[]>;
+  count(table: string, where?: Filter[]): Promise<number>;
+
+  /** Patch every matching row; returns the updated rows (empty when none matched). */
+  update<T extends Row = Row>(table: string, where: Filter[], patch: Row): Promise<T[]>;
+  /** Delete every matching row; returns the deleted rows. */
+  remove<T extends Row = Row>(table: string, where: Filter[]): Promise<T[]>;
+}
+
+export type StorageBackend = "supabase" | "memory";
@@ -2,15 +2,13 @@
  * 💧 Spraay Webhook Service
  *
  * Core logic for queueing, dispatching, and retrying webhook events.
- * Sits on top of Supabase — uses the existing client from your gateway.
- *
- * INTEGRATION NOTE:
- * Replace the supabase import below with your actual Supabase client path.
- * e.g. import { supabase } from '../lib/supabase';
+ * Sits on the gateway's storage adapter (src/storage), so webhooks work on
+ * Supabase and on the in-memory backend alike.
  */
 
-import { SupabaseClient } from '@supabase/supabase-js';
+import { StorageAdapter, eq, inList, lte } from '../storage/index.js';
 import { generateWebhookSecret, signPayload } from './signing';
+import { ChunkOutcome, chunkedBatchEvent } from '../lib/batch-chunking';
 import {
   WebhookEvent,
   WebhookEventType,
@@ -25,11 +23,11 @@ import {
 // Service class
 // ---------------------------------------------------------------------------
 export class WebhookService {
-  private supabase: SupabaseClient;
+  private storage: StorageAdapter;
   private config: WebhookWorkerConfig;
 
-  constructor(supabase: SupabaseClient, config?: Partial<WebhookWorkerConfig>) {
-    this.supabase = supabase;
+  constructor(storage: StorageAdapter, config?: Partial<WebhookWorkerConfig>) {
+    this.storage = storage;
     this.config = { ...DEFAULT_WORKER_CONFIG, ...config };
   }
 
@@ -68,9 +66,9 @@ export class WebhookService {
   }): Promise<WebhookRegistrationResponse> {
     const secret = generateWebhookSecret();
 
-    const { data, error } = await this.supabase
-      .from('webhook_events')
-      .insert({
+    let data: { id: string };
+    try {
+      data = await this.storage.insert('webhook_events', {
         event_type: params.eventType,
         callback_url: params.callbackUrl,
         payload: params.payload,
@@ -79,14 +77,12 @@ export class WebhookService {
         request_id: params.requestId ?? null,
         batch_id: params.batchId ?? null,
         max_attempts: params.maxAttempts ?? 3,
+        attempts: 0,
         status: 'pending',
         next_retry_at: new Date().toISOString(),
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to queue webhook: ${error.message}`);
+      });
+    } catch (err) {
+      throw new Error(`Failed to queue webhook: ${err instanceof Error ? err.message : String(err)}`);
     }
 
     return {
@@ -107,19 +103,15 @@ export class WebhookService {
     payload: Record<string, unknown>;
   }): Promise<string> {
     // Look up original to inherit callback_url and secret
-    const { data: original, error: fetchError } = await this.supabase
-      .from('webhook_events')
-      .select('callback_url, hmac_secret, request_id, batch_id, source_endpoint')
-      .eq('id', params.originalWebhookId)
-      .single();
+    const original = await this.storage.findOne('webhook_events', [eq('id', params.originalWebhookId)]);
 
-    if (fetchError || !original) {
+    if (!original) {
       throw new Error(`Original webhook ${params.originalWebhookId} not found`);
     }
 
-    const { data, error } = await this.supabase
-      .from('webhook_events')
-      .insert({
+    let data: { id: string };
+    try {
+      data = await this.storage.insert('webhook_events', {
         event_type: params.eventType,
         callback_url: original.callback_url,
         hmac_secret: original.hmac_secret,
@@ -127,19 +119,81 @@ export class WebhookService {
         source_endpoint: original.source_endpoint,
         request_id: original.request_id,
         batch_id: original.batch_id,
+        attempts: 0,
         status: 'pending',
         next_retry_at: new Date().toISOString(),
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to queue follow-up webhook: ${error.message}`);
+      });
+    } catch (err) {
+      throw new Error(`Failed to queue follow-up webhook: ${err instanceof Error ? err.message : String(err)}`);
     }
 
     return data.id;
   }
 
+  /**
+   * Report the outcome of a chunked batch (see src/lib/batch-chunking.ts).
+   * Finds the registration queued under the parent batch ID and, once every
+   * chunk has resolved, queues batch.settled, batch.partial_failure or
+   * batch.failed with the per-chunk results. Returns the new event ID, or
+   * null if chunks are still pending or nobody registered a callback.
+   */
+  async reportChunkedBatch(
+    parentBatchId: string,
+    outcomes: ChunkOutcome[],
+    payload: Record<string, unknown> = {}
+  ): Promise<string | null> {
+    const eventType = chunkedBatchEvent(outcomes);
+    if (!eventType) return null;
+
+    const originalId = await this.findBatchRegistration(parentBatchId);
+    if (!originalId) return null;
+
+    const failed = outcomes.filter((o) => o.status === 'failed');
+    return this.queueFollowUp({
+      originalWebhookId: originalId,
+      eventType,
+      payload: {
+        ...payload,
+        batch_id: parentBatchId,
+        chunk_count: outcomes.length,
+        confirmed_chunks: outcomes.length - failed.length,
+        failed_chunks: failed.map((o) => o.index),
+        chunks: outcomes.map((o) => ({
+          index: o.index,
+          status: o.status,
+          tx_hash: o.txHash ?? null,
+          error: o.error ?? null,
+        })),
+      },
+    });
+  }
+
+  /**
+   * Queue a batch lifecycle event (batch.confirmed, batch.settled, ...) for
+   * the registration made when the batch was created. Returns the new event
+   * ID, or null if nobody registered a callback for this batch.
+   */
+  async reportBatchEvent(
+    batchId: string,
+    eventType: WebhookEventType,
+    payload: Record<string, unknown>
+  ): Promise<string | null> {
+    const originalId = await this.findBatchRegistration(batchId);
+    if (!originalId) return null;
+    return this.queueFollowUp({ originalWebhookId: originalId, eventType, payload });
+  }
+
+  /** The first batch.created event queued under a batch ID. */
+  private async findBatchRegistration(batchId: string): Promise<string | null> {
+    const [original] = await this.storage.findMany('webhook_events', {
+      where: [eq('batch_id', batchId), eq('event_type', 'batch.created')],
+      orderBy: { column: 'created_at', ascending: true },
+      limit: 1,
+    });
+
+    return original?.id ?? null;
+  }
+
   // -------------------------------------------------------------------------
   // 2. DISPATCH — called by the background worker
   // -------------------------------------------------------------------------
@@ -148,20 +202,16 @@ export class WebhookService {
    * Fetch pending events that are due for dispatch.
    */
   async fetchPendingEvents(): Promise<WebhookEvent[]> {
-    const { data, error } = await this.supabase
-      .from('webhook_events')
-      .select('*')
-      .in('status', ['pending', 'failed'])
-      .lte('next_retry_at', new Date().toISOString())
-      .order('next_retry_at', { ascending: true })
-      .limit(this.config.batchSize);
-
-    if (error) {
-      console.error('[webhooks] Failed to fetch pending events:', error.message);
+    try {
+      return await this.storage.findMany<WebhookEvent>('webhook_events', {
+        where: [inList('status', ['pending', 'failed']), lte('next_retry_at', new Date().toISOString())],
+        orderBy: { column: 'next_retry_at', ascending: true },
+        limit: this.config.batchSize,
+      });
+    } catch (err) {
+      console.error('[webhooks] Failed to fetch pending events:', err instanceof Error ? err.message : err);
       return [];
     }
-
-    return (data ?? []) as WebhookEvent[];
   }
 
   /**
@@ -209,7 +259,7 @@ export class WebhookService {
 
       if (response.ok) {
         // SUCCESS — mark as dispatched
-        await this.markDispatched(event.id);
+        await this.markDispatched(event);
         console.log(
           `[webhooks] ✅ Delivered ${event.event_type} to ${event.callback_url} (attempt ${event.attempts + 1})`
         );
@@ -234,17 +284,12 @@ export class WebhookService {
   // 3. STATE TRANSITIONS
   // -------------------------------------------------------------------------
 
-  private async markDispatched(eventId: string): Promise<void> {
-    await this.supabase
-      .from('webhook_events')
-      .update({
-        status: 'dispatched',
-        dispatched_at: new Date().toISOString(),
-      })
-      .eq('id', eventId);
-
-    // Increment attempts via raw SQL to avoid race conditions
-    await this.supabase.rpc('increment_webhook_attempts', { event_id: eventId });
+  private async markDispatched(event: WebhookEvent): Promise<void> {
+    await this.storage.update('webhook_events', [eq('id', event.id)], {
+      status: 'dispatched',
+      attempts: event.attempts + 1,
+      dispatched_at: new Date().toISOString(),
+    });
   }
 
   private async markFailed(event: WebhookEvent, errorMessage: string): Promise<void> {
@@ -258,15 +303,12 @@ export class WebhookService {
     );
     const nextRetry = new Date(Date.now() + backoffMs).toISOString();
 
-    await this.supabase
-      .from('webhook_events')
-      .update({
-        status: exhausted ? 'exhausted' : 'failed',
-        attempts: newAttempts,
-        last_error: errorMessage.slice(0, 2000),
-        next_retry_at: exhausted ? event.next_retry_at : nextRetry,
-      })
-      .eq('id', event.id);
+    await this.storage.update('webhook_events', [eq('id', event.id)], {
+      status: exhausted ? 'exhausted' : 'failed',
+      attempts: newAttempts,
+      last_error: errorMessage.slice(0, 2000),
+      next_retry_at: exhausted ? event.next_retry_at : nextRetry,
+    });
 
     if (exhausted) {
       console.warn(
@@ -284,42 +326,38 @@ export class WebhookService {
   // -------------------------------------------------------------------------
 
   async getEvent(eventId: string): Promise<WebhookEvent | null> {
-    const { data, error } = await this.supabase
-      .from('webhook_events')
-      .select('*')
-      .eq('id', eventId)
-      .single();
-
-    if (error || !data) return null;
-    return data as WebhookEvent;
+    try {
+      return await this.storage.findOne<WebhookEvent>('webhook_events', [eq('id', eventId)]);
+    } catch {
+      return null;
+    }
   }
 
   async getEventsByRequestId(requestId: string): Promise<WebhookEvent[]> {
-    const { data, error } = await this.supabase
-      .from('webhook_events')
-      .select('*')
-      .eq('request_id', requestId)
-      .order('created_at', { ascending: true });
-
-    if (error) return [];
-    return (data ?? []) as WebhookEvent[];
+    try {
+      return await this.storage.findMany<WebhookEvent>('webhook_events', {
+        where: [eq('request_id', requestId)],
+        orderBy: { column: 'created_at', ascending: true },
+      });
+    } catch {
+      return [];
+    }
   }
 
   /**
    * Manually retry an exhausted event (resets status to pending).
    */
   async retryExhausted(eventId: string): Promise<boolean> {
-    const { error } = await this.supabase
-      .from('webhook_events')
-      .update({
+    try {
+      await this.storage.update('webhook_events', [eq('id', eventId), eq('status', 'exhausted')], {
         status: 'pending',
         attempts: 0,
         last_error: null,
         next_retry_at: new Date().toISOString(),
-      })
-      .eq('id', eventId)
-      .eq('status', 'exhausted');
-
-    return !error;
+      });
+      return true;
+    } catch {
+      return false;
+    }
   }
 }
@@ -19,7 +19,13 @@ export type WebhookEventType =
   | 'escrow.funded'
   | 'escrow.released'
   | 'escrow.disputed'
+  | 'escrow.resolved'
   | 'escrow.expired'
+  | 'invoice.created'
+  | 'invoice.overdue'
+  | 'invoice.reminder'
+  | 'kyc.monitor_created'
+  | 'kyc.sanctions_match'
   | 'session.timeout'
   | 'health.degraded'
   | 'health.recovered';
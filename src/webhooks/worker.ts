@@ -6,11 +6,11 @@
  * starts a setInterval loop that won't block the event loop.
  *
  * INTEGRATION:
- * Call `startWebhookWorker(supabase)` once during server startup.
+ * Call `startWebhookWorker(storage)` once during server startup.
  * Call the returned `stop()` function during graceful shutdown.
  */
 
-import { SupabaseClient } from '@supabase/supabase-js';
+import type { StorageAdapter } from '../storage/index.js';
 import { WebhookService } from './service';
 import { WebhookWorkerConfig, DEFAULT_WORKER_CONFIG } from './types';
 
@@ -22,11 +22,11 @@ export interface WebhookWorkerHandle {
 }
 
 export function startWebhookWorker(
-  supabase: SupabaseClient,
+  storage: StorageAdapter,
   config?: Partial<WebhookWorkerConfig>
 ): WebhookWorkerHandle {
   const mergedConfig = { ...DEFAULT_WORKER_CONFIG, ...config };
-  const service = new WebhookService(supabase, mergedConfig);
+  const service = new WebhookService(storage, mergedConfig);
   let running = true;
   let processing = false;
 
@@ -0,0 +1,199 @@
+/**
+ * Tests for the hash-chained audit log (src/lib/audit-chain.ts and the
+ * append, checkpoint, verify and proof paths in src/routes/audit.ts).
+ *
+ * Runs against the in-memory storage backend with a random signing key and
+ * a recording anchor in place of Base.
+ *
+ *   npx ts-node --project test/tsconfig.json test/audit-chain.test.ts   (npm run test:audit)
+ */
+
+import assert from "node:assert";
+import { Wallet, verifyMessage } from "ethers";
+import {
+  GENESIS_HASH, canonicalJson, extendFrontier, frontierRoot, hashEntry, inclusionPath, leafHash, merkleRoot, rootFromPath,
+  verifyChain, verifyInclusionProof,
+} from "../src/lib/audit-chain.js";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import {
+  CheckpointAnchor, appendAuditEntry, auditLogHandler, auditProofHandler, auditVerifyHandler, createCheckpoint,
+} from "../src/routes/audit.js";
+import { auditChainDb, auditDb, storage } from "../src/db.js";
+import { eq } from "../src/storage/index.js";
+import { createHash } from "crypto";
+
+const ACTOR = "0x1111111111111111111111111111111111111111";
+const hash = (n: number) => createHash("sha256").update(String(n)).digest("hex");
+
+function entry(tenant: string, n: number) {
+  return { tenant, action: "payment.sent", actor: ACTOR, resource: `batch_${n}`, details: { amount: `${n} USDC` } };
+}
+
+function anchor(fail = false): CheckpointAnchor & { sent: string[] } {
+  const sent: string[] = [];
+  return {
+    chain: "base", sent,
+    async publish(statement) {
+      if (fail) throw new Error("insufficient funds for gas");
+      sent.push(statement);
+      return "0x" + "ab".repeat(32);
+    },
+  };
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("audit chain");
+
+  await test("Merkle audit paths lead back to the root for every leaf of every size", () => {
+    assert.strictEqual(canonicalJson({ b: [1, { d: 2, c: undefined, a: null }], a: "x" }), '{"a":"x","b":[1,{"a":null,"d":2}]}');
+    const [l0, l1] = [leafHash(hash(0)), leafHash(hash(1))];
+    const node = createHash("sha256").update(Buffer.from([1])).update(Buffer.from(l0, "hex")).update(Buffer.from(l1, "hex")).digest("hex");
+    assert.strictEqual(merkleRoot([hash(0), hash(1)]), node);
+
+    for (let size = 1; size <= 17; size++) {
+      const hashes = Array.from({ length: size }, (_, i) => hash(i));
+      const root = merkleRoot(hashes);
+      for (let i = 0; i < size; i++) {
+        const path = inclusionPath(hashes, i);
+        assert.strictEqual(rootFromPath(hashes[i], i, size, path), root, `size ${size}, leaf ${i}`);
+        if (size > 1) assert.notStrictEqual(rootFromPath(hash(99), i, size, path), root);
+      }
+      // Grown in two steps from a frontier, the tree has the same root
+      for (let cut = 0; cut <= size; cut++) {
+        const frontier = extendFrontier(extendFrontier([], 0, hashes.slice(0, cut)), cut, hashes.slice(cut));
+        assert.strictEqual(frontierRoot(frontier), root, `size ${size}, cut ${cut}`);
+      }
+    }
+    assert.strictEqual(rootFromPath(hash(0), 0, 4, inclusionPath([hash(0), hash(1)], 0)), null);
+    assert.throws(() => inclusionPath([hash(0)], 1), /outside a tree of 1/);
+  });
+
+  await test("concurrent appends form one contiguous chain per tenant", async () => {
+    const written = await Promise.all(Array.from({ length: 8 }, (_, i) => appendAuditEntry(entry("acme", i + 1))));
+    await appendAuditEntry(entry("globex", 1));
+    assert.deepStrictEqual(written.map((e) => e.seq).sort((a, b) => a - b), [1, 2, 3, 4, 5, 6, 7, 8]);
+
+    const chain = await auditDb.listRange("acme", 1, 8);
+    assert.strictEqual(chain[0].prevHash, GENESIS_HASH);
+    assert.strictEqual(verifyChain(chain, GENESIS_HASH, 1), null);
+    assert.deepStrictEqual((await auditDb.listRange("globex", 1, 10)).map((e) => [e.seq, e.prevHash]), [[1, GENESIS_HASH]]);
+
+    // Reordered entries break the chain where the order first differs
+    assert.deepStrictEqual(verifyChain([chain[0], chain[2], chain[1]], GENESIS_HASH, 1)?.reason, "entry #2 is missing");
+  });
+
+  await test("an entry number is stored once, and a head left behind is moved on", async () => {
+    const first = await appendAuditEntry(entry("umbrella", 1));
+    // Another instance stored #2 and stopped before moving the head
+    const fields = {
+      ...entry("umbrella", 2), seq: 2, prevHash: first.hash, id: "aud_other_instance", txHash: null, timestamp: new Date().toISOString(),
+    };
+    await auditDb.create({ ...fields, hash: hashEntry(fields) });
+    await assert.rejects(auditDb.create({ ...fields, id: "aud_duplicate", hash: hashEntry(fields) }), /unique constraint on \(tenant, seq\)/);
+    assert.strictEqual((await auditChainDb.get("umbrella"))!.headSeq, 1);
+
+    const third = await appendAuditEntry(entry("umbrella", 3));
+    assert.deepStrictEqual([third.seq, third.prevHash], [3, hashEntry(fields)]);
+    assert.strictEqual(verifyChain(await auditDb.listRange("umbrella", 1, 3), GENESIS_HASH, 1), null);
+    assert.deepStrictEqual([(await auditChainDb.get("umbrella"))!.headSeq, (await auditChainDb.get("umbrella"))!.headHash], [3, third.hash]);
+  });
+
+  await test("the log route picks the caller's chain", async () => {
+    const logged = await invokeHandler(auditLogHandler, { body: { ...entry("", 1), tenant: "initech" } });
+    assert.deepStrictEqual([logged.body.tenant, logged.body.seq, logged.body.prevHash], ["initech", 1, GENESIS_HASH]);
+
+    const keyed = await invokeHandler((req, res) => {
+      (req as any).apiKeyId = "k_42";
+      return auditLogHandler(req, res);
+    }, { body: { ...entry("", 2), tenant: "initech" } });
+    assert.deepStrictEqual([keyed.body.tenant, keyed.body.seq], ["key:k_42", 1]);
+
+    assert.strictEqual((await invokeHandler(auditLogHandler, { body: { ...entry("", 3), tenant: "key:k_42" } })).status, 400);
+    assert.strictEqual((await invokeHandler(auditLogHandler, { body: { ...entry("", 3), tenant: "has spaces" } })).status, 400);
+    assert.strictEqual((await invokeHandler(auditLogHandler, { body: { ...entry("", 3) } })).body.tenant, "public");
+  });
+
+  await test("a signed checkpoint gives offline-checkable inclusion proofs", async () => {
+    const signer = Wallet.createRandom();
+    const base = anchor();
+    const { checkpoint, error } = await createCheckpoint("acme", { signer, anchor: base }, new Date("2026-10-01T00:00:00Z"));
+    assert.strictEqual(error, null);
+    assert.deepStrictEqual([checkpoint.treeSize, checkpoint.signer, checkpoint.anchor.txHash], [8, signer.address, "0x" + "ab".repeat(32)]);
+    assert.strictEqual(verifyMessage(checkpoint.statement, checkpoint.signature), signer.address);
+    assert.deepStrictEqual(base.sent, [checkpoint.statement]);
+    assert.deepStrictEqual(await createCheckpoint("acme", { signer }), { checkpoint: null, error: null });
+
+    const [fifth] = await auditDb.listRange("acme", 5, 5);
+    const proof = await invokeHandler(auditProofHandler, { method: "GET", query: { id: fifth.id, tenant: "acme" } });
+    assert.strictEqual(proof.status, 200);
+    assert.deepStrictEqual([proof.body.leafIndex, proof.body.treeSize, proof.body.valid], [4, 8, true]);
+
+    // What an auditor holds: the JSON body, sha256 and ethers
+    const offline = JSON.parse(JSON.stringify(proof.body));
+    assert.strictEqual(verifyInclusionProof(offline, { verifyMessage, expectedSigner: signer.address }).valid, true);
+    assert.strictEqual(verifyInclusionProof(offline, { verifyMessage, expectedSigner: Wallet.createRandom().address }).valid, false);
+    offline.entry.details.amount = "5000 USDC";
+    assert.deepStrictEqual(verifyInclusionProof(offline).checks.entryHash, false);
+
+    // Another tenant can't read it, and newer entries wait for the next checkpoint
+    assert.strictEqual((await invokeHandler(auditProofHandler, { query: { id: fifth.id, tenant: "globex" } })).status, 404);
+    const ninth = await appendAuditEntry(entry("acme", 9));
+    assert.match((await invokeHandler(auditProofHandler, { query: { id: ninth.id, tenant: "acme" } })).body.error, /newer than checkpoint/);
+
+    // The next checkpoint grows the tree from this one's frontier
+    await appendAuditEntry(entry("bigco", 0));
+    const first = await createCheckpoint("bigco", { signer });
+    await Promise.all(Array.from({ length: 12 }, (_, i) => appendAuditEntry(entry("bigco", i + 1))));
+    const { checkpoint: grown } = await createCheckpoint("bigco", { signer });
+    assert.deepStrictEqual([first.checkpoint.treeSize, grown.treeSize], [1, 13]);
+    assert.strictEqual(grown.rootHash, merkleRoot((await auditDb.listRange("bigco", 1, 13)).map((e) => e.hash)));
+  });
+
+  await test("verify finds an edited entry, and a broken chain is not checkpointed", async () => {
+    const signer = Wallet.createRandom();
+    const verify = (query: any) => invokeHandler(auditVerifyHandler, { method: "GET", query: { tenant: "acme", ...query } });
+
+    const clean = await verify({});
+    assert.deepStrictEqual([clean.body.intact, clean.body.entriesChecked, clean.body.head.matches], [true, 9, true]);
+    assert.deepStrictEqual(clean.body.checkpoints.map((c: any) => [c.treeSize, c.headMatches, c.rootMatches, c.signatureValid]), [[8, true, true, true]]);
+    assert.deepStrictEqual([(await verify({ from: "3", to: "6" })).body.intact, (await verify({ to: "12" })).status], [true, 400]);
+
+    // Postgres renders timestamptz as "+00:00"; entries still hash as written
+    const [third] = await auditDb.listRange("acme", 3, 3);
+    await storage.update("audit_log", [eq("id", third.id)], { created_at: third.timestamp.replace("Z", "+00:00") });
+    assert.strictEqual((await verify({})).body.intact, true);
+
+    const [sixth] = await auditDb.listRange("acme", 6, 6);
+    await storage.update("audit_log", [eq("id", sixth.id)], { details: { amount: "0 USDC" } });
+
+    const tampered = await verify({ from: "2" });
+    assert.strictEqual(tampered.body.intact, false);
+    assert.deepStrictEqual(tampered.body.firstBreak, { seq: 6, id: sixth.id, reason: "entry contents do not match its hash" });
+    // The edited entry no longer proves; untouched ones still do
+    const proofOf = async (seq: number) => {
+      const [stored] = await auditDb.listRange("acme", seq, seq);
+      return (await invokeHandler(auditProofHandler, { query: { id: stored.id, tenant: "acme" } })).status;
+    };
+    assert.deepStrictEqual([await proofOf(6), await proofOf(2)], [409, 200]);
+
+    // #6 is under the checkpoint at 8, so the next one only re-checks #9
+    const [ninth] = await auditDb.listRange("acme", 9, 9);
+    await storage.update("audit_log", [eq("id", ninth.id)], { resource: "batch_0" });
+    const refused = await createCheckpoint("acme", { signer, anchor: anchor(true) });
+    assert.deepStrictEqual(refused, { checkpoint: null, error: "entry #9: entry contents do not match its hash" });
+
+    // Anchor failures are kept on the checkpoint, which is still published
+    const { checkpoint } = await createCheckpoint("globex", { signer, anchor: anchor(true) });
+    assert.deepStrictEqual(checkpoint.anchor, { chain: "base", txHash: null, error: "insufficient funds for gas" });
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
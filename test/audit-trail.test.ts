@@ -0,0 +1,147 @@
+/**
+ * Tests for the automatic audit trail (src/middleware/audit-trail.ts).
+ *
+ * Drives the middleware with a minimal req/res that emits "finish", and
+ * appends to the in-memory storage backend.
+ *
+ *   npx ts-node --project test/tsconfig.json test/audit-trail.test.ts   (npm run test:audit-trail)
+ */
+
+import assert from "node:assert";
+import { EventEmitter } from "node:events";
+import type { Request, Response } from "express";
+import { auditDispatch, auditTrail, buildAuditEntry } from "../src/middleware/audit-trail.js";
+import { AuditEntryInput, auditLogHandler, auditQueryHandler, auditVerifyHandler } from "../src/routes/audit.js";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import { verifyChain, GENESIS_HASH } from "../src/lib/audit-chain.js";
+import { auditDb } from "../src/db.js";
+
+const PAYER = "0xAbCdEf0000000000000000000000000000000001";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+
+function request(path: string, body: any, extra: Record<string, any> = {}, headers: Record<string, string> = {}): Request {
+  return { method: "POST", originalUrl: path, body, headers, ip: "10.0.0.7", ...extra } as any;
+}
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  const res: any = new EventEmitter();
+  res.statusCode = status;
+  res.getHeader = (name: string) => headers[name.toLowerCase()];
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  res.json = () => { res.emit("finish"); return res; };
+  return res;
+}
+
+const x402Header = (from: string) => Buffer.from(JSON.stringify({ x402Version: 2, payload: { authorization: { from }, signature: "0xsig" } })).toString("base64");
+
+/** Run a request through the middleware and a handler that responds with `status` / `body`. */
+async function call(req: Request, status: number, body: any, resHeaders: Record<string, string> = {}) {
+  const appended: AuditEntryInput[] = [];
+  const res = response(status, resHeaders);
+  auditTrail({ append: async (entry) => { appended.push(entry); } })(req, res, () => res.status(status).json(body));
+  await new Promise((resolve) => setImmediate(resolve));
+  return appended;
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("audit trail");
+
+  await test("a paid batch records actor, amounts, counterparties and the tx payload hash", async () => {
+    const body = { sender: ALICE, token: "USDC", recipients: [{ address: BOB, amount: "5" }, { address: ALICE, amount: "2.5" }] };
+    const [entry] = await call(
+      request("/api/v1/batch/execute", body, {}, { "payment-signature": x402Header(PAYER) }), 200,
+      { batchId: "batch_1", summary: { totalAmount: "7.5", totalWithFee: "7.5225" }, transaction: { to: "0xspraay", data: "0x1234" } },
+    );
+    assert.deepStrictEqual([entry.tenant, entry.action, entry.actor, entry.resource, entry.txHash], ["gateway", "batch.executed", `x402:${PAYER.toLowerCase()}`, "batch_1", null]);
+    const details = entry.details as any;
+    assert.deepStrictEqual([details.endpoint, details.outcome, details.paymentRail], ["POST /api/v1/batch/execute", "succeeded", "x402"]);
+    assert.deepStrictEqual(details.amounts, { totalAmount: "7.5", totalWithFee: "7.5225" });
+    assert.deepStrictEqual(details.asset, { token: "USDC" });
+    assert.deepStrictEqual(details.counterparties, [
+      { role: "sender", address: ALICE }, { role: "recipients[0]", address: BOB, amount: "5" }, { role: "recipients[1]", address: ALICE, amount: "2.5" },
+    ]);
+    assert.match(details.txPayloadHash, /^[0-9a-f]{64}$/);
+  });
+
+  await test("API-key and Solana callers are named, secrets are never copied", async () => {
+    const write = { chain: "base", address: BOB, method: "transfer(address,uint256)", args: [ALICE, "1"], value: "0", privateKey: "0xdeadbeef" };
+    const [entry] = await call(request("/api/v1/contract/write", write, { apiKeyId: "k_7" }), 200, { tx_hash: "0xabc", from: ALICE });
+    assert.deepStrictEqual([entry.actor, entry.action, entry.txHash], ["apikey:k_7", "contract.written", "0xabc"]);
+    assert.deepStrictEqual((entry.details as any).counterparties, [{ role: "contract", address: BOB }]);
+    assert.ok(!JSON.stringify(entry).includes("deadbeef"));
+
+    const [swap] = await call(
+      request("/api/v1/swap/execute", { tokenIn: "USDC", tokenOut: "WETH", amountIn: "100", recipient: ALICE }, { solanaSender: "So1anaPayer111" }, { "x-solana-tx": "5sig" }),
+      200, { transactions: { swap: { to: "0xrouter", data: "0x" } } },
+    );
+    assert.deepStrictEqual([swap.actor, (swap.details as any).amounts, (swap.details as any).asset], ["solana:So1anaPayer111", { amountIn: "100" }, { tokenIn: "USDC", tokenOut: "WETH" }]);
+  });
+
+  await test("rejections are recorded, probes and read-only routes are not", async () => {
+    const escrow = request("/api/v1/escrow/release", { escrowId: "ESC-1" }, { apiKeyId: "k_7" });
+    const [rejected] = await call(escrow, 403, { error: "sanctioned_counterparty" });
+    assert.deepStrictEqual([rejected.action, rejected.resource, (rejected.details as any).outcome, (rejected.details as any).error], ["escrow.released", "ESC-1", "rejected", "sanctioned_counterparty"]);
+    const [failed] = await call(request("/api/v1/payroll/run", { employer: ALICE }), 500, { error: "Failed to run payroll" });
+    assert.deepStrictEqual([failed.actor, (failed.details as any).outcome], ["ip:10.0.0.7", "failed"]);
+
+    assert.deepStrictEqual(await call(request("/api/v1/batch/execute", { recipients: [] }), 402, { x402Version: 2 }), []);
+    assert.deepStrictEqual(await call(request("/api/v1/batch/estimate", { recipients: [] }), 200, {}), []);
+    assert.strictEqual(buildAuditEntry(request("/api/v1/sctp/pay?x=1", { sender: ALICE }), response(200), {})!.action, "payment.sent");
+  });
+
+  await test("entries land on the gateway chain, which the public API can't write to", async () => {
+    const res = response(200);
+    auditTrail()(request("/api/v1/escrow/create", { depositor: ALICE, beneficiary: BOB, amount: "10" }), res, () => res.json({ escrowId: "ESC-9" }));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const chain = await auditDb.listRange("gateway", 1, 10);
+    assert.deepStrictEqual(chain.map((e) => [e.seq, e.action, e.resource]), [[1, "escrow.created", "ESC-9"]]);
+    assert.strictEqual(verifyChain(chain, GENESIS_HASH, 1), null);
+
+    const forged = await invokeHandler(auditLogHandler, { body: { action: "payment.sent", actor: ALICE, resource: "x", tenant: "gateway" } });
+    assert.strictEqual(forged.status, 403);
+  });
+
+  await test("runs the gateway dispatches itself are recorded under the job that ran them", async () => {
+    const appended: AuditEntryInput[] = [];
+    const append = async (entry: AuditEntryInput) => { appended.push(entry); };
+    const payload = { sender: ALICE, token: "USDC", recipients: [{ address: BOB, amount: "3" }] };
+    await auditDispatch("/api/v1/batch/execute", payload, { status: 200, body: { batchId: "batch_7", transaction: { to: "0xspraay" } } }, "cron:cron_1", { append });
+    await auditDispatch("/api/v1/payroll/execute", { sender: ALICE }, { status: 403, body: { error: "sanctioned counterparty: 0xbad (employees[0])" } }, "cron:cron_2", { append });
+    await auditDispatch("/api/v1/bridge/quote", {}, { status: 200, body: {} }, "cron:cron_3", { append });
+
+    assert.deepStrictEqual(appended.map((e) => [e.action, e.actor, e.resource, (e.details as any).outcome, (e.details as any).paymentRail]), [
+      ["batch.executed", "cron:cron_1", "batch_7", "succeeded", "scheduled"],
+      ["payroll.executed", "cron:cron_2", "/api/v1/payroll/execute", "rejected", "scheduled"],
+    ]);
+    assert.match((appended[0].details as any).txPayloadHash, /^[0-9a-f]{64}$/);
+    assert.strictEqual(buildAuditEntry(request("/api/v1/escrow/dispute", { escrowId: "ESC-3" }), response(200), {})!.action, "escrow.disputed");
+  });
+
+  await test("only the operator reads the gateway chain", async () => {
+    process.env.AUDIT_OPERATOR_KEY = "op-secret";
+    await invokeHandler(auditLogHandler, { body: { action: "payment.sent", actor: ALICE, resource: "public-entry" } });
+    const query = (query: any, headers: Record<string, string> = {}) => invokeHandler(auditQueryHandler, { method: "GET", query, headers });
+
+    assert.strictEqual((await query({ tenant: "gateway" })).status, 403);
+    assert.strictEqual((await query({ tenant: "gateway" }, { "x-audit-operator-key": "wrong" })).status, 403);
+    assert.strictEqual((await invokeHandler(auditVerifyHandler, { method: "GET", query: { tenant: "gateway" } })).status, 403);
+    const unscoped = await query({});
+    assert.deepStrictEqual(unscoped.body.entries.map((e: any) => e.tenant), ["public"]);
+
+    const operator = { "x-audit-operator-key": "op-secret" };
+    assert.ok((await query({ tenant: "gateway" }, operator)).body.entries.every((e: any) => e.tenant === "gateway"));
+    assert.deepStrictEqual(new Set((await query({}, operator)).body.entries.map((e: any) => e.tenant)), new Set(["gateway", "public"]));
+    assert.strictEqual((await invokeHandler(auditVerifyHandler, { method: "GET", query: { tenant: "gateway" }, headers: operator })).body.intact, true);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
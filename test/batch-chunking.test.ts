@@ -0,0 +1,59 @@
+/**
+ * Tests for opt-in batch chunking (src/lib/batch-chunking.ts).
+ *
+ *   npx ts-node --project test/tsconfig.json test/batch-chunking.test.ts   (npm run test:chunk)
+ */
+
+import assert from "node:assert";
+import {
+  chunkItems, chunkSizes, chunkRange, chunkedBatchEvent, newParentBatchId, BatchChunkError, MAX_CHUNKS,
+} from "../src/lib/batch-chunking.js";
+
+let passed = 0;
+function test(name: string, fn: () => void): void {
+  fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+console.log("batch chunking");
+
+test("splits in request order under the per-transaction cap", () => {
+  const items = Array.from({ length: 450 }, (_, i) => i);
+  const chunks = chunkItems(items, 200);
+  assert.deepStrictEqual(chunks.map((c) => c.items.length), [200, 200, 50]);
+  assert.deepStrictEqual(chunks.map((c) => c.offset), [0, 200, 400]);
+  assert.deepStrictEqual(chunks.flatMap((c) => c.items), items);
+  assert.deepStrictEqual(chunkRange(chunks[2]), { from: 400, to: 449 });
+  // Same payload, same chunks
+  assert.deepStrictEqual(chunkItems(items, 200), chunks);
+});
+
+test("sizes match the chunks without materialising items", () => {
+  assert.deepStrictEqual(chunkSizes(250, 99), [99, 99, 52]);
+  assert.deepStrictEqual(chunkSizes(100, 100), [100]);
+  assert.deepStrictEqual(chunkItems(Array(250).fill(0), 99).map((c) => c.items.length), chunkSizes(250, 99));
+});
+
+test("rejects more than MAX_CHUNKS transactions and bad caps", () => {
+  assert.doesNotThrow(() => chunkSizes(MAX_CHUNKS * 100, 100));
+  assert.throws(() => chunkSizes(MAX_CHUNKS * 100 + 1, 100), BatchChunkError);
+  assert.throws(() => chunkSizes(10, 0), BatchChunkError);
+});
+
+test("chunk outcomes map to settled, partial_failure or failed once resolved", () => {
+  assert.strictEqual(chunkedBatchEvent([]), null);
+  assert.strictEqual(chunkedBatchEvent([{ index: 0, status: "confirmed" }, { index: 1, status: "pending" }]), null);
+  assert.strictEqual(chunkedBatchEvent([{ index: 0, status: "confirmed" }, { index: 1, status: "confirmed" }]), "batch.settled");
+  assert.strictEqual(chunkedBatchEvent([{ index: 0, status: "confirmed" }, { index: 1, status: "failed" }]), "batch.partial_failure");
+  assert.strictEqual(chunkedBatchEvent([{ index: 0, status: "failed" }, { index: 1, status: "failed" }]), "batch.failed");
+});
+
+test("parent batch IDs are unique", () => {
+  const a = newParentBatchId();
+  assert.match(a, /^batch_[0-9a-f]{16}$/);
+  assert.notStrictEqual(a, newParentBatchId());
+});
+
+console.log(`\n${passed} passed`);
+process.exit(0);
@@ -27,6 +27,7 @@ import {
   batchPaymentHandler,
   batchEstimateHandler,
 } from "../src/routes/batch-payments.js";
+import { validateBatchPayload } from "../src/lib/batch-validation.js";
 
 // Valid 40-hex addresses (ABI encoding in the execute path needs real addresses).
 const A1 = "0x1111111111111111111111111111111111111111";
@@ -188,6 +189,82 @@ async function main() {
     assert.strictEqual(status, 400);
   });
 
+  // ── Chain selection: contract, token registry and chain ID follow `chain` ──
+  await test("execute: chain selects contract, token registry and chain ID", async () => {
+    const { status, body } = await callHandler(batchPaymentHandler, {
+      chain: "arbitrum",
+      token: "USDC",
+      recipients: [A1],
+      amounts: ["1000000"],
+    });
+    assert.strictEqual(status, 200);
+    assert.strictEqual(body.transaction.chainId, 42161);
+    assert.strictEqual(body.transaction.to, "0x5be43aA67804aD84fcb890d0AE5F257fb1674302");
+    assert.strictEqual(body.token.address, "0xaf88d065e77c8cC2239327C5EDb3A432268e5831");
+    assert.strictEqual(body.approvalRequired.spender, body.transaction.to);
+
+    // ETH on Polygon is the bridged ERC-20, not the native asset
+    const poly = await callHandler(batchPaymentHandler, { chain: 137, token: "ETH", recipients: [{ address: A1, amount: "1" }] });
+    assert.strictEqual(poly.status, 400);
+    const pol = await callHandler(batchPaymentHandler, { chain: "polygon", token: "POL", recipients: [{ address: A1, amount: "1" }] });
+    assert.strictEqual(pol.body.token.isNative, true);
+    assert.strictEqual(pol.body.transaction.value, "1003000000000000000");
+  });
+
+  await test("execute + estimate reject an unsupported chain with the supported list", async () => {
+    const exec = await callHandler(batchPaymentHandler, { chain: "solana", recipients: [A1], amounts: ["1"] });
+    const est = await callHandler(batchEstimateHandler, { chain: "solana", recipientCount: 3 });
+    assert.strictEqual(exec.status, 400);
+    assert.strictEqual(est.status, 400);
+    assert.ok(exec.body.supportedChains.includes("avalanche"));
+  });
+
+  await test("validator, estimate and execute agree on chain, token and gas", async () => {
+    const bpa = { chain: "bnb", token: "USDC", recipients: [{ to: A1, amount: "2.5" }, { to: A2, amount: "1" }] };
+    const { valid, summary } = validateBatchPayload(bpa);
+    assert.ok(valid);
+    const body = { chain: "bnb", token: "USDC", recipients: bpa.recipients.map((r) => ({ address: r.to, amount: r.amount })) };
+    const est = await callHandler(batchEstimateHandler, body);
+    const exec = await callHandler(batchPaymentHandler, body);
+    assert.strictEqual(summary!.chainId, exec.body.transaction.chainId);
+    assert.strictEqual(summary!.contract, exec.body.contract);
+    assert.strictEqual(summary!.decimals, 18); // Binance-Peg USDC
+    assert.strictEqual(String(summary!.estimatedGas), est.body.estimatedGas);
+    assert.strictEqual(est.body.estimatedGas, exec.body.batch.estimatedGas);
+    assert.strictEqual(exec.body.batch.totalAmount, "3.5");
+
+    const unknown = validateBatchPayload({ ...bpa, token: "EURC" });
+    assert.ok(!unknown.valid && unknown.errors.some((e) => /Unknown token "EURC" on bnb/.test(e)));
+    assert.ok(!validateBatchPayload({ ...bpa, chain: "ethereum", recipients: [{ to: A1, amount: "0.1234567" }] }).valid);
+    assert.strictEqual(validateBatchPayload({ ...bpa, chain: "bob" }).summary!.executable, false);
+  });
+
+  // ── chunk: true — more than 200 recipients split into several transactions ──
+  await test("execute: chunk splits 450 recipients into 200/200/50 with per-chunk calldata", async () => {
+    const addrs = Array.from({ length: 450 }, (_, i) => ethers.getAddress("0x" + (i + 1).toString(16).padStart(40, "0")));
+    const amounts = addrs.map(() => "1000000");
+    const rejected = await callHandler(batchPaymentHandler, { recipients: addrs, amounts });
+    assert.strictEqual(rejected.status, 400);
+
+    const { status, body } = await callHandler(batchPaymentHandler, { chain: "base", recipients: addrs, amounts, chunk: true });
+    assert.strictEqual(status, 200);
+    assert.match(body.parentBatchId, /^batch_/);
+    assert.deepStrictEqual(body.chunks.map((c: any) => c.recipientCount), [200, 200, 50]);
+    assert.deepStrictEqual(body.chunks[2].recipientRange, { from: 400, to: 449 });
+    assert.strictEqual(body.batch.totalAmount, "450.0");
+    assert.strictEqual(body.batch.fee, "1.35");
+    assert.strictEqual(body.approvalRequired.amount, "451350000");
+    // Each chunk's calldata pays exactly its own slice
+    const iface = new ethers.Interface(["function sprayToken(address token, tuple(address recipient, uint256 amount)[] recipients)"]);
+    const decoded = iface.decodeFunctionData("sprayToken", body.chunks[1].transaction.data);
+    assert.strictEqual(decoded.recipients.length, 200);
+    assert.strictEqual(decoded.recipients[0].recipient, addrs[200]);
+
+    const est = await callHandler(batchEstimateHandler, { recipients: addrs, amounts, chunk: true });
+    assert.strictEqual(est.body.totalWithFee, body.batch.totalWithFee);
+    assert.strictEqual(est.body.estimatedGas, body.batch.estimatedGas);
+  });
+
   console.log(`\n${passed} passed`);
   process.exit(0);
 }
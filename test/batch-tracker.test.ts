@@ -0,0 +1,249 @@
+/**
+ * Tests for batch settlement tracking (src/services/batch-tracker.ts) and the
+ * batch status/report routes.
+ *
+ * Runs against a fake chain reader and the in-memory storage backend, so no
+ * RPC or database is needed.
+ *
+ *   npx ts-node --project test/tsconfig.json test/batch-tracker.test.ts   (npm run test:batch-tracker)
+ */
+
+import assert from "node:assert";
+import { AbiCoder, Interface, zeroPadValue, id } from "ethers";
+import {
+  BatchChainReader, TrackableBatch, batchMemoHex, calldataMismatch, checkBatchTx, detectBatchTx, trackBatch,
+} from "../src/services/batch-tracker.js";
+import { batchPaymentHandler, batchStatusHandler, batchReportHandler } from "../src/routes/batch-payments.js";
+import { batchDb } from "../src/db.js";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const SPRAAY = "0x1646452F98E36A3c9Cfc3eDD8868221E207B5eEC";
+const A1 = "0x1111111111111111111111111111111111111111";
+const A2 = "0x2222222222222222222222222222222222222222";
+const TX = "0x" + "ab".repeat(32);
+const TRANSFER = id("Transfer(address,address,uint256)");
+const SPRAY = new Interface([
+  "function sprayETH((address recipient, uint256 amount)[] recipients) payable",
+  "function sprayToken(address token, (address recipient, uint256 amount)[] recipients)",
+]);
+
+const batch: TrackableBatch = {
+  id: "batch_00000000000000aa",
+  contract: SPRAAY,
+  token: { address: USDC, symbol: "USDC", decimals: 6, isNative: false },
+  recipients: [
+    { index: 0, address: A1, amount: "1", amountRaw: "1000000" },
+    { index: 1, address: A2, amount: "2.5", amountRaw: "2500000" },
+  ],
+};
+const calldata = SPRAY.encodeFunctionData("sprayToken", [USDC, [[A1, 1_000_000n], [A2, 2_500_000n]]]) + batchMemoHex(batch.id);
+
+function transferLog(to: string, value: bigint, index: number, token = USDC) {
+  return {
+    address: token, index,
+    topics: [TRANSFER, zeroPadValue(SPRAAY, 32), zeroPadValue(to, 32)],
+    data: AbiCoder.defaultAbiCoder().encode(["uint256"], [value]),
+  };
+}
+
+interface FakeChain {
+  head: number;
+  tx: { to: string | null; data: string } | null;
+  receipt: Awaited<ReturnType<BatchChainReader["getTransactionReceipt"]>>;
+  logs?: Array<{ transactionHash: string }>;
+  txs?: Record<string, { to: string | null; data: string }>;
+}
+
+function chain(state: FakeChain): BatchChainReader {
+  return {
+    getBlockNumber: async () => state.head,
+    getTransaction: async (hash) => state.txs?.[hash] ?? state.tx,
+    getTransactionReceipt: async () => state.receipt,
+    getLogs: async () => state.logs ?? [],
+  };
+}
+
+function mined(logs: any[], status = 1, blockNumber = 100, blockHash = "0x" + "cd".repeat(32)) {
+  return { status, blockNumber, blockHash, logs };
+}
+
+/** Drive an async Express handler with a fake req/res; resolves JSON or sent text. */
+function callHandler(handler: (req: any, res: any) => any, req: any): Promise<{ status: number; body: any; headers: Record<string, string> }> {
+  return new Promise((resolve) => {
+    const headers: Record<string, string> = {};
+    const res: any = {
+      statusCode: 200,
+      status(code: number) { this.statusCode = code; return this; },
+      setHeader(name: string, value: string) { headers[name.toLowerCase()] = value; },
+      json(payload: any) { resolve({ status: this.statusCode, body: payload, headers }); return this; },
+      send(payload: any) { resolve({ status: this.statusCode, body: payload, headers }); return this; },
+    };
+    Promise.resolve(handler({ query: {}, params: {}, ...req }, res)).catch((err) =>
+      resolve({ status: 599, body: { error: String(err) }, headers })
+    );
+  });
+}
+
+let passed = 0;
+async function test(name: string, fn: () => Promise<void> | void): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+async function main() {
+  console.log("batch settlement tracking");
+
+  await test("calldata must match the batch exactly; the memo suffix is ignored", () => {
+    assert.strictEqual(calldataMismatch(batch, calldata), null);
+    const other = SPRAY.encodeFunctionData("sprayToken", [USDC, [[A1, 1_000_000n], [A2, 2_500_001n]]]);
+    assert.match(calldataMismatch(batch, other)!, /Recipient 1 differs/);
+    const eth = SPRAY.encodeFunctionData("sprayETH", [[[A1, 1_000_000n], [A2, 2_500_000n]]]);
+    assert.match(calldataMismatch(batch, eth)!, /Expected sprayToken/);
+    assert.match(calldataMismatch(batch, "0xa9059cbb")!, /not a Spraay/);
+  });
+
+  await test("unmined tx stays pending; wrong contract or calldata is invalid", async () => {
+    const pending = await checkBatchTx(chain({ head: 100, tx: { to: SPRAAY, data: calldata }, receipt: null }), batch, TX, 3);
+    assert.strictEqual(pending.state, "pending");
+    assert.deepStrictEqual(pending.recipients.map((r) => r.status), ["pending", "pending"]);
+    const wrongTo = await checkBatchTx(chain({ head: 100, tx: { to: A1, data: calldata }, receipt: null }), batch, TX, 3);
+    assert.strictEqual(wrongTo.state, "invalid");
+  });
+
+  await test("each recipient needs its own exact Transfer log; confirmations gate settlement", async () => {
+    const logs = [transferLog(A1, 1_000_000n, 4), transferLog(A2, 2_500_000n, 5), transferLog(A2, 2_500_000n, 6, A1)];
+    const early = await checkBatchTx(chain({ head: 101, tx: { to: SPRAAY, data: calldata }, receipt: mined(logs) }), batch, TX, 3);
+    assert.strictEqual(early.state, "mined");
+    assert.strictEqual(early.confirmations, 2);
+    const done = await checkBatchTx(chain({ head: 102, tx: { to: SPRAAY, data: calldata }, receipt: mined(logs) }), batch, TX, 3);
+    assert.strictEqual(done.state, "settled");
+    assert.deepStrictEqual(done.recipients.map((r) => [r.status, r.logIndex]), [["confirmed", 4], ["confirmed", 5]]);
+
+    // Fee-on-transfer style shortfall: recipient 1 got less than the batch amount
+    const short = await checkBatchTx(chain({ head: 102, tx: { to: SPRAAY, data: calldata }, receipt: mined([logs[0], transferLog(A2, 2_400_000n, 5)]) }), batch, TX, 3);
+    assert.strictEqual(short.state, "partial_failure");
+    assert.strictEqual(short.confirmedCount, 1);
+
+    const reverted = await checkBatchTx(chain({ head: 102, tx: { to: SPRAAY, data: calldata }, receipt: mined([], 0) }), batch, TX, 3);
+    assert.strictEqual(reverted.state, "failed");
+    assert.deepStrictEqual(reverted.recipients.map((r) => r.status), ["failed", "failed"]);
+  });
+
+  await test("native sprays are confirmed from the calldata", async () => {
+    const native = { ...batch, token: { address: "0x0000000000000000000000000000000000000000", symbol: "ETH", decimals: 18, isNative: true } };
+    const data = SPRAY.encodeFunctionData("sprayETH", [[[A1, 1_000_000n], [A2, 2_500_000n]]]);
+    const check = await checkBatchTx(chain({ head: 110, tx: { to: SPRAAY, data }, receipt: mined([]) }), native, TX, 3);
+    assert.strictEqual(check.state, "settled");
+    assert.deepStrictEqual(check.recipients.map((r) => r.evidence), ["calldata", "calldata"]);
+  });
+
+  await test("detection picks the tx carrying the batch memo", async () => {
+    const unrelated = "0x" + "01".repeat(32);
+    const found = await detectBatchTx(chain({
+      head: 200, tx: null, receipt: null,
+      logs: [{ transactionHash: unrelated }, { transactionHash: TX }],
+      txs: { [unrelated]: { to: SPRAAY, data: calldata.slice(0, -batchMemoHex(batch.id).length) }, [TX]: { to: SPRAAY, data: calldata } },
+    }), batch, 100, 200);
+    assert.strictEqual(found, TX);
+  });
+
+  await test("execute records the batch; report + tracking settle it and GET returns a receipt", async () => {
+    const exec = await callHandler(batchPaymentHandler, {
+      body: { chain: "base", token: "USDC", recipients: [{ address: A1, amount: "1" }, { address: A2, amount: "2.5" }] },
+    });
+    assert.strictEqual(exec.status, 200);
+    const batchId = exec.body.batchId;
+    assert.match(batchId, /^batch_[0-9a-f]{16}$/);
+    assert.ok(exec.body.transaction.data.endsWith(batchMemoHex(batchId)));
+
+    const stored = await batchDb.get(batchId);
+    assert.strictEqual(stored!.status, "awaiting_tx");
+    assert.deepStrictEqual(stored!.recipients.map((r: any) => r.amountRaw), ["1000000", "2500000"]);
+
+    const state: FakeChain = { head: 100, tx: { to: SPRAAY, data: exec.body.transaction.data }, receipt: null };
+    const fake = chain(state);
+    await batchDb.transition(batchId, ["awaiting_tx"], { status: "submitted", txHash: TX, txSource: "reported" });
+
+    state.receipt = mined([transferLog(A1, 1_000_000n, 0), transferLog(A2, 2_500_000n, 1)]);
+    const first = await trackBatch(await batchDb.get(batchId), fake);
+    assert.strictEqual(first.status, "confirming");
+    state.head = 110;
+    const second = await trackBatch(await batchDb.get(batchId), fake);
+    assert.strictEqual(second.status, "settled");
+    assert.ok(second.advanced);
+
+    const json = await callHandler(batchStatusHandler, { params: { id: batchId } });
+    assert.strictEqual(json.body.batch.status, "settled");
+    assert.strictEqual(json.body.batch.confirmedRecipients, 2);
+    assert.strictEqual(json.body.batch.explorerUrl, `https://basescan.org/tx/${TX}`);
+
+    const csv = await callHandler(batchStatusHandler, { params: { id: batchId }, query: { format: "csv" } });
+    assert.match(csv.headers["content-disposition"], /attachment; filename="spraay-batch_[0-9a-f]{16}-receipt\.csv"/);
+    const lines = csv.body.trim().split("\n");
+    assert.strictEqual(lines[0], "batch_id,index,address,amount,token,chain_id,status,tx_hash,block_number,log_index");
+    assert.strictEqual(lines[2], `${batchId},1,${A2},2.5,USDC,8453,confirmed,${TX},100,1`);
+
+    // A settled batch can't be re-pointed, and its hash can't be claimed by another batch
+    const again = await callHandler(batchReportHandler, { body: { batchId, txHash: "0x" + "ee".repeat(32) } });
+    assert.strictEqual(again.status, 409);
+    const other = await callHandler(batchPaymentHandler, { body: { recipients: [{ address: A1, amount: "3" }] } });
+    const stolen = await callHandler(batchReportHandler, { body: { batchId: other.body.batchId, txHash: TX } });
+    assert.strictEqual(stolen.status, 409);
+    assert.strictEqual(stolen.body.batchId, batchId);
+  });
+
+  await test("chunked batches store one record per chunk and roll up under the parent", async () => {
+    const addrs = Array.from({ length: 250 }, (_, i) => "0x" + (i + 1).toString(16).padStart(40, "0"));
+    const exec = await callHandler(batchPaymentHandler, { body: { recipients: addrs, amounts: addrs.map(() => "1000"), chunk: true } });
+    const parent = exec.body.parentBatchId;
+    assert.deepStrictEqual(exec.body.chunks.map((c: any) => c.batchId), [`${parent}_0`, `${parent}_1`]);
+
+    const chunks = await batchDb.listByParent(parent);
+    assert.deepStrictEqual(chunks.map((c: any) => [c.chunkIndex, c.recipients.length, c.recipients[0].index]), [[0, 200, 0], [1, 50, 200]]);
+
+    const view = await callHandler(batchStatusHandler, { params: { id: parent } });
+    assert.strictEqual(view.body.batch.status, "in_progress");
+    assert.strictEqual(view.body.batch.recipientCount, 250);
+
+    const report = await callHandler(batchReportHandler, { body: { batchId: parent, txHash: TX } });
+    assert.strictEqual(report.status, 400);
+    assert.strictEqual(report.body.chunks.length, 2);
+  });
+
+  await test("only the sender reports a batch's tx, and a reported tx that never appears expires", async () => {
+    const exec = await callHandler(batchPaymentHandler, { body: { sender: A1, recipients: [{ address: A2, amount: "4" }] } });
+    const batchId = exec.body.batchId;
+    const bogus = "0x" + "0f".repeat(32);
+
+    assert.strictEqual((await callHandler(batchReportHandler, { body: { batchId, txHash: bogus } })).status, 403);
+    assert.strictEqual((await callHandler(batchReportHandler, { body: { batchId, txHash: bogus, sender: A2 } })).status, 403);
+    assert.strictEqual((await batchDb.get(batchId))!.status, "awaiting_tx");
+
+    const missing = chain({ head: 100, tx: null, receipt: null });
+    await batchDb.transition(batchId, ["awaiting_tx"], { status: "submitted", txHash: bogus, txSource: "reported" });
+    const first = await trackBatch(await batchDb.get(batchId), missing);
+    const since = (await batchDb.get(batchId))!.settlement.missingSince;
+    assert.deepStrictEqual([first.status, typeof since], ["submitted", "string"]);
+
+    const stale = await batchDb.get(batchId);
+    stale!.settlement.missingSince = new Date(Date.now() - 25 * 3_600_000).toISOString();
+    const gaveUp = await trackBatch(stale, missing);
+    const stored = (await batchDb.get(batchId))!;
+    assert.deepStrictEqual([gaveUp.status, stored.status], ["expired", "expired"]);
+    assert.match(stored.settlement.reason, /not found within 24h/);
+
+    // The real sender can still report the right tx afterwards
+    const real = await callHandler(batchReportHandler, { body: { batchId, txHash: TX.replace("ab", "ac"), sender: A1.toUpperCase().replace("0X", "0x") } });
+    assert.notStrictEqual(real.status, 403);
+    assert.strictEqual((await batchDb.get(batchId))!.txHash, TX.replace("ab", "ac"));
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+/**
+ * Tests for cron expression parsing and next-run computation
+ * (src/lib/cron-expression.ts), which the cron scheduler relies on.
+ *
+ *   npx ts-node --project test/tsconfig.json test/cron-expression.test.ts   (npm run test:cron)
+ */
+
+import assert from "node:assert";
+import { parseCronExpression, nextCronRun, isValidTimezone, CronExpressionError } from "../src/lib/cron-expression.js";
+
+let passed = 0;
+function test(name: string, fn: () => void): void {
+  fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+const iso = (d: Date | null) => d?.toISOString();
+
+console.log("cron expression");
+
+test("parses lists, ranges, steps and names", () => {
+  const s = parseCronExpression("*/15 9-17 1,15 JAN-MAR mon-fri");
+  assert.deepStrictEqual([...s.minutes], [0, 15, 30, 45]);
+  assert.strictEqual(s.hours.size, 9);
+  assert.deepStrictEqual([...s.daysOfMonth], [1, 15]);
+  assert.deepStrictEqual([...s.months], [1, 2, 3]);
+  assert.deepStrictEqual([...s.daysOfWeek], [1, 2, 3, 4, 5]);
+});
+
+test("7 is Sunday", () => {
+  assert.deepStrictEqual([...parseCronExpression("0 0 * * 7").daysOfWeek], [0]);
+});
+
+test("rejects malformed expressions with a field-specific error", () => {
+  assert.throws(() => parseCronExpression("* * * *"), /5-part format/);
+  assert.throws(() => parseCronExpression("60 * * * *"), /minute field/);
+  assert.throws(() => parseCronExpression("* * * * */0"), /day-of-week field/);
+  assert.throws(() => parseCronExpression("5-1 * * * *"), CronExpressionError);
+});
+
+test("next run is strictly after the reference time", () => {
+  assert.strictEqual(iso(nextCronRun("*/15 * * * *", new Date("2025-03-10T10:15:00Z"))), "2025-03-10T10:30:00.000Z");
+  assert.strictEqual(iso(nextCronRun("0 9 * * 1", new Date("2025-03-10T09:00:30Z"))), "2025-03-17T09:00:00.000Z");
+});
+
+test("month rollover and leap day", () => {
+  assert.strictEqual(iso(nextCronRun("0 0 1 * *", new Date("2025-12-15T00:00:00Z"))), "2026-01-01T00:00:00.000Z");
+  assert.strictEqual(iso(nextCronRun("0 12 29 2 *", new Date("2025-03-01T00:00:00Z"))), "2028-02-29T12:00:00.000Z");
+});
+
+test("restricted day-of-month OR day-of-week", () => {
+  // 2025-03-10 is a Monday; the 15th is a Saturday
+  const after = new Date("2025-03-11T00:00:00Z");
+  assert.strictEqual(iso(nextCronRun("0 0 15 * 1", after)), "2025-03-15T00:00:00.000Z");
+  assert.strictEqual(iso(nextCronRun("0 0 * * 1", after)), "2025-03-17T00:00:00.000Z");
+});
+
+test("evaluates in the job's timezone across DST", () => {
+  // New York switches to EDT on 2025-03-09: 09:00 local is 14:00Z before, 13:00Z after
+  assert.strictEqual(iso(nextCronRun("0 9 * * *", new Date("2025-03-08T00:00:00Z"), "America/New_York")), "2025-03-08T14:00:00.000Z");
+  assert.strictEqual(iso(nextCronRun("0 9 * * *", new Date("2025-03-09T00:00:00Z"), "America/New_York")), "2025-03-09T13:00:00.000Z");
+  assert.strictEqual(iso(nextCronRun("30 0 * * *", new Date("2025-06-01T00:00:00Z"), "Asia/Kolkata")), "2025-06-01T19:00:00.000Z");
+});
+
+test("days skipped over are found on the 23- and 25-hour days", () => {
+  // 2026-03-08 (spring forward) and 2026-11-01 (fall back) are Sundays in New York
+  assert.strictEqual(iso(nextCronRun("0 0 * * 1", new Date("2026-03-02T15:00:00Z"), "America/New_York")), "2026-03-09T04:00:00.000Z");
+  assert.strictEqual(iso(nextCronRun("0 0 * * 1", new Date("2026-10-27T15:00:00Z"), "America/New_York")), "2026-11-02T05:00:00.000Z");
+  // Santiago's clocks jump from 00:00 to 01:00 on 2026-09-06, so that day has no midnight
+  assert.strictEqual(iso(nextCronRun("0 0 * * *", new Date("2026-09-05T12:00:00Z"), "America/Santiago")), "2026-09-07T03:00:00.000Z");
+  assert.strictEqual(iso(nextCronRun("0 1 * * *", new Date("2026-09-05T12:00:00Z"), "America/Santiago")), "2026-09-06T04:00:00.000Z");
+});
+
+test("impossible schedules return null", () => {
+  assert.strictEqual(nextCronRun("0 0 31 2 *", new Date("2025-01-01T00:00:00Z")), null);
+});
+
+test("timezone validation", () => {
+  assert.ok(isValidTimezone("Europe/London"));
+  assert.ok(!isValidTimezone("Mars/Olympus_Mons"));
+});
+
+console.log(`\n${passed} passed`);
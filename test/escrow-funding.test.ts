@@ -0,0 +1,102 @@
+/**
+ * Tests for on-chain escrow funding verification (src/services/escrow-funding.ts).
+ *
+ * Runs against a fake chain reader, so no RPC is needed.
+ *
+ *   npx ts-node --project test/tsconfig.json test/escrow-funding.test.ts   (npm run test:escrow)
+ */
+
+import assert from "node:assert";
+import { AbiCoder, zeroPadValue, id } from "ethers";
+import { checkFundingTx, FundingChainReader } from "../src/services/escrow-funding.js";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const DEPOSITOR = "0x1111111111111111111111111111111111111111";
+const HOLDING = "0x2222222222222222222222222222222222222222";
+const OTHER = "0x3333333333333333333333333333333333333333";
+const TX = "0x" + "ab".repeat(32);
+const TRANSFER = id("Transfer(address,address,uint256)");
+
+const escrow = { depositor: DEPOSITOR, amountRaw: "5000000", token: { address: USDC, symbol: "USDC" } };
+
+function transferLog(from: string, to: string, value: bigint, token = USDC) {
+  return {
+    address: token,
+    topics: [TRANSFER, zeroPadValue(from, 32), zeroPadValue(to, 32)],
+    data: AbiCoder.defaultAbiCoder().encode(["uint256"], [value]),
+  };
+}
+
+function chain(receipt: Awaited<ReturnType<FundingChainReader["getTransactionReceipt"]>>, head: number): FundingChainReader {
+  return { getBlockNumber: async () => head, getTransactionReceipt: async () => receipt };
+}
+
+function mined(logs: any[], status = 1, blockNumber = 100) {
+  return { status, blockNumber, blockHash: "0x" + "cd".repeat(32), logs };
+}
+
+let passed = 0;
+async function test(name: string, fn: () => Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+async function main() {
+  console.log("escrow funding verification");
+
+  await test("unmined tx stays pending", async () => {
+    const check = await checkFundingTx(chain(null, 100), escrow, TX, HOLDING, 10);
+    assert.strictEqual(check.state, "pending");
+    assert.strictEqual(check.blockNumber, null);
+  });
+
+  await test("matching transfer waits for confirmations, then confirms", async () => {
+    const receipt = mined([transferLog(DEPOSITOR, HOLDING, 5_000_000n)]);
+    const early = await checkFundingTx(chain(receipt, 104), escrow, TX, HOLDING, 10);
+    assert.strictEqual(early.state, "pending");
+    assert.strictEqual(early.confirmations, 5);
+    const done = await checkFundingTx(chain(receipt, 109), escrow, TX, HOLDING, 10);
+    assert.strictEqual(done.state, "confirmed");
+    assert.strictEqual(done.amountReceivedRaw, "5000000");
+  });
+
+  await test("reverted tx is invalid", async () => {
+    const check = await checkFundingTx(chain(mined([], 0), 200), escrow, TX, HOLDING, 1);
+    assert.strictEqual(check.state, "invalid");
+    assert.match(check.reason!, /reverted/);
+  });
+
+  await test("wrong sender, recipient or token does not count", async () => {
+    const receipt = mined([
+      transferLog(OTHER, HOLDING, 5_000_000n),
+      transferLog(DEPOSITOR, OTHER, 5_000_000n),
+      transferLog(DEPOSITOR, HOLDING, 5_000_000n, OTHER),
+    ]);
+    const check = await checkFundingTx(chain(receipt, 200), escrow, TX, HOLDING, 1);
+    assert.strictEqual(check.state, "invalid");
+    assert.match(check.reason!, /No USDC Transfer/);
+  });
+
+  await test("underpayment is invalid, split transfers are summed", async () => {
+    const short = await checkFundingTx(chain(mined([transferLog(DEPOSITOR, HOLDING, 4_999_999n)]), 200), escrow, TX, HOLDING, 1);
+    assert.strictEqual(short.state, "invalid");
+    const split = mined([transferLog(DEPOSITOR, HOLDING, 2_000_000n), transferLog(DEPOSITOR, HOLDING, 3_000_000n)]);
+    const check = await checkFundingTx(chain(split, 200), escrow, TX, HOLDING, 1);
+    assert.strictEqual(check.state, "confirmed");
+  });
+
+  await test("address comparison ignores checksum casing", async () => {
+    const receipt = mined([transferLog(DEPOSITOR, HOLDING, 5_000_000n, USDC.toLowerCase())]);
+    const check = await checkFundingTx(chain(receipt, 200), escrow, TX, HOLDING.toLowerCase(), 1);
+    assert.strictEqual(check.state, "confirmed");
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("\nFAILED:", err);
+  process.exit(1);
+});
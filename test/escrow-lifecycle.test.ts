@@ -0,0 +1,192 @@
+/**
+ * Tests for the escrow routes' state changes (src/routes/escrow.ts):
+ * expiry and refunds, concurrent releases, and dispute settlement
+ * (src/services/escrow-disputes.ts).
+ *
+ * Runs against the in-memory storage backend; funding is marked directly
+ * instead of being verified on-chain.
+ *
+ *   npx ts-node --project test/tsconfig.json test/escrow-lifecycle.test.ts   (npm run test:escrow-lifecycle)
+ */
+
+import assert from "node:assert";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import {
+  escrowCreateHandler, escrowGetHandler, escrowFundHandler, escrowReleaseHandler, escrowCancelHandler, escrowMilestoneApproveHandler,
+  escrowDisputeHandler, escrowDisputeEvidenceHandler, escrowDisputeResolveHandler,
+} from "../src/routes/escrow.js";
+import { settleExpiredDisputes } from "../src/services/escrow-disputes.js";
+import { escrowDb, storage } from "../src/db.js";
+import { eq } from "../src/storage/index.js";
+
+const DEPOSITOR = "0x1111111111111111111111111111111111111111";
+const BENEFICIARY = "0x2222222222222222222222222222222222222222";
+const ARBITER = "0x3333333333333333333333333333333333333333";
+const HOLDING = "0x4444444444444444444444444444444444444444";
+
+process.env.ESCROW_HOLDING_ADDRESS = HOLDING;
+
+async function fundedEscrow(body: Record<string, unknown> = {}): Promise<string> {
+  const created = await invokeHandler(escrowCreateHandler, {
+    body: { depositor: DEPOSITOR, beneficiary: BENEFICIARY, arbiter: ARBITER, token: "USDC", amount: "100", ...body },
+  });
+  assert.strictEqual(created.status, 200, JSON.stringify(created.body));
+  const id = created.body.escrow.id;
+  assert.ok(await escrowDb.markFunded(id, new Date().toISOString()));
+  return id;
+}
+
+/** Run `handler` as if it read the escrow before `meanwhile` changed it. */
+async function withStaleRead<T>(id: string, meanwhile: () => Promise<unknown>, handler: () => Promise<T>): Promise<T> {
+  const stale = (await escrowDb.get(id))!;
+  await meanwhile();
+  const get = escrowDb.get;
+  escrowDb.get = async () => structuredClone(stale);
+  try {
+    return await handler();
+  } finally {
+    escrowDb.get = get;
+  }
+}
+
+async function expire(id: string): Promise<void> {
+  await storage.update("escrows", [eq("id", id)], { expires_at: new Date(Date.now() - 60_000).toISOString() });
+}
+
+let passed = 0;
+async function test(name: string, fn: () => Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("escrow lifecycle");
+
+  await test("a funded escrow that expires can be refunded to the depositor", async () => {
+    const id = await fundedEscrow();
+    await expire(id);
+
+    const view = await invokeHandler(escrowGetHandler, { method: "GET", params: { id } });
+    assert.strictEqual(view.body.escrow.status, "expired");
+    const release = await invokeHandler(escrowReleaseHandler, { body: { escrowId: id, caller: DEPOSITOR } });
+    assert.strictEqual(release.status, 400);
+    const stranger = await invokeHandler(escrowCancelHandler, { body: { escrowId: id, caller: BENEFICIARY } });
+    assert.strictEqual(stranger.status, 403);
+
+    const refund = await invokeHandler(escrowCancelHandler, { body: { escrowId: id, caller: DEPOSITOR } });
+    assert.strictEqual(refund.status, 200, JSON.stringify(refund.body));
+    assert.deepStrictEqual([refund.body.escrow.status, refund.body.escrow.refundAmount], ["cancelled", "100.0"]);
+    assert.strictEqual(refund.body.transaction.signer, HOLDING);
+    assert.ok(refund.body.transaction.data.includes(DEPOSITOR.slice(2)));
+    assert.strictEqual((await escrowDb.get(id))!.status, "cancelled");
+  });
+
+  await test("an escrow that expires unfunded has nothing to refund", async () => {
+    const created = await invokeHandler(escrowCreateHandler, {
+      body: { depositor: DEPOSITOR, beneficiary: BENEFICIARY, token: "USDC", amount: "5" },
+    });
+    await expire(created.body.escrow.id);
+    const cancel = await invokeHandler(escrowCancelHandler, { body: { escrowId: created.body.escrow.id, caller: DEPOSITOR } });
+    assert.deepStrictEqual([cancel.status, cancel.body.error], [400, "Escrow expired unfunded — nothing to refund"]);
+  });
+
+  await test("concurrent releases of one milestone pay it out once", async () => {
+    const id = await fundedEscrow({ conditions: [{ description: "Design", amount: "40" }, { description: "Build", amount: "60" }] });
+    const release = () => invokeHandler(escrowReleaseHandler, { body: { escrowId: id, caller: DEPOSITOR, milestoneId: "M1" } });
+    const results = await Promise.all([release(), release()]);
+    assert.deepStrictEqual(results.map((r) => r.status).sort(), [200, 409]);
+
+    const escrow = (await escrowDb.get(id))!;
+    assert.deepStrictEqual([escrow.status, escrow.releasedRaw], ["funded", "40000000"]);
+    const again = await release();
+    assert.deepStrictEqual([again.status, again.body.error], [400, "Milestone M1 is already released"]);
+  });
+
+  await test("an approval that read the escrow before a release or cancel doesn't overwrite it", async () => {
+    const id = await fundedEscrow({ conditions: [{ description: "Design", amount: "40" }, { description: "Build", amount: "60" }] });
+    const approve = () => invokeHandler(escrowMilestoneApproveHandler, { body: { escrowId: id, caller: DEPOSITOR, milestoneId: "M1" } });
+    const raced = await withStaleRead(
+      id, () => invokeHandler(escrowReleaseHandler, { body: { escrowId: id, caller: DEPOSITOR, milestoneId: "M1" } }), approve,
+    );
+    assert.strictEqual(raced.status, 409);
+    const escrow = (await escrowDb.get(id))!;
+    assert.deepStrictEqual([escrow.milestones[0].status, escrow.releasedRaw], ["released", "40000000"]);
+    const again = await invokeHandler(escrowReleaseHandler, { body: { escrowId: id, caller: DEPOSITOR, milestoneId: "M1" } });
+    assert.strictEqual(again.status, 400);
+
+    const afterCancel = await withStaleRead(
+      id, () => invokeHandler(escrowCancelHandler, { body: { escrowId: id, caller: ARBITER } }),
+      () => invokeHandler(escrowMilestoneApproveHandler, { body: { escrowId: id, caller: DEPOSITOR, milestoneId: "M2" } }),
+    );
+    assert.strictEqual(afterCancel.status, 409);
+    assert.deepStrictEqual((await escrowDb.get(id))!.milestones.map((m: any) => m.status), ["released", "refunded"]);
+  });
+
+  await test("an expired dispute is settled once, by the watcher, with the default outcome", async () => {
+    const id = await fundedEscrow();
+    const opened = await invokeHandler(escrowDisputeHandler, { body: { escrowId: id, caller: BENEFICIARY, reason: "Work delivered" } });
+    assert.strictEqual(opened.status, 200, JSON.stringify(opened.body));
+    const afterDeadline = new Date(new Date(opened.body.dispute.deadline).getTime() + 1000);
+
+    // Reading the escrow no longer settles it
+    const view = await invokeHandler(escrowGetHandler, { method: "GET", params: { id } });
+    assert.strictEqual(view.body.escrow.status, "disputed");
+
+    const [first, second] = await Promise.all([settleExpiredDisputes(null, afterDeadline), settleExpiredDisputes(null, afterDeadline)]);
+    assert.strictEqual(first + second, 1);
+    const escrow = (await escrowDb.get(id))!;
+    assert.deepStrictEqual([escrow.status, escrow.dispute.status, escrow.dispute.resolution.resolvedBy], ["resolved", "expired", "system"]);
+
+    const late = await invokeHandler(escrowDisputeResolveHandler, { body: { escrowId: id, caller: ARBITER, split: { beneficiary: 100, depositor: 0 } } });
+    assert.strictEqual(late.status, 400);
+    assert.strictEqual(await settleExpiredDisputes(null, afterDeadline), 0);
+  });
+
+  await test("opening a dispute or adding evidence after a release or settlement is refused", async () => {
+    const id = await fundedEscrow();
+    const opened = await withStaleRead(
+      id, () => invokeHandler(escrowReleaseHandler, { body: { escrowId: id, caller: DEPOSITOR } }),
+      () => invokeHandler(escrowDisputeHandler, { body: { escrowId: id, caller: BENEFICIARY, reason: "Late" } }),
+    );
+    assert.strictEqual(opened.status, 409);
+    assert.deepStrictEqual([(await escrowDb.get(id))!.status, (await escrowDb.get(id))!.dispute], ["released", null]);
+
+    const disputed = await fundedEscrow();
+    await invokeHandler(escrowDisputeHandler, { body: { escrowId: disputed, caller: BENEFICIARY, reason: "Work delivered" } });
+    const evidence = await withStaleRead(
+      disputed,
+      () => invokeHandler(escrowDisputeResolveHandler, { body: { escrowId: disputed, caller: ARBITER, split: { beneficiary: 70, depositor: 30 } } }),
+      () => invokeHandler(escrowDisputeEvidenceHandler, { body: { escrowId: disputed, caller: DEPOSITOR, text: "Never arrived" } }),
+    );
+    assert.strictEqual(evidence.status, 409);
+    const escrow = (await escrowDb.get(disputed))!;
+    assert.deepStrictEqual([escrow.status, escrow.dispute.status, escrow.dispute.resolution.beneficiaryBps], ["resolved", "resolved", 7000]);
+  });
+
+  await test("only the depositor records a funding tx, and a tx funds one escrow even when two claims race", async () => {
+    const create = () => invokeHandler(escrowCreateHandler, { body: { depositor: DEPOSITOR, beneficiary: BENEFICIARY, token: "USDC", amount: "10" } });
+    const [first, second] = [(await create()).body.escrow.id, (await create()).body.escrow.id];
+    const txHash = `0x${"ab".repeat(32)}`;
+
+    const stranger = await invokeHandler(escrowFundHandler, { body: { escrowId: first, txHash, caller: BENEFICIARY } });
+    assert.strictEqual(stranger.status, 403);
+    assert.strictEqual((await invokeHandler(escrowFundHandler, { body: { escrowId: first, txHash } })).status, 400);
+    const funded = await invokeHandler(escrowFundHandler, { body: { escrowId: first, txHash, caller: DEPOSITOR } });
+    assert.strictEqual(funded.status, 200, JSON.stringify(funded.body));
+
+    // The second claim read no owner for the tx before the first one landed
+    const findByFundingTx = escrowDb.findByFundingTx;
+    escrowDb.findByFundingTx = async () => null;
+    try {
+      const raced = await invokeHandler(escrowFundHandler, { body: { escrowId: second, txHash: txHash.toUpperCase().replace("0X", "0x"), caller: DEPOSITOR } });
+      assert.strictEqual(raced.status, 409, JSON.stringify(raced.body));
+    } finally {
+      escrowDb.findByFundingTx = findByFundingTx;
+    }
+    assert.deepStrictEqual([(await escrowDb.get(first))!.fundingTxHash, (await escrowDb.get(second))!.fundingTxHash], [txHash, null]);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
@@ -0,0 +1,149 @@
+/**
+ * Tests for invoice export rendering (src/lib/invoice-export.ts).
+ *
+ * Pure renderers — no database or network needed.
+ *
+ *   npx ts-node --project test/tsconfig.json test/invoice-export.test.ts   (npm run test:invoice-export)
+ */
+
+import assert from "node:assert";
+import {
+  formatMoney, gatewayInvoiceDocument, sctpInvoiceDocument, renderUbl, renderJsonLd, renderPdf, InvoiceExportError,
+} from "../src/lib/invoice-export.js";
+
+let passed = 0;
+function test(name: string, fn: () => void): void {
+  fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+const CREATOR = "0x1111111111111111111111111111111111111111";
+const PAYER = "0x2222222222222222222222222222222222222222";
+const TX = "0x" + "ab".repeat(32);
+
+const pending = {
+  id: "INV-00AA11BB22CC33DD", creator: CREATOR, recipient: PAYER,
+  token: { symbol: "USDC", name: "USD Coin", address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6 },
+  amount: "1500", amountRaw: "1500000000", payAmountRaw: "1500000123", receivedRaw: "0", payments: [],
+  memo: "Web development <March> & hosting", reference: "PRJ-042", dueDate: "2026-04-15T00:00:00.000Z",
+  status: "pending", paymentTx: null, paidAt: null, createdAt: "2026-03-31T10:00:00.000Z",
+};
+const paid = {
+  ...pending, status: "paid", receivedRaw: "1500000123", paymentTx: TX, paidAt: "2026-04-02T09:30:00.000Z",
+  payments: [{ txHash: TX, logIndex: 3, blockNumber: 100, from: PAYER, amount: "1500.000123", amountRaw: "1500000123", matchedBy: "suffix", detectedAt: "2026-04-02T09:30:00.000Z" }],
+};
+
+console.log("invoice export");
+
+test("formatMoney rounds half up to fixed places", () => {
+  assert.strictEqual(formatMoney("1500", 2), "1500.00");
+  assert.strictEqual(formatMoney("1500.005", 2), "1500.01");
+  assert.strictEqual(formatMoney(0.1 * 3, 2), "0.30");
+  assert.strictEqual(formatMoney("-2.5", 0), "-3");
+  assert.throws(() => formatMoney("12abc"), InvoiceExportError);
+});
+
+test("gateway invoices are stated in the pegged fiat currency", () => {
+  const doc = gatewayInvoiceDocument(pending);
+  assert.strictEqual(doc.currency, "USD");
+  assert.strictEqual(doc.total, "1500.00");
+  assert.strictEqual(doc.payable, "1500.00");
+  assert.strictEqual(doc.issueDate, "2026-03-31");
+  assert.strictEqual(doc.paymentReference, "spraay:INV-00AA11BB22CC33DD");
+});
+
+test("WETH invoices are stated in fiat at the locked rate, with the token amounts in a note", () => {
+  const fiatValue = { currency: "USD", token: "WETH", rate: "0.0004", source: "coingecko", quotedAt: "2026-03-31T10:00:00.000Z" };
+  const weth = {
+    ...pending, token: { ...pending.token, symbol: "WETH", decimals: 18 }, amount: "0.25", amountRaw: "250000000000000000",
+    receivedRaw: "100000000000000000", fiatValue,
+  };
+  const doc = gatewayInvoiceDocument(weth);
+  assert.strictEqual(doc.currency, "USD");
+  assert.strictEqual(doc.total, "625.00");
+  assert.strictEqual(doc.paid, "250.00");
+  assert.strictEqual(doc.payable, "375.00");
+  assert.deepStrictEqual(doc.settlement, { symbol: "WETH", total: "0.25", paid: "0.1", rate: "0.0004", source: "coingecko", quotedAt: fiatValue.quotedAt });
+
+  const ubl = renderUbl(doc);
+  assert.match(ubl, /<cbc:DocumentCurrencyCode>USD</);
+  assert.match(ubl, /<cbc:PayableAmount currencyID="USD">375\.00</);
+  assert.doesNotMatch(ubl, /currencyID="WETH"/);
+  assert.match(ubl, /<cbc:Note>Settled in WETH: 0\.25 WETH \(paid 0\.1\), valued at 1 USD = 0\.0004 WETH/);
+  assert.deepStrictEqual(renderJsonLd(doc)["spraay:settlement"], doc.settlement);
+  assert.throws(() => gatewayInvoiceDocument({ ...weth, fiatValue: null }), InvoiceExportError);
+});
+
+test("UBL carries Peppol identifiers, escaped text and the tx hash once paid", () => {
+  const open = renderUbl(gatewayInvoiceDocument(pending));
+  assert.match(open, /<cbc:CustomizationID>urn:cen\.eu:en16931:2017#compliant#urn:fdc:peppol\.eu:2017:poacc:billing:3\.0</);
+  assert.match(open, /<cbc:DueDate>2026-04-15<\/cbc:DueDate>/);
+  assert.match(open, /Web development &lt;March&gt; &amp; hosting/);
+  assert.match(open, /<cbc:PayableAmount currencyID="USD">1500\.00</);
+  assert.ok(!open.includes("PrepaidPayment"));
+
+  const settled = renderUbl(gatewayInvoiceDocument(paid));
+  assert.match(settled, new RegExp(`<cac:PrepaidPayment><cbc:ID>${TX}</cbc:ID><cbc:PaidAmount currencyID="USD">1500\\.00</cbc:PaidAmount><cbc:ReceivedDate>2026-04-02<`));
+  assert.match(settled, /<cbc:PrepaidAmount currencyID="USD">1500\.00</);
+  assert.match(settled, /<cbc:PayableAmount currencyID="USD">0\.00</);
+  // PrepaidPayment sits between PaymentMeans and TaxTotal in the UBL sequence
+  assert.ok(settled.indexOf("</cac:PaymentMeans>") < settled.indexOf("<cac:PrepaidPayment>"));
+  assert.ok(settled.indexOf("<cac:PrepaidPayment>") < settled.indexOf("<cac:TaxTotal>"));
+});
+
+test("JSON-LD maps status and proof of payment", () => {
+  const open = renderJsonLd(gatewayInvoiceDocument({ ...pending, status: "overdue" }));
+  assert.strictEqual(open["@type"], "Invoice");
+  assert.strictEqual(open.paymentStatus, "https://schema.org/PaymentPastDue");
+  assert.strictEqual(open.confirmationNumber, undefined);
+
+  const settled = renderJsonLd(gatewayInvoiceDocument(paid));
+  assert.strictEqual(settled.paymentStatus, "https://schema.org/PaymentComplete");
+  assert.strictEqual(settled.confirmationNumber, TX);
+  assert.strictEqual(settled["spraay:payments"][0].explorer, `https://basescan.org/tx/${TX}`);
+});
+
+test("SCTP invoices use line items, PO reference and the recorded tx hash", () => {
+  const doc = sctpInvoiceDocument(
+    { id: "c0ffee00-0000-4000-8000-000000000001", po_id: "po-1", supplier_id: "sup-1", currency: "USD", total: 250.5, status: "paid",
+      items: [{ description: "Widgets", quantity: 3, unitPrice: 50.1 }, { description: "Freight", price: 100.2 }],
+      tx_hash: TX, paid_at: "2026-05-01T00:00:00Z", created_at: "2026-04-20T08:00:00Z" },
+    { name: "Acme Supply", wallet: CREATOR, chain: "arbitrum", contact_email: "ar@acme.test" },
+  );
+  assert.deepStrictEqual(doc.lines.map((l) => l.amount), ["150.30", "100.20"]);
+  assert.strictEqual(doc.paid, "250.50");
+  assert.strictEqual(doc.payable, "0.00");
+  assert.strictEqual(doc.payments[0].network, "arbitrum");
+  const ubl = renderUbl(doc);
+  assert.match(ubl, /<cac:OrderReference><cbc:ID>po-1<\/cbc:ID><\/cac:OrderReference>/);
+  assert.match(ubl, /<cbc:ElectronicMail>ar@acme\.test</);
+});
+
+test("PDF is deterministic with a valid cross-reference table", () => {
+  const a = renderPdf(gatewayInvoiceDocument(paid));
+  const b = renderPdf(gatewayInvoiceDocument(paid));
+  assert.ok(a.equals(b));
+  assert.ok(!a.equals(renderPdf(gatewayInvoiceDocument(pending))));
+
+  const text = a.toString("latin1");
+  assert.ok(text.startsWith("%PDF-1.4"));
+  assert.ok(text.includes(`(Tx ${TX})`));
+  const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(text)![1]);
+  assert.ok(text.slice(startxref).startsWith("xref\n"));
+  const entries = text.slice(startxref).split("\n").slice(3).filter((l) => / 00000 n $/.test(l));
+  entries.forEach((entry, i) => {
+    const offset = Number(entry.slice(0, 10));
+    assert.ok(text.slice(offset).startsWith(`${i + 1} 0 obj`), `xref entry ${i + 1}`);
+  });
+});
+
+test("long invoices paginate", () => {
+  const items = Array.from({ length: 120 }, (_, i) => ({ description: `Line item ${i + 1}`, quantity: 1, unitPrice: 1 }));
+  const pdf = renderPdf(sctpInvoiceDocument({ id: "x", supplier_id: "s", total: 120, status: "submitted", items, created_at: "2026-01-01T00:00:00Z" }, null));
+  const count = Number(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/.exec(pdf.toString("latin1"))![1]);
+  assert.ok(count >= 3, `expected several pages, got ${count}`);
+});
+
+console.log(`\n${passed} passed`);
+process.exit(0);
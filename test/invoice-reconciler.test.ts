@@ -0,0 +1,144 @@
+/**
+ * Tests for invoice payment matching (src/services/invoice-reconciler.ts).
+ *
+ * Pure functions plus a fake chain reader — no RPC needed; recording runs
+ * against the in-memory storage backend.
+ *
+ *   npx ts-node --project test/tsconfig.json test/invoice-reconciler.test.ts   (npm run test:invoice)
+ */
+
+import assert from "node:assert";
+import { AbiCoder, Interface, zeroPadValue, id } from "ethers";
+import {
+  matchTransfer, applyPayment, paymentStatus, pickPayAmount, withInvoiceMemo, scanTransfers, reconcileTransfers,
+  InvoiceChainReader, ObservedTransfer, ReconcilableInvoice,
+} from "../src/services/invoice-reconciler.js";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const CREATOR = "0x1111111111111111111111111111111111111111";
+const PAYER = "0x2222222222222222222222222222222222222222";
+const TRANSFER = id("Transfer(address,address,uint256)");
+const ERC20 = new Interface(["function transfer(address to, uint256 amount) returns (bool)"]);
+
+function invoice(idSuffix: string, amountRaw: string, payAmountRaw: string | null, extra: Partial<ReconcilableInvoice> = {}): ReconcilableInvoice {
+  return {
+    id: `INV-${idSuffix}`, creator: CREATOR, status: "pending", amountRaw, payAmountRaw,
+    receivedRaw: "0", payments: [], token: { address: USDC, decimals: 6 }, ...extra,
+  };
+}
+
+function transfer(valueRaw: bigint, txData: string | null = null, logIndex = 0): ObservedTransfer {
+  return { txHash: "0x" + "ab".repeat(32), logIndex, blockNumber: 100, from: PAYER, to: CREATOR, token: USDC, valueRaw, txData };
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+async function main() {
+  console.log("invoice payment reconciliation");
+
+  await test("pickPayAmount adds a suffix that avoids taken amounts", () => {
+    const first = pickPayAmount(100_000_000n, 6, new Set(), () => 0);
+    assert.strictEqual(first, 100_000_001n);
+    const second = pickPayAmount(100_000_000n, 6, new Set(["100000001"]), () => 0);
+    assert.strictEqual(second, 100_000_002n);
+    // 18-decimal tokens still get a suffix in micro-units
+    assert.strictEqual(pickPayAmount(10n ** 18n, 18, new Set(), () => 0), 10n ** 18n + 10n ** 12n);
+  });
+
+  await test("memo in calldata wins, whatever the amount", () => {
+    const a = invoice("AAAA", "100000000", "100000007");
+    const b = invoice("BBBB", "100000000", "100000042");
+    const data = withInvoiceMemo(ERC20.encodeFunctionData("transfer", [CREATOR, 40_000_000n]), b.id);
+    const match = matchTransfer([a, b], transfer(40_000_000n, data));
+    assert.strictEqual(match?.invoice.id, b.id);
+    assert.strictEqual(match?.matchedBy, "memo");
+  });
+
+  await test("unique amount suffix matches without a memo", () => {
+    const a = invoice("AAAA", "100000000", "100000007");
+    const b = invoice("BBBB", "100000000", "100000042");
+    const match = matchTransfer([a, b], transfer(100_000_042n));
+    assert.strictEqual(match?.invoice.id, b.id);
+    assert.strictEqual(match?.matchedBy, "suffix");
+  });
+
+  await test("bare amount only matches when unambiguous", () => {
+    const a = invoice("AAAA", "100000000", null);
+    assert.strictEqual(matchTransfer([a], transfer(100_000_000n))?.matchedBy, "amount");
+    const b = invoice("BBBB", "100000000", null);
+    assert.strictEqual(matchTransfer([a, b], transfer(100_000_000n)), null);
+    assert.strictEqual(matchTransfer([a], transfer(99_000_000n)), null);
+  });
+
+  await test("transfers to other addresses or tokens are ignored", () => {
+    const a = invoice("AAAA", "100000000", "100000007");
+    assert.strictEqual(matchTransfer([a], { ...transfer(100_000_007n), to: PAYER }), null);
+    assert.strictEqual(matchTransfer([a], { ...transfer(100_000_007n), token: CREATOR }), null);
+  });
+
+  await test("an already-recorded log is not matched twice", () => {
+    const a = invoice("AAAA", "100000000", "100000007");
+    const next = applyPayment(a, transfer(100_000_007n), "suffix", "2026-01-01T00:00:00.000Z");
+    const paid = { ...a, ...next };
+    assert.strictEqual(matchTransfer([paid], transfer(100_000_007n)), null);
+  });
+
+  await test("status follows the running total", () => {
+    const a = invoice("AAAA", "100000000", "100000007");
+    assert.strictEqual(paymentStatus(a, 40_000_000n), "partially_paid");
+    assert.strictEqual(paymentStatus(a, 100_000_000n), "paid");
+    assert.strictEqual(paymentStatus(a, 100_000_007n), "paid");
+    assert.strictEqual(paymentStatus(a, 100_000_008n), "overpaid");
+
+    const first = applyPayment(a, transfer(60_000_000n), "memo", "t1");
+    assert.strictEqual(first.status, "partially_paid");
+    const second = applyPayment({ ...a, ...first }, transfer(50_000_000n, null, 1), "memo", "t2");
+    assert.strictEqual(second.status, "overpaid");
+    assert.strictEqual(second.receivedRaw, "110000000");
+    assert.strictEqual(second.payments.length, 2);
+  });
+
+  await test("a transfer that can't be recorded is handed back for a rescan", async () => {
+    // Not in storage, so recording its payment loses the compare-and-set
+    const stale = { ...invoice("STALE", "5000000", "5000123"), updatedAt: "2026-01-01T00:00:00.000Z" };
+    const later = { ...transfer(1n), blockNumber: 140 };
+    const result = await reconcileTransfers([stale], [{ ...transfer(5_000_123n), blockNumber: 120 }, later]);
+    assert.deepStrictEqual(result, { recorded: 0, retryFromBlock: 120 });
+  });
+
+  await test("scanTransfers attaches calldata and filters by creator topic", async () => {
+    const a = invoice("AAAA", "100000000", "100000007");
+    const data = withInvoiceMemo(ERC20.encodeFunctionData("transfer", [CREATOR, 100_000_007n]), a.id);
+    let filterSeen: any = null;
+    const reader: InvoiceChainReader = {
+      getBlockNumber: async () => 200,
+      getLogs: async (filter) => {
+        filterSeen = filter;
+        return [{
+          transactionHash: "0x" + "cd".repeat(32), index: 3, blockNumber: 150,
+          topics: [TRANSFER, zeroPadValue(PAYER, 32), zeroPadValue(CREATOR, 32)],
+          data: AbiCoder.defaultAbiCoder().encode(["uint256"], [100_000_007n]),
+        }];
+      },
+      getTransaction: async () => ({ data }),
+    };
+    const transfers = await scanTransfers(reader, [a], 100, 199);
+    assert.deepStrictEqual(filterSeen.topics[2], [zeroPadValue(CREATOR, 32).toLowerCase()]);
+    assert.strictEqual(transfers.length, 1);
+    assert.strictEqual(transfers[0].valueRaw, 100_000_007n);
+    assert.strictEqual(matchTransfer([a], transfers[0])?.matchedBy, "memo");
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("\nFAILED:", err);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for recurring invoice dates and reminder spacing
+ * (src/lib/invoice-recurrence.ts, src/lib/invoice-reminders.ts).
+ *
+ *   npx ts-node --project test/tsconfig.json test/invoice-recurrence.test.ts   (npm run test:invoice-recurring)
+ */
+
+import assert from "node:assert";
+import { Wallet } from "ethers";
+import { parseRecurrence, nextIssueDate, InvoiceScheduleError } from "../src/lib/invoice-recurrence.js";
+import {
+  parseReminderPolicy, reminderBlock, nextReminderAt, InvoiceReminderError, ReminderEvent, creatorRemindMessage, verifyCreatorSignature,
+} from "../src/lib/invoice-reminders.js";
+
+let passed = 0;
+function test(name: string, fn: () => void): void {
+  fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+const d = (iso: string) => new Date(iso);
+const sent = (at: string, ok = true): ReminderEvent => ({
+  at, trigger: "schedule", overdue: false, deliveries: [{ channel: "email", to: "ap@client.com", ok, error: ok ? null : "down" }],
+});
+const policy = parseReminderPolicy({ channels: [{ type: "email", to: "ap@client.com" }], beforeDueHours: 48, repeatEveryHours: 72, maxReminders: 3 });
+
+console.log("recurring invoices");
+
+test("weekly adds interval weeks", () => {
+  const r = parseRecurrence({ frequency: "weekly", interval: 2 }, d("2026-03-02T09:00:00Z"));
+  assert.strictEqual(nextIssueDate(r, d("2026-03-02T09:00:00Z"))!.toISOString(), "2026-03-16T09:00:00.000Z");
+});
+
+test("monthly keeps the anchor day and clamps short months", () => {
+  const r = parseRecurrence({ frequency: "monthly" }, d("2026-01-31T00:00:00Z"));
+  const feb = nextIssueDate(r, d("2026-01-31T00:00:00Z"))!;
+  assert.strictEqual(feb.toISOString(), "2026-02-28T00:00:00.000Z");
+  assert.strictEqual(nextIssueDate(r, feb)!.toISOString(), "2026-03-31T00:00:00.000Z");
+  const dec = parseRecurrence({ frequency: "monthly", interval: 3 }, d("2026-11-15T00:00:00Z"));
+  assert.strictEqual(nextIssueDate(dec, d("2026-11-15T00:00:00Z"))!.toISOString(), "2027-02-15T00:00:00.000Z");
+});
+
+test("custom uses the cron expression in its timezone", () => {
+  const r = parseRecurrence({ frequency: "custom", cron: "0 9 1,15 * *", timezone: "America/New_York" }, d("2026-03-01T00:00:00Z"));
+  assert.strictEqual(nextIssueDate(r, d("2026-03-02T00:00:00Z"))!.toISOString(), "2026-03-15T13:00:00.000Z");
+});
+
+test("invalid recurrence input is rejected", () => {
+  assert.throws(() => parseRecurrence({ frequency: "daily" }, new Date()), InvoiceScheduleError);
+  assert.throws(() => parseRecurrence({ frequency: "custom" }, new Date()), InvoiceScheduleError);
+  assert.throws(() => parseRecurrence({ frequency: "custom", cron: "bad" }, new Date()), InvoiceScheduleError);
+  assert.throws(() => parseRecurrence({ frequency: "weekly", interval: 0 }, new Date()), InvoiceScheduleError);
+  assert.throws(() => parseRecurrence({ frequency: "weekly", timezone: "Mars/Base" }, new Date()), InvoiceScheduleError);
+});
+
+console.log("invoice reminders");
+
+test("reminder policy validation", () => {
+  assert.throws(() => parseReminderPolicy({ channels: [] }), InvoiceReminderError);
+  assert.throws(() => parseReminderPolicy({ channels: [{ type: "email", to: "nope" }] }), InvoiceReminderError);
+  assert.throws(() => parseReminderPolicy({ channels: [{ type: "xmtp", to: "0x123" }] }), InvoiceReminderError);
+  assert.throws(() => parseReminderPolicy({ channels: [{ type: "webhook" }], repeatEveryHours: 1 }), InvoiceReminderError);
+  assert.strictEqual(parseReminderPolicy({ channels: [{ type: "webhook" }] }).maxReminders, 3);
+});
+
+test("schedule: before due, at due, then every repeat interval", () => {
+  const invoice = { status: "pending", dueDate: "2026-04-10T00:00:00.000Z" };
+  assert.strictEqual(nextReminderAt(invoice, policy, [])!.toISOString(), "2026-04-08T00:00:00.000Z");
+  const afterFirst = nextReminderAt(invoice, policy, [sent("2026-04-08T00:00:00.000Z")]);
+  assert.strictEqual(afterFirst!.toISOString(), "2026-04-10T00:00:00.000Z");
+  const afterSecond = nextReminderAt({ ...invoice, status: "overdue" }, policy, [sent("2026-04-08T00:00:00.000Z"), sent("2026-04-10T00:00:00.000Z")]);
+  assert.strictEqual(afterSecond!.toISOString(), "2026-04-13T00:00:00.000Z");
+});
+
+test("no schedule once the cap is hit, the invoice is paid, or there is no due date", () => {
+  const invoice = { status: "overdue", dueDate: "2026-04-10T00:00:00.000Z" };
+  const three = [sent("2026-04-08T00:00:00.000Z"), sent("2026-04-10T00:00:00.000Z"), sent("2026-04-13T00:00:00.000Z")];
+  assert.strictEqual(nextReminderAt(invoice, policy, three), null);
+  assert.strictEqual(nextReminderAt({ ...invoice, status: "paid" }, policy, []), null);
+  assert.strictEqual(nextReminderAt({ ...invoice, dueDate: null }, policy, []), null);
+});
+
+test("anti-spam gate applies to every trigger", () => {
+  const now = d("2026-04-10T12:00:00.000Z");
+  assert.strictEqual(reminderBlock({ status: "overdue" }, [], 3, now), null);
+  assert.match(reminderBlock({ status: "overdue" }, [sent("2026-04-10T00:00:00.000Z")], 3, now)!, /next allowed after/);
+  // Failed attempts still space out retries but don't count toward the cap
+  assert.match(reminderBlock({ status: "overdue" }, [sent("2026-04-10T00:00:00.000Z", false)], 1, now)!, /next allowed after/);
+  assert.strictEqual(reminderBlock({ status: "overdue" }, [sent("2026-04-01T00:00:00.000Z", false)], 1, now), null);
+  assert.match(reminderBlock({ status: "overdue" }, [sent("2026-04-01T00:00:00.000Z")], 1, now)!, /limit reached/);
+  assert.match(reminderBlock({ status: "paid" }, [], null, now)!, /paid/);
+});
+
+test("channel overrides need a fresh signature from the creator wallet", () => {
+  const creator = Wallet.createRandom();
+  const signedAt = "2026-03-01T12:00:00.000Z";
+  const now = new Date("2026-03-01T12:05:00Z");
+  const signature = creator.signMessageSync(creatorRemindMessage(creator.address, signedAt));
+  const status = (fn: () => void) => {
+    try { fn(); return 200; } catch (err) { assert.ok(err instanceof InvoiceReminderError); return err.status; }
+  };
+
+  assert.strictEqual(status(() => verifyCreatorSignature(creator.address, signature, signedAt, now)), 200);
+  assert.strictEqual(status(() => verifyCreatorSignature(creator.address, undefined, undefined, now)), 401);
+  assert.strictEqual(status(() => verifyCreatorSignature(creator.address, signature, signedAt, new Date("2026-03-01T12:30:00Z"))), 401);
+  assert.strictEqual(status(() => verifyCreatorSignature(Wallet.createRandom().address, signature, signedAt, now)), 403);
+});
+
+console.log(`\n${passed} passed`);
+process.exit(0);
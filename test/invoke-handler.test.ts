@@ -0,0 +1,54 @@
+/**
+ * Tests for in-process handler invocation (src/lib/invoke-handler.ts),
+ * which the cron, invoice and payroll schedulers dispatch through.
+ *
+ *   npx ts-node --project test/tsconfig.json test/invoke-handler.test.ts   (npm run test:invoke)
+ */
+
+import assert from "node:assert";
+import { Request, Response } from "express";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+
+let passed = 0;
+async function test(name: string, fn: () => Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("invoke handler");
+
+  await test("resolves with the status and body the handler sent", async () => {
+    const result = await invokeHandler((req: Request, res: Response) => res.status(201).json({ echo: req.body.value, q: req.query.q }), {
+      body: { value: 7 }, query: { q: "x" },
+    });
+    assert.deepStrictEqual(result, { status: 201, body: { echo: 7, q: "x" } });
+  });
+
+  await test("a thrown error becomes a 500", async () => {
+    const result = await invokeHandler(async () => { throw new Error("boom"); });
+    assert.deepStrictEqual(result, { status: 500, body: { error: "boom" } });
+  });
+
+  await test("a handler that never responds resolves with 504 after timeoutMs", async () => {
+    const started = Date.now();
+    const result = await invokeHandler(() => new Promise(() => {}), { timeoutMs: 50 });
+    assert.strictEqual(result.status, 504);
+    assert.match(result.body.error, /timed out after 50ms/);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  await test("a response before the timeout wins, and a late one is dropped", async () => {
+    const fast = await invokeHandler((_req: Request, res: Response) => res.json({ ok: true }), { timeoutMs: 1000 });
+    assert.deepStrictEqual(fast, { status: 200, body: { ok: true } });
+    const late = await invokeHandler(
+      (_req: Request, res: Response) => new Promise((done) => setTimeout(() => done(res.json({ ok: true })), 100)),
+      { timeoutMs: 20 },
+    );
+    assert.strictEqual(late.status, 504);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
@@ -0,0 +1,137 @@
+/**
+ * Tests for the L402 rail (src/lightning/*, src/middleware/l402Middleware.ts).
+ *
+ * Invoices come from MockLightningAdapter, which hands back the preimage
+ * when "paid"; tokens live in the in-memory storage backend.
+ *
+ *   npx ts-node --project test/tsconfig.json test/l402.test.ts   (npm run test:l402)
+ */
+
+import assert from "node:assert";
+import { EventEmitter } from "node:events";
+import type { Request, Response } from "express";
+import { createL402Middleware } from "../src/middleware/l402Middleware.js";
+import { L402Config, issueL402Challenge, redeemL402 } from "../src/lightning/l402.js";
+import { MockLightningAdapter } from "../src/lightning/lightningAdapter.js";
+import { addCaveat, decodeMacaroon, encodeMacaroon, mintMacaroon, signatureValid } from "../src/lightning/macaroon.js";
+import { usdToSats } from "../src/lightning/satPricing.js";
+
+const adapter = new MockLightningAdapter();
+
+function config(overrides: Partial<L402Config> = {}): L402Config {
+  return {
+    rootKey: Buffer.alloc(32, 7), adapter, btcUsd: async () => 100_000,
+    maxUses: 1, tokenTtlSeconds: 3600, invoiceExpirySeconds: 600, location: "test", ...overrides,
+  };
+}
+
+interface Outcome {
+  status: number;
+  body: any;
+  paid: boolean;
+  finish: (status: number) => Promise<void>;
+}
+
+/**
+ * Run one request through the middleware. Unpaid requests get the 402 the
+ * x402 gate further down would send.
+ */
+function call(middleware: ReturnType<typeof createL402Middleware>, path: string, authorization?: string): Promise<Outcome> {
+  const req: any = {
+    method: "POST", path, ip: "127.0.0.1",
+    headers: authorization ? { authorization } : {},
+    paymentProtocol: authorization ? "l402" : "none",
+  };
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  const finish = async (status: number) => {
+    res.statusCode = status;
+    res.emit("finish");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  };
+  return new Promise((resolve) => {
+    res.json = (body: any) => resolve({ status: res.statusCode, body, paid: false, finish });
+    middleware(req as Request, res as Response, () => {
+      if (req.l402Paid) return resolve({ status: 200, body: null, paid: true, finish });
+      res.status(402).json({ x402Version: 2, accepts: [] });
+    });
+  });
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("l402");
+
+  await test("macaroons match libmacaroons and survive a v2 round trip", async () => {
+    // The example from the libmacaroons README
+    const key = Buffer.from("this is our super secret key; only we should know it");
+    const minted = mintMacaroon(key, "http://mybank/", Buffer.from("we used our secret key"));
+    assert.strictEqual(minted.signature.toString("hex"), "e3d9e02908526c4c0039ae15114115d97fdd68bf2ba379b342aaf0f617d0552f");
+
+    const narrowed = addCaveat(addCaveat(minted, "account = 3735928559"), "time < 2035-01-01T00:00");
+    const decoded = decodeMacaroon(encodeMacaroon(narrowed));
+    assert.deepStrictEqual([decoded.location, decoded.identifier.toString(), decoded.caveats], ["http://mybank/", "we used our secret key", narrowed.caveats]);
+    assert.strictEqual(signatureValid(key, decoded), true);
+    assert.strictEqual(signatureValid(key, { ...decoded, caveats: [decoded.caveats[0]] }), false);
+    assert.deepStrictEqual([usdToSats(0.02, 100_000), usdToSats(0.001, 100_000), usdToSats(0.00001, 100_000)], [20, 1, 1]);
+  });
+
+  await test("a paid macaroon unlocks its calls once each, failed calls give the use back", async () => {
+    const cfg = config();
+    const mw = createL402Middleware({ config: cfg });
+    const challenge = await issueL402Challenge(cfg, { method: "POST", path: "/api/v1/batch/execute", priceUsd: "0.02" });
+    assert.deepStrictEqual([challenge.amountSats, challenge.amountUsd, challenge.maxUses], [20, "0.02", 1]);
+    assert.deepStrictEqual(decodeMacaroon(challenge.macaroon).caveats.slice(0, 1), ["endpoint=POST /api/v1/batch/execute"]);
+    const auth = `L402 ${challenge.macaroon}:${adapter.pay(challenge.invoice)}`;
+
+    const failed = await call(mw, "/api/v1/batch/execute", auth);
+    assert.strictEqual(failed.paid, true);
+    await failed.finish(500);
+
+    const ok = await call(mw, "/api/v1/batch/execute", auth);
+    assert.strictEqual(ok.paid, true);
+    await ok.finish(200);
+
+    const replay = await call(mw, "/api/v1/batch/execute", auth);
+    assert.deepStrictEqual([replay.status, replay.body.protocol, replay.body.detail], [402, "l402", "L402 token has already paid for 1 call"]);
+
+    // Requests without an L402 credential go on to the other rails
+    const unpaid = await call(mw, "/api/v1/batch/execute");
+    assert.deepStrictEqual([unpaid.status, unpaid.paid], [402, false]);
+  });
+
+  await test("caveats, preimage and signature are all enforced", async () => {
+    const cfg = config({ maxUses: 3 });
+    const route = { method: "POST", path: "/api/v1/batch/execute" };
+    const challenge = await issueL402Challenge(cfg, { ...route, priceUsd: "0.02" });
+    const preimage = adapter.pay(challenge.invoice);
+    const header = (macaroon: string, pre = preimage) => `L402 ${macaroon}:${pre}`;
+    const macaroon = decodeMacaroon(challenge.macaroon);
+
+    assert.strictEqual((await redeemL402(cfg, header(challenge.macaroon), { method: "POST", path: "/api/v1/swap/execute" })).error,
+      "Macaroon was issued for POST /api/v1/batch/execute");
+    assert.strictEqual((await redeemL402(cfg, header(challenge.macaroon, "00".repeat(32)), route)).error, "Preimage does not match the macaroon's invoice");
+    assert.strictEqual((await redeemL402(cfg, header(challenge.macaroon), route, new Date(Date.now() + 7_200_000))).error, "Macaroon has expired");
+    assert.strictEqual((await redeemL402(config({ rootKey: Buffer.alloc(32, 8) }), header(challenge.macaroon), route)).error, "Macaroon signature is invalid");
+    assert.strictEqual((await redeemL402(cfg, header(encodeMacaroon(addCaveat(macaroon, "tier=gold"))), route)).error, "Unknown caveat: tier");
+    assert.strictEqual((await redeemL402(cfg, "L402 nonsense", route)).error, "Authorization must be `L402 <macaroon>:<preimage>`");
+
+    // The holder can narrow the macaroon — here to 1 of its 3 uses — but not widen it
+    const narrowed = header(encodeMacaroon(addCaveat(macaroon, "max_uses=1")));
+    assert.strictEqual((await redeemL402(cfg, narrowed, route)).error, null);
+    assert.strictEqual((await redeemL402(cfg, narrowed, route)).error, "L402 token has already paid for 1 call");
+    const widened = header(encodeMacaroon({ ...macaroon, caveats: macaroon.caveats.map((c) => c.replace(/^max_uses=.*/, "max_uses=99")) }));
+    assert.strictEqual((await redeemL402(cfg, widened, route)).error, "Macaroon signature is invalid");
+    assert.strictEqual((await redeemL402(cfg, header(challenge.macaroon), route)).paymentHash, challenge.paymentHash);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
@@ -0,0 +1,112 @@
+/**
+ * Tests for the in-process storage adapter (src/storage/memory.ts).
+ *
+ * The memory adapter stands in for Supabase offline, so its filter semantics
+ * have to match what the stores in db.ts expect from PostgREST.
+ *
+ *   npx ts-node --project test/tsconfig.json test/memory-storage.test.ts   (npm run test:storage)
+ */
+
+import assert from "node:assert";
+import { MemoryStorage, eq, ilike, gte, inList, contains, anyOf } from "../src/storage/index.js";
+
+let passed = 0;
+function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  return Promise.resolve(fn()).then(() => {
+    passed++;
+    console.log(`  ✓ ${name}`);
+  });
+}
+
+async function main() {
+  console.log("memory storage adapter");
+
+  await test("insert fills id + created_at defaults and returns a copy", async () => {
+    const db = new MemoryStorage();
+    const row = await db.insert("sctp_suppliers", { name: "Acme", wallet: "0xabc" });
+    assert.ok(row.id);
+    assert.ok(row.created_at);
+    row.name = "mutated";
+    const stored = await db.findOne("sctp_suppliers", [eq("id", row.id)]);
+    assert.strictEqual(stored?.name, "Acme");
+  });
+
+  await test("insert with an explicit duplicate id is rejected", async () => {
+    const db = new MemoryStorage();
+    await db.insert("escrows", { id: "ESC-1" });
+    await assert.rejects(db.insert("escrows", { id: "ESC-1" }), /duplicate key/);
+  });
+
+  await test("an update that would duplicate a unique column is rejected and leaves rows untouched", async () => {
+    const db = new MemoryStorage();
+    await db.insert("escrows", { id: "ESC-1", funding_tx_hash: "0xaa" });
+    await db.insert("escrows", { id: "ESC-2", funding_tx_hash: null });
+    await db.insert("escrows", { id: "ESC-3", funding_tx_hash: null });
+    await assert.rejects(db.update("escrows", [eq("id", "ESC-2")], { funding_tx_hash: "0xaa" }), /duplicate key/);
+    await assert.rejects(db.update("escrows", [inList("id", ["ESC-2", "ESC-3"])], { funding_tx_hash: "0xbb" }), /duplicate key/);
+    assert.strictEqual((await db.findMany("escrows", { where: [eq("funding_tx_hash", null)] })).length, 2);
+    assert.strictEqual((await db.update("escrows", [eq("id", "ESC-1")], { funding_tx_hash: "0xaa" })).length, 1);
+  });
+
+  await test("ilike is case-insensitive and honours % wildcards", async () => {
+    const db = new MemoryStorage();
+    await db.insert("audit_log", { actor: "0xABCdef", resource: "escrow:ESC-42" });
+    assert.strictEqual((await db.findMany("audit_log", { where: [ilike("actor", "0xabcdef")] })).length, 1);
+    assert.strictEqual((await db.findMany("audit_log", { where: [ilike("resource", "%ESC-4%")] })).length, 1);
+    assert.strictEqual((await db.findMany("audit_log", { where: [ilike("resource", "ESC-4")] })).length, 0);
+  });
+
+  await test("anyOf / inList / contains match like the PostgREST operators", async () => {
+    const db = new MemoryStorage();
+    await db.insertMany("escrows", [
+      { id: "A", depositor: "0x1", beneficiary: "0x2", status: "funded" },
+      { id: "B", depositor: "0x3", beneficiary: "0x1", status: "released" },
+      { id: "C", depositor: "0x4", beneficiary: "0x5", status: "funded" },
+    ]);
+    const mine = await db.findMany("escrows", { where: [anyOf(ilike("depositor", "0x1"), ilike("beneficiary", "0x1"))] });
+    assert.deepStrictEqual(mine.map((r) => r.id).sort(), ["A", "B"]);
+    assert.strictEqual(await db.count("escrows", [inList("id", ["A", "C"]), eq("status", "funded")]), 2);
+
+    await db.insert("robots", { robot_id: "r1", capabilities: ["pick", "scan"] });
+    assert.strictEqual(await db.count("robots", [contains("capabilities", ["scan"])]), 1);
+    assert.strictEqual(await db.count("robots", [contains("capabilities", ["scan", "fly"])]), 0);
+  });
+
+  await test("order + limit + offset, numeric strings compare as numbers", async () => {
+    const db = new MemoryStorage();
+    await db.insertMany("robots", [{ p: "0.5" }, { p: "10" }, { p: "2" }]);
+    const asc = await db.findMany("robots", { orderBy: { column: "p" } });
+    assert.deepStrictEqual(asc.map((r) => r.p), ["0.5", "2", "10"]);
+    const page = await db.findMany("robots", { orderBy: { column: "p", ascending: false }, limit: 1, offset: 1 });
+    assert.deepStrictEqual(page.map((r) => r.p), ["2"]);
+    assert.strictEqual(await db.count("robots", [gte("p", "2")]), 2);
+  });
+
+  await test("update / remove return the affected rows", async () => {
+    const db = new MemoryStorage();
+    await db.insertMany("sctp_invoices", [{ id: "I1", status: "submitted" }, { id: "I2", status: "submitted" }]);
+    const updated = await db.update("sctp_invoices", [inList("id", ["I1", "I2"])], { status: "payment_initiated" });
+    assert.strictEqual(updated.length, 2);
+    assert.strictEqual((await db.update("sctp_invoices", [eq("id", "nope")], { status: "x" })).length, 0);
+    const [removed] = await db.remove("sctp_invoices", [eq("id", "I1")]);
+    assert.strictEqual(removed.status, "payment_initiated");
+    assert.strictEqual(await db.count("sctp_invoices"), 1);
+  });
+
+  await test("upsert replaces on the conflict columns", async () => {
+    const db = new MemoryStorage();
+    await db.upsert("price_cache", { coin_id: "ethereum", date: "01-01-2025", price_usd: 1 }, "coin_id,date");
+    await db.upsert("price_cache", { coin_id: "ethereum", date: "01-01-2025", price_usd: 2 }, "coin_id,date");
+    const rows = await db.findMany("price_cache");
+    assert.strictEqual(rows.length, 1);
+    assert.strictEqual(rows[0].price_usd, 2);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error("\nFAILED:", err);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for the hosted checkout helpers: wallet payment URIs
+ * (src/lib/payment-uris.ts) and the QR encoder (src/lib/qr.ts).
+ *
+ *   npx ts-node --project test/tsconfig.json test/payment-links.test.ts   (npm run test:pay)
+ */
+
+import assert from "node:assert";
+import { eip681TransferUri, solanaPayUrl } from "../src/lib/payment-uris.js";
+import { encodeQr, qrSvg, QrEncodeError } from "../src/lib/qr.js";
+
+let passed = 0;
+function test(name: string, fn: () => void): void {
+  fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const CREATOR = "0x1111111111111111111111111111111111111111";
+
+/** Read the 15 format bits around the top-left finder and strip the mask. */
+function formatInfo(modules: boolean[][]): { ecl: number; mask: number } {
+  const bit = (x: number, y: number) => (modules[y][x] ? 1 : 0);
+  let bits = 0;
+  for (let i = 0; i <= 5; i++) bits |= bit(8, i) << i;
+  bits |= bit(8, 7) << 6;
+  bits |= bit(8, 8) << 7;
+  bits |= bit(7, 8) << 8;
+  for (let i = 9; i < 15; i++) bits |= bit(14 - i, 8) << i;
+  const data = (bits ^ 0x5412) >>> 10;
+  return { ecl: data >>> 3, mask: data & 7 };
+}
+
+console.log("payment URIs");
+
+test("EIP-681 transfer carries token, chain, recipient and base units", () => {
+  const uri = eip681TransferUri({ token: USDC_BASE, recipient: CREATOR, amountRaw: 1_500_000_123n, chainId: 8453 });
+  assert.strictEqual(uri, `ethereum:${USDC_BASE}@8453/transfer?address=${CREATOR}&uint256=1500000123`);
+});
+
+test("Solana Pay URL trims the amount and encodes text fields", () => {
+  const url = solanaPayUrl({
+    recipient: "7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU", amount: "1500.500000",
+    splToken: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", reference: "9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin",
+    label: "Spraay", message: "Invoice INV-AB&CD", memo: "INV-ABCD",
+  });
+  assert.strictEqual(url,
+    "solana:7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU?amount=1500.5&spl-token=EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v" +
+    "&reference=9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin&label=Spraay&message=Invoice%20INV-AB%26CD&memo=INV-ABCD");
+  assert.match(solanaPayUrl({ recipient: "x", amount: "20.0" }), /amount=20$/);
+  assert.match(solanaPayUrl({ recipient: "x", amount: "100" }), /amount=100$/);
+});
+
+console.log("QR encoder");
+
+test("picks the smallest version that fits, at level M", () => {
+  assert.strictEqual(encodeQr("hi").version, 1);
+  assert.strictEqual(encodeQr("hi").size, 21);
+  // Level M byte capacity: version 7 holds 122 bytes, version 8 holds 152
+  assert.strictEqual(encodeQr("a".repeat(122)).version, 7);
+  assert.strictEqual(encodeQr("a".repeat(123)).version, 8);
+  assert.throws(() => encodeQr("a".repeat(2400)), QrEncodeError);
+});
+
+test("finder and timing patterns are in place", () => {
+  const { modules, size } = encodeQr(eip681TransferUri({ token: USDC_BASE, recipient: CREATOR, amountRaw: 1n, chainId: 8453 }));
+  for (const [x0, y0] of [[0, 0], [size - 7, 0], [0, size - 7]]) {
+    for (let i = 0; i < 7; i++) {
+      assert.ok(modules[y0][x0 + i] && modules[y0 + 6][x0 + i], "finder border row");
+      assert.ok(modules[y0 + i][x0] && modules[y0 + i][x0 + 6], "finder border column");
+    }
+    assert.ok(modules[y0 + 3][x0 + 3], "finder centre");
+    assert.ok(!modules[y0 + 1][x0 + 1], "finder ring");
+  }
+  for (let i = 8; i < size - 8; i++) assert.strictEqual(modules[6][i], i % 2 === 0);
+});
+
+test("format bits record level M and the chosen mask", () => {
+  for (let mask = 0; mask < 8; mask++) {
+    assert.deepStrictEqual(formatInfo(encodeQr("spraay:INV-0123456789ABCDEF", mask).modules), { ecl: 0, mask });
+  }
+  const auto = encodeQr("spraay:INV-0123456789ABCDEF");
+  assert.strictEqual(formatInfo(auto.modules).mask, auto.mask);
+});
+
+test("SVG has a quiet zone around the modules", () => {
+  const svg = qrSvg("hi");
+  assert.match(svg, /^<svg [^>]*viewBox="0 0 29 29"/);
+  assert.match(svg, /<path d="M4,4h1v1h-1z/);
+});
+
+console.log(`\n${passed} passed`);
+process.exit(0);
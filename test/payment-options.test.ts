@@ -0,0 +1,172 @@
+/**
+ * Tests for the multi-protocol 402 (src/middleware/multiProtocol402.ts).
+ *
+ * Every rail is configured explicitly: the MPP challenge is scripted, L402
+ * invoices come from MockLightningAdapter (and a counted BTC/USD rate),
+ * Solana references and L402 tokens live in the in-memory storage backend.
+ *
+ *   npx ts-node --project test/tsconfig.json test/payment-options.test.ts   (npm run test:payment-options)
+ */
+
+import assert from "node:assert";
+import { EventEmitter } from "node:events";
+import type { Request, Response } from "express";
+import {
+  PaymentRail, createMultiProtocol402Middleware, l402Rail, mppRail, solanaRail, x402Rail,
+} from "../src/middleware/multiProtocol402.js";
+import { MockLightningAdapter } from "../src/lightning/lightningAdapter.js";
+import { purgeExpiredL402Tokens } from "../src/lightning/l402.js";
+import { l402TokenDb, solanaChallengeDb, storage } from "../src/db.js";
+
+const PAY_TO = "0xAd62f03C7514bb8c51f1eA70C2b75C37404695c8";
+const SOLANA_RECEIVE = "8WhWE8YgY5QBWyLowEHuaZiWdwDM3SrgDk36xYBNvYNS";
+const TEMPO_RECIPIENT = "0x1111111111111111111111111111111111111111";
+
+let rateLookups = 0;
+
+function rails(btcUsd = 100_000): PaymentRail[] {
+  return [
+    x402Rail({ payTo: PAY_TO, network: "eip155:8453" }),
+    solanaRail({ receiveAddress: SOLANA_RECEIVE, cluster: "mainnet-beta", binding: "optional" }),
+    mppRail({
+      testnet: false, recipient: TEMPO_RECIPIENT,
+      challenge: async (amount) => ({
+        wwwAuthenticate: `Payment id="ch_1", method="tempo", intent="charge"`,
+        challenge: {
+          id: "ch_1", expires: "2030-01-01T00:00:00.000Z",
+          request: { amount: String(Math.round(parseFloat(amount) * 1e6)), currency: "0x20c0000000000000000000000000000000000000", recipient: TEMPO_RECIPIENT },
+        },
+      }),
+    }),
+    l402Rail({
+      rootKey: Buffer.alloc(32, 1), adapter: new MockLightningAdapter(), btcUsd: async () => { rateLookups++; return btcUsd; },
+      maxUses: 1, tokenTtlSeconds: 3600, invoiceExpirySeconds: 600, location: "test",
+    }),
+  ];
+}
+
+/** Send `body` with `status` through the middleware, as a payment gate further down would. */
+function respond(
+  middleware: ReturnType<typeof createMultiProtocol402Middleware>, path: string, status: number, body: any,
+  request: { headers?: Record<string, string>; paymentProtocol?: string } = {}
+) {
+  const req: any = { method: "POST", path, headers: {}, ...request };
+  const res: any = new EventEmitter();
+  const headers: Record<string, unknown> = {};
+  res.statusCode = 200;
+  res.setHeader = (name: string, value: unknown) => { headers[name.toLowerCase()] = value; };
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  return new Promise<{ body: any; headers: Record<string, unknown> }>((resolve) => {
+    res.json = (sent: any) => { resolve({ body: sent, headers }); return res; };
+    middleware(req as Request, res as Response, () => res.status(status).json(body));
+  });
+}
+
+const x402Body = {
+  x402Version: 2,
+  accepts: [
+    { scheme: "exact", network: "eip155:8453", amount: "20000", asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", payTo: PAY_TO, maxTimeoutSeconds: 120 },
+    { scheme: "exact", network: "solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp", amount: "20000", asset: "EPjF", payTo: SOLANA_RECEIVE, maxTimeoutSeconds: 300 },
+  ],
+};
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("payment options");
+
+  await test("one 402 lists every rail with its own amount, recipient and expiry", async () => {
+    const before = Date.now();
+    const { body, headers } = await respond(createMultiProtocol402Middleware({ rails: rails() }), "/api/v1/batch/execute", 402, x402Body);
+    assert.deepStrictEqual(body.accepts, x402Body.accepts);
+
+    const byRail = Object.fromEntries(body.payment_options.map((o: any) => [o.rail, o]));
+    assert.deepStrictEqual(Object.keys(byRail).sort(), ["l402", "mpp", "solana", "x402"]);
+    for (const option of body.payment_options.filter((o: any) => o.rail !== "l402")) {
+      assert.ok(option.network && option.asset?.symbol && option.amount && option.amountUsd && option.recipient && option.credential, option.rail);
+    }
+
+    // x402 takes its requirements from the x402 body
+    assert.deepStrictEqual([byRail.x402.amount, byRail.x402.amountUsd, byRail.x402.recipient], ["20000", "0.02", PAY_TO]);
+    const x402Expiry = new Date(byRail.x402.expiresAt).getTime();
+    assert.ok(x402Expiry >= before + 120_000 && x402Expiry <= Date.now() + 120_000);
+
+    assert.deepStrictEqual([byRail.solana.amount, byRail.solana.recipient, byRail.solana.details.reference], ["20000", SOLANA_RECEIVE, null]);
+    assert.deepStrictEqual([body.solana_accepts.amountRequired, body.solana_accepts.receiveAddress], ["0.02", SOLANA_RECEIVE]);
+
+    assert.deepStrictEqual([byRail.mpp.network, byRail.mpp.amount, byRail.mpp.recipient, byRail.mpp.expiresAt], ["tempo", "20000", TEMPO_RECIPIENT, "2030-01-01T00:00:00.000Z"]);
+    // L402 is advertised without an invoice until a client asks for it
+    assert.deepStrictEqual([byRail.l402.asset.symbol, byRail.l402.amount, byRail.l402.amountUsd, byRail.l402.recipient], ["BTC", null, "0.02", null]);
+    assert.deepStrictEqual((headers["www-authenticate"] as string[]).map((c) => c.split(" ")[0]), ["Payment"]);
+  });
+
+  await test("an anonymous 402 creates no invoice, rate lookup or stored challenge", async () => {
+    const mw = createMultiProtocol402Middleware({ rails: rails() });
+    const [tokens, references, lookups] = [await storage.count("l402_tokens"), await storage.count("solana_payment_challenges"), rateLookups];
+    for (let i = 0; i < 5; i++) await respond(mw, "/api/v1/batch/execute", 402, x402Body);
+    assert.deepStrictEqual(
+      [await storage.count("l402_tokens"), await storage.count("solana_payment_challenges"), rateLookups],
+      [tokens, references, lookups],
+    );
+  });
+
+  await test("an L402 invoice and macaroon are issued to a client about to pay over Lightning", async () => {
+    const mw = createMultiProtocol402Middleware({ rails: rails() });
+    const { body, headers } = await respond(mw, "/api/v1/batch/execute", 402, x402Body, { headers: { "x-payment-rail": "l402" } });
+    const l402 = body.payment_options.find((o: any) => o.rail === "l402");
+    assert.deepStrictEqual([l402.amount, l402.amountUsd], ["20", "0.02"]);
+    assert.strictEqual(l402.recipient, l402.details.invoice);
+    assert.ok(await l402TokenDb.get(l402.details.paymentHash));
+    assert.strictEqual(body.payment_options.find((o: any) => o.rail === "solana").details.reference, null);
+
+    // MPP and L402 challenges both go in WWW-Authenticate
+    const challenges = headers["www-authenticate"] as string[];
+    assert.deepStrictEqual(challenges.map((c) => c.split(" ")[0]), ["Payment", "L402"]);
+    assert.ok(challenges[1].includes(l402.details.macaroon));
+
+    // A failed L402 credential gets a fresh challenge too
+    const failed = await respond(mw, "/api/v1/batch/execute", 402, {}, { paymentProtocol: "l402" });
+    assert.strictEqual(failed.body.payment_options.find((o: any) => o.rail === "l402").amount, "20");
+
+    // Tokens go once their macaroons expire
+    assert.ok((await purgeExpiredL402Tokens(new Date(Date.now() + 2 * 3_600_000))) >= 2);
+    assert.strictEqual(await l402TokenDb.get(l402.details.paymentHash), null);
+  });
+
+  await test("a Solana reference is issued only to a client about to pay on Solana", async () => {
+    const mw = createMultiProtocol402Middleware({ rails: rails() });
+    const { body } = await respond(mw, "/api/v1/batch/execute", 402, x402Body, { headers: { "x-payment-rail": "solana" } });
+    const solana = body.payment_options.find((o: any) => o.rail === "solana");
+    const reference = solana.details.reference;
+    assert.strictEqual(solana.expiresAt, (await solanaChallengeDb.get(reference))!.expiresAt);
+    assert.deepStrictEqual([body.solana_accepts.reference, body.solana_accepts.referenceHeader], [reference, "X-Solana-Reference"]);
+  });
+
+  await test("options are sorted cheapest first", async () => {
+    // $0.001 at $30,000/BTC is 3.33 sats — rounded up to 4, which costs $0.0012
+    const { body } = await respond(createMultiProtocol402Middleware({ rails: rails(30_000) }), "/api/v1/batch/estimate", 402, {}, { headers: { "x-payment-rail": "l402" } });
+    assert.deepStrictEqual(body.payment_options.map((o: any) => [o.rail, o.amountUsd]), [
+      ["x402", "0.001"], ["solana", "0.001"], ["mpp", "0.001"], ["l402", "0.0012"],
+    ]);
+  });
+
+  await test("a rail that can't quote is left out; other responses are untouched", async () => {
+    const broken: PaymentRail = { name: "mpp", option: async () => { throw new Error("mppx down"); } };
+    const mw = createMultiProtocol402Middleware({ rails: [x402Rail({ payTo: PAY_TO, network: "eip155:8453" }), broken] });
+    const { body, headers } = await respond(mw, "/api/v1/batch/execute", 402, {});
+    assert.deepStrictEqual(body.payment_options.map((o: any) => o.rail), ["x402"]);
+    assert.strictEqual(headers["www-authenticate"], undefined);
+    assert.strictEqual(body.solana_accepts, undefined);
+
+    assert.deepStrictEqual((await respond(mw, "/api/v1/batch/execute", 200, { ok: true })).body, { ok: true });
+    assert.deepStrictEqual((await respond(mw, "/api/v1/health", 402, {})).body, {});
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
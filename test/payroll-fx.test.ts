@@ -0,0 +1,126 @@
+/**
+ * Tests for fiat salaries paid in stablecoins (src/lib/payroll-fx.ts and the
+ * FX paths of src/routes/payroll.ts).
+ *
+ * Rate sources are injected, so no CoinGecko or RPC access is needed; the
+ * payroll builder's balance check fails quietly.
+ *
+ *   npx ts-node --project test/tsconfig.json test/payroll-fx.test.ts   (npm run test:payroll-fx)
+ */
+
+import assert from "node:assert";
+import { Wallet } from "ethers";
+import { FxRateSource, PayrollFxError, convertFiat, quoteFxRates } from "../src/lib/payroll-fx.js";
+import { employerAuthMessage } from "../src/lib/payroll-roster.js";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import {
+  generatePayrollRun, lockPayrollFxQuote, payrollExecuteHandler, payrollRosterHandler,
+} from "../src/routes/payroll.js";
+import { payrollFxQuoteDb } from "../src/db.js";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const EMPLOYER_WALLET = new Wallet("0x" + "e".repeat(64));
+const EMPLOYER = EMPLOYER_WALLET.address.toLowerCase();
+
+/** A roster write signed by the employer wallet. */
+async function rosterBody(employees: any[]) {
+  const signedAt = new Date().toISOString();
+  const signature = await EMPLOYER_WALLET.signMessage(employerAuthMessage("roster", EMPLOYER, signedAt));
+  return { employer: EMPLOYER, employees, signature, signedAt };
+}
+
+// USDC per unit of fiat
+const market: FxRateSource = {
+  name: "test-market",
+  quote: async (currencies) => {
+    const table: Record<string, number> = { GBP: 1.27, EUR: 1.0842, JPY: 1 / 150 };
+    return Object.fromEntries(currencies.filter((c) => table[c]).map((c) => [c, table[c]]));
+  },
+};
+const down: FxRateSource = { name: "down", quote: async () => { throw new Error("503"); } };
+const usdOnly: FxRateSource = { name: "usd-only", quote: async (currencies) => (currencies.includes("USD") ? { USD: 1 } : {}) };
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("payroll fx");
+
+  await test("rates come from the first source covering each currency", async () => {
+    const rates = await quoteFxRates(["gbp", "USD", "JPY", "GBP"], "USDC", [down, usdOnly, market], new Date("2026-03-01T00:00:00Z"));
+    assert.deepStrictEqual(rates.map((r) => [r.currency, r.rate, r.source]), [
+      ["GBP", "1.27", "test-market"], ["USD", "1", "usd-only"], ["JPY", "0.006666666667", "test-market"],
+    ]);
+    await assert.rejects(quoteFxRates(["CHF"], "USDC", [market]), (err: any) => err instanceof PayrollFxError && err.status === 503);
+    await assert.rejects(quoteFxRates(["XYZ"], "USDC", [market]), (err: any) => err instanceof PayrollFxError && err.status === 400);
+  });
+
+  await test("conversion is exact and rounds half-up to token decimals", () => {
+    assert.strictEqual(convertFiat("3200", "1.27", 6), 4_064_000_000n);
+    assert.strictEqual(convertFiat("450000", "0.006666666667", 6), 3_000_000_000n);
+    assert.strictEqual(convertFiat("1", "0.0000005", 6), 1n);
+    assert.strictEqual(convertFiat("1", "0.00000049", 6), 0n);
+    assert.strictEqual(convertFiat("1000.50", "1.0842", 18), 1_084_742_100_000_000_000_000n);
+  });
+
+  await test("execute converts at the locked quote and records rate and source per employee", async () => {
+    const quote = await lockPayrollFxQuote(["GBP", "JPY"], "USDC", [market]);
+    assert.ok(await payrollFxQuoteDb.get(quote.id));
+    const result = await invokeHandler(payrollExecuteHandler, { body: {
+      token: "USDC", sender: EMPLOYER, fxQuoteId: quote.id,
+      employees: [{ address: ALICE, amount: "3200", currency: "gbp" }, { address: BOB, amount: "100.5" }],
+    } });
+    assert.strictEqual(result.status, 200);
+    const [alice, bob] = result.body.breakdown;
+    assert.deepStrictEqual([alice.amount, alice.amountRaw], ["4064.0", "4064000000"]);
+    assert.deepStrictEqual(
+      [alice.fx.currency, alice.fx.fiatAmount, alice.fx.rate, alice.fx.source, alice.fx.quoteId],
+      ["GBP", "3200", "1.27", "test-market", quote.id],
+    );
+    assert.strictEqual(bob.fx, undefined);
+    assert.strictEqual(result.body.payroll.totalAmount, "4164.5");
+    assert.strictEqual(result.body.payroll.fx.lockedUntil, quote.lockedUntil);
+  });
+
+  await test("fiat amounts need a live quote for the same token covering the currency", async () => {
+    const body = (extra: any) => ({ token: "USDC", sender: EMPLOYER, employees: [{ address: ALICE, amount: "10", currency: "EUR" }], ...extra });
+    assert.strictEqual((await invokeHandler(payrollExecuteHandler, { body: body({}) })).status, 400);
+    assert.strictEqual((await invokeHandler(payrollExecuteHandler, { body: body({ fxQuoteId: "FXQ-NOPE" }) })).status, 404);
+
+    const gbpOnly = await lockPayrollFxQuote(["GBP"], "USDC", [market]);
+    const missing = await invokeHandler(payrollExecuteHandler, { body: body({ fxQuoteId: gbpOnly.id }) });
+    assert.match(missing.body.error, /has no EUR rate/);
+
+    const eurc = await lockPayrollFxQuote(["EUR"], "EURC", [market]);
+    assert.match((await invokeHandler(payrollExecuteHandler, { body: body({ fxQuoteId: eurc.id }) })).body.error, /is for EURC, not USDC/);
+
+    const stale = await lockPayrollFxQuote(["EUR"], "USDC", [market], new Date(Date.now() - 31 * 60_000));
+    const expired = await invokeHandler(payrollExecuteHandler, { body: body({ fxQuoteId: stale.id }) });
+    assert.strictEqual(expired.status, 409);
+  });
+
+  await test("roster runs lock a fresh rate for fiat salaries and keep it on each line", async () => {
+    await invokeHandler(payrollRosterHandler, { body: await rosterBody([
+      { address: ALICE, amount: "3200", currency: "GBP", label: "Alice (London)" }, { address: BOB, amount: "2000" },
+    ]) });
+    const run = await generatePayrollRun({ employer: EMPLOYER, trigger: "manual", payDate: new Date(), memo: null, chunk: false }, new Date(), [market]);
+    assert.strictEqual(run.status, "ready");
+    const alice = run.employees.find((e) => e.address === ALICE)!;
+    assert.deepStrictEqual([alice.amount, alice.fx!.currency, alice.fx!.fiatAmount, alice.fx!.rate], ["4064.0", "GBP", "3200", "1.27"]);
+    assert.strictEqual(run.employees.find((e) => e.address === BOB)!.amount, "2000");
+
+    const failed = await generatePayrollRun({ employer: EMPLOYER, trigger: "manual", payDate: new Date(), memo: null, chunk: false }, new Date(), [down]);
+    assert.deepStrictEqual([failed.status, failed.error], ["failed", "USDC: No USDC rate available for GBP — try again shortly"]);
+
+    const bad = await invokeHandler(payrollRosterHandler, { body: await rosterBody([{ address: BOB, currency: "DOGE" }]) });
+    assert.match(bad.body.error, /employees\[0\]\.currency: Unsupported currency/);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
@@ -0,0 +1,274 @@
+/**
+ * Tests for the payroll roster, pay schedules and run history
+ * (src/lib/payroll-roster.ts, src/services/payroll-scheduler.ts and the
+ * roster routes in src/routes/payroll.ts).
+ *
+ * Runs against the in-memory storage backend; the payroll builder's balance
+ * check fails quietly without RPC.
+ *
+ *   npx ts-node --project test/tsconfig.json test/payroll-roster.test.ts   (npm run test:payroll-roster)
+ */
+
+import assert from "node:assert";
+import { Wallet } from "ethers";
+import { nextIssueDate } from "../src/lib/invoice-recurrence.js";
+import {
+  parseRosterEntry, payrollRecurrence, payrollHistory, PayrollRosterError, EmployerAction, employerAuthMessage, verifyEmployerSignature,
+} from "../src/lib/payroll-roster.js";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import {
+  payrollExecuteHandler, payrollRosterHandler, payrollRosterGetHandler, payrollRunHandler,
+  payrollScheduleCreateHandler, payrollScheduleCancelHandler, payrollHistoryHandler, generatePayrollRun, resolvePayrollToken,
+} from "../src/routes/payroll.js";
+import { runScheduledPayroll } from "../src/services/payroll-scheduler.js";
+import type { SanctionsScreener } from "../src/lib/sanctions.js";
+import { payrollScheduleDb, payrollRunsDb } from "../src/db.js";
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+const employerWallet = (n: number) => new Wallet(`0x${n.toString(16).padStart(64, "e")}`);
+const employer = (n: number) => employerWallet(n).address.toLowerCase();
+const d = (iso: string) => new Date(iso);
+const symbol = (t: string) => resolvePayrollToken(t)?.symbol ?? null;
+
+/** `body` for employer n, signed for `action` the way a wallet would. */
+async function signed(n: number, action: EmployerAction, body: Record<string, any>): Promise<Record<string, any>> {
+  const signedAt = new Date().toISOString();
+  const signature = await employerWallet(n).signMessage(employerAuthMessage(action, employer(n), signedAt));
+  return { employer: employer(n), ...body, signature, signedAt };
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("payroll roster");
+
+  await test("roster entries validate and fall back to the stored employee", () => {
+    const entry = parseRosterEntry({ address: ALICE, amount: 3000, token: "eurc" }, 0, { token: "USDC" }, symbol);
+    assert.deepStrictEqual(entry, { address: ALICE, amount: "3000", token: "EURC", currency: null, label: null, active: true });
+    const stored = { amount: "3000", token: "EURC", label: "Alice", active: true };
+    assert.deepStrictEqual(
+      parseRosterEntry({ address: ALICE, active: false }, 0, stored, symbol),
+      { address: ALICE, amount: "3000", token: "EURC", currency: null, label: "Alice", active: false },
+    );
+    assert.throws(() => parseRosterEntry({ address: ALICE }, 2, { token: "USDC" }, symbol), /employees\[2\]\.amount is required/);
+    assert.throws(() => parseRosterEntry({ address: ALICE, amount: "1e3" }, 0, { token: "USDC" }, symbol), PayrollRosterError);
+    assert.throws(() => parseRosterEntry({ address: ALICE, amount: "1", token: "WETH" }, 0, { token: "USDC" }, symbol), /not a supported payroll token/);
+  });
+
+  await test("biweekly runs every 14 days, monthly keeps the day of month", () => {
+    const biweekly = payrollRecurrence("biweekly", d("2026-01-02T15:00:00Z"));
+    assert.strictEqual(nextIssueDate(biweekly, d("2026-01-02T15:00:00Z"))!.toISOString(), "2026-01-16T15:00:00.000Z");
+    const monthly = payrollRecurrence("monthly", d("2026-01-31T00:00:00Z"));
+    const feb = nextIssueDate(monthly, d("2026-01-31T00:00:00Z"))!;
+    assert.strictEqual(feb.toISOString(), "2026-02-28T00:00:00.000Z");
+    assert.strictEqual(nextIssueDate(monthly, feb)!.toISOString(), "2026-03-31T00:00:00.000Z");
+    assert.throws(() => payrollRecurrence("weekly", new Date()), /biweekly, monthly/);
+    assert.throws(() => payrollRecurrence("monthly", new Date(), "Mars/Olympus"), /Invalid timezone/);
+  });
+
+  await test("roster upserts by address and hides inactive employees", async () => {
+    const boss = employer(1);
+    const first = await invokeHandler(payrollRosterHandler, { body: await signed(1, "roster", { employees: [
+      { address: ALICE, amount: "3000", label: "Alice" }, { address: BOB, amount: "2500", token: "EURC" },
+    ] }) });
+    assert.strictEqual(first.status, 200);
+    assert.strictEqual(first.body.added, 2);
+
+    const second = await invokeHandler(payrollRosterHandler, { body: await signed(1, "roster", { employees: [
+      { address: ALICE, amount: "3100" }, { address: BOB, active: false }, { address: CAROL, amount: "100" },
+    ] }) });
+    assert.deepStrictEqual([second.body.added, second.body.updated, second.body.activeCount], [1, 2, 2]);
+    const alice = second.body.roster.find((e: any) => e.address === ALICE);
+    assert.deepStrictEqual([alice.amount, alice.token, alice.label], ["3100", "USDC", "Alice"]);
+
+    const active = await invokeHandler(payrollRosterGetHandler, { method: "GET", query: { employer: boss } });
+    assert.deepStrictEqual(active.body.roster.map((e: any) => e.address), [ALICE, CAROL]);
+    const all = await invokeHandler(payrollRosterGetHandler, { method: "GET", query: { employer: boss, includeInactive: "true" } });
+    assert.strictEqual(all.body.count, 3);
+
+    const dup = await invokeHandler(payrollRosterHandler, { body: await signed(1, "roster", { employees: [{ address: ALICE, amount: "1" }, { address: ALICE, amount: "2" }] }) });
+    assert.strictEqual(dup.status, 400);
+    const precision = await invokeHandler(payrollRosterHandler, { body: await signed(1, "roster", { employees: [{ address: ALICE, amount: "1.0000001" }] }) });
+    assert.match(precision.body.error, /more than 6 decimal places for USDC/);
+  });
+
+  await test("a run builds one payroll per token with the execute handler's calldata", async () => {
+    const boss = employer(2);
+    await invokeHandler(payrollRosterHandler, { body: await signed(2, "roster", { employees: [
+      { address: ALICE, amount: "3000", label: "Alice" }, { address: BOB, amount: "2500", token: "EURC" }, { address: CAROL, amount: "100", label: "Carol" },
+    ] }) });
+    const result = await invokeHandler(payrollRunHandler, { body: await signed(2, "run", { memo: "March" }) });
+    assert.strictEqual(result.status, 200);
+    const run = result.body.run;
+    assert.deepStrictEqual(run.payments.map((p: any) => [p.token, p.payroll.employeeCount, p.payroll.totalAmount]), [["USDC", 2, "3100.0"], ["EURC", 1, "2500.0"]]);
+
+    const direct = await invokeHandler(payrollExecuteHandler, { body: {
+      token: "USDC", sender: boss, memo: "March", employees: [{ address: ALICE, amount: "3000", label: "Alice" }, { address: CAROL, amount: "100", label: "Carol" }],
+    } });
+    assert.deepStrictEqual(run.payments[0].transactions, direct.body.transactions);
+    assert.strictEqual((await payrollRunsDb.get(run.id))!.status, "ready");
+
+    const empty = await invokeHandler(payrollRunHandler, { body: await signed(3, "run", {}) });
+    assert.strictEqual(empty.status, 400);
+  });
+
+  await test("roster writes, runs and schedules need the employer's signature", async () => {
+    const boss = employer(6);
+    const employees = [{ address: ALICE, amount: "1000" }];
+    const unsigned = await invokeHandler(payrollRosterHandler, { body: { employer: boss, employees } });
+    assert.strictEqual(unsigned.status, 401);
+    assert.strictEqual(unsigned.body.sign.message, employerAuthMessage("roster", boss, "<signedAt>"));
+
+    // Another wallet's signature, a signature for a different action, and a stale one
+    const forged = { ...(await signed(7, "roster", { employees })), employer: boss };
+    assert.strictEqual((await invokeHandler(payrollRosterHandler, { body: forged })).status, 403);
+    const wrongAction = await signed(6, "run", { employees });
+    assert.strictEqual((await invokeHandler(payrollRosterHandler, { body: wrongAction })).status, 403);
+    const stale = await signed(6, "roster", { employees });
+    assert.throws(() => verifyEmployerSignature("roster", boss, stale.signature, stale.signedAt, new Date(Date.now() + 11 * 60_000)),
+      (err: any) => err instanceof PayrollRosterError && err.status === 401);
+
+    assert.strictEqual((await invokeHandler(payrollRunHandler, { body: { employer: boss } })).status, 401);
+    assert.strictEqual((await invokeHandler(payrollScheduleCreateHandler, { body: { employer: boss, frequency: "monthly" } })).status, 401);
+    assert.strictEqual((await invokeHandler(payrollRosterGetHandler, { method: "GET", query: { employer: boss } })).body.count, 0);
+    assert.strictEqual((await invokeHandler(payrollRosterHandler, { body: await signed(6, "roster", { employees }) })).status, 200);
+  });
+
+  await test("a scheduled pay date is claimed once and missed dates are skipped", async () => {
+    const boss = employer(4);
+    await invokeHandler(payrollRosterHandler, { body: await signed(4, "roster", { employees: [{ address: ALICE, amount: "1000" }] }) });
+    const created = await invokeHandler(payrollScheduleCreateHandler, { body: await signed(4, "schedule", {
+      frequency: "biweekly", startDate: "2026-01-02T15:00:00Z", endDate: "2026-02-10T00:00:00Z",
+    }) });
+    assert.strictEqual(created.status, 200);
+    const id = created.body.schedule.id;
+
+    const schedule = (await payrollScheduleDb.get(id))!;
+    const now = d("2026-01-20T00:00:00Z");
+    const [a, b] = await Promise.all([runScheduledPayroll(schedule, now), runScheduledPayroll(schedule, now)]);
+    assert.strictEqual([a, b].filter(Boolean).length, 1);
+    const run = (a || b)!;
+    assert.deepStrictEqual([run.trigger, run.payDate, run.status], ["schedule", "2026-01-02T15:00:00.000Z", "ready"]);
+
+    // Jan 16 was missed while "down"; the next pay date is Jan 30, the last before endDate
+    let after = (await payrollScheduleDb.get(id))!;
+    assert.deepStrictEqual([after.nextRunAt, after.runCount, after.lastRunId], ["2026-01-30T15:00:00.000Z", 1, run.id]);
+    await runScheduledPayroll(after, d("2026-01-30T16:00:00Z"));
+    after = (await payrollScheduleDb.get(id))!;
+    assert.deepStrictEqual([after.status, after.nextRunAt, after.runCount], ["completed", null, 2]);
+  });
+
+  await test("a scheduled run that can't be recorded gives its pay date back", async () => {
+    const boss = employer(8);
+    await invokeHandler(payrollRosterHandler, { body: await signed(8, "roster", { employees: [{ address: ALICE, amount: "1000" }] }) });
+    const created = await invokeHandler(payrollScheduleCreateHandler, { body: await signed(8, "schedule", {
+      frequency: "monthly", startDate: "2026-01-05T15:00:00Z",
+    }) });
+    const schedule = (await payrollScheduleDb.get(created.body.schedule.id))!;
+
+    const create = payrollRunsDb.create;
+    payrollRunsDb.create = async () => { throw new Error("database unavailable"); };
+    try {
+      await assert.rejects(runScheduledPayroll(schedule, d("2026-01-05T16:00:00Z")), /database unavailable/);
+    } finally {
+      payrollRunsDb.create = create;
+    }
+    const after = (await payrollScheduleDb.get(schedule.id))!;
+    assert.deepStrictEqual([after.nextRunAt, after.runCount], ["2026-01-05T15:00:00.000Z", 0]);
+
+    const retried = await runScheduledPayroll(after, d("2026-01-05T16:05:00Z"));
+    assert.strictEqual(retried!.status, "ready");
+  });
+
+  await test("only the employer's signature cancels a schedule, and not one that completed meanwhile", async () => {
+    await invokeHandler(payrollRosterHandler, { body: await signed(10, "roster", { employees: [{ address: ALICE, amount: "1000" }] }) });
+    const create = async () => (await invokeHandler(payrollScheduleCreateHandler, { body: await signed(10, "schedule", {
+      frequency: "monthly", startDate: "2026-01-05T15:00:00Z",
+    }) })).body.schedule.id;
+    const cancel = async (id: string, body: Record<string, any>) => invokeHandler(payrollScheduleCancelHandler, { params: { id }, body });
+
+    const id = await create();
+    assert.strictEqual((await cancel(id, { caller: employer(10) })).status, 401);
+    assert.strictEqual((await cancel(id, await signed(11, "schedule", {}))).status, 403);
+    assert.strictEqual((await cancel(id, await signed(10, "run", {}))).status, 403);
+    const cancelled = await cancel(id, await signed(10, "schedule", {}));
+    assert.deepStrictEqual([cancelled.status, (await payrollScheduleDb.get(id))!.status], [200, "cancelled"]);
+
+    // The cancel read the schedule while it was still active
+    const completed = await create();
+    const stale = (await payrollScheduleDb.get(completed))!;
+    await payrollScheduleDb.update(completed, { status: "completed", nextRunAt: null });
+    const get = payrollScheduleDb.get;
+    payrollScheduleDb.get = async () => structuredClone(stale);
+    let raced;
+    try {
+      raced = await cancel(completed, await signed(10, "schedule", {}));
+    } finally {
+      payrollScheduleDb.get = get;
+    }
+    assert.deepStrictEqual([raced.status, (await payrollScheduleDb.get(completed))!.status], [409, "completed"]);
+  });
+
+  await test("history shows per-employee amounts over time and YTD totals", async () => {
+    const boss = employer(5);
+    await invokeHandler(payrollRosterHandler, { body: await signed(5, "roster", { employees: [{ address: ALICE, amount: "1000", label: "Alice" }, { address: BOB, amount: "2000.5" }] }) });
+    await generatePayrollRun({ employer: boss, trigger: "manual", payDate: d("2025-12-15T00:00:00Z"), memo: null, chunk: false });
+    await invokeHandler(payrollRosterHandler, { body: await signed(5, "roster", { employees: [{ address: ALICE, amount: "1200.25", label: "Alice (raise)" }] }) });
+    await generatePayrollRun({ employer: boss, trigger: "manual", payDate: d("2026-01-15T00:00:00Z"), memo: null, chunk: false });
+    await generatePayrollRun({ employer: boss, trigger: "manual", payDate: d("2026-02-15T00:00:00Z"), memo: null, chunk: false });
+    await payrollRunsDb.create({
+      id: "PRUN-FAILED", employer: boss, trigger: "schedule", payDate: "2026-03-01T00:00:00.000Z", memo: null,
+      status: "failed", employees: [], payments: [], error: "Roster has no active employees", createdAt: new Date().toISOString(),
+    });
+
+    const result = await invokeHandler(payrollHistoryHandler, { method: "GET", query: { employer: boss, year: "2026" } });
+    assert.strictEqual(result.status, 200);
+    assert.deepStrictEqual([result.body.runs.length, result.body.runCount], [4, 3]);
+    const alice = result.body.employees.find((e: any) => e.address === ALICE);
+    assert.deepStrictEqual(alice.payments.map((p: any) => p.amount), ["1000", "1200.25", "1200.25"]);
+    assert.deepStrictEqual([alice.label, alice.total, alice.ytd], ["Alice (raise)", "3400.5", "2400.5"]);
+    assert.deepStrictEqual(result.body.ytd.byToken, { USDC: "6401.5" });
+
+    const onlyBob = await invokeHandler(payrollHistoryHandler, { method: "GET", query: { employer: boss, year: "2025", employee: BOB } });
+    assert.deepStrictEqual(onlyBob.body.ytd.byEmployee.map((e: any) => [e.address, e.ytd]), [[BOB, "2000.5"]]);
+
+    const failedOnly = payrollHistory([{ id: "x", payDate: "2026-01-01T00:00:00Z", status: "failed", employees: [{ employeeId: "EMP-1", address: ALICE, label: null, token: "USDC", amount: "5" }] }], 2026);
+    assert.deepStrictEqual([failedOnly.runCount, failedOnly.employees.length], [0, 0]);
+  });
+
+  await test("required sanctions screening fails a run that pays a listed address", async () => {
+    const boss = employer(9);
+    await invokeHandler(payrollRosterHandler, { body: await signed(9, "roster", { employees: [{ address: ALICE, amount: "10" }, { address: BOB, amount: "20" }] }) });
+    const listing = (...listed: string[]): SanctionsScreener => ({ name: "test", isSanctioned: async (a) => listed.includes(a.toLowerCase()) });
+    const down: SanctionsScreener = { name: "down", isSanctioned: async () => { throw new Error("RPC timeout"); } };
+    const input = { employer: boss, trigger: "schedule" as const, payDate: d("2026-04-01T00:00:00Z"), memo: null, chunk: false };
+
+    // Off unless SANCTIONS_PREFLIGHT=required
+    assert.strictEqual((await generatePayrollRun(input, undefined, undefined, listing(BOB))).status, "ready");
+
+    process.env.SANCTIONS_PREFLIGHT = "required";
+    try {
+      const blocked = await generatePayrollRun(input, undefined, undefined, listing(BOB));
+      assert.deepStrictEqual([blocked.status, blocked.payments.length], ["failed", 0]);
+      assert.match(blocked.error!, new RegExp(`sanctioned counterparty: ${BOB} \\(employees\\[1\\]\\)`));
+
+      const unavailable = await generatePayrollRun(input, undefined, undefined, down);
+      assert.strictEqual(unavailable.status, "failed");
+      assert.match(unavailable.error!, /sanctions screening unavailable: RPC timeout/);
+
+      assert.strictEqual((await generatePayrollRun(input, undefined, undefined, listing())).status, "ready");
+    } finally {
+      delete process.env.SANCTIONS_PREFLIGHT;
+    }
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
@@ -0,0 +1,191 @@
+/**
+ * Tests for CSV/XLSX recipient import (src/lib/recipient-import.ts).
+ *
+ * Name resolution is injected, so no network is needed. Workbooks are built
+ * in-test as minimal zips.
+ *
+ *   npx ts-node --project test/tsconfig.json test/recipient-import.test.ts   (npm run test:import)
+ */
+
+import assert from "node:assert";
+import zlib from "node:zlib";
+import {
+  parseCsv, readXlsx, mapRows, cleanAmount, importRecipients, RecipientImportError, NameResolver, MAX_XLSX_UNCOMPRESSED_BYTES,
+} from "../src/lib/recipient-import.js";
+import { resolveBatchAmounts } from "../src/routes/batch-payments.js";
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+
+const resolver: NameResolver = async (name) =>
+  name === "carol.base.eth" ? { address: CAROL, source: "basename" } : null;
+
+/** Zip with one entry per file; `deflate` picks method 8 over stored. CRCs are left zero — the reader doesn't check them. */
+function zip(files: Record<string, string>, deflate = true): Buffer {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content, "utf8");
+    const data = deflate ? zlib.deflateRawSync(raw) : raw;
+    const nameBuf = Buffer.from(name, "utf8");
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    const cd = Buffer.alloc(46);
+    cd.writeUInt32LE(0x02014b50, 0);
+    cd.writeUInt16LE(deflate ? 8 : 0, 10);
+    cd.writeUInt32LE(data.length, 20);
+    cd.writeUInt32LE(raw.length, 24);
+    cd.writeUInt16LE(nameBuf.length, 28);
+    cd.writeUInt32LE(offset, 42);
+    locals.push(local, nameBuf, data);
+    central.push(cd, nameBuf);
+    offset += 30 + nameBuf.length + data.length;
+  }
+  const cdBuf = Buffer.concat(central);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(cdBuf.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, cdBuf, eocd]);
+}
+
+const WORKBOOK = {
+  "xl/workbook.xml": `<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Payouts" sheetId="1" r:id="rId7"/></sheets></workbook>`,
+  "xl/_rels/workbook.xml.rels": `<Relationships><Relationship Id="rId7" Type="worksheet" Target="worksheets/payouts.xml"/></Relationships>`,
+  "xl/sharedStrings.xml": `<sst><si><t>Wallet</t></si><si><t>Pay</t></si><si><t>Name</t></si><si><r><t>Ali</t></r><r><t>ce &amp; Co</t></r><rPh><t>アリス</t></rPh></si></sst>`,
+  "xl/worksheets/payouts.xml": `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>
+    <row r="2"><c r="A2" t="inlineStr"><is><t>${ALICE}</t></is></c><c r="B2"><v>1500.1000000000001</v></c><c r="C2" t="s"><v>3</v></c></row>
+    <row r="4"><c r="A4" t="str"><v>carol.base.eth</v></c><c r="B4"><v>2.5E-2</v></c></row>
+  </sheetData></worksheet>`,
+};
+
+(async () => {
+  console.log("recipient import");
+
+  await test("CSV handles quotes, doubled quotes, CRLF, BOM and delimiter detection", () => {
+    assert.deepStrictEqual(
+      parseCsv('﻿address,amount,label\r\n0xA,"1,500.00","Alice ""Al"" Smith"\r\n0xB,2,"line\nbreak"\n'),
+      [["address", "amount", "label"], ["0xA", "1,500.00", 'Alice "Al" Smith'], ["0xB", "2", "line\nbreak"]],
+    );
+    assert.deepStrictEqual(parseCsv("address;amount\n0xA;1,5"), [["address", "amount"], ["0xA", "1,5"]]);
+    assert.deepStrictEqual(parseCsv("address\tamount\n0xA\t3"), [["address", "amount"], ["0xA", "3"]]);
+    assert.throws(() => parseCsv('a,"b\n'), RecipientImportError);
+  });
+
+  await test("amounts lose currency symbols and thousands separators, nothing else", () => {
+    assert.strictEqual(cleanAmount(" $1,500.25 "), "1500.25");
+    assert.strictEqual(cleanAmount("€12"), "12");
+    assert.strictEqual(cleanAmount("1.500,00"), "1.500,00");
+    assert.strictEqual(cleanAmount("1,5"), "1,5");
+  });
+
+  await test("columns come from header aliases, an explicit mapping, or position", () => {
+    const byHeader = mapRows(parseCsv("Name,Wallet Address,Salary,Note\nAlice,0xA,10,march\n,,,\nBob,0xB,,\n"));
+    assert.deepStrictEqual(byHeader.columns, { address: 1, amount: 2, label: 0, memo: 3 });
+    assert.deepStrictEqual(byHeader.rows.map((r) => [r.row, r.address, r.amount, r.label, r.memo]), [[2, "0xA", "10", "Alice", "march"]]);
+    assert.deepStrictEqual(byHeader.errors, [{ row: 4, field: "amount", message: "amount is empty" }]);
+    assert.strictEqual(mapRows(parseCsv("address,amount\n0xA,\"1.500,00\"\n")).errors[0].row, 2);
+
+    const mapped = mapRows(parseCsv("who,dest,usd\nAlice,0xA,10\n"), { address: "dest", amount: "C", label: 0 });
+    assert.deepStrictEqual(mapped.rows.map((r) => [r.address, r.amount, r.label]), [["0xA", "10", "Alice"]]);
+
+    const positional = mapRows(parseCsv("0xA,10\n0xB,20\n"));
+    assert.strictEqual(positional.headerRow, null);
+    assert.deepStrictEqual(positional.rows.map((r) => r.row), [1, 2]);
+
+    assert.throws(() => mapRows(parseCsv("foo,bar\nx,y\n")), /address and amount columns/);
+    assert.throws(() => mapRows(parseCsv("a,b\n1,2\n"), { address: "missing", amount: 1 }), /not found in the header row/);
+    assert.throws(() => mapRows(parseCsv("a,b\n1,2\n"), { amount: 1 }), /both "address" and "amount"/);
+  });
+
+  await test("validation errors and unresolved names point at the sheet row", async () => {
+    const csv = [
+      "address,amount",
+      `${ALICE},10`,
+      "not-an-address,5",
+      "nobody.eth,1",
+      `${BOB},1.1234567`,
+      "carol.base.eth,2",
+    ].join("\n");
+    const result = await importRecipients(parseCsv(csv), { chain: "base", token: "USDC", resolver });
+    assert.deepStrictEqual(result.errors.map((e) => [e.row, e.field]), [[3, "address"], [4, "address"], [5, "amount"]]);
+    assert.match(result.errors[1].message, /could not resolve "nobody\.eth"/);
+    assert.match(result.errors[2].message, /more than 6 decimal places/);
+    assert.deepStrictEqual(result.summary.resolvedNames, [{ row: 6, name: "carol.base.eth", address: CAROL, source: "basename" }]);
+  });
+
+  await test("the same name is looked up once", async () => {
+    let calls = 0;
+    const counting: NameResolver = async (name) => { calls++; return resolver(name); };
+    const result = await importRecipients(parseCsv("carol.base.eth,1\nCAROL.base.eth,2\n"), { resolver: counting });
+    assert.strictEqual(calls, 1);
+    assert.deepStrictEqual(result.recipients.map((r) => r.address), [CAROL, CAROL]);
+  });
+
+  await test("more than 200 rows is not an import error, so chunking still applies", async () => {
+    const rows = Array.from({ length: 250 }, (_, i) => `0x${(i + 1).toString(16).padStart(40, "0")},1`);
+    const result = await importRecipients(parseCsv(rows.join("\n")), { resolver });
+    assert.strictEqual(result.errors.length, 0);
+    assert.strictEqual(result.recipients.length, 250);
+  });
+
+  await test("XLSX reads the first sheet with shared, inline and numeric cells", () => {
+    for (const deflate of [true, false]) {
+      const table = readXlsx(zip(WORKBOOK, deflate));
+      assert.deepStrictEqual(table, [
+        ["Wallet", "Pay", "Name"],
+        [ALICE, "1500.1", "Alice & Co"],
+        [],
+        ["carol.base.eth", "0.025"],
+      ]);
+    }
+    assert.throws(() => readXlsx(Buffer.from("not a zip")), RecipientImportError);
+  });
+
+  await test("XLSX inflation is capped across parts, and bad deflate data is an import error", () => {
+    // Each part fits on its own; together they pass the cap
+    const half = " ".repeat(MAX_XLSX_UNCOMPRESSED_BYTES / 2 + 1);
+    const bomb = zip({
+      "xl/sharedStrings.xml": `<sst>${half}</sst>`,
+      "xl/worksheets/sheet1.xml": `<worksheet>${half}</worksheet>`,
+    });
+    assert.ok(bomb.length < 64 * 1024);
+    assert.throws(() => readXlsx(bomb), (err: any) => err instanceof RecipientImportError && /exceeds 8 MB/.test(err.message));
+
+    // A stored entry whose central directory claims deflate
+    const corrupt = zip({ "xl/worksheets/sheet1.xml": "<worksheet><sheetData/></worksheet>" }, false);
+    corrupt.writeUInt16LE(8, corrupt.readUInt32LE(corrupt.length - 6) + 10);
+    assert.throws(() => readXlsx(corrupt), (err: any) => err instanceof RecipientImportError && /corrupt/.test(err.message));
+  });
+
+  await test("CSV, XLSX and the JSON path produce the same on-chain recipients", async () => {
+    const csv = await importRecipients(parseCsv(`wallet,pay\n${ALICE},1500.1\ncarol.base.eth,0.025\n`), { resolver });
+    const xlsx = await importRecipients(readXlsx(zip(WORKBOOK)), { resolver });
+    assert.deepStrictEqual(xlsx.errors, []);
+    const json = [{ address: ALICE, amount: "1500.1" }, { address: CAROL, amount: "0.025" }];
+    const expected = resolveBatchAmounts(json, undefined, 6);
+    for (const imported of [csv, xlsx]) {
+      const body = imported.recipients.map((r) => ({ address: r.address, amount: r.amount }));
+      assert.deepStrictEqual(resolveBatchAmounts(body, undefined, 6), expected);
+    }
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
@@ -0,0 +1,189 @@
+/**
+ * Tests for sanctions monitoring (src/lib/sanctions.ts, the monitor and
+ * history routes in src/routes/kyc.ts and src/middleware/sanctions-preflight.ts).
+ *
+ * Runs against the in-memory storage backend with a scripted screener in
+ * place of the Chainalysis oracle.
+ *
+ *   npx ts-node --project test/tsconfig.json test/sanctions-monitor.test.ts   (npm run test:sanctions)
+ */
+
+import assert from "node:assert";
+import type { Request, Response } from "express";
+import {
+  AlertDelivery, SanctionsScreener, parseMonitorInterval, screenCounterparties, shouldAlert,
+} from "../src/lib/sanctions.js";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import { kycHistoryHandler, kycMonitorCancelHandler, registerMonitor, rescreenMonitor } from "../src/routes/kyc.js";
+import { PREFLIGHT_CACHE_MAX_ENTRIES, preflightCacheSize, sanctionsPreflight } from "../src/middleware/sanctions-preflight.js";
+import { sanctionsMonitorDb } from "../src/db.js";
+
+const CLEAN = "0x1111111111111111111111111111111111111111";
+const LISTED = "0x2222222222222222222222222222222222222222";
+const WATCHED = "0x3333333333333333333333333333333333333333";
+const d = (iso: string) => new Date(iso);
+
+/** Sanctioned when the address is in `list`; the list can change between calls. */
+function screener(name: string, list: Set<string>): SanctionsScreener & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    name, calls,
+    async isSanctioned(address) {
+      calls.push(address);
+      return list.has(address.toLowerCase());
+    },
+  };
+}
+
+const down: SanctionsScreener = { name: "down", isSanctioned: async () => { throw new Error("RPC timeout"); } };
+
+function preflight(middleware: ReturnType<typeof sanctionsPreflight>) {
+  return (req: Request, res: Response) => middleware(req, res, () => res.json({ handled: true }));
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("sanctions monitor");
+
+  await test("intervals, alert rule and counterparty screening", async () => {
+    assert.strictEqual(parseMonitorInterval(undefined), 24);
+    assert.strictEqual(parseMonitorInterval("6"), 6);
+    assert.throws(() => parseMonitorInterval(0.5), /whole number from 1 to 168/);
+    assert.throws(() => parseMonitorInterval(169), /whole number from 1 to 168/);
+    assert.deepStrictEqual(
+      [shouldAlert("clear", "match"), shouldAlert(null, "match"), shouldAlert("match", "match"), shouldAlert("match", "clear")],
+      [true, false, false, false],
+    );
+
+    const oracle = screener("lib", new Set([LISTED]));
+    const { screened, matches, unscreened } = await screenCounterparties([
+      { address: CLEAN, role: "sender" },
+      { address: LISTED, role: "recipients[0]" },
+      { address: LISTED.toUpperCase().replace("0X", "0x"), role: "recipients[1]" },
+      { address: "alice.base.eth", role: "recipients[2]" },
+    ], oracle, "base", 2);
+    assert.strictEqual(oracle.calls.length, 2);
+    assert.strictEqual(screened.length, 2);
+    assert.deepStrictEqual(matches, [{ address: LISTED, roles: ["recipients[0]", "recipients[1]"], result: "match" }]);
+    assert.deepStrictEqual(unscreened, [{ address: "alice.base.eth", role: "recipients[2]" }]);
+  });
+
+  await test("registering screens now and schedules the next screening", async () => {
+    const oracle = screener("register", new Set());
+    const { monitor, record, existing } = await registerMonitor(
+      { address: WATCHED, intervalHours: 12, alertEmail: "compliance@example.com", label: "Vendor A" }, oracle, d("2026-03-01T00:00:00Z"),
+    );
+    assert.strictEqual(existing, false);
+    assert.deepStrictEqual(
+      [monitor.address, monitor.chain, monitor.lastResult, monitor.screenCount, monitor.nextScreenAt],
+      [WATCHED, "base", "clear", 1, "2026-03-01T12:00:00.000Z"],
+    );
+    assert.deepStrictEqual(record.metadata, { chain: "base", trigger: "monitor", monitorId: monitor.id });
+
+    // Registering again updates the same monitor and keeps its interval
+    const again = await registerMonitor({ address: WATCHED.toUpperCase().replace("0X", "0x"), label: "Vendor A (renamed)" }, oracle, d("2026-03-01T01:00:00Z"));
+    assert.deepStrictEqual(
+      [again.existing, again.monitor.id, again.monitor.intervalHours, again.monitor.label, again.monitor.alertEmail, again.monitor.screenCount],
+      [true, monitor.id, 12, "Vendor A (renamed)", "compliance@example.com", 2],
+    );
+
+    await assert.rejects(registerMonitor({ address: "0x123" }, oracle), /Valid address/);
+    await assert.rejects(registerMonitor({ address: CLEAN, chain: "solana" }, oracle), /Unsupported chain: solana/);
+    await assert.rejects(registerMonitor({ address: CLEAN, alertEmail: "nope" }, oracle), /alertEmail/);
+    await assert.rejects(registerMonitor({ address: CLEAN }, down), (err: any) => err.status === 502);
+  });
+
+  await test("a clear → match re-screen alerts once and is kept in the history", async () => {
+    const list = new Set<string>();
+    const oracle = screener("rescreen", list);
+    const sent: any[] = [];
+    const alert = async (monitor: any, event: any): Promise<AlertDelivery[]> => {
+      sent.push({ monitor: monitor.id, ...event });
+      return [{ channel: "email", to: monitor.alertEmail, ok: true, error: null }];
+    };
+    const { monitor } = await registerMonitor({ address: LISTED, intervalHours: 24, alertEmail: "ops@example.com" }, oracle, d("2026-04-01T00:00:00Z"));
+
+    list.add(LISTED);
+    const first = await rescreenMonitor(monitor, { screener: oracle, alert }, d("2026-04-02T00:00:00Z"));
+    assert.deepStrictEqual([first!.previous, first!.result, sent.length], ["clear", "match", 1]);
+    assert.deepStrictEqual([sent[0].from, sent[0].to, sent[0].monitor], ["clear", "match", monitor.id]);
+
+    const stored = (await sanctionsMonitorDb.get(monitor.id))!;
+    assert.deepStrictEqual([stored.lastResult, stored.nextScreenAt, stored.alerts.length], ["match", "2026-04-03T00:00:00.000Z", 1]);
+    assert.strictEqual(stored.alerts[0].deliveries[0].to, "ops@example.com");
+
+    // Still a match: recorded, no second alert
+    const second = await rescreenMonitor(stored, { screener: oracle, alert }, d("2026-04-03T00:00:00Z"));
+    assert.deepStrictEqual([second!.result, second!.alert, sent.length], ["match", null, 1]);
+    // A stale copy can't claim the same run twice
+    assert.strictEqual(await rescreenMonitor(stored, { screener: oracle, alert }, d("2026-04-03T00:00:00Z")), null);
+
+    const history = await invokeHandler(kycHistoryHandler, { method: "GET", query: { address: LISTED } });
+    assert.deepStrictEqual(
+      history.body.screenings.map((s: any) => [s.result, s.trigger, s.changed]),
+      [["clear", "monitor", false], ["match", "monitor", true], ["match", "monitor", false]],
+    );
+    assert.deepStrictEqual([history.body.changes, history.body.latest.result, history.body.monitors[0].id], [1, "match", monitor.id]);
+  });
+
+  await test("oracle failures are kept on the monitor and retried next interval", async () => {
+    const { monitor } = await registerMonitor({ address: CLEAN, intervalHours: 1 }, screener("flaky", new Set()), d("2026-05-01T00:00:00Z"));
+    const outcome = await rescreenMonitor(monitor, { screener: down }, d("2026-05-01T01:00:00Z"));
+    assert.match(outcome!.error!, /RPC timeout/);
+    const stored = (await sanctionsMonitorDb.get(monitor.id))!;
+    assert.deepStrictEqual([stored.lastResult, stored.screenCount, stored.nextScreenAt], ["clear", 1, "2026-05-01T02:00:00.000Z"]);
+    assert.match(stored.lastError!, /RPC timeout/);
+
+    const cancelled = await invokeHandler(kycMonitorCancelHandler, { params: { id: monitor.id } });
+    assert.deepStrictEqual([cancelled.body.monitor.status, cancelled.body.monitor.nextScreenAt], ["cancelled", null]);
+    assert.strictEqual((await invokeHandler(kycMonitorCancelHandler, { params: { id: monitor.id } })).status, 409);
+    assert.ok(!(await sanctionsMonitorDb.listDue("2026-06-01T00:00:00Z")).some((m) => m.id === monitor.id));
+  });
+
+  await test("pre-flight blocks a sanctioned counterparty only when opted in", async () => {
+    const oracle = screener("preflight", new Set([LISTED]));
+    const batch = preflight(sanctionsPreflight("batch", { screener: oracle, required: false }));
+    const body = { sender: CLEAN, recipients: [{ address: CLEAN, amount: "1" }, { address: LISTED, amount: "2" }] };
+
+    assert.deepStrictEqual((await invokeHandler(batch, { body })).body, { handled: true });
+    assert.strictEqual(oracle.calls.length, 0);
+
+    const blocked = await invokeHandler(batch, { body: { ...body, sanctions_check: true } });
+    assert.strictEqual(blocked.status, 403);
+    assert.strictEqual(blocked.body.error, "sanctioned_counterparty");
+    assert.deepStrictEqual(blocked.body.matches, [{ address: LISTED, roles: ["recipients[1]"] }]);
+
+    const escrow = preflight(sanctionsPreflight("escrow", { screener: oracle, required: true }));
+    assert.strictEqual((await invokeHandler(escrow, { body: { depositor: CLEAN, beneficiary: CLEAN, arbiter: CLEAN } })).status, 200);
+    assert.deepStrictEqual((await invokeHandler(escrow, { body: { depositor: CLEAN, beneficiary: LISTED } })).body.matches[0].roles, ["beneficiary"]);
+
+    const payroll = preflight(sanctionsPreflight("payroll", { screener: down, required: true }));
+    const unavailable = await invokeHandler(payroll, { body: { sender: CLEAN, employees: [{ address: WATCHED, amount: "1" }] } });
+    assert.deepStrictEqual([unavailable.status, unavailable.body.error], [503, "sanctions_screening_unavailable"]);
+  });
+
+  await test("the pre-flight cache stays bounded and keeps the newest results", async () => {
+    const oracle = screener("bulk", new Set());
+    const batch = preflight(sanctionsPreflight("batch", { screener: oracle, required: true }));
+    const address = (i: number) => `0x${(0xb000 + i).toString(16).padStart(40, "0")}`;
+    const recipients = Array.from({ length: PREFLIGHT_CACHE_MAX_ENTRIES + 50 }, (_, i) => ({ address: address(i), amount: "1" }));
+    assert.strictEqual((await invokeHandler(batch, { body: { recipients } })).status, 200);
+    assert.ok(preflightCacheSize() <= PREFLIGHT_CACHE_MAX_ENTRIES);
+
+    // The last address screened is still cached; the first was evicted
+    oracle.calls.length = 0;
+    await invokeHandler(batch, { body: { recipients: [recipients[recipients.length - 1]] } });
+    assert.strictEqual(oracle.calls.length, 0);
+    await invokeHandler(batch, { body: { recipients: [recipients[0]] } });
+    assert.strictEqual(oracle.calls.length, 1);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
@@ -0,0 +1,157 @@
+/**
+ * Tests for single-use Solana payments and payment references
+ * (src/middleware/solanaPaymentMiddleware.ts, src/solana/paymentBinding.ts).
+ *
+ * A scripted verifier stands in for the Solana RPC; the ledger and the
+ * challenges live in the in-memory storage backend.
+ *
+ *   npx ts-node --project test/tsconfig.json test/solana-payment.test.ts   (npm run test:solana-payment)
+ */
+
+import assert from "node:assert";
+import { EventEmitter } from "node:events";
+import type { Request, Response } from "express";
+import { createSolanaPaymentMiddleware } from "../src/middleware/solanaPaymentMiddleware.js";
+import { SolanaBindingMode, carriesReference, issueChallenge, openChallenge, purgeExpiredChallenges } from "../src/solana/paymentBinding.js";
+import { SolanaVerifyResult } from "../src/solana/solanaVerifier.js";
+import { solanaChallengeDb, solanaSpentSignatureDb } from "../src/db.js";
+
+const RECEIVE = "GatewayReceive1111111111111111111111111111";
+const PAYER = "Payer111111111111111111111111111111111111111";
+
+/** Verifies every signature, carrying the account keys and memos given for it. */
+function verifier(txs: Record<string, { accountKeys?: string[]; memos?: string[] }> = {}) {
+  const calls: { signature: string; amount: number }[] = [];
+  return {
+    calls,
+    async verifyPayment(signature: string, amount: number): Promise<SolanaVerifyResult> {
+      calls.push({ signature, amount });
+      return { verified: true, amount, sender: PAYER, slot: 1, blockTime: null, accountKeys: [PAYER, RECEIVE], memos: [], ...txs[signature] };
+    },
+  };
+}
+
+interface Outcome {
+  status: number;
+  body: any;
+  paid: boolean;
+  finish: (status: number) => Promise<void>;
+}
+
+/** Run one request through the middleware. `finish` completes the call with a status. */
+function pay(
+  middleware: ReturnType<typeof createSolanaPaymentMiddleware>,
+  signature: string,
+  options: { path?: string; reference?: string } = {}
+): Promise<Outcome> {
+  const headers: Record<string, string> = { "x-solana-tx": signature };
+  if (options.reference) headers["x-solana-reference"] = options.reference;
+  const req: any = { method: "POST", path: options.path ?? "/api/v1/batch/execute", headers, ip: "127.0.0.1" };
+  const res: any = new EventEmitter();
+  res.statusCode = 200;
+  res.status = (code: number) => { res.statusCode = code; return res; };
+  const finish = async (status: number) => {
+    res.statusCode = status;
+    res.emit("finish");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  };
+  return new Promise((resolve) => {
+    res.json = (body: any) => resolve({ status: res.statusCode, body, paid: false, finish });
+    middleware(req as Request, res as Response, () => resolve({ status: 200, body: null, paid: req.solanaPaid === true, finish }));
+  });
+}
+
+function middleware(v: ReturnType<typeof verifier>, binding: SolanaBindingMode = "optional") {
+  return createSolanaPaymentMiddleware({ enabled: true, receiveAddress: RECEIVE, verifier: v, binding });
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("solana payments");
+
+  await test("a signature unlocks exactly one call", async () => {
+    const mw = middleware(verifier());
+    const first = await pay(mw, "sig-once");
+    assert.strictEqual(first.paid, true);
+    await first.finish(200);
+
+    const replay = await pay(mw, "sig-once", { path: "/api/v1/swap/execute" });
+    assert.deepStrictEqual([replay.status, replay.paid], [402, false]);
+    assert.match(replay.body.detail, /already been used/);
+    assert.strictEqual(replay.body.spent.endpoint, "POST /api/v1/batch/execute");
+
+    // Two requests racing with one signature: only one gets through
+    const raced = await Promise.all([pay(mw, "sig-race"), pay(mw, "sig-race")]);
+    assert.deepStrictEqual(raced.map((o) => o.paid).sort(), [false, true]);
+  });
+
+  await test("a failed call gives its signature back", async () => {
+    const mw = middleware(verifier());
+    const failed = await pay(mw, "sig-retry");
+    await failed.finish(500);
+    assert.strictEqual(await solanaSpentSignatureDb.get("sig-retry"), null);
+    const retry = await pay(mw, "sig-retry");
+    assert.strictEqual(retry.paid, true);
+    await retry.finish(200);
+    assert.strictEqual((await solanaSpentSignatureDb.get("sig-retry"))!.sender, PAYER);
+  });
+
+  await test("a reference binds the payment to one endpoint and the quoted price", async () => {
+    const challenge = await issueChallenge({ method: "POST", path: "/api/v1/batch/execute", amount: 0.02 });
+    const other = await issueChallenge({ method: "POST", path: "/api/v1/swap/execute", amount: 0.015 });
+    const v = verifier({
+      "sig-ref": { accountKeys: [PAYER, RECEIVE, challenge.reference] },
+      "sig-memo": { memos: [other.reference] },
+      "sig-plain": {},
+    });
+    const mw = middleware(v);
+
+    assert.match((await pay(mw, "sig-plain", { reference: challenge.reference })).body.detail, /does not include the payment reference/);
+    assert.match((await pay(mw, "sig-ref", { reference: other.reference, path: "/api/v1/batch/execute" })).body.detail, /issued for POST \/api\/v1\/swap\/execute/);
+
+    const bound = await pay(mw, "sig-ref", { reference: challenge.reference });
+    assert.strictEqual(bound.paid, true);
+    assert.strictEqual(v.calls[v.calls.length - 1].amount, 0.02);
+    assert.deepStrictEqual([(await solanaChallengeDb.get(challenge.reference))!.status, (await solanaChallengeDb.get(challenge.reference))!.signature], ["used", "sig-ref"]);
+    assert.match((await pay(mw, "sig-other", { reference: challenge.reference })).body.detail, /already used/);
+
+    // Memo references work too; a failed call reopens the challenge
+    const memo = await pay(mw, "sig-memo", { reference: other.reference, path: "/api/v1/swap/execute" });
+    assert.strictEqual(memo.paid, true);
+    await memo.finish(400);
+    assert.strictEqual((await solanaChallengeDb.get(other.reference))!.status, "open");
+  });
+
+  await test("expired and unknown references are refused, required mode insists on one", async () => {
+    const stale = await issueChallenge({ method: "POST", path: "/api/v1/batch/execute", amount: 0.02 }, new Date(Date.now() - 3_600_000));
+    assert.deepStrictEqual(await openChallenge(stale.reference, { method: "POST", path: "/api/v1/batch/execute" }), { challenge: null, error: "Payment reference expired" });
+    assert.strictEqual((await openChallenge("nope", { method: "POST", path: "/" })).error, "Unknown payment reference");
+    assert.strictEqual(carriesReference({ memos: ["order 42 " + stale.reference] }, stale.reference), true);
+
+    const required = await pay(middleware(verifier(), "required"), "sig-unbound");
+    assert.strictEqual(required.status, 402);
+    assert.match(required.body.detail, /X-Solana-Reference is required/);
+
+    // With binding off the header is ignored
+    const off = await pay(middleware(verifier(), "off"), "sig-off", { reference: "whatever" });
+    assert.strictEqual(off.paid, true);
+  });
+
+  await test("expired references are purged, live ones kept", async () => {
+    const now = new Date();
+    const live = await issueChallenge({ method: "POST", path: "/api/v1/batch/execute", amount: 0.02 }, now);
+    const stale = await issueChallenge({ method: "POST", path: "/api/v1/batch/execute", amount: 0.02 }, new Date(now.getTime() - 3_600_000));
+    assert.ok((await purgeExpiredChallenges(now)) >= 1);
+    assert.strictEqual(await solanaChallengeDb.get(stale.reference), null);
+    assert.strictEqual((await solanaChallengeDb.get(live.reference))!.status, "open");
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
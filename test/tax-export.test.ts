@@ -0,0 +1,133 @@
+/**
+ * Tests for tax report exports (src/lib/tax-export.ts and the `format`
+ * query of GET /api/v1/tax/report).
+ *
+ * Reports are calculated with caller-supplied prices, so no CoinGecko
+ * access is needed.
+ *
+ *   npx ts-node --project test/tsconfig.json test/tax-export.test.ts   (npm run test:tax-export)
+ */
+
+import assert from "node:assert";
+import { LedgerEntry, renderForm8949, renderKoinlyCsv, ukMatch, ukTaxYear } from "../src/lib/tax-export.js";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import { taxCalculateHandler, taxReportHandler } from "../src/routes/tax.js";
+
+async function calculate(body: any): Promise<any> {
+  const result = await invokeHandler(taxCalculateHandler, { body });
+  assert.strictEqual(result.status, 200);
+  return { id: result.body.reportId, events: result.body.events, summary: { ...result.body.summary, openLots: result.body.openLots } };
+}
+
+const lotHistory = {
+  method: "fifo",
+  transactions: [
+    { type: "acquisition", asset: "ETH", amount: "1", date: "2023-01-10T00:00:00Z", valueUsd: 1000, txHash: "0xa1" },
+    { type: "acquisition", asset: "ETH", amount: "1", date: "2024-03-01T00:00:00Z", valueUsd: 3000, txHash: "0xa2" },
+    { type: "disposal", asset: "ETH", amount: "1.5", date: "2024-09-01T00:00:00Z", priceUsd: 2500, feeUsd: 5, txHash: "0xd1" },
+    { type: "acquisition", asset: "SOL", amount: "10", date: "2025-01-05T00:00:00Z", priceUsd: 200, txHash: "0xa3" },
+    { type: "disposal", asset: "SOL", amount: "12", date: "2025-02-01T00:00:00Z", valueUsd: 2400, txHash: "0xd2" },
+  ],
+};
+
+function ledger(kind: LedgerEntry["kind"], amount: string, at: string, valueUsd: number, feeUsd = 0): LedgerEntry {
+  return { kind, asset: "ETH", amount, at, valueUsd, feeUsd, priceSource: "caller-provided", txHash: null, wallet: null, toWallet: null };
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("tax export");
+
+  await test("Form 8949 splits lots by term and box, totals them and carries to Schedule D", async () => {
+    const csv = renderForm8949(await calculate(lotHistory)).split("\n");
+    const at = (title: string) => csv.indexOf(title);
+
+    assert.ok(at("Form 8949 Part I — Short-term (Box C)") >= 0);
+    assert.ok(at("Form 8949 Part II — Long-term (Box F)") >= 0);
+    assert.ok(at("Form 8949 Part I — Short-term (Box I)") >= 0);
+    // 2023 lot: held 600 days; proceeds net of the $5 fee, pro-rated over 1.5 ETH
+    assert.strictEqual(csv[at("Form 8949 Part II — Long-term (Box F)") + 2], "1 ETH,01/10/2023,09/01/2024,2496.67,1000.00,,,1496.67,caller-provided,caller-provided,0xd1,lot_0");
+    assert.strictEqual(csv[at("Form 8949 Part I — Short-term (Box C)") + 2], "0.5 ETH,03/01/2024,09/01/2024,1248.33,1500.00,,,-251.67,caller-provided,caller-provided,0xd1,lot_1");
+    assert.strictEqual(csv[at("Form 8949 Part I — Short-term (Box C)") + 3], "Totals,,,1248.33,1500.00,,,-251.67");
+    assert.ok(csv.includes("3,Totals from Form 8949 Box C,1248.33,1500.00,,-251.67"));
+    assert.ok(csv.includes("10,Totals from Form 8949 Box F,2496.67,1000.00,,1496.67"));
+
+    // 2 SOL had no acquisition: listed for review, kept out of the totals
+    const review = at("Needs review — not fileable as-is (missing date/basis/proceeds)");
+    assert.strictEqual(csv[review + 2], "2 SOL,,02/01/2025,400.00,,,,,caller-provided,no-matching-lot,0xd2,");
+    assert.ok(csv.includes("3,Totals from Form 8949 Box I,2000.00,2000.00,,0.00"));
+  });
+
+  await test("a year filter keeps that year's disposals only", async () => {
+    const csv = renderForm8949(await calculate(lotHistory), 2025);
+    assert.ok(!csv.includes("ETH"));
+    assert.match(csv, /Box I/);
+    assert.strictEqual(renderForm8949(await calculate(lotHistory), 2019), "No disposals in this report\n");
+  });
+
+  await test("UK matching takes same-day, then the next 30 days, then the Section 104 pool", () => {
+    const { disposals, pools } = ukMatch([
+      ledger("acquisition", "10", "2024-01-01T10:00:00.000Z", 10_000),
+      ledger("disposal", "5", "2024-03-01T15:00:00.000Z", 10_000, 50),
+      ledger("acquisition", "2", "2024-03-01T09:00:00.000Z", 3_800),
+      ledger("acquisition", "1", "2024-03-20T00:00:00.000Z", 1_800),
+      // Outside the 30-day window, so it joins the pool
+      ledger("acquisition", "1", "2024-04-05T00:00:00.000Z", 1_700),
+    ]);
+    assert.strictEqual(disposals[0].taxYear, "2023-24");
+    assert.deepStrictEqual(
+      disposals[0].matches.map((m) => [m.rule, m.amount, m.acquiredAt?.slice(0, 10) ?? null, m.proceedsUsd, m.allowableCostUsd, m.gainLossUsd]),
+      [
+        ["same-day", "2", "2024-03-01", 4000, 3820, 180],
+        ["bed-and-breakfast", "1", "2024-03-20", 2000, 1810, 190],
+        ["section-104", "2", null, 4000, 2020, 1980],
+      ],
+    );
+    assert.deepStrictEqual(pools, [{ asset: "ETH", amount: "9", costUsd: 9700 }]);
+    assert.deepStrictEqual([ukTaxYear("2025-04-05T23:00:00Z"), ukTaxYear("2025-04-06T00:00:00Z")], ["2024-25", "2025-26"]);
+  });
+
+  await test("Koinly CSV lists every movement with its price source", async () => {
+    const report = await calculate({ method: "fifo", transactions: [
+      { type: "income", asset: "ETH", amount: "0.1", date: "2024-01-01T00:00:00Z", priceUsd: 2000, wallet: "0xAA" },
+      { type: "transfer", asset: "ETH", amount: "0.1", date: "2024-01-02T12:30:00Z", wallet: "0xaa", toWallet: "0xbb" },
+      { type: "disposal", asset: "ETH", amount: "0.1", date: "2024-02-01T00:00:00Z", valueUsd: 250, feeUsd: 1.5, wallet: "0xbb", txHash: "0xd" },
+    ] });
+    assert.deepStrictEqual(renderKoinlyCsv(report).trim().split("\n"), [
+      "Date,Sent Amount,Sent Currency,Received Amount,Received Currency,Fee Amount,Fee Currency,Net Worth Amount,Net Worth Currency,Label,Description,TxHash,Price Source",
+      "2024-01-01 00:00 UTC,,,0.1,ETH,,,200.00,USD,income,Wallet 0xaa,,caller-provided",
+      "2024-01-02 12:30 UTC,0.1,ETH,0.1,ETH,,,,,,Transfer 0xaa → 0xbb,,not-priced",
+      "2024-02-01 00:00 UTC,0.1,ETH,,,1.50,USD,250.00,USD,,Wallet 0xbb,0xd,caller-provided",
+    ]);
+  });
+
+  await test("the report route serves each format as a CSV download", async () => {
+    const legacy = await calculate({ transactions: [
+      { type: "sale", asset: "ETH", amount: 2, acquisitionDate: "2024-01-10", disposalDate: "2024-02-01", costBasisUsd: 4000, proceedsUsd: 5000 },
+    ] });
+    const form = await invokeHandler(taxReportHandler, { method: "GET", query: { reportId: legacy.id, format: "8949" } });
+    assert.strictEqual(form.status, 200);
+    assert.match(form.body, /\n2 ETH,01\/10\/2024,02\/01\/2024,5000\.00,4000\.00,,,1000\.00,caller-provided,caller-provided,,\n/);
+
+    const uk = await invokeHandler(taxReportHandler, { method: "GET", query: { reportId: legacy.id, format: "uk-cgt", year: "2023" } });
+    assert.match(uk.body, /\n2023-24,1,5000\.00,4000\.00,1000\.00,0\.00,1000\.00,0\n/);
+    assert.match(uk.body, /\n01\/02\/2024,2023-24,ETH,2,section-104,,5000\.00,4000\.00,1000\.00,caller-provided,caller-provided,\n/);
+
+    const json = await invokeHandler(taxReportHandler, { method: "GET", query: { reportId: legacy.id } });
+    assert.strictEqual(json.body.events[0].acquiredAt, "2024-01-10T00:00:00.000Z");
+
+    assert.strictEqual((await invokeHandler(taxReportHandler, { method: "GET", query: { reportId: legacy.id, format: "pdf" } })).status, 400);
+    assert.strictEqual((await invokeHandler(taxReportHandler, { method: "GET", query: { format: "koinly" } })).status, 400);
+    assert.strictEqual((await invokeHandler(taxReportHandler, { method: "GET", query: { reportId: legacy.id, format: "8949", year: "24" } })).status, 400);
+    assert.strictEqual((await invokeHandler(taxReportHandler, { method: "GET", query: { reportId: "tax_missing", format: "8949" } })).status, 404);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
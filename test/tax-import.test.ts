@@ -0,0 +1,191 @@
+/**
+ * Tests for wallet-history import (src/lib/tax-import.ts and
+ * POST /api/v1/tax/import-wallet in src/routes/tax.ts).
+ *
+ * History comes from an in-memory WalletHistorySource, and every priced
+ * row is a recent stablecoin movement, so no Basescan, Blockscout or
+ * CoinGecko access is needed.
+ *
+ *   npx ts-node --project test/tsconfig.json test/tax-import.test.ts   (npm run test:tax-import)
+ */
+
+import assert from "node:assert";
+import { classifyTransaction } from "../src/lib/tax-import.js";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import { WalletHistorySource, importWalletTax, listBasescanRange, taxImportWalletHandler } from "../src/routes/tax.js";
+
+const A = "0x" + "a".repeat(40);
+const B = "0x" + "b".repeat(40);
+const OUTSIDER = "0x" + "1".repeat(40);
+const ROUTER = "0x" + "2".repeat(40);
+const own = new Set([A, B]);
+
+const hash = (n: number) => "0x" + n.toString(16).padStart(64, "0");
+const daysAgo = (n: number) => new Date(Date.now() - n * 86_400_000).toISOString();
+
+function erc20(symbol: string, from: string, to: string, amount: string, decimals = 6) {
+  return { from, to, value: (BigInt(amount) * 10n ** BigInt(decimals)).toString(), symbol, tokenType: "ERC-20", decimals };
+}
+
+function tx(n: number, at: string, transfers: any[], extra: any = {}) {
+  return {
+    hash: hash(n), status: "ok", blockTimestamp: at, from: A, to: ROUTER, value: "0",
+    decoded: { type: "unknown" }, tokenTransfers: transfers, ...extra,
+  };
+}
+
+// USDC income to A, moved to B, swapped for DAI; ETH sent away; a wrap; and an old tx
+function history(): any[] {
+  return [
+    tx(1, daysAgo(40), [erc20("USDC", OUTSIDER, A, "100")], { from: OUTSIDER, to: "0xusdc" }),
+    tx(2, daysAgo(35), [erc20("USDC", A, B, "40")]),
+    tx(3, daysAgo(30), [erc20("USDC", B, ROUTER, "40"), erc20("DAI", ROUTER, B, "40", 18)], { from: B, decoded: { type: "swap" } }),
+    tx(4, daysAgo(25), [], { to: OUTSIDER, value: "500000000000000000" }),
+    tx(5, daysAgo(20), [], { value: "1000", decoded: { type: "wrap" } }),
+    tx(6, daysAgo(400), [erc20("USDC", OUTSIDER, A, "5")]),
+  ];
+}
+
+function source(txs: any[], truncated = false): WalletHistorySource & { decoded: string[] } {
+  const byHash = new Map(txs.map((t) => [t.hash, t]));
+  const decoded: string[] = [];
+  return {
+    name: "test",
+    decoded,
+    async listTransactions(address, start, end) {
+      const mine = txs
+        .filter((t) => t.tokenTransfers.some((x: any) => x.from === address || x.to === address) || t.from === address)
+        .filter((t) => Date.parse(t.blockTimestamp) >= start.getTime() && Date.parse(t.blockTimestamp) <= end.getTime());
+      return { entries: mine.map((t) => ({ hash: t.hash, timestamp: t.blockTimestamp })), truncated };
+    },
+    async decode(h) {
+      decoded.push(h);
+      return byHash.get(h) ?? null;
+    },
+  };
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("tax import");
+
+  await test("movements are classified against the caller's own addresses", () => {
+    const pick = (decoded: any) => classifyTransaction(decoded, own).rows.map((r) => [r.type, r.asset, r.amount, r.wallet, r.toWallet, r.ambiguity?.suggested]);
+    const [income, move, swap, send] = history();
+    assert.deepStrictEqual(pick(income), [[null, "USDC", "100", A, null, "income"]]);
+    assert.deepStrictEqual(pick(move), [["transfer", "USDC", "40", A, B, undefined]]);
+    assert.deepStrictEqual(pick(swap), [["disposal", "USDC", "40", B, null, undefined], ["acquisition", "DAI", "40", B, null, undefined]]);
+    assert.deepStrictEqual(pick(send), [[null, "ETH", "0.5", A, null, "disposal"]]);
+    // WETH bought in a swap is ETH
+    assert.deepStrictEqual(pick(tx(7, daysAgo(1), [erc20("USDC", A, ROUTER, "10"), erc20("WETH", ROUTER, A, "1", 18)])), [
+      ["disposal", "USDC", "10", A, null, undefined], ["acquisition", "ETH", "1", A, null, undefined],
+    ]);
+  });
+
+  await test("wraps, failures, NFTs and unrelated transactions are skipped with a reason", () => {
+    const reason = (decoded: any) => classifyTransaction(decoded, own).skipped?.reason;
+    assert.match(reason(history()[4])!, /wrap/);
+    assert.strictEqual(reason(tx(8, daysAgo(1), [erc20("USDC", A, OUTSIDER, "1")], { status: "error" })), "failed transaction");
+    assert.match(reason(tx(9, daysAgo(1), [{ from: OUTSIDER, to: A, value: "1", symbol: "PUNK", tokenType: "ERC-721", decimals: null }]))!, /ERC-721 transfer of PUNK/);
+    assert.match(reason(tx(10, daysAgo(1), [erc20("USDC", OUTSIDER, ROUTER, "1")], { from: OUTSIDER }))!, /no token or ETH movement/);
+  });
+
+  await test("unlabelled ambiguous rows are held back and the rest is calculated", async () => {
+    const history$ = source(history());
+    const result = await importWalletTax({ addresses: [A, B.toUpperCase().replace("0X", "0x")], startDate: daysAgo(60) }, history$);
+    assert.strictEqual(result.status, 200);
+    const { import: imported, summary, warnings } = result.body;
+    // The 400-day-old tx is outside the range and never decoded
+    assert.ok(!history$.decoded.includes(hash(6)));
+    assert.deepStrictEqual(imported.addresses, [A, B]);
+    assert.deepStrictEqual(imported.ambiguous.map((r: any) => r.id), [`${hash(1)}:0`, `${hash(4)}:0`]);
+    assert.deepStrictEqual(imported.skipped.map((s: any) => s.txHash), [hash(5)]);
+    assert.deepStrictEqual(imported.counted, [`${hash(2)}:0`, `${hash(3)}:0`, `${hash(3)}:1`]);
+    // Without the income, the transfer and sale have no lots behind them
+    assert.strictEqual(summary.disposalsMissingData, 1);
+    assert.ok(warnings.some((w: string) => /2 row\(s\) need a label/.test(w)));
+    assert.ok(warnings.some((w: string) => /transactions\[0\] \(USDC\): 40 exceeds the open lots/.test(w)));
+  });
+
+  await test("labels bring ambiguous rows into the lot calculation", async () => {
+    const result = await importWalletTax({
+      addresses: [A, B], startDate: daysAgo(60), method: "lifo",
+      labels: { [`${hash(1)}:0`]: "income", [`${hash(4)}:0`]: "ignore", [`${hash(99)}:0`]: "income" },
+    }, source(history()));
+    const { summary, openLots, import: imported, reportId, warnings } = result.body;
+    assert.ok(reportId.startsWith("tax_"));
+    assert.strictEqual(imported.ambiguous.length, 0);
+    assert.deepStrictEqual(
+      [summary.method, summary.incomeUsd, summary.proceedsUsd, summary.costBasisUsd, summary.totalGainLossUsd],
+      ["lifo", 100, 40, 40, 0],
+    );
+    assert.deepStrictEqual(openLots.map((l: any) => [l.asset, l.wallet, l.amount]), [["DAI", B, "40"], ["USDC", A, "60"]]);
+    assert.ok(warnings.some((w: string) => w.includes(`labels matched no imported row: ${hash(99)}:0`)));
+
+    await assert.rejects(
+      importWalletTax({ addresses: [A], startDate: daysAgo(60), labels: { [`${hash(1)}:0`]: "transfer" } }, source(history())),
+      /must be one of: acquisition, income, disposal, ignore/,
+    );
+  });
+
+  await test("a truncated history warns when it may not reach the end date", async () => {
+    const result = await importWalletTax({ addresses: [A], startDate: daysAgo(90), endDate: daysAgo(33) }, source(history().slice(0, 5), true));
+    assert.ok(result.body.warnings.some((w: string) => /more than 10000 transfers in range; history stops at .* later activity is missing/.test(w)));
+    // B isn't listed this time, so A → B could be a sale
+    assert.deepStrictEqual(result.body.import.ambiguous.map((r: any) => [r.id, r.ambiguity.suggested]), [
+      [`${hash(1)}:0`, "income"], [`${hash(2)}:0`, "disposal"],
+    ]);
+
+    const empty = await importWalletTax({ addresses: [A], startDate: daysAgo(3) }, source(history()));
+    assert.deepStrictEqual([empty.status, empty.body.reportId, empty.body.import.transactionsScanned], [200, null, 0]);
+  });
+
+  await test("Basescan history is paged by block window until the range is covered", async () => {
+    const rows = (from: number, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ hash: hash(from + i), blockNumber: String(from + Math.floor(i / 2)), timeStamp: "0" }));
+    const calls: Array<Record<string, string>> = [];
+    const pages = [rows(100, 1000), rows(599, 1000), rows(1098, 3)];
+    const query = async (params: Record<string, string>) => {
+      calls.push(params);
+      return pages.shift() ?? null;
+    };
+    const result = await listBasescanRange(query, "tokentx", A, 100, 5000);
+    assert.deepStrictEqual(calls.map((c) => [c.startblock, c.endblock, c.sort]), [["100", "5000", "asc"], ["599", "5000", "asc"], ["1098", "5000", "asc"]]);
+    assert.deepStrictEqual([result.rows.length, result.truncated], [2003, false]);
+
+    // A full page from a single block can't be windowed past
+    const stuck = await listBasescanRange(async () => rows(7, 1000).map((r) => ({ ...r, blockNumber: "7" })), "txlist", A, 7, 5000);
+    assert.strictEqual(stuck.truncated, true);
+  });
+
+  await test("decoding stops at the time budget and says what was left out", async () => {
+    const slow = source(history());
+    const decode = slow.decode;
+    slow.decode = async (h) => {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return decode(h);
+    };
+    const result = await importWalletTax({ addresses: [A, B], startDate: daysAgo(60) }, slow, 45);
+    assert.strictEqual(result.body.import.transactionsScanned, 2);
+    assert.deepStrictEqual(slow.decoded, [hash(1), hash(2)]);
+    assert.ok(result.body.warnings.some((w: string) => /decoding stopped after 2 of 5 transactions .* narrow the date range/.test(w)));
+  });
+
+  await test("the route validates addresses and dates before fetching history", async () => {
+    const post = (body: any) => invokeHandler(taxImportWalletHandler, { body });
+    assert.match((await post({ startDate: "2026-01-01" })).body.error, /addresses\[\]/);
+    assert.match((await post({ addresses: ["0x123"], startDate: "2026-01-01" })).body.error, /Invalid address: 0x123/);
+    assert.match((await post({ addresses: [A] })).body.error, /startDate/);
+    assert.match((await post({ addresses: [A], startDate: "2026-02-01", endDate: "2026-01-01" })).body.error, /on or before endDate/);
+    assert.strictEqual((await post({ addresses: Array(11).fill(A), startDate: "2026-01-01" })).status, 400);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();
@@ -0,0 +1,160 @@
+/**
+ * Tests for tax-lot matching (src/lib/tax-lots.ts and the `method` path of
+ * POST /api/v1/tax/calculate in src/routes/tax.ts).
+ *
+ * Every event is priced by caller override or is a stablecoin, so no
+ * CoinGecko access is needed.
+ *
+ *   npx ts-node --project test/tsconfig.json test/tax-lots.test.ts   (npm run test:tax-lots)
+ */
+
+import assert from "node:assert";
+import { LotEvent, matchLots, parseLotAmount } from "../src/lib/tax-lots.js";
+import { invokeHandler } from "../src/lib/invoke-handler.js";
+import { taxCalculateHandler } from "../src/routes/tax.js";
+import { taxDb } from "../src/db.js";
+
+let index = 0;
+function ev(type: LotEvent["type"], amount: string, date: string, valueUsd: number | null, extra: Partial<LotEvent> = {}): LotEvent {
+  return {
+    index: index++, type, asset: "ETH", amount: parseLotAmount(amount)!, timestamp: Date.parse(date),
+    wallet: null, toWallet: null, valueUsd, feeUsd: 0, txHash: null, priceSource: "caller-provided", ...extra,
+  };
+}
+
+// Three ETH buys at $1,000, $3,000 and $2,000, then a 1.5 ETH sale at $2,500
+function history(): LotEvent[] {
+  index = 0;
+  return [
+    ev("acquisition", "1", "2023-01-10T00:00:00Z", 1000),
+    ev("acquisition", "1", "2024-03-01T00:00:00Z", 3000),
+    ev("acquisition", "1", "2024-06-01T00:00:00Z", 2000),
+    ev("disposal", "1.5", "2024-09-01T00:00:00Z", 3750),
+  ];
+}
+
+let passed = 0;
+async function test(name: string, fn: () => void | Promise<void>): Promise<void> {
+  await fn();
+  passed++;
+  console.log(`  ✓ ${name}`);
+}
+
+(async () => {
+  console.log("tax lots");
+
+  await test("FIFO, LIFO and HIFO consume different lots and split the last one", () => {
+    const pick = (method: "fifo" | "lifo" | "hifo") => {
+      const { events, openLots } = matchLots(history(), method);
+      const sale = events.find((e) => e.type === "disposal");
+      return {
+        lots: sale.lots.map((l: any) => [l.lotId, l.amount, l.costBasisUsd]),
+        basis: sale.costBasisUsd, gain: sale.gainLossUsd, term: sale.holdingPeriod,
+        open: openLots.map((l) => [l.lotId, l.amount, l.costBasisUsd]),
+      };
+    };
+    assert.deepStrictEqual(pick("fifo"), {
+      lots: [["lot_0", "1", 1000], ["lot_1", "0.5", 1500]], basis: 2500, gain: 1250, term: "mixed",
+      open: [["lot_1", "0.5", 1500], ["lot_2", "1", 2000]],
+    });
+    assert.deepStrictEqual(pick("lifo"), {
+      lots: [["lot_2", "1", 2000], ["lot_1", "0.5", 1500]], basis: 3500, gain: 250, term: "short",
+      open: [["lot_0", "1", 1000], ["lot_1", "0.5", 1500]],
+    });
+    assert.deepStrictEqual(pick("hifo"), {
+      lots: [["lot_1", "1", 3000], ["lot_2", "0.5", 1000]], basis: 4000, gain: -250, term: "short",
+      open: [["lot_0", "1", 1000], ["lot_2", "0.5", 1000]],
+    });
+  });
+
+  await test("holding period is per lot consumed and the summary splits terms", () => {
+    const { events, summary } = matchLots(history(), "fifo");
+    const sale = events.find((e) => e.type === "disposal");
+    assert.deepStrictEqual(sale.lots.map((l: any) => [l.holdingDays, l.holdingPeriod, l.gainLossUsd]), [[600, "long", 1500], [184, "short", -250]]);
+    assert.deepStrictEqual(
+      [summary.proceedsUsd, summary.costBasisUsd, summary.shortTermGainLoss, summary.longTermGainLoss, summary.totalGainLossUsd],
+      [3750, 2500, -250, 1500, 1250],
+    );
+  });
+
+  await test("long term starts the day after the acquisition's anniversary, leap years included", () => {
+    const term = (bought: string, sold: string) => {
+      index = 0;
+      const { events } = matchLots([ev("acquisition", "1", bought, 1000), ev("disposal", "1", sold, 2000)], "fifo");
+      return [events[1].lots[0].holdingDays, events[1].lots[0].holdingPeriod];
+    };
+    // 2024 is a leap year: 366 days, still exactly one year
+    assert.deepStrictEqual(term("2024-01-01T00:00:00Z", "2025-01-01T23:00:00Z"), [366, "short"]);
+    assert.deepStrictEqual(term("2024-01-01T00:00:00Z", "2025-01-02T00:00:00Z"), [367, "long"]);
+    assert.deepStrictEqual(term("2024-02-29T12:00:00Z", "2025-02-28T12:00:00Z"), [365, "short"]);
+    assert.deepStrictEqual(term("2024-02-29T12:00:00Z", "2025-03-01T00:00:00Z"), [365, "long"]);
+    assert.deepStrictEqual(term("2023-03-01T00:00:00Z", "2024-03-01T00:00:00Z"), [366, "short"]);
+  });
+
+  await test("fees add to basis on buys, come off proceeds on sales, and amounts stay exact", () => {
+    index = 0;
+    const { events, openLots } = matchLots([
+      ev("acquisition", "0.3", "2024-01-01T00:00:00Z", 600, { feeUsd: 3 }),
+      ev("disposal", "0.1", "2024-02-01T00:00:00Z", 250, { feeUsd: 1 }),
+      ev("disposal", "0.1", "2024-02-02T00:00:00Z", 250),
+    ], "fifo");
+    assert.deepStrictEqual([events[1].proceedsUsd, events[1].costBasisUsd, events[1].gainLossUsd], [249, 201, 48]);
+    assert.deepStrictEqual(openLots.map((l) => [l.amount, l.costBasisUsd, l.unitCostUsd]), [["0.1", 201, 2010]]);
+  });
+
+  await test("own-wallet transfers move lots with their date and basis, plus the fee", () => {
+    index = 0;
+    const { events, openLots, warnings } = matchLots([
+      ev("acquisition", "2", "2023-01-01T00:00:00Z", 2000, { wallet: "hot" }),
+      ev("acquisition", "1", "2024-01-01T00:00:00Z", 2500, { wallet: "cold" }),
+      ev("transfer", "1.5", "2024-02-01T00:00:00Z", null, { wallet: "hot", toWallet: "cold", feeUsd: 6 }),
+      ev("disposal", "2", "2024-03-01T00:00:00Z", 6000, { wallet: "cold" }),
+      ev("disposal", "1", "2024-03-02T00:00:00Z", 3000, { wallet: "hot" }),
+    ], "fifo");
+    assert.deepStrictEqual(events[2].lotsMoved, [{ lotId: "lot_0", amount: "1.5" }]);
+    const cold = events[3];
+    assert.deepStrictEqual(cold.lots.map((l: any) => [l.lotId, l.amount, l.costBasisUsd, l.acquiredAt]), [
+      ["lot_0", "1.5", 1506, "2023-01-01T00:00:00.000Z"], ["lot_1", "0.5", 1250, "2024-01-01T00:00:00.000Z"],
+    ]);
+    // Only 0.5 ETH is left in the hot wallet
+    const hot = events[4];
+    assert.deepStrictEqual([hot.unmatchedAmount, hot.costBasisUsd, hot.gainLossUsd, hot.holdingPeriod], ["0.5", null, null, "unknown"]);
+    assert.match(warnings[0], /transactions\[4\] \(ETH\): 0\.5 exceeds the open lots in hot/);
+    assert.deepStrictEqual(openLots.map((l) => [l.lotId, l.wallet, l.amount]), [["lot_1", "cold", "0.5"]]);
+  });
+
+  await test("calculate matches lots when a method is passed and stores the report", async () => {
+    const result = await invokeHandler(taxCalculateHandler, { body: { method: "hifo", transactions: [
+      { type: "disposal", asset: "eth", amount: 1, date: "2024-09-01T00:00:00Z", priceUsd: 2500, wallet: "0xABC" },
+      { type: "acquisition", asset: "ETH", amount: "1", date: "2024-01-01T00:00:00Z", valueUsd: 1800, wallet: "0xabc" },
+      { type: "acquisition", asset: "ETH", amount: "1", date: "2024-02-01T00:00:00Z", priceUsd: 2300, feeUsd: 5, wallet: "0xabc" },
+      // Within the 365-day price window; stablecoins resolve without a request
+      { type: "income", asset: "USDC", amount: "50", date: new Date(Date.now() - 30 * 86_400_000).toISOString() },
+    ] } });
+    assert.strictEqual(result.status, 200);
+    const sale = result.body.events.find((e: any) => e.type === "disposal");
+    assert.deepStrictEqual([sale.index, sale.lots[0].lotId, sale.costBasisUsd, sale.gainLossUsd], [0, "lot_2", 2305, 195]);
+    assert.strictEqual(result.body.events.find((e: any) => e.type === "income").priceSource, "lookup");
+    assert.deepStrictEqual([result.body.summary.method, result.body.summary.incomeUsd, result.body.openLots.length], ["hifo", 50, 2]);
+
+    const stored = await taxDb.get(result.body.reportId);
+    assert.deepStrictEqual(stored.summary.openLots, result.body.openLots);
+  });
+
+  await test("lot mode validates method, types, dates and transfers", async () => {
+    const calc = (method: any, tx: any) => invokeHandler(taxCalculateHandler, { body: { method, transactions: [tx] } });
+    const ok = { type: "acquisition", asset: "ETH", amount: "1", date: "2024-01-01", valueUsd: 1 };
+    assert.match((await calc("avco", ok)).body.error, /method must be one of: fifo, lifo, hifo/);
+    assert.match((await calc("fifo", { ...ok, type: "swap" })).body.error, /'type' must be one of/);
+    assert.match((await calc("fifo", { ...ok, date: undefined })).body.error, /transactions\[0\]: 'date' is required/);
+    assert.match((await calc("fifo", { ...ok, amount: "0.0000000000000000001" })).body.error, /at most 18 decimals/);
+    assert.match((await calc("fifo", { ...ok, type: "transfer", wallet: "a", toWallet: "A" })).body.error, /'toWallet' different/);
+    assert.strictEqual((await calc("fifo", { ...ok, feeUsd: -1 })).status, 400);
+
+    const legacy = await invokeHandler(taxCalculateHandler, { body: { transactions: [{ asset: "ETH", amount: 1, costBasisUsd: 100, proceedsUsd: 150 }] } });
+    assert.strictEqual(legacy.body.events[0].gainLoss, 50);
+  });
+
+  console.log(`\n${passed} passed`);
+  process.exit(0);
+})();